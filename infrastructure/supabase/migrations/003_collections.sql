@@ -0,0 +1,138 @@
+-- ============================================================================
+-- Collections Sharing and Favourites Migration
+-- ============================================================================
+-- Completes the collection tables from 001_initial_schema for the collections
+-- service: collection_shares had RLS enabled without policies, editors could
+-- not change shared collections, and favourite counts were never maintained
+-- Created: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- Helper Functions
+-- ============================================================================
+
+-- Owner check that bypasses collections RLS, so share policies can use it
+-- without recursing through collections_read
+CREATE OR REPLACE FUNCTION is_collection_owner(p_collection_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM collections
+    WHERE id = p_collection_id
+    AND owner_id = p_user_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Whether a user holds an unexpired share with one of the given permissions
+CREATE OR REPLACE FUNCTION has_collection_permission(
+  p_collection_id UUID,
+  p_user_id UUID,
+  p_permissions share_permission[]
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM collection_shares
+    WHERE collection_id = p_collection_id
+    AND shared_with = p_user_id
+    AND permission = ANY(p_permissions)
+    AND (expires_at IS NULL OR expires_at > NOW())
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Turn a link share into a share for the calling user and return the collection
+CREATE OR REPLACE FUNCTION redeem_collection_share(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  link collection_shares%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Must be logged in to redeem a share link';
+  END IF;
+
+  SELECT * INTO link FROM collection_shares
+  WHERE share_token = p_token
+  AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share link is invalid or has expired';
+  END IF;
+
+  IF NOT is_collection_owner(link.collection_id, auth.uid()) AND NOT EXISTS (
+    SELECT 1 FROM collection_shares
+    WHERE collection_id = link.collection_id AND shared_with = auth.uid()
+  ) THEN
+    INSERT INTO collection_shares (collection_id, shared_by, shared_with, permission, expires_at)
+    VALUES (link.collection_id, link.shared_by, auth.uid(), link.permission, link.expires_at);
+  END IF;
+
+  RETURN link.collection_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- COLLECTION_SHARES Policies
+-- ============================================================================
+
+CREATE POLICY collection_shares_read ON collection_shares
+  FOR SELECT
+  USING (
+    auth.uid() = shared_with OR
+    is_collection_owner(collection_id, auth.uid())
+  );
+
+CREATE POLICY collection_shares_insert ON collection_shares
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = shared_by AND (
+      is_collection_owner(collection_id, auth.uid()) OR
+      has_collection_permission(collection_id, auth.uid(), ARRAY['admin']::share_permission[])
+    )
+  );
+
+CREATE POLICY collection_shares_delete ON collection_shares
+  FOR DELETE
+  USING (
+    auth.uid() = shared_with OR
+    is_collection_owner(collection_id, auth.uid()) OR
+    has_collection_permission(collection_id, auth.uid(), ARRAY['admin']::share_permission[])
+  );
+
+-- ============================================================================
+-- COLLECTION_STRUCTURES Policies
+-- ============================================================================
+
+-- Editors of a shared collection may add, remove and reorder its structures
+DROP POLICY IF EXISTS collection_structures_modify ON collection_structures;
+
+CREATE POLICY collection_structures_modify ON collection_structures
+  FOR ALL
+  USING (
+    is_collection_owner(collection_id, auth.uid()) OR
+    has_collection_permission(collection_id, auth.uid(), ARRAY['edit', 'admin']::share_permission[])
+  );
+
+CREATE INDEX IF NOT EXISTS idx_collection_shares_collection ON collection_shares(collection_id);
+CREATE INDEX IF NOT EXISTS idx_collection_shares_shared_with ON collection_shares(shared_with);
+
+-- ============================================================================
+-- Favourite Counts
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_structure_favorite_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_OP = 'INSERT') THEN
+    UPDATE structures SET favorite_count = favorite_count + 1 WHERE id = NEW.structure_id;
+  ELSIF (TG_OP = 'DELETE') THEN
+    UPDATE structures SET favorite_count = GREATEST(favorite_count - 1, 0) WHERE id = OLD.structure_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_structure_favorite_count
+  AFTER INSERT OR DELETE ON structure_favorites
+  FOR EACH ROW EXECUTE FUNCTION update_structure_favorite_count();
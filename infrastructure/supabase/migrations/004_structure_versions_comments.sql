@@ -0,0 +1,92 @@
+-- ============================================================================
+-- Structure Versions and Comment Threads Migration
+-- ============================================================================
+-- Lets uploads record versions with a structural summary and a diff against
+-- the previous version, and anchors structure comments to residues or atoms
+-- with a resolved state that the author or structure owner can set
+-- Created: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- STRUCTURE_VERSIONS
+-- ============================================================================
+
+-- summary: atom/residue counts, per-chain counts and header metadata of the file
+-- diff: changes against the previous version's summary (NULL for version 1)
+ALTER TABLE structure_versions
+  ADD COLUMN IF NOT EXISTS summary JSONB,
+  ADD COLUMN IF NOT EXISTS diff JSONB;
+
+-- Anyone who may edit the structure may add a version of it
+CREATE POLICY structure_versions_insert ON structure_versions
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by AND
+    structure_id IN (
+      SELECT id FROM structures
+      WHERE owner_id = auth.uid()
+      UNION
+      SELECT structure_id FROM structure_shares
+      WHERE shared_with = auth.uid()
+        AND permission IN ('edit', 'admin')
+        AND (expires_at IS NULL OR expires_at > NOW())
+    )
+  );
+
+-- ============================================================================
+-- STRUCTURE_COMMENTS
+-- ============================================================================
+
+-- target_residue: {chainId, residueSeq, residueName, atomName?} the thread is about
+ALTER TABLE structure_comments
+  ADD COLUMN IF NOT EXISTS target_residue JSONB,
+  ADD COLUMN IF NOT EXISTS version_number INTEGER,
+  ADD COLUMN IF NOT EXISTS resolved BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+
+-- Only authors update their comments (structure_comments_update). RLS cannot
+-- limit which columns change, so resolving goes through this function, which
+-- lets the author or the structure owner set the resolved state of a thread
+CREATE OR REPLACE FUNCTION set_comment_resolved(p_comment_id UUID, p_resolved BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  c structure_comments%ROWTYPE;
+BEGIN
+  SELECT * INTO c FROM structure_comments WHERE id = p_comment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF c.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only top-level comments can be resolved';
+  END IF;
+
+  IF auth.uid() IS NULL OR NOT (
+    c.user_id = auth.uid() OR
+    c.structure_id IN (SELECT id FROM structures WHERE owner_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Only the author or the structure owner can resolve a thread';
+  END IF;
+
+  UPDATE structure_comments
+  SET resolved = p_resolved,
+      resolved_by = CASE WHEN p_resolved THEN auth.uid() END,
+      resolved_at = CASE WHEN p_resolved THEN NOW() END
+  WHERE id = p_comment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only comment on structures the user can see
+DROP POLICY IF EXISTS structure_comments_insert ON structure_comments;
+
+CREATE POLICY structure_comments_insert ON structure_comments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    structure_id IN (SELECT id FROM structures) -- Inherits structure RLS
+  );
+
+CREATE INDEX IF NOT EXISTS idx_structure_comments_resolved
+  ON structure_comments(structure_id, resolved)
+  WHERE parent_id IS NULL;
@@ -0,0 +1,227 @@
+-- ============================================================================
+-- Structure Sharing Migration
+-- ============================================================================
+-- Puts structure_shares and the share_permission levels to use:
+--   view    - open the structure and read its discussion
+--   comment - also take part in the discussion
+--   edit    - also upload new versions
+--   admin   - also manage who the structure is shared with
+-- Link shares are redeemed by signed-in users into a per-user share. The old
+-- read policy exposed every link token to anyone, so it is replaced.
+-- Unlisted structures stay out of structures_read so they cannot be listed;
+-- get_structure() opens them by ID
+-- Created: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- Helper Functions
+-- ============================================================================
+
+-- Effective access of the calling user to a structure: 'owner', the highest
+-- unexpired share permission, otherwise 'comment' on public structures for
+-- signed-in users and 'view' on public and unlisted ones, or NULL. Always
+-- for auth.uid(), so nobody can probe another user's access
+CREATE OR REPLACE FUNCTION structure_permission(p_structure_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  s structures%ROWTYPE;
+  granted share_permission;
+BEGIN
+  SELECT * INTO s FROM structures WHERE id = p_structure_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF current_user_id IS NOT NULL AND s.owner_id = current_user_id THEN
+    RETURN 'owner';
+  END IF;
+
+  IF current_user_id IS NOT NULL THEN
+    -- Enum order is view < comment < edit < admin
+    SELECT MAX(permission) INTO granted FROM structure_shares
+    WHERE structure_id = p_structure_id
+      AND shared_with = current_user_id
+      AND (expires_at IS NULL OR expires_at > NOW());
+
+    IF granted IS NOT NULL THEN
+      RETURN granted::TEXT;
+    END IF;
+  END IF;
+
+  IF s.visibility = 'public' AND current_user_id IS NOT NULL THEN
+    RETURN 'comment';
+  END IF;
+
+  IF s.visibility IN ('public', 'unlisted') THEN
+    RETURN 'view';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Whether the calling user's access to a structure is at least the given level
+CREATE OR REPLACE FUNCTION has_structure_permission(p_structure_id UUID, p_required TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  levels TEXT[] := ARRAY['view', 'comment', 'edit', 'admin', 'owner'];
+  granted TEXT := structure_permission(p_structure_id);
+BEGIN
+  RETURN granted IS NOT NULL
+    AND array_position(levels, granted) >= array_position(levels, p_required);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- A structure the calling user may view, including unlisted ones, which
+-- structures_read leaves out
+CREATE OR REPLACE FUNCTION get_structure(p_structure_id UUID)
+RETURNS SETOF structures AS $$
+  SELECT * FROM structures
+  WHERE id = p_structure_id
+    AND structure_permission(p_structure_id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Turn a link share into a share for the calling user. Counts the view,
+-- refuses expired or used-up links, and never downgrades an existing share
+CREATE OR REPLACE FUNCTION redeem_structure_share(p_token TEXT)
+RETURNS TABLE (structure_id UUID, permission TEXT) AS $$
+DECLARE
+  link structure_shares%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Must be logged in to redeem a share link';
+  END IF;
+
+  SELECT * INTO link FROM structure_shares s
+  WHERE s.share_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR (link.expires_at IS NOT NULL AND link.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Share link is invalid or has expired';
+  END IF;
+
+  IF link.max_views IS NOT NULL AND link.view_count >= link.max_views THEN
+    RAISE EXCEPTION 'Share link has reached its view limit';
+  END IF;
+
+  UPDATE structure_shares
+  SET view_count = view_count + 1, last_accessed = NOW()
+  WHERE id = link.id;
+
+  IF NOT has_structure_permission(link.structure_id, link.permission::TEXT) THEN
+    DELETE FROM structure_shares s
+    WHERE s.structure_id = link.structure_id AND s.shared_with = auth.uid();
+
+    INSERT INTO structure_shares (structure_id, shared_by, shared_with, permission, expires_at)
+    VALUES (link.structure_id, link.shared_by, auth.uid(), link.permission, link.expires_at);
+  END IF;
+
+  RETURN QUERY SELECT link.structure_id, structure_permission(link.structure_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- STRUCTURE_SHARES Policies
+-- ============================================================================
+
+DROP POLICY IF EXISTS structure_shares_read ON structure_shares;
+DROP POLICY IF EXISTS structure_shares_insert ON structure_shares;
+DROP POLICY IF EXISTS structure_shares_delete ON structure_shares;
+
+CREATE POLICY structure_shares_read ON structure_shares
+  FOR SELECT
+  USING (
+    auth.uid() = shared_by OR
+    auth.uid() = shared_with OR
+    has_structure_permission(structure_id, 'admin')
+  );
+
+CREATE POLICY structure_shares_insert ON structure_shares
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = shared_by AND
+    has_structure_permission(structure_id, 'admin')
+  );
+
+CREATE POLICY structure_shares_update ON structure_shares
+  FOR UPDATE
+  USING (has_structure_permission(structure_id, 'admin'));
+
+-- Recipients may also leave a share
+CREATE POLICY structure_shares_delete ON structure_shares
+  FOR DELETE
+  USING (
+    auth.uid() = shared_with OR
+    has_structure_permission(structure_id, 'admin')
+  );
+
+-- ============================================================================
+-- STRUCTURE_COMMENTS Policies
+-- ============================================================================
+
+-- View-only shares may read the discussion but not join it
+DROP POLICY IF EXISTS structure_comments_insert ON structure_comments;
+
+CREATE POLICY structure_comments_insert ON structure_comments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    has_structure_permission(structure_id, 'comment')
+  );
+
+-- Admins of a structure may resolve threads as its owner can
+CREATE OR REPLACE FUNCTION set_comment_resolved(p_comment_id UUID, p_resolved BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  c structure_comments%ROWTYPE;
+BEGIN
+  SELECT * INTO c FROM structure_comments WHERE id = p_comment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF c.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only top-level comments can be resolved';
+  END IF;
+
+  IF auth.uid() IS NULL OR NOT (
+    c.user_id = auth.uid() OR
+    has_structure_permission(c.structure_id, 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only the author or a structure admin can resolve a thread';
+  END IF;
+
+  UPDATE structure_comments
+  SET resolved = p_resolved,
+      resolved_by = CASE WHEN p_resolved THEN auth.uid() END,
+      resolved_at = CASE WHEN p_resolved THEN NOW() END
+  WHERE id = p_comment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- Storage: structures bucket
+-- ============================================================================
+-- Files live at <uploader id>/<structure id>/v<n>-<filename>
+
+CREATE POLICY structure_files_read ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'structures' AND
+    has_structure_permission(((storage.foldername(name))[2])::UUID, 'view')
+  );
+
+CREATE POLICY structure_files_insert ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'structures' AND
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY structure_files_delete ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'structures' AND
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
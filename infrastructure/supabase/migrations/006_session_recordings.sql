@@ -0,0 +1,73 @@
+-- ============================================================================
+-- Session Recordings Migration
+-- ============================================================================
+-- Recorded event streams of collaboration sessions, so people who missed a
+-- session can replay it. Events are stored in the compact form written by
+-- src/lib/session-recording.ts
+-- Created: 2026-10-19
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS session_recordings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- Recordings outlive their session
+  session_id UUID REFERENCES collaboration_sessions(id) ON DELETE SET NULL,
+  recorded_by UUID NOT NULL,
+  title TEXT NOT NULL,
+  structure_id TEXT,
+  started_at TIMESTAMPTZ NOT NULL,
+  duration_ms INTEGER NOT NULL CHECK (duration_ms >= 0),
+  event_count INTEGER NOT NULL CHECK (event_count >= 0),
+  events JSONB NOT NULL, -- { version, types, events: [delta ms, type index, payload][] }
+  is_public BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_title CHECK (char_length(title) BETWEEN 1 AND 200)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recordings_session ON session_recordings(session_id);
+CREATE INDEX IF NOT EXISTS idx_recordings_recorded_by ON session_recordings(recorded_by);
+CREATE INDEX IF NOT EXISTS idx_recordings_created ON session_recordings(created_at DESC);
+
+-- ============================================================================
+-- SESSION_RECORDINGS Policies
+-- ============================================================================
+
+ALTER TABLE session_recordings ENABLE ROW LEVEL SECURITY;
+
+-- Session members can watch a session's recordings, and anyone can watch
+-- public ones
+CREATE POLICY "Members can view session recordings"
+ON session_recordings
+FOR SELECT
+USING (
+  is_public = true OR
+  recorded_by = auth.uid() OR
+  session_id IN (
+    SELECT session_id FROM session_members
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Members can record sessions"
+ON session_recordings
+FOR INSERT
+WITH CHECK (
+  recorded_by = auth.uid() AND
+  session_id IN (
+    SELECT session_id FROM session_members
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Recorders can update their recordings"
+ON session_recordings
+FOR UPDATE
+USING (recorded_by = auth.uid())
+WITH CHECK (recorded_by = auth.uid());
+
+CREATE POLICY "Recorders can delete their recordings"
+ON session_recordings
+FOR DELETE
+USING (recorded_by = auth.uid());
+
+COMMENT ON TABLE session_recordings IS 'Recorded collaboration sessions for later replay';
@@ -9,14 +9,27 @@ vi.mock('@/services/molstar-service', () => ({
     on: vi.fn(),
     off: vi.fn(),
     select: vi.fn().mockResolvedValue(undefined),
+    getStructureSequences: vi.fn(),
+    highlightStructureResidues: vi.fn().mockResolvedValue(undefined),
+    getSecondaryStructure: vi.fn().mockResolvedValue([]),
   },
 }));
 
+const chain = (chainId: string, sequence: string, firstResidue = 1) => ({
+  chainId,
+  sequence,
+  residueIds: Array.from(sequence, (_, i) => firstResidue + i),
+  residueNames: Array.from(sequence, (code) => ({ M: 'MET', K: 'LYS', T: 'THR', A: 'ALA', Y: 'TYR', W: 'TRP' })[code] ?? 'GLY'),
+});
+
 describe('SequenceViewer', () => {
   const mockOnResidueClick = vi.fn();
 
   beforeEach(() => {
     vi.clearAllMocks();
+    (molstarService.getStructureSequences as any).mockReturnValue([
+      { label: 'TEST', chains: [chain('A', 'MKTAYIAK'), chain('B', 'MKTAYIAK')] },
+    ]);
   });
 
   it('renders empty state when no structure loaded', () => {
@@ -233,4 +246,61 @@ describe('SequenceViewer', () => {
     expect(screen.getByText('Polar')).toBeInTheDocument();
     expect(screen.getByText('Charged')).toBeInTheDocument();
   });
+
+  it('aligns chains across structures and selects a column in 3D', async () => {
+    (molstarService.getStructureSequences as any).mockReturnValue([
+      { label: '1AAA', chains: [chain('A', 'MKTAYIAK')] },
+      { label: '2BBB', chains: [chain('B', 'MKTAK', 10)] },
+    ]);
+    render(<SequenceViewer />);
+
+    const comparisonCallback = (molstarService.on as any).mock.calls.find(
+      (call: any) => call[0] === 'comparison-changed'
+    )?.[1];
+
+    await waitFor(() => {
+      comparisonCallback({ mode: 'overlay', structures: [] });
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Alignment' }));
+    expect(screen.getByRole('checkbox', { name: '1AAA:A' })).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: '2BBB:B' })).toBeChecked();
+
+    // Last column pairs LYS8 with LYS14
+    const cells = screen.getAllByTitle(/^2BBB:B K14$/);
+    fireEvent.click(cells[0]);
+
+    await waitFor(() => {
+      expect(molstarService.highlightStructureResidues).toHaveBeenCalledWith([
+        { structureIndex: 0, chainId: 'A', residueSeq: 8 },
+        { structureIndex: 1, chainId: 'B', residueSeq: 14 },
+      ]);
+    });
+  });
+
+  it('shows the secondary structure track and refreshes it per trajectory frame', async () => {
+    (molstarService.getSecondaryStructure as any).mockResolvedValue(
+      Array.from('MKTAYIAK', (_, i) => ({ chainId: 'A', residueSeq: i + 1, code: i < 5 ? 'H' : '-' }))
+    );
+    render(<SequenceViewer />);
+
+    const callbacks = (event: string) =>
+      (molstarService.on as any).mock.calls.filter((call: any) => call[0] === event).map((call: any) => call[1]);
+
+    await waitFor(() => {
+      callbacks('structure-loaded').forEach((callback: any) => callback({ title: 'Test', chains: ['A'] }));
+    });
+
+    expect(await screen.findByTitle('1: Alpha helix (H)')).toBeInTheDocument();
+    expect(screen.getByTitle('6: Coil (-)')).toBeInTheDocument();
+    expect(screen.getByText('Alpha helix')).toBeInTheDocument();
+
+    (molstarService.getSecondaryStructure as any).mockResolvedValue(
+      Array.from('MKTAYIAK', (_, i) => ({ chainId: 'A', residueSeq: i + 1, code: 'E' }))
+    );
+    callbacks('trajectory-frame-changed').forEach((callback: any) => callback(1));
+
+    expect(await screen.findByTitle('1: Strand (E)')).toBeInTheDocument();
+    expect(molstarService.getSecondaryStructure).toHaveBeenCalledTimes(2);
+  });
 });
@@ -8,13 +8,16 @@ vi.mock('molstar/lib/mol-plugin-ui', () => ({
     dispose: vi.fn(),
     state: {
       data: {
-        selectQ: vi.fn().mockReturnValue([{ cell: { obj: { data: { units: [{}] } } } }]),
+        selectQ: vi.fn().mockReturnValue([{ transform: { ref: 'structure' } }]),
+        tree: { children: new Map([['structure', new Set()]]) },
+        cells: new Map(),
       },
     },
     managers: {
       structure: {
         selection: {
           fromExpression: vi.fn(),
+          fromLoci: vi.fn(),
           clear: vi.fn(),
           additionsHistory: [],
         },
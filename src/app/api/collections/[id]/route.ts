@@ -0,0 +1,122 @@
+/**
+ * API Route: Single Collection CRUD
+ * GET /api/collections/[id] - Get collection with its structures in order
+ * PATCH /api/collections/[id] - Update collection details
+ * DELETE /api/collections/[id] - Delete collection
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsService } from '@/services/collections-service';
+import type { UpdateCollectionRequest } from '@/types/collections';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/collections/[id]
+ * Get single collection by ID
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const collection = await collectionsService.getCollection(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: collection,
+    });
+  } catch (error: any) {
+    console.error(`Error getting collection ${params.id}:`, error);
+
+    const statusCode = error.code === 'NOT_FOUND' ? 404
+      : error.code === 'UNAUTHORIZED' ? 401
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to get collection',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * PATCH /api/collections/[id]
+ * Update collection details
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body: UpdateCollectionRequest = await request.json();
+
+    const collection = await collectionsService.updateCollection(params.id, body);
+
+    return NextResponse.json({
+      success: true,
+      data: collection,
+    });
+  } catch (error: any) {
+    console.error(`Error updating collection ${params.id}:`, error);
+
+    const statusCode = error.code === 'NOT_FOUND' ? 404
+      : error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to update collection',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * DELETE /api/collections/[id]
+ * Delete collection
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await collectionsService.deleteCollection(params.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Collection deleted successfully',
+    });
+  } catch (error: any) {
+    console.error(`Error deleting collection ${params.id}:`, error);
+
+    const statusCode = error.code === 'NOT_FOUND' ? 404
+      : error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to delete collection',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * API Route: Collection Sharing
+ * GET /api/collections/[id]/shares - List shares and share links
+ * POST /api/collections/[id]/shares - Share with a user, or create a share link
+ * DELETE /api/collections/[id]/shares?shareId= - Revoke a share
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsService } from '@/services/collections-service';
+import type { ShareCollectionRequest } from '@/types/collections';
+
+export const dynamic = 'force-dynamic';
+
+const PERMISSIONS = ['view', 'edit', 'admin'];
+
+/**
+ * GET /api/collections/[id]/shares
+ * List shares of the collection
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const shares = await collectionsService.listShares(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: shares,
+      count: shares.length,
+    });
+  } catch (error: any) {
+    console.error(`Error listing shares of collection ${params.id}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to list shares',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * POST /api/collections/[id]/shares
+ * Share the collection; omit userId to create a share link
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body: ShareCollectionRequest = await request.json();
+
+    // Validation
+    if (body.permission && !PERMISSIONS.includes(body.permission)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Permission must be one of: view, edit, admin',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const share = await collectionsService.shareCollection(params.id, body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: share,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error(`Error sharing collection ${params.id}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to share collection',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * DELETE /api/collections/[id]/shares?shareId=
+ * Revoke a share or share link
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const shareId = searchParams.get('shareId');
+
+    if (!shareId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required parameter: shareId',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await collectionsService.revokeShare(params.id, shareId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Share revoked',
+    });
+  } catch (error: any) {
+    console.error(`Error revoking share of collection ${params.id}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to revoke share',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * API Route: Collection Structures
+ * POST /api/collections/[id]/structures - Add a structure by ID or PDB ID
+ * PUT /api/collections/[id]/structures - Set the order of the structures
+ * DELETE /api/collections/[id]/structures?structureId= - Remove a structure
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsService } from '@/services/collections-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/collections/[id]/structures
+ * Append a structure to the collection
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    // Validation
+    if (!body.structureId && !body.pdbId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Provide either structureId or pdbId',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const structures = await collectionsService.addStructure(
+      params.id,
+      body.structureId ? { structureId: body.structureId } : { pdbId: body.pdbId }
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: structures,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error(`Error adding structure to collection ${params.id}:`, error);
+
+    const statusCode = error.code === 'NOT_FOUND' ? 404
+      : error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to add structure',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * PUT /api/collections/[id]/structures
+ * Reorder the collection; body lists every structure ID in the new order
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+
+    // Validation
+    if (!Array.isArray(body.structureIds)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required field: structureIds',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const structures = await collectionsService.reorderStructures(params.id, body.structureIds);
+
+    return NextResponse.json({
+      success: true,
+      data: structures,
+    });
+  } catch (error: any) {
+    console.error(`Error reordering collection ${params.id}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to reorder collection',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * DELETE /api/collections/[id]/structures?structureId=
+ * Remove a structure from the collection
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const structureId = searchParams.get('structureId');
+
+    if (!structureId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required parameter: structureId',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await collectionsService.removeStructure(params.id, structureId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Structure removed from collection',
+    });
+  } catch (error: any) {
+    console.error(`Error removing structure from collection ${params.id}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to remove structure',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * API Route: Favourite Structures
+ * GET /api/collections/favorites - List the current user's favourites
+ * POST /api/collections/favorites - Favourite a structure
+ * DELETE /api/collections/favorites?structureId= - Unfavourite a structure
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsService } from '@/services/collections-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/collections/favorites
+ * List favourite structures, newest first
+ */
+export async function GET() {
+  try {
+    const favorites = await collectionsService.listFavorites();
+
+    return NextResponse.json({
+      success: true,
+      data: favorites,
+      count: favorites.length,
+    });
+  } catch (error: any) {
+    console.error('Error listing favourites:', error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401 : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to list favourites',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * POST /api/collections/favorites
+ * Favourite a structure
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validation
+    if (!body.structureId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required field: structureId',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await collectionsService.addFavorite(body.structureId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Structure added to favourites',
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error('Error adding favourite:', error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to add favourite',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * DELETE /api/collections/favorites?structureId=
+ * Unfavourite a structure
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const structureId = searchParams.get('structureId');
+
+    if (!structureId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required parameter: structureId',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await collectionsService.removeFavorite(structureId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Structure removed from favourites',
+    });
+  } catch (error: any) {
+    console.error('Error removing favourite:', error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401 : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to remove favourite',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * API Route: Share Link Redemption
+ * POST /api/collections/redeem - Join a collection through its share token
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsService } from '@/services/collections-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/collections/redeem
+ * Redeem a share token and return the collection ID
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validation
+    if (!body.token) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required field: token',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const collectionId = await collectionsService.redeemShareLink(body.token);
+
+    return NextResponse.json({
+      success: true,
+      data: { collectionId },
+    });
+  } catch (error: any) {
+    console.error('Error redeeming share link:', error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'NOT_FOUND' ? 404
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to redeem share link',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * API Route: Collections List/Create
+ * GET /api/collections - List collections with filters
+ * POST /api/collections - Create new collection
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsService } from '@/services/collections-service';
+import type { CreateCollectionRequest, ListCollectionsFilters } from '@/types/collections';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/collections
+ * List collections visible to the current user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Build filters object with only defined values to satisfy exactOptionalPropertyTypes
+    const filters = {
+      limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 50,
+      offset: searchParams.get('offset') ? parseInt(searchParams.get('offset')!) : 0,
+    } as ListCollectionsFilters;
+
+    const ownerId = searchParams.get('ownerId');
+    if (ownerId) filters.ownerId = ownerId;
+
+    const parentId = searchParams.get('parentId');
+    if (parentId === 'root') filters.parentId = null;
+    else if (parentId) filters.parentId = parentId;
+
+    const visibility = searchParams.get('visibility');
+    if (visibility) filters.visibility = visibility as any;
+
+    if (searchParams.get('sharedWithMe') === 'true') filters.sharedWithMe = true;
+
+    const collections = await collectionsService.listCollections(filters);
+
+    return NextResponse.json({
+      success: true,
+      data: collections,
+      count: collections.length,
+    });
+  } catch (error: any) {
+    console.error('Error listing collections:', error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to list collections',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * POST /api/collections
+ * Create new collection
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateCollectionRequest = await request.json();
+
+    // Validation
+    if (!body.name?.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required field: name',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const collection = await collectionsService.createCollection(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: collection,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error('Error creating collection:', error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to create collection',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
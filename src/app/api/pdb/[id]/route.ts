@@ -1,11 +1,16 @@
 /**
  * API Route: GET /api/pdb/[id]
- * Fetch PDB structure with multi-tier caching
+ * Fetch PDB structure with multi-tier caching. Structure IDs (UUIDs) load an
+ * uploaded structure instead, for users it is owned by or shared with;
+ * `?raw=true` returns the file itself
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchPDB, isValidPDBId, normalizePDBId } from '@/services/pdb-fetcher';
 import { parsePDB } from '@/lib/pdb-parser';
+import { isStructureId, pdbIdFromSource, rcsbDownloadUrl } from '@/lib/pdb-structures';
+import { createClient } from '@/lib/supabase/server';
+import { StructureSharingService } from '@/services/structure-sharing-service';
 // Cache service import removed - caching disabled in demo mode
 
 export const runtime = 'edge';
@@ -36,6 +41,88 @@ function checkRateLimit(ip: string): boolean {
   return true;
 }
 
+/**
+ * Serve an uploaded structure after checking the user may view it
+ */
+async function getSharedStructure(request: NextRequest, structureId: string): Promise<Response> {
+  let supabase;
+  try {
+    supabase = await createClient();
+  } catch {
+    return NextResponse.json(
+      { error: 'Shared structures are not available: storage is not configured' },
+      { status: 503 }
+    );
+  }
+
+  let level;
+  try {
+    level = await new StructureSharingService(supabase).requireAccess(structureId, 'view');
+  } catch (error: any) {
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'NOT_FOUND' ? 404
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : 500;
+
+    return NextResponse.json({ error: error.message }, { status: statusCode });
+  }
+
+  // Unlisted structures are only readable by ID, through get_structure()
+  const { data: row } = await (supabase as any)
+    .rpc('get_structure', { p_structure_id: structureId })
+    .select('name, file_path, file_format, source')
+    .single();
+
+  if (!row) {
+    return NextResponse.json({ error: `Structure ${structureId} not found` }, { status: 404 });
+  }
+
+  // PDB entries registered for collections and comments point at RCSB. Rows
+  // are user-written, so the URL is rebuilt from the PDB ID rather than
+  // fetched as stored
+  let content: string;
+  if (/^https?:\/\//.test(row.file_path)) {
+    const pdbId = pdbIdFromSource(row.source);
+    if (!pdbId || row.file_path !== rcsbDownloadUrl(pdbId)) {
+      return NextResponse.json(
+        { error: `${row.name} does not point at an RCSB entry` },
+        { status: 422 }
+      );
+    }
+
+    const response = await fetch(rcsbDownloadUrl(pdbId));
+    if (!response.ok) {
+      return NextResponse.json({ error: `Failed to fetch ${row.name}` }, { status: 502 });
+    }
+    content = await response.text();
+  } else {
+    const { data: file, error } = await supabase.storage.from('structures').download(row.file_path);
+    if (error || !file) {
+      return NextResponse.json({ error: `Failed to read ${row.name}` }, { status: 500 });
+    }
+    content = await file.text();
+  }
+
+  const accessHeaders = {
+    'Cache-Control': 'private, no-store',
+    'X-Structure-Format': row.file_format,
+    'X-Structure-Name': encodeURIComponent(row.name),
+    'X-Structure-Permission': level,
+  };
+
+  if (new URL(request.url).searchParams.get('raw') === 'true') {
+    return new Response(content, {
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', ...accessHeaders },
+    });
+  }
+
+  const structure = await parsePDB(content);
+  return NextResponse.json(
+    { ...structure, structureId, name: row.name, permission: level },
+    { headers: accessHeaders }
+  );
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -52,8 +139,12 @@ export async function GET(
       );
     }
 
-    // Validate PDB ID
     const rawId = params.id;
+    if (isStructureId(rawId)) {
+      return await getSharedStructure(request, rawId);
+    }
+
+    // Validate PDB ID
     const pdbId = normalizePDBId(rawId);
 
     if (!isValidPDBId(pdbId)) {
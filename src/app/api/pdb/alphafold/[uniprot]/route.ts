@@ -1,17 +1,19 @@
 /**
  * API Route: GET /api/pdb/alphafold/[uniprot]
- * Fetch AlphaFold prediction by UniProt ID
+ * Fetch AlphaFold prediction by UniProt ID, or its predicted aligned error
+ * matrix with ?pae=true
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchAlphaFold, isValidUniProtId } from '@/services/pdb-fetcher';
+import { fetchAlphaFold, fetchAlphaFoldPAE, isValidUniProtId } from '@/services/pdb-fetcher';
 import { parsePDB } from '@/lib/pdb-parser';
+import { parsePAE } from '@/lib/alphafold';
 // Cache service removed - caching disabled in demo mode
 
 export const runtime = 'edge';
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: { uniprot: string } }
 ) {
   const startTime = Date.now();
@@ -27,6 +29,15 @@ export async function GET(
       );
     }
 
+    if (new URL(request.url).searchParams.get('pae') === 'true') {
+      const pae = parsePAE(await fetchAlphaFoldPAE(uniprotId));
+      return NextResponse.json({
+        ...pae,
+        uniprotId,
+        fetchTime: Date.now() - startTime
+      });
+    }
+
     // Cache disabled in demo mode - fetch directly from AlphaFold DB
     const fetchResult = await fetchAlphaFold(uniprotId);
     const structure = await parsePDB(fetchResult.content);
@@ -1,10 +1,15 @@
 /**
  * API Route: POST /api/pdb/upload
- * Handle user PDB file uploads with comprehensive validation
+ * Handle user PDB, mmCIF and small-molecule (SDF/MOL2) uploads with comprehensive validation.
+ * Uploads by signed-in users are saved as versions; pass `structureId` to add a
+ * new version of an existing structure, and optionally `name` and `changes`
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { parsePDB } from '@/lib/pdb-parser';
+import { createClient } from '@/lib/supabase/server';
+import { StructureVersionsService } from '@/services/structure-versions-service';
+import type { RecordedUpload, VersionError } from '@/types/structure-versions';
 
 export const runtime = 'edge';
 
@@ -12,9 +17,13 @@ const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50 MB
 const ALLOWED_MIME_TYPES = [
   'chemical/x-pdb',
   'chemical/x-mmcif',
+  'chemical/x-mdl-sdfile',
+  'chemical/x-mdl-molfile',
+  'chemical/x-mol2',
   'text/plain',
   'application/octet-stream' // Browsers may report this for .pdb/.cif files
 ];
+const ALLOWED_EXTENSIONS = ['.pdb', '.cif', '.mmcif', '.sdf', '.mol', '.mol2'];
 
 // Security: Sanitize filename to prevent path traversal
 function sanitizeFilename(filename: string): string {
@@ -41,9 +50,12 @@ function validateFileContent(content: string, filename: string): { valid: boolea
     }
   }
 
-  // Validate PDB/CIF format markers
-  const isPDB = filename.toLowerCase().endsWith('.pdb');
-  const isCIF = filename.toLowerCase().endsWith('.cif') || filename.toLowerCase().endsWith('.mmcif');
+  // Validate PDB/CIF/SDF/MOL2 format markers
+  const name = filename.toLowerCase();
+  const isPDB = name.endsWith('.pdb');
+  const isCIF = name.endsWith('.cif') || name.endsWith('.mmcif');
+  const isSDF = name.endsWith('.sdf') || name.endsWith('.mol');
+  const isMOL2 = name.endsWith('.mol2');
 
   if (isPDB) {
     // PDB files should have ATOM or HETATM records
@@ -55,6 +67,15 @@ function validateFileContent(content: string, filename: string): { valid: boolea
     if (!/^data_/m.test(content)) {
       return { valid: false, error: 'File does not appear to be a valid CIF/mmCIF file' };
     }
+  } else if (isSDF) {
+    // Molfiles declare their version on the counts line
+    if (!/V[23]000/.test(content)) {
+      return { valid: false, error: 'File does not appear to be a valid SDF/MOL file' };
+    }
+  } else if (isMOL2) {
+    if (!/^@<TRIPOS>ATOM/m.test(content)) {
+      return { valid: false, error: 'File does not appear to be a valid MOL2 file' };
+    }
   }
 
   return { valid: true };
@@ -77,7 +98,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         {
           error: 'Invalid MIME type',
-          detail: `Expected chemical/x-pdb or chemical/x-mmcif, got ${file.type}`
+          detail: `Expected a PDB, mmCIF, SDF or MOL2 MIME type, got ${file.type}`
         },
         { status: 400 }
       );
@@ -95,9 +116,9 @@ export async function POST(request: NextRequest) {
     const sanitizedFilename = sanitizeFilename(file.name);
     const fileName = sanitizedFilename.toLowerCase();
 
-    if (!fileName.endsWith('.pdb') && !fileName.endsWith('.cif') && !fileName.endsWith('.mmcif')) {
+    if (!ALLOWED_EXTENSIONS.some((extension) => fileName.endsWith(extension))) {
       return NextResponse.json(
-        { error: 'Invalid file type. Only .pdb, .cif, and .mmcif files are supported' },
+        { error: 'Invalid file type. Only .pdb, .cif, .mmcif, .sdf, .mol and .mol2 files are supported' },
         { status: 400 }
       );
     }
@@ -132,8 +153,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Save as a version for signed-in users; anonymous uploads are only parsed
+    const structureId = formData.get('structureId') as string | null;
+    let saved: RecordedUpload | null = null;
+    let versionError: string | undefined;
+
+    try {
+      const versions = new StructureVersionsService(await createClient());
+      saved = await versions.recordUpload({
+        content,
+        filename: sanitizedFilename,
+        structure,
+        ...(structureId && { structureId }),
+        ...(formData.get('name') && { name: formData.get('name') as string }),
+        ...(formData.get('changes') && { changes: formData.get('changes') as string }),
+      });
+    } catch (error) {
+      const code = (error as VersionError).code;
+
+      // A new version was asked for explicitly, so not saving it is a failure
+      if (structureId) {
+        const status = code === 'UNAUTHORIZED' ? 401
+          : code === 'NOT_FOUND' ? 404
+          : code === 'PERMISSION_DENIED' ? 403
+          : code === 'VALIDATION_ERROR' ? 400
+          : 500;
+        return NextResponse.json(
+          { error: 'Failed to save version', message: (error as Error).message },
+          { status }
+        );
+      }
+      if (code && code !== 'UNAUTHORIZED') {
+        versionError = (error as Error).message;
+      }
+    }
+
     return NextResponse.json({
       ...structure,
+      ...(saved && {
+        structureId: saved.structureId,
+        version: saved.version,
+        isNewVersion: saved.isNewVersion,
+      }),
+      ...(versionError && { versionError }),
       uploaded: true,
       filename: sanitizedFilename,
       originalFilename: file.name,
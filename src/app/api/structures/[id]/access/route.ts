@@ -0,0 +1,40 @@
+/**
+ * API Route: Structure Access
+ * GET /api/structures/[id]/access - The current user's permission on a structure
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { structureSharingService } from '@/services/structure-sharing-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/structures/[id]/access
+ * Access level of the current user; null when they cannot open it
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const access = await structureSharingService.getAccess(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: access,
+    });
+  } catch (error: any) {
+    console.error(`Error checking access to structure ${params.id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to check access',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * API Route: Comment Likes
+ * POST /api/structures/[id]/comments/[commentId]/like - Like a comment
+ * DELETE /api/structures/[id]/comments/[commentId]/like - Remove the like
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { structureCommentsService } from '@/services/structure-comments-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/structures/[id]/comments/[commentId]/like
+ * Like a comment
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  try {
+    await structureCommentsService.likeComment(params.commentId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Comment liked',
+    });
+  } catch (error: any) {
+    console.error(`Error liking comment ${params.commentId}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to like comment',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * DELETE /api/structures/[id]/comments/[commentId]/like
+ * Remove the like
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  try {
+    await structureCommentsService.unlikeComment(params.commentId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Like removed',
+    });
+  } catch (error: any) {
+    console.error(`Error unliking comment ${params.commentId}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401 : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to remove like',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
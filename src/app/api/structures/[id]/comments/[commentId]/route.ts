@@ -0,0 +1,100 @@
+/**
+ * API Route: Single Structure Comment
+ * PATCH /api/structures/[id]/comments/[commentId] - Edit, resolve or reopen
+ * DELETE /api/structures/[id]/comments/[commentId] - Delete with replies
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { structureCommentsService } from '@/services/structure-comments-service';
+import type { UpdateCommentRequest } from '@/types/structure-comments';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/structures/[id]/comments/[commentId]
+ * Update comment content or resolved state
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  try {
+    const body: UpdateCommentRequest = await request.json();
+
+    // Validation
+    if (body.content === undefined && body.resolved === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Provide content or resolved',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const comment = await structureCommentsService.updateComment(params.commentId, body);
+
+    return NextResponse.json({
+      success: true,
+      data: comment,
+    });
+  } catch (error: any) {
+    console.error(`Error updating comment ${params.commentId}:`, error);
+
+    const statusCode = error.code === 'NOT_FOUND' ? 404
+      : error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to update comment',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * DELETE /api/structures/[id]/comments/[commentId]
+ * Delete comment
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  try {
+    await structureCommentsService.deleteComment(params.commentId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Comment deleted successfully',
+    });
+  } catch (error: any) {
+    console.error(`Error deleting comment ${params.commentId}:`, error);
+
+    const statusCode = error.code === 'NOT_FOUND' ? 404
+      : error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to delete comment',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
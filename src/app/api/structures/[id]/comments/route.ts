@@ -0,0 +1,124 @@
+/**
+ * API Route: Structure Comment Threads
+ * GET /api/structures/[id]/comments - List threads with replies
+ * POST /api/structures/[id]/comments - Start a thread or reply to one
+ *
+ * [id] is a structure ID or a PDB ID
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { structureCommentsService } from '@/services/structure-comments-service';
+import type { CreateCommentRequest, ListCommentsFilters } from '@/types/structure-comments';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/structures/[id]/comments
+ * List comment threads; resolved threads only with includeResolved=true
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const filters: ListCommentsFilters = {
+      includeResolved: searchParams.get('includeResolved') === 'true',
+    };
+
+    const chainId = searchParams.get('chainId');
+    if (chainId) filters.chainId = chainId;
+
+    const residueSeq = searchParams.get('residueSeq');
+    if (residueSeq) filters.residueSeq = parseInt(residueSeq);
+
+    // PDB entries nobody has used yet have no comments
+    const structureId = await structureCommentsService.resolveStructureId(params.id);
+    const threads = structureId
+      ? await structureCommentsService.listThreads(structureId, filters)
+      : [];
+
+    return NextResponse.json({
+      success: true,
+      data: threads,
+      count: threads.length,
+      structureId,
+    });
+  } catch (error: any) {
+    console.error(`Error listing comments of structure ${params.id}:`, error);
+
+    const statusCode = error.code === 'NOT_FOUND' ? 404
+      : error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to list comments',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * POST /api/structures/[id]/comments
+ * Add a comment
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body: CreateCommentRequest = await request.json();
+
+    // Validation
+    if (!body.content?.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required field: content',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const structureId = (await structureCommentsService.resolveStructureId(params.id, true))!;
+    const comment = await structureCommentsService.addComment(structureId, body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: comment,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error(`Error adding comment to structure ${params.id}:`, error);
+
+    const statusCode = error.code === 'NOT_FOUND' ? 404
+      : error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to add comment',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
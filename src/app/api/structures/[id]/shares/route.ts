@@ -0,0 +1,163 @@
+/**
+ * API Route: Structure Sharing
+ * GET /api/structures/[id]/shares - List shares and share links
+ * POST /api/structures/[id]/shares - Share with a user, or create a share link
+ * DELETE /api/structures/[id]/shares?shareId= - Revoke a share
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { structureSharingService } from '@/services/structure-sharing-service';
+import { isSharePermission } from '@/lib/share-permissions';
+import type { CreateShareLinkRequest, ShareWithUserRequest } from '@/types/sharing';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/structures/[id]/shares
+ * List shares of the structure; admins only
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const shares = await structureSharingService.listShares(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: shares,
+      count: shares.length,
+    });
+  } catch (error: any) {
+    console.error(`Error listing shares of structure ${params.id}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'NOT_FOUND' ? 404
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to list shares',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * POST /api/structures/[id]/shares
+ * Share with a user by username; omit username to create a share link
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body: Partial<ShareWithUserRequest> & CreateShareLinkRequest = await request.json();
+
+    // Validation
+    if (body.permission && !isSharePermission(body.permission)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Permission must be one of: view, comment, edit, admin',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const share = body.username
+      ? await structureSharingService.shareWithUser(params.id, {
+          username: body.username,
+          ...(body.permission && { permission: body.permission }),
+          ...(body.expiresAt && { expiresAt: body.expiresAt }),
+        })
+      : await structureSharingService.createShareLink(params.id, body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: share,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error(`Error sharing structure ${params.id}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'NOT_FOUND' ? 404
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : error.code === 'VALIDATION_ERROR' ? 400
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to share structure',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
+
+/**
+ * DELETE /api/structures/[id]/shares?shareId=
+ * Revoke a share or share link
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const shareId = searchParams.get('shareId');
+
+    if (!shareId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required parameter: shareId',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await structureSharingService.revokeShare(params.id, shareId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Share revoked',
+    });
+  } catch (error: any) {
+    console.error(`Error revoking share of structure ${params.id}:`, error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'PERMISSION_DENIED' ? 403
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to revoke share',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * API Route: Structure Versions
+ * GET /api/structures/[id]/versions - List versions with their diffs, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { structureVersionsService } from '@/services/structure-versions-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/structures/[id]/versions
+ * List versions of a structure
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const versions = await structureVersionsService.listVersions(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: versions,
+      count: versions.length,
+    });
+  } catch (error: any) {
+    console.error(`Error listing versions of structure ${params.id}:`, error);
+
+    const statusCode = error.code === 'NOT_FOUND' ? 404
+      : error.code === 'UNAUTHORIZED' ? 401
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to list versions',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
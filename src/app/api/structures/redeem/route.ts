@@ -0,0 +1,57 @@
+/**
+ * API Route: Structure Share Link Redemption
+ * POST /api/structures/redeem - Open a structure through its share token
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { structureSharingService } from '@/services/structure-sharing-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/structures/redeem
+ * Redeem a share token and return the structure ID and granted access
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validation
+    if (!body.token) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing required field: token',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const share = await structureSharingService.redeemShareLink(body.token);
+
+    return NextResponse.json({
+      success: true,
+      data: share,
+    });
+  } catch (error: any) {
+    console.error('Error redeeming structure share link:', error);
+
+    const statusCode = error.code === 'UNAUTHORIZED' ? 401
+      : error.code === 'NOT_FOUND' ? 404
+      : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: error.code || 'UNKNOWN_ERROR',
+          message: error.message || 'Failed to redeem share link',
+        },
+      },
+      { status: statusCode }
+    );
+  }
+}
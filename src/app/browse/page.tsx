@@ -6,10 +6,17 @@ export const metadata: Metadata = {
   description: 'Explore proteins from Lactobacillus and lactic acid bacteria',
 };
 
-export default function BrowsePage() {
+interface BrowsePageProps {
+  searchParams: { collection?: string; share?: string };
+}
+
+export default function BrowsePage({ searchParams }: BrowsePageProps) {
   return (
     <div className="mx-auto max-w-7xl px-6 py-12 lg:px-8">
-      <StructureBrowser />
+      <StructureBrowser
+        initialCollectionId={searchParams.collection}
+        shareToken={searchParams.share}
+      />
     </div>
   );
 }
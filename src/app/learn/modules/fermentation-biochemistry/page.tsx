@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MetabolicPathway } from '@/components/learning/MetabolicPathway';
+import { findMetabolite } from '@/data/metabolites';
 
 /**
  * Fermentation Biochemistry Module
@@ -376,14 +377,25 @@ function InteractivePathwaySection() {
   const router = useRouter();
 
   const handleProteinClick = (pdbId: string) => {
-    router.push(`/viewer?pdbId=${pdbId}`);
+    router.push(`/viewer?pdb=${pdbId}`);
+  };
+
+  // Show the substrate in the enzyme's structure when the diagram names one
+  const handleSubstrateClick = (substrate: string, pdbId?: string) => {
+    const metabolite = findMetabolite(substrate);
+    if (!metabolite) return;
+
+    const params = new URLSearchParams({ ligand: metabolite.smiles, ligandName: metabolite.name });
+    if (pdbId) params.set('pdb', pdbId);
+    router.push(`/viewer?${params.toString()}`);
   };
 
   return (
     <div className="space-y-4">
       <p className="text-secondary-700 dark:text-secondary-300">
         Use the interactive pathway visualization below to explore the metabolic reactions in detail.
-        Click on enzymes with PDB structures to view their 3D structures in the molecular viewer.
+        Click on enzymes with PDB structures to view their 3D structures in the molecular viewer,
+        or on a metabolite to see it built in 3D next to the enzyme that acts on it.
       </p>
 
       <div className="bg-blue-50 dark:bg-blue-950 p-4 rounded-lg border border-blue-200 dark:border-blue-800 mb-4">
@@ -395,13 +407,14 @@ function InteractivePathwaySection() {
               <li>- Select a pathway type from the dropdown menu</li>
               <li>- Green-bordered enzymes have available 3D structures</li>
               <li>- Click on an enzyme to view its structure in the molecular viewer</li>
+              <li>- Click on a metabolite to view it as a 3D ligand</li>
               <li>- Hover over components for additional information</li>
             </ul>
           </div>
         </div>
       </div>
 
-      <MetabolicPathway onProteinClick={handleProteinClick} />
+      <MetabolicPathway onProteinClick={handleProteinClick} onSubstrateClick={handleSubstrateClick} />
     </div>
   );
 }
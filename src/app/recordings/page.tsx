@@ -0,0 +1,15 @@
+import type { Metadata } from 'next';
+import { RecordingLibrary } from '@/components/collaboration/RecordingLibrary';
+
+export const metadata: Metadata = {
+  title: 'Session Recordings',
+  description: 'Watch recorded collaboration sessions',
+};
+
+interface RecordingsPageProps {
+  searchParams: { id?: string };
+}
+
+export default function RecordingsPage({ searchParams }: RecordingsPageProps) {
+  return <RecordingLibrary recordingId={searchParams.id} />;
+}
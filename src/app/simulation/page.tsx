@@ -12,6 +12,7 @@ import SimulationControls from '../../components/simulation/SimulationControls';
 import ForceFieldSettings from '../../components/simulation/ForceFieldSettings';
 import EnergyPlot from '../../components/simulation/EnergyPlot';
 import BrowserSimulation from '../../components/simulation/BrowserSimulation';
+import TrajectoryAnalysis from '../../components/simulation/TrajectoryAnalysis';
 import {
   SimulationPreset,
   SimulationControls as ControlsState,
@@ -19,6 +20,7 @@ import {
   EnergyPlotData,
 } from '../../types/simulation';
 import { SimulationFrame } from '../../lib/md-browser-dynamica';
+import { framesFromSimulation } from '../../lib/md-analysis';
 
 export default function SimulationPage() {
   // State
@@ -66,6 +68,8 @@ export default function SimulationPage() {
     return positions;
   }, []);
 
+  const analysisFrames = useMemo(() => framesFromSimulation(frames), [frames]);
+
   // Handle preset selection
   const handlePresetSelect = useCallback((preset: SimulationPreset) => {
     setSelectedPreset(preset);
@@ -258,6 +262,11 @@ export default function SimulationPage() {
                 showGrid
               />
             )}
+
+            {/* Trajectory Analysis */}
+            {frames.length > 0 && (
+              <TrajectoryAnalysis frames={analysisFrames} width={800} height={300} />
+            )}
           </div>
 
           {/* Right Column - Settings */}
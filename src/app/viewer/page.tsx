@@ -1,13 +1,38 @@
 'use client';
 
-import React, { Suspense, useEffect } from 'react';
-import { useSearchParams } from 'next/navigation';
+import React, { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { ViewerLayout } from '@/components/viewer/ViewerLayout';
-import { ViewerSkeleton } from '@/components/viewer/LoadingState';
+import { LoadingState, ViewerSkeleton } from '@/components/viewer/LoadingState';
 
 function ViewerContent() {
+  const router = useRouter();
   const searchParams = useSearchParams();
   const pdbId = searchParams.get('pdb');
+  const compare = searchParams.get('compare');
+  const ligand = searchParams.get('ligand');
+  const ligandName = searchParams.get('ligandName');
+  const shareToken = searchParams.get('share');
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  // Share links redeem their token, then open the structure by its ID
+  useEffect(() => {
+    if (!shareToken) return;
+
+    fetch('/api/structures/redeem', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: shareToken }),
+    })
+      .then((response) => response.json())
+      .then((body) => {
+        if (!body.success) {
+          throw new Error(body.error?.message || 'Share link could not be opened');
+        }
+        router.replace(`/viewer?pdb=${body.data.structureId}`);
+      })
+      .catch((error: Error) => setShareError(error.message));
+  }, [shareToken, router]);
 
   useEffect(() => {
     // Keyboard shortcuts
@@ -74,7 +99,18 @@ function ViewerContent() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  return <ViewerLayout pdbId={pdbId || undefined} />;
+  if (shareToken) {
+    return shareError ? <LoadingState error={shareError} /> : <ViewerSkeleton />;
+  }
+
+  return (
+    <ViewerLayout
+      pdbId={pdbId || undefined}
+      comparePdbIds={compare ? compare.split(',').filter(Boolean) : undefined}
+      ligandSmiles={ligand || undefined}
+      ligandName={ligandName || undefined}
+    />
+  );
 }
 
 export default function ViewerPage() {
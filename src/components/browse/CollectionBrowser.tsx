@@ -0,0 +1,311 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp, Eye, Link2, Plus, Star, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { Collection, CollectionWithStructures } from '@/types/collections';
+
+interface CollectionBrowserProps {
+  initialCollectionId?: string;
+  shareToken?: string;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = await response.json();
+  if (!body.success) {
+    throw new Error(body.error?.message || 'Request failed');
+  }
+  return body.data;
+}
+
+/**
+ * CollectionBrowser Component
+ *
+ * Lists the collections the user owns or has been shared, and shows one
+ * collection's structures in order with reordering, favourites and share
+ * links. Opening a share link redeems its token first
+ */
+export function CollectionBrowser({ initialCollectionId, shareToken }: CollectionBrowserProps) {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(initialCollectionId ?? null);
+  const [collection, setCollection] = useState<CollectionWithStructures | null>(null);
+  const [newName, setNewName] = useState('');
+  const [pdbId, setPdbId] = useState('');
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadCollections = useCallback(async () => {
+    const [own, shared] = await Promise.all([
+      request<Collection[]>('/api/collections?parentId=root'),
+      request<Collection[]>('/api/collections?sharedWithMe=true'),
+    ]);
+    const byId = new Map([...own, ...shared].map((c) => [c.id, c]));
+    setCollections(Array.from(byId.values()));
+  }, []);
+
+  useEffect(() => {
+    run(async () => {
+      if (shareToken) {
+        const { collectionId } = await request<{ collectionId: string }>('/api/collections/redeem', {
+          method: 'POST',
+          body: JSON.stringify({ token: shareToken }),
+        });
+        setSelectedId(collectionId);
+      }
+      await loadCollections();
+    });
+  }, [shareToken, loadCollections, run]);
+
+  useEffect(() => {
+    setShareUrl(null);
+    if (!selectedId) {
+      setCollection(null);
+      return;
+    }
+    run(async () => setCollection(await request<CollectionWithStructures>(`/api/collections/${selectedId}`)));
+  }, [selectedId, run]);
+
+  const setStructures = (structures: CollectionWithStructures['structures']) => {
+    setCollection((current) => (current ? { ...current, structures } : current));
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    run(async () => {
+      const created = await request<Collection>('/api/collections', {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      });
+      setNewName('');
+      await loadCollections();
+      setSelectedId(created.id);
+    });
+  };
+
+  const handleAdd = () => {
+    const id = pdbId.trim();
+    if (!collection || !id) return;
+    run(async () => {
+      setStructures(await request(`/api/collections/${collection.id}/structures`, {
+        method: 'POST',
+        body: JSON.stringify({ pdbId: id }),
+      }));
+      setPdbId('');
+    });
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (!collection) return;
+    const ids = collection.structures.map((s) => s.structureId);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved!);
+    run(async () => {
+      setStructures(await request(`/api/collections/${collection.id}/structures`, {
+        method: 'PUT',
+        body: JSON.stringify({ structureIds: ids }),
+      }));
+    });
+  };
+
+  const handleRemove = (structureId: string) => {
+    if (!collection) return;
+    run(async () => {
+      await request(`/api/collections/${collection.id}/structures?structureId=${structureId}`, { method: 'DELETE' });
+      setStructures(collection.structures.filter((s) => s.structureId !== structureId));
+    });
+  };
+
+  const handleFavorite = (structureId: string, isFavorite: boolean) => {
+    if (!collection) return;
+    run(async () => {
+      await request(
+        isFavorite ? `/api/collections/favorites?structureId=${structureId}` : '/api/collections/favorites',
+        isFavorite
+          ? { method: 'DELETE' }
+          : { method: 'POST', body: JSON.stringify({ structureId }) }
+      );
+      setStructures(collection.structures.map((s) =>
+        s.structureId === structureId ? { ...s, isFavorite: !isFavorite } : s
+      ));
+    });
+  };
+
+  const handleShare = () => {
+    if (!collection) return;
+    run(async () => {
+      const share = await request<{ shareToken: string }>(`/api/collections/${collection.id}/shares`, {
+        method: 'POST',
+        body: JSON.stringify({ permission: 'view' }),
+      });
+      setShareUrl(`${window.location.origin}/browse?share=${share.shareToken}`);
+    });
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+      {/* Collection list */}
+      <aside className="space-y-3">
+        <ul className="space-y-1" aria-label="Collections">
+          {collections.map((c) => (
+            <li key={c.id}>
+              <button
+                onClick={() => setSelectedId(c.id)}
+                className={cn(
+                  'flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm transition-colors',
+                  c.id === selectedId
+                    ? 'bg-secondary-100 font-medium dark:bg-secondary-800'
+                    : 'hover:bg-secondary-50 dark:hover:bg-secondary-900'
+                )}
+              >
+                <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: c.color }} />
+                <span className="truncate">{c.icon ? `${c.icon} ` : ''}{c.name}</span>
+              </button>
+            </li>
+          ))}
+          {collections.length === 0 && !isLoading && (
+            <li className="px-3 text-sm text-secondary-600 dark:text-secondary-400">No collections yet</li>
+          )}
+        </ul>
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New collection"
+            aria-label="New collection name"
+            className="h-8 text-sm"
+          />
+          <Button size="sm" variant="outline" onClick={handleCreate} disabled={isLoading || !newName.trim()} aria-label="Create collection">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </aside>
+
+      {/* Selected collection */}
+      <section className="space-y-4">
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {!collection ? (
+          <div className="rounded-lg border-2 border-dashed border-secondary-200 p-12 text-center dark:border-secondary-800">
+            <p className="text-sm text-secondary-600 dark:text-secondary-400">
+              {isLoading ? 'Loading…' : 'Choose a collection, or create one to start a structure list'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold text-secondary-900 dark:text-white">{collection.name}</h2>
+                {collection.description && (
+                  <p className="mt-1 text-sm text-secondary-600 dark:text-secondary-400">{collection.description}</p>
+                )}
+                <Badge variant="outline" className="mt-2 text-xs">{collection.visibility}</Badge>
+              </div>
+              <Button size="sm" variant="outline" onClick={handleShare} disabled={isLoading} className="gap-2">
+                <Link2 className="h-4 w-4" />
+                Create share link
+              </Button>
+            </div>
+
+            {shareUrl && (
+              <Input readOnly value={shareUrl} onFocus={(e) => e.target.select()} aria-label="Share link" className="font-mono text-xs" />
+            )}
+
+            <div className="flex gap-2">
+              <Input
+                value={pdbId}
+                onChange={(e) => setPdbId(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="Add PDB ID, e.g. 1LDG"
+                aria-label="PDB ID to add"
+                className="max-w-xs font-mono"
+              />
+              <Button onClick={handleAdd} disabled={isLoading || !pdbId.trim()}>Add</Button>
+            </div>
+
+            {collection.structures.length === 0 ? (
+              <p className="text-sm text-secondary-600 dark:text-secondary-400">This collection is empty</p>
+            ) : (
+              <ol className="divide-y rounded-md border dark:divide-secondary-800 dark:border-secondary-800" aria-label="Collection structures">
+                {collection.structures.map((structure, index) => (
+                  <li key={structure.structureId} className="flex items-center gap-3 px-4 py-3">
+                    <span className="w-6 text-right text-sm text-secondary-500">{index + 1}</span>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium">{structure.name}</p>
+                      {structure.pdbId && (
+                        <p className="font-mono text-xs text-secondary-600 dark:text-secondary-400">PDB ID: {structure.pdbId}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleFavorite(structure.structureId, structure.isFavorite)}
+                      aria-label={structure.isFavorite ? `Unfavourite ${structure.name}` : `Favourite ${structure.name}`}
+                      aria-pressed={structure.isFavorite}
+                      className="text-secondary-400 hover:text-yellow-500"
+                    >
+                      <Star className={cn('h-4 w-4', structure.isFavorite && 'fill-yellow-400 text-yellow-500')} />
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={isLoading || index === 0}
+                      aria-label={`Move ${structure.name} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={isLoading || index === collection.structures.length - 1}
+                      aria-label={`Move ${structure.name} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    {structure.pdbId && (
+                      <Button asChild size="sm" variant="outline">
+                        <Link href={`/viewer?pdb=${structure.pdbId}`}>
+                          <Eye className="mr-1 h-4 w-4" />
+                          View
+                        </Link>
+                      </Button>
+                    )}
+                    <button
+                      onClick={() => handleRemove(structure.structureId)}
+                      aria-label={`Remove ${structure.name}`}
+                      className="text-secondary-400 hover:text-secondary-700"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import {
   selectCurrentUser,
   selectCanControl,
 } from '@/store/collaboration-slice';
-import { collaborationSession } from '@/services/collaboration-session';
+import { documentSync } from '@/services/document-sync';
 import type { Annotation } from '@/types/collaboration';
 
 interface AnnotationToolsProps {
@@ -28,9 +28,6 @@ export const AnnotationTools: React.FC<AnnotationToolsProps> = ({
   const canControl = useCollaborationStore(selectCanControl);
   const selectedAnnotationId = useCollaborationStore((state) => state.selectedAnnotation);
   const setSelectedAnnotation = useCollaborationStore((state) => state.setSelectedAnnotation);
-  const addAnnotation = useCollaborationStore((state) => state.addAnnotation);
-  const updateAnnotation = useCollaborationStore((state) => state.updateAnnotation);
-  const deleteAnnotation = useCollaborationStore((state) => state.deleteAnnotation);
   const addActivity = useCollaborationStore((state) => state.addActivity);
 
   const [isAdding, setIsAdding] = useState(false);
@@ -41,8 +38,9 @@ export const AnnotationTools: React.FC<AnnotationToolsProps> = ({
    * Create new annotation
    */
   const handleAddAnnotation = useCallback(
-    async (position: { x: number; y: number; z: number }, target?: Annotation['target']) => {
-      if (!currentUser || !canControl) {
+    (position: { x: number; y: number; z: number }, target?: Annotation['target']) => {
+      const document = documentSync.getDocument();
+      if (!currentUser || !canControl || !document) {
         return;
       }
 
@@ -59,109 +57,79 @@ export const AnnotationTools: React.FC<AnnotationToolsProps> = ({
         isPinned: false,
       };
 
-      // Optimistic update
-      addAnnotation(annotation);
+      // Applied locally at once, and sent when connected
+      document.addAnnotation(annotation);
 
-      try {
-        // Broadcast to other users
-        await collaborationSession.broadcast('annotation-add', annotation);
-
-        // Add activity
-        addActivity({
-          id: `activity-${Date.now()}`,
-          type: 'annotation-add',
-          userId: currentUser.id,
-          userName: currentUser.name,
-          timestamp: Date.now(),
-          message: `${currentUser.name} added an annotation`,
-          data: { annotationId: annotation.id },
-        });
+      addActivity({
+        id: `activity-${Date.now()}`,
+        type: 'annotation-add',
+        userId: currentUser.id,
+        userName: currentUser.name,
+        timestamp: Date.now(),
+        message: `${currentUser.name} added an annotation`,
+        data: { annotationId: annotation.id },
+      });
 
-        setNewAnnotationContent('');
-        setIsAdding(false);
-      } catch (error) {
-        console.error('Failed to add annotation:', error);
-        // Rollback on error
-        deleteAnnotation(annotation.id);
-      }
+      setNewAnnotationContent('');
+      setIsAdding(false);
     },
-    [currentUser, canControl, newAnnotationContent, addAnnotation, addActivity, deleteAnnotation]
+    [currentUser, canControl, newAnnotationContent, addActivity]
   );
 
   /**
    * Edit annotation
    */
   const handleEditAnnotation = useCallback(
-    async (id: string, content: string) => {
-      if (!currentUser) return;
+    (id: string, content: string) => {
+      const document = documentSync.getDocument();
+      if (!currentUser || !document) return;
 
       const annotation = annotations.find((a) => a.id === id);
       if (!annotation || annotation.userId !== currentUser.id) {
         return;
       }
 
-      // Optimistic update
-      updateAnnotation(id, { content });
+      document.updateAnnotation(id, { content });
 
-      try {
-        const updated = { ...annotation, content, updatedAt: Date.now() };
-        await collaborationSession.broadcast('annotation-edit', updated);
-
-        addActivity({
-          id: `activity-${Date.now()}`,
-          type: 'annotation-edit',
-          userId: currentUser.id,
-          userName: currentUser.name,
-          timestamp: Date.now(),
-          message: `${currentUser.name} edited an annotation`,
-          data: { annotationId: id },
-        });
-      } catch (error) {
-        console.error('Failed to edit annotation:', error);
-      }
+      addActivity({
+        id: `activity-${Date.now()}`,
+        type: 'annotation-edit',
+        userId: currentUser.id,
+        userName: currentUser.name,
+        timestamp: Date.now(),
+        message: `${currentUser.name} edited an annotation`,
+        data: { annotationId: id },
+      });
     },
-    [currentUser, annotations, updateAnnotation, addActivity]
+    [currentUser, annotations, addActivity]
   );
 
   /**
    * Delete annotation
    */
   const handleDeleteAnnotation = useCallback(
-    async (id: string) => {
-      if (!currentUser) return;
+    (id: string) => {
+      const document = documentSync.getDocument();
+      if (!currentUser || !document) return;
 
       const annotation = annotations.find((a) => a.id === id);
       if (!annotation || annotation.userId !== currentUser.id) {
         return;
       }
 
-      // Optimistic delete
-      deleteAnnotation(id);
-
-      try {
-        await collaborationSession.broadcast('annotation-delete', {
-          id,
-          userId: currentUser.id,
-        });
+      document.deleteAnnotation(id);
 
-        addActivity({
-          id: `activity-${Date.now()}`,
-          type: 'annotation-delete',
-          userId: currentUser.id,
-          userName: currentUser.name,
-          timestamp: Date.now(),
-          message: `${currentUser.name} deleted an annotation`,
-          data: { annotationId: id },
-        });
-      } catch (error) {
-        console.error('Failed to delete annotation:', error);
-        // Rollback
-        if (annotation) {
-          addAnnotation(annotation);
-        }
-      }
+      addActivity({
+        id: `activity-${Date.now()}`,
+        type: 'annotation-delete',
+        userId: currentUser.id,
+        userName: currentUser.name,
+        timestamp: Date.now(),
+        message: `${currentUser.name} deleted an annotation`,
+        data: { annotationId: id },
+      });
     },
-    [currentUser, annotations, deleteAnnotation, addActivity, addAnnotation]
+    [currentUser, annotations, addActivity]
   );
 
   /**
@@ -171,10 +139,10 @@ export const AnnotationTools: React.FC<AnnotationToolsProps> = ({
     (id: string) => {
       const annotation = annotations.find((a) => a.id === id);
       if (annotation) {
-        updateAnnotation(id, { isPinned: !annotation.isPinned });
+        documentSync.getDocument()?.updateAnnotation(id, { isPinned: !annotation.isPinned });
       }
     },
-    [annotations, updateAnnotation]
+    [annotations]
   );
 
   /**
@@ -9,7 +9,10 @@ import { CursorOverlay } from './CursorOverlay';
 import { AnnotationTools } from './AnnotationTools';
 import { ActivityFeed } from './ActivityFeed';
 import { UserPresence } from './UserPresence';
+import { SessionNotes } from './SessionNotes';
 import { useCollaboration, useCameraSync, useInviteLink } from '@/hooks/use-collaboration';
+import { useSessionRecording, getRecordingLink } from '@/hooks/use-session-recording';
+import { formatPlaybackTime } from '@/lib/session-recording';
 import { useCollaborationStore, selectCurrentSession } from '@/store/collaboration-slice';
 
 interface CollaborationPanelProps {
@@ -19,7 +22,7 @@ interface CollaborationPanelProps {
   onClose?: () => void;
 }
 
-type PanelTab = 'users' | 'annotations' | 'activity';
+type PanelTab = 'users' | 'annotations' | 'notes' | 'activity';
 
 export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
   userId,
@@ -31,6 +34,19 @@ export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
     useCollaboration(userId, userName);
   const { isFollowing, requestControl, releaseControl, toggleFollow } = useCameraSync();
   const { inviteLink, inviteCode, copyToClipboard } = useInviteLink();
+  const pendingChanges = useCollaborationStore((state) => state.pendingChanges);
+  const {
+    isRecording,
+    elapsed,
+    isSaving,
+    savedRecording,
+    unsavedRecording,
+    startRecording,
+    stopRecording,
+    retrySave,
+    discardRecording,
+    setPublic,
+  } = useSessionRecording(structureId);
 
   const [activeTab, setActiveTab] = useState<PanelTab>('users');
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -89,6 +105,16 @@ export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
     const confirmed = confirm('Are you sure you want to leave this session?');
     if (!confirmed) return;
 
+    // A failed save must not keep the user in the session; the recording
+    // stays unsaved and can be retried from the banner
+    if (isRecording) {
+      try {
+        await saveRecording();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save recording');
+      }
+    }
+
     try {
       await leaveSession();
     } catch (err) {
@@ -96,6 +122,81 @@ export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
     }
   };
 
+  /**
+   * Stop recording and save it, titled after the session
+   */
+  const saveRecording = async () => {
+    const date = new Date().toLocaleDateString();
+    await stopRecording(session ? `${session.name} — ${date}` : `Session recording — ${date}`);
+  };
+
+  /**
+   * Start/stop recording
+   */
+  const handleToggleRecording = async () => {
+    setError(null);
+
+    try {
+      if (isRecording) {
+        await saveRecording();
+      } else {
+        startRecording();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record session');
+    }
+  };
+
+  /**
+   * Try saving a recording whose save failed again
+   */
+  const handleRetrySave = async () => {
+    setError(null);
+
+    try {
+      await retrySave();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save recording');
+    }
+  };
+
+  /**
+   * Drop a recording that could not be saved
+   */
+  const handleDiscardRecording = () => {
+    const confirmed = confirm('Discard this recording? It has not been saved.');
+    if (!confirmed) return;
+
+    discardRecording();
+  };
+
+  /**
+   * Copy recording link
+   */
+  const handleCopyRecordingLink = async () => {
+    if (!savedRecording) return;
+
+    try {
+      await navigator.clipboard.writeText(getRecordingLink(savedRecording.id));
+      alert('Recording link copied to clipboard!');
+    } catch (err) {
+      console.error('Failed to copy recording link:', err);
+    }
+  };
+
+  /**
+   * Let anyone with the link watch the recording
+   */
+  const handleTogglePublic = async () => {
+    if (!savedRecording) return;
+
+    try {
+      await setPublic(!savedRecording.isPublic);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update recording');
+    }
+  };
+
   /**
    * Copy invite link
    */
@@ -267,7 +368,9 @@ export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
                   }`}
                 />
                 <span className="text-xs text-gray-600 dark:text-gray-400">
-                  {isConnected ? 'Connected' : 'Disconnected'}
+                  {isConnected ? 'Connected' : 'Offline'}
+                  {pendingChanges > 0 &&
+                    ` · ${pendingChanges} unsent ${pendingChanges === 1 ? 'change' : 'changes'}`}
                 </span>
               </div>
             </div>
@@ -302,6 +405,22 @@ export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
             >
               {isFollowing ? 'Following' : 'Follow'}
             </button>
+            <button
+              onClick={handleToggleRecording}
+              disabled={isSaving}
+              className={`px-3 py-1.5 text-sm rounded disabled:opacity-50 ${
+                isRecording
+                  ? 'bg-red-600 text-white hover:bg-red-700'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
+              title={isRecording ? 'Stop and save recording' : 'Record session'}
+            >
+              {isSaving
+                ? 'Saving...'
+                : isRecording
+                  ? `Stop ${formatPlaybackTime(elapsed)}`
+                  : 'Record'}
+            </button>
             <button
               onClick={handleLeaveSession}
               className="px-3 py-1.5 text-sm bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-800"
@@ -309,13 +428,59 @@ export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
               Leave
             </button>
           </div>
+
+          {unsavedRecording && (
+            <div className="mt-3 flex items-center gap-2 text-xs text-red-700 dark:text-red-400">
+              <span className="flex-1">Recording not saved</span>
+              <button
+                onClick={handleRetrySave}
+                disabled={isSaving}
+                className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Retry'}
+              </button>
+              <button
+                onClick={handleDiscardRecording}
+                disabled={isSaving}
+                className="text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50"
+              >
+                Discard
+              </button>
+            </div>
+          )}
+
+          {savedRecording && (
+            <div className="mt-3 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+              <span className="flex-1">Recording saved</span>
+              <button
+                onClick={handleCopyRecordingLink}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Copy link
+              </button>
+              <button
+                onClick={handleTogglePublic}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {savedRecording.isPublic ? 'Make private' : 'Make public'}
+              </button>
+            </div>
+          )}
         </div>
 
+        {/* Error message */}
+        {error && (
+          <div className="mx-4 mt-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-sm text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="flex border-b border-gray-200 dark:border-gray-700">
           {([
             { id: 'users', label: 'Users' },
             { id: 'annotations', label: 'Annotations' },
+            { id: 'notes', label: 'Notes' },
             { id: 'activity', label: 'Activity' },
           ] as const).map((tab) => (
             <button
@@ -338,6 +503,7 @@ export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
           {activeTab === 'annotations' && (
             <AnnotationTools structureId={structureId} />
           )}
+          {activeTab === 'notes' && <SessionNotes />}
           {activeTab === 'activity' && <ActivityFeed />}
         </div>
       </div>
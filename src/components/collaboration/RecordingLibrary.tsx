@@ -0,0 +1,125 @@
+/**
+ * RecordingLibrary component - Recorded sessions
+ * Lists the recordings the user can watch, or plays one
+ */
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { SessionReplay } from './SessionReplay';
+import { sessionRecordingService } from '@/services/session-recording-service';
+import { formatPlaybackTime } from '@/lib/session-recording';
+import type { SessionRecording, SessionRecordingSummary } from '@/types/session-recording';
+
+interface RecordingLibraryProps {
+  recordingId?: string;
+}
+
+export const RecordingLibrary: React.FC<RecordingLibraryProps> = ({ recordingId }) => {
+  const [recordings, setRecordings] = useState<SessionRecordingSummary[]>([]);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    const load = recordingId
+      ? sessionRecordingService.getRecording(recordingId).then((loaded) => {
+          if (!cancelled) setRecording(loaded);
+        })
+      : sessionRecordingService.listRecordings().then((listed) => {
+          if (!cancelled) setRecordings(listed);
+        });
+
+    load
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingId]);
+
+  if (isLoading) {
+    return (
+      <div className="p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+        Loading recordings...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="m-8 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-sm text-red-700 dark:text-red-400">
+        {error}
+      </div>
+    );
+  }
+
+  if (recording) {
+    return (
+      <div className="flex flex-col h-screen">
+        <div className="flex items-center gap-4 px-4 py-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+          <Link
+            href="/recordings"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            All recordings
+          </Link>
+          <h1 className="text-lg font-bold text-gray-900 dark:text-white truncate">
+            {recording.title}
+          </h1>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {new Date(recording.startedAt).toLocaleString()}
+          </span>
+        </div>
+        <div className="flex-1 min-h-0">
+          <SessionReplay recording={recording} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl px-6 py-12">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+        Session Recordings
+      </h1>
+      {recordings.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No recordings yet. Record a session from the collaboration panel.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {recordings.map((item) => (
+            <li key={item.id}>
+              <Link
+                href={`/recordings?id=${item.id}`}
+                className="flex items-center justify-between py-3 hover:bg-gray-50 dark:hover:bg-gray-800"
+              >
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">{item.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(item.startedAt).toLocaleString()}
+                    {item.structureId && ` · ${item.structureId}`}
+                    {item.isPublic && ' · Public'}
+                  </p>
+                </div>
+                <span className="text-sm tabular-nums text-gray-600 dark:text-gray-400">
+                  {formatPlaybackTime(item.durationMs)}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
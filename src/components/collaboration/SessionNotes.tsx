@@ -0,0 +1,90 @@
+/**
+ * SessionNotes component - Shared notes and measurements
+ * Notes and measurements live in the session document, so edits made while
+ * offline are kept and merged with everyone else's on reconnect
+ */
+'use client';
+
+import React from 'react';
+import { useCollaborationStore, selectCanControl } from '@/store/collaboration-slice';
+import { documentSync } from '@/services/document-sync';
+
+export const SessionNotes: React.FC = () => {
+  const notes = useCollaborationStore((state) => state.notes);
+  const measurements = useCollaborationStore((state) => state.sharedMeasurements);
+  const canControl = useCollaborationStore(selectCanControl);
+
+  /**
+   * Edit notes
+   */
+  const handleNotesChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    documentSync.getDocument()?.setNotes(e.target.value);
+  };
+
+  /**
+   * Remove a shared measurement
+   */
+  const handleRemoveMeasurement = (id: string) => {
+    documentSync.getDocument()?.removeMeasurement(id);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-900">
+      {/* Notes */}
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          Notes
+        </h3>
+        <textarea
+          value={notes}
+          onChange={handleNotesChange}
+          placeholder="Shared notes for this session..."
+          aria-label="Session notes"
+          className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white resize-none"
+          rows={8}
+        />
+      </div>
+
+      {/* Measurements */}
+      <div className="flex-1 overflow-y-auto">
+        <h3 className="px-4 pt-4 text-sm font-semibold text-gray-900 dark:text-white">
+          Measurements
+        </h3>
+        {measurements.length === 0 ? (
+          <div className="p-4 text-center text-sm text-gray-500 dark:text-gray-400">
+            Measurements taken in the viewer appear here
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700" aria-label="Shared measurements">
+            {measurements.map((measurement) => (
+              <li key={measurement.id} className="flex items-center gap-2 px-4 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-white truncate">
+                    {measurement.label}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 capitalize">
+                    {measurement.type}
+                  </p>
+                </div>
+                <span className="text-sm font-mono text-gray-700 dark:text-gray-300">
+                  {measurement.value.toFixed(2)} {measurement.unit}
+                </span>
+                {canControl && (
+                  <button
+                    onClick={() => handleRemoveMeasurement(measurement.id)}
+                    className="p-1 text-red-400 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+/**
+ * SessionReplay component - Playback of a recorded session
+ * Shows the structure, camera, cursors, annotations, notes and activity of a
+ * session as they were at each point of the recording
+ */
+'use client';
+
+import React from 'react';
+import { MolStarViewer } from '@/components/viewer/MolStarViewer';
+import { useSessionReplay } from '@/hooks/use-session-recording';
+import { REPLAY_SPEEDS } from '@/services/session-replay';
+import { formatPlaybackTime } from '@/lib/session-recording';
+import type { SessionRecording } from '@/types/session-recording';
+
+interface SessionReplayProps {
+  recording: SessionRecording;
+}
+
+export const SessionReplay: React.FC<SessionReplayProps> = ({ recording }) => {
+  const { state, play, pause, seek, setSpeed } = useSessionReplay(recording);
+
+  if (!state) return null;
+
+  return (
+    <div className="flex h-full">
+      {/* Viewer and transport */}
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="relative flex-1">
+          {state.structureId ? (
+            <MolStarViewer pdbId={state.structureId} className="w-full h-full" />
+          ) : (
+            <div className="flex items-center justify-center h-full text-sm text-gray-500 dark:text-gray-400">
+              No structure loaded yet
+            </div>
+          )}
+
+          {/* Cursors */}
+          <div className="absolute inset-0 pointer-events-none" aria-hidden="true">
+            {state.users
+              .filter((user) => user.cursor)
+              .map((user) => (
+                <div
+                  key={user.id}
+                  className="absolute px-2 py-1 rounded text-xs font-medium text-white shadow-lg whitespace-nowrap"
+                  style={{
+                    left: `${user.cursor!.x}%`,
+                    top: `${user.cursor!.y}%`,
+                    backgroundColor: user.color,
+                  }}
+                >
+                  {user.name}
+                </div>
+              ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 p-3 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+          <button
+            onClick={state.isPlaying ? pause : play}
+            className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded font-medium w-16"
+          >
+            {state.isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={state.durationMs}
+            step={100}
+            value={state.time}
+            onChange={(e) => seek(Number(e.target.value))}
+            className="flex-1"
+            aria-label="Playback position"
+          />
+          <span className="text-xs tabular-nums text-gray-600 dark:text-gray-400">
+            {formatPlaybackTime(state.time)} / {formatPlaybackTime(state.durationMs)}
+          </span>
+          <select
+            value={state.speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            aria-label="Playback speed"
+          >
+            {REPLAY_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>
+                {speed}×
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Session state */}
+      <div className="w-80 border-l border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 overflow-y-auto">
+        <section className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+            Participants ({state.users.length})
+          </h3>
+          <ul className="space-y-1">
+            {state.users.map((user) => (
+              <li key={user.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: user.color }} />
+                {user.name}
+                <span className="text-xs text-gray-500 dark:text-gray-400">{user.role}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+            Annotations ({state.annotations.length})
+          </h3>
+          {state.annotations.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">None yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {state.annotations.map((annotation) => (
+                <li key={annotation.id} className="text-sm">
+                  <span className="font-medium" style={{ color: annotation.color }}>
+                    {annotation.userName}
+                  </span>
+                  <p className="text-gray-700 dark:text-gray-300">{annotation.content}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {state.measurements.length > 0 && (
+          <section className="p-4 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+              Measurements
+            </h3>
+            <ul className="space-y-1">
+              {state.measurements.map((measurement) => (
+                <li key={measurement.id} className="text-sm text-gray-700 dark:text-gray-300">
+                  {measurement.label}: {measurement.value.toFixed(2)} {measurement.unit}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {state.notes && (
+          <section className="p-4 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Notes</h3>
+            <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{state.notes}</p>
+          </section>
+        )}
+
+        <section className="p-4">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Activity</h3>
+          <ul className="space-y-1">
+            {state.activities
+              .slice()
+              .reverse()
+              .map((activity) => (
+                <li key={activity.id} className="text-xs text-gray-600 dark:text-gray-400">
+                  {activity.message}
+                </li>
+              ))}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -6,4 +6,7 @@ export { CursorOverlay } from './CursorOverlay';
 export { AnnotationTools } from './AnnotationTools';
 export { ActivityFeed } from './ActivityFeed';
 export { UserPresence } from './UserPresence';
+export { SessionNotes } from './SessionNotes';
 export { CollaborationPanel } from './CollaborationPanel';
+export { SessionReplay } from './SessionReplay';
+export { RecordingLibrary } from './RecordingLibrary';
@@ -14,6 +14,7 @@ import {
   type MetabolicPathway as MetabolicPathwayType,
   type LABProtein,
 } from '@/data/lab-structures';
+import { findMetabolite } from '@/data/metabolites';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Select,
@@ -38,6 +39,7 @@ import { cn } from '@/lib/utils';
 interface MetabolicPathwayProps {
   pathwayId?: string;
   onProteinClick?: (pdbId: string) => void;
+  onSubstrateClick?: (substrate: string, pdbId?: string) => void; // pdbId of the enzyme acting on it, if shown
 }
 
 interface PathwayStep {
@@ -63,6 +65,7 @@ interface SubstrateNodeProps {
   name: string;
   isInput?: boolean;
   isOutput?: boolean;
+  onClick?: () => void;
 }
 
 interface ArrowConnectorProps {
@@ -224,21 +227,15 @@ const HETEROFERMENTATIVE_STEPS: PathwayStep[] = [
 // HELPER COMPONENTS
 // =============================================================================
 
-const SubstrateNode: React.FC<SubstrateNodeProps> = ({ name, isInput, isOutput }) => {
+const SubstrateNode: React.FC<SubstrateNodeProps> = ({ name, isInput, isOutput, onClick }) => {
   const bgColor = isInput
     ? 'bg-amber-100 border-amber-400 text-amber-800'
     : isOutput
     ? 'bg-emerald-100 border-emerald-400 text-emerald-800'
     : 'bg-slate-100 border-slate-300 text-slate-700';
 
-  return (
-    <div
-      className={cn(
-        'px-3 py-2 rounded-lg border-2 font-medium text-sm text-center min-w-[80px]',
-        'transition-all duration-200 hover:shadow-md',
-        bgColor
-      )}
-    >
+  const content = (
+    <>
       {name}
       {isInput && (
         <div className="text-[10px] font-normal mt-0.5 text-amber-600">Input</div>
@@ -246,7 +243,22 @@ const SubstrateNode: React.FC<SubstrateNodeProps> = ({ name, isInput, isOutput }
       {isOutput && (
         <div className="text-[10px] font-normal mt-0.5 text-emerald-600">Product</div>
       )}
-    </div>
+    </>
+  );
+  const className = cn(
+    'px-3 py-2 rounded-lg border-2 font-medium text-sm text-center min-w-[80px]',
+    'transition-all duration-200 hover:shadow-md',
+    bgColor
+  );
+
+  if (!onClick) {
+    return <div className={className}>{content}</div>;
+  }
+
+  return (
+    <button onClick={onClick} className={cn(className, 'cursor-pointer')} title={`View ${name} in 3D`}>
+      {content}
+    </button>
   );
 };
 
@@ -381,6 +393,7 @@ interface PathwayStepCardProps {
   stepNumber: number;
   protein?: LABProtein;
   onEnzymeClick?: () => void;
+  onSubstrateClick?: (name: string) => void;
   isCompact?: boolean;
 }
 
@@ -389,8 +402,12 @@ const PathwayStepCard: React.FC<PathwayStepCardProps> = ({
   stepNumber,
   protein,
   onEnzymeClick,
+  onSubstrateClick,
   isCompact = false,
 }) => {
+  const substrateClick = (name: string) =>
+    onSubstrateClick && findMetabolite(name) ? () => onSubstrateClick(name) : undefined;
+
   return (
     <div
       className={cn(
@@ -414,9 +431,9 @@ const PathwayStepCard: React.FC<PathwayStepCardProps> = ({
 
       {/* Reaction Visualization */}
       <div className="flex items-center justify-center gap-2 mb-3">
-        <SubstrateNode name={step.substrate} />
+        <SubstrateNode name={step.substrate} onClick={substrateClick(step.substrate)} />
         <ArrowConnector direction="right" />
-        <SubstrateNode name={step.product} />
+        <SubstrateNode name={step.product} onClick={substrateClick(step.product)} />
       </div>
 
       {/* Cofactors & Energy */}
@@ -473,11 +490,13 @@ const PathwayStepCard: React.FC<PathwayStepCardProps> = ({
 
 interface HomofermentativeVisualizationProps {
   onProteinClick?: (pdbId: string) => void;
+  onSubstrateClick?: (substrate: string, pdbId?: string) => void;
   highlightedEnzyme?: string;
 }
 
 const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps> = ({
   onProteinClick,
+  onSubstrateClick,
   highlightedEnzyme,
 }) => {
   const proteinMap = useMemo(() => {
@@ -490,6 +509,9 @@ const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps
     return map;
   }, []);
 
+  const substrateClick = (name: string, pdbId?: string) =>
+    onSubstrateClick && findMetabolite(name) ? () => onSubstrateClick(name, pdbId) : undefined;
+
   return (
     <div className="space-y-6">
       {/* Simplified Flow Diagram */}
@@ -505,22 +527,22 @@ const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps
             <div className="flex items-center justify-start gap-1 min-w-max py-4">
               {/* Phase 1: Energy Investment */}
               <div className="flex items-center gap-1 px-3 py-2 bg-red-50 rounded-lg border border-red-200">
-                <SubstrateNode name="Glucose" isInput />
+                <SubstrateNode name="Glucose" isInput onClick={substrateClick('Glucose')} />
                 <ArrowConnector />
                 <EnzymeNode
                   enzyme="Hexokinase"
                   onClick={() => {}}
                 />
                 <ArrowConnector />
-                <SubstrateNode name="G6P" />
+                <SubstrateNode name="G6P" onClick={substrateClick('G6P')} />
                 <ArrowConnector />
                 <EnzymeNode enzyme="Isomerase" />
                 <ArrowConnector />
-                <SubstrateNode name="F6P" />
+                <SubstrateNode name="F6P" onClick={substrateClick('F6P')} />
                 <ArrowConnector />
                 <EnzymeNode enzyme="PFK" />
                 <ArrowConnector />
-                <SubstrateNode name="F1,6BP" />
+                <SubstrateNode name="F1,6BP" onClick={substrateClick('F1,6BP')} />
               </div>
             </div>
 
@@ -532,11 +554,11 @@ const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps
             <div className="flex justify-center gap-1 py-2">
               <div className="px-3 py-2 bg-purple-50 rounded-lg border border-purple-200">
                 <div className="flex items-center gap-1">
-                  <SubstrateNode name="F1,6BP" />
+                  <SubstrateNode name="F1,6BP" onClick={substrateClick('F1,6BP')} />
                   <ArrowConnector />
                   <EnzymeNode enzyme="Aldolase" />
                   <ArrowConnector />
-                  <SubstrateNode name="2x G3P" />
+                  <SubstrateNode name="2x G3P" onClick={substrateClick('2x G3P', '1DC4')} />
                 </div>
               </div>
             </div>
@@ -548,7 +570,7 @@ const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps
             {/* Phase 3: Energy Payoff */}
             <div className="flex items-center justify-start gap-1 min-w-max py-4">
               <div className="flex items-center gap-1 px-3 py-2 bg-emerald-50 rounded-lg border border-emerald-200">
-                <SubstrateNode name="2x G3P" />
+                <SubstrateNode name="2x G3P" onClick={substrateClick('2x G3P', '1DC4')} />
                 <ArrowConnector />
                 <EnzymeNode
                   enzyme="GAPDH"
@@ -568,7 +590,7 @@ const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps
                   isHighlighted={highlightedEnzyme === 'Pyruvate Kinase'}
                 />
                 <ArrowConnector />
-                <SubstrateNode name="2x Pyruvate" />
+                <SubstrateNode name="2x Pyruvate" onClick={substrateClick('2x Pyruvate', '1LDG')} />
               </div>
             </div>
 
@@ -580,7 +602,7 @@ const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps
             <div className="flex justify-center gap-1 py-2">
               <div className="px-4 py-3 bg-green-100 rounded-lg border-2 border-green-400">
                 <div className="flex items-center gap-2">
-                  <SubstrateNode name="2x Pyruvate" />
+                  <SubstrateNode name="2x Pyruvate" onClick={substrateClick('2x Pyruvate', '1LDG')} />
                   <ArrowConnector />
                   <EnzymeNode
                     enzyme="LDH"
@@ -590,7 +612,7 @@ const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps
                     isHighlighted={highlightedEnzyme === 'LDH'}
                   />
                   <ArrowConnector />
-                  <SubstrateNode name="2x L-Lactate" isOutput />
+                  <SubstrateNode name="2x L-Lactate" isOutput onClick={substrateClick('2x L-Lactate', '1LDG')} />
                 </div>
                 <div className="text-center mt-2 text-sm font-medium text-green-700">
                   + 2 ATP (net)
@@ -612,6 +634,7 @@ const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps
               stepNumber={idx + 1}
               protein={step.pdbId ? proteinMap[step.pdbId] : undefined}
               onEnzymeClick={step.pdbId ? () => onProteinClick?.(step.pdbId!) : undefined}
+              onSubstrateClick={onSubstrateClick ? (name) => onSubstrateClick(name, step.pdbId) : undefined}
             />
           ))}
         </div>
@@ -640,10 +663,12 @@ const HomofermentativeVisualization: React.FC<HomofermentativeVisualizationProps
 
 interface HeterofermentativeVisualizationProps {
   onProteinClick?: (pdbId: string) => void;
+  onSubstrateClick?: (substrate: string, pdbId?: string) => void;
 }
 
 const HeterofermentativeVisualization: React.FC<HeterofermentativeVisualizationProps> = ({
   onProteinClick,
+  onSubstrateClick,
 }) => {
   const proteinMap = useMemo(() => {
     const map: Record<string, LABProtein | undefined> = {};
@@ -655,6 +680,9 @@ const HeterofermentativeVisualization: React.FC<HeterofermentativeVisualizationP
     return map;
   }, []);
 
+  const substrateClick = (name: string, pdbId?: string) =>
+    onSubstrateClick && findMetabolite(name) ? () => onSubstrateClick(name, pdbId) : undefined;
+
   return (
     <div className="space-y-6">
       {/* Overview Diagram */}
@@ -670,14 +698,14 @@ const HeterofermentativeVisualization: React.FC<HeterofermentativeVisualizationP
             {/* Main Flow */}
             <div className="flex flex-col items-center gap-4 py-4">
               <div className="flex items-center gap-1">
-                <SubstrateNode name="Glucose" isInput />
+                <SubstrateNode name="Glucose" isInput onClick={substrateClick('Glucose')} />
                 <ArrowConnector />
-                <SubstrateNode name="G6P" />
+                <SubstrateNode name="G6P" onClick={substrateClick('G6P')} />
                 <ArrowConnector />
-                <SubstrateNode name="6PG" />
+                <SubstrateNode name="6PG" onClick={substrateClick('6PG')} />
                 <ArrowConnector />
                 <div className="flex flex-col items-center">
-                  <SubstrateNode name="Ru5P" />
+                  <SubstrateNode name="Ru5P" onClick={substrateClick('Ru5P', '1GPO')} />
                   <span className="text-xs text-amber-600 font-medium mt-1">+ CO2</span>
                 </div>
               </div>
@@ -699,19 +727,19 @@ const HeterofermentativeVisualization: React.FC<HeterofermentativeVisualizationP
               {/* Branch Point */}
               <div className="flex items-center gap-8">
                 <div className="text-center p-3 bg-green-50 rounded-lg border border-green-200">
-                  <SubstrateNode name="G3P" />
+                  <SubstrateNode name="G3P" onClick={substrateClick('G3P')} />
                   <ArrowConnector direction="down" />
-                  <SubstrateNode name="Lactate" isOutput />
+                  <SubstrateNode name="Lactate" isOutput onClick={substrateClick('Lactate')} />
                   <div className="text-xs text-green-600 mt-1">+2 ATP</div>
                 </div>
 
                 <div className="text-center p-3 bg-blue-50 rounded-lg border border-blue-200">
-                  <SubstrateNode name="Acetyl-P" />
+                  <SubstrateNode name="Acetyl-P" onClick={substrateClick('Acetyl-P', '1GPO')} />
                   <ArrowConnector direction="down" />
                   <div className="flex gap-2">
-                    <SubstrateNode name="Acetate" isOutput />
+                    <SubstrateNode name="Acetate" isOutput onClick={substrateClick('Acetate')} />
                     <span className="self-center text-gray-400">or</span>
-                    <SubstrateNode name="Ethanol" isOutput />
+                    <SubstrateNode name="Ethanol" isOutput onClick={substrateClick('Ethanol')} />
                   </div>
                   <div className="text-xs text-blue-600 mt-1">+1 ATP or NAD+ regen</div>
                 </div>
@@ -732,6 +760,7 @@ const HeterofermentativeVisualization: React.FC<HeterofermentativeVisualizationP
               stepNumber={idx + 1}
               protein={step.pdbId ? proteinMap[step.pdbId] : undefined}
               onEnzymeClick={step.pdbId ? () => onProteinClick?.(step.pdbId!) : undefined}
+              onSubstrateClick={onSubstrateClick ? (name) => onSubstrateClick(name, step.pdbId) : undefined}
             />
           ))}
         </div>
@@ -771,7 +800,7 @@ const HeterofermentativeVisualization: React.FC<HeterofermentativeVisualizationP
 // MAIN COMPONENT
 // =============================================================================
 
-export function MetabolicPathway({ pathwayId, onProteinClick }: MetabolicPathwayProps) {
+export function MetabolicPathway({ pathwayId, onProteinClick, onSubstrateClick }: MetabolicPathwayProps) {
   const [selectedPathwayId, setSelectedPathwayId] = useState<string>(
     pathwayId || LAB_METABOLIC_PATHWAYS[0]?.id || 'homofermentative'
   );
@@ -896,11 +925,11 @@ export function MetabolicPathway({ pathwayId, onProteinClick }: MetabolicPathway
 
         {/* Pathway Visualization */}
         {selectedPathwayId === 'homofermentative' && (
-          <HomofermentativeVisualization onProteinClick={handleProteinClick} />
+          <HomofermentativeVisualization onProteinClick={handleProteinClick} onSubstrateClick={onSubstrateClick} />
         )}
 
         {selectedPathwayId === 'heterofermentative' && (
-          <HeterofermentativeVisualization onProteinClick={handleProteinClick} />
+          <HeterofermentativeVisualization onProteinClick={handleProteinClick} onSubstrateClick={onSubstrateClick} />
         )}
 
         {/* Generic Pathway View for other pathways */}
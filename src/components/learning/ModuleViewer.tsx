@@ -7,7 +7,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useLearningModule } from '@/hooks/use-learning';
-import type { ModuleContentData } from '@/types/learning';
+import type { ComparisonElementConfig, InteractiveElement, ModuleContentData } from '@/types/learning';
 import { sanitizeForReact } from '@/lib/security/xss-sanitizer';
 
 interface ModuleViewerProps {
@@ -194,12 +194,42 @@ function GuideContent({ content }: { content: Extract<ModuleContentData, { type:
           {section.images && section.images.map((img, idx) => (
             <img key={idx} src={img} alt={`${section.title} image ${idx + 1}`} className="rounded-lg my-4" />
           ))}
+          {content.interactiveElements
+            ?.filter((element) => element.sectionId === section.id && element.type === 'comparison')
+            .map((element, idx) => (
+              <ComparisonElement key={idx} element={element} />
+            ))}
         </div>
       ))}
     </div>
   );
 }
 
+/**
+ * Comparison Element - Opens the viewer with the structures superposed
+ */
+function ComparisonElement({ element }: { element: InteractiveElement }) {
+  const { structures = [], labels = [] } = element.config as Partial<ComparisonElementConfig>;
+  if (structures.length < 2) return null;
+
+  return (
+    <div className="not-prose my-4 flex items-center justify-between rounded-lg border border-blue-200 bg-blue-50 p-4">
+      <div>
+        <p className="font-semibold text-blue-900">Compare structures</p>
+        <p className="text-sm text-blue-800">
+          {structures.map((id, idx) => (labels[idx] ? `${id} (${labels[idx]})` : id)).join(' vs ')}
+        </p>
+      </div>
+      <a
+        href={`/viewer?compare=${structures.map(encodeURIComponent).join(',')}`}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+      >
+        Superpose
+      </a>
+    </div>
+  );
+}
+
 /**
  * Tutorial Content Component
  */
@@ -0,0 +1,353 @@
+/**
+ * Trajectory Analysis Component
+ * RMSD, RMSF, radius of gyration and hydrogen-bond occupancy plots with CSV export
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Card } from '../ui/card';
+import type { Atom } from '../../lib/pdb-parser';
+import {
+  AnalysisFrame,
+  HydrogenBondOccupancy,
+  ResidueValue,
+  atomMasses,
+  hydrogenBondOccupancy,
+  perResidue,
+  radiusOfGyrationSeries,
+  rmsdSeries,
+  rmsfPerAtom,
+  toCSV
+} from '../../lib/md-analysis';
+
+type AnalysisTab = 'rmsd' | 'rmsf' | 'rg' | 'hbonds';
+
+interface TrajectoryAnalysisProps {
+  frames: AnalysisFrame[];
+  atoms?: Atom[]; // Topology; enables per-residue RMSF, mass weighting and H-bonds
+  onApplyRMSF?: (residues: ResidueValue[]) => void;
+  width?: number;
+  height?: number;
+}
+
+interface LineChartProps {
+  x: number[];
+  y: number[];
+  xLabel: string;
+  yLabel: string;
+  width: number;
+  height: number;
+}
+
+function LineChart({ x, y, xLabel, yLabel, width, height }: LineChartProps) {
+  const padding = { top: 20, right: 20, bottom: 40, left: 60 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const { path, xTicks, yTicks } = useMemo(() => {
+    const xMin = Math.min(...x);
+    const xMax = Math.max(...x);
+    const yMin = Math.min(0, ...y);
+    const yMax = Math.max(...y) * 1.1 || 1;
+    const xSpan = xMax - xMin || 1;
+
+    const xScale = (value: number) => ((value - xMin) / xSpan) * plotWidth;
+    const yScale = (value: number) => plotHeight - ((value - yMin) / (yMax - yMin)) * plotHeight;
+
+    const ticks = 5;
+    return {
+      path: y.map((value, i) => `${i === 0 ? 'M' : 'L'} ${xScale(x[i])} ${yScale(value)}`).join(' '),
+      xTicks: Array.from({ length: ticks + 1 }, (_, i) => ({
+        position: (plotWidth / ticks) * i,
+        value: xMin + (xSpan * i) / ticks
+      })),
+      yTicks: Array.from({ length: ticks + 1 }, (_, i) => ({
+        position: plotHeight - (plotHeight / ticks) * i,
+        value: yMin + ((yMax - yMin) * i) / ticks
+      }))
+    };
+  }, [x, y, plotWidth, plotHeight]);
+
+  return (
+    <svg width={width} height={height} className="border border-gray-200 rounded">
+      <g transform={`translate(${padding.left}, ${padding.top})`}>
+        {/* Grid Lines */}
+        <g className="text-gray-200">
+          {yTicks.map((tick, i) => (
+            <line
+              key={i}
+              x1={0}
+              y1={tick.position}
+              x2={plotWidth}
+              y2={tick.position}
+              stroke="currentColor"
+              strokeDasharray="2,2"
+            />
+          ))}
+        </g>
+
+        <path d={path} fill="none" stroke="#3B82F6" strokeWidth={2} />
+
+        {/* Axes */}
+        <g className="text-gray-700">
+          <line x1={0} y1={plotHeight} x2={plotWidth} y2={plotHeight} stroke="currentColor" strokeWidth={2} />
+          <line x1={0} y1={0} x2={0} y2={plotHeight} stroke="currentColor" strokeWidth={2} />
+        </g>
+
+        {/* Axis Labels */}
+        <g className="text-xs text-gray-600">
+          {xTicks.map((tick, i) => (
+            <text key={i} x={tick.position} y={plotHeight + 20} textAnchor="middle" fill="currentColor">
+              {tick.value.toFixed(1)}
+            </text>
+          ))}
+          <text x={plotWidth / 2} y={plotHeight + 35} textAnchor="middle" fill="currentColor" className="font-medium">
+            {xLabel}
+          </text>
+          {yTicks.map((tick, i) => (
+            <text
+              key={i}
+              x={-10}
+              y={tick.position}
+              textAnchor="end"
+              alignmentBaseline="middle"
+              fill="currentColor"
+            >
+              {tick.value.toFixed(2)}
+            </text>
+          ))}
+          <text
+            x={-45}
+            y={plotHeight / 2}
+            textAnchor="middle"
+            fill="currentColor"
+            transform={`rotate(-90, -45, ${plotHeight / 2})`}
+            className="font-medium"
+          >
+            {yLabel}
+          </text>
+        </g>
+      </g>
+    </svg>
+  );
+}
+
+function downloadCSV(filename: string, csv: string) {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function TrajectoryAnalysis({
+  frames,
+  atoms,
+  onApplyRMSF,
+  width = 600,
+  height = 300
+}: TrajectoryAnalysisProps) {
+  const [tab, setTab] = useState<AnalysisTab>('rmsd');
+  const [hbonds, setHbonds] = useState<HydrogenBondOccupancy[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const time = useMemo(() => frames.map(frame => frame.time), [frames]);
+
+  // Fit on C-alpha atoms when a protein topology is available
+  const fitAtoms = useMemo(() => {
+    const indices = atoms?.flatMap((atom, i) => (atom.name.trim() === 'CA' ? [i] : [])) ?? [];
+    return indices.length >= 3 ? indices : undefined;
+  }, [atoms]);
+
+  const rmsd = useMemo(() => (frames.length > 0 ? rmsdSeries(frames, { atoms: fitAtoms }) : []), [frames, fitAtoms]);
+  const rg = useMemo(
+    () => radiusOfGyrationSeries(frames, atoms ? atomMasses(atoms) : undefined),
+    [frames, atoms]
+  );
+  const rmsf = useMemo(() => {
+    if (frames.length === 0) return [];
+    const perAtom = rmsfPerAtom(frames, { atoms: fitAtoms });
+    if (atoms && atoms.length === perAtom.length) {
+      return perResidue(atoms, perAtom);
+    }
+    return Array.from(perAtom, (value, i): ResidueValue => ({
+      chainId: '',
+      residueSeq: i + 1,
+      residueName: '',
+      value
+    }));
+  }, [frames, atoms, fitAtoms]);
+
+  const handleHydrogenBonds = () => {
+    if (!atoms) return;
+    setError(null);
+    try {
+      setHbonds(hydrogenBondOccupancy(atoms, frames));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Hydrogen bond analysis failed');
+    }
+  };
+
+  const handleExport = () => {
+    switch (tab) {
+      case 'rmsd':
+        downloadCSV('rmsd.csv', toCSV(['time_ps', 'rmsd_A'], time.map((t, i) => [t, rmsd[i]])));
+        break;
+      case 'rg':
+        downloadCSV('radius_of_gyration.csv', toCSV(['time_ps', 'rg_A'], time.map((t, i) => [t, rg[i]])));
+        break;
+      case 'rmsf':
+        downloadCSV(
+          'rmsf.csv',
+          toCSV(
+            ['chain', 'residue', 'residue_name', 'rmsf_A'],
+            rmsf.map(r => [r.chainId, r.residueSeq, r.residueName, r.value])
+          )
+        );
+        break;
+      case 'hbonds':
+        downloadCSV(
+          'hbond_occupancy.csv',
+          toCSV(
+            ['donor', 'acceptor', 'occupancy', 'frames', 'mean_distance_A'],
+            (hbonds ?? []).map(h => [h.donor, h.acceptor, h.occupancy, h.frames, h.meanDistance])
+          )
+        );
+        break;
+    }
+  };
+
+  if (frames.length === 0) {
+    return (
+      <Card className="p-6">
+        <div className="text-center text-gray-500">
+          <p>No trajectory to analyse</p>
+          <p className="text-sm mt-2">Run a simulation or load a trajectory first</p>
+        </div>
+      </Card>
+    );
+  }
+
+  const tabs: Array<{ id: AnalysisTab; label: string; disabled?: boolean }> = [
+    { id: 'rmsd', label: 'RMSD' },
+    { id: 'rmsf', label: 'RMSF' },
+    { id: 'rg', label: 'Radius of Gyration' },
+    { id: 'hbonds', label: 'H-Bonds', disabled: !atoms }
+  ];
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Trajectory Analysis</h3>
+          <button
+            onClick={handleExport}
+            disabled={tab === 'hbonds' && !hbonds}
+            className="px-3 py-1 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-400"
+          >
+            Export CSV
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              disabled={t.disabled}
+              className={`px-3 py-1 text-sm rounded-md ${
+                tab === t.id ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              } disabled:opacity-50`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'rmsd' && (
+          <LineChart x={time} y={rmsd} xLabel="Time (ps)" yLabel="RMSD (Å)" width={width} height={height} />
+        )}
+
+        {tab === 'rg' && (
+          <LineChart x={time} y={rg} xLabel="Time (ps)" yLabel="Rg (Å)" width={width} height={height} />
+        )}
+
+        {tab === 'rmsf' && (
+          <>
+            <LineChart
+              x={rmsf.map((_, i) => i + 1)}
+              y={rmsf.map(r => r.value)}
+              xLabel={atoms ? 'Residue' : 'Atom'}
+              yLabel="RMSF (Å)"
+              width={width}
+              height={height}
+            />
+            {onApplyRMSF && atoms && (
+              <button
+                onClick={() => onApplyRMSF(rmsf)}
+                className="px-3 py-1 text-sm bg-gray-600 text-white rounded-md hover:bg-gray-700"
+              >
+                Color Structure by RMSF
+              </button>
+            )}
+          </>
+        )}
+
+        {tab === 'hbonds' && (
+          <div className="space-y-2">
+            {!hbonds && (
+              <button
+                onClick={handleHydrogenBonds}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Compute Occupancy ({frames.length} frames)
+              </button>
+            )}
+            {hbonds && hbonds.length === 0 && (
+              <p className="text-sm text-gray-500">No hydrogen bonds found</p>
+            )}
+            {hbonds && hbonds.length > 0 && (
+              <div className="max-h-72 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1">Donor</th>
+                      <th className="py-1">Acceptor</th>
+                      <th className="py-1">Occupancy</th>
+                      <th className="py-1">Mean Distance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {hbonds.map(h => (
+                      <tr key={`${h.donor}|${h.acceptor}`} className="border-t">
+                        <td className="py-1 font-mono">{h.donor}</td>
+                        <td className="py-1 font-mono">{h.acceptor}</td>
+                        <td className="py-1">
+                          <div className="flex items-center gap-2">
+                            <div className="w-16 bg-gray-200 rounded-full h-2">
+                              <div
+                                className="bg-blue-600 h-2 rounded-full"
+                                style={{ width: `${h.occupancy * 100}%` }}
+                              />
+                            </div>
+                            {(h.occupancy * 100).toFixed(0)}%
+                          </div>
+                        </td>
+                        <td className="py-1">{h.meanDistance.toFixed(2)} Å</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </Card>
+  );
+}
@@ -7,3 +7,4 @@ export { default as SimulationPresets } from './SimulationPresets';
 export { default as SimulationControls } from './SimulationControls';
 export { default as ForceFieldSettings } from './ForceFieldSettings';
 export { default as EnergyPlot } from './EnergyPlot';
+export { default as TrajectoryAnalysis } from './TrajectoryAnalysis';
@@ -0,0 +1,337 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { molstarService } from '@/services/molstar-service';
+import { pdbService } from '@/services/pdb-service';
+import { isValidUniProtId } from '@/services/pdb-fetcher';
+import {
+  confidenceSummary,
+  paeDomains,
+  paeValue,
+  residueConfidence,
+  type ResidueConfidence,
+} from '@/lib/alphafold';
+import type { ConfidenceTrim } from '@/types/molstar';
+import type { PAEMatrix } from '@/types/pdb';
+import { cn } from '@/lib/utils';
+
+interface AlphaFoldPanelProps {
+  className?: string;
+}
+
+type TrimMode = ConfidenceTrim['mode'] | 'off';
+
+const TRIM_THRESHOLDS = [50, 70];
+const LOW_CONFIDENCE_WARNING = 0.25; // Share of residues below 70 that warrants a warning
+const PAE_SIZE = 192; // Rendered matrix size in px
+
+/**
+ * Selection language expression for the residues at matrix indices start..end
+ */
+function rangeExpression(residues: ResidueConfidence[], start: number, end: number): string {
+  const [from, to] = start <= end ? [start, end] : [end, start];
+  const chains = new Map<string, number[]>();
+  for (const residue of residues.slice(from, to + 1)) {
+    chains.set(residue.chain, [...(chains.get(residue.chain) ?? []), residue.residueSeq]);
+  }
+  return Array.from(
+    chains,
+    ([chain, seqs]) => `(chain ${chain} and resi ${Math.min(...seqs)}-${Math.max(...seqs)})`
+  ).join(' or ');
+}
+
+/**
+ * AlphaFoldPanel Component
+ *
+ * Loads AlphaFold Database predictions colored by pLDDT, summarises their
+ * confidence, fades or hides low-confidence residues, and shows the PAE
+ * matrix; dragging over the matrix or picking a domain selects its residues.
+ */
+export function AlphaFoldPanel({ className }: AlphaFoldPanelProps) {
+  const [uniprotId, setUniprotId] = useState('');
+  const [model, setModel] = useState<string | null>(null);
+  const [residues, setResidues] = useState<ResidueConfidence[]>([]);
+  const [pae, setPae] = useState<PAEMatrix | null>(null);
+  const [trimMode, setTrimMode] = useState<TrimMode>('off');
+  const [threshold, setThreshold] = useState(TRIM_THRESHOLDS[0]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const loadingRef = useRef(false);
+
+  // Another structure replaces the prediction
+  useEffect(() => {
+    const reset = () => {
+      if (loadingRef.current) return;
+      setModel(null);
+      setResidues([]);
+      setPae(null);
+      setTrimMode('off');
+    };
+
+    molstarService.on('structure-loaded', reset);
+    return () => molstarService.off('structure-loaded', reset);
+  }, []);
+
+  const summary = useMemo(() => (residues.length > 0 ? confidenceSummary(residues) : null), [residues]);
+  const domains = useMemo(() => (pae ? paeDomains(pae) : []), [pae]);
+  const lowFraction = summary ? summary.bands.filter(({ band }) => band.min < 70).reduce((sum, b) => sum + b.fraction, 0) : 0;
+  const trimmedCount = residues.filter((residue) => residue.plddt < threshold).length;
+
+  const handleLoad = async () => {
+    const id = uniprotId.trim().toUpperCase();
+    if (!isValidUniProtId(id)) {
+      setError(`Invalid UniProt ID: ${uniprotId}`);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    loadingRef.current = true;
+    try {
+      const [, matrix] = await Promise.all([
+        molstarService.loadAlphaFoldModel(id),
+        pdbService.fetchAlphaFoldPAE(id).catch((err) => {
+          setError(err instanceof Error ? err.message : 'Failed to fetch PAE');
+          return null;
+        }),
+      ]);
+      setModel(id);
+      setResidues(residueConfidence(molstarService.getAtoms()));
+      setPae(matrix);
+      setTrimMode('off');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load AlphaFold model');
+    } finally {
+      loadingRef.current = false;
+      setIsLoading(false);
+    }
+  };
+
+  const applyTrim = async (mode: TrimMode, value: number) => {
+    setError(null);
+    try {
+      await molstarService.setConfidenceTrim(mode === 'off' ? null : { mode, threshold: value });
+      setTrimMode(mode);
+      setThreshold(value);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to trim low-confidence residues');
+    }
+  };
+
+  const selectRegion = async (rows: [number, number], columns: [number, number]) => {
+    setError(null);
+    const ranges = [rangeExpression(residues, ...rows), rangeExpression(residues, ...columns)];
+    try {
+      await molstarService.select({ type: 'expression', expression: Array.from(new Set(ranges)).join(' or ') });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Selection failed');
+    }
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <h3 className="text-sm font-semibold">AlphaFold Confidence</h3>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleLoad();
+        }}
+      >
+        <Input
+          value={uniprotId}
+          onChange={(e) => setUniprotId(e.target.value)}
+          placeholder="UniProt ID, e.g. Q8GMC3"
+          aria-label="UniProt ID"
+          className="font-mono text-xs"
+          disabled={isLoading}
+        />
+        <Button type="submit" variant="outline" size="icon" disabled={isLoading || !uniprotId.trim()} aria-label="Load prediction">
+          <Download className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {model && summary && (
+        <>
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="font-mono font-semibold">AF-{model}</span>
+              <span className="text-muted-foreground">Mean pLDDT {summary.mean.toFixed(1)}</span>
+            </div>
+            <div className="flex h-2 overflow-hidden rounded" aria-hidden>
+              {summary.bands.map(({ band, fraction }) => (
+                <div key={band.label} style={{ width: `${fraction * 100}%`, backgroundColor: band.color }} />
+              ))}
+            </div>
+            <ul className="grid grid-cols-2 gap-x-2 text-xs" aria-label="pLDDT bands">
+              {summary.bands.map(({ band, fraction }) => (
+                <li key={band.label} className="flex items-center gap-1">
+                  <span className="h-2 w-2 rounded-sm" style={{ backgroundColor: band.color }} />
+                  <span className="text-muted-foreground">
+                    {band.label} {(fraction * 100).toFixed(0)}%
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {lowFraction >= LOW_CONFIDENCE_WARNING && (
+            <p role="alert" className="flex gap-1 text-xs text-amber-600">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {(lowFraction * 100).toFixed(0)}% of residues have pLDDT below 70. Their positions and contacts are
+              not reliable and are often disordered in reality.
+            </p>
+          )}
+
+          <Button variant="outline" size="sm" className="w-full" onClick={() => molstarService.setColorScheme('plddt')}>
+            Color by pLDDT
+          </Button>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Below pLDDT</Label>
+              <div className="flex gap-1" role="group" aria-label="Trim threshold">
+                {TRIM_THRESHOLDS.map((value) => (
+                  <Button
+                    key={value}
+                    variant={threshold === value ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => (trimMode === 'off' ? setThreshold(value) : applyTrim(trimMode, value))}
+                  >
+                    {value}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-1" role="group" aria-label="Low-confidence residues">
+              {(['off', 'fade', 'hide'] as const).map((mode) => (
+                <Button
+                  key={mode}
+                  variant={trimMode === mode ? 'default' : 'outline'}
+                  size="sm"
+                  className="flex-1 capitalize"
+                  onClick={() => applyTrim(mode, threshold)}
+                >
+                  {mode === 'off' ? 'Show' : mode}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {trimmedCount} of {residues.length} residues below {threshold}
+            </p>
+          </div>
+
+          {pae && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium">Predicted aligned error</p>
+              <PAEMatrixView matrix={pae} onSelect={selectRegion} />
+              <p className="text-xs text-muted-foreground">
+                Dark green: confident relative position. Drag over the matrix to select residues.
+              </p>
+              {domains.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {domains.map((domain, i) => (
+                    <Button
+                      key={domain.start}
+                      variant="outline"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => selectRegion([domain.start, domain.end], [domain.start, domain.end])}
+                      title={`Mean PAE ${domain.meanError.toFixed(1)} Å`}
+                    >
+                      Domain {i + 1}: {residues[domain.start]?.residueSeq}–{residues[domain.end]?.residueSeq}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+interface PAEMatrixViewProps {
+  matrix: PAEMatrix;
+  onSelect: (rows: [number, number], columns: [number, number]) => void;
+}
+
+/**
+ * PAE heatmap, green (low error) to white; drag to select a rectangle
+ */
+function PAEMatrixView({ matrix, onSelect }: PAEMatrixViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [drag, setDrag] = useState<{ start: [number, number]; end: [number, number] } | null>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const image = context.createImageData(matrix.size, matrix.size);
+    for (let i = 0; i < matrix.size; i++) {
+      for (let j = 0; j < matrix.size; j++) {
+        const t = Math.min(1, paeValue(matrix, i, j) / (matrix.max || 1));
+        const offset = (i * matrix.size + j) * 4;
+        image.data[offset] = 13 + t * 242;
+        image.data[offset + 1] = 102 + t * 153;
+        image.data[offset + 2] = 35 + t * 220;
+        image.data[offset + 3] = 255;
+      }
+    }
+    context.putImageData(image, 0, 0);
+  }, [matrix]);
+
+  // Matrix cell under the pointer as [row, column]
+  const cellAt = (event: React.MouseEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.max(0, Math.min(matrix.size - 1, Math.floor(value * matrix.size)));
+    return [clamp((event.clientY - rect.top) / rect.height), clamp((event.clientX - rect.left) / rect.width)];
+  };
+
+  const finish = () => {
+    if (!drag) return;
+    onSelect([drag.start[0], drag.end[0]], [drag.start[1], drag.end[1]]);
+    setDrag(null);
+  };
+
+  const box = drag && {
+    top: (Math.min(drag.start[0], drag.end[0]) / matrix.size) * 100,
+    left: (Math.min(drag.start[1], drag.end[1]) / matrix.size) * 100,
+    height: ((Math.abs(drag.end[0] - drag.start[0]) + 1) / matrix.size) * 100,
+    width: ((Math.abs(drag.end[1] - drag.start[1]) + 1) / matrix.size) * 100,
+  };
+
+  return (
+    <div className="relative mx-auto" style={{ width: PAE_SIZE, height: PAE_SIZE }}>
+      <canvas
+        ref={canvasRef}
+        width={matrix.size}
+        height={matrix.size}
+        className="h-full w-full cursor-crosshair border [image-rendering:pixelated]"
+        aria-label={`Predicted aligned error, ${matrix.size} by ${matrix.size} residues`}
+        onMouseDown={(e) => {
+          const cell = cellAt(e);
+          setDrag({ start: cell, end: cell });
+        }}
+        onMouseMove={(e) => drag && setDrag({ ...drag, end: cellAt(e) })}
+        onMouseUp={finish}
+        onMouseLeave={finish}
+      />
+      {box && (
+        <div
+          className="pointer-events-none absolute border-2 border-blue-500 bg-blue-500/20"
+          style={{ top: `${box.top}%`, left: `${box.left}%`, height: `${box.height}%`, width: `${box.width}%` }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { molstarService } from '@/services/molstar-service';
+import type { AssemblyView, SymmetryInfo } from '@/types/molstar';
+import { cn } from '@/lib/utils';
+
+interface AssemblyPickerProps {
+  className?: string;
+}
+
+const DEFAULT_MATES_RADIUS = 5;
+
+function viewToValue(view: AssemblyView): string {
+  return view.type === 'assembly' ? `assembly:${view.id}` : view.type;
+}
+
+/**
+ * AssemblyPicker Component
+ *
+ * Switch the loaded entry between its asymmetric unit, each biological
+ * assembly and crystal packing (symmetry mates within a radius or 3x3x3 unit cells).
+ */
+export function AssemblyPicker({ className }: AssemblyPickerProps) {
+  const [info, setInfo] = useState<SymmetryInfo | null>(null);
+  const [view, setView] = useState<AssemblyView>({ type: 'model' });
+  const [radius, setRadius] = useState(DEFAULT_MATES_RADIUS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      setInfo(molstarService.getSymmetryInfo());
+      setView(molstarService.getAssemblyView());
+      setError(null);
+    };
+
+    refresh();
+    molstarService.on('structure-loaded', refresh);
+    molstarService.on('assembly-changed', setView);
+    return () => {
+      molstarService.off('structure-loaded', refresh);
+      molstarService.off('assembly-changed', setView);
+    };
+  }, []);
+
+  const applyView = async (next: AssemblyView) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await molstarService.setAssemblyView(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build assembly');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelect = (value: string) => {
+    if (value.startsWith('assembly:')) {
+      applyView({ type: 'assembly', id: value.substring(9) });
+    } else if (value === 'symmetry-mates') {
+      applyView({ type: 'symmetry-mates', radius });
+    } else if (value === 'unit-cell') {
+      applyView({ type: 'unit-cell' });
+    } else {
+      applyView({ type: 'model' });
+    }
+  };
+
+  if (!info) return null;
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="space-y-2">
+        <Label htmlFor="assembly-picker">Assembly</Label>
+        <Select value={viewToValue(view)} onValueChange={handleSelect} disabled={isLoading}>
+          <SelectTrigger id="assembly-picker" aria-label="Select biological assembly">
+            <SelectValue placeholder="Select assembly" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="model">Asymmetric unit</SelectItem>
+            {info.assemblies.map((assembly) => (
+              <SelectItem key={assembly.id} value={`assembly:${assembly.id}`}>
+                Assembly {assembly.id} ({assembly.oligomericState})
+              </SelectItem>
+            ))}
+            {info.cell && (
+              <>
+                <SelectItem value="symmetry-mates">Symmetry mates</SelectItem>
+                <SelectItem value="unit-cell">Unit cells (3×3×3)</SelectItem>
+              </>
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {view.type === 'symmetry-mates' && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Radius</span>
+            <span>{radius} Å</span>
+          </div>
+          <Slider
+            min={1}
+            max={30}
+            step={1}
+            value={[radius]}
+            onValueChange={([value]) => setRadius(value)}
+            onValueCommit={([value]) => applyView({ type: 'symmetry-mates', radius: value })}
+            disabled={isLoading}
+            aria-label="Symmetry mate radius"
+          />
+        </div>
+      )}
+
+      {info.cell && (
+        <p className="text-xs text-muted-foreground">
+          {info.spacegroup} · {info.cell.a.toFixed(1)} × {info.cell.b.toFixed(1)} × {info.cell.c.toFixed(1)} Å,{' '}
+          {info.cell.alpha.toFixed(0)}° {info.cell.beta.toFixed(0)}° {info.cell.gamma.toFixed(0)}°
+        </p>
+      )}
+
+      {view.type === 'assembly' && (
+        <p className="text-xs text-muted-foreground">
+          {info.assemblies.find((assembly) => assembly.id === view.id)?.details.replace(/_/g, ' ')}
+        </p>
+      )}
+
+      {isLoading && <p className="text-xs text-muted-foreground">Building structure...</p>}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Crosshair } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { molstarService } from '@/services/molstar-service';
+import { getBindingSiteService, type BindingSiteReport } from '@/services/binding-site-service';
+import type { SiteResidue } from '@/lib/binding-sites';
+import { cn } from '@/lib/utils';
+
+interface BindingSitesPanelProps {
+  className?: string;
+}
+
+const DEFAULT_RADIUS = 5;
+
+function residueList(residues: SiteResidue[]): string {
+  return residues.map((residue) => `${residue.residue}${residue.residueSeq}${residue.chain}`).join(', ');
+}
+
+/**
+ * BindingSitesPanel Component
+ *
+ * Lists ligands with the residues around them and geometrically detected
+ * pockets with their volume and lining residues; each can be framed in 3D.
+ */
+export function BindingSitesPanel({ className }: BindingSitesPanelProps) {
+  const [radius, setRadius] = useState(DEFAULT_RADIUS);
+  const [report, setReport] = useState<BindingSiteReport | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Results belong to the structure they were computed on
+  useEffect(() => {
+    const reset = () => {
+      setReport(null);
+      setExpanded(null);
+      setError(null);
+    };
+
+    molstarService.on('structure-loaded', reset);
+    return () => molstarService.off('structure-loaded', reset);
+  }, []);
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      setReport(await getBindingSiteService().analyze({ radius }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Binding site analysis failed');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const focus = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to focus');
+    }
+  };
+
+  const service = getBindingSiteService();
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <h3 className="text-sm font-semibold">Binding Sites</h3>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <Label htmlFor="binding-site-radius" className="text-xs font-normal">
+            Site radius
+          </Label>
+          <span>{radius} Å</span>
+        </div>
+        <Slider
+          id="binding-site-radius"
+          min={3}
+          max={10}
+          step={0.5}
+          value={[radius]}
+          onValueChange={([value]) => setRadius(value)}
+          disabled={isAnalyzing}
+          aria-label="Binding site radius"
+        />
+      </div>
+
+      <Button variant="outline" onClick={handleAnalyze} disabled={isAnalyzing} className="w-full">
+        {isAnalyzing ? 'Analyzing...' : report ? 'Re-analyze' : 'Find Ligands & Pockets'}
+      </Button>
+
+      {report && (
+        <>
+          <div className="space-y-1">
+            <p className="text-xs font-medium">Ligands ({report.sites.length})</p>
+            {report.sites.length === 0 && <p className="text-xs text-muted-foreground">No ligands in this structure</p>}
+            {report.sites.map((site) => (
+              <div key={site.ligand.id} className="rounded border px-2 py-1">
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(expanded === site.ligand.id ? null : site.ligand.id)}
+                    className="min-w-0 flex-1 text-left text-xs"
+                  >
+                    <span className="font-mono font-semibold">
+                      {site.ligand.name} {site.ligand.chain}:{site.ligand.residueSeq}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {' '}
+                      · {site.ligand.isIon ? 'ion' : `${site.ligand.atomCount} atoms`} · {site.residues.length} residues
+                    </span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => focus(() => service.focusSite(site))}
+                    aria-label={`Focus ${site.ligand.name} site`}
+                  >
+                    <Crosshair className="h-4 w-4" />
+                  </Button>
+                </div>
+                {expanded === site.ligand.id && (
+                  <p className="pb-1 font-mono text-xs text-muted-foreground">{residueList(site.residues) || '—'}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs font-medium">Pockets ({report.pockets.length})</p>
+            {report.pockets.length === 0 && <p className="text-xs text-muted-foreground">No buried pockets found</p>}
+            {report.pockets.map((pocket) => (
+              <div key={pocket.id} className="rounded border px-2 py-1">
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded(expanded === `pocket-${pocket.id}` ? null : `pocket-${pocket.id}`)}
+                    className="min-w-0 flex-1 text-left text-xs"
+                  >
+                    <span className="font-semibold">Pocket {pocket.id}</span>
+                    <span className="text-muted-foreground">
+                      {' '}
+                      · {pocket.volume.toFixed(0)} Å³ · {pocket.residues.length} residues
+                      {pocket.ligandIds.length > 0 && ` · ${pocket.ligandIds.map((id) => id.split(':')[0]).join(', ')}`}
+                    </span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => focus(() => service.focusPocket(pocket))}
+                    aria-label={`Focus pocket ${pocket.id}`}
+                  >
+                    <Crosshair className="h-4 w-4" />
+                  </Button>
+                </div>
+                {expanded === `pocket-${pocket.id}` && (
+                  <p className="pb-1 font-mono text-xs text-muted-foreground">{residueList(pocket.residues)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Search, RotateCcw } from 'lucide-react';
 import { useVisualizationStore } from '@/lib/store/visualizationSlice';
+import { SurfaceColoringControls } from './SurfaceColoringControls';
 
 export function ControlsPanel() {
   const {
@@ -97,6 +98,9 @@ export function ControlsPanel() {
         </Select>
       </div>
 
+      {/* Surface Coloring */}
+      <SurfaceColoringControls />
+
       {/* Background Color */}
       <div className="space-y-2">
         <Label htmlFor="background-color">Background Color</Label>
@@ -17,9 +17,14 @@ import {
   getLABSpeciesById,
   getLABCategoryById,
 } from '@/data/lab-structures';
+import { StructureComments } from './StructureComments';
+import { isStructureId } from '@/lib/pdb-structures';
+import { hasPermission } from '@/lib/share-permissions';
+import type { AccessLevel } from '@/types/sharing';
 
 interface InfoPanelProps {
-  pdbId?: string;
+  pdbId?: string; // PDB ID, or structure ID of an upload
+  accessLevel?: AccessLevel | null;
 }
 
 interface StructureMetadata {
@@ -34,7 +39,8 @@ interface StructureMetadata {
   doi?: string;
 }
 
-export function InfoPanel({ pdbId }: InfoPanelProps) {
+export function InfoPanel({ pdbId, accessLevel }: InfoPanelProps) {
+  const isUpload = !!pdbId && isStructureId(pdbId);
   const [metadata, setMetadata] = useState<StructureMetadata | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -122,7 +128,9 @@ export function InfoPanel({ pdbId }: InfoPanelProps) {
       <div>
         <h3 className="text-lg font-semibold">Structure Information</h3>
         <p className="text-sm text-muted-foreground">
-          PDB ID: <span className="font-mono font-medium">{pdbId.toUpperCase()}</span>
+          {isUpload ? 'Uploaded structure' : (
+            <>PDB ID: <span className="font-mono font-medium">{pdbId.toUpperCase()}</span></>
+          )}
         </p>
       </div>
 
@@ -301,64 +309,93 @@ export function InfoPanel({ pdbId }: InfoPanelProps) {
             </ul>
           </AccordionContent>
         </AccordionItem>
+
+        {/* Discussion */}
+        <AccordionItem value="discussion">
+          <AccordionTrigger>Discussion</AccordionTrigger>
+          <AccordionContent>
+            <StructureComments
+              structureId={pdbId}
+              canComment={accessLevel === undefined || hasPermission(accessLevel, 'comment')}
+            />
+          </AccordionContent>
+        </AccordionItem>
       </Accordion>
 
       <Separator />
 
-      {/* Links */}
-      <div className="space-y-2">
-        <h4 className="text-sm font-medium">External Links</h4>
-        <div className="flex flex-col gap-2">
+      {/* Uploads are only served to users they are shared with, through the API */}
+      {isUpload ? (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Downloads</h4>
           <Button
             variant="outline"
             size="sm"
             className="w-full justify-start"
-            onClick={() => window.open(`https://www.rcsb.org/structure/${pdbId}`, '_blank')}
+            onClick={() => window.open(`/api/pdb/${pdbId}?raw=true`, '_blank')}
           >
-            <ExternalLink className="mr-2 h-4 w-4" />
-            View on RCSB PDB
+            <Download className="mr-2 h-4 w-4" />
+            Original File
           </Button>
-
-          {metadata.doi && (
-            <Button
-              variant="outline"
-              size="sm"
-              className="w-full justify-start"
-              onClick={() => window.open(`https://doi.org/${metadata.doi}`, '_blank')}
-            >
-              <ExternalLink className="mr-2 h-4 w-4" />
-              View Publication
-            </Button>
-          )}
         </div>
-      </div>
+      ) : (
+        <>
+          {/* Links */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">External Links</h4>
+            <div className="flex flex-col gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => window.open(`https://www.rcsb.org/structure/${pdbId}`, '_blank')}
+              >
+                <ExternalLink className="mr-2 h-4 w-4" />
+                View on RCSB PDB
+              </Button>
 
-      <Separator />
+              {metadata.doi && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full justify-start"
+                  onClick={() => window.open(`https://doi.org/${metadata.doi}`, '_blank')}
+                >
+                  <ExternalLink className="mr-2 h-4 w-4" />
+                  View Publication
+                </Button>
+              )}
+            </div>
+          </div>
 
-      {/* Download Options */}
-      <div className="space-y-2">
-        <h4 className="text-sm font-medium">Downloads</h4>
-        <div className="flex flex-col gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            className="w-full justify-start"
-            onClick={() => window.open(`https://files.rcsb.org/download/${pdbId}.pdb`, '_blank')}
-          >
-            <Download className="mr-2 h-4 w-4" />
-            PDB Format
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            className="w-full justify-start"
-            onClick={() => window.open(`https://files.rcsb.org/download/${pdbId}.cif`, '_blank')}
-          >
-            <Download className="mr-2 h-4 w-4" />
-            mmCIF Format
-          </Button>
-        </div>
-      </div>
+          <Separator />
+
+          {/* Download Options */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Downloads</h4>
+            <div className="flex flex-col gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => window.open(`https://files.rcsb.org/download/${pdbId}.pdb`, '_blank')}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                PDB Format
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => window.open(`https://files.rcsb.org/download/${pdbId}.cif`, '_blank')}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                mmCIF Format
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 }
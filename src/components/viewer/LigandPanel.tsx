@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { molstarService } from '@/services/molstar-service';
+import { METABOLITES } from '@/data/metabolites';
+import type { LoadedLigand } from '@/types/molstar';
+import { cn } from '@/lib/utils';
+
+interface LigandPanelProps {
+  className?: string;
+}
+
+/**
+ * LigandPanel Component
+ *
+ * Adds small molecules to the scene next to the loaded structure: SMILES
+ * built in 3D, pathway metabolites, or SDF/MOL2 files with their own
+ * coordinates. Loaded ligands are listed and can be removed one by one
+ */
+export function LigandPanel({ className }: LigandPanelProps) {
+  const [smiles, setSmiles] = useState('');
+  const [ligands, setLigands] = useState<LoadedLigand[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const refresh = () => setLigands(molstarService.getLigands());
+    refresh();
+    molstarService.on('ligands-changed', refresh);
+    molstarService.on('structure-loaded', refresh);
+    return () => {
+      molstarService.off('ligands-changed', refresh);
+      molstarService.off('structure-loaded', refresh);
+    };
+  }, []);
+
+  const run = async (load: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load ligand');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSmiles = () => {
+    const text = smiles.trim();
+    if (!text) return;
+    run(async () => {
+      await molstarService.loadSmiles(text);
+      setSmiles('');
+    });
+  };
+
+  const handleMetabolite = (id: string) => {
+    const metabolite = METABOLITES.find((m) => m.id === id);
+    if (metabolite) {
+      run(() => molstarService.loadSmiles(metabolite.smiles, metabolite.name));
+    }
+  };
+
+  const handleFile = (file: File) => {
+    const name = file.name.toLowerCase();
+    if (!name.endsWith('.sdf') && !name.endsWith('.mol') && !name.endsWith('.mol2')) {
+      setError('Choose an .sdf, .mol or .mol2 file');
+      return;
+    }
+    run(async () => {
+      const format = name.endsWith('.mol2') ? 'mol2' : 'sdf';
+      await molstarService.loadLigand(await file.text(), { format, label: file.name });
+    });
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <h3 className="text-sm font-semibold">Ligands</h3>
+
+      <div className="space-y-1">
+        <Label htmlFor="ligand-smiles" className="text-xs">SMILES</Label>
+        <div className="flex gap-2">
+          <Input
+            id="ligand-smiles"
+            value={smiles}
+            onChange={(e) => setSmiles(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSmiles()}
+            placeholder="e.g. CC(=O)C(=O)[O-]"
+            className="h-8 font-mono text-xs"
+          />
+          <Button variant="outline" size="sm" onClick={handleSmiles} disabled={isLoading || !smiles.trim()}>
+            Build
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="ligand-metabolite" className="text-xs">Pathway metabolite</Label>
+        <Select value="" onValueChange={handleMetabolite} disabled={isLoading}>
+          <SelectTrigger id="ligand-metabolite" aria-label="Add a metabolite">
+            <SelectValue placeholder="Add a metabolite" />
+          </SelectTrigger>
+          <SelectContent>
+            {METABOLITES.map((metabolite) => (
+              <SelectItem key={metabolite.id} value={metabolite.id}>
+                {metabolite.name} — {metabolite.fullName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".sdf,.mol,.mol2"
+        className="hidden"
+        aria-label="Ligand file"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isLoading}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        Load SDF / MOL2
+      </Button>
+
+      {isLoading && <p className="text-xs text-muted-foreground">Building ligand…</p>}
+
+      {ligands.length > 0 && (
+        <ul className="space-y-1" aria-label="Loaded ligands">
+          {ligands.map((ligand) => (
+            <li key={ligand.id} className="flex items-center justify-between rounded border px-2 py-1 text-xs">
+              <span className="truncate font-mono" title={ligand.label}>{ligand.label}</span>
+              <span className="ml-2 flex items-center gap-2 text-muted-foreground">
+                {ligand.atomCount} atoms
+                <button
+                  onClick={() => run(() => molstarService.removeLigand(ligand.id))}
+                  aria-label={`Remove ${ligand.label}`}
+                  className="hover:text-foreground"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
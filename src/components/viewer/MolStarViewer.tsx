@@ -2,9 +2,15 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { cn } from '@/lib/utils';
+import { isStructureId } from '@/lib/pdb-structures';
+import { getTrajectoryService, TrajectoryInfo } from '@/services/trajectory-service';
+import { TrajectoryTimeline } from './TrajectoryTimeline';
 
 interface MolStarViewerProps {
   pdbId?: string;
+  trajectoryId?: string; // Imported trajectory to play back instead of pdbId
+  ligandSmiles?: string; // Built in 3D and added once pdbId (if any) has loaded
+  ligandName?: string;
   onLoadStart?: () => void;
   onLoadComplete?: () => void;
   onError?: (error: string) => void;
@@ -27,8 +33,18 @@ function getMolstarService() {
 // Maximum retry attempts for structure loading
 const MAX_LOAD_RETRIES = 3;
 
+// Responses for shared structures that retrying cannot fix
+const NO_RETRY_STATUSES = [401, 403, 404];
+
+// Trajectory frames held by the viewer at once, and playback rate
+const TRAJECTORY_WINDOW = 50;
+const TRAJECTORY_FPS = 10;
+
 export function MolStarViewer({
   pdbId,
+  trajectoryId,
+  ligandSmiles,
+  ligandName,
   onLoadStart,
   onLoadComplete,
   onError,
@@ -49,6 +65,17 @@ export function MolStarViewer({
   const loadingStructureRef = useRef<string | null>(null);
   const loadedStructureRef = useRef<string | null>(null);
   const retryCountRef = useRef(0);
+  const [loadedPdbId, setLoadedPdbId] = useState<string | null>(null);
+  const loadedLigandRef = useRef<string | null>(null);
+
+  // Trajectory playback state; frames outside the loaded window are fetched on demand
+  const [trajectory, setTrajectory] = useState<TrajectoryInfo | null>(null);
+  const [currentFrame, setCurrentFrame] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const currentFrameRef = useRef(0);
+  const frameWindowRef = useRef({ start: 0, count: 0 });
+  const requestedFrameRef = useRef<number | null>(null);
+  const renderingFrameRef = useRef(false);
 
   // Store stable references to callbacks to prevent effect re-runs
   const onLoadStartRef = useRef(onLoadStart);
@@ -203,7 +230,7 @@ export function MolStarViewer({
 
   // Load structure when pdbId changes and viewer is ready
   useEffect(() => {
-    if (!pdbId || !isReady) return;
+    if (!pdbId || !isReady || trajectoryId) return;
 
     // Prevent duplicate fetches for the same structure
     if (loadingStructureRef.current === pdbId) {
@@ -232,8 +259,12 @@ export function MolStarViewer({
           return;
         }
 
-        // Load PDB structure using molstarService
-        await molstarService.loadStructureById(pdbId);
+        // Structure IDs are uploads, loaded through the permission-checked route
+        if (isStructureId(pdbId)) {
+          await molstarService.loadSharedStructure(pdbId);
+        } else {
+          await molstarService.loadStructureById(pdbId);
+        }
 
         if (cancelled) {
           loadingStructureRef.current = null;
@@ -244,6 +275,7 @@ export function MolStarViewer({
         loadedStructureRef.current = pdbId;
         loadingStructureRef.current = null;
         retryCountRef.current = 0;
+        setLoadedPdbId(pdbId);
         setIsLoading(false);
         onLoadCompleteRef.current?.();
         console.info(`[MolStarViewer] Structure ${pdbId} loaded successfully`);
@@ -251,7 +283,11 @@ export function MolStarViewer({
         console.error('[MolStarViewer] Failed to load structure:', error);
         loadingStructureRef.current = null;
 
-        if (!cancelled) {
+        if (!cancelled && NO_RETRY_STATUSES.includes((error as { status?: number }).status ?? 0)) {
+          setIsLoading(false);
+          handleError((error as Error).message);
+          retryCountRef.current = 0;
+        } else if (!cancelled) {
           retryCountRef.current += 1;
 
           if (retryCountRef.current >= MAX_LOAD_RETRIES) {
@@ -277,14 +313,149 @@ export function MolStarViewer({
     return () => {
       cancelled = true;
     };
-  }, [pdbId, isReady, handleError]); // Only depend on pdbId, isReady, and handleError (which is stable)
+  }, [pdbId, isReady, trajectoryId, handleError]); // handleError is stable
+
+  // Add the SMILES ligand next to the structure, or on its own without one
+  useEffect(() => {
+    if (!ligandSmiles || !isReady || trajectoryId) return;
+    if (pdbId && loadedPdbId !== pdbId) return;
+
+    const key = `${loadedPdbId ?? ''}:${ligandSmiles}`;
+    if (loadedLigandRef.current === key) return;
+    loadedLigandRef.current = key;
+
+    getMolstarService()
+      .then(({ molstarService }) => molstarService.loadSmiles(ligandSmiles, ligandName))
+      .then(() => {
+        if (!pdbId) {
+          setIsLoading(false);
+          onLoadCompleteRef.current?.();
+        }
+      })
+      .catch((error) => {
+        console.error('[MolStarViewer] Failed to build ligand:', error);
+        // The structure stays usable, so report without the viewer error overlay
+        onErrorRef.current?.(`Failed to build ligand ${ligandName ?? ligandSmiles}: ${(error as Error).message}`);
+      });
+  }, [ligandSmiles, ligandName, pdbId, loadedPdbId, isReady, trajectoryId]);
+
+  // Load the first window of an imported trajectory
+  useEffect(() => {
+    setIsPlaying(false);
+    if (!trajectoryId) {
+      setTrajectory(null);
+      return;
+    }
+    if (!isReady) return;
+
+    let cancelled = false;
+
+    const loadTrajectory = async () => {
+      try {
+        onLoadStartRef.current?.();
+        setIsLoading(true);
+
+        const service = getTrajectoryService();
+        const info = await service.getInfo(trajectoryId);
+        const frames = await service.getFrames(trajectoryId, 0, TRAJECTORY_WINDOW);
+        const { molstarService } = await getMolstarService();
+        if (cancelled) return;
+
+        await molstarService.loadTrajectoryWindow(info.topology, frames, {
+          atomCount: info.atomCount,
+          timeStep: info.timeStep,
+          label: info.name,
+        });
+        if (cancelled) return;
+
+        // The PDB structure was replaced and must be reloaded afterwards
+        loadedStructureRef.current = null;
+        frameWindowRef.current = { start: 0, count: frames.length };
+        setTrajectory(info);
+        setCurrentFrame(0);
+        currentFrameRef.current = 0;
+        setIsLoading(false);
+        onLoadCompleteRef.current?.();
+      } catch (error) {
+        console.error('[MolStarViewer] Failed to load trajectory:', error);
+        if (!cancelled) {
+          setIsLoading(false);
+          handleError(error instanceof Error ? error.message : 'Failed to load trajectory');
+        }
+      }
+    };
+
+    loadTrajectory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trajectoryId, isReady, handleError]);
+
+  // Show a frame, swapping the loaded window when the frame lies outside it
+  const showFrame = useCallback(async (info: TrajectoryInfo, frame: number) => {
+    const { molstarService } = await getMolstarService();
+    let { start, count } = frameWindowRef.current;
+
+    if (frame < start || frame >= start + count) {
+      // Keep some frames behind the target so scrubbing backwards stays in the window
+      start = Math.max(0, Math.min(frame - Math.floor(TRAJECTORY_WINDOW / 4), info.frameCount - TRAJECTORY_WINDOW));
+      const frames = await getTrajectoryService().getFrames(info.id, start, TRAJECTORY_WINDOW);
+      await molstarService.setTrajectoryWindow(frames);
+      count = frames.length;
+      frameWindowRef.current = { start, count };
+    }
+
+    await molstarService.setTrajectoryFrame(frame - start, frame);
+  }, []);
+
+  // Render only the latest requested frame while a previous one is still in flight
+  const seekFrame = useCallback((frame: number) => {
+    if (!trajectory) return;
+
+    setCurrentFrame(frame);
+    currentFrameRef.current = frame;
+    requestedFrameRef.current = frame;
+    if (renderingFrameRef.current) return;
+
+    renderingFrameRef.current = true;
+    (async () => {
+      try {
+        while (requestedFrameRef.current !== null) {
+          const next = requestedFrameRef.current;
+          requestedFrameRef.current = null;
+          await showFrame(trajectory, next);
+        }
+      } catch (error) {
+        console.error('[MolStarViewer] Failed to show trajectory frame:', error);
+        setIsPlaying(false);
+        handleError(error instanceof Error ? error.message : 'Failed to show trajectory frame');
+      } finally {
+        renderingFrameRef.current = false;
+      }
+    })();
+  }, [trajectory, showFrame, handleError]);
+
+  // Advance frames while playing, looping at the end
+  useEffect(() => {
+    if (!isPlaying || !trajectory) return;
+
+    const intervalId = setInterval(() => {
+      if (renderingFrameRef.current) return;
+      seekFrame((currentFrameRef.current + 1) % trajectory.frameCount);
+    }, 1000 / TRAJECTORY_FPS);
+
+    return () => clearInterval(intervalId);
+  }, [isPlaying, trajectory, seekFrame]);
 
   return (
     <div
       ref={wrapperRef}
       className={cn('relative h-full w-full bg-black', className)}
       role="img"
-      aria-label={pdbId ? `3D structure of ${pdbId}` : '3D molecular viewer'}
+      aria-label={
+        trajectory ? `Trajectory ${trajectory.name}` : pdbId ? `3D structure of ${pdbId}` : '3D molecular viewer'
+      }
     >
       {/* MolStar container is created programmatically and appended here */}
       {/* This prevents React from trying to reconcile MolStar's DOM nodes */}
@@ -298,6 +469,21 @@ export function MolStarViewer({
           <div className="text-white">Loading structure...</div>
         </div>
       )}
+      {isReady && trajectory && (
+        <TrajectoryTimeline
+          frameCount={trajectory.frameCount}
+          currentFrame={currentFrame}
+          isPlaying={isPlaying}
+          onSeek={(frame) => {
+            setIsPlaying(false);
+            seekFrame(frame);
+          }}
+          onTogglePlay={() => setIsPlaying((playing) => !playing)}
+          timeStep={trajectory.timeStep}
+          startTime={trajectory.startTime}
+          className="absolute bottom-4 left-4 right-16 z-10"
+        />
+      )}
       {initError && (
         <div className="absolute inset-0 flex h-full items-center justify-center text-red-400 z-10">
           <div className="text-center">
@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { molstarService } from '@/services/molstar-service';
+import {
+  RESIDUE_DATA_GRADIENTS,
+  parseResidueDataCSV,
+  residueDataRange,
+  type ResidueDataGradient,
+  type ResidueDataSource,
+} from '@/lib/residue-data';
+import { cn } from '@/lib/utils';
+
+interface ResidueDataPanelProps {
+  className?: string;
+}
+
+type DataSource = ResidueDataSource | 'csv';
+
+const SOURCE_LABELS: Record<DataSource, string> = {
+  'b-factor': 'B-factor',
+  occupancy: 'Occupancy',
+  csv: 'CSV upload',
+};
+
+/**
+ * ResidueDataPanel Component
+ *
+ * Paints per-residue numbers onto the structure: the B-factor or occupancy
+ * columns of the loaded file, or a CSV of chain, residue number and value,
+ * through a chosen gradient and range
+ */
+export function ResidueDataPanel({ className }: ResidueDataPanelProps) {
+  const [source, setSource] = useState<DataSource>('b-factor');
+  const [csv, setCsv] = useState<{ name: string; values: Map<string, number>; errors: string[] } | null>(null);
+  const [gradient, setGradient] = useState<ResidueDataGradient>('blue-white-red');
+  const [range, setRange] = useState<[string, string]>(['', '']);
+  const [applied, setApplied] = useState<{ range: [number, number]; matched: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    const parsed = parseResidueDataCSV(await file.text());
+    setCsv({ name: file.name, ...parsed });
+  };
+
+  const handleApply = async () => {
+    setError(null);
+    try {
+      const values = source === 'csv' ? csv?.values : molstarService.getResidueData(source);
+      if (!values || values.size === 0) {
+        throw new Error(source === 'csv' ? 'Upload a CSV with residue values first' : 'No residue data found');
+      }
+
+      const [autoMin, autoMax] = residueDataRange(values);
+      const min = range[0] === '' ? autoMin : Number(range[0]);
+      const max = range[1] === '' ? autoMax : Number(range[1]);
+      if (!(min < max)) {
+        throw new Error('Range minimum must be below its maximum');
+      }
+
+      const matched = await molstarService.setResidueDataColoring(values, {
+        gradient,
+        range: [min, max],
+        label: source === 'csv' ? csv!.name : SOURCE_LABELS[source],
+      });
+      setApplied({ range: [min, max], matched, total: values.size });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply residue data');
+    }
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <h3 className="text-sm font-semibold">Residue Data</h3>
+
+      <div className="space-y-1">
+        <Label htmlFor="residue-data-source" className="text-xs">Source</Label>
+        <Select value={source} onValueChange={(value) => setSource(value as DataSource)}>
+          <SelectTrigger id="residue-data-source" aria-label="Select data source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {source === 'csv' && (
+        <div className="space-y-1">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt"
+            className="hidden"
+            aria-label="Residue data CSV"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" size="sm" className="w-full" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            {csv ? csv.name : 'Choose CSV (chain, resSeq, value)'}
+          </Button>
+          {csv && (
+            <p className="text-xs text-muted-foreground">
+              {csv.values.size} residues read
+              {csv.errors.length > 0 && `, ${csv.errors.length} lines skipped`}
+            </p>
+          )}
+          {csv?.errors.slice(0, 3).map((message) => (
+            <p key={message} className="text-xs text-amber-600">{message}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="residue-data-gradient" className="text-xs">Gradient</Label>
+        <Select value={gradient} onValueChange={(value) => setGradient(value as ResidueDataGradient)}>
+          <SelectTrigger id="residue-data-gradient" aria-label="Select gradient">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(RESIDUE_DATA_GRADIENTS).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          value={range[0]}
+          onChange={(e) => setRange([e.target.value, range[1]])}
+          placeholder="Min (auto)"
+          className="h-8 text-xs"
+          aria-label="Range minimum"
+        />
+        <Input
+          type="number"
+          value={range[1]}
+          onChange={(e) => setRange([range[0], e.target.value])}
+          placeholder="Max (auto)"
+          className="h-8 text-xs"
+          aria-label="Range maximum"
+        />
+      </div>
+
+      <Button variant="outline" size="sm" className="w-full" onClick={handleApply}>
+        Color by {SOURCE_LABELS[source]}
+      </Button>
+
+      {applied && (
+        <div className="space-y-1" aria-label="Residue data legend">
+          <div
+            className="h-3 rounded"
+            style={{ background: `linear-gradient(to right, ${RESIDUE_DATA_GRADIENTS[gradient].colors.join(', ')})` }}
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{applied.range[0].toFixed(2)}</span>
+            <span>{applied.range[1].toFixed(2)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {applied.matched} of {applied.total} residues matched the structure
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
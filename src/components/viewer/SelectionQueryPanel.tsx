@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Bookmark, Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { molstarService } from '@/services/molstar-service';
+import { useSavedSelections } from '@/stores/selection-store';
+import { validateSelection } from '@/lib/selection/selection-language';
+import { cn } from '@/lib/utils';
+
+interface SelectionQueryPanelProps {
+  className?: string;
+}
+
+const EXAMPLES = ['chain A and resi 50-80 and not hydro', 'within 5 of resn NAD', 'sidechain and polar'];
+
+/**
+ * SelectionQueryPanel Component
+ *
+ * Select atoms with the selection language (chain, resi, resn, name, elem,
+ * residue classes, and/or/not, within and byres), with syntax errors shown
+ * inline and named selections saved for reuse.
+ */
+export function SelectionQueryPanel({ className }: SelectionQueryPanelProps) {
+  const { savedSelections, saveSelection, removeSavedSelection } = useSavedSelections();
+  const [expression, setExpression] = useState('');
+  const [name, setName] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const syntaxError = useMemo(
+    () => (expression.trim() ? validateSelection(expression) : null),
+    [expression]
+  );
+
+  const runSelection = async (text: string) => {
+    setStatus(null);
+    setError(null);
+    try {
+      const count = await molstarService.select({ type: 'expression', expression: text });
+      setStatus(`${count} atom${count === 1 ? '' : 's'} selected`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Selection failed');
+    }
+  };
+
+  const handleSave = () => {
+    setError(null);
+    try {
+      saveSelection(name, expression);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save selection');
+    }
+  };
+
+  const canRun = expression.trim() !== '' && !syntaxError;
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="space-y-2">
+        <Label htmlFor="selection-query">Selection</Label>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canRun) runSelection(expression);
+          }}
+        >
+          <Input
+            id="selection-query"
+            value={expression}
+            onChange={(e) => {
+              setExpression(e.target.value);
+              setStatus(null);
+            }}
+            placeholder={EXAMPLES[0]}
+            spellCheck={false}
+            aria-invalid={!!syntaxError}
+            aria-describedby={syntaxError ? 'selection-query-error' : undefined}
+            className={cn('font-mono text-xs', syntaxError && 'border-red-500 focus-visible:ring-red-500')}
+          />
+          <Button type="submit" size="icon" disabled={!canRun} aria-label="Apply selection">
+            <Play className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {syntaxError ? (
+          <div id="selection-query-error" role="alert" className="space-y-1 text-xs text-red-500">
+            <p>{syntaxError.message}</p>
+            <pre className="overflow-x-auto font-mono">
+              {expression}
+              {'\n'}
+              {' '.repeat(syntaxError.start)}
+              {'^'.repeat(Math.max(1, syntaxError.end - syntaxError.start))}
+            </pre>
+          </div>
+        ) : (
+          !expression && (
+            <div className="flex flex-wrap gap-1">
+              {EXAMPLES.map((example) => (
+                <button
+                  key={example}
+                  type="button"
+                  onClick={() => setExpression(example)}
+                  className="rounded bg-muted px-2 py-0.5 font-mono text-xs text-muted-foreground hover:text-foreground"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+
+      {canRun && (
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name this selection"
+            aria-label="Selection name"
+            className="text-xs"
+          />
+          <Button variant="outline" size="sm" onClick={handleSave} disabled={!name.trim()} className="gap-1">
+            <Bookmark className="h-4 w-4" />
+            Save
+          </Button>
+        </div>
+      )}
+
+      {savedSelections.length > 0 && (
+        <ul className="space-y-1" aria-label="Saved selections">
+          {savedSelections.map((saved) => (
+            <li key={saved.name} className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => {
+                  setExpression(saved.expression);
+                  runSelection(saved.expression);
+                }}
+                className="min-w-0 flex-1 rounded px-2 py-1 text-left hover:bg-muted"
+                title={saved.expression}
+              >
+                <span className="block truncate text-sm">{saved.name}</span>
+                <span className="block truncate font-mono text-xs text-muted-foreground">{saved.expression}</span>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeSavedSelection(saved.name)}
+                aria-label={`Remove ${saved.name}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {status && <p className="text-xs text-muted-foreground">{status}</p>}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
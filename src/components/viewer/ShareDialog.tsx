@@ -0,0 +1,296 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Copy, Link2, Share2, Trash2, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PERMISSION_LABELS, SHARE_PERMISSIONS } from '@/lib/share-permissions';
+import type { SharePermission, StructureShare } from '@/types/sharing';
+
+interface ShareDialogProps {
+  structureId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = await response.json();
+  if (!body.success) {
+    throw new Error(body.error?.message || 'Request failed');
+  }
+  return body.data;
+}
+
+// Date inputs give a day; shares last until the end of it
+function endOfDay(date: string): string | undefined {
+  return date ? new Date(`${date}T23:59:59`).toISOString() : undefined;
+}
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/viewer?share=${token}`;
+}
+
+/**
+ * ShareDialog Component
+ *
+ * Shares an uploaded structure with named users or through links. Links can
+ * expire on a date or after a number of uses, and every share can be revoked
+ */
+export function ShareDialog({ structureId, open, onClose }: ShareDialogProps) {
+  const [shares, setShares] = useState<StructureShare[]>([]);
+  const [username, setUsername] = useState('');
+  const [userPermission, setUserPermission] = useState<SharePermission>('view');
+  const [userExpiry, setUserExpiry] = useState('');
+  const [linkPermission, setLinkPermission] = useState<SharePermission>('view');
+  const [linkExpiry, setLinkExpiry] = useState('');
+  const [maxViews, setMaxViews] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/structures/${encodeURIComponent(structureId)}/shares`;
+
+  const load = useCallback(async () => {
+    setShares(await request<StructureShare[]>(baseUrl));
+  }, [baseUrl]);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) run(load);
+  }, [open, load, run]);
+
+  const handleShareWithUser = () => {
+    if (!username.trim()) return;
+    run(async () => {
+      await request(baseUrl, {
+        method: 'POST',
+        body: JSON.stringify({
+          username: username.trim(),
+          permission: userPermission,
+          expiresAt: endOfDay(userExpiry),
+        }),
+      });
+      setUsername('');
+      setUserExpiry('');
+      await load();
+    });
+  };
+
+  const handleCopy = async (share: StructureShare) => {
+    if (!share.shareToken) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.shareToken));
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy share link:', err);
+    }
+  };
+
+  const handleCreateLink = () => {
+    run(async () => {
+      const share = await request<StructureShare>(baseUrl, {
+        method: 'POST',
+        body: JSON.stringify({
+          permission: linkPermission,
+          expiresAt: endOfDay(linkExpiry),
+          ...(maxViews && { maxViews: Number(maxViews) }),
+        }),
+      });
+      setLinkExpiry('');
+      setMaxViews('');
+      await load();
+      await handleCopy(share);
+    });
+  };
+
+  const handleRevoke = (share: StructureShare) => {
+    run(async () => {
+      await request(`${baseUrl}?shareId=${share.id}`, { method: 'DELETE' });
+      await load();
+    });
+  };
+
+  const describeShare = (share: StructureShare) => {
+    const parts = [PERMISSION_LABELS[share.permission]];
+    if (share.expiresAt) {
+      parts.push(`until ${new Date(share.expiresAt).toLocaleDateString()}`);
+    }
+    if (share.shareToken) {
+      parts.push(share.maxViews ? `${share.viewCount}/${share.maxViews} uses` : `${share.viewCount} uses`);
+    }
+    return parts.join(' · ');
+  };
+
+  const isExpired = (share: StructureShare) =>
+    (!!share.expiresAt && new Date(share.expiresAt).getTime() <= Date.now()) ||
+    (share.maxViews !== null && share.viewCount >= share.maxViews);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5" />
+            Share Structure
+          </DialogTitle>
+          <DialogDescription>
+            Give people access to this structure without them uploading it again
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Share with a user */}
+          <div className="space-y-2">
+            <Label htmlFor="share-username">Share with a user</Label>
+            <div className="flex gap-2">
+              <Input
+                id="share-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Username"
+                className="flex-1"
+              />
+              <Select value={userPermission} onValueChange={(value) => setUserPermission(value as SharePermission)}>
+                <SelectTrigger className="w-36" aria-label="Permission for user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_PERMISSIONS.map((permission) => (
+                    <SelectItem key={permission} value={permission}>{PERMISSION_LABELS[permission]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="share-user-expiry" className="text-xs text-muted-foreground">Expires</Label>
+              <Input
+                id="share-user-expiry"
+                type="date"
+                value={userExpiry}
+                onChange={(e) => setUserExpiry(e.target.value)}
+                className="h-8 flex-1"
+              />
+              <Button size="sm" onClick={handleShareWithUser} disabled={isLoading || !username.trim()}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Share
+              </Button>
+            </div>
+          </div>
+
+          {/* Share link */}
+          <div className="space-y-2">
+            <Label>Share link</Label>
+            <div className="flex gap-2">
+              <Select value={linkPermission} onValueChange={(value) => setLinkPermission(value as SharePermission)}>
+                <SelectTrigger className="w-36" aria-label="Permission for link">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_PERMISSIONS.filter((permission) => permission !== 'admin').map((permission) => (
+                    <SelectItem key={permission} value={permission}>{PERMISSION_LABELS[permission]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="date"
+                value={linkExpiry}
+                onChange={(e) => setLinkExpiry(e.target.value)}
+                aria-label="Link expires"
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                min={1}
+                value={maxViews}
+                onChange={(e) => setMaxViews(e.target.value)}
+                placeholder="Uses"
+                aria-label="Maximum uses"
+                className="w-20"
+              />
+            </div>
+            <Button size="sm" variant="outline" className="w-full" onClick={handleCreateLink} disabled={isLoading}>
+              <Link2 className="mr-2 h-4 w-4" />
+              Create and copy link
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Anyone signed in who opens the link gets this access
+            </p>
+          </div>
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+
+          {/* Current shares */}
+          <div className="space-y-2">
+            <Label>Shared with</Label>
+            {shares.length === 0 && !isLoading && (
+              <p className="text-xs text-muted-foreground">Only you can open this structure</p>
+            )}
+            <ul className="max-h-56 space-y-2 overflow-y-auto" aria-label="Shares">
+              {shares.map((share) => (
+                <li key={share.id} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+                  {share.sharedWith ? (
+                    <span className="truncate font-medium">
+                      {share.sharedWith.displayName || share.sharedWith.username || 'Unknown user'}
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 font-medium">
+                      <Link2 className="h-3 w-3" />
+                      Link
+                    </span>
+                  )}
+                  <span className="flex-1 truncate text-xs text-muted-foreground">{describeShare(share)}</span>
+                  {isExpired(share) && <Badge variant="secondary" className="text-xs">Expired</Badge>}
+                  {share.shareToken && (
+                    <button onClick={() => handleCopy(share)} aria-label="Copy share link" className="hover:text-foreground">
+                      {copiedId === share.id ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRevoke(share)}
+                    disabled={isLoading}
+                    aria-label="Revoke share"
+                    className="hover:text-red-500"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
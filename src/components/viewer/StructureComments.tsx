@@ -0,0 +1,298 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CheckCircle2, Crosshair, Heart, MessageSquare, RotateCcw, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/hooks/use-auth';
+import { molstarService } from '@/services/molstar-service';
+import type { SelectionInfo } from '@/types/molstar';
+import type { CommentTarget, CommentThread, StructureComment } from '@/types/structure-comments';
+import { cn } from '@/lib/utils';
+
+interface StructureCommentsProps {
+  structureId: string; // Structure ID or PDB ID
+  canComment?: boolean; // False for view-only shares
+  className?: string;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = await response.json();
+  if (!body.success) {
+    throw new Error(body.error?.message || 'Request failed');
+  }
+  return body.data;
+}
+
+function formatTarget(target: CommentTarget): string {
+  return `${target.chainId}:${target.residueName} ${target.residueSeq}${target.atomName ? ` (${target.atomName})` : ''}`;
+}
+
+/**
+ * StructureComments Component
+ *
+ * Threaded discussion of a structure. New threads are anchored to whatever
+ * residue or atom is selected in the viewer, and clicking an anchor frames it
+ * again. Threads can be liked, replied to, and resolved once settled
+ */
+export function StructureComments({ structureId, canComment = true, className }: StructureCommentsProps) {
+  const { user } = useAuth();
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [selection, setSelection] = useState<SelectionInfo | null>(null);
+  const [anchor, setAnchor] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/structures/${encodeURIComponent(structureId)}/comments`;
+
+  const load = useCallback(async () => {
+    setThreads(await request<CommentThread[]>(`${baseUrl}?includeResolved=${showResolved}`));
+  }, [baseUrl, showResolved]);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    run(load);
+  }, [load, run]);
+
+  useEffect(() => {
+    const handleSelection = (info: SelectionInfo | null) => {
+      setSelection(info);
+      setAnchor(true);
+    };
+    molstarService.on('selection-info', handleSelection);
+    return () => molstarService.off('selection-info', handleSelection);
+  }, []);
+
+  const target: CommentTarget | null = selection && anchor
+    ? {
+        chainId: selection.chainId,
+        residueSeq: selection.residueSeq,
+        residueName: selection.residueName,
+        ...(selection.type === 'atom' && selection.atomName && { atomName: selection.atomName }),
+      }
+    : null;
+
+  const handlePost = () => {
+    const content = draft.trim();
+    if (!content) return;
+    run(async () => {
+      await request(baseUrl, {
+        method: 'POST',
+        body: JSON.stringify({
+          content,
+          ...(target && { target, position: selection!.position }),
+        }),
+      });
+      setDraft('');
+      await load();
+    });
+  };
+
+  const handleReply = (threadId: string) => {
+    const content = replyDraft.trim();
+    if (!content) return;
+    run(async () => {
+      await request(baseUrl, {
+        method: 'POST',
+        body: JSON.stringify({ content, parentId: threadId }),
+      });
+      setReplyDraft('');
+      setReplyTo(null);
+      await load();
+    });
+  };
+
+  const handleLike = (comment: StructureComment) => {
+    run(async () => {
+      await request(`${baseUrl}/${comment.id}/like`, { method: comment.likedByMe ? 'DELETE' : 'POST' });
+      await load();
+    });
+  };
+
+  const handleResolve = (thread: CommentThread) => {
+    run(async () => {
+      await request(`${baseUrl}/${thread.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ resolved: !thread.resolved }),
+      });
+      await load();
+    });
+  };
+
+  const handleDelete = (comment: StructureComment) => {
+    run(async () => {
+      await request(`${baseUrl}/${comment.id}`, { method: 'DELETE' });
+      await load();
+    });
+  };
+
+  const focusTarget = (commentTarget: CommentTarget) => {
+    const residues = [{ chainId: commentTarget.chainId, residueIds: [commentTarget.residueSeq] }];
+    run(async () => {
+      await molstarService.focusOnResidues(residues, { radius: 4 });
+      await molstarService.highlightResidues(residues);
+    });
+  };
+
+  const renderComment = (comment: StructureComment, thread?: CommentThread) => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className="truncate font-medium text-foreground">
+          {comment.author.displayName || comment.author.username || 'Unknown'}
+        </span>
+        <span className="shrink-0">{new Date(comment.createdAt).toLocaleDateString()}</span>
+      </div>
+      <p className="whitespace-pre-wrap text-sm">{comment.content}</p>
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <button
+          onClick={() => handleLike(comment)}
+          disabled={!user || isLoading}
+          aria-label={comment.likedByMe ? 'Unlike' : 'Like'}
+          aria-pressed={comment.likedByMe}
+          className="flex items-center gap-1 hover:text-foreground disabled:opacity-50"
+        >
+          <Heart className={cn('h-3 w-3', comment.likedByMe && 'fill-red-500 text-red-500')} />
+          {comment.likeCount}
+        </button>
+        {thread && user && canComment && (
+          <button onClick={() => setReplyTo(replyTo === thread.id ? null : thread.id)} className="hover:text-foreground">
+            Reply
+          </button>
+        )}
+        {thread && user && (
+          <button
+            onClick={() => handleResolve(thread)}
+            disabled={isLoading}
+            className="flex items-center gap-1 hover:text-foreground"
+          >
+            {thread.resolved ? <RotateCcw className="h-3 w-3" /> : <CheckCircle2 className="h-3 w-3" />}
+            {thread.resolved ? 'Reopen' : 'Resolve'}
+          </button>
+        )}
+        {user?.id === comment.author.id && (
+          <button
+            onClick={() => handleDelete(comment)}
+            disabled={isLoading}
+            aria-label="Delete comment"
+            className="ml-auto hover:text-red-500"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="show-resolved" className="text-xs">Show resolved</Label>
+        <Switch id="show-resolved" checked={showResolved} onCheckedChange={setShowResolved} />
+      </div>
+
+      {user && canComment ? (
+        <div className="space-y-2">
+          {target && (
+            <Badge variant="secondary" className="gap-1 font-mono text-xs">
+              <Crosshair className="h-3 w-3" />
+              {formatTarget(target)}
+              <button onClick={() => setAnchor(false)} aria-label="Don't anchor to selection">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={target ? 'Comment on this residue…' : 'Comment on the structure, or select a residue first…'}
+            aria-label="New comment"
+            rows={3}
+            maxLength={5000}
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+          />
+          <Button size="sm" className="w-full" onClick={handlePost} disabled={isLoading || !draft.trim()}>
+            <MessageSquare className="mr-2 h-4 w-4" />
+            Post comment
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {user ? 'You have view-only access to this structure' : 'Sign in to join the discussion'}
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {threads.length === 0 && !isLoading && (
+        <p className="text-xs text-muted-foreground">No {showResolved ? '' : 'open '}comments yet</p>
+      )}
+
+      <ul className="space-y-3" aria-label="Comment threads">
+        {threads.map((thread) => (
+          <li
+            key={thread.id}
+            className={cn('space-y-2 rounded-md border p-3', thread.resolved && 'opacity-60')}
+          >
+            {thread.target && (
+              <button
+                onClick={() => focusTarget(thread.target!)}
+                className="flex items-center gap-1 font-mono text-xs text-primary hover:underline"
+                aria-label={`Show ${formatTarget(thread.target)} in the viewer`}
+              >
+                <Crosshair className="h-3 w-3" />
+                {formatTarget(thread.target)}
+                {thread.versionNumber && <span className="text-muted-foreground">· v{thread.versionNumber}</span>}
+              </button>
+            )}
+            {renderComment(thread, thread)}
+
+            {thread.replies.length > 0 && (
+              <ul className="space-y-2 border-l pl-3">
+                {thread.replies.map((reply) => (
+                  <li key={reply.id}>{renderComment(reply)}</li>
+                ))}
+              </ul>
+            )}
+
+            {replyTo === thread.id && (
+              <div className="flex gap-2">
+                <textarea
+                  value={replyDraft}
+                  onChange={(e) => setReplyDraft(e.target.value)}
+                  aria-label="Reply"
+                  rows={2}
+                  maxLength={5000}
+                  className="flex-1 rounded-md border bg-background px-2 py-1 text-sm"
+                />
+                <Button size="sm" variant="outline" onClick={() => handleReply(thread.id)} disabled={isLoading || !replyDraft.trim()}>
+                  Reply
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
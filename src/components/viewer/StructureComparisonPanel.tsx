@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LAB_PROTEINS } from '@/data/lab-structures';
+import { molstarService } from '@/services/molstar-service';
+import type { ComparisonMode, ComparisonResult } from '@/types/molstar';
+import { cn } from '@/lib/utils';
+
+interface StructureComparisonPanelProps {
+  onClose: () => void;
+  initialPdbIds?: string[];
+  className?: string;
+}
+
+const DEFAULT_PDB_IDS = ['1LDG', '2LDX'];
+const MAX_STRUCTURES = 4;
+const TOP_DEVIATIONS = 5;
+
+/**
+ * StructureComparisonPanel Component
+ *
+ * Superpose two or more LAB structures by sequence alignment and a C-alpha
+ * fit, report global and per-residue RMSD and show them overlaid or side by side.
+ */
+export function StructureComparisonPanel({
+  onClose,
+  initialPdbIds = DEFAULT_PDB_IDS,
+  className,
+}: StructureComparisonPanelProps) {
+  const [pdbIds, setPdbIds] = useState<string[]>(initialPdbIds);
+  const [result, setResult] = useState<ComparisonResult | null>(() => molstarService.getComparison());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    molstarService.on('comparison-changed', setResult);
+    return () => {
+      molstarService.off('comparison-changed', setResult);
+    };
+  }, []);
+
+  const handleCompare = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await molstarService.loadComparison(pdbIds, { mode: result?.mode });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMode = async (mode: ComparisonMode) => {
+    setError(null);
+    try {
+      await molstarService.setComparisonMode(mode);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change layout');
+    }
+  };
+
+  // LAB structures plus any other entries the panel was opened with
+  const options = [
+    ...LAB_PROTEINS.map((protein) => ({ pdbId: protein.pdbId, name: protein.name })),
+    ...initialPdbIds
+      .filter((pdbId) => !LAB_PROTEINS.some((protein) => protein.pdbId === pdbId))
+      .map((pdbId) => ({ pdbId, name: 'PDB entry' })),
+  ].filter((option, i, all) => all.findIndex((other) => other.pdbId === option.pdbId) === i);
+
+  const setPdbId = (index: number, pdbId: string) => {
+    setPdbIds(pdbIds.map((id, i) => (i === index ? pdbId : id)));
+  };
+
+  return (
+    <div className={cn('rounded-lg border bg-background shadow-lg', className)}>
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <h3 className="text-sm font-semibold">Structure Comparison</h3>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close comparison">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-4 overflow-auto p-4">
+        <div className="space-y-2">
+          {pdbIds.map((pdbId, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-16 text-xs text-muted-foreground">
+                {index === 0 ? 'Reference' : `Mobile ${index}`}
+              </span>
+              <Select value={pdbId} onValueChange={(value) => setPdbId(index, value)} disabled={isLoading}>
+                <SelectTrigger aria-label={`Structure ${index + 1}`} className="flex-1">
+                  <SelectValue placeholder="Select structure" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.pdbId} value={option.pdbId}>
+                      {option.pdbId} · {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {index >= 2 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setPdbIds(pdbIds.filter((_, i) => i !== index))}
+                  aria-label={`Remove structure ${index + 1}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPdbIds([...pdbIds, pdbIds[pdbIds.length - 1]])}
+            disabled={isLoading || pdbIds.length >= MAX_STRUCTURES}
+            className="gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+          <Button size="sm" onClick={handleCompare} disabled={isLoading} className="flex-1">
+            {isLoading ? 'Superposing...' : 'Superpose'}
+          </Button>
+        </div>
+
+        {result && (
+          <>
+            <div className="flex gap-2" role="group" aria-label="Comparison layout">
+              {(['overlay', 'side-by-side'] as const).map((mode) => (
+                <Button
+                  key={mode}
+                  variant={result.mode === mode ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => handleMode(mode)}
+                  className="flex-1"
+                >
+                  {mode === 'overlay' ? 'Overlay' : 'Side by side'}
+                </Button>
+              ))}
+            </div>
+
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1">Structure</th>
+                  <th className="py-1">RMSD</th>
+                  <th className="py-1">Aligned</th>
+                  <th className="py-1">Identity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.structures.slice(1).map((structure, index) => (
+                  <tr key={index} className="border-t">
+                    <td className="py-1 font-mono">
+                      {result.structures[0].label} → {structure.label}
+                    </td>
+                    <td className="py-1">{structure.rmsd.toFixed(2)} Å</td>
+                    <td className="py-1">{structure.alignedCount}</td>
+                    <td className="py-1">{(structure.identity * 100).toFixed(0)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-1">
+              <p className="text-xs font-medium">Largest deviations ({result.structures[0].label})</p>
+              {[...result.structures[0].residues]
+                .sort((a, b) => b.value - a.value)
+                .slice(0, TOP_DEVIATIONS)
+                .map((residue) => (
+                  <div
+                    key={`${residue.chainId}:${residue.residueSeq}`}
+                    className="flex justify-between font-mono text-xs"
+                  >
+                    <span>
+                      {residue.chainId}:{residue.residueName}
+                      {residue.residueSeq}
+                    </span>
+                    <span>{residue.value.toFixed(2)} Å</span>
+                  </div>
+                ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Colored by C-alpha deviation: blue (close) to red (divergent), grey where unaligned.
+            </p>
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { molstarService } from '@/services/molstar-service';
+import { parseSequences } from '@/lib/sequence-alignment';
+import {
+  SURFACE_PROPERTY_SCALES,
+  type ElectrostaticsMethod,
+  type SurfaceProperty,
+} from '@/lib/surface-properties';
+import type { SurfaceColoringOptions } from '@/types/molstar';
+
+/**
+ * SurfaceColoringControls Component
+ *
+ * Colors the displayed structure by electrostatic potential, hydrophobicity
+ * or conservation against pasted homologs, with an adjustable range and a
+ * legend for the active scale
+ */
+export function SurfaceColoringControls() {
+  const [property, setProperty] = useState<SurfaceProperty>('electrostatic');
+  const [method, setMethod] = useState<ElectrostaticsMethod>('coulomb');
+  const [homologs, setHomologs] = useState('');
+  const [range, setRange] = useState<[number, number]>(SURFACE_PROPERTY_SCALES.electrostatic.range);
+  const [showSurface, setShowSurface] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scale = SURFACE_PROPERTY_SCALES[property];
+
+  const handlePropertyChange = (value: string) => {
+    const next = value as SurfaceProperty;
+    setProperty(next);
+    setRange(SURFACE_PROPERTY_SCALES[next].range);
+    setError(null);
+  };
+
+  const handleRangeChange = (bound: 0 | 1, value: string) => {
+    const number = Number(value);
+    if (Number.isNaN(number)) return;
+    const [low, high] = scale.limits;
+    const clamped = Math.min(high, Math.max(low, number));
+    setRange((current) => (bound === 0 ? [clamped, current[1]] : [current[0], clamped]));
+  };
+
+  const handleApply = async () => {
+    const options: SurfaceColoringOptions = { range };
+    if (property === 'electrostatic') {
+      options.electrostatics = method;
+    }
+    if (property === 'conservation') {
+      options.homologs = parseSequences(homologs);
+      if (options.homologs.length === 0) {
+        setError('Paste at least one homologous sequence');
+        return;
+      }
+    }
+
+    setIsApplying(true);
+    setError(null);
+    try {
+      await molstarService.setColorScheme(property, options);
+      if (showSurface) {
+        await molstarService.applyRepresentation({ type: 'surface', colorScheme: property });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Surface coloring failed');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label htmlFor="surface-property">Surface Coloring</Label>
+      <Select value={property} onValueChange={handlePropertyChange}>
+        <SelectTrigger id="surface-property" aria-label="Select surface property">
+          <SelectValue placeholder="Select property" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="electrostatic">Electrostatic Potential</SelectItem>
+          <SelectItem value="hydrophobicity">Hydrophobicity</SelectItem>
+          <SelectItem value="conservation">Conservation</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {property === 'electrostatic' && (
+        <Select value={method} onValueChange={(value) => setMethod(value as ElectrostaticsMethod)}>
+          <SelectTrigger aria-label="Select electrostatics method">
+            <SelectValue placeholder="Select method" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="coulomb">Coulomb (ε = 4r)</SelectItem>
+            <SelectItem value="poisson-boltzmann">Poisson–Boltzmann (grid)</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {property === 'conservation' && (
+        <textarea
+          value={homologs}
+          onChange={(e) => setHomologs(e.target.value)}
+          placeholder="Homologous sequences (FASTA or one per line)"
+          aria-label="Homologous sequences"
+          className="w-full resize-none rounded-md border border-gray-300 bg-white px-3 py-2 font-mono text-xs dark:border-gray-600 dark:bg-gray-800"
+          rows={4}
+        />
+      )}
+
+      {/* Legend and range */}
+      <div className="space-y-1">
+        <div
+          className="h-3 rounded"
+          style={{ background: `linear-gradient(to right, ${scale.colors.join(', ')})` }}
+          aria-hidden
+        />
+        <div className="flex items-center justify-between gap-2">
+          <Input
+            type="number"
+            value={range[0]}
+            step={0.5}
+            onChange={(e) => handleRangeChange(0, e.target.value)}
+            className="h-7 w-20 text-xs"
+            aria-label="Range minimum"
+          />
+          <span className="text-xs text-muted-foreground">{scale.unit || scale.label}</span>
+          <Input
+            type="number"
+            value={range[1]}
+            step={0.5}
+            onChange={(e) => handleRangeChange(1, e.target.value)}
+            className="h-7 w-20 text-xs"
+            aria-label="Range maximum"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="show-surface" className="font-normal">
+          Show as molecular surface
+        </Label>
+        <Switch id="show-surface" checked={showSurface} onCheckedChange={setShowSurface} />
+      </div>
+
+      <Button variant="outline" className="w-full" onClick={handleApply} disabled={isApplying || range[0] >= range[1]}>
+        {isApplying ? 'Computing…' : 'Apply Surface Coloring'}
+      </Button>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import TrajectoryAnalysis from '@/components/simulation/TrajectoryAnalysis';
+import { parsePDB, type Atom } from '@/lib/pdb-parser';
+import type { AnalysisFrame, ResidueValue } from '@/lib/md-analysis';
+import { molstarService } from '@/services/molstar-service';
+import { getTrajectoryService } from '@/services/trajectory-service';
+import { cn } from '@/lib/utils';
+
+interface TrajectoryAnalysisPanelProps {
+  trajectoryId: string;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * TrajectoryAnalysisPanel Component
+ *
+ * Loads every frame of an imported trajectory for RMSD, RMSF, radius of
+ * gyration and hydrogen-bond analysis, and colors the viewer by RMSF.
+ */
+export function TrajectoryAnalysisPanel({ trajectoryId, onClose, className }: TrajectoryAnalysisPanelProps) {
+  const [data, setData] = useState<{ atoms: Atom[]; frames: AnalysisFrame[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setData(null);
+      setError(null);
+      try {
+        const service = getTrajectoryService();
+        const info = await service.getInfo(trajectoryId);
+        const frames = await service.getFrames(trajectoryId, 0, info.frameCount);
+        const { atoms } = await parsePDB(info.topology, { includeWater: true });
+        if (cancelled) return;
+
+        setData({
+          atoms,
+          frames: frames.map(frame => ({
+            time: frame.timestamp ?? frame.index,
+            positions: frame.coordinates,
+          })),
+        });
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load trajectory');
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [trajectoryId]);
+
+  const handleApplyRMSF = async (residues: ResidueValue[]) => {
+    try {
+      await molstarService.setRMSFColoring(residues);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to color structure');
+    }
+  };
+
+  return (
+    <div className={cn('rounded-lg border bg-background shadow-lg', className)}>
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <h3 className="text-sm font-semibold">Trajectory Analysis</h3>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close analysis">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="overflow-auto p-2">
+        {error && <p className="p-2 text-xs text-red-500">{error}</p>}
+        {!data && !error && <p className="p-2 text-xs text-muted-foreground">Loading frames...</p>}
+        {data && (
+          <TrajectoryAnalysis
+            frames={data.frames}
+            atoms={data.atoms}
+            onApplyRMSF={handleApplyRMSF}
+            width={520}
+            height={240}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Film } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { getTrajectoryService, TrajectoryInfo } from '@/services/trajectory-service';
+
+interface TrajectoryImportProps {
+  onImported: (info: TrajectoryInfo) => void;
+  className?: string;
+}
+
+/**
+ * TrajectoryImport Component
+ *
+ * Import an external trajectory (DCD, XTC, TRR or multi-model PDB) with the
+ * topology structure its frames belong to.
+ */
+export function TrajectoryImport({ onImported, className }: TrajectoryImportProps) {
+  const [topologyFile, setTopologyFile] = useState<File | null>(null);
+  const [trajectoryFile, setTrajectoryFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    if (!topologyFile || !trajectoryFile) return;
+
+    setError(null);
+    setProgress('Reading files...');
+
+    try {
+      const [topology, data] = await Promise.all([
+        topologyFile.text(),
+        trajectoryFile.arrayBuffer(),
+      ]);
+      const info = await getTrajectoryService().importTrajectory(data, trajectoryFile.name, topology, {
+        onProgress: (_percent, message) => setProgress(message),
+      });
+      onImported(info);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import trajectory');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="space-y-1">
+        <Label htmlFor="trajectory-topology">Topology (PDB)</Label>
+        <Input
+          id="trajectory-topology"
+          type="file"
+          accept=".pdb,.ent"
+          onChange={(e) => setTopologyFile(e.target.files?.[0] ?? null)}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="trajectory-file">Trajectory (DCD, XTC, TRR, PDB)</Label>
+        <Input
+          id="trajectory-file"
+          type="file"
+          accept=".dcd,.xtc,.trr,.pdb"
+          onChange={(e) => setTrajectoryFile(e.target.files?.[0] ?? null)}
+        />
+      </div>
+
+      <Button
+        onClick={handleImport}
+        disabled={!topologyFile || !trajectoryFile || progress !== null}
+        className="w-full justify-start gap-2"
+      >
+        <Film className="h-4 w-4" />
+        {progress ?? 'Load Trajectory'}
+      </Button>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import { Pause, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+
+interface TrajectoryTimelineProps {
+  frameCount: number;
+  currentFrame: number;
+  isPlaying: boolean;
+  onSeek: (frame: number) => void;
+  onTogglePlay: () => void;
+  timeStep?: number; // ps between frames
+  startTime?: number; // ps
+  className?: string;
+}
+
+/**
+ * TrajectoryTimeline Component
+ *
+ * Playback controls and frame scrubber for imported trajectories.
+ */
+export function TrajectoryTimeline({
+  frameCount,
+  currentFrame,
+  isPlaying,
+  onSeek,
+  onTogglePlay,
+  timeStep,
+  startTime = 0,
+  className,
+}: TrajectoryTimelineProps) {
+  const time = timeStep !== undefined ? startTime + currentFrame * timeStep : undefined;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-3 rounded-md bg-background/80 px-3 py-2 backdrop-blur',
+        className
+      )}
+      role="group"
+      aria-label="Trajectory playback"
+    >
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onTogglePlay}
+        disabled={frameCount < 2}
+        aria-label={isPlaying ? 'Pause trajectory' : 'Play trajectory'}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+
+      <Slider
+        min={0}
+        max={Math.max(0, frameCount - 1)}
+        step={1}
+        value={[currentFrame]}
+        onValueChange={([frame]) => onSeek(frame)}
+        disabled={frameCount < 2}
+        aria-label="Trajectory frame"
+        className="flex-1"
+      />
+
+      <div className="min-w-[7rem] text-right text-xs tabular-nums text-foreground">
+        <div>
+          Frame {currentFrame + 1} / {frameCount}
+        </div>
+        {time !== undefined && <div className="text-muted-foreground">{time.toFixed(1)} ps</div>}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,28 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Maximize2, Minimize2, PanelLeftClose, PanelLeftOpen, Users } from 'lucide-react';
+import { Maximize2, Minimize2, PanelLeftClose, PanelLeftOpen, Share2, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { hasPermission, PERMISSION_LABELS } from '@/lib/share-permissions';
+import { useStructureAccess } from '@/hooks/use-structure-access';
 import { MolStarViewer } from './MolStarViewer';
 import { ControlsPanel } from './ControlsPanel';
 import { Toolbar } from './Toolbar';
 import { InfoPanel } from './InfoPanel';
 import { SelectionPanel } from './SelectionPanel';
+import { SelectionQueryPanel } from './SelectionQueryPanel';
+import { BindingSitesPanel } from './BindingSitesPanel';
+import { AlphaFoldPanel } from './AlphaFoldPanel';
+import { ResidueDataPanel } from './ResidueDataPanel';
+import { LigandPanel } from './LigandPanel';
 import { LoadingState } from './LoadingState';
+import { TrajectoryImport } from './TrajectoryImport';
+import { TrajectoryAnalysisPanel } from './TrajectoryAnalysisPanel';
+import { AssemblyPicker } from './AssemblyPicker';
+import { StructureComparisonPanel } from './StructureComparisonPanel';
+import { ShareDialog } from './ShareDialog';
 import { CollaborationPanel } from '@/components/collaboration/CollaborationPanel';
 import { useCollaborationStore, selectCurrentSession } from '@/store/collaboration-slice';
 import {
@@ -21,6 +34,15 @@ import {
 
 interface ViewerLayoutProps {
   pdbId?: string;
+  /**
+   * PDB IDs to open the comparison panel with (reference first)
+   */
+  comparePdbIds?: string[];
+  /**
+   * SMILES of a ligand to build and show with the structure
+   */
+  ligandSmiles?: string;
+  ligandName?: string;
   className?: string;
   /**
    * User ID for collaboration (optional)
@@ -38,6 +60,9 @@ interface ViewerLayoutProps {
 
 export function ViewerLayout({
   pdbId,
+  comparePdbIds,
+  ligandSmiles,
+  ligandName,
   className,
   userId = 'user-' + Date.now(),
   userName = 'Guest User',
@@ -45,11 +70,16 @@ export function ViewerLayout({
 }: ViewerLayoutProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isPanelCollapsed, setIsPanelCollapsed] = useState(false);
-  const [isLoading, setIsLoading] = useState(!!pdbId);
+  const [isLoading, setIsLoading] = useState(!!pdbId || !!ligandSmiles);
   const [error, setError] = useState<string | null>(null);
   const [showCollaboration, setShowCollaboration] = useState(false);
   const [showMeasurements, setShowMeasurements] = useState(false);
   const [showSequenceViewer, setShowSequenceViewer] = useState(true);
+  const [trajectoryId, setTrajectoryId] = useState<string | undefined>();
+  const [showTrajectoryAnalysis, setShowTrajectoryAnalysis] = useState(false);
+  const [showComparison, setShowComparison] = useState(!!comparePdbIds?.length);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const access = useStructureAccess(pdbId);
 
   const session = useCollaborationStore(selectCurrentSession);
   const isInSession = !!session;
@@ -100,9 +130,27 @@ export function ViewerLayout({
           isPanelCollapsed={isPanelCollapsed}
         />
 
-        {/* Collaboration Toggle Button */}
-        {enableCollaboration && (
-          <div className="absolute top-2 right-4 z-10">
+        <div className="absolute top-2 right-4 z-10 flex items-center gap-2">
+          {/* Access to uploaded structures */}
+          {access.isShareable && access.level && (
+            <Badge variant="secondary" className="text-xs">
+              {PERMISSION_LABELS[access.level]}
+            </Badge>
+          )}
+          {access.isShareable && hasPermission(access.level, 'admin') && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowShareDialog(true)}
+              className="gap-2"
+            >
+              <Share2 className="h-4 w-4" />
+              Share
+            </Button>
+          )}
+
+          {/* Collaboration Toggle Button */}
+          {enableCollaboration && (
             <Button
               variant={isInSession ? 'default' : 'outline'}
               size="sm"
@@ -120,8 +168,8 @@ export function ViewerLayout({
                 </span>
               )}
             </Button>
-          </div>
-        )}
+          )}
+        </div>
       </div>
 
       {/* Main Content */}
@@ -140,6 +188,9 @@ export function ViewerLayout({
 
             <MolStarViewer
               pdbId={pdbId}
+              trajectoryId={trajectoryId}
+              ligandSmiles={ligandSmiles}
+              ligandName={ligandName}
               onLoadStart={() => setIsLoading(true)}
               onLoadComplete={() => setIsLoading(false)}
               onError={(err) => {
@@ -160,6 +211,24 @@ export function ViewerLayout({
               />
             )}
 
+            {/* Trajectory Analysis Panel */}
+            {trajectoryId && showTrajectoryAnalysis && (
+              <TrajectoryAnalysisPanel
+                trajectoryId={trajectoryId}
+                onClose={() => setShowTrajectoryAnalysis(false)}
+                className="absolute bottom-4 left-4 w-[560px] max-h-[calc(100%-2rem)] overflow-hidden z-20"
+              />
+            )}
+
+            {/* Structure Comparison Panel */}
+            {showComparison && (
+              <StructureComparisonPanel
+                onClose={() => setShowComparison(false)}
+                initialPdbIds={comparePdbIds?.length ? comparePdbIds : undefined}
+                className="absolute top-4 left-4 w-96 max-h-[calc(100%-2rem)] overflow-hidden z-20"
+              />
+            )}
+
             {/* Fullscreen Toggle Overlay */}
             <Button
               variant="ghost"
@@ -232,18 +301,73 @@ export function ViewerLayout({
                       >
                         {showSequenceViewer ? 'Hide' : 'Show'} Sequence
                       </Button>
+
+                      {/* Structure Comparison Toggle */}
+                      <Button
+                        variant={showComparison ? 'default' : 'outline'}
+                        onClick={() => setShowComparison(!showComparison)}
+                        className="w-full justify-start"
+                      >
+                        {showComparison ? 'Hide' : 'Show'} Comparison
+                      </Button>
+                    </div>
+
+                    {/* Trajectory Playback Section */}
+                    <div className="space-y-3 border-t pt-6">
+                      <h3 className="text-sm font-semibold text-foreground">
+                        Trajectory
+                      </h3>
+
+                      {trajectoryId ? (
+                        <>
+                          <Button
+                            variant={showTrajectoryAnalysis ? 'default' : 'outline'}
+                            onClick={() => setShowTrajectoryAnalysis(!showTrajectoryAnalysis)}
+                            className="w-full justify-start"
+                          >
+                            {showTrajectoryAnalysis ? 'Hide' : 'Show'} Analysis
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={() => {
+                              setTrajectoryId(undefined);
+                              setShowTrajectoryAnalysis(false);
+                            }}
+                            className="w-full justify-start"
+                          >
+                            Close Trajectory
+                          </Button>
+                        </>
+                      ) : (
+                        <TrajectoryImport onImported={(info) => setTrajectoryId(info.id)} />
+                      )}
                     </div>
 
+                    <AssemblyPicker className="border-t pt-6" />
+
                     <div className="border-t pt-6">
                       <ControlsPanel />
                     </div>
 
+                    <SelectionQueryPanel className="border-t pt-6" />
+
+                    <BindingSitesPanel className="border-t pt-6" />
+
+                    <AlphaFoldPanel className="border-t pt-6" />
+
+                    <ResidueDataPanel className="border-t pt-6" />
+
+                    <LigandPanel className="border-t pt-6" />
+
                     <div className="border-t pt-6">
                       <SelectionPanel />
                     </div>
 
                     <div className="border-t pt-6">
-                      <InfoPanel pdbId={pdbId} />
+                      <InfoPanel
+                        pdbId={pdbId}
+                        {...(access.isShareable && !access.isLoading && { accessLevel: access.level })}
+                      />
                     </div>
                   </div>
                 </div>
@@ -265,6 +389,14 @@ export function ViewerLayout({
           </div>
         )}
 
+          {pdbId && access.isShareable && (
+            <ShareDialog
+              structureId={pdbId}
+              open={showShareDialog}
+              onClose={() => setShowShareDialog(false)}
+            />
+          )}
+
           {/* Collaboration Panel */}
           {enableCollaboration && showCollaboration && (
             <CollaborationPanel
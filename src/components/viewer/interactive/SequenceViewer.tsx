@@ -1,8 +1,10 @@
 'use client';
 
-import React, { useEffect, useState, useCallback, useRef } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { molstarService } from '@/services/molstar-service';
-import type { StructureMetadata, HoverInfo } from '@/types/molstar';
+import type { HoverInfo, SecondaryStructureResidue, StructureSequence, StructureResidue } from '@/types/molstar';
+import type { SecondaryStructureCode } from '@/lib/dssp';
+import { alignLocal, alignMultiple, columnConservation, columnResidueIndices } from '@/lib/sequence-alignment';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { ChevronLeft, ChevronRight, Search } from 'lucide-react';
@@ -25,6 +27,36 @@ interface ChainSequence {
   residues: ResidueData[];
 }
 
+interface AlignableChain {
+  key: string;
+  label: string;
+  structureIndex: number;
+  chainId: string;
+  sequence: string;
+  residueIds: number[];
+}
+
+interface AlignedRow {
+  chain: AlignableChain;
+  row: string;
+  residueIndices: Array<number | null>; // Per column, into chain.residueIds
+}
+
+type AlignmentMethod = 'multiple' | 'local';
+
+const MAX_ALIGNED_CHAINS = 6;
+
+const SECONDARY_STRUCTURE_STYLES: Record<SecondaryStructureCode, { label: string; color: string }> = {
+  H: { label: 'Alpha helix', color: 'bg-pink-500' },
+  G: { label: '3-10 helix', color: 'bg-fuchsia-700' },
+  I: { label: 'Pi helix', color: 'bg-purple-900' },
+  E: { label: 'Strand', color: 'bg-yellow-400' },
+  B: { label: 'Bridge', color: 'bg-amber-600' },
+  T: { label: 'Turn', color: 'bg-emerald-600' },
+  S: { label: 'Bend', color: 'bg-teal-300' },
+  '-': { label: 'Coil', color: 'bg-gray-200 dark:bg-gray-700' },
+};
+
 /**
  * SequenceViewer Component
  *
@@ -36,33 +68,82 @@ interface ChainSequence {
  * - Hover synchronization with 3D viewer
  * - Color-coded by residue type
  * - Scrollable and searchable
+ * - DSSP secondary structure track, recomputed per trajectory frame
+ * - Alignment mode: multiple or local pairwise alignment of chains across
+ *   loaded structures, shaded by conservation; clicking a column selects
+ *   its residues in every structure
  * - Responsive layout
  */
 export function SequenceViewer({ className, onResidueClick }: SequenceViewerProps) {
+  const [structures, setStructures] = useState<StructureSequence[]>([]);
   const [sequences, setSequences] = useState<ChainSequence[]>([]);
   const [selectedChain, setSelectedChain] = useState<string | null>(null);
   const [hoveredResidue, setHoveredResidue] = useState<{ chainId: string; seq: number } | null>(null);
   const [selectedResidue, setSelectedResidue] = useState<{ chainId: string; seq: number } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [mode, setMode] = useState<'sequence' | 'alignment'>('sequence');
+  const [alignedKeys, setAlignedKeys] = useState<string[]>([]);
+  const [alignmentMethod, setAlignmentMethod] = useState<AlignmentMethod>('multiple');
+  const [selectedColumn, setSelectedColumn] = useState<number | null>(null);
+  const [secondaryStructure, setSecondaryStructure] = useState<Map<string, SecondaryStructureCode>>(new Map());
   const sequenceRefs = useRef<Map<string, HTMLDivElement>>(new Map());
 
-  // Load sequences when structure is loaded
+  // Load sequences when a structure or a comparison set is loaded
   useEffect(() => {
-    const handleStructureLoaded = async (metadata: StructureMetadata) => {
-      // Extract sequence data from metadata
-      const chainSequences: ChainSequence[] = metadata.chains.map(chainId => ({
-        chainId,
-        residues: generateDummySequence(chainId, metadata.residueCount / metadata.chains.length)
+    const handleStructuresChanged = () => {
+      const loaded = molstarService.getStructureSequences();
+
+      // The chain view follows the first (reference) structure
+      const chainSequences: ChainSequence[] = (loaded[0]?.chains ?? []).map(chain => ({
+        chainId: chain.chainId,
+        residues: chain.residueIds.map((seq, i) => ({
+          seq,
+          name: chain.residueNames[i],
+          chainId: chain.chainId,
+          isSelected: false,
+          isHovered: false,
+        })),
       }));
 
+      setStructures(loaded);
       setSequences(chainSequences);
-      if (chainSequences.length > 0) {
-        setSelectedChain(chainSequences[0].chainId);
-      }
+      setSelectedChain(chainSequences[0]?.chainId ?? null);
+      setAlignedKeys(defaultAlignedKeys(loaded));
+      setSelectedColumn(null);
     };
 
-    molstarService.on('structure-loaded', handleStructureLoaded);
-    return () => molstarService.off('structure-loaded', handleStructureLoaded);
+    molstarService.on('structure-loaded', handleStructuresChanged);
+    molstarService.on('comparison-changed', handleStructuresChanged);
+    return () => {
+      molstarService.off('structure-loaded', handleStructuresChanged);
+      molstarService.off('comparison-changed', handleStructuresChanged);
+    };
+  }, []);
+
+  // Secondary structure of the displayed structure or trajectory frame
+  useEffect(() => {
+    let active = true;
+
+    const handleAssigned = (residues: SecondaryStructureResidue[]) => {
+      if (!active) return;
+      setSecondaryStructure(new Map(residues.map(residue => [`${residue.chainId}-${residue.residueSeq}`, residue.code])));
+    };
+
+    const requestAssignment = () => {
+      molstarService.getSecondaryStructure()
+        .then(handleAssigned)
+        .catch(error => console.error('Failed to assign secondary structure:', error));
+    };
+
+    molstarService.on('structure-loaded', requestAssignment);
+    molstarService.on('trajectory-frame-changed', requestAssignment);
+    molstarService.on('secondary-structure-changed', handleAssigned);
+    return () => {
+      active = false;
+      molstarService.off('structure-loaded', requestAssignment);
+      molstarService.off('trajectory-frame-changed', requestAssignment);
+      molstarService.off('secondary-structure-changed', handleAssigned);
+    };
   }, []);
 
   // Sync with 3D hover
@@ -102,6 +183,58 @@ export function SequenceViewer({ className, onResidueClick }: SequenceViewerProp
     }
   }, [onResidueClick]);
 
+  const alignableChains = useMemo(() => toAlignableChains(structures), [structures]);
+
+  const alignment = useMemo(() => {
+    const chains = alignableChains.filter(chain => alignedKeys.includes(chain.key));
+    if (chains.length < 2) return null;
+
+    let rows: AlignedRow[];
+    if (alignmentMethod === 'local' && chains.length === 2) {
+      // Local alignments start part-way into each sequence
+      const local = alignLocal(chains[0].sequence, chains[1].sequence);
+      const [startA, startB] = local.pairs[0] ?? [0, 0];
+      rows = [
+        { chain: chains[0], row: local.alignedA, residueIndices: offsetIndices(local.alignedA, startA) },
+        { chain: chains[1], row: local.alignedB, residueIndices: offsetIndices(local.alignedB, startB) },
+      ];
+    } else {
+      const multiple = alignMultiple(chains.map(chain => chain.sequence));
+      rows = multiple.rows.map((row, i) => ({ chain: chains[i], row, residueIndices: columnResidueIndices(row) }));
+    }
+
+    return { rows, conservation: columnConservation(rows.map(row => row.row)) };
+  }, [alignableChains, alignedKeys, alignmentMethod]);
+
+  // Handle aligned column click - select that column's residues in every structure
+  const handleColumnClick = useCallback(async (column: number) => {
+    if (!alignment) return;
+    setSelectedColumn(column);
+
+    const residues: StructureResidue[] = [];
+    for (const { chain, residueIndices } of alignment.rows) {
+      const index = residueIndices[column];
+      if (index !== null) {
+        residues.push({ structureIndex: chain.structureIndex, chainId: chain.chainId, residueSeq: chain.residueIds[index] });
+      }
+    }
+
+    try {
+      await molstarService.highlightStructureResidues(residues);
+    } catch (error) {
+      console.error('Failed to highlight aligned residues in 3D:', error);
+    }
+  }, [alignment]);
+
+  const toggleAlignedChain = (key: string) => {
+    setSelectedColumn(null);
+    setAlignedKeys(keys =>
+      keys.includes(key)
+        ? keys.filter(k => k !== key)
+        : keys.length < MAX_ALIGNED_CHAINS ? [...keys, key] : keys
+    );
+  };
+
   // Get color for residue type (amino acid)
   const getResidueColor = (residueName: string): string => {
     const hydrophobic = ['ALA', 'VAL', 'ILE', 'LEU', 'MET', 'PHE', 'TRP', 'PRO'];
@@ -153,55 +286,168 @@ export function SequenceViewer({ className, onResidueClick }: SequenceViewerProp
           </h3>
 
           {/* Chain selector */}
-          <div className="flex items-center gap-2">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => {
-                const currentIndex = sequences.findIndex(s => s.chainId === selectedChain);
-                const prevIndex = (currentIndex - 1 + sequences.length) % sequences.length;
-                setSelectedChain(sequences[prevIndex].chainId);
-              }}
-              className="h-8 w-8 p-0"
-            >
-              <ChevronLeft className="w-4 h-4" />
-            </Button>
-
-            <span className="text-sm font-mono font-semibold min-w-[60px] text-center">
-              Chain {selectedChain}
-            </span>
-
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => {
-                const currentIndex = sequences.findIndex(s => s.chainId === selectedChain);
-                const nextIndex = (currentIndex + 1) % sequences.length;
-                setSelectedChain(sequences[nextIndex].chainId);
-              }}
-              className="h-8 w-8 p-0"
-            >
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          </div>
+          {mode === 'sequence' && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  const currentIndex = sequences.findIndex(s => s.chainId === selectedChain);
+                  const prevIndex = (currentIndex - 1 + sequences.length) % sequences.length;
+                  setSelectedChain(sequences[prevIndex].chainId);
+                }}
+                className="h-8 w-8 p-0"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+
+              <span className="text-sm font-mono font-semibold min-w-[60px] text-center">
+                Chain {selectedChain}
+              </span>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  const currentIndex = sequences.findIndex(s => s.chainId === selectedChain);
+                  const nextIndex = (currentIndex + 1) % sequences.length;
+                  setSelectedChain(sequences[nextIndex].chainId);
+                }}
+                className="h-8 w-8 p-0"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
         </div>
 
-        {/* Search */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
-          <input
-            type="text"
-            placeholder="Search residues..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
+        {/* Mode toggle */}
+        <div className="flex gap-2 mb-3" role="group" aria-label="Sequence view mode">
+          <Button
+            variant={mode === 'sequence' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setMode('sequence')}
+          >
+            Sequence
+          </Button>
+          <Button
+            variant={mode === 'alignment' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setMode('alignment')}
+            disabled={alignableChains.length < 2}
+          >
+            Alignment
+          </Button>
         </div>
+
+        {/* Search */}
+        {mode === 'sequence' && (
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search residues..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
       </div>
 
       {/* Sequence display */}
       <div className="p-4">
-        {currentSequence ? (
+        {mode === 'alignment' ? (
+          <div className="space-y-3">
+            {/* Chains to align */}
+            <div className="flex flex-wrap gap-3 text-xs">
+              {alignableChains.map(chain => (
+                <label key={chain.key} className="flex items-center gap-1 font-mono">
+                  <input
+                    type="checkbox"
+                    checked={alignedKeys.includes(chain.key)}
+                    onChange={() => toggleAlignedChain(chain.key)}
+                  />
+                  {chain.label}
+                </label>
+              ))}
+            </div>
+
+            {alignedKeys.length === 2 && (
+              <div className="flex gap-2" role="group" aria-label="Alignment method">
+                <Button
+                  variant={alignmentMethod === 'multiple' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => { setAlignmentMethod('multiple'); setSelectedColumn(null); }}
+                >
+                  Global
+                </Button>
+                <Button
+                  variant={alignmentMethod === 'local' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => { setAlignmentMethod('local'); setSelectedColumn(null); }}
+                >
+                  Local
+                </Button>
+              </div>
+            )}
+
+            {alignment ? (
+              <>
+                <div className="overflow-x-auto scrollbar-thin scrollbar-thumb-gray-400 dark:scrollbar-thumb-gray-600 scrollbar-track-gray-200 dark:scrollbar-track-gray-800">
+                  <table className="border-separate border-spacing-0 font-mono text-xs" aria-label="Sequence alignment">
+                    <tbody>
+                      {alignment.rows.map(({ chain, row, residueIndices }) => (
+                        <tr key={chain.key}>
+                          <th className="sticky left-0 bg-white dark:bg-gray-800 pr-2 text-left font-semibold whitespace-nowrap">
+                            {chain.label}
+                          </th>
+                          {Array.from(row, (residue, column) => {
+                            const index = residueIndices[column];
+                            return (
+                              <td
+                                key={column}
+                                onClick={() => handleColumnClick(column)}
+                                className={cn(
+                                  'w-4 min-w-[16px] cursor-pointer text-center',
+                                  residue === '-' ? 'text-gray-400' : getConservationColor(alignment.conservation[column]),
+                                  selectedColumn === column && 'bg-green-500/40 ring-1 ring-green-500'
+                                )}
+                                title={index !== null ? `${chain.label} ${residue}${chain.residueIds[index]}` : 'Gap'}
+                              >
+                                {residue}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Legend */}
+                <div className="flex flex-wrap gap-4 pt-4 border-t border-gray-200 dark:border-gray-700 text-xs">
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded bg-blue-600/60" />
+                    <span className="text-gray-600 dark:text-gray-400">Identical</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded bg-blue-500/30" />
+                    <span className="text-gray-600 dark:text-gray-400">Mostly conserved</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded bg-blue-400/10" />
+                    <span className="text-gray-600 dark:text-gray-400">Partly conserved</span>
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+                Select at least two chains to align
+              </div>
+            )}
+          </div>
+        ) : currentSequence ? (
           <div className="space-y-2">
             {/* Residue counter */}
             <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-2">
@@ -250,6 +496,25 @@ export function SequenceViewer({ className, onResidueClick }: SequenceViewerProp
                   );
                 })}
               </div>
+
+              {/* Secondary structure track */}
+              {secondaryStructure.size > 0 && (
+                <div className="flex gap-0.5 pb-2" aria-label="Secondary structure">
+                  {currentSequence.residues.map((residue) => {
+                    const code = secondaryStructure.get(`${residue.chainId}-${residue.seq}`);
+                    const style = code ? SECONDARY_STRUCTURE_STYLES[code] : null;
+
+                    return (
+                      <div
+                        key={`${residue.chainId}-${residue.seq}`}
+                        className={cn('min-w-[32px] h-2 rounded-sm', style?.color)}
+                        title={style ? `${residue.seq}: ${style.label} (${code})` : undefined}
+                        data-code={code}
+                      />
+                    );
+                  })}
+                </div>
+              )}
             </div>
 
             {/* Legend */}
@@ -266,6 +531,12 @@ export function SequenceViewer({ className, onResidueClick }: SequenceViewerProp
                 <div className="w-4 h-4 rounded bg-red-500/20" />
                 <span className="text-gray-600 dark:text-gray-400">Charged</span>
               </div>
+              {secondaryStructure.size > 0 && (['H', 'G', 'E', 'T', 'S'] as const).map(code => (
+                <div key={code} className="flex items-center gap-2">
+                  <div className={cn('w-4 h-2 rounded-sm', SECONDARY_STRUCTURE_STYLES[code].color)} />
+                  <span className="text-gray-600 dark:text-gray-400">{SECONDARY_STRUCTURE_STYLES[code].label}</span>
+                </div>
+              ))}
             </div>
           </div>
         ) : (
@@ -278,17 +549,40 @@ export function SequenceViewer({ className, onResidueClick }: SequenceViewerProp
   );
 }
 
-// Helper function to generate dummy sequence data
-// In real implementation, this would extract from MolStar structure data
-function generateDummySequence(chainId: string, count: number): ResidueData[] {
-  const aminoAcids = ['ALA', 'CYS', 'ASP', 'GLU', 'PHE', 'GLY', 'HIS', 'ILE', 'LYS', 'LEU',
-                      'MET', 'ASN', 'PRO', 'GLN', 'ARG', 'SER', 'THR', 'VAL', 'TRP', 'TYR'];
-
-  return Array.from({ length: Math.floor(count) }, (_, i) => ({
-    seq: i + 1,
-    name: aminoAcids[Math.floor(Math.random() * aminoAcids.length)],
-    chainId,
-    isSelected: false,
-    isHovered: false,
-  }));
+// Every chain of every loaded structure, labelled with its entry when there are several
+function toAlignableChains(structures: StructureSequence[]): AlignableChain[] {
+  return structures.flatMap((structure, structureIndex) =>
+    structure.chains
+      .filter(chain => chain.sequence.length > 0)
+      .map(chain => ({
+        key: `${structureIndex}:${chain.chainId}`,
+        label: structures.length > 1 ? `${structure.label}:${chain.chainId}` : `Chain ${chain.chainId}`,
+        structureIndex,
+        chainId: chain.chainId,
+        sequence: chain.sequence,
+        residueIds: chain.residueIds,
+      }))
+  );
+}
+
+// First chain of each structure when comparing, otherwise all chains of the one structure
+function defaultAlignedKeys(structures: StructureSequence[]): string[] {
+  const chains = toAlignableChains(structures);
+  const keys = structures.length > 1
+    ? structures.map((_, i) => chains.find(chain => chain.structureIndex === i)?.key).filter((key): key is string => !!key)
+    : chains.map(chain => chain.key);
+  return keys.slice(0, MAX_ALIGNED_CHAINS);
+}
+
+// Column residue indices of a gapped row that starts at residue `start`
+function offsetIndices(row: string, start: number): Array<number | null> {
+  return columnResidueIndices(row).map(index => (index === null ? null : index + start));
+}
+
+// Shading by the fraction of rows sharing the column's most common residue
+function getConservationColor(conservation: number): string {
+  if (conservation >= 1) return 'bg-blue-600/60 text-white';
+  if (conservation >= 0.7) return 'bg-blue-500/30';
+  if (conservation >= 0.4) return 'bg-blue-400/10';
+  return '';
 }
@@ -0,0 +1,149 @@
+/**
+ * Metabolites of the LAB fermentation pathways
+ * SMILES for the substrates and cofactors named in MetabolicPathway, at
+ * physiological protonation, so they can be built in 3D next to their enzymes.
+ * Stereocentres are not encoded; the ligand builder does not enforce them.
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface Metabolite {
+  id: string;
+  name: string; // As shown in the pathway diagrams
+  fullName: string;
+  smiles: string;
+  aliases?: string[];
+}
+
+// =============================================================================
+// METABOLITES
+// =============================================================================
+
+export const METABOLITES: Metabolite[] = [
+  {
+    id: 'glucose',
+    name: 'Glucose',
+    fullName: 'D-Glucose',
+    smiles: 'OCC1OC(O)C(O)C(O)C1O',
+  },
+  {
+    id: 'g6p',
+    name: 'G6P',
+    fullName: 'Glucose 6-phosphate',
+    smiles: 'OC1OC(COP(=O)([O-])[O-])C(O)C(O)C1O',
+  },
+  {
+    id: 'f6p',
+    name: 'F6P',
+    fullName: 'Fructose 6-phosphate',
+    smiles: 'OCC1(O)OC(COP(=O)([O-])[O-])C(O)C1O',
+  },
+  {
+    id: 'f16bp',
+    name: 'F1,6BP',
+    fullName: 'Fructose 1,6-bisphosphate',
+    smiles: '[O-]P([O-])(=O)OCC1(O)OC(COP(=O)([O-])[O-])C(O)C1O',
+  },
+  {
+    id: 'g3p',
+    name: 'G3P',
+    fullName: 'Glyceraldehyde 3-phosphate',
+    smiles: 'O=CC(O)COP(=O)([O-])[O-]',
+  },
+  {
+    id: '13bpg',
+    name: '1,3BPG',
+    fullName: '1,3-Bisphosphoglycerate',
+    smiles: 'O=C(OP(=O)([O-])[O-])C(O)COP(=O)([O-])[O-]',
+  },
+  {
+    id: '3pg',
+    name: '3PG',
+    fullName: '3-Phosphoglycerate',
+    smiles: '[O-]C(=O)C(O)COP(=O)([O-])[O-]',
+  },
+  {
+    id: 'pep',
+    name: 'PEP',
+    fullName: 'Phosphoenolpyruvate',
+    smiles: 'C=C(OP(=O)([O-])[O-])C(=O)[O-]',
+  },
+  {
+    id: 'pyruvate',
+    name: 'Pyruvate',
+    fullName: 'Pyruvate',
+    smiles: 'CC(=O)C(=O)[O-]',
+  },
+  {
+    id: 'lactate',
+    name: 'Lactate',
+    fullName: 'L-Lactate',
+    smiles: 'CC(O)C(=O)[O-]',
+    aliases: ['L-Lactate'],
+  },
+  {
+    id: '6pg',
+    name: '6PG',
+    fullName: '6-Phosphogluconate',
+    smiles: '[O-]C(=O)C(O)C(O)C(O)C(O)COP(=O)([O-])[O-]',
+  },
+  {
+    id: 'ru5p',
+    name: 'Ru5P',
+    fullName: 'Ribulose 5-phosphate',
+    smiles: 'OCC(=O)C(O)C(O)COP(=O)([O-])[O-]',
+  },
+  {
+    id: 'x5p',
+    name: 'X5P',
+    fullName: 'Xylulose 5-phosphate',
+    smiles: 'OCC(=O)C(O)C(O)COP(=O)([O-])[O-]',
+  },
+  {
+    id: 'acetyl-phosphate',
+    name: 'Acetyl-P',
+    fullName: 'Acetyl phosphate',
+    smiles: 'CC(=O)OP(=O)([O-])[O-]',
+  },
+  {
+    id: 'acetate',
+    name: 'Acetate',
+    fullName: 'Acetate',
+    smiles: 'CC(=O)[O-]',
+  },
+  {
+    id: 'ethanol',
+    name: 'Ethanol',
+    fullName: 'Ethanol',
+    smiles: 'CCO',
+  },
+  {
+    id: 'nad',
+    name: 'NAD+',
+    fullName: 'Nicotinamide adenine dinucleotide (oxidised)',
+    smiles: 'NC(=O)c1ccc[n+](c1)C1OC(COP([O-])(=O)OP([O-])(=O)OCC2OC(C(O)C2O)n2cnc3c(N)ncnc23)C(O)C1O',
+    aliases: ['NAD'],
+  },
+  {
+    id: 'nicotinamide',
+    name: 'Nicotinamide',
+    fullName: 'Nicotinamide (NAD+ fragment)',
+    smiles: 'NC(=O)c1cccnc1',
+  },
+];
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Find a metabolite by its diagram label, ignoring stoichiometry such as "2x "
+ */
+export function findMetabolite(label: string): Metabolite | undefined {
+  const name = label.replace(/^\d+x\s+/, '').trim().toLowerCase();
+  return METABOLITES.find(
+    m => m.name.toLowerCase() === name || m.aliases?.some(alias => alias.toLowerCase() === name)
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * Residue Template Library
+ * United-atom residue templates (GROMOS-style: non-polar and polar hydrogens are
+ * merged into their heavy atom) used to build desktop MD topologies.
+ * Charges are in e; each template sums to the residue's formal charge.
+ */
+
+export interface AtomTypeDefinition {
+  element: string;
+  hydrogens: number; // Hydrogens merged into the type (adds to its mass)
+}
+
+export interface TemplateAtom {
+  name: string;
+  type: string;
+  charge: number;
+  optional?: boolean; // Not reported as missing (e.g. OXT)
+}
+
+export interface ResidueTemplate {
+  name: string;
+  kind: 'amino-acid' | 'water' | 'ion';
+  atoms: TemplateAtom[];
+  bonds: Array<[string, string]>;
+}
+
+export const ATOM_TYPES: Record<string, AtomTypeDefinition> = {
+  C: { element: 'C', hydrogens: 0 }, // Carbonyl and aromatic carbon without hydrogen
+  CH1: { element: 'C', hydrogens: 1 },
+  CH2: { element: 'C', hydrogens: 2 },
+  CH3: { element: 'C', hydrogens: 3 },
+  CR1: { element: 'C', hydrogens: 1 }, // Aromatic CH
+  N: { element: 'N', hydrogens: 1 }, // Amide and ring NH
+  NR: { element: 'N', hydrogens: 0 }, // Proline and aromatic nitrogen
+  NT: { element: 'N', hydrogens: 3 }, // Charged amine (N-terminus, LYS)
+  NH2: { element: 'N', hydrogens: 2 },
+  O: { element: 'O', hydrogens: 0 },
+  OA: { element: 'O', hydrogens: 1 }, // Hydroxyl
+  OM: { element: 'O', hydrogens: 0 }, // Carboxylate
+  S: { element: 'S', hydrogens: 0 },
+  SH: { element: 'S', hydrogens: 1 },
+  OW: { element: 'O', hydrogens: 0 }, // Water oxygen (explicit hydrogens)
+  HW: { element: 'H', hydrogens: 0 },
+  NA: { element: 'NA', hydrogens: 0 },
+  K: { element: 'K', hydrogens: 0 },
+  CL: { element: 'CL', hydrogens: 0 },
+  MG: { element: 'MG', hydrogens: 0 },
+  CA: { element: 'CA', hydrogens: 0 },
+  ZN: { element: 'ZN', hydrogens: 0 }
+};
+
+/**
+ * Type and charge changes for the first and last residue of a chain
+ * The C-terminus is only charged when OXT is present
+ */
+export const N_TERMINUS: Record<string, Partial<Pick<TemplateAtom, 'type' | 'charge'>>> = {
+  N: { type: 'NT', charge: 0.873 }, // NH2 for an N-terminal proline
+  CA: { charge: 0.127 }
+};
+
+export const C_TERMINUS: Record<string, Partial<Pick<TemplateAtom, 'type' | 'charge'>>> = {
+  C: { charge: 0.27 },
+  O: { type: 'OM', charge: -0.635 },
+  OXT: { type: 'OM', charge: -0.635 }
+};
+
+type AtomSpec = [name: string, type: string, charge?: number];
+
+const BACKBONE: AtomSpec[] = [
+  ['N', 'N', 0],
+  ['CA', 'CH1', 0],
+  ['C', 'C', 0.45],
+  ['O', 'O', -0.45]
+];
+
+function aminoAcid(
+  name: string,
+  sideChain: AtomSpec[],
+  sideChainBonds: Array<[string, string]>,
+  backbone: AtomSpec[] = BACKBONE
+): ResidueTemplate {
+  const atoms: TemplateAtom[] = [...backbone, ...sideChain].map(([atomName, type, charge = 0]) => ({
+    name: atomName,
+    type,
+    charge
+  }));
+  atoms.push({ name: 'OXT', type: 'O', charge: 0, optional: true });
+
+  const bonds: Array<[string, string]> = [['N', 'CA'], ['CA', 'C'], ['C', 'O'], ['C', 'OXT']];
+  if (sideChain.length > 0) bonds.push(['CA', 'CB']);
+
+  return { name, kind: 'amino-acid', atoms, bonds: [...bonds, ...sideChainBonds] };
+}
+
+function ion(name: string, charge: number): ResidueTemplate {
+  return { name, kind: 'ion', atoms: [{ name, type: name, charge }], bonds: [] };
+}
+
+const PHENYL_BONDS: Array<[string, string]> = [
+  ['CB', 'CG'], ['CG', 'CD1'], ['CG', 'CD2'], ['CD1', 'CE1'], ['CD2', 'CE2'], ['CE1', 'CZ'], ['CE2', 'CZ']
+];
+const IMIDAZOLE_BONDS: Array<[string, string]> = [
+  ['CB', 'CG'], ['CG', 'ND1'], ['CG', 'CD2'], ['ND1', 'CE1'], ['CD2', 'NE2'], ['CE1', 'NE2']
+];
+
+const TEMPLATES: ResidueTemplate[] = [
+  aminoAcid('GLY', [], [], [['N', 'N', 0], ['CA', 'CH2', 0], ['C', 'C', 0.45], ['O', 'O', -0.45]]),
+  aminoAcid('ALA', [['CB', 'CH3']], []),
+  aminoAcid('VAL', [['CB', 'CH1'], ['CG1', 'CH3'], ['CG2', 'CH3']], [['CB', 'CG1'], ['CB', 'CG2']]),
+  aminoAcid(
+    'LEU',
+    [['CB', 'CH2'], ['CG', 'CH1'], ['CD1', 'CH3'], ['CD2', 'CH3']],
+    [['CB', 'CG'], ['CG', 'CD1'], ['CG', 'CD2']]
+  ),
+  aminoAcid(
+    'ILE',
+    [['CB', 'CH1'], ['CG1', 'CH2'], ['CG2', 'CH3'], ['CD1', 'CH3']],
+    [['CB', 'CG1'], ['CB', 'CG2'], ['CG1', 'CD1']]
+  ),
+  aminoAcid(
+    'PRO',
+    [['CB', 'CH2'], ['CG', 'CH2'], ['CD', 'CH2']],
+    [['CB', 'CG'], ['CG', 'CD'], ['CD', 'N']],
+    [['N', 'NR', 0], ['CA', 'CH1', 0], ['C', 'C', 0.45], ['O', 'O', -0.45]]
+  ),
+  aminoAcid(
+    'MET',
+    [['CB', 'CH2'], ['CG', 'CH2'], ['SD', 'S'], ['CE', 'CH3']],
+    [['CB', 'CG'], ['CG', 'SD'], ['SD', 'CE']]
+  ),
+  aminoAcid(
+    'PHE',
+    [['CB', 'CH2'], ['CG', 'C'], ['CD1', 'CR1'], ['CD2', 'CR1'], ['CE1', 'CR1'], ['CE2', 'CR1'], ['CZ', 'CR1']],
+    PHENYL_BONDS
+  ),
+  aminoAcid(
+    'TYR',
+    [
+      ['CB', 'CH2'], ['CG', 'C'], ['CD1', 'CR1'], ['CD2', 'CR1'], ['CE1', 'CR1'], ['CE2', 'CR1'],
+      ['CZ', 'C', 0.203], ['OH', 'OA', -0.203]
+    ],
+    [...PHENYL_BONDS, ['CZ', 'OH']]
+  ),
+  aminoAcid(
+    'TRP',
+    [
+      ['CB', 'CH2'], ['CG', 'C'], ['CD1', 'CR1'], ['CD2', 'C'], ['NE1', 'N'], ['CE2', 'C'],
+      ['CE3', 'CR1'], ['CZ2', 'CR1'], ['CZ3', 'CR1'], ['CH2', 'CR1']
+    ],
+    [
+      ['CB', 'CG'], ['CG', 'CD1'], ['CG', 'CD2'], ['CD1', 'NE1'], ['NE1', 'CE2'], ['CD2', 'CE2'],
+      ['CD2', 'CE3'], ['CE2', 'CZ2'], ['CE3', 'CZ3'], ['CZ2', 'CH2'], ['CZ3', 'CH2']
+    ]
+  ),
+  aminoAcid('SER', [['CB', 'CH2', 0.266], ['OG', 'OA', -0.266]], [['CB', 'OG']]),
+  aminoAcid(
+    'THR',
+    [['CB', 'CH1', 0.266], ['OG1', 'OA', -0.266], ['CG2', 'CH3']],
+    [['CB', 'OG1'], ['CB', 'CG2']]
+  ),
+  aminoAcid('CYS', [['CB', 'CH2'], ['SG', 'SH']], [['CB', 'SG']]),
+  // Disulfide-bonded cysteine
+  aminoAcid('CYX', [['CB', 'CH2'], ['SG', 'S']], [['CB', 'SG']]),
+  aminoAcid(
+    'ASN',
+    [['CB', 'CH2'], ['CG', 'C', 0.38], ['OD1', 'O', -0.38], ['ND2', 'NH2']],
+    [['CB', 'CG'], ['CG', 'OD1'], ['CG', 'ND2']]
+  ),
+  aminoAcid(
+    'GLN',
+    [['CB', 'CH2'], ['CG', 'CH2'], ['CD', 'C', 0.38], ['OE1', 'O', -0.38], ['NE2', 'NH2']],
+    [['CB', 'CG'], ['CG', 'CD'], ['CD', 'OE1'], ['CD', 'NE2']]
+  ),
+  aminoAcid(
+    'ASP',
+    [['CB', 'CH2'], ['CG', 'C', 0.27], ['OD1', 'OM', -0.635], ['OD2', 'OM', -0.635]],
+    [['CB', 'CG'], ['CG', 'OD1'], ['CG', 'OD2']]
+  ),
+  aminoAcid(
+    'GLU',
+    [['CB', 'CH2'], ['CG', 'CH2'], ['CD', 'C', 0.27], ['OE1', 'OM', -0.635], ['OE2', 'OM', -0.635]],
+    [['CB', 'CG'], ['CG', 'CD'], ['CD', 'OE1'], ['CD', 'OE2']]
+  ),
+  aminoAcid(
+    'LYS',
+    [['CB', 'CH2'], ['CG', 'CH2'], ['CD', 'CH2'], ['CE', 'CH2', 0.127], ['NZ', 'NT', 0.873]],
+    [['CB', 'CG'], ['CG', 'CD'], ['CD', 'CE'], ['CE', 'NZ']]
+  ),
+  aminoAcid(
+    'ARG',
+    [
+      ['CB', 'CH2'], ['CG', 'CH2'], ['CD', 'CH2', 0.09], ['NE', 'N', 0.13], ['CZ', 'C', 0.34],
+      ['NH1', 'NH2', 0.22], ['NH2', 'NH2', 0.22]
+    ],
+    [['CB', 'CG'], ['CG', 'CD'], ['CD', 'NE'], ['NE', 'CZ'], ['CZ', 'NH1'], ['CZ', 'NH2']]
+  ),
+  // Neutral histidine protonated on ND1 (HID), on NE2 (HIE) and the charged form (HIP)
+  aminoAcid(
+    'HID',
+    [['CB', 'CH2'], ['CG', 'C'], ['ND1', 'N'], ['CD2', 'CR1'], ['CE1', 'CR1'], ['NE2', 'NR']],
+    IMIDAZOLE_BONDS
+  ),
+  aminoAcid(
+    'HIE',
+    [['CB', 'CH2'], ['CG', 'C'], ['ND1', 'NR'], ['CD2', 'CR1'], ['CE1', 'CR1'], ['NE2', 'N']],
+    IMIDAZOLE_BONDS
+  ),
+  aminoAcid(
+    'HIP',
+    [['CB', 'CH2'], ['CG', 'C'], ['ND1', 'N', 0.25], ['CD2', 'CR1'], ['CE1', 'CR1', 0.5], ['NE2', 'N', 0.25]],
+    IMIDAZOLE_BONDS
+  ),
+  // TIP3P water with explicit hydrogens
+  {
+    name: 'SOL',
+    kind: 'water',
+    atoms: [
+      { name: 'OW', type: 'OW', charge: -0.834 },
+      { name: 'HW1', type: 'HW', charge: 0.417 },
+      { name: 'HW2', type: 'HW', charge: 0.417 }
+    ],
+    bonds: [['OW', 'HW1'], ['OW', 'HW2']]
+  },
+  ion('NA', 1),
+  ion('K', 1),
+  ion('CL', -1),
+  ion('MG', 2),
+  ion('CA', 2),
+  ion('ZN', 2)
+];
+
+// Alternative residue names found in PDB files
+const RESIDUE_ALIASES: Record<string, string> = {
+  HIS: 'HID', HSD: 'HID', HSE: 'HIE', HSP: 'HIP', HIH: 'HIP',
+  HOH: 'SOL', WAT: 'SOL', TIP3: 'SOL', H2O: 'SOL'
+};
+
+// Alternative atom names, per template
+export const ATOM_ALIASES: Record<string, Record<string, string>> = {
+  ILE: { CD: 'CD1' },
+  SOL: { O: 'OW', OH2: 'OW', H1: 'HW1', H2: 'HW2' },
+  '*': { OT1: 'O', OT2: 'OXT', O1: 'O', O2: 'OXT' }
+};
+
+const TEMPLATE_INDEX = new Map(TEMPLATES.map(template => [template.name, template]));
+
+/**
+ * Look up the template for a PDB residue name, or null when unsupported
+ */
+export function getResidueTemplate(resName: string): ResidueTemplate | null {
+  const name = resName.trim().toUpperCase();
+  return TEMPLATE_INDEX.get(RESIDUE_ALIASES[name] ?? name) ?? null;
+}
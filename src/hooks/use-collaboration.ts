@@ -8,6 +8,7 @@ import { useEffect, useCallback, useRef } from 'react';
 import { useCollaborationStore } from '@/store/collaboration-slice';
 import { collaborationSession } from '@/services/collaboration-session';
 import { cameraSync } from '@/services/camera-sync';
+import { documentSync } from '@/services/document-sync';
 import type {
   CollaborationSession,
   CollaborationUser,
@@ -26,11 +27,13 @@ export function useCollaboration(userId: string, userName: string) {
     setCurrentUser,
     updateUser,
     removeUser,
-    addAnnotation,
-    updateAnnotation,
-    deleteAnnotation,
+    setAnnotations,
+    setSharedMeasurements,
+    setNotes,
+    setPendingChanges,
     addActivity,
     updateCameraState,
+    isConnected,
     setConnected,
     reset,
   } = useCollaborationStore();
@@ -144,6 +147,7 @@ export function useCollaboration(userId: string, userName: string) {
       // Disconnect and reset
       collaborationSession.disconnectFromChannel();
       cameraSync.cleanup();
+      documentSync.reset();
       setConnected(false);
       reset();
     } catch (error) {
@@ -170,20 +174,6 @@ export function useCollaboration(userId: string, userName: string) {
           } as CollaborationUser);
           break;
 
-        case 'annotation-add':
-          addAnnotation(payload as RealtimeEvents['annotation-add']);
-          break;
-
-        case 'annotation-edit':
-          const editPayload = payload as RealtimeEvents['annotation-edit'];
-          updateAnnotation(editPayload.id, editPayload);
-          break;
-
-        case 'annotation-delete':
-          const deletePayload = payload as RealtimeEvents['annotation-delete'];
-          deleteAnnotation(deletePayload.id);
-          break;
-
         case 'camera-update':
           const cameraPayload = payload as RealtimeEvents['camera-update'];
           updateCameraState(cameraPayload.state);
@@ -234,9 +224,6 @@ export function useCollaboration(userId: string, userName: string) {
     },
     [
       updateUser,
-      addAnnotation,
-      updateAnnotation,
-      deleteAnnotation,
       updateCameraState,
       removeUser,
       addActivity,
@@ -245,6 +232,22 @@ export function useCollaboration(userId: string, userName: string) {
     ]
   );
 
+  /**
+   * Mirror the session document and its sync status into the store
+   */
+  useEffect(() => {
+    return documentSync.subscribe(() => {
+      const document = documentSync.getDocument();
+      if (!document) return;
+
+      setAnnotations(document.getAnnotations());
+      setSharedMeasurements(document.getMeasurements());
+      setNotes(document.getNotes());
+      setPendingChanges(documentSync.getPendingCount());
+      setConnected(documentSync.isConnected());
+    });
+  }, [setAnnotations, setSharedMeasurements, setNotes, setPendingChanges, setConnected]);
+
   /**
    * Connect to realtime channel
    */
@@ -284,7 +287,7 @@ export function useCollaboration(userId: string, userName: string) {
 
   return {
     session: currentSession,
-    isConnected: isConnectedRef.current,
+    isConnected,
     createSession,
     joinSession,
     joinByInvite,
@@ -0,0 +1,214 @@
+/**
+ * React hooks for recording collaboration sessions and replaying them
+ */
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCollaborationStore } from '@/store/collaboration-slice';
+import { molstarService } from '@/services/molstar-service';
+import { sessionRecorder, type RecordingResult } from '@/services/session-recorder';
+import { sessionRecordingService } from '@/services/session-recording-service';
+import { SessionReplayPlayer, type ReplayState } from '@/services/session-replay';
+import { cameraSnapshotFromState, cameraStateFromSnapshot } from '@/lib/session-recording';
+import type { CameraSnapshot } from '@/types/molstar';
+import type { SessionRecording, SessionRecordingSummary } from '@/types/session-recording';
+
+interface UnsavedRecording {
+  result: RecordingResult;
+  title: string;
+  structureId?: string;
+}
+
+/**
+ * Record the current session, including this user's own camera and the
+ * structure in their viewer, and save the recording
+ */
+export function useSessionRecording(structureId?: string) {
+  const session = useCollaborationStore((state) => state.currentSession);
+  const currentUserId = useCollaborationStore((state) => state.currentUserId);
+  const users = useCollaborationStore((state) => state.users);
+  const cameraState = useCollaborationStore((state) => state.cameraState);
+
+  const [isRecording, setIsRecording] = useState(sessionRecorder.isRecording());
+  const [elapsed, setElapsed] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedRecording, setSavedRecording] = useState<SessionRecordingSummary | null>(null);
+  // A stopped recording that has not been saved yet; kept so a failed save can be retried
+  const [unsavedRecording, setUnsavedRecording] = useState<UnsavedRecording | null>(null);
+
+  useEffect(() => {
+    return sessionRecorder.subscribe(() => setIsRecording(sessionRecorder.isRecording()));
+  }, []);
+
+  // Elapsed time display
+  useEffect(() => {
+    if (!isRecording) return;
+
+    setElapsed(sessionRecorder.getElapsed());
+    const interval = setInterval(() => setElapsed(sessionRecorder.getElapsed()), 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Our own camera never comes back over the channel
+  useEffect(() => {
+    if (!isRecording || !currentUserId) return;
+
+    const handleCameraChanged = (snapshot: CameraSnapshot) => {
+      sessionRecorder.record('camera-update', {
+        userId: currentUserId,
+        state: cameraStateFromSnapshot(snapshot),
+      });
+    };
+
+    molstarService.on('camera-changed', handleCameraChanged);
+    return () => {
+      molstarService.off('camera-changed', handleCameraChanged);
+    };
+  }, [isRecording, currentUserId]);
+
+  // Structure changes after the start; the recorder records the first one
+  useEffect(() => {
+    if (sessionRecorder.isRecording() && structureId) {
+      sessionRecorder.record('structure-change', { structureId });
+    }
+  }, [structureId]);
+
+  const startRecording = useCallback(() => {
+    if (!session || !currentUserId) {
+      throw new Error('Not in a session');
+    }
+    if (unsavedRecording) {
+      throw new Error('Save or discard the previous recording first');
+    }
+
+    const snapshot = molstarService.getCameraSnapshot();
+    sessionRecorder.start({
+      sessionId: session.id,
+      userId: currentUserId,
+      structureId: structureId ?? session.structureId,
+      users: Array.from(users.values()),
+      camera: snapshot ? cameraStateFromSnapshot(snapshot) : cameraState,
+    });
+    setSavedRecording(null);
+  }, [session, currentUserId, structureId, users, cameraState, unsavedRecording]);
+
+  const save = useCallback(async (pending: UnsavedRecording) => {
+    setUnsavedRecording(pending);
+    setIsSaving(true);
+
+    try {
+      const recording = await sessionRecordingService.saveRecording({
+        ...pending.result,
+        title: pending.title,
+        structureId: pending.structureId,
+      });
+      setUnsavedRecording(null);
+      setSavedRecording(recording);
+      return recording;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  /**
+   * Stop recording and save it under a title. If the save fails the
+   * recording is kept in `unsavedRecording` for `retrySave`
+   */
+  const stopRecording = useCallback(
+    async (title: string) => {
+      const result = sessionRecorder.stop();
+      return save({ result, title, structureId: structureId ?? session?.structureId });
+    },
+    [save, structureId, session]
+  );
+
+  const retrySave = useCallback(async () => {
+    if (!unsavedRecording) {
+      throw new Error('No unsaved recording');
+    }
+    return save(unsavedRecording);
+  }, [save, unsavedRecording]);
+
+  const discardRecording = useCallback(() => setUnsavedRecording(null), []);
+
+  const setPublic = useCallback(async (isPublic: boolean) => {
+    if (!savedRecording) return;
+
+    await sessionRecordingService.setPublic(savedRecording.id, isPublic);
+    setSavedRecording({ ...savedRecording, isPublic });
+  }, [savedRecording]);
+
+  return {
+    isRecording,
+    elapsed,
+    isSaving,
+    savedRecording,
+    unsavedRecording,
+    startRecording,
+    stopRecording,
+    retrySave,
+    discardRecording,
+    setPublic,
+  };
+}
+
+/**
+ * Link for watching a saved recording
+ */
+export function getRecordingLink(recordingId: string): string {
+  const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${baseUrl}/recordings?id=${encodeURIComponent(recordingId)}`;
+}
+
+/**
+ * Play a recording back, moving the viewer camera along with it
+ */
+export function useSessionReplay(recording: SessionRecording | null) {
+  const [state, setState] = useState<ReplayState | null>(null);
+  const playerRef = useRef<SessionReplayPlayer | null>(null);
+
+  useEffect(() => {
+    if (!recording) return;
+
+    const player = new SessionReplayPlayer(
+      recording.events,
+      recording.durationMs,
+      new Date(recording.startedAt).getTime()
+    );
+    playerRef.current = player;
+    setState(player.getState());
+    const unsubscribe = player.subscribe(setState);
+
+    return () => {
+      unsubscribe();
+      player.dispose();
+      playerRef.current = null;
+    };
+  }, [recording]);
+
+  // Camera updates arrive at up to 20Hz, so each move is short
+  const camera = state?.camera;
+  useEffect(() => {
+    if (!camera) return;
+
+    const applyCamera = () => {
+      molstarService.setCameraSnapshot(cameraSnapshotFromState(camera), 50).catch(() => {
+        // The viewer is not ready yet; the camera is applied once it loads
+      });
+    };
+
+    applyCamera();
+    // Loading a structure resets the camera
+    molstarService.on('structure-loaded', applyCamera);
+    return () => {
+      molstarService.off('structure-loaded', applyCamera);
+    };
+  }, [camera]);
+
+  const play = useCallback(() => playerRef.current?.play(), []);
+  const pause = useCallback(() => playerRef.current?.pause(), []);
+  const seek = useCallback((time: number) => playerRef.current?.seek(time), []);
+  const setSpeed = useCallback((speed: number) => playerRef.current?.setSpeed(speed), []);
+
+  return { state, play, pause, seek, setSpeed };
+}
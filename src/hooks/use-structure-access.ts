@@ -0,0 +1,56 @@
+/**
+ * React hook for the current user's access to a structure
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { isStructureId } from '@/lib/pdb-structures';
+import type { AccessLevel } from '@/types/sharing';
+
+export interface UseStructureAccessResult {
+  level: AccessLevel | null;
+  isShareable: boolean; // An uploaded structure, rather than a PDB entry
+  isLoading: boolean;
+}
+
+/**
+ * Access level for a structure ID. PDB entries are public, so anyone may
+ * view them and signed-in users may comment
+ */
+export function useStructureAccess(id: string | undefined): UseStructureAccessResult {
+  const { user } = useAuth();
+  const isShareable = !!id && isStructureId(id);
+  const [level, setLevel] = useState<AccessLevel | null>(null);
+  const [isLoading, setIsLoading] = useState(isShareable);
+
+  useEffect(() => {
+    if (!id || !isShareable) {
+      setLevel(id ? (user ? 'comment' : 'view') : null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetch(`/api/structures/${encodeURIComponent(id)}/access`)
+      .then((response) => response.json())
+      .then((body) => {
+        if (!cancelled) setLevel(body.success ? body.data.level : null);
+      })
+      .catch(() => {
+        if (!cancelled) setLevel(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, isShareable, user]);
+
+  return { level, isShareable, isLoading };
+}
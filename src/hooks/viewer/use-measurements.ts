@@ -2,6 +2,7 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { molstarService } from '@/services/molstar-service';
+import { documentSync } from '@/services/document-sync';
 import type { MeasurementResult, SelectionInfo } from '@/types/molstar';
 
 export type MeasurementMode = 'distance' | 'angle' | 'dihedral' | null;
@@ -51,6 +52,8 @@ export function useMeasurements(options: UseMeasurementsOptions = {}) {
   useEffect(() => {
     const handleMeasurementAdded = (measurement: MeasurementResult) => {
       setMeasurements(prev => [...prev, measurement]);
+      // Share it with the collaboration session, if there is one
+      documentSync.getDocument()?.addMeasurement(measurement);
       options.onMeasurementComplete?.(measurement);
     };
 
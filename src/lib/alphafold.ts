@@ -0,0 +1,175 @@
+/**
+ * AlphaFold Confidence
+ *
+ * Per-residue pLDDT read from the B-factor column of predicted models and
+ * predicted aligned error (PAE) matrices from the AlphaFold Database
+ * - pLDDT bands and colors follow the AlphaFold Database
+ * - Domains are runs of residues with low PAE to each other
+ */
+
+import type { Atom, PAEMatrix } from '@/types/pdb';
+
+export interface ConfidenceBand {
+  label: string;
+  min: number; // Lowest pLDDT in the band
+  color: string;
+}
+
+export const PLDDT_BANDS: ConfidenceBand[] = [
+  { label: 'Very high', min: 90, color: '#0053d6' },
+  { label: 'Confident', min: 70, color: '#65cbf3' },
+  { label: 'Low', min: 50, color: '#ffdb13' },
+  { label: 'Very low', min: 0, color: '#ff7d45' },
+];
+
+export interface ResidueConfidence {
+  chain: string;
+  residueSeq: number;
+  residue: string;
+  plddt: number;
+}
+
+export interface ConfidenceSummary {
+  mean: number;
+  bands: Array<{ band: ConfidenceBand; count: number; fraction: number }>;
+}
+
+export interface PAEDomain {
+  start: number; // Residue index into the matrix, inclusive
+  end: number;
+  meanError: number; // Å within the domain
+}
+
+export interface PAEDomainOptions {
+  maxError?: number; // Å, default 5
+  minLength?: number; // Residues, default 20
+}
+
+/**
+ * Band a pLDDT value falls in
+ */
+export function plddtBand(plddt: number): ConfidenceBand {
+  return PLDDT_BANDS.find((band) => plddt >= band.min) ?? PLDDT_BANDS[PLDDT_BANDS.length - 1];
+}
+
+/**
+ * pLDDT of each polymer residue, from its C-alpha B-factor
+ */
+export function residueConfidence(atoms: Atom[]): ResidueConfidence[] {
+  const residues = new Map<string, ResidueConfidence>();
+
+  for (const atom of atoms) {
+    if (atom.isLigand) continue;
+
+    const key = `${atom.chain}:${atom.residueSeq}`;
+    const existing = residues.get(key);
+    if (!existing || atom.name === 'CA') {
+      residues.set(key, {
+        chain: atom.chain,
+        residueSeq: atom.residueSeq,
+        residue: atom.residue,
+        plddt: atom.tempFactor,
+      });
+    }
+  }
+
+  return Array.from(residues.values());
+}
+
+/**
+ * Mean pLDDT and the share of residues in each band
+ */
+export function confidenceSummary(residues: ResidueConfidence[]): ConfidenceSummary {
+  const total = residues.length;
+  const mean = total > 0 ? residues.reduce((sum, residue) => sum + residue.plddt, 0) / total : 0;
+
+  return {
+    mean,
+    bands: PLDDT_BANDS.map((band) => {
+      const count = residues.filter((residue) => plddtBand(residue.plddt) === band).length;
+      return { band, count, fraction: total > 0 ? count / total : 0 };
+    }),
+  };
+}
+
+/**
+ * Read an AlphaFold Database PAE file, either the current
+ * `predicted_aligned_error` matrix or the v1 residue1/residue2/distance lists
+ */
+export function parsePAE(json: unknown): PAEMatrix {
+  const entry = (Array.isArray(json) ? json[0] : json) as Record<string, unknown> | undefined;
+  if (!entry || typeof entry !== 'object') {
+    throw new Error('Unrecognised PAE format');
+  }
+
+  const rows = entry.predicted_aligned_error;
+  if (Array.isArray(rows)) {
+    const size = rows.length;
+    const values: number[] = [];
+    for (const row of rows as number[][]) {
+      if (!Array.isArray(row) || row.length !== size) {
+        throw new Error('PAE matrix is not square');
+      }
+      values.push(...row);
+    }
+    return { size, values, max: Number(entry.max_predicted_aligned_error) || maximum(values) };
+  }
+
+  const { residue1, residue2, distance } = entry as Record<string, number[] | undefined>;
+  if (Array.isArray(residue1) && Array.isArray(residue2) && Array.isArray(distance)) {
+    const size = Math.max(maximum(residue1), maximum(residue2));
+    const values = new Array<number>(size * size).fill(0);
+    distance.forEach((value, k) => {
+      values[(residue1[k] - 1) * size + (residue2[k] - 1)] = value;
+    });
+    return { size, values, max: Number(entry.max_predicted_aligned_error) || maximum(distance) };
+  }
+
+  throw new Error('Unrecognised PAE format');
+}
+
+/**
+ * Expected error in Å at residue j when aligned on residue i
+ */
+export function paeValue(matrix: PAEMatrix, i: number, j: number): number {
+  return matrix.values[i * matrix.size + j];
+}
+
+/**
+ * Split the chain into consecutive blocks whose residues have a low mean PAE
+ * to the block so far; blocks long and confident enough are domains
+ */
+export function paeDomains(matrix: PAEMatrix, options: PAEDomainOptions = {}): PAEDomain[] {
+  const { maxError = 5, minLength = 20 } = options;
+  const domains: PAEDomain[] = [];
+  const pairError = (i: number, j: number) => (paeValue(matrix, i, j) + paeValue(matrix, j, i)) / 2;
+
+  let start = 0;
+  let blockSum = 0; // Sum of pair errors within [start, end)
+  for (let end = 1; end <= matrix.size; end++) {
+    let toBlock = 0;
+    if (end < matrix.size) {
+      for (let k = start; k < end; k++) toBlock += pairError(end, k);
+    }
+
+    if (end === matrix.size || toBlock / (end - start) > maxError) {
+      const length = end - start;
+      const pairs = (length * (length - 1)) / 2;
+      const meanError = pairs > 0 ? blockSum / pairs : 0;
+      if (length >= minLength && meanError <= maxError) {
+        domains.push({ start, end: end - 1, meanError });
+      }
+      start = end;
+      blockSum = 0;
+    } else {
+      blockSum += toBlock;
+    }
+  }
+
+  return domains;
+}
+
+// Spread arguments overflow the stack for full-length matrices
+function maximum(values: number[]): number {
+  return values.reduce((max, value) => (value > max ? value : max), 0);
+}
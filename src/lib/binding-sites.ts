@@ -0,0 +1,395 @@
+/**
+ * Binding Sites
+ * Non-polymer ligands and the residues lining them, and grid-based pocket
+ * detection (LIGSITE-style buriedness, Hendlich et al. 1997) on the polymer
+ * alone, so both empty cavities and occupied sites are found (positions in Å)
+ */
+
+import type { Atom } from '@/types/pdb';
+import { residueCode } from './sequence-alignment';
+
+type Vec3 = [number, number, number];
+
+export interface Ligand {
+  id: string; // "NAD:A:301"
+  name: string;
+  chain: string;
+  residueSeq: number;
+  atomCount: number;
+  center: Vec3;
+  isIon: boolean; // Single-atom ligand
+}
+
+export interface SiteResidue {
+  chain: string;
+  residueSeq: number;
+  residue: string;
+  minDistance: number; // Å to the nearest ligand atom or pocket grid point
+}
+
+export interface BindingSite {
+  ligand: Ligand;
+  radius: number;
+  residues: SiteResidue[];
+}
+
+export interface Pocket {
+  id: number; // 1 = largest
+  volume: number; // Å³
+  center: Vec3;
+  buriedness: number; // Mean number of enclosed scan directions (of 7)
+  residues: SiteResidue[]; // Lining residues
+  ligandIds: string[]; // Ligands with atoms inside the pocket
+}
+
+export interface PocketOptions {
+  gridSpacing?: number; // Å, default 1, grown so the grid stays within maxPoints per axis
+  maxPoints?: number; // Per axis, default 80
+  minBuriedness?: number; // Scan directions enclosed by polymer on both sides, default 5 of 7
+  maxScanDistance?: number; // Å each way along a scan direction, default 10
+  minVolume?: number; // Å³, default 20
+  maxPockets?: number; // Largest first, default 10
+}
+
+const WATER_NAMES = new Set(['HOH', 'WAT', 'DOD', 'H2O', 'TIP', 'TIP3', 'SOL']);
+
+// Bondi van der Waals radii
+const VDW_RADII: Record<string, number> = { H: 1.2, C: 1.7, N: 1.55, O: 1.52, S: 1.8, P: 1.8, SE: 1.9 };
+const DEFAULT_VDW_RADIUS = 1.7;
+
+// LIGSITE scan directions: the three axes and the four cube diagonals
+const SCAN_DIRECTIONS: Vec3[] = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+  [1, 1, 1],
+  [1, 1, -1],
+  [1, -1, 1],
+  [-1, 1, 1],
+];
+
+export function isWater(atom: Atom): boolean {
+  return WATER_NAMES.has(atom.residue);
+}
+
+/**
+ * HETATM groups that are not water or modified polymer residues (e.g. MSE)
+ */
+export function isLigandAtom(atom: Atom): boolean {
+  return !!atom.isLigand && !isWater(atom) && residueCode(atom.residue) === 'X';
+}
+
+function isPolymerAtom(atom: Atom): boolean {
+  return !isWater(atom) && !isLigandAtom(atom);
+}
+
+function residueKey(atom: Atom): string {
+  return `${atom.chain}:${atom.residueSeq}:${atom.residue}`;
+}
+
+function position(atom: Atom): Vec3 {
+  return [atom.x, atom.y, atom.z];
+}
+
+function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+function mean(points: Vec3[]): Vec3 {
+  const sum: Vec3 = [0, 0, 0];
+  for (const p of points) {
+    sum[0] += p[0];
+    sum[1] += p[1];
+    sum[2] += p[2];
+  }
+  return sum.map((v) => v / Math.max(1, points.length)) as Vec3;
+}
+
+function vdwRadius(atom: Atom): number {
+  return VDW_RADII[atom.element.toUpperCase()] ?? DEFAULT_VDW_RADIUS;
+}
+
+/**
+ * Keep the closest distance per residue, sorted by chain and number
+ */
+function collectResidues(contacts: Iterable<[Atom, number]>): SiteResidue[] {
+  const byResidue = new Map<string, SiteResidue>();
+  for (const [atom, d] of contacts) {
+    const key = residueKey(atom);
+    const existing = byResidue.get(key);
+    if (!existing) {
+      byResidue.set(key, { chain: atom.chain, residueSeq: atom.residueSeq, residue: atom.residue, minDistance: d });
+    } else if (d < existing.minDistance) {
+      existing.minDistance = d;
+    }
+  }
+  return Array.from(byResidue.values()).sort(
+    (a, b) => a.chain.localeCompare(b.chain) || a.residueSeq - b.residueSeq
+  );
+}
+
+// ============================================================================
+// Ligands
+// ============================================================================
+
+/**
+ * Non-polymer ligands (including ions, excluding water), in file order
+ */
+export function findLigands(atoms: Atom[]): Ligand[] {
+  const groups = new Map<string, Atom[]>();
+  for (const atom of atoms) {
+    if (!isLigandAtom(atom)) continue;
+    const key = residueKey(atom);
+    const group = groups.get(key);
+    if (group) group.push(atom);
+    else groups.set(key, [atom]);
+  }
+
+  return Array.from(groups.values()).map((group) => ({
+    id: `${group[0].residue}:${group[0].chain}:${group[0].residueSeq}`,
+    name: group[0].residue,
+    chain: group[0].chain,
+    residueSeq: group[0].residueSeq,
+    atomCount: group.length,
+    center: mean(group.map(position)),
+    isIon: group.length === 1,
+  }));
+}
+
+/**
+ * Polymer residues with any atom within `radius` of any atom of the ligand
+ */
+export function bindingSiteResidues(atoms: Atom[], ligand: Ligand, radius = 5): SiteResidue[] {
+  const ligandAtoms = atoms.filter(
+    (atom) => isLigandAtom(atom) && atom.chain === ligand.chain && atom.residueSeq === ligand.residueSeq && atom.residue === ligand.name
+  );
+  const grid = new NeighborGrid(ligandAtoms.map(position), radius);
+
+  const contacts: Array<[Atom, number]> = [];
+  for (const atom of atoms) {
+    if (!isPolymerAtom(atom)) continue;
+    const d = grid.nearest(position(atom), radius);
+    if (d <= radius) contacts.push([atom, d]);
+  }
+  return collectResidues(contacts);
+}
+
+/**
+ * Every ligand with its lining residues
+ */
+export function findBindingSites(atoms: Atom[], radius = 5): BindingSite[] {
+  return findLigands(atoms).map((ligand) => ({
+    ligand,
+    radius,
+    residues: bindingSiteResidues(atoms, ligand, radius),
+  }));
+}
+
+// ============================================================================
+// Pockets
+// ============================================================================
+
+/**
+ * Grid points outside the polymer's van der Waals surface that are enclosed
+ * by polymer on both sides along at least `minBuriedness` of 7 directions,
+ * clustered into connected pockets
+ */
+export function detectPockets(atoms: Atom[], options: PocketOptions = {}): Pocket[] {
+  const {
+    maxPoints = 80,
+    minBuriedness = 5,
+    maxScanDistance = 10,
+    minVolume = 20,
+    maxPockets = 10,
+  } = options;
+
+  // Hydrogens are skipped so structures with and without them agree
+  const polymer = atoms.filter((atom) => isPolymerAtom(atom) && atom.element.toUpperCase() !== 'H');
+  if (polymer.length === 0) return [];
+
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const atom of polymer) {
+    const p = position(atom);
+    for (let d = 0; d < 3; d++) {
+      min[d] = Math.min(min[d], p[d]);
+      max[d] = Math.max(max[d], p[d]);
+    }
+  }
+  const extent = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+  const spacing = Math.max(options.gridSpacing ?? 1, extent / (maxPoints - 1));
+  const size = [0, 1, 2].map((d) => Math.min(maxPoints, Math.floor((max[d] - min[d]) / spacing) + 1));
+  const [nx, ny, nz] = size;
+  const index = (i: number, j: number, k: number) => (i * ny + j) * nz + k;
+  const inside = (i: number, j: number, k: number) => i >= 0 && j >= 0 && k >= 0 && i < nx && j < ny && k < nz;
+  const pointAt = (i: number, j: number, k: number): Vec3 => [
+    min[0] + i * spacing,
+    min[1] + j * spacing,
+    min[2] + k * spacing,
+  ];
+
+  // Mark grid points within van der Waals radii as polymer
+  const occupied = new Uint8Array(nx * ny * nz);
+  for (const atom of polymer) {
+    const p = position(atom);
+    const r = vdwRadius(atom);
+    forEachGridPointNear(p, r, min, spacing, size, (i, j, k) => {
+      if (distance(pointAt(i, j, k), p) <= r) occupied[index(i, j, k)] = 1;
+    });
+  }
+
+  // Buriedness: directions along which polymer is hit both ways
+  const buriedness = new Uint8Array(nx * ny * nz);
+  for (let i = 0; i < nx; i++) {
+    for (let j = 0; j < ny; j++) {
+      for (let k = 0; k < nz; k++) {
+        if (occupied[index(i, j, k)]) continue;
+        let enclosed = 0;
+        for (const [di, dj, dk] of SCAN_DIRECTIONS) {
+          const steps = Math.ceil(maxScanDistance / (spacing * Math.hypot(di, dj, dk)));
+          const hits = (sign: number) => {
+            for (let s = 1; s <= steps; s++) {
+              const a = i + sign * s * di;
+              const b = j + sign * s * dj;
+              const c = k + sign * s * dk;
+              if (!inside(a, b, c)) return false;
+              if (occupied[index(a, b, c)]) return true;
+            }
+            return false;
+          };
+          if (hits(1) && hits(-1)) enclosed++;
+        }
+        buriedness[index(i, j, k)] = enclosed;
+      }
+    }
+  }
+
+  // Connected components (26-neighbourhood) of buried points
+  const label = new Int32Array(nx * ny * nz);
+  const clusters: number[][] = [];
+  for (let start = 0; start < label.length; start++) {
+    if (occupied[start] || buriedness[start] < minBuriedness || label[start]) continue;
+    const cluster = [start];
+    label[start] = clusters.length + 1;
+    for (let c = 0; c < cluster.length; c++) {
+      const cell = cluster[c];
+      const i = Math.floor(cell / (ny * nz));
+      const j = Math.floor(cell / nz) % ny;
+      const k = cell % nz;
+      for (let di = -1; di <= 1; di++) {
+        for (let dj = -1; dj <= 1; dj++) {
+          for (let dk = -1; dk <= 1; dk++) {
+            if (!inside(i + di, j + dj, k + dk)) continue;
+            const neighbor = index(i + di, j + dj, k + dk);
+            if (occupied[neighbor] || buriedness[neighbor] < minBuriedness || label[neighbor]) continue;
+            label[neighbor] = clusters.length + 1;
+            cluster.push(neighbor);
+          }
+        }
+      }
+    }
+    clusters.push(cluster);
+  }
+
+  const ligandAtoms = atoms.filter(isLigandAtom);
+  const cellVolume = spacing ** 3;
+  const kept = clusters
+    .map((cells, c) => ({ cells, label: c + 1 }))
+    .filter(({ cells }) => cells.length * cellVolume >= minVolume)
+    .sort((a, b) => b.cells.length - a.cells.length)
+    .slice(0, maxPockets);
+
+  return kept.map(({ cells, label: pocketLabel }, p) => {
+    const points = cells.map((cell) =>
+      pointAt(Math.floor(cell / (ny * nz)), Math.floor(cell / nz) % ny, cell % nz)
+    );
+
+    // Lining residues: polymer atoms touching a pocket grid point
+    const contacts: Array<[Atom, number]> = [];
+    for (const atom of polymer) {
+      const p0 = position(atom);
+      const reach = vdwRadius(atom) + spacing;
+      let nearest = Infinity;
+      forEachGridPointNear(p0, reach, min, spacing, size, (i, j, k) => {
+        if (label[index(i, j, k)] === pocketLabel) nearest = Math.min(nearest, distance(pointAt(i, j, k), p0));
+      });
+      if (nearest <= reach) contacts.push([atom, nearest]);
+    }
+
+    // Ligands with an atom on a pocket grid point
+    const ligandIds = new Set<string>();
+    for (const atom of ligandAtoms) {
+      const [i, j, k] = [0, 1, 2].map((d) => Math.round((position(atom)[d] - min[d]) / spacing));
+      if (inside(i, j, k) && label[index(i, j, k)] === pocketLabel) {
+        ligandIds.add(`${atom.residue}:${atom.chain}:${atom.residueSeq}`);
+      }
+    }
+
+    return {
+      id: p + 1,
+      volume: cells.length * cellVolume,
+      center: mean(points),
+      buriedness: cells.reduce((sum, cell) => sum + buriedness[cell], 0) / cells.length,
+      residues: collectResidues(contacts),
+      ligandIds: Array.from(ligandIds),
+    };
+  });
+}
+
+function forEachGridPointNear(
+  p: Vec3,
+  radius: number,
+  min: Vec3,
+  spacing: number,
+  size: number[],
+  callback: (i: number, j: number, k: number) => void
+): void {
+  const lo = [0, 1, 2].map((d) => Math.max(0, Math.ceil((p[d] - radius - min[d]) / spacing)));
+  const hi = [0, 1, 2].map((d) => Math.min(size[d] - 1, Math.floor((p[d] + radius - min[d]) / spacing)));
+  for (let i = lo[0]; i <= hi[0]; i++) {
+    for (let j = lo[1]; j <= hi[1]; j++) {
+      for (let k = lo[2]; k <= hi[2]; k++) {
+        callback(i, j, k);
+      }
+    }
+  }
+}
+
+/**
+ * Hash of points in cubic cells for nearest-distance queries within a cutoff
+ */
+class NeighborGrid {
+  private cells = new Map<string, Vec3[]>();
+
+  constructor(points: Vec3[], private cellSize: number) {
+    for (const p of points) {
+      const key = this.key(p.map((v) => Math.floor(v / cellSize)) as Vec3);
+      const cell = this.cells.get(key);
+      if (cell) cell.push(p);
+      else this.cells.set(key, [p]);
+    }
+  }
+
+  private key([i, j, k]: Vec3): string {
+    return `${i},${j},${k}`;
+  }
+
+  /**
+   * Distance to the nearest point, Infinity when none lies within the cutoff
+   */
+  nearest(p: Vec3, cutoff: number): number {
+    const reach = Math.ceil(cutoff / this.cellSize);
+    const [ci, cj, ck] = p.map((v) => Math.floor(v / this.cellSize));
+    let best = Infinity;
+    for (let i = ci - reach; i <= ci + reach; i++) {
+      for (let j = cj - reach; j <= cj + reach; j++) {
+        for (let k = ck - reach; k <= ck + reach; k++) {
+          for (const q of this.cells.get(this.key([i, j, k])) ?? []) {
+            best = Math.min(best, distance(p, q));
+          }
+        }
+      }
+    }
+    return best <= cutoff ? best : Infinity;
+  }
+}
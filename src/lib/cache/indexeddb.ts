@@ -78,6 +78,26 @@ interface CacheDB extends DBSchema {
   };
 }
 
+/**
+ * Approximate stored size in bytes; typed arrays and buffers count their
+ * byte length rather than their JSON representation
+ */
+function estimateSize(data: unknown): number {
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  if (typeof data === 'string') {
+    return new Blob([data]).size;
+  }
+  if (Array.isArray(data)) {
+    return data.reduce((total: number, item) => total + estimateSize(item), 0);
+  }
+  if (data && typeof data === 'object') {
+    return Object.entries(data).reduce((total, [key, value]) => total + key.length + estimateSize(value), 0);
+  }
+  return String(data).length;
+}
+
 /**
  * IndexedDB Cache Manager
  * Provides type-safe caching with automatic cleanup and metrics
@@ -237,7 +257,7 @@ export class IndexedDBCache {
   async cacheData<T>(key: string, data: T, tags?: string[]): Promise<void> {
     await this.ensureInitialized();
 
-    const size = new Blob([JSON.stringify(data)]).size;
+    const size = estimateSize(data);
     await this.ensureQuota(size);
 
     const entry: CacheEntry<T> = {
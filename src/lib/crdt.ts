@@ -0,0 +1,166 @@
+/**
+ * CRDT Primitives
+ * Replicated data types for the shared session document. Replicas that have
+ * applied the same operations hold the same state, whatever order the
+ * operations arrived in and however often they were applied
+ */
+
+import type { CrdtStamp } from '@/types/collaboration';
+
+/**
+ * Total order of stamps: by clock, then by replica ID
+ */
+export function compareStamps(a: CrdtStamp, b: CrdtStamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  if (a.replica === b.replica) return 0;
+  return a.replica < b.replica ? -1 : 1;
+}
+
+export function stampKey(stamp: CrdtStamp): string {
+  return `${stamp.clock}@${stamp.replica}`;
+}
+
+interface Register {
+  value: unknown;
+  stamp: CrdtStamp;
+}
+
+interface LWWRecord {
+  presence: { alive: boolean; stamp: CrdtStamp };
+  fields: Map<string, Register>;
+}
+
+/**
+ * Map of records whose fields are last-writer-wins registers. Concurrent
+ * edits to different fields of a record both survive, and a delete only
+ * hides the record until a later write
+ */
+export class LWWRecordMap<T extends object> {
+  private records = new Map<string, LWWRecord>();
+
+  /**
+   * Write fields of a record. Returns whether anything changed
+   */
+  set(key: string, fields: Partial<T>, stamp: CrdtStamp): boolean {
+    let record = this.records.get(key);
+    if (!record) {
+      record = { presence: { alive: true, stamp }, fields: new Map() };
+      this.records.set(key, record);
+    }
+
+    let changed = this.updatePresence(record, true, stamp);
+    for (const [field, value] of Object.entries(fields)) {
+      const current = record.fields.get(field);
+      if (!current || compareStamps(stamp, current.stamp) > 0) {
+        record.fields.set(field, { value, stamp });
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  delete(key: string, stamp: CrdtStamp): boolean {
+    let record = this.records.get(key);
+    if (!record) {
+      record = { presence: { alive: false, stamp }, fields: new Map() };
+      this.records.set(key, record);
+      return false;
+    }
+    return this.updatePresence(record, false, stamp);
+  }
+
+  /**
+   * Fields of a live record. May be partial when a replica has seen an edit
+   * to a record before the write that created it
+   */
+  get(key: string): Partial<T> | undefined {
+    const record = this.records.get(key);
+    if (!record?.presence.alive) return undefined;
+
+    const value: Record<string, unknown> = {};
+    record.fields.forEach((register, field) => {
+      value[field] = register.value;
+    });
+    return value as Partial<T>;
+  }
+
+  keys(): string[] {
+    return Array.from(this.records.keys()).filter((key) => this.records.get(key)!.presence.alive);
+  }
+
+  private updatePresence(record: LWWRecord, alive: boolean, stamp: CrdtStamp): boolean {
+    if (compareStamps(stamp, record.presence.stamp) <= 0) return false;
+    const changed = record.presence.alive !== alive;
+    record.presence = { alive, stamp };
+    return changed;
+  }
+}
+
+interface SequenceElement<T> {
+  id: CrdtStamp;
+  value: T;
+  deleted: boolean;
+}
+
+/**
+ * Replicated growable array (RGA). Each element is identified by the stamp
+ * of its insert and placed after the element it was inserted after; among
+ * elements inserted after the same one, newer stamps come first. Deleted
+ * elements stay as tombstones so later inserts can still refer to them
+ */
+export class RGASequence<T> {
+  private elements: SequenceElement<T>[] = [];
+  private byKey = new Map<string, SequenceElement<T>>();
+
+  has(id: CrdtStamp): boolean {
+    return this.byKey.has(stampKey(id));
+  }
+
+  /**
+   * Insert a value after an element, or at the start for `null`. The
+   * reference element must already be present. Returns false for an element
+   * that was inserted before
+   */
+  insert(after: CrdtStamp | null, id: CrdtStamp, value: T): boolean {
+    const key = stampKey(id);
+    if (this.byKey.has(key)) return false;
+
+    let index = 0;
+    if (after) {
+      const reference = this.byKey.get(stampKey(after));
+      if (!reference) {
+        throw new Error(`Unknown sequence element ${stampKey(after)}`);
+      }
+      index = this.elements.indexOf(reference) + 1;
+    }
+
+    // Skip newer concurrent inserts at the same place and everything
+    // inserted after them, which is newer still
+    while (index < this.elements.length && compareStamps(this.elements[index].id, id) > 0) {
+      index++;
+    }
+
+    const element = { id, value, deleted: false };
+    this.elements.splice(index, 0, element);
+    this.byKey.set(key, element);
+    return true;
+  }
+
+  delete(id: CrdtStamp): boolean {
+    const element = this.byKey.get(stampKey(id));
+    if (!element || element.deleted) return false;
+    element.deleted = true;
+    return true;
+  }
+
+  values(): T[] {
+    return this.elements.filter((element) => !element.deleted).map((element) => element.value);
+  }
+
+  /**
+   * IDs of the visible elements, in order
+   */
+  ids(): CrdtStamp[] {
+    return this.elements.filter((element) => !element.deleted).map((element) => element.id);
+  }
+}
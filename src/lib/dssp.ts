@@ -0,0 +1,352 @@
+/**
+ * DSSP Secondary Structure Assignment
+ *
+ * Kabsch & Sander (1983) assignment from backbone hydrogen bond energies, for
+ * structures without HELIX/SHEET records (predicted models, simulation frames)
+ * - H alpha helix, G 3-10 helix, I pi helix
+ * - E extended strand in a ladder, B isolated beta bridge
+ * - T hydrogen bonded turn, S bend, '-' loop
+ * - Priority H > B > E > G > I > T > S
+ */
+
+import type { SecondaryStructureElement } from './pdb-parser';
+
+export type SecondaryStructureCode = 'H' | 'G' | 'I' | 'E' | 'B' | 'T' | 'S' | '-';
+
+type Vec3 = [number, number, number];
+
+/**
+ * Backbone atom with its residue, from any atom source
+ */
+export interface BackboneAtom {
+  chainId: string;
+  residueSeq: number;
+  insertionCode?: string;
+  residueName: string;
+  name: string;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface BackboneResidue {
+  chainId: string;
+  residueSeq: number;
+  insertionCode?: string;
+  residueName: string;
+  N: Vec3;
+  CA: Vec3;
+  C: Vec3;
+  O: Vec3;
+  H?: Vec3; // Placed from the previous peptide bond when absent
+}
+
+const BACKBONE_NAMES = new Set(['N', 'CA', 'C', 'O', 'H']);
+const COUPLING = 0.084 * 332; // kcal/mol, partial charges times dimensionality factor
+const MIN_ENERGY = -9.9;
+const HBOND_CUTOFF = -0.5; // kcal/mol
+const PEPTIDE_BOND_MAX = 2.5; // Å, longer C-N means a chain break
+const CA_CUTOFF_SQ = 9 * 9; // Å², no hydrogen bond between residues further apart
+const BEND_ANGLE = 70; // Degrees
+
+/**
+ * Group backbone atoms into residues in input order; residues missing N, CA,
+ * C or O are dropped and only the first alternate location of an atom is used
+ */
+export function backboneResidues(atoms: BackboneAtom[]): BackboneResidue[] {
+  const residues: BackboneResidue[] = [];
+  let key = '';
+  let partial: Partial<Record<'N' | 'CA' | 'C' | 'O' | 'H', Vec3>> = {};
+  let current: BackboneAtom | null = null;
+
+  const flush = () => {
+    if (current && partial.N && partial.CA && partial.C && partial.O) {
+      residues.push({
+        chainId: current.chainId,
+        residueSeq: current.residueSeq,
+        insertionCode: current.insertionCode || undefined,
+        residueName: current.residueName,
+        N: partial.N,
+        CA: partial.CA,
+        C: partial.C,
+        O: partial.O,
+        H: partial.H,
+      });
+    }
+  };
+
+  for (const atom of atoms) {
+    const atomKey = `${atom.chainId}:${atom.residueSeq}:${atom.insertionCode ?? ''}`;
+    if (atomKey !== key) {
+      flush();
+      key = atomKey;
+      partial = {};
+      current = atom;
+    }
+
+    const name = atom.name === 'HN' ? 'H' : atom.name;
+    if (BACKBONE_NAMES.has(name) && !partial[name as keyof typeof partial]) {
+      partial[name as keyof typeof partial] = [atom.x, atom.y, atom.z];
+    }
+  }
+  flush();
+
+  return residues;
+}
+
+/**
+ * Assign a DSSP code to each residue
+ */
+export function assignSecondaryStructure(residues: BackboneResidue[]): SecondaryStructureCode[] {
+  const n = residues.length;
+  const codes: SecondaryStructureCode[] = new Array(n).fill('-');
+  if (n === 0) return codes;
+
+  // breakAfter[i]: residues i and i + 1 are not peptide bonded
+  const breakAfter = residues.map(
+    (residue, i) =>
+      i === n - 1 ||
+      residues[i + 1].chainId !== residue.chainId ||
+      distance(residue.C, residues[i + 1].N) > PEPTIDE_BOND_MAX
+  );
+  const hydrogens = residues.map((residue, i) => amideHydrogen(residues, breakAfter, i));
+  const acceptors = hydrogenBondAcceptors(residues, hydrogens);
+
+  // C=O of residue i bonded to N-H of residue j
+  const hbond = (i: number, j: number) => i >= 0 && j >= 0 && i < n && j < n && acceptors[j].includes(i);
+  const continuous = (from: number, to: number) => {
+    if (from < 0 || to >= n) return false;
+    for (let k = from; k < to; k++) {
+      if (breakAfter[k]) return false;
+    }
+    return true;
+  };
+  const turn = (size: number, i: number) => continuous(i, i + size) && hbond(i, i + size);
+
+  // Alpha helices: two consecutive 4-turns
+  for (let i = 1; i < n; i++) {
+    if (turn(4, i - 1) && turn(4, i)) {
+      for (let k = i; k < i + 4; k++) codes[k] = 'H';
+    }
+  }
+
+  assignBridges(n, hbond, continuous, codes);
+
+  // 3-10 and pi helices only where nothing of higher priority was assigned
+  for (const [size, code] of [[3, 'G'], [5, 'I']] as const) {
+    for (let i = 1; i < n; i++) {
+      if (!turn(size, i - 1) || !turn(size, i)) continue;
+      let free = true;
+      for (let k = i; k < i + size; k++) {
+        if (codes[k] !== '-' && codes[k] !== code) free = false;
+      }
+      if (free) {
+        for (let k = i; k < i + size; k++) codes[k] = code;
+      }
+    }
+  }
+
+  for (const size of [3, 4, 5]) {
+    for (let i = 0; i < n; i++) {
+      if (!turn(size, i)) continue;
+      for (let k = i + 1; k < i + size; k++) {
+        if (codes[k] === '-') codes[k] = 'T';
+      }
+    }
+  }
+
+  for (let i = 2; i < n - 2; i++) {
+    if (codes[i] !== '-' || !continuous(i - 2, i + 2)) continue;
+    const before = subtract(residues[i].CA, residues[i - 2].CA);
+    const after = subtract(residues[i + 2].CA, residues[i].CA);
+    if (angle(before, after) > BEND_ANGLE) codes[i] = 'S';
+  }
+
+  return codes;
+}
+
+/**
+ * Helices, strands and turns as parser elements, one per run of equal codes.
+ * Isolated bridges and bends have no PDB record equivalent and are left out.
+ */
+export function secondaryStructureElements(
+  residues: BackboneResidue[],
+  codes: SecondaryStructureCode[]
+): SecondaryStructureElement[] {
+  const elements: SecondaryStructureElement[] = [];
+  const counts = { helix: 0, sheet: 0, turn: 0 };
+  const helixClass: Partial<Record<SecondaryStructureCode, number>> = { H: 1, I: 3, G: 5 };
+
+  let start = 0;
+  for (let i = 1; i <= residues.length; i++) {
+    const runEnds =
+      i === residues.length || codes[i] !== codes[start] || residues[i].chainId !== residues[start].chainId;
+    if (!runEnds) continue;
+
+    const code = codes[start];
+    const type = code === 'E' ? 'sheet' : code === 'T' ? 'turn' : helixClass[code] ? 'helix' : null;
+    if (type) {
+      counts[type]++;
+      elements.push({
+        type,
+        id: String(counts[type]),
+        start: residueRef(residues[start]),
+        end: residueRef(residues[i - 1]),
+        helixClass: helixClass[code],
+      });
+    }
+    start = i;
+  }
+
+  return elements;
+}
+
+/**
+ * Helper: Mark residues in beta ladders (E) and isolated bridges (B)
+ */
+function assignBridges(
+  n: number,
+  hbond: (i: number, j: number) => boolean,
+  continuous: (from: number, to: number) => boolean,
+  codes: SecondaryStructureCode[]
+): void {
+  interface Ladder {
+    parallel: boolean;
+    i: [number, number]; // First strand, ascending
+    j: [number, number]; // Partner strand, in the order it pairs with i
+    bridges: number;
+  }
+
+  const ladders: Ladder[] = [];
+
+  for (let i = 1; i < n - 1; i++) {
+    for (let j = i + 3; j < n - 1; j++) {
+      if (!continuous(i - 1, i + 1) || !continuous(j - 1, j + 1)) continue;
+
+      const parallel = (hbond(i - 1, j) && hbond(j, i + 1)) || (hbond(j - 1, i) && hbond(i, j + 1));
+      const antiparallel = (hbond(i, j) && hbond(j, i)) || (hbond(i - 1, j + 1) && hbond(j - 1, i + 1));
+      if (!parallel && !antiparallel) continue;
+
+      const step = parallel ? 1 : -1;
+      const ladder = ladders.find(
+        (candidate) => candidate.parallel === parallel && candidate.i[1] === i - 1 && candidate.j[1] === j - step
+      );
+      if (ladder) {
+        ladder.i[1] = i;
+        ladder.j[1] = j;
+        ladder.bridges++;
+      } else {
+        ladders.push({ parallel, i: [i, i], j: [j, j], bridges: 1 });
+      }
+    }
+  }
+
+  // Join ladders across beta bulges: a gap of at most 1 on one strand and 4 on the other
+  for (let a = 0; a < ladders.length; a++) {
+    for (let b = a + 1; b < ladders.length; b++) {
+      const first = ladders[a];
+      const second = ladders[b];
+      if (first.parallel !== second.parallel) continue;
+
+      const gapI = second.i[0] - first.i[1] - 1;
+      const gapJ = first.parallel ? second.j[0] - first.j[1] - 1 : first.j[1] - second.j[0] - 1;
+      if (gapI < 0 || gapJ < 0 || !((gapI <= 1 && gapJ <= 4) || (gapI <= 4 && gapJ <= 1))) continue;
+
+      first.i[1] = second.i[1];
+      first.j[1] = second.j[1];
+      first.bridges += second.bridges + 1;
+      ladders.splice(b, 1);
+      b = a;
+    }
+  }
+
+  for (const ladder of ladders) {
+    const code = ladder.bridges > 1 ? 'E' : 'B';
+    for (const [from, to] of [ladder.i, ladder.j]) {
+      for (let k = Math.min(from, to); k <= Math.max(from, to); k++) {
+        if (codes[k] !== 'H' && codes[k] !== 'B') codes[k] = code;
+      }
+    }
+  }
+}
+
+/**
+ * Helper: The two strongest C=O acceptors of each residue's N-H below the cutoff
+ */
+function hydrogenBondAcceptors(residues: BackboneResidue[], hydrogens: Array<Vec3 | null>): number[][] {
+  const best = residues.map(() => [] as Array<{ index: number; energy: number }>);
+
+  for (let donor = 0; donor < residues.length; donor++) {
+    const hydrogen = hydrogens[donor];
+    if (!hydrogen) continue;
+    const { N, CA } = residues[donor];
+
+    for (let acceptor = 0; acceptor < residues.length; acceptor++) {
+      if (Math.abs(acceptor - donor) < 2) continue;
+      if (distanceSq(CA, residues[acceptor].CA) > CA_CUTOFF_SQ) continue;
+
+      const { C, O } = residues[acceptor];
+      const energy = Math.max(
+        MIN_ENERGY,
+        COUPLING * (1 / distance(O, N) + 1 / distance(C, hydrogen) - 1 / distance(O, hydrogen) - 1 / distance(C, N))
+      );
+      if (energy >= HBOND_CUTOFF) continue;
+
+      const partners = best[donor];
+      partners.push({ index: acceptor, energy });
+      partners.sort((x, y) => x.energy - y.energy);
+      if (partners.length > 2) partners.pop();
+    }
+  }
+
+  return best.map((partners) => partners.map((partner) => partner.index));
+}
+
+/**
+ * Helper: Amide hydrogen, 1 Å from N opposite the previous carbonyl; none for
+ * proline or after a chain break
+ */
+function amideHydrogen(residues: BackboneResidue[], breakAfter: boolean[], i: number): Vec3 | null {
+  const residue = residues[i];
+  if (residue.residueName === 'PRO') return null;
+  if (residue.H) return residue.H;
+  if (i === 0 || breakAfter[i - 1]) return null;
+
+  const previous = residues[i - 1];
+  const direction = subtract(previous.C, previous.O);
+  const length = Math.hypot(...direction);
+  return [
+    residue.N[0] + direction[0] / length,
+    residue.N[1] + direction[1] / length,
+    residue.N[2] + direction[2] / length,
+  ];
+}
+
+function residueRef(residue: BackboneResidue) {
+  return {
+    chainID: residue.chainId,
+    resSeq: residue.residueSeq,
+    iCode: residue.insertionCode,
+    resName: residue.residueName,
+  };
+}
+
+function subtract(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function distanceSq(a: Vec3, b: Vec3): number {
+  const dx = a[0] - b[0];
+  const dy = a[1] - b[1];
+  const dz = a[2] - b[2];
+  return dx * dx + dy * dy + dz * dz;
+}
+
+function distance(a: Vec3, b: Vec3): number {
+  return Math.sqrt(distanceSq(a, b));
+}
+
+function angle(a: Vec3, b: Vec3): number {
+  const cos = (a[0] * b[0] + a[1] * b[1] + a[2] * b[2]) / (Math.hypot(...a) * Math.hypot(...b));
+  return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+}
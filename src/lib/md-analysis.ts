@@ -0,0 +1,404 @@
+/**
+ * Trajectory Analysis
+ * RMSD after optimal superposition, per-residue RMSF, radius of gyration and
+ * hydrogen-bond occupancy over trajectory frames (positions in Å)
+ */
+
+import type { Atom } from './pdb-parser';
+import type { SimulationFrame } from './md-browser-dynamica';
+import type { TrajectoryReader } from './trajectory-parsers';
+import type { TrajectoryFrame } from '../types/md-types';
+import { atomElement, atomicMass } from './md-topology';
+import {
+  DetectionOptions,
+  HydrogenBondAtom,
+  HydrogenBondDetector
+} from '../services/interactions/hydrogen-bond-detector';
+
+export interface AnalysisFrame {
+  time: number; // ps
+  positions: ArrayLike<number>; // Å, flat [x0, y0, z0, x1, ...]
+}
+
+export interface Superposition {
+  rmsd: number; // Å
+  rotation: number[]; // 3x3 row-major, applied to mobile coordinates
+  mobileCenter: [number, number, number];
+  referenceCenter: [number, number, number];
+}
+
+export interface FitOptions {
+  reference?: number | ArrayLike<number>; // Frame index or coordinates, default frame 0
+  atoms?: number[]; // Atoms used for fitting and measuring, default all
+}
+
+export interface ResidueValue {
+  chainId: string;
+  residueSeq: number;
+  residueName: string;
+  value: number;
+}
+
+export interface HydrogenBondOccupancy {
+  donor: string; // e.g. A:SER12:OG
+  acceptor: string;
+  occupancy: number; // Fraction of frames (0-1)
+  frames: number;
+  meanDistance: number; // Å, over frames where the bond exists
+}
+
+// ============================================================================
+// Frame sources
+// ============================================================================
+
+/**
+ * Frames from the browser engine or MDSimulationService (positions in nm)
+ */
+export function framesFromSimulation(frames: SimulationFrame[]): AnalysisFrame[] {
+  return frames.map(frame => ({
+    time: frame.time,
+    positions: Float64Array.from(frame.positions, value => value * 10)
+  }));
+}
+
+/**
+ * Frames captured by BrowserMDEngine (positions in Å)
+ */
+export function framesFromTrajectory(frames: TrajectoryFrame[]): AnalysisFrame[] {
+  return frames.map(frame => ({
+    time: frame.time,
+    positions: Float64Array.from(frame.positions.flat())
+  }));
+}
+
+/**
+ * Frames of an imported trajectory file, e.g. the trajectory of an MDResult
+ */
+export function framesFromReader(reader: TrajectoryReader): AnalysisFrame[] {
+  return Array.from({ length: reader.frameCount }, (_, i) => {
+    const frame = reader.readFrame(i);
+    return { time: frame.time ?? i, positions: frame.coordinates };
+  });
+}
+
+// ============================================================================
+// Superposition
+// ============================================================================
+
+/**
+ * Optimal rigid-body superposition of mobile onto reference (Kabsch criterion,
+ * solved with Horn's quaternion method)
+ */
+export function superpose(
+  mobile: ArrayLike<number>,
+  reference: ArrayLike<number>,
+  atoms: number[] = allAtoms(mobile.length / 3)
+): Superposition {
+  if (mobile.length !== reference.length) {
+    throw new Error(`Atom count mismatch: ${mobile.length / 3} vs ${reference.length / 3}`);
+  }
+  if (atoms.length === 0) {
+    throw new Error('No atoms to superpose');
+  }
+
+  const mobileCenter = centroid(mobile, atoms);
+  const referenceCenter = centroid(reference, atoms);
+
+  // Correlation matrix S[a][b] = sum(mobile_a * reference_b) of centered coordinates
+  const S = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  let normSum = 0;
+  for (const i of atoms) {
+    for (let a = 0; a < 3; a++) {
+      const m = mobile[i * 3 + a] - mobileCenter[a];
+      normSum += m * m;
+      const r = reference[i * 3 + a] - referenceCenter[a];
+      normSum += r * r;
+      for (let b = 0; b < 3; b++) {
+        S[a * 3 + b] += m * (reference[i * 3 + b] - referenceCenter[b]);
+      }
+    }
+  }
+
+  const [Sxx, Sxy, Sxz, Syx, Syy, Syz, Szx, Szy, Szz] = S;
+  const N = [
+    [Sxx + Syy + Szz, Syz - Szy, Szx - Sxz, Sxy - Syx],
+    [Syz - Szy, Sxx - Syy - Szz, Sxy + Syx, Szx + Sxz],
+    [Szx - Sxz, Sxy + Syx, -Sxx + Syy - Szz, Syz + Szy],
+    [Sxy - Syx, Szx + Sxz, Syz + Szy, -Sxx - Syy + Szz]
+  ];
+  const { values, vectors } = symmetricEigen(N);
+  let best = 0;
+  for (let k = 1; k < 4; k++) {
+    if (values[k] > values[best]) best = k;
+  }
+  const [q0, q1, q2, q3] = vectors.map(row => row[best]);
+
+  const rotation = [
+    q0 * q0 + q1 * q1 - q2 * q2 - q3 * q3, 2 * (q1 * q2 - q0 * q3), 2 * (q1 * q3 + q0 * q2),
+    2 * (q1 * q2 + q0 * q3), q0 * q0 - q1 * q1 + q2 * q2 - q3 * q3, 2 * (q2 * q3 - q0 * q1),
+    2 * (q1 * q3 - q0 * q2), 2 * (q2 * q3 + q0 * q1), q0 * q0 - q1 * q1 - q2 * q2 + q3 * q3
+  ];
+
+  const rmsd = Math.sqrt(Math.max(0, (normSum - 2 * values[best]) / atoms.length));
+  return { rmsd, rotation, mobileCenter, referenceCenter };
+}
+
+/**
+ * Apply a superposition to every atom of a frame
+ */
+export function applySuperposition(positions: ArrayLike<number>, fit: Superposition): Float64Array {
+  const out = new Float64Array(positions.length);
+  const { rotation: R, mobileCenter: c, referenceCenter: t } = fit;
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i] - c[0];
+    const y = positions[i + 1] - c[1];
+    const z = positions[i + 2] - c[2];
+    out[i] = R[0] * x + R[1] * y + R[2] * z + t[0];
+    out[i + 1] = R[3] * x + R[4] * y + R[5] * z + t[1];
+    out[i + 2] = R[6] * x + R[7] * y + R[8] * z + t[2];
+  }
+  return out;
+}
+
+// ============================================================================
+// Analyses
+// ============================================================================
+
+/**
+ * RMSD of every frame against the reference after optimal superposition
+ */
+export function rmsdSeries(frames: AnalysisFrame[], options: FitOptions = {}): number[] {
+  const reference = referencePositions(frames, options.reference);
+  return frames.map(frame => superpose(frame.positions, reference, options.atoms).rmsd);
+}
+
+/**
+ * Per-atom RMSF about the mean structure, with every frame fitted to the reference
+ */
+export function rmsfPerAtom(frames: AnalysisFrame[], options: FitOptions = {}): Float64Array {
+  if (frames.length === 0) {
+    throw new Error('No frames to analyse');
+  }
+
+  const reference = referencePositions(frames, options.reference);
+  const fitted = frames.map(frame => applySuperposition(frame.positions, superpose(frame.positions, reference, options.atoms)));
+  const length = reference.length;
+
+  const mean = new Float64Array(length);
+  for (const positions of fitted) {
+    for (let k = 0; k < length; k++) mean[k] += positions[k] / fitted.length;
+  }
+
+  const rmsf = new Float64Array(length / 3);
+  for (const positions of fitted) {
+    for (let i = 0; i < rmsf.length; i++) {
+      for (let d = 0; d < 3; d++) {
+        const delta = positions[i * 3 + d] - mean[i * 3 + d];
+        rmsf[i] += (delta * delta) / fitted.length;
+      }
+    }
+  }
+  return rmsf.map(Math.sqrt);
+}
+
+/**
+ * Average per-atom values over each residue, in structure order
+ */
+export function perResidue(atoms: Atom[], values: ArrayLike<number>): ResidueValue[] {
+  if (atoms.length !== values.length) {
+    throw new Error(`Expected ${atoms.length} values, got ${values.length}`);
+  }
+
+  const residues: Array<ResidueValue & { count: number }> = [];
+  let currentKey = '';
+  atoms.forEach((atom, i) => {
+    const key = `${atom.chainID}:${atom.resSeq}:${atom.iCode ?? ''}`;
+    if (key !== currentKey) {
+      currentKey = key;
+      residues.push({
+        chainId: atom.chainID,
+        residueSeq: atom.resSeq,
+        residueName: atom.resName.trim(),
+        value: 0,
+        count: 0
+      });
+    }
+    const residue = residues[residues.length - 1];
+    residue.value += values[i];
+    residue.count++;
+  });
+
+  return residues.map(({ count, ...residue }) => ({ ...residue, value: residue.value / count }));
+}
+
+/**
+ * Mass-weighted radius of gyration per frame (Å)
+ */
+export function radiusOfGyrationSeries(
+  frames: AnalysisFrame[],
+  masses?: ArrayLike<number>,
+  atoms?: number[]
+): number[] {
+  return frames.map(frame => {
+    const selection = atoms ?? allAtoms(frame.positions.length / 3);
+    let totalMass = 0;
+    const center = [0, 0, 0];
+    for (const i of selection) {
+      const m = masses ? masses[i] : 1;
+      totalMass += m;
+      for (let d = 0; d < 3; d++) center[d] += m * frame.positions[i * 3 + d];
+    }
+    if (totalMass === 0) return 0;
+    for (let d = 0; d < 3; d++) center[d] /= totalMass;
+
+    let sum = 0;
+    for (const i of selection) {
+      const m = masses ? masses[i] : 1;
+      for (let d = 0; d < 3; d++) {
+        const delta = frame.positions[i * 3 + d] - center[d];
+        sum += m * delta * delta;
+      }
+    }
+    return Math.sqrt(sum / totalMass);
+  });
+}
+
+/**
+ * Atomic masses (amu) of parsed atoms
+ */
+export function atomMasses(atoms: Atom[]): Float64Array {
+  return Float64Array.from(atoms, atom => atomicMass(atomElement(atom)));
+}
+
+/**
+ * Fraction of frames in which each hydrogen bond exists, using the
+ * HydrogenBondDetector criteria on every frame
+ */
+export function hydrogenBondOccupancy(
+  atoms: Atom[],
+  frames: AnalysisFrame[],
+  options: DetectionOptions = {}
+): HydrogenBondOccupancy[] {
+  if (frames.length === 0) return [];
+
+  const template: HydrogenBondAtom[] = atoms.map(atom => ({
+    chainId: atom.chainID,
+    residueSeq: atom.resSeq,
+    residueName: atom.resName.trim(),
+    atomName: atom.name.trim(),
+    element: atomElement(atom),
+    position: [0, 0, 0]
+  }));
+
+  const counts = new Map<string, { donor: string; acceptor: string; frames: number; distance: number }>();
+  for (const frame of frames) {
+    const frameAtoms = template.map((atom, i): HydrogenBondAtom => ({
+      ...atom,
+      position: [frame.positions[i * 3], frame.positions[i * 3 + 1], frame.positions[i * 3 + 2]]
+    }));
+
+    for (const hbond of HydrogenBondDetector.detectInAtoms(frameAtoms, options)) {
+      const donor = `${hbond.donor.chainId}:${hbond.donor.residueName}${hbond.donor.residueSeq}:${hbond.donor.atomName}`;
+      const acceptor = `${hbond.acceptor.chainId}:${hbond.acceptor.residueName}${hbond.acceptor.residueSeq}:${hbond.acceptor.atomName}`;
+      const key = `${donor}|${acceptor}`;
+      const entry = counts.get(key) ?? { donor, acceptor, frames: 0, distance: 0 };
+      entry.frames++;
+      entry.distance += hbond.distance;
+      counts.set(key, entry);
+    }
+  }
+
+  return Array.from(counts.values())
+    .map(entry => ({
+      donor: entry.donor,
+      acceptor: entry.acceptor,
+      occupancy: entry.frames / frames.length,
+      frames: entry.frames,
+      meanDistance: entry.distance / entry.frames
+    }))
+    .sort((a, b) => b.occupancy - a.occupancy);
+}
+
+/**
+ * CSV text with a header row; fields containing separators are quoted
+ */
+export function toCSV(headers: string[], rows: Array<Array<string | number>>): string {
+  const field = (value: string | number) => {
+    const text = typeof value === 'number' ? String(Number(value.toFixed(4))) : value;
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map(row => row.map(field).join(',')).join('\n') + '\n';
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function allAtoms(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i);
+}
+
+function centroid(positions: ArrayLike<number>, atoms: number[]): [number, number, number] {
+  const center: [number, number, number] = [0, 0, 0];
+  for (const i of atoms) {
+    for (let d = 0; d < 3; d++) center[d] += positions[i * 3 + d] / atoms.length;
+  }
+  return center;
+}
+
+function referencePositions(frames: AnalysisFrame[], reference: FitOptions['reference'] = 0): ArrayLike<number> {
+  if (typeof reference !== 'number') return reference;
+  if (reference < 0 || reference >= frames.length) {
+    throw new Error(`Reference frame ${reference} out of range`);
+  }
+  return frames[reference].positions;
+}
+
+/**
+ * Eigen decomposition of a small symmetric matrix (cyclic Jacobi)
+ * Eigenvectors are the columns of `vectors`
+ */
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const a = matrix.map(row => [...row]);
+  const v: number[][] = a.map((_, i) => a.map((__, j) => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-22) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors: v };
+}
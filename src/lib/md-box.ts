@@ -0,0 +1,264 @@
+/**
+ * Periodic Simulation Box
+ * Box construction, minimum-image convention and coordinate wrapping
+ * Boxes are stored as lower-triangular (GROMACS-style) vectors in nm
+ */
+
+export type BoxShape = 'cubic' | 'rectangular' | 'truncated-octahedron';
+
+export type Vec3 = [number, number, number];
+
+export interface SimulationBox {
+  shape: BoxShape;
+  vectors: [Vec3, Vec3, Vec3]; // a along x, b in the xy plane (nm)
+}
+
+// Smallest edge produced by fitBox, so single atoms still get a usable box (nm)
+const MIN_BOX_EDGE = 0.5;
+
+/**
+ * Create a periodic box
+ * - cubic: edge length
+ * - rectangular: edge lengths along x, y and z
+ * - truncated-octahedron: distance between periodic images (hexagonal face separation)
+ */
+export function createBox(shape: BoxShape, size: number | Vec3): SimulationBox {
+  const lengths: Vec3 = typeof size === 'number' ? [size, size, size] : size;
+  if (lengths.some(l => !Number.isFinite(l) || l <= 0)) {
+    throw new Error('Box dimensions must be positive');
+  }
+
+  switch (shape) {
+    case 'rectangular':
+      return {
+        shape,
+        vectors: [[lengths[0], 0, 0], [0, lengths[1], 0], [0, 0, lengths[2]]]
+      };
+    case 'truncated-octahedron': {
+      const d = Math.max(...lengths);
+      return {
+        shape,
+        vectors: [
+          [d, 0, 0],
+          [d / 3, (2 * Math.SQRT2 * d) / 3, 0],
+          [-d / 3, (Math.SQRT2 * d) / 3, (Math.sqrt(6) * d) / 3]
+        ]
+      };
+    }
+    default: {
+      const edge = Math.max(...lengths);
+      return { shape: 'cubic', vectors: [[edge, 0, 0], [0, edge, 0], [0, 0, edge]] };
+    }
+  }
+}
+
+/**
+ * Smallest box of the given shape leaving at least `padding` (nm) around the coordinates,
+ * with periodic images no closer than `minImageDistance`
+ * Returns the translation that moves the coordinates to the centre of the box
+ */
+export function fitBox(
+  positions: ArrayLike<number>,
+  atomCount: number,
+  shape: BoxShape,
+  padding: number,
+  minImageDistance = MIN_BOX_EDGE
+): { box: SimulationBox; translation: Vec3 } {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < atomCount; i++) {
+    for (let d = 0; d < 3; d++) {
+      min[d] = Math.min(min[d], positions[i * 3 + d]);
+      max[d] = Math.max(max[d], positions[i * 3 + d]);
+    }
+  }
+  if (atomCount === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+
+  const center: Vec3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  let radius = 0;
+  for (let i = 0; i < atomCount; i++) {
+    radius = Math.max(radius, Math.hypot(
+      positions[i * 3] - center[0],
+      positions[i * 3 + 1] - center[1],
+      positions[i * 3 + 2] - center[2]
+    ));
+  }
+
+  // Rectangular boxes follow the extent per axis; other shapes must hold the solute in any orientation
+  const minEdge = Math.max(minImageDistance, MIN_BOX_EDGE);
+  const box = shape === 'rectangular'
+    ? createBox(shape, [
+      Math.max(max[0] - min[0] + 2 * padding, minEdge),
+      Math.max(max[1] - min[1] + 2 * padding, minEdge),
+      Math.max(max[2] - min[2] + 2 * padding, minEdge)
+    ])
+    : createBox(shape, Math.max(2 * radius + 2 * padding, minEdge));
+
+  const boxMid = boxCenter(box);
+  return {
+    box,
+    translation: [boxMid[0] - center[0], boxMid[1] - center[1], boxMid[2] - center[2]]
+  };
+}
+
+/**
+ * Box volume (nm^3)
+ */
+export function boxVolume(box: SimulationBox): number {
+  const [a, b, c] = box.vectors;
+  return a[0] * b[1] * c[2];
+}
+
+/**
+ * Geometric centre of the unit cell
+ */
+export function boxCenter(box: SimulationBox): Vec3 {
+  const [a, b, c] = box.vectors;
+  return [(a[0] + b[0] + c[0]) / 2, (a[1] + b[1] + c[1]) / 2, (a[2] + b[2] + c[2]) / 2];
+}
+
+/**
+ * Shortest distance between an atom and its own periodic image (nm)
+ * Cutoffs must not exceed half of this value
+ */
+export function shortestImageDistance(box: SimulationBox): number {
+  return Math.min(...box.vectors.map(v => Math.hypot(v[0], v[1], v[2])));
+}
+
+/**
+ * Scale all box vectors isotropically
+ */
+export function scaleBox(box: SimulationBox, factor: number): SimulationBox {
+  return {
+    shape: box.shape,
+    vectors: box.vectors.map(v => [v[0] * factor, v[1] * factor, v[2] * factor]) as [Vec3, Vec3, Vec3]
+  };
+}
+
+/**
+ * Replace a displacement vector (in place) by its shortest periodic image
+ * Returns the squared length of the result
+ */
+export function applyMinimumImage(box: SimulationBox, delta: Vec3 | Float64Array): number {
+  const [a, b, c] = box.vectors;
+
+  // Reduce along c, then b, then a (valid for lower-triangular boxes)
+  let shift = Math.round(delta[2] / c[2]);
+  delta[0] -= shift * c[0];
+  delta[1] -= shift * c[1];
+  delta[2] -= shift * c[2];
+  shift = Math.round(delta[1] / b[1]);
+  delta[0] -= shift * b[0];
+  delta[1] -= shift * b[1];
+  shift = Math.round(delta[0] / a[0]);
+  delta[0] -= shift * a[0];
+
+  let r2 = delta[0] * delta[0] + delta[1] * delta[1] + delta[2] * delta[2];
+  if (box.shape !== 'truncated-octahedron') {
+    return r2;
+  }
+
+  // Triclinic reduction is not always the shortest image; check the neighbouring cells
+  let best0 = delta[0];
+  let best1 = delta[1];
+  let best2 = delta[2];
+  for (let i = -1; i <= 1; i++) {
+    for (let j = -1; j <= 1; j++) {
+      for (let k = -1; k <= 1; k++) {
+        if (i === 0 && j === 0 && k === 0) continue;
+        const x = delta[0] + i * a[0] + j * b[0] + k * c[0];
+        const y = delta[1] + j * b[1] + k * c[1];
+        const z = delta[2] + k * c[2];
+        const d2 = x * x + y * y + z * z;
+        if (d2 < r2 - 1e-12) {
+          r2 = d2;
+          best0 = x;
+          best1 = y;
+          best2 = z;
+        }
+      }
+    }
+  }
+  delta[0] = best0;
+  delta[1] = best1;
+  delta[2] = best2;
+  return r2;
+}
+
+/**
+ * Map a point into the primary cell
+ * Rectangular boxes use the unit brick [0, L); truncated octahedra use the
+ * compact Wigner-Seitz cell around the box centre
+ */
+export function wrapPoint(box: SimulationBox, point: Vec3): Vec3 {
+  const center = boxCenter(box);
+  const delta: Vec3 = [point[0] - center[0], point[1] - center[1], point[2] - center[2]];
+
+  if (box.shape === 'truncated-octahedron') {
+    applyMinimumImage(box, delta);
+    return [center[0] + delta[0], center[1] + delta[1], center[2] + delta[2]];
+  }
+
+  const [a, b, c] = box.vectors;
+  return [
+    point[0] - Math.floor(point[0] / a[0]) * a[0],
+    point[1] - Math.floor(point[1] / b[1]) * b[1],
+    point[2] - Math.floor(point[2] / c[2]) * c[2]
+  ];
+}
+
+/**
+ * Map a point into the parallelepiped spanned by the box vectors
+ * Returns the wrapped position and the integer image (cell) the point came from
+ */
+export function wrapToUnitCell(box: SimulationBox, point: Vec3): { position: Vec3; image: Vec3 } {
+  const [a, b, c] = box.vectors;
+  const nz = Math.floor(point[2] / c[2]);
+  const y = point[1] - nz * c[1];
+  const ny = Math.floor(y / b[1]);
+  const x = point[0] - nz * c[0] - ny * b[0];
+  const nx = Math.floor(x / a[0]);
+
+  return {
+    position: [x - nx * a[0], y - ny * b[1], point[2] - nz * c[2]],
+    image: [nx, ny, nz]
+  };
+}
+
+/**
+ * Wrap flat [x, y, z, ...] coordinates into the primary cell
+ * When molecules are given each one is shifted as a whole by the image of its centroid,
+ * so bonds are never split across the boundary
+ */
+export function wrapPositions(
+  box: SimulationBox,
+  positions: ArrayLike<number>,
+  molecules?: number[][]
+): Float32Array {
+  const atomCount = Math.floor(positions.length / 3);
+  const wrapped = Float32Array.from(positions);
+  const groups = molecules ?? Array.from({ length: atomCount }, (_, i) => [i]);
+
+  for (const group of groups) {
+    if (group.length === 0) continue;
+
+    const centroid: Vec3 = [0, 0, 0];
+    for (const i of group) {
+      for (let d = 0; d < 3; d++) {
+        centroid[d] += positions[i * 3 + d] / group.length;
+      }
+    }
+
+    const image = wrapPoint(box, centroid);
+    for (const i of group) {
+      for (let d = 0; d < 3; d++) {
+        wrapped[i * 3 + d] += image[d] - centroid[d];
+      }
+    }
+  }
+
+  return wrapped;
+}
@@ -4,6 +4,8 @@
  * Limitations: <500 atoms, <30s wall-clock time, educational demos only
  */
 
+import { SimulationBox, boxVolume, wrapPositions } from './md-box';
+
 export interface ForceFieldType {
   type: 'AMBER' | 'CHARMM' | 'OPLS';
   parameters?: Record<string, number>;
@@ -22,6 +24,7 @@ export interface DynamicaConfig {
   ensemble: 'NVE' | 'NVT' | 'NPT';
   maxSteps: number;
   outputFrequency: number; // frames per 100 steps
+  box?: SimulationBox; // Periodic box (nm); open boundaries when omitted
 }
 
 export interface SimulationFrame {
@@ -33,6 +36,7 @@ export interface SimulationFrame {
   kineticEnergy: number; // kJ/mol
   temperature: number; // K
   pressure?: number; // bar
+  box?: SimulationBox; // Periodic box at this frame (nm)
 }
 
 export interface SimulationProgress {
@@ -108,6 +112,10 @@ export class WebDynamicaEngine {
       throw new Error('Step count must be between 100 and 10,000');
     }
 
+    if (config.box && !(boxVolume(config.box) > 0)) {
+      throw new Error('Simulation box must have a positive volume');
+    }
+
     // Initialize positions (mock - real implementation would use WebDynamica library)
     console.log('WebDynamica initialized:', {
       atoms: atomCount,
@@ -115,6 +123,7 @@ export class WebDynamicaEngine {
       integrator: config.integrator.type,
       temperature: config.temperature,
       timestep: config.integrator.timestep,
+      box: config.box?.shape ?? 'none',
     });
   }
 
@@ -307,11 +316,16 @@ export class WebDynamicaEngine {
     }
 
     // Mock frame data
-    const positions = new Float32Array(this.atoms * 3);
+    let positions: Float32Array = new Float32Array(this.atoms * 3);
     for (let i = 0; i < positions.length; i++) {
       positions[i] = Math.random() * 10 - 5; // Mock positions
     }
 
+    // Frames are reported inside the primary cell
+    if (this.config.box) {
+      positions = wrapPositions(this.config.box, positions);
+    }
+
     const time = this.currentStep * this.config.integrator.timestep / 1000; // ps
     const potentialEnergy = -1000 + Math.random() * 100; // kJ/mol
     const kineticEnergy = 300 + Math.random() * 50; // kJ/mol
@@ -324,6 +338,7 @@ export class WebDynamicaEngine {
       potentialEnergy,
       kineticEnergy,
       temperature,
+      box: this.config.box,
     };
   }
 
@@ -355,13 +370,17 @@ export class WebDynamicaEngine {
   private exportPDB(): string {
     let pdb = 'REMARK WebDynamica Browser MD Trajectory\n';
     pdb += `REMARK ${this.frames.length} frames\n`;
+    if (this.frames[0].box) {
+      pdb += `${formatCryst1(this.frames[0].box)}\n`;
+    }
 
     this.frames.forEach((frame, modelNum) => {
       pdb += `MODEL ${modelNum + 1}\n`;
+      // PDB coordinates are in Angstroms
       for (let i = 0; i < this.atoms; i++) {
-        const x = frame.positions[i * 3];
-        const y = frame.positions[i * 3 + 1];
-        const z = frame.positions[i * 3 + 2];
+        const x = frame.positions[i * 3] * 10;
+        const y = frame.positions[i * 3 + 1] * 10;
+        const z = frame.positions[i * 3 + 2] * 10;
         pdb += `ATOM  ${(i + 1).toString().padStart(5)} CA   ALA A${(i + 1).toString().padStart(4)}    `;
         pdb += `${x.toFixed(3).padStart(8)}${y.toFixed(3).padStart(8)}${z.toFixed(3).padStart(8)}\n`;
       }
@@ -379,7 +398,11 @@ export class WebDynamicaEngine {
 
     this.frames.forEach(frame => {
       xyz += `${this.atoms}\n`;
-      xyz += `Step ${frame.step} Time ${frame.time.toFixed(3)} ps\n`;
+      xyz += `Step ${frame.step} Time ${frame.time.toFixed(3)} ps`;
+      if (frame.box) {
+        xyz += ` Box ${frame.box.vectors.flat().map(v => v.toFixed(4)).join(' ')} nm`;
+      }
+      xyz += '\n';
       for (let i = 0; i < this.atoms; i++) {
         const x = frame.positions[i * 3];
         const y = frame.positions[i * 3 + 1];
@@ -392,6 +415,27 @@ export class WebDynamicaEngine {
   }
 }
 
+/**
+ * CRYST1 record for a periodic box (lengths in Angstroms, angles in degrees)
+ */
+function formatCryst1(box: SimulationBox): string {
+  const [a, b, c] = box.vectors;
+  const length = (v: number[]) => Math.hypot(v[0], v[1], v[2]);
+  const angle = (u: number[], v: number[]) =>
+    (Math.acos((u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / (length(u) * length(v))) * 180) / Math.PI;
+
+  return (
+    'CRYST1' +
+    (length(a) * 10).toFixed(3).padStart(9) +
+    (length(b) * 10).toFixed(3).padStart(9) +
+    (length(c) * 10).toFixed(3).padStart(9) +
+    angle(b, c).toFixed(2).padStart(7) +
+    angle(a, c).toFixed(2).padStart(7) +
+    angle(a, b).toFixed(2).padStart(7) +
+    ' P 1           1'
+  );
+}
+
 /**
  * Create WebDynamica engine instance
  */
@@ -4,6 +4,22 @@
  */
 
 import { BrowserMDConfig, TrajectoryFrame, MDResult } from '../types/md-types';
+import { parsePDB } from './pdb-parser';
+import { atomicMass, buildMDSystem, findMolecules } from './md-topology';
+import { SimulationBox, boxVolume, scaleBox, shortestImageDistance, wrapPositions } from './md-box';
+import { solvate } from './md-solvent';
+import { createMDSimulation, MDSimulationService } from '../services/md-simulation';
+
+const BOLTZMANN = 0.0083144626; // kJ/mol/K
+const BAR_PER_KJ_MOL_NM3 = 16.6054;
+const THERMOSTAT_TAU = 0.1; // ps, Berendsen coupling time
+const LANGEVIN_FRICTION = 1.0; // 1/ps
+const BAROSTAT_TAU = 1.0; // ps
+const BAROSTAT_INTERVAL = 10; // steps between box rescaling
+const COMPRESSIBILITY = 4.5e-5; // 1/bar, water
+const REFERENCE_PRESSURE = 1.0; // bar
+const BOX_PADDING = 1.0; // nm added around the solute for the NPT volume
+const RELAXATION_ITERATIONS = 200;
 
 export interface WebDynamicaOptions {
   containerId: string;
@@ -21,6 +37,20 @@ export class BrowserMDEngine {
   private frames: TrajectoryFrame[] = [];
   private animationFrameId: number | null = null;
 
+  // Integrator state (nm, nm/ps, kJ/mol/nm, amu)
+  private mdService: MDSimulationService | null = null;
+  private atomCount = 0;
+  private positions: Float64Array = new Float64Array(0);
+  private velocities: Float64Array = new Float64Array(0);
+  private forces: Float64Array = new Float64Array(0);
+  private masses: Float64Array = new Float64Array(0);
+  private potentialEnergy = 0;
+  private virial = 0;
+  private volume = 0;
+  private box: SimulationBox | null = null;
+  private minImageDistance = 0; // Twice the longest cutoff (nm)
+  private molecules: number[][] = [];
+
   constructor(private options: WebDynamicaOptions) {}
 
   /**
@@ -69,13 +99,75 @@ export class BrowserMDEngine {
       );
     }
 
+    const structure = await parsePDB(pdbData, { includeWater: true });
+    if (structure.atoms.length === 0) {
+      throw new Error('No atoms found in structure data');
+    }
+    // Limits apply to the parsed system, not only the declared atom count
+    this.validateConfig({ ...config, atomCount: structure.atoms.length });
+
+    const system = buildMDSystem(structure.atoms);
+    this.mdService = createMDSimulation();
+    this.mdService.setForceField(config.forceField ?? 'AMBER');
+
     this.config = config;
     this.frames = [];
+    this.atomCount = system.atoms.length;
+    this.masses = system.masses;
+    this.box = null;
+    let { positions, topology } = system;
+
+    if (config.solvent) {
+      const { vdw, coulomb } = this.mdService.getForceField()!;
+      this.minImageDistance = 2 * Math.max(vdw.cutoff ?? 1.2, coulomb.cutoff);
+      const solvated = solvate(positions, this.atomCount, topology, {
+        ...config.solvent,
+        minImageDistance: Math.max(config.solvent.minImageDistance ?? 0, this.minImageDistance)
+      });
+
+      // The atom limit applies to the structure; the water still counts towards the time budget
+      const estimatedTime = this.estimateWallClockTime({ ...config, atomCount: solvated.atomCount });
+      if (estimatedTime > config.maxTime) {
+        throw new Error(
+          `Solvated system of ${solvated.atomCount} atoms estimated at ${estimatedTime.toFixed(1)}s exceeds ` +
+          `browser tier limit of ${config.maxTime}s. ` +
+          `Please reduce the simulation time or use serverless tier.`
+        );
+      }
+
+      positions = Float64Array.from(solvated.positions);
+      topology = solvated.topology;
+      this.box = solvated.box;
+      this.masses = new Float64Array(solvated.atomCount);
+      this.masses.set(system.masses);
+      for (let o = this.atomCount; o < solvated.atomCount; o += 3) {
+        this.masses[o] = atomicMass('O');
+        this.masses[o + 1] = atomicMass('H');
+        this.masses[o + 2] = atomicMass('H');
+      }
+      this.atomCount = solvated.atomCount;
+    }
+
+    this.mdService.setTopology(topology);
+    this.mdService.setBox(this.box);
+    this.molecules = this.box ? findMolecules(this.atomCount, topology.bonds) : [];
+    this.forces = new Float64Array(this.atomCount * 3);
 
-    // TODO: Initialize WebDynamica library
-    // This is a stub - actual WebDynamica integration needed
-    console.log('Initializing WebDynamica with config:', config);
-    console.log('PDB data length:', pdbData.length);
+    // Relax clashes from the generic force field before assigning velocities
+    const relaxed = await this.mdService.minimize(
+      Float32Array.from(positions),
+      this.atomCount,
+      { algorithm: 'steepest-descent', maxIterations: RELAXATION_ITERATIONS, tolerance: 100, stepSize: 0.001 }
+    );
+    this.positions = Float64Array.from(relaxed.positions);
+    this.volume = this.box ? boxVolume(this.box) : this.estimateVolume();
+    this.computeForces();
+    this.initializeVelocities(config.temperature);
+
+    // Leapfrog keeps velocities half a step behind the positions
+    if (config.integrator === 'leapfrog') {
+      this.kick(-0.5 * config.timestep / 1000);
+    }
   }
 
   /**
@@ -104,7 +196,8 @@ export class BrowserMDEngine {
     if (!this.config) return;
 
     const totalTimesteps = (this.config.totalTime / this.config.timestep) * 1000;
-    const outputInterval = Math.floor(1000 / this.config.outputFrequency);
+    const stepsPerPicosecond = 1000 / this.config.timestep;
+    const outputInterval = Math.max(1, Math.round(stepsPerPicosecond / this.config.outputFrequency));
 
     for (let step = 0; step < totalTimesteps && this.isRunning; step++) {
       // Check time limit
@@ -122,11 +215,10 @@ export class BrowserMDEngine {
         await new Promise(resolve => setTimeout(resolve, 100));
       }
 
-      // Simulate MD step (stub)
-      await this.performMDStep(step);
+      this.performMDStep(step);
 
       // Output frame
-      if (step % outputInterval === 0) {
+      if ((step + 1) % outputInterval === 0) {
         const frame = this.captureFrame(step);
         this.frames.push(frame);
         this.options.onFrame?.(frame);
@@ -148,42 +240,301 @@ export class BrowserMDEngine {
   }
 
   /**
-   * Perform single MD timestep (stub)
+   * Advance the system by one timestep with the configured integrator,
+   * thermostat (NVT/NPT) and barostat (NPT)
    */
-  private async performMDStep(step: number): Promise<void> {
-    // TODO: Integrate actual WebDynamica MD step
-    // This is a placeholder for the integration
+  private performMDStep(step: number): void {
+    if (!this.config) return;
+
+    const dt = this.config.timestep / 1000; // fs -> ps
+
+    switch (this.config.integrator) {
+      case 'leapfrog':
+        this.leapfrogStep(dt);
+        break;
+      case 'langevin':
+        this.langevinStep(dt);
+        break;
+      default:
+        this.velocityVerletStep(dt);
+    }
 
-    // Simulate computation time
-    await new Promise(resolve => setTimeout(resolve, 1));
+    // Langevin dynamics thermostats itself through friction and noise
+    if (this.config.ensemble !== 'NVE' && this.config.integrator !== 'langevin') {
+      this.applyThermostat(dt);
+    }
+
+    if (this.config.ensemble === 'NPT' && (step + 1) % BAROSTAT_INTERVAL === 0) {
+      this.applyBarostat(dt * BAROSTAT_INTERVAL);
+    }
+  }
+
+  /**
+   * Velocity Verlet: half kick, drift, force update, half kick
+   */
+  private velocityVerletStep(dt: number): void {
+    this.kick(0.5 * dt);
+    this.drift(dt);
+    this.computeForces();
+    this.kick(0.5 * dt);
   }
 
   /**
-   * Capture current frame data
+   * Leapfrog: v(t+dt/2) = v(t-dt/2) + a(t)dt, then x(t+dt) = x(t) + v(t+dt/2)dt
+   */
+  private leapfrogStep(dt: number): void {
+    this.kick(dt);
+    this.drift(dt);
+    this.computeForces();
+  }
+
+  /**
+   * Langevin dynamics with the BAOAB splitting
+   */
+  private langevinStep(dt: number): void {
+    if (!this.config) return;
+
+    this.kick(0.5 * dt);
+    this.drift(0.5 * dt);
+
+    const c1 = Math.exp(-LANGEVIN_FRICTION * dt);
+    const c2 = Math.sqrt(1 - c1 * c1);
+    const kT = BOLTZMANN * this.config.temperature;
+    for (let i = 0; i < this.atomCount; i++) {
+      const sigma = c2 * Math.sqrt(kT / this.masses[i]);
+      for (let d = 0; d < 3; d++) {
+        const idx = i * 3 + d;
+        this.velocities[idx] = c1 * this.velocities[idx] + sigma * gaussianRandom();
+      }
+    }
+
+    this.drift(0.5 * dt);
+    this.computeForces();
+    this.kick(0.5 * dt);
+  }
+
+  /**
+   * v += F/m * dt
+   */
+  private kick(dt: number): void {
+    for (let i = 0; i < this.atomCount; i++) {
+      const scale = dt / this.masses[i];
+      for (let d = 0; d < 3; d++) {
+        this.velocities[i * 3 + d] += this.forces[i * 3 + d] * scale;
+      }
+    }
+  }
+
+  /**
+   * x += v * dt
+   */
+  private drift(dt: number): void {
+    for (let i = 0; i < this.positions.length; i++) {
+      this.positions[i] += this.velocities[i] * dt;
+    }
+  }
+
+  /**
+   * Evaluate forces, potential energy and virial at the current positions
+   */
+  private computeForces(): void {
+    if (!this.mdService) return;
+
+    const energy = this.mdService.calculateForces(this.positions, this.atomCount, this.forces);
+    this.potentialEnergy = energy.total;
+    this.virial = energy.virial ?? 0;
+  }
+
+  /**
+   * Draw Maxwell-Boltzmann velocities, remove centre-of-mass motion and rescale to the target temperature
+   */
+  private initializeVelocities(temperature: number): void {
+    this.velocities = new Float64Array(this.atomCount * 3);
+    if (temperature <= 0) return;
+
+    const kT = BOLTZMANN * temperature;
+    for (let i = 0; i < this.atomCount; i++) {
+      const sigma = Math.sqrt(kT / this.masses[i]);
+      for (let d = 0; d < 3; d++) {
+        this.velocities[i * 3 + d] = sigma * gaussianRandom();
+      }
+    }
+
+    this.removeCenterOfMassMotion();
+
+    const current = this.calculateTemperature();
+    if (current > 0) {
+      this.scaleVelocities(Math.sqrt(temperature / current));
+    }
+  }
+
+  private removeCenterOfMassMotion(): void {
+    const momentum = [0, 0, 0];
+    let totalMass = 0;
+    for (let i = 0; i < this.atomCount; i++) {
+      totalMass += this.masses[i];
+      for (let d = 0; d < 3; d++) {
+        momentum[d] += this.masses[i] * this.velocities[i * 3 + d];
+      }
+    }
+    if (totalMass === 0) return;
+
+    for (let i = 0; i < this.atomCount; i++) {
+      for (let d = 0; d < 3; d++) {
+        this.velocities[i * 3 + d] -= momentum[d] / totalMass;
+      }
+    }
+  }
+
+  private scaleVelocities(lambda: number): void {
+    for (let i = 0; i < this.velocities.length; i++) {
+      this.velocities[i] *= lambda;
+    }
+  }
+
+  /**
+   * Kinetic energy (kJ/mol) of a velocity set
+   */
+  private kineticEnergyOf(velocityAt: (index: number) => number): number {
+    let kinetic = 0;
+    for (let i = 0; i < this.atomCount; i++) {
+      let v2 = 0;
+      for (let d = 0; d < 3; d++) {
+        const v = velocityAt(i * 3 + d);
+        v2 += v * v;
+      }
+      kinetic += 0.5 * this.masses[i] * v2;
+    }
+    return kinetic;
+  }
+
+  /**
+   * Kinetic energy at the time of the current positions
+   * Leapfrog averages the half-step kinetic energies either side of it
+   */
+  private calculateKineticEnergy(): number {
+    const current = this.kineticEnergyOf(i => this.velocities[i]);
+    if (this.config?.integrator !== 'leapfrog') {
+      return current;
+    }
+
+    const dt = this.config.timestep / 1000;
+    const next = this.kineticEnergyOf(
+      i => this.velocities[i] + (this.forces[i] * dt) / this.masses[Math.floor(i / 3)]
+    );
+    return 0.5 * (current + next);
+  }
+
+  /**
+   * Instantaneous temperature (K) with centre-of-mass degrees of freedom removed
+   */
+  private calculateTemperature(): number {
+    const dof = Math.max(1, 3 * this.atomCount - 3);
+    return (2 * this.calculateKineticEnergy()) / (dof * BOLTZMANN);
+  }
+
+  /**
+   * Virial pressure (bar): P = (2 KE + sum r.F) / 3V
+   */
+  private calculatePressure(): number {
+    if (this.volume <= 0) return 0;
+    return ((2 * this.calculateKineticEnergy() + this.virial) / (3 * this.volume)) * BAR_PER_KJ_MOL_NM3;
+  }
+
+  /**
+   * Berendsen weak-coupling thermostat
+   */
+  private applyThermostat(dt: number): void {
+    if (!this.config) return;
+
+    const current = this.calculateTemperature();
+    if (current <= 0) return;
+
+    const lambda = Math.sqrt(1 + (dt / THERMOSTAT_TAU) * (this.config.temperature / current - 1));
+    // Bound the correction so a hot start cannot freeze or explode the system in one step
+    this.scaleVelocities(Math.min(1.25, Math.max(0.8, lambda)));
+  }
+
+  /**
+   * Berendsen barostat: isotropic scaling of coordinates and volume about the centroid
+   * A periodic box scales with them but never below twice the cutoff
+   */
+  private applyBarostat(dt: number): void {
+    const pressure = this.calculatePressure();
+    const mu3 = 1 - ((COMPRESSIBILITY * dt) / BAROSTAT_TAU) * (REFERENCE_PRESSURE - pressure);
+    let mu = Math.min(1.01, Math.max(0.99, Math.cbrt(mu3)));
+    if (this.box) {
+      mu = Math.max(mu, this.minImageDistance / shortestImageDistance(this.box));
+    }
+    if (mu === 1) return;
+
+    const center = this.centroid();
+    for (let i = 0; i < this.atomCount; i++) {
+      for (let d = 0; d < 3; d++) {
+        const idx = i * 3 + d;
+        this.positions[idx] = center[d] + (this.positions[idx] - center[d]) * mu;
+      }
+    }
+    this.volume *= mu * mu * mu;
+    if (this.box) {
+      this.box = scaleBox(this.box, mu);
+      this.mdService?.setBox(this.box);
+    }
+    this.computeForces();
+  }
+
+  private centroid(): [number, number, number] {
+    const center: [number, number, number] = [0, 0, 0];
+    for (let i = 0; i < this.atomCount; i++) {
+      for (let d = 0; d < 3; d++) {
+        center[d] += this.positions[i * 3 + d] / this.atomCount;
+      }
+    }
+    return center;
+  }
+
+  /**
+   * Volume (nm^3) of the padded bounding box around the system
+   */
+  private estimateVolume(): number {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < this.atomCount; i++) {
+      for (let d = 0; d < 3; d++) {
+        min[d] = Math.min(min[d], this.positions[i * 3 + d]);
+        max[d] = Math.max(max[d], this.positions[i * 3 + d]);
+      }
+    }
+    return [0, 1, 2].reduce((v, d) => v * (max[d] - min[d] + 2 * BOX_PADDING), 1);
+  }
+
+  /**
+   * Capture current frame data (positions in Å, energy in kJ/mol)
+   * Whole molecules are wrapped into the periodic box
    */
   private captureFrame(step: number): TrajectoryFrame {
     if (!this.config) {
       throw new Error('No configuration available');
     }
 
-    // TODO: Get actual positions from WebDynamica
-    // This is stub data
+    const coordinates = this.box ? wrapPositions(this.box, this.positions, this.molecules) : this.positions;
     const positions: number[][] = [];
-    for (let i = 0; i < this.config.atomCount; i++) {
+    for (let i = 0; i < this.atomCount; i++) {
       positions.push([
-        Math.random() * 10,
-        Math.random() * 10,
-        Math.random() * 10
+        coordinates[i * 3] * 10,
+        coordinates[i * 3 + 1] * 10,
+        coordinates[i * 3 + 2] * 10
       ]);
     }
 
     return {
-      frameNumber: step,
-      time: (step * this.config.timestep) / 1000, // convert to ps
+      frameNumber: step + 1,
+      time: ((step + 1) * this.config.timestep) / 1000, // convert to ps
       positions,
-      energy: Math.random() * -1000,
-      temperature: this.config.temperature + (Math.random() - 0.5) * 10,
-      pressure: this.config.ensemble === 'NPT' ? 1.0 + Math.random() * 0.1 : undefined
+      energy: this.potentialEnergy + this.calculateKineticEnergy(),
+      temperature: this.calculateTemperature(),
+      pressure: this.config.ensemble === 'NPT' ? this.calculatePressure() : undefined,
+      box: this.box ?? undefined
     };
   }
 
@@ -289,6 +640,15 @@ export class BrowserMDEngine {
   }
 }
 
+/**
+ * Standard normal deviate (Box-Muller)
+ */
+function gaussianRandom(): number {
+  let u = 0;
+  while (u === 0) u = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+}
+
 /**
  * Factory function for creating browser MD engine
  */
@@ -0,0 +1,242 @@
+/**
+ * Solvent Box Setup
+ * Surrounds a solute with a periodic box of TIP3P water
+ */
+
+import {
+  BoxShape,
+  SimulationBox,
+  Vec3,
+  applyMinimumImage,
+  boxCenter,
+  fitBox
+} from './md-box';
+import { TIP3P, applyWaterParameters } from './md-topology';
+import { createLinearChainTopology, type MolecularTopology } from '../services/md-simulation';
+
+export interface SolvationOptions {
+  padding?: number; // Minimum solute-box distance (nm), default 1.0
+  shape?: BoxShape; // Default cubic
+  minSoluteDistance?: number; // Water oxygens closer than this to the solute are removed (nm), default 0.25
+  minImageDistance?: number; // Grow the box so periodic images are at least this far apart (nm), e.g. twice the cutoff
+}
+
+export interface SolvatedSystem {
+  positions: Float32Array; // Solute atoms followed by O, H1, H2 of each water (nm)
+  atomCount: number;
+  soluteAtomCount: number;
+  waterCount: number;
+  box: SimulationBox;
+  topology: MolecularTopology;
+}
+
+// TIP3P geometry
+const OH_LENGTH = TIP3P.bond.r0; // nm
+const HOH_ANGLE = TIP3P.angle.theta0;
+
+// Lattice spacing giving liquid water density (33.4 molecules/nm^3)
+const WATER_SPACING = 0.3104; // nm
+const MIN_WATER_DISTANCE = 0.25; // nm, between oxygens of periodic images
+
+/**
+ * Place the solute at the centre of a new periodic box and fill the remaining space with water
+ * Without a topology the solute is treated as the service's implicit linear chain
+ */
+export function solvate(
+  positions: ArrayLike<number>,
+  atomCount: number,
+  topology: MolecularTopology | null,
+  options: SolvationOptions = {}
+): SolvatedSystem {
+  const padding = options.padding ?? 1.0;
+  const shape = options.shape ?? 'cubic';
+  const minSoluteDistance = options.minSoluteDistance ?? 0.25;
+
+  if (padding < 0) {
+    throw new Error('Solvent padding must not be negative');
+  }
+
+  const { box, translation } = fitBox(positions, atomCount, shape, padding, options.minImageDistance);
+
+  // Centre the solute in the box
+  const solute = new Float64Array(atomCount * 3);
+  for (let i = 0; i < atomCount; i++) {
+    for (let d = 0; d < 3; d++) {
+      solute[i * 3 + d] = positions[i * 3 + d] + translation[d];
+    }
+  }
+
+  const minSolute2 = minSoluteDistance * minSoluteDistance;
+  const delta = new Float64Array(3);
+  const oxygens = latticeSites(box).filter(site => {
+    for (let i = 0; i < atomCount; i++) {
+      delta[0] = solute[i * 3] - site[0];
+      delta[1] = solute[i * 3 + 1] - site[1];
+      delta[2] = solute[i * 3 + 2] - site[2];
+      if (applyMinimumImage(box, delta) < minSolute2) return false;
+    }
+    return true;
+  });
+
+  const waterCount = oxygens.length;
+  const totalAtoms = atomCount + waterCount * 3;
+  const combined = new Float32Array(totalAtoms * 3);
+  combined.set(solute);
+
+  const random = seededRandom(atomCount + waterCount);
+  oxygens.forEach((oxygen, w) => {
+    const offset = (atomCount + w * 3) * 3;
+    const [h1, h2] = waterHydrogens(random);
+    for (let d = 0; d < 3; d++) {
+      combined[offset + d] = oxygen[d];
+      combined[offset + 3 + d] = oxygen[d] + h1[d];
+      combined[offset + 6 + d] = oxygen[d] + h2[d];
+    }
+  });
+
+  return {
+    positions: combined,
+    atomCount: totalAtoms,
+    soluteAtomCount: atomCount,
+    waterCount,
+    box,
+    topology: appendWaterTopology(topology ?? createLinearChainTopology(atomCount), atomCount, waterCount)
+  };
+}
+
+/**
+ * Oxygen sites on a lattice filling the primary cell
+ */
+function latticeSites(box: SimulationBox): Vec3[] {
+  const [a, b, c] = box.vectors;
+
+  if (box.shape !== 'truncated-octahedron') {
+    // Rectangular boxes tile exactly when the spacing divides each edge
+    const counts = [a[0], b[1], c[2]].map(l => Math.max(1, Math.round(l / WATER_SPACING)));
+    const steps = [a[0] / counts[0], b[1] / counts[1], c[2] / counts[2]];
+    const sites: Vec3[] = [];
+    for (let i = 0; i < counts[0]; i++) {
+      for (let j = 0; j < counts[1]; j++) {
+        for (let k = 0; k < counts[2]; k++) {
+          sites.push([(i + 0.5) * steps[0], (j + 0.5) * steps[1], (k + 0.5) * steps[2]]);
+        }
+      }
+    }
+    return sites;
+  }
+
+  // Keep cubic lattice points inside the Wigner-Seitz cell, then drop clashes across faces
+  const center = boxCenter(box);
+  const d = a[0];
+  const reach = Math.ceil(d / WATER_SPACING);
+  const interior = d / 2 - MIN_WATER_DISTANCE;
+  const delta = new Float64Array(3);
+  const sites: Vec3[] = [];
+  const boundary: Vec3[] = [];
+
+  for (let i = -reach; i <= reach; i++) {
+    for (let j = -reach; j <= reach; j++) {
+      for (let k = -reach; k <= reach; k++) {
+        const offset: Vec3 = [i * WATER_SPACING, j * WATER_SPACING, k * WATER_SPACING];
+        delta.set(offset);
+        const r2 = applyMinimumImage(box, delta);
+        if (Math.abs(delta[0] - offset[0]) + Math.abs(delta[1] - offset[1]) + Math.abs(delta[2] - offset[2]) > 1e-9) {
+          continue; // Outside the cell
+        }
+
+        const site: Vec3 = [center[0] + offset[0], center[1] + offset[1], center[2] + offset[2]];
+        if (Math.sqrt(r2) > interior) {
+          const clashes = boundary.some(other => {
+            delta[0] = other[0] - site[0];
+            delta[1] = other[1] - site[1];
+            delta[2] = other[2] - site[2];
+            return applyMinimumImage(box, delta) < MIN_WATER_DISTANCE * MIN_WATER_DISTANCE;
+          });
+          if (clashes) continue;
+          boundary.push(site);
+        }
+        sites.push(site);
+      }
+    }
+  }
+
+  return sites;
+}
+
+/**
+ * Hydrogen offsets of a randomly oriented water
+ */
+function waterHydrogens(random: () => number): [Vec3, Vec3] {
+  // Uniform random rotation from a unit quaternion
+  const u1 = random();
+  const u2 = random() * 2 * Math.PI;
+  const u3 = random() * 2 * Math.PI;
+  const qw = Math.sqrt(1 - u1) * Math.sin(u2);
+  const qx = Math.sqrt(1 - u1) * Math.cos(u2);
+  const qy = Math.sqrt(u1) * Math.sin(u3);
+  const qz = Math.sqrt(u1) * Math.cos(u3);
+
+  const rotate = (v: Vec3): Vec3 => [
+    (1 - 2 * (qy * qy + qz * qz)) * v[0] + 2 * (qx * qy - qz * qw) * v[1] + 2 * (qx * qz + qy * qw) * v[2],
+    2 * (qx * qy + qz * qw) * v[0] + (1 - 2 * (qx * qx + qz * qz)) * v[1] + 2 * (qy * qz - qx * qw) * v[2],
+    2 * (qx * qz - qy * qw) * v[0] + 2 * (qy * qz + qx * qw) * v[1] + (1 - 2 * (qx * qx + qy * qy)) * v[2]
+  ];
+
+  return [
+    rotate([OH_LENGTH, 0, 0]),
+    rotate([OH_LENGTH * Math.cos(HOH_ANGLE), OH_LENGTH * Math.sin(HOH_ANGLE), 0])
+  ];
+}
+
+/**
+ * Append O-H bonds, the H-O-H angle and TIP3P parameters and charges for each water
+ */
+function appendWaterTopology(
+  solute: MolecularTopology,
+  soluteAtomCount: number,
+  waterCount: number
+): MolecularTopology {
+  const bonds = [...solute.bonds];
+  const angles = [...solute.angles];
+  const charges = new Float32Array(soluteAtomCount + waterCount * 3);
+  if (solute.charges) {
+    charges.set(solute.charges.subarray(0, soluteAtomCount));
+  }
+
+  const waters: Array<{ oxygen: number; hydrogens: number[] }> = [];
+  for (let w = 0; w < waterCount; w++) {
+    const o = soluteAtomCount + w * 3;
+    bonds.push([o, o + 1], [o, o + 2]);
+    angles.push([o + 1, o, o + 2]);
+    charges[o] = TIP3P.charges.oxygen;
+    charges[o + 1] = TIP3P.charges.hydrogen;
+    charges[o + 2] = TIP3P.charges.hydrogen;
+    waters.push({ oxygen: o, hydrogens: [o + 1, o + 2] });
+  }
+
+  const topology: MolecularTopology = {
+    bonds,
+    angles,
+    dihedrals: [...solute.dihedrals],
+    charges,
+    bondParameters: solute.bondParameters && [...solute.bondParameters],
+    angleParameters: solute.angleParameters && [...solute.angleParameters],
+    lennardJones: solute.lennardJones?.slice(0, soluteAtomCount)
+  };
+  applyWaterParameters(topology, soluteAtomCount + waterCount * 3, waters);
+  return topology;
+}
+
+/**
+ * Deterministic generator so repeated setups give identical boxes
+ */
+function seededRandom(seed: number): () => number {
+  let state = (seed * 2654435761) >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state / 4294967296;
+  };
+}
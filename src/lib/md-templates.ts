@@ -0,0 +1,299 @@
+/**
+ * Residue Template Matching
+ * Maps parsed PDB atoms onto the bundled residue templates and reports
+ * anything that would make the resulting topology incomplete
+ */
+
+import type { Atom } from './pdb-parser';
+import { atomElement, atomicMass } from './md-topology';
+import {
+  ATOM_ALIASES,
+  ATOM_TYPES,
+  C_TERMINUS,
+  N_TERMINUS,
+  ResidueTemplate,
+  getResidueTemplate
+} from '../data/residue-templates';
+
+export interface TemplatedAtom {
+  name: string;
+  type: string;
+  charge: number;
+  residueIndex: number;
+  x: number; // nm
+  y: number;
+  z: number;
+}
+
+export interface TemplatedResidue {
+  name: string; // Template name, e.g. HID, CYX, SOL
+  label: string; // Original chain, name and number, e.g. A:HIS57
+  chainID: string;
+  kind: ResidueTemplate['kind'];
+  start: number; // First atom index
+  count: number;
+}
+
+export interface TemplateReport {
+  unsupportedResidues: string[];
+  missingAtoms: Array<{ residue: string; atoms: string[] }>;
+  ignoredAtoms: Array<{ residue: string; atoms: string[] }>; // Heavy atoms not in the template
+  removedHydrogens: number; // Merged into united-atom types
+  rebuiltWaterHydrogens: number;
+  chainBreaks: string[];
+  disulfides: string[];
+}
+
+export interface TemplatedSystem {
+  atoms: TemplatedAtom[];
+  residues: TemplatedResidue[];
+  bonds: Array<[number, number]>;
+  report: TemplateReport;
+}
+
+export class TemplateMatchError extends Error {
+  constructor(
+    message: string,
+    public report: TemplateReport
+  ) {
+    super(message);
+    this.name = 'TemplateMatchError';
+  }
+}
+
+const PEPTIDE_BOND_MAX = 0.2; // nm
+const DISULFIDE_MAX = 0.25; // nm
+const WATER_OH = 0.09572; // nm
+const WATER_HOH = (104.52 * Math.PI) / 180;
+
+/**
+ * Mass of a (united) atom type in amu
+ */
+export function atomTypeMass(type: string): number {
+  const definition = ATOM_TYPES[type];
+  if (!definition) return atomicMass('C');
+  return atomicMass(definition.element) + definition.hydrogens * atomicMass('H');
+}
+
+/**
+ * True when the report lists problems that make the topology unusable
+ */
+export function hasBlockingIssues(report: TemplateReport): boolean {
+  return report.unsupportedResidues.length > 0 || report.missingAtoms.length > 0;
+}
+
+/**
+ * Human-readable summary of a template report
+ */
+export function formatTemplateReport(report: TemplateReport): string {
+  const lines: string[] = [];
+  if (report.unsupportedResidues.length > 0) {
+    lines.push(`Unsupported residues (${report.unsupportedResidues.length}): ${report.unsupportedResidues.join(', ')}`);
+  }
+  report.missingAtoms.forEach(({ residue, atoms }) => {
+    lines.push(`Missing atoms in ${residue}: ${atoms.join(', ')}`);
+  });
+  report.ignoredAtoms.forEach(({ residue, atoms }) => {
+    lines.push(`Atoms not in template ${residue} (ignored): ${atoms.join(', ')}`);
+  });
+  if (report.removedHydrogens > 0) {
+    lines.push(`${report.removedHydrogens} hydrogens merged into united-atom types`);
+  }
+  if (report.rebuiltWaterHydrogens > 0) {
+    lines.push(`Hydrogens rebuilt for ${report.rebuiltWaterHydrogens} waters`);
+  }
+  if (report.chainBreaks.length > 0) {
+    lines.push(`Chain breaks between: ${report.chainBreaks.join(', ')}`);
+  }
+  if (report.disulfides.length > 0) {
+    lines.push(`Disulfide bonds: ${report.disulfides.join(', ')}`);
+  }
+  return lines.length > 0 ? lines.join('\n') : 'All residues matched their templates';
+}
+
+/**
+ * Match parsed atoms (Å) to residue templates
+ * Atoms come out in template order with positions in nm; residues without a
+ * template are left out and listed in the report
+ */
+export function applyResidueTemplates(atoms: Atom[]): TemplatedSystem {
+  const report: TemplateReport = {
+    unsupportedResidues: [],
+    missingAtoms: [],
+    ignoredAtoms: [],
+    removedHydrogens: 0,
+    rebuiltWaterHydrogens: 0,
+    chainBreaks: [],
+    disulfides: []
+  };
+
+  // Group atoms by residue, keeping the first alternate location of each atom
+  const groups: Array<{ resName: string; chainID: string; label: string; atoms: Map<string, Atom> }> = [];
+  let currentKey = '';
+  for (const atom of atoms) {
+    const key = `${atom.chainID}:${atom.resSeq}:${atom.iCode ?? ''}:${atom.resName}`;
+    if (key !== currentKey) {
+      currentKey = key;
+      groups.push({
+        resName: atom.resName.trim().toUpperCase(),
+        chainID: atom.chainID,
+        label: `${atom.chainID.trim() || '_'}:${atom.resName.trim()}${atom.resSeq}${atom.iCode?.trim() ?? ''}`,
+        atoms: new Map()
+      });
+    }
+    const group = groups[groups.length - 1];
+    const name = atom.name.trim().toUpperCase();
+    if (!group.atoms.has(name)) group.atoms.set(name, atom);
+  }
+
+  const matched: Array<{ template: ResidueTemplate; chainID: string; label: string; atoms: Map<string, Atom> }> = [];
+  for (const group of groups) {
+    const template = getResidueTemplate(group.resName);
+    if (!template) {
+      report.unsupportedResidues.push(group.label);
+      continue;
+    }
+
+    const templateNames = new Set(template.atoms.map(a => a.name));
+    const aliases = { ...ATOM_ALIASES['*'], ...ATOM_ALIASES[template.name] };
+    const present = new Map<string, Atom>();
+    const ignored: string[] = [];
+
+    group.atoms.forEach((atom, name) => {
+      const mapped = templateNames.has(name) ? name : aliases[name];
+      if (mapped && templateNames.has(mapped)) {
+        present.set(mapped, atom);
+      } else if (atomElement(atom) === 'H') {
+        report.removedHydrogens++;
+      } else {
+        ignored.push(name);
+      }
+    });
+
+    if (ignored.length > 0) {
+      report.ignoredAtoms.push({ residue: group.label, atoms: ignored });
+    }
+
+    const missing = template.atoms
+      .filter(a => !a.optional && !present.has(a.name))
+      .map(a => a.name)
+      .filter(name => !(template.kind === 'water' && name !== 'OW' && present.has('OW')));
+    if (missing.length > 0) {
+      report.missingAtoms.push({ residue: group.label, atoms: missing });
+      continue;
+    }
+
+    matched.push({ template, chainID: group.chainID, label: group.label, atoms: present });
+  }
+
+  // Cysteine pairs close enough to be bonded become CYX
+  const cysteines = matched.filter(residue => residue.template.name === 'CYS');
+  const disulfidePairs: Array<[number, number]> = [];
+  for (let a = 0; a < cysteines.length; a++) {
+    for (let b = a + 1; b < cysteines.length; b++) {
+      if (cysteines[a].chainID !== cysteines[b].chainID) continue;
+      if (nmDistance(cysteines[a].atoms.get('SG')!, cysteines[b].atoms.get('SG')!) <= DISULFIDE_MAX) {
+        disulfidePairs.push([matched.indexOf(cysteines[a]), matched.indexOf(cysteines[b])]);
+        report.disulfides.push(`${cysteines[a].label}-${cysteines[b].label}`);
+      }
+    }
+  }
+  for (const pair of disulfidePairs) {
+    for (const index of pair) {
+      matched[index] = { ...matched[index], template: getResidueTemplate('CYX')! };
+    }
+  }
+
+  // Build atoms in template order
+  const system: TemplatedSystem = { atoms: [], residues: [], bonds: [], report };
+  const indexOf: Array<Map<string, number>> = [];
+
+  matched.forEach((residue, r) => {
+    const { template } = residue;
+    const previous = matched[r - 1];
+    const next = matched[r + 1];
+    const isAminoAcid = template.kind === 'amino-acid';
+    const chainStart = isAminoAcid &&
+      (!previous || previous.template.kind !== 'amino-acid' || previous.chainID !== residue.chainID);
+    const chainEnd = isAminoAcid &&
+      (!next || next.template.kind !== 'amino-acid' || next.chainID !== residue.chainID);
+
+    const start = system.atoms.length;
+    const names = new Map<string, number>();
+    const ow = residue.atoms.get('OW');
+    const rebuild = template.kind === 'water' && (!residue.atoms.has('HW1') || !residue.atoms.has('HW2'));
+    if (rebuild) report.rebuiltWaterHydrogens++;
+
+    template.atoms.forEach((templateAtom, a) => {
+      let position: [number, number, number];
+      const atom = residue.atoms.get(templateAtom.name);
+      if (atom) {
+        position = [atom.x / 10, atom.y / 10, atom.z / 10];
+      } else if (rebuild && ow) {
+        // Fixed orientation; minimization relaxes the hydrogen positions
+        const theta = a === 1 ? 0 : WATER_HOH;
+        position = [ow.x / 10 + WATER_OH * Math.cos(theta), ow.y / 10 + WATER_OH * Math.sin(theta), ow.z / 10];
+      } else {
+        return; // Optional atom absent
+      }
+
+      let { type, charge } = templateAtom;
+      const terminus = chainStart
+        ? N_TERMINUS[templateAtom.name]
+        : chainEnd && residue.atoms.has('OXT') ? C_TERMINUS[templateAtom.name] : undefined;
+      if (terminus) {
+        type = terminus.type ?? type;
+        charge = terminus.charge ?? charge;
+        if (template.name === 'PRO' && templateAtom.name === 'N') type = 'NH2';
+      }
+
+      names.set(templateAtom.name, system.atoms.length);
+      system.atoms.push({
+        name: templateAtom.name,
+        type,
+        charge,
+        residueIndex: r,
+        x: position[0],
+        y: position[1],
+        z: position[2]
+      });
+    });
+
+    for (const [a, b] of template.bonds) {
+      if (names.has(a) && names.has(b)) {
+        system.bonds.push([names.get(a)!, names.get(b)!]);
+      }
+    }
+
+    // Peptide bond to the previous residue of the chain
+    if (isAminoAcid && !chainStart) {
+      const c = indexOf[r - 1].get('C')!;
+      const n = names.get('N')!;
+      if (nmDistance(previous.atoms.get('C')!, residue.atoms.get('N')!) <= PEPTIDE_BOND_MAX) {
+        system.bonds.push([c, n]);
+      } else {
+        report.chainBreaks.push(`${previous.label}-${residue.label}`);
+      }
+    }
+
+    indexOf.push(names);
+    system.residues.push({
+      name: template.name,
+      label: residue.label,
+      chainID: residue.chainID,
+      kind: template.kind,
+      start,
+      count: system.atoms.length - start
+    });
+  });
+
+  for (const [a, b] of disulfidePairs) {
+    system.bonds.push([indexOf[a].get('SG')!, indexOf[b].get('SG')!]);
+  }
+
+  return system;
+}
+
+function nmDistance(a: Atom, b: Atom): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z) / 10;
+}
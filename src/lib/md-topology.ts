@@ -0,0 +1,280 @@
+/**
+ * MD Topology Builder
+ * Derives bonded topology, masses and formal charges from parsed PDB atoms,
+ * with TIP3P parameters for water
+ */
+
+import type { Atom } from './pdb-parser';
+import type { ForceFieldParameters, LennardJonesParameters, MolecularTopology } from '../services/md-simulation';
+
+export interface MDSystem {
+  atoms: Atom[];
+  positions: Float64Array; // nm, flat [x0, y0, z0, x1, ...]
+  masses: Float64Array; // amu
+  topology: MolecularTopology;
+}
+
+// Atomic masses (amu)
+const ATOMIC_MASSES: Record<string, number> = {
+  H: 1.008, C: 12.011, N: 14.007, O: 15.999, F: 18.998, NA: 22.990, MG: 24.305,
+  P: 30.974, S: 32.06, CL: 35.45, K: 39.098, CA: 40.078, MN: 54.938, FE: 55.845,
+  CO: 58.933, NI: 58.693, CU: 63.546, ZN: 65.38, SE: 78.971, BR: 79.904, I: 126.904
+};
+
+const ATOMIC_NUMBERS: Record<string, number> = {
+  H: 1, C: 6, N: 7, O: 8, F: 9, NA: 11, MG: 12, P: 15, S: 16, CL: 17, K: 19, CA: 20,
+  MN: 25, FE: 26, CO: 27, NI: 28, CU: 29, ZN: 30, SE: 34, BR: 35, I: 53
+};
+
+// Single-bond covalent radii (Å)
+const COVALENT_RADII: Record<string, number> = {
+  H: 0.31, C: 0.76, N: 0.71, O: 0.66, F: 0.57, P: 1.07, S: 1.05, CL: 1.02,
+  SE: 1.20, BR: 1.20, I: 1.39, FE: 1.32, ZN: 1.22, CU: 1.32, MN: 1.39, CO: 1.26, NI: 1.24
+};
+
+// Metal ions are kept as free charged particles rather than bonded to ligands
+const IONS = new Set(['NA', 'K', 'MG', 'CA', 'CL', 'ZN', 'MN', 'FE', 'CU', 'CO', 'NI']);
+
+const WATER_RESIDUES = new Set(['HOH', 'WAT', 'SOL', 'TIP3']);
+
+/**
+ * Flexible TIP3P water (Jorgensen et al. 1983; bond and angle constants from AMBER)
+ * Hydrogens have no Lennard-Jones site
+ */
+export const TIP3P: {
+  bond: ForceFieldParameters['bond'];
+  angle: ForceFieldParameters['angle'];
+  oxygen: LennardJonesParameters;
+  hydrogen: LennardJonesParameters;
+  charges: { oxygen: number; hydrogen: number };
+} = {
+  bond: { k: 462750.4, r0: 0.09572 },
+  angle: { k: 836.8, theta0: (104.52 * Math.PI) / 180 },
+  oxygen: { sigma: 0.315061, epsilon: 0.636386 },
+  hydrogen: { sigma: 0, epsilon: 0 },
+  charges: { oxygen: -0.834, hydrogen: 0.417 }
+};
+
+const BOND_TOLERANCE = 0.45; // Å added to the sum of covalent radii
+const MIN_BOND_LENGTH = 0.4; // Å, closer pairs are alternate locations
+
+/**
+ * Formal charges (e) of ionizable side chains at neutral pH, water (TIP3P) and ions
+ */
+const RESIDUE_CHARGES: Record<string, Record<string, number>> = {
+  LYS: { NZ: 1 },
+  ARG: { NH1: 0.5, NH2: 0.5 },
+  ASP: { OD1: -0.5, OD2: -0.5 },
+  GLU: { OE1: -0.5, OE2: -0.5 },
+  HOH: { O: TIP3P.charges.oxygen, H1: TIP3P.charges.hydrogen, H2: TIP3P.charges.hydrogen },
+  NA: { NA: 1 },
+  K: { K: 1 },
+  CL: { CL: -1 },
+  MG: { MG: 2 },
+  CA: { CA: 2 },
+  ZN: { ZN: 2 }
+};
+
+/**
+ * Resolve the element of an atom, falling back to the atom name when the column is blank
+ */
+export function atomElement(atom: Atom): string {
+  const element = atom.element?.trim().toUpperCase();
+  if (element) return element;
+  const match = atom.name.trim().match(/^[A-Z]+/i);
+  return match ? match[0].charAt(0).toUpperCase() : 'C';
+}
+
+/**
+ * Atomic mass (amu), carbon for unknown elements
+ */
+export function atomicMass(element: string): number {
+  return ATOMIC_MASSES[element.toUpperCase()] ?? ATOMIC_MASSES.C;
+}
+
+/**
+ * Atomic number, carbon for unknown elements
+ */
+export function atomicNumber(element: string): number {
+  return ATOMIC_NUMBERS[element.toUpperCase()] ?? ATOMIC_NUMBERS.C;
+}
+
+/**
+ * Detect covalent bonds from interatomic distances (positions in Å)
+ */
+export function inferBonds(atoms: Atom[]): Array<[number, number]> {
+  const bonds: Array<[number, number]> = [];
+  const elements = atoms.map(atomElement);
+  const radii = elements.map(e => COVALENT_RADII[e] ?? 0.76);
+
+  for (let i = 0; i < atoms.length; i++) {
+    if (IONS.has(elements[i]) && atoms[i].resName.trim() === elements[i]) continue;
+
+    for (let j = i + 1; j < atoms.length; j++) {
+      if (IONS.has(elements[j]) && atoms[j].resName.trim() === elements[j]) continue;
+      // Hydrogens carry a single bond; never bond two of them
+      if (elements[i] === 'H' && elements[j] === 'H') continue;
+
+      const dx = atoms[i].x - atoms[j].x;
+      const dy = atoms[i].y - atoms[j].y;
+      const dz = atoms[i].z - atoms[j].z;
+      const maxLength = radii[i] + radii[j] + BOND_TOLERANCE;
+      if (Math.abs(dx) > maxLength || Math.abs(dy) > maxLength || Math.abs(dz) > maxLength) continue;
+
+      const r = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (r > MIN_BOND_LENGTH && r <= maxLength) {
+        bonds.push([i, j]);
+      }
+    }
+  }
+
+  return bonds;
+}
+
+/**
+ * Enumerate angles and proper dihedrals from a bond graph
+ */
+export function buildTopologyFromBonds(
+  atomCount: number,
+  bonds: Array<[number, number]>
+): MolecularTopology {
+  const neighbors: number[][] = Array.from({ length: atomCount }, () => []);
+  for (const [i, j] of bonds) {
+    neighbors[i].push(j);
+    neighbors[j].push(i);
+  }
+
+  const angles: Array<[number, number, number]> = [];
+  for (let j = 0; j < atomCount; j++) {
+    const bonded = neighbors[j];
+    for (let a = 0; a < bonded.length; a++) {
+      for (let b = a + 1; b < bonded.length; b++) {
+        angles.push([bonded[a], j, bonded[b]]);
+      }
+    }
+  }
+
+  const dihedrals: Array<[number, number, number, number]> = [];
+  for (const [j, k] of bonds) {
+    for (const i of neighbors[j]) {
+      if (i === k) continue;
+      for (const l of neighbors[k]) {
+        if (l === j || l === i) continue;
+        dihedrals.push([i, j, k, l]);
+      }
+    }
+  }
+
+  return { bonds, angles, dihedrals };
+}
+
+/**
+ * Group atoms into molecules (connected components of the bond graph)
+ */
+export function findMolecules(atomCount: number, bonds: Array<[number, number]>): number[][] {
+  const parent = Array.from({ length: atomCount }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (const [i, j] of bonds) {
+    const rootI = find(i);
+    const rootJ = find(j);
+    if (rootI !== rootJ) parent[rootJ] = rootI;
+  }
+
+  const groups = new Map<number, number[]>();
+  for (let i = 0; i < atomCount; i++) {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(i);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Formal charges per atom from residue and atom names
+ */
+export function assignFormalCharges(atoms: Atom[]): Float32Array {
+  const charges = new Float32Array(atoms.length);
+  atoms.forEach((atom, i) => {
+    charges[i] = RESIDUE_CHARGES[atom.resName.trim().toUpperCase()]?.[atom.name.trim().toUpperCase()] ?? 0;
+  });
+  return charges;
+}
+
+/**
+ * Give water atoms, and the bonds and angles within each water, TIP3P parameters
+ * instead of the force field's generic ones
+ */
+export function applyWaterParameters(
+  topology: MolecularTopology,
+  atomCount: number,
+  waters: Array<{ oxygen: number; hydrogens: number[] }>
+): void {
+  const waterOf = new Int32Array(atomCount).fill(-1);
+  const lennardJones: Array<LennardJonesParameters | undefined> = Array.from(
+    { length: atomCount },
+    (_, i) => topology.lennardJones?.[i]
+  );
+
+  waters.forEach(({ oxygen, hydrogens }, w) => {
+    waterOf[oxygen] = w;
+    lennardJones[oxygen] = TIP3P.oxygen;
+    for (const h of hydrogens) {
+      waterOf[h] = w;
+      lennardJones[h] = TIP3P.hydrogen;
+    }
+  });
+
+  const sameWater = (...atoms: number[]) => waterOf[atoms[0]] >= 0 && atoms.every(i => waterOf[i] === waterOf[atoms[0]]);
+  topology.bondParameters = topology.bonds.map((bond, b) =>
+    sameWater(...bond) ? TIP3P.bond : topology.bondParameters?.[b]
+  );
+  topology.angleParameters = topology.angles.map((angle, a) =>
+    sameWater(...angle) ? TIP3P.angle : topology.angleParameters?.[a]
+  );
+  topology.lennardJones = lennardJones;
+}
+
+/**
+ * Build a simulation-ready system from parsed atoms (coordinates converted Å -> nm)
+ */
+export function buildMDSystem(atoms: Atom[]): MDSystem {
+  const positions = new Float64Array(atoms.length * 3);
+  const masses = new Float64Array(atoms.length);
+
+  atoms.forEach((atom, i) => {
+    positions[i * 3] = atom.x / 10;
+    positions[i * 3 + 1] = atom.y / 10;
+    positions[i * 3 + 2] = atom.z / 10;
+    masses[i] = atomicMass(atomElement(atom));
+  });
+
+  const topology = buildTopologyFromBonds(atoms.length, inferBonds(atoms));
+  topology.charges = assignFormalCharges(atoms);
+
+  // Crystal waters, often without hydrogens
+  const waters = new Map<string, { oxygen: number; hydrogens: number[] }>();
+  atoms.forEach((atom, i) => {
+    if (!WATER_RESIDUES.has(atom.resName.trim().toUpperCase())) return;
+    const key = `${atom.chainID}:${atom.resSeq}`;
+    const water = waters.get(key) ?? { oxygen: -1, hydrogens: [] };
+    if (atomElement(atom) === 'O') {
+      water.oxygen = i;
+    } else if (atomElement(atom) === 'H') {
+      water.hydrogens.push(i);
+    }
+    waters.set(key, water);
+  });
+  const withOxygen = Array.from(waters.values()).filter(water => water.oxygen >= 0);
+  if (withOxygen.length > 0) {
+    applyWaterParameters(topology, atoms.length, withOxygen);
+  }
+
+  return { atoms, positions, masses, topology };
+}
@@ -1,8 +1,10 @@
 /**
- * PDB Parser - Handles PDB and mmCIF formats
+ * PDB Parser - Handles PDB and mmCIF formats, and SDF/MOL2 small molecules
  * Optimized for large files with Web Worker support
  */
 
+import { assignSecondaryStructure, backboneResidues, secondaryStructureElements } from './dssp';
+
 export interface Atom {
   serial: number;
   name: string;
@@ -23,7 +25,7 @@ export interface Atom {
 export interface Bond {
   atom1: number;
   atom2: number;
-  order: number;
+  order: number; // 1-3, or 4 for aromatic as in MDL files
 }
 
 export interface Metadata {
@@ -52,12 +54,70 @@ export interface Statistics {
   };
 }
 
+export interface ResidueRef {
+  chainID: string;
+  resSeq: number;
+  iCode?: string;
+  resName: string;
+}
+
+export interface AtomRef extends ResidueRef {
+  atomName: string;
+}
+
+export type SecondaryStructureType = 'helix' | 'sheet' | 'turn';
+
+export interface SecondaryStructureElement {
+  type: SecondaryStructureType;
+  id: string;
+  start: ResidueRef;
+  end: ResidueRef;
+  helixClass?: number; // PDB helix class, 1 = right-handed alpha
+  sheetId?: string;
+  sense?: number; // Strand sense to the previous strand: 0 first, 1 parallel, -1 antiparallel
+}
+
+export type LinkType = 'disulfide' | 'metal' | 'covalent';
+
+export interface StructureLink {
+  type: LinkType;
+  partner1: AtomRef;
+  partner2: AtomRef;
+  distance?: number;
+}
+
+export interface SymmetryOperator {
+  id: string;
+  name?: string;
+  matrix: number[]; // 3x3 row-major rotation
+  vector: [number, number, number]; // Translation in Å
+}
+
+export interface AssemblyGenerator {
+  chains: string[];
+  operators: SymmetryOperator[];
+}
+
+export interface Assembly {
+  id: string;
+  details?: string;
+  oligomericCount?: number;
+  generators: AssemblyGenerator[];
+}
+
+export type StructureFormat = 'pdb' | 'cif' | 'sdf' | 'mol2';
+
 export interface ParsedStructure {
-  atoms: Atom[];
+  atoms: Atom[]; // Atoms of the model selected by ParseOptions.model
+  models: Atom[][]; // Every model in file order, filtered like atoms
   bonds: Bond[];
+  links: StructureLink[];
+  secondaryStructure: SecondaryStructureElement[];
+  secondaryStructureSource: 'file' | 'dssp'; // HELIX/SHEET records, or assigned when the file has none
+  assemblies: Assembly[];
   metadata: Metadata;
   statistics: Statistics;
-  format: 'pdb' | 'cif';
+  format: StructureFormat;
   parseTime: number;
 }
 
@@ -65,10 +125,11 @@ export interface ParseOptions {
   includeHydrogens?: boolean;
   includeWater?: boolean;
   includeHeteroAtoms?: boolean;
-  model?: number; // For NMR structures with multiple models
+  model?: number; // For NMR structures with multiple models, or the record of a multi-molecule SDF/MOL2
   chains?: string[]; // Parse only specific chains
   onProgress?: (progress: number, message: string) => void;
   useWorker?: boolean;
+  assignSecondaryStructure?: boolean; // DSSP when the file has no HELIX/SHEET records, default true
 }
 
 /**
@@ -97,10 +158,33 @@ export async function parsePDB(
 
   if (format === 'cif') {
     result = await parseMMCIF(content, options);
+  } else if (format === 'sdf') {
+    result = parseSDF(content, options);
+  } else if (format === 'mol2') {
+    result = parseMOL2(content, options);
   } else {
     result = await parsePDBFormat(content, options);
   }
 
+  const isPolymerFormat = format === 'pdb' || format === 'cif';
+  if (isPolymerFormat && result.secondaryStructure.length === 0 && options.assignSecondaryStructure !== false) {
+    onProgress?.(95, 'Assigning secondary structure...');
+    const residues = backboneResidues(
+      result.atoms.map((atom) => ({
+        chainId: atom.chainID,
+        residueSeq: atom.resSeq,
+        insertionCode: atom.iCode,
+        residueName: atom.resName,
+        name: atom.name,
+        x: atom.x,
+        y: atom.y,
+        z: atom.z,
+      }))
+    );
+    result.secondaryStructure = secondaryStructureElements(residues, assignSecondaryStructure(residues));
+    result.secondaryStructureSource = 'dssp';
+  }
+
   result.parseTime = Date.now() - startTime;
 
   onProgress?.(100, 'Parsing complete');
@@ -111,7 +195,7 @@ export async function parsePDB(
 /**
  * Detect file format
  */
-function detectFormat(content: string): 'pdb' | 'cif' {
+function detectFormat(content: string): StructureFormat {
   const firstLine = content.trim().split('\n')[0];
 
   // mmCIF files start with data_ or loop_
@@ -119,6 +203,16 @@ function detectFormat(content: string): 'pdb' | 'cif' {
     return 'cif';
   }
 
+  // MOL2 files are split into @<TRIPOS> records
+  if (/^@<TRIPOS>MOLECULE/m.test(content)) {
+    return 'mol2';
+  }
+
+  // Molfiles and SD files have a V2000/V3000 counts line as their fourth line
+  if (/^.{0,40}V[23]000\s*$/m.test(content.split('\n').slice(3, 4).join(''))) {
+    return 'sdf';
+  }
+
   // PDB files typically start with HEADER, TITLE, or ATOM
   return 'pdb';
 }
@@ -139,14 +233,20 @@ async function parsePDBFormat(
     onProgress
   } = options;
 
-  const atoms: Atom[] = [];
-  const bonds: Bond[] = [];
+  const modelAtoms = new Map<number, Atom[]>();
+  const conect = new Map<string, Bond>();
+  const links: StructureLink[] = [];
+  const secondaryStructure: SecondaryStructureElement[] = [];
+  const assemblies: Assembly[] = [];
   const metadata: Metadata = { id: 'UNKNOWN' };
   const chainSequences = new Map<string, string>();
 
   const lines = content.split('\n');
-  let currentModel = 0;
-  let inModel = false;
+  let currentModel = 1;
+
+  // REMARK 350 state: generator being filled and BIOMT rows of the current operator
+  let generator: AssemblyGenerator | null = null;
+  let biomtRows: number[][] = [];
 
   onProgress?.(20, 'Parsing atoms...');
 
@@ -186,6 +286,34 @@ async function parsePDBFormat(
           if (match) {
             metadata.resolution = parseFloat(match[1]);
           }
+        } else if (line.startsWith('REMARK 350')) {
+          const text = line.substring(10).trim();
+          const assembly = assemblies[assemblies.length - 1];
+
+          if (text.startsWith('BIOMOLECULE:')) {
+            assemblies.push({ id: text.substring(12).trim(), generators: [] });
+            generator = null;
+          } else if (!assembly) {
+            break;
+          } else if (/DETERMINED (BIOLOGICAL UNIT|QUATERNARY STRUCTURE):/.test(text)) {
+            assembly.details ??= text.substring(text.indexOf(':') + 1).trim();
+          } else if (text.startsWith('APPLY THE FOLLOWING TO CHAINS:')) {
+            generator = { chains: splitChainList(text.substring(30)), operators: [] };
+            assembly.generators.push(generator);
+          } else if (text.startsWith('AND CHAINS:') && generator) {
+            generator.chains.push(...splitChainList(text.substring(11)));
+          } else if (text.startsWith('BIOMT') && generator) {
+            const [, id, ...values] = text.split(/\s+/);
+            biomtRows.push(values.map(Number));
+            if (biomtRows.length === 3) {
+              generator.operators.push({
+                id,
+                matrix: biomtRows.flatMap(row => row.slice(0, 3)),
+                vector: [biomtRows[0][3], biomtRows[1][3], biomtRows[2][3]]
+              });
+              biomtRows = [];
+            }
+          }
         }
         break;
 
@@ -198,25 +326,54 @@ async function parsePDBFormat(
         );
         break;
 
-      case 'MODEL':
-        currentModel = parseInt(line.substring(10, 14).trim());
-        inModel = true;
-        if (currentModel > model) {
-          // Stop parsing if we've passed the requested model
-          i = lines.length;
-        }
+      case 'HELIX':
+        secondaryStructure.push({
+          type: 'helix',
+          id: line.substring(11, 14).trim(),
+          start: pdbResidueRef(line, 15, 19, 21, 25),
+          end: pdbResidueRef(line, 27, 31, 33, 37),
+          helixClass: parseInt(line.substring(38, 40).trim()) || undefined
+        });
         break;
 
-      case 'ENDMDL':
-        inModel = false;
+      case 'SHEET':
+        secondaryStructure.push({
+          type: 'sheet',
+          id: line.substring(7, 10).trim(),
+          sheetId: line.substring(11, 14).trim(),
+          start: pdbResidueRef(line, 17, 21, 22, 26),
+          end: pdbResidueRef(line, 28, 32, 33, 37),
+          sense: parseInt(line.substring(38, 40).trim()) || 0
+        });
+        break;
+
+      case 'SSBOND':
+        links.push({
+          type: 'disulfide',
+          partner1: { ...pdbResidueRef(line, 11, 15, 17, 21), atomName: 'SG' },
+          partner2: { ...pdbResidueRef(line, 25, 29, 31, 35), atomName: 'SG' },
+          distance: parseFloat(line.substring(73, 78).trim()) || undefined
+        });
+        break;
+
+      case 'LINK': {
+        const partner1 = { ...pdbResidueRef(line, 17, 21, 22, 26), atomName: line.substring(12, 16).trim() };
+        const partner2 = { ...pdbResidueRef(line, 47, 51, 52, 56), atomName: line.substring(42, 46).trim() };
+        links.push({
+          type: isMetalAtom(partner1) || isMetalAtom(partner2) ? 'metal' : 'covalent',
+          partner1,
+          partner2,
+          distance: parseFloat(line.substring(73, 78).trim()) || undefined
+        });
+        break;
+      }
+
+      case 'MODEL':
+        currentModel = parseInt(line.substring(10, 14).trim()) || modelAtoms.size + 1;
         break;
 
       case 'ATOM':
       case 'HETATM':
-        // Skip if not in the right model
-        if (currentModel > 0 && currentModel !== model) continue;
-        if (currentModel === 0 && model !== 1) continue;
-
         const isHetero = recordType === 'HETATM';
 
         // Skip based on options
@@ -233,11 +390,12 @@ async function parsePDBFormat(
         // Filter water
         if (!includeWater && atom.resName === 'HOH') continue;
 
-        atoms.push(atom);
+        if (!modelAtoms.has(currentModel)) modelAtoms.set(currentModel, []);
+        modelAtoms.get(currentModel)!.push(atom);
         break;
 
       case 'CONECT':
-        // Parse connectivity
+        // Parse connectivity; a partner listed twice is a double bond
         const serial = parseInt(line.substring(6, 11).trim());
         for (let j = 0; j < 4; j++) {
           const start = 11 + j * 5;
@@ -246,11 +404,13 @@ async function parsePDBFormat(
             const bondedSerial = parseInt(bonded);
             // Only add each bond once (atom1 < atom2)
             if (serial < bondedSerial) {
-              bonds.push({
-                atom1: serial,
-                atom2: bondedSerial,
-                order: 1
-              });
+              const key = `${serial}-${bondedSerial}`;
+              const bond = conect.get(key);
+              if (bond) {
+                bond.order++;
+              } else {
+                conect.set(key, { atom1: serial, atom2: bondedSerial, order: 1 });
+              }
             }
           }
         }
@@ -260,20 +420,25 @@ async function parsePDBFormat(
 
   metadata.sequence = chainSequences;
 
+  const models = Array.from(modelAtoms.values());
+  const atoms = modelAtoms.get(model) ?? [];
+
   onProgress?.(80, 'Calculating statistics...');
 
-  const statistics = calculateStatistics(atoms);
+  const statistics = calculateStatistics(atoms, Math.max(models.length, 1));
 
-  onProgress?.(90, 'Inferring bonds...');
+  onProgress?.(90, 'Building bonds...');
 
-  // If no CONECT records, infer bonds from distance
-  if (bonds.length === 0 && atoms.length > 0) {
-    inferBonds(atoms, bonds);
-  }
+  const bonds = buildBonds(atoms, Array.from(conect.values()), links);
 
   return {
     atoms,
+    models,
     bonds,
+    links,
+    secondaryStructure,
+    secondaryStructureSource: 'file',
+    assemblies,
     metadata,
     statistics,
     format: 'pdb',
@@ -303,6 +468,23 @@ function parseAtomLine(line: string): Atom {
   };
 }
 
+/**
+ * Residue reference from fixed columns: residue name, chain, sequence number
+ * and the insertion code right after it
+ */
+function pdbResidueRef(line: string, nameStart: number, chainStart: number, seqStart: number, seqEnd: number): ResidueRef {
+  return {
+    resName: line.substring(nameStart, nameStart + 3).trim(),
+    chainID: line.substring(chainStart, chainStart + 1).trim(),
+    resSeq: parseInt(line.substring(seqStart, seqEnd).trim()),
+    iCode: line.substring(seqEnd, seqEnd + 1).trim() || undefined
+  };
+}
+
+function splitChainList(text: string): string[] {
+  return text.split(',').map(chain => chain.trim()).filter(chain => chain.length > 0);
+}
+
 /**
  * Parse mmCIF format
  */
@@ -310,94 +492,655 @@ async function parseMMCIF(
   content: string,
   options: ParseOptions = {}
 ): Promise<ParsedStructure> {
-  const { onProgress } = options;
+  const {
+    includeHydrogens = true,
+    includeWater = false,
+    includeHeteroAtoms = true,
+    model = 1,
+    chains,
+    onProgress
+  } = options;
 
   onProgress?.(20, 'Parsing mmCIF data blocks...');
 
-  // Simplified mmCIF parser - production would use a proper CIF parser library
+  const { id, categories } = parseCIFBlock(content);
+  const metadata: Metadata = { id: id || 'UNKNOWN' };
+
+  const single = (category: string, field: string) => cifValue(categories.get(category), 0, field);
+  metadata.title = single('_struct', 'title');
+  metadata.method = single('_exptl', 'method');
+  const resolution = single('_refine', 'ls_d_res_high');
+  if (resolution) metadata.resolution = parseFloat(resolution);
+  const keywords = single('_struct_keywords', 'text');
+  if (keywords) metadata.keywords = keywords.split(',').map(k => k.trim());
+
+  onProgress?.(50, 'Parsing atoms...');
+
+  const modelAtoms = new Map<number, Atom[]>();
+  const atomSite = categories.get('_atom_site');
+  for (let row = 0; atomSite && row < atomSite.rows.length; row++) {
+    const value = (field: string) => cifValue(atomSite, row, field);
+
+    if (value('group_PDB') === 'HETATM' && !includeHeteroAtoms) continue;
+
+    const atom: Atom = {
+      serial: parseInt(value('id') ?? '0'),
+      name: value('label_atom_id') ?? value('auth_atom_id') ?? '',
+      altLoc: value('label_alt_id'),
+      resName: value('label_comp_id') ?? '',
+      chainID: value('label_asym_id') ?? value('auth_asym_id') ?? '',
+      resSeq: parseInt(value('label_seq_id') ?? value('auth_seq_id') ?? '0'),
+      iCode: value('pdbx_PDB_ins_code'),
+      x: parseFloat(value('Cartn_x') ?? '0'),
+      y: parseFloat(value('Cartn_y') ?? '0'),
+      z: parseFloat(value('Cartn_z') ?? '0'),
+      occupancy: parseFloat(value('occupancy') ?? '1.0'),
+      tempFactor: parseFloat(value('B_iso_or_equiv') ?? '0'),
+      element: value('type_symbol') ?? '',
+      charge: value('pdbx_formal_charge')
+    };
+
+    if (chains && !chains.includes(atom.chainID)) continue;
+    if (!includeHydrogens && atom.element === 'H') continue;
+    if (!includeWater && atom.resName === 'HOH') continue;
+
+    const modelNum = parseInt(value('pdbx_PDB_model_num') ?? '1');
+    if (!modelAtoms.has(modelNum)) modelAtoms.set(modelNum, []);
+    modelAtoms.get(modelNum)!.push(atom);
+  }
+
+  const models = Array.from(modelAtoms.values());
+  const atoms = modelAtoms.get(model) ?? [];
+
+  onProgress?.(80, 'Parsing annotations...');
+
+  const secondaryStructure = parseCIFSecondaryStructure(categories);
+  const links = parseCIFLinks(categories);
+  const assemblies = parseCIFAssemblies(categories);
+
+  onProgress?.(90, 'Calculating statistics...');
+
+  const statistics = calculateStatistics(atoms, Math.max(models.length, 1));
+  const bonds = buildBonds(atoms, [], links);
+
+  return {
+    atoms,
+    models,
+    bonds,
+    links,
+    secondaryStructure,
+    secondaryStructureSource: 'file',
+    assemblies,
+    metadata,
+    statistics,
+    format: 'cif',
+    parseTime: 0
+  };
+}
+
+// ============================================================================
+// Small molecules (SDF / MOL2)
+// ============================================================================
+
+const SDF_CHARGE_CODES: Record<number, number> = { 1: 3, 2: 2, 3: 1, 5: -1, 6: -2, 7: -3 };
+
+/**
+ * Parse an SD file (or single molfile, V2000 or V3000); each record is a model
+ * named after its header line, with bond orders and formal charges
+ */
+function parseSDF(content: string, options: ParseOptions = {}): ParsedStructure {
+  const records = content.split(/^\$\$\$\$[^\n]*\n?/m).filter(record => /V[23]000/.test(record));
+  if (records.length === 0) {
+    throw new Error('No molfile records found');
+  }
+
+  const molecules = records.map(record =>
+    /^.*V3000\s*$/m.test(record.split('\n')[3] ?? '') ? parseMolfileV3000(record) : parseMolfileV2000(record)
+  );
+  return smallMoleculeStructure(molecules, 'sdf', options);
+}
+
+interface SmallMolecule {
+  name: string;
+  atoms: Atom[];
+  bonds: Bond[];
+}
+
+function parseMolfileV2000(record: string): SmallMolecule {
+  const lines = record.split('\n');
+  const name = lines[0].trim() || 'LIG';
+  const atomCount = parseInt(lines[3].substring(0, 3));
+  const bondCount = parseInt(lines[3].substring(3, 6));
+  if (Number.isNaN(atomCount) || Number.isNaN(bondCount)) {
+    throw new Error(`Invalid molfile counts line in ${name}`);
+  }
+
   const atoms: Atom[] = [];
+  for (let i = 0; i < atomCount; i++) {
+    const line = lines[4 + i] ?? '';
+    const element = line.substring(31, 34).trim();
+    atoms.push(smallMoleculeAtom(i + 1, element, parseFloat(line.substring(0, 10)), parseFloat(line.substring(10, 20)),
+      parseFloat(line.substring(20, 30)), SDF_CHARGE_CODES[parseInt(line.substring(36, 39))] ?? 0));
+  }
+
   const bonds: Bond[] = [];
-  const metadata: Metadata = { id: 'UNKNOWN' };
+  for (let i = 0; i < bondCount; i++) {
+    const line = lines[4 + atomCount + i] ?? '';
+    bonds.push({
+      atom1: parseInt(line.substring(0, 3)),
+      atom2: parseInt(line.substring(3, 6)),
+      order: parseInt(line.substring(6, 9)) || 1
+    });
+  }
 
-  const lines = content.split('\n');
-  let inAtomSite = false;
-  let columnMap: Map<string, number> = new Map();
+  // Any M  CHG line replaces the atom block charges
+  const chargeLines = lines.slice(4 + atomCount + bondCount).filter(line => line.startsWith('M  CHG'));
+  if (chargeLines.length > 0) {
+    atoms.forEach(atom => (atom.charge = undefined));
+    for (const line of chargeLines) {
+      const entries = line.substring(9).trim().split(/\s+/).map(Number);
+      for (let i = 0; i + 1 < entries.length; i += 2) {
+        const atom = atoms[entries[i] - 1];
+        if (atom) atom.charge = formatCharge(entries[i + 1]);
+      }
+    }
+  }
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
+  return { name, atoms, bonds };
+}
 
-    if (i % 1000 === 0) {
-      const progress = 20 + (i / lines.length) * 70;
-      onProgress?.(progress, `Processing line ${i}/${lines.length}...`);
+function parseMolfileV3000(record: string): SmallMolecule {
+  const lines = record.split('\n');
+  const name = lines[0].trim() || 'LIG';
+  const atoms: Atom[] = [];
+  const bonds: Bond[] = [];
+  let block: 'atom' | 'bond' | null = null;
+
+  for (const line of lines) {
+    if (!line.startsWith('M  V30 ')) continue;
+    const fields = line.substring(7).trim().split(/\s+/);
+
+    if (fields[0] === 'BEGIN') {
+      block = fields[1] === 'ATOM' ? 'atom' : fields[1] === 'BOND' ? 'bond' : null;
+    } else if (fields[0] === 'END') {
+      block = null;
+    } else if (block === 'atom') {
+      const charge = fields.find(field => field.startsWith('CHG='));
+      atoms.push(smallMoleculeAtom(parseInt(fields[0]), fields[1], parseFloat(fields[2]), parseFloat(fields[3]),
+        parseFloat(fields[4]), charge ? parseInt(charge.substring(4)) : 0));
+    } else if (block === 'bond') {
+      bonds.push({ atom1: parseInt(fields[2]), atom2: parseInt(fields[3]), order: parseInt(fields[1]) || 1 });
     }
+  }
 
-    // Extract metadata
-    if (line.startsWith('data_')) {
-      metadata.id = line.substring(5).trim();
-    } else if (line.startsWith('_struct.title')) {
-      metadata.title = lines[i + 1]?.trim().replace(/^['"]|['"]$/g, '');
-    } else if (line.startsWith('_refine.ls_d_res_high')) {
-      metadata.resolution = parseFloat(lines[i + 1]?.trim() || '0');
-    }
+  return { name, atoms, bonds };
+}
 
-    // Parse atom_site loop
-    if (line.startsWith('loop_')) {
-      inAtomSite = false;
-      columnMap.clear();
-    } else if (line.startsWith('_atom_site.')) {
-      inAtomSite = true;
-      const columnName = line.split('.')[1].split(/\s/)[0];
-      columnMap.set(columnName, columnMap.size);
-    } else if (inAtomSite && !line.startsWith('_') && !line.startsWith('#')) {
-      if (line.length === 0) {
-        inAtomSite = false;
-        continue;
+const MOL2_BOND_ORDERS: Record<string, number> = { '1': 1, '2': 2, '3': 3, ar: 4, am: 1 };
+
+/**
+ * Parse a Tripos MOL2 file; each @<TRIPOS>MOLECULE is a model. Formal
+ * charges come from UNITY_ATOM_ATTR records, else quaternary N.4 nitrogens
+ */
+function parseMOL2(content: string, options: ParseOptions = {}): ParsedStructure {
+  const blocks = content.split(/^@<TRIPOS>MOLECULE\s*$/m).slice(1);
+  if (blocks.length === 0) {
+    throw new Error('No @<TRIPOS>MOLECULE records found');
+  }
+
+  const molecules = blocks.map((block): SmallMolecule => {
+    const sections = new Map<string, string[]>();
+    let section = 'MOLECULE';
+    for (const line of block.split('\n')) {
+      const header = line.match(/^@<TRIPOS>(\w+)/);
+      if (header) {
+        section = header[1];
+        sections.set(section, []);
+      } else if (line.trim() && !line.startsWith('#')) {
+        sections.set(section, [...(sections.get(section) ?? []), line]);
       }
+    }
 
-      const values = line.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) || [];
-
-      const atom: Atom = {
-        serial: parseInt(values[columnMap.get('id') || 0] || '0'),
-        name: (values[columnMap.get('label_atom_id') || 0] || '').replace(/['"]/g, ''),
-        resName: (values[columnMap.get('label_comp_id') || 0] || '').replace(/['"]/g, ''),
-        chainID: (values[columnMap.get('label_asym_id') || 0] || '').replace(/['"]/g, ''),
-        resSeq: parseInt(values[columnMap.get('label_seq_id') || 0] || '0'),
-        x: parseFloat(values[columnMap.get('Cartn_x') || 0] || '0'),
-        y: parseFloat(values[columnMap.get('Cartn_y') || 0] || '0'),
-        z: parseFloat(values[columnMap.get('Cartn_z') || 0] || '0'),
-        occupancy: parseFloat(values[columnMap.get('occupancy') || 0] || '1.0'),
-        tempFactor: parseFloat(values[columnMap.get('B_iso_or_equiv') || 0] || '0'),
-        element: (values[columnMap.get('type_symbol') || 0] || '').replace(/['"]/g, '')
-      };
-
-      atoms.push(atom);
+    const name = sections.get('MOLECULE')?.[0]?.trim() || 'LIG';
+    const formalCharges = new Map<number, number>();
+    const attributes = sections.get('UNITY_ATOM_ATTR') ?? [];
+    for (let i = 0; i < attributes.length; i++) {
+      const [atomId, count] = attributes[i].trim().split(/\s+/).map(Number);
+      for (const attribute of attributes.slice(i + 1, i + 1 + count)) {
+        const [key, value] = attribute.trim().split(/\s+/);
+        if (key === 'charge') formalCharges.set(atomId, parseInt(value));
+      }
+      i += count;
     }
-  }
 
-  onProgress?.(90, 'Calculating statistics...');
+    const atoms = (sections.get('ATOM') ?? []).map(line => {
+      const [id, atomName, x, y, z, type, substId, substName] = line.trim().split(/\s+/);
+      const serial = parseInt(id);
+      const element = type.split('.')[0];
+      const atom = smallMoleculeAtom(serial, element === 'Du' || element === 'LP' ? 'X' : element,
+        parseFloat(x), parseFloat(y), parseFloat(z), formalCharges.get(serial) ?? (type === 'N.4' ? 1 : 0));
+      atom.name = atomName;
+      if (substId) atom.resSeq = parseInt(substId) || 1;
+      if (substName && substName !== '****') atom.resName = substName.replace(/\d+$/, '') || atom.resName;
+      return atom;
+    });
+
+    const bonds = (sections.get('BOND') ?? []).map(line => {
+      const [, atom1, atom2, type] = line.trim().split(/\s+/);
+      return { atom1: parseInt(atom1), atom2: parseInt(atom2), order: MOL2_BOND_ORDERS[type] ?? 1 };
+    });
+
+    return { name, atoms, bonds };
+  });
 
-  const statistics = calculateStatistics(atoms);
+  return smallMoleculeStructure(molecules, 'mol2', options);
+}
+
+function smallMoleculeAtom(serial: number, element: string, x: number, y: number, z: number, charge: number): Atom {
+  return {
+    serial,
+    name: `${element.toUpperCase()}${serial}`,
+    resName: 'LIG',
+    chainID: 'A',
+    resSeq: 1,
+    x,
+    y,
+    z,
+    occupancy: 1,
+    tempFactor: 0,
+    element: element.toUpperCase(),
+    charge: charge ? formatCharge(charge) : undefined
+  };
+}
+
+/**
+ * Charge in PDB column style, e.g. "1+" or "2-"
+ */
+function formatCharge(charge: number): string | undefined {
+  return charge === 0 ? undefined : `${Math.abs(charge)}${charge > 0 ? '+' : '-'}`;
+}
+
+function smallMoleculeStructure(molecules: SmallMolecule[], format: 'sdf' | 'mol2', options: ParseOptions): ParsedStructure {
+  const { includeHydrogens = true, model = 1 } = options;
+  const keep = (atom: Atom) => includeHydrogens || atom.element !== 'H';
+
+  const models = molecules.map(molecule => molecule.atoms.filter(keep));
+  const selected = molecules[model - 1] ?? molecules[0];
+  const atoms = models[molecules.indexOf(selected)];
+  const serials = new Set(atoms.map(atom => atom.serial));
 
   return {
     atoms,
-    bonds,
-    metadata,
-    statistics,
-    format: 'cif',
+    models,
+    bonds: selected.bonds.filter(bond => serials.has(bond.atom1) && serials.has(bond.atom2)),
+    links: [],
+    secondaryStructure: [],
+    secondaryStructureSource: 'file',
+    assemblies: [],
+    metadata: { id: selected.name, title: selected.name },
+    statistics: calculateStatistics(atoms, models.length),
+    format,
     parseTime: 0
   };
 }
 
+// ============================================================================
+// mmCIF reading
+// ============================================================================
+
+interface CIFCategory {
+  fields: Map<string, number>;
+  rows: string[][];
+}
+
+interface CIFToken {
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * Split the first data block into categories; key-value items become
+ * single-row categories
+ */
+function parseCIFBlock(content: string): { id: string; categories: Map<string, CIFCategory> } {
+  const tokens = tokenizeCIF(content);
+  const categories = new Map<string, CIFCategory>();
+  let id = '';
+
+  const getCategory = (name: string) => {
+    let category = categories.get(name);
+    if (!category) {
+      category = { fields: new Map(), rows: [] };
+      categories.set(name, category);
+    }
+    return category;
+  };
+  const splitTag = (tag: string) => {
+    const dot = tag.indexOf('.');
+    return dot < 0 ? [tag, ''] : [tag.substring(0, dot), tag.substring(dot + 1)];
+  };
+  const isKeyword = (token: CIFToken) =>
+    !token.quoted && (token.value.startsWith('_') || token.value === 'loop_' || token.value.startsWith('data_'));
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    if (!token.quoted && token.value.startsWith('data_')) {
+      if (id) break; // Only the first data block
+      id = token.value.substring(5);
+      i++;
+    } else if (!token.quoted && token.value === 'loop_') {
+      i++;
+      const tags: string[] = [];
+      while (i < tokens.length && !tokens[i].quoted && tokens[i].value.startsWith('_')) {
+        tags.push(tokens[i++].value);
+      }
+      if (tags.length === 0) continue;
+
+      const category = getCategory(splitTag(tags[0])[0]);
+      tags.forEach(tag => category.fields.set(splitTag(tag)[1], category.fields.size));
+
+      let row: string[] = [];
+      while (i < tokens.length && !isKeyword(tokens[i])) {
+        row.push(tokens[i++].value);
+        if (row.length === tags.length) {
+          category.rows.push(row);
+          row = [];
+        }
+      }
+    } else if (!token.quoted && token.value.startsWith('_') && i + 1 < tokens.length) {
+      const [name, field] = splitTag(token.value);
+      const category = getCategory(name);
+      if (category.rows.length === 0) category.rows.push([]);
+      category.fields.set(field, category.fields.size);
+      category.rows[0].push(tokens[i + 1].value);
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+
+  return { id, categories };
+}
+
+/**
+ * Tokenize CIF text: bare words, quoted strings and semicolon text fields
+ */
+function tokenizeCIF(content: string): CIFToken[] {
+  const tokens: CIFToken[] = [];
+  const lines = content.split(/\r?\n/);
+  const pattern = /'(?:[^']|'(?=\S))*'|"(?:[^"]|"(?=\S))*"|\S+/g;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith(';')) {
+      const text = [line.substring(1)];
+      while (++i < lines.length && !lines[i].startsWith(';')) {
+        text.push(lines[i]);
+      }
+      tokens.push({ value: text.join('\n').trim(), quoted: true });
+      continue;
+    }
+
+    for (const match of line.matchAll(pattern)) {
+      const word = match[0];
+      if (word.startsWith('#')) break;
+      const quoted = (word.startsWith("'") && word.endsWith("'") || word.startsWith('"') && word.endsWith('"')) &&
+        word.length > 1;
+      tokens.push({ value: quoted ? word.slice(1, -1) : word, quoted });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Value of a field, undefined when absent or marked unknown ('?') / inapplicable ('.')
+ */
+function cifValue(category: CIFCategory | undefined, row: number, field: string): string | undefined {
+  const column = category?.fields.get(field);
+  if (column === undefined) return undefined;
+  const value = category!.rows[row]?.[column];
+  return value === undefined || value === '.' || value === '?' ? undefined : value;
+}
+
+function cifResidueRef(category: CIFCategory, row: number, prefix: string, insCodeField: string): ResidueRef {
+  const value = (field: string) => cifValue(category, row, field);
+  return {
+    resName: value(`${prefix}_label_comp_id`) ?? '',
+    chainID: value(`${prefix}_label_asym_id`) ?? '',
+    resSeq: parseInt(value(`${prefix}_label_seq_id`) ?? value(`${prefix}_auth_seq_id`) ?? '0'),
+    iCode: value(insCodeField)
+  };
+}
+
+function parseCIFSecondaryStructure(categories: Map<string, CIFCategory>): SecondaryStructureElement[] {
+  const elements: SecondaryStructureElement[] = [];
+
+  const conf = categories.get('_struct_conf');
+  for (let row = 0; conf && row < conf.rows.length; row++) {
+    const confType = cifValue(conf, row, 'conf_type_id') ?? '';
+    const type: SecondaryStructureType | null = confType.startsWith('HELX') ? 'helix'
+      : confType.startsWith('TURN') ? 'turn'
+      : confType.startsWith('STRN') ? 'sheet'
+      : null;
+    if (!type) continue;
+
+    elements.push({
+      type,
+      id: cifValue(conf, row, 'id') ?? String(row + 1),
+      start: cifResidueRef(conf, row, 'beg', 'pdbx_beg_PDB_ins_code'),
+      end: cifResidueRef(conf, row, 'end', 'pdbx_end_PDB_ins_code'),
+      helixClass: parseInt(cifValue(conf, row, 'pdbx_PDB_helix_class') ?? '') || undefined
+    });
+  }
+
+  // Strand sense relative to the previous strand comes from _struct_sheet_order
+  const sense = new Map<string, number>();
+  const order = categories.get('_struct_sheet_order');
+  for (let row = 0; order && row < order.rows.length; row++) {
+    const key = `${cifValue(order, row, 'sheet_id')}:${cifValue(order, row, 'range_id_2')}`;
+    sense.set(key, cifValue(order, row, 'sense') === 'parallel' ? 1 : -1);
+  }
+
+  const range = categories.get('_struct_sheet_range');
+  for (let row = 0; range && row < range.rows.length; row++) {
+    const sheetId = cifValue(range, row, 'sheet_id') ?? '';
+    const id = cifValue(range, row, 'id') ?? String(row + 1);
+    elements.push({
+      type: 'sheet',
+      id,
+      sheetId,
+      start: cifResidueRef(range, row, 'beg', 'pdbx_beg_PDB_ins_code'),
+      end: cifResidueRef(range, row, 'end', 'pdbx_end_PDB_ins_code'),
+      sense: sense.get(`${sheetId}:${id}`) ?? 0
+    });
+  }
+
+  return elements;
+}
+
+function parseCIFLinks(categories: Map<string, CIFCategory>): StructureLink[] {
+  const links: StructureLink[] = [];
+  const conn = categories.get('_struct_conn');
+
+  for (let row = 0; conn && row < conn.rows.length; row++) {
+    const connType = cifValue(conn, row, 'conn_type_id') ?? '';
+    const type: LinkType | null = connType === 'disulf' ? 'disulfide'
+      : connType === 'metalc' ? 'metal'
+      : connType.startsWith('covale') ? 'covalent'
+      : null;
+    if (!type) continue;
+
+    const partner = (n: 1 | 2): AtomRef => ({
+      ...cifResidueRef(conn, row, `ptnr${n}`, `pdbx_ptnr${n}_PDB_ins_code`),
+      atomName: cifValue(conn, row, `ptnr${n}_label_atom_id`) ?? ''
+    });
+    const distance = cifValue(conn, row, 'pdbx_dist_value');
+
+    links.push({
+      type,
+      partner1: partner(1),
+      partner2: partner(2),
+      distance: distance ? parseFloat(distance) : undefined
+    });
+  }
+
+  return links;
+}
+
+function parseCIFAssemblies(categories: Map<string, CIFCategory>): Assembly[] {
+  const operators = new Map<string, SymmetryOperator>();
+  const operList = categories.get('_pdbx_struct_oper_list');
+  for (let row = 0; operList && row < operList.rows.length; row++) {
+    const value = (field: string) => parseFloat(cifValue(operList, row, field) ?? '0');
+    const id = cifValue(operList, row, 'id') ?? String(row + 1);
+    operators.set(id, {
+      id,
+      name: cifValue(operList, row, 'name'),
+      matrix: [1, 2, 3].flatMap(r => [1, 2, 3].map(c => value(`matrix[${r}][${c}]`))),
+      vector: [value('vector[1]'), value('vector[2]'), value('vector[3]')]
+    });
+  }
+
+  const assemblies = new Map<string, Assembly>();
+  const assemblyInfo = categories.get('_pdbx_struct_assembly');
+  for (let row = 0; assemblyInfo && row < assemblyInfo.rows.length; row++) {
+    const id = cifValue(assemblyInfo, row, 'id') ?? String(row + 1);
+    const count = cifValue(assemblyInfo, row, 'oligomeric_count');
+    assemblies.set(id, {
+      id,
+      details: cifValue(assemblyInfo, row, 'details'),
+      oligomericCount: count ? parseInt(count) : undefined,
+      generators: []
+    });
+  }
+
+  const gen = categories.get('_pdbx_struct_assembly_gen');
+  for (let row = 0; gen && row < gen.rows.length; row++) {
+    const assemblyId = cifValue(gen, row, 'assembly_id') ?? '1';
+    if (!assemblies.has(assemblyId)) {
+      assemblies.set(assemblyId, { id: assemblyId, generators: [] });
+    }
+
+    const combinations = parseOperatorExpression(cifValue(gen, row, 'oper_expression') ?? '');
+    assemblies.get(assemblyId)!.generators.push({
+      chains: splitChainList(cifValue(gen, row, 'asym_id_list') ?? ''),
+      operators: combinations.map(ids => {
+        const parts = ids.map(opId => {
+          const operator = operators.get(opId);
+          if (!operator) throw new Error(`Assembly ${assemblyId} references unknown operator ${opId}`);
+          return operator;
+        });
+        return parts.reduce(composeOperators);
+      })
+    });
+  }
+
+  return Array.from(assemblies.values());
+}
+
+/**
+ * Expand an operator expression such as "1", "1,2,5-8" or "(1-60)(61-62)"
+ * into operator id lists; consecutive groups form a Cartesian product
+ */
+function parseOperatorExpression(expression: string): string[][] {
+  const groups = expression.includes('(')
+    ? Array.from(expression.matchAll(/\(([^)]*)\)/g), match => match[1])
+    : [expression];
+
+  const expanded = groups.map(group =>
+    group.split(',').flatMap(part => {
+      const [from, to] = part.trim().split('-');
+      if (to === undefined || isNaN(Number(from)) || isNaN(Number(to))) return [part.trim()];
+      return Array.from({ length: Number(to) - Number(from) + 1 }, (_, k) => String(Number(from) + k));
+    }).filter(id => id.length > 0)
+  );
+
+  return expanded.reduce<string[][]>(
+    (combinations, group) => combinations.flatMap(prefix => group.map(id => [...prefix, id])),
+    [[]]
+  ).filter(ids => ids.length > 0);
+}
+
+/**
+ * Operator applying b first, then a
+ */
+function composeOperators(a: SymmetryOperator, b: SymmetryOperator): SymmetryOperator {
+  const matrix = [0, 1, 2].flatMap(r =>
+    [0, 1, 2].map(c => a.matrix[r * 3] * b.matrix[c] + a.matrix[r * 3 + 1] * b.matrix[3 + c] + a.matrix[r * 3 + 2] * b.matrix[6 + c])
+  );
+  const [vx, vy, vz] = transformPoint(a, b.vector);
+  return {
+    id: `${a.id}x${b.id}`,
+    name: a.name && b.name ? `${a.name} * ${b.name}` : undefined,
+    matrix,
+    vector: [vx, vy, vz]
+  };
+}
+
+function transformPoint(operator: SymmetryOperator, [x, y, z]: readonly number[]): [number, number, number] {
+  const m = operator.matrix;
+  const v = operator.vector;
+  return [
+    m[0] * x + m[1] * y + m[2] * z + v[0],
+    m[3] * x + m[4] * y + m[5] * z + v[1],
+    m[6] * x + m[7] * y + m[8] * z + v[2]
+  ];
+}
+
+function isIdentityOperator(operator: SymmetryOperator): boolean {
+  const identity = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  return operator.matrix.every((value, i) => Math.abs(value - identity[i]) < 1e-6) &&
+    operator.vector.every(value => Math.abs(value) < 1e-6);
+}
+
+/**
+ * Atoms of a biological assembly. Copies made by a non-identity operator get
+ * the operator id appended to their chain, e.g. "A_2", and serials are renumbered
+ */
+export function buildAssembly(structure: ParsedStructure, assemblyId: string): Atom[] {
+  const assembly = structure.assemblies.find(a => a.id === assemblyId);
+  if (!assembly) {
+    throw new Error(`Assembly ${assemblyId} not found`);
+  }
+
+  const atoms: Atom[] = [];
+  for (const generator of assembly.generators) {
+    const chains = new Set(generator.chains);
+    const members = structure.atoms.filter(atom => chains.has(atom.chainID));
+
+    for (const operator of generator.operators) {
+      const identity = isIdentityOperator(operator);
+      for (const atom of members) {
+        const [x, y, z] = identity ? [atom.x, atom.y, atom.z] : transformPoint(operator, [atom.x, atom.y, atom.z]);
+        atoms.push({
+          ...atom,
+          serial: atoms.length + 1,
+          chainID: identity ? atom.chainID : `${atom.chainID}_${operator.id}`,
+          x,
+          y,
+          z
+        });
+      }
+    }
+  }
+
+  return atoms;
+}
+
 /**
  * Calculate structure statistics
  */
-function calculateStatistics(atoms: Atom[]): Statistics {
+function calculateStatistics(atoms: Atom[], modelCount = 1): Statistics {
   if (atoms.length === 0) {
     return {
       atomCount: 0,
       residueCount: 0,
       chainCount: 0,
-      modelCount: 1,
+      modelCount,
       heteroAtomCount: 0,
       waterCount: 0,
       bounds: {
@@ -434,7 +1177,7 @@ function calculateStatistics(atoms: Atom[]): Statistics {
     atomCount: atoms.length,
     residueCount: residues.size,
     chainCount: chains.size,
-    modelCount: 1,
+    modelCount,
     heteroAtomCount: 0, // Would need to track from parsing
     waterCount,
     bounds: {
@@ -449,6 +1192,57 @@ function calculateStatistics(atoms: Atom[]): Statistics {
   };
 }
 
+const METAL_ELEMENTS = new Set([
+  'LI', 'NA', 'K', 'RB', 'CS', 'MG', 'CA', 'SR', 'BA', 'MN', 'FE', 'CO', 'NI',
+  'CU', 'ZN', 'CD', 'HG', 'PT', 'AU', 'AG', 'MO', 'W', 'V', 'CR', 'AL', 'GA'
+]);
+
+/**
+ * Metal atom of a LINK partner; "CA" only counts as calcium in a CA residue
+ */
+function isMetalAtom(ref: AtomRef): boolean {
+  const name = ref.atomName.toUpperCase();
+  if (!METAL_ELEMENTS.has(name)) return false;
+  return name !== 'CA' || ref.resName.toUpperCase() === 'CA';
+}
+
+/**
+ * Combine explicit bonds (CONECT), resolved links and distance-inferred bonds,
+ * keeping only bonds between parsed atoms
+ */
+function buildBonds(atoms: Atom[], explicit: Bond[], links: StructureLink[]): Bond[] {
+  const serials = new Set(atoms.map(atom => atom.serial));
+  const bonds = new Map<string, Bond>();
+  const add = (bond: Bond) => {
+    if (!serials.has(bond.atom1) || !serials.has(bond.atom2)) return;
+    const key = `${Math.min(bond.atom1, bond.atom2)}-${Math.max(bond.atom1, bond.atom2)}`;
+    if (!bonds.has(key)) bonds.set(key, bond);
+  };
+
+  explicit.forEach(add);
+
+  // Resolve links to atoms; the first alternate location wins
+  const atomKey = (ref: AtomRef) => `${ref.chainID}:${ref.resSeq}:${ref.iCode ?? ''}:${ref.atomName}`;
+  const byKey = new Map<string, number>();
+  for (const atom of atoms) {
+    const key = atomKey({ ...atom, atomName: atom.name });
+    if (!byKey.has(key)) byKey.set(key, atom.serial);
+  }
+  for (const link of links) {
+    const atom1 = byKey.get(atomKey(link.partner1));
+    const atom2 = byKey.get(atomKey(link.partner2));
+    if (atom1 !== undefined && atom2 !== undefined) {
+      add({ atom1, atom2, order: 1 });
+    }
+  }
+
+  const inferred: Bond[] = [];
+  inferBonds(atoms, inferred);
+  inferred.forEach(add);
+
+  return Array.from(bonds.values());
+}
+
 /**
  * Infer bonds from atomic distances
  */
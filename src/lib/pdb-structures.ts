@@ -0,0 +1,127 @@
+/**
+ * PDB Entry Structure Rows
+ * Collections and comment threads refer to structures by row ID. A PDB entry
+ * gets a public reference row pointing at RCSB the first time anyone uses it,
+ * and every later use shares that row
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+
+export const PDB_ID_PATTERN = /^[0-9][A-Za-z0-9]{3}$/;
+export const STRUCTURE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface PdbStructureError extends Error {
+  code: 'NOT_FOUND' | 'UNAUTHORIZED' | 'VALIDATION_ERROR' | 'NETWORK_ERROR';
+  details?: unknown;
+}
+
+function createError(code: PdbStructureError['code'], message: string, details?: unknown): PdbStructureError {
+  const error = new Error(message) as PdbStructureError;
+  error.name = 'PdbStructureError';
+  error.code = code;
+  error.details = details;
+  return error;
+}
+
+export function isPdbStructureError(error: unknown): error is PdbStructureError {
+  return (error as PdbStructureError)?.name === 'PdbStructureError';
+}
+
+/**
+ * Whether an ID names a structures row (uploaded or shared) rather than a PDB entry
+ */
+export function isStructureId(id: string): boolean {
+  return STRUCTURE_ID_PATTERN.test(id);
+}
+
+/**
+ * PDB ID recorded in structures.source, if the source is one
+ */
+export function pdbIdFromSource(source: string | null): string | null {
+  return source && PDB_ID_PATTERN.test(source) ? source.toUpperCase() : null;
+}
+
+/**
+ * RCSB download URL recorded as the file_path of a PDB entry's row
+ */
+export function rcsbDownloadUrl(pdbId: string): string {
+  return `https://files.rcsb.org/download/${pdbId.toUpperCase()}.pdb`;
+}
+
+/**
+ * Row ID for a PDB entry. Without `register`, returns null when no row exists
+ * yet; with it, registers the entry for the current user after checking RCSB
+ */
+export async function resolvePdbStructure(
+  supabase: SupabaseClient<Database>,
+  pdbId: string,
+  options: { register?: boolean } = {}
+): Promise<string | null> {
+  const id = pdbId.trim().toUpperCase();
+  if (!PDB_ID_PATTERN.test(id)) {
+    throw createError('VALIDATION_ERROR', `${pdbId} is not a valid PDB ID`);
+  }
+
+  const { data: existing } = await (supabase as any)
+    .from('structures')
+    .select('id')
+    .eq('source', id)
+    .eq('file_format', 'pdb')
+    .limit(1);
+
+  if (existing?.length) {
+    return existing[0].id;
+  }
+  if (!options.register) {
+    return null;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw createError('UNAUTHORIZED', 'Must be logged in to add structures');
+
+  const url = rcsbDownloadUrl(id);
+  const fileSize = await getRemoteFileSize(url, id);
+
+  const { data: created, error } = await (supabase as any)
+    .from('structures')
+    .insert({
+      owner_id: user.id,
+      name: id,
+      structure_type: 'protein',
+      file_format: 'pdb',
+      file_path: url,
+      file_size: fileSize,
+      source: id,
+      visibility: 'public',
+    })
+    .select('id')
+    .single();
+
+  if (error || !created) throw createError('VALIDATION_ERROR', error?.message ?? `Failed to register ${id}`, error);
+
+  return created.id;
+}
+
+/**
+ * Size of a file on RCSB, which also confirms the entry exists
+ */
+async function getRemoteFileSize(url: string, pdbId: string): Promise<number> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'HEAD' });
+  } catch (error) {
+    throw createError('NETWORK_ERROR', `Could not reach RCSB for ${pdbId}`, error);
+  }
+
+  if (!response.ok) {
+    throw createError('NOT_FOUND', `PDB entry ${pdbId} not found`);
+  }
+
+  const length = parseInt(response.headers.get('content-length') || '');
+  if (length > 0) return length;
+
+  // Compressed responses may omit the length; measure the body instead
+  const body = await fetch(url).then((r) => r.text());
+  return new TextEncoder().encode(body).length;
+}
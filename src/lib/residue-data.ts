@@ -0,0 +1,126 @@
+/**
+ * Residue Data
+ *
+ * Arbitrary per-residue numbers (RMSF, conservation, mutational scores)
+ * keyed by chain and residue number, for coloring structures
+ * - Built-in sources average the B-factor or occupancy of each residue's atoms
+ * - CSV files are matched on chain and residue number
+ */
+
+import type { Atom } from '@/types/pdb';
+
+export type ResidueDataSource = 'b-factor' | 'occupancy';
+
+export type ResidueDataGradient = 'blue-white-red' | 'white-red' | 'viridis' | 'rainbow';
+
+export const RESIDUE_DATA_GRADIENTS: Record<ResidueDataGradient, { label: string; colors: string[] }> = {
+  'blue-white-red': { label: 'Blue–White–Red', colors: ['#2166ac', '#f7f7f7', '#b2182b'] },
+  'white-red': { label: 'White–Red', colors: ['#fff5f0', '#fb6a4a', '#67000d'] },
+  viridis: { label: 'Viridis', colors: ['#440154', '#3b528b', '#21908d', '#5dc963', '#fde725'] },
+  rainbow: { label: 'Rainbow', colors: ['#3361e1', '#35a845', '#f9ff00', '#ec8711', '#bf2222'] },
+};
+
+export interface ResidueDataParseResult {
+  values: Map<string, number>;
+  errors: string[]; // One per skipped line, with its line number
+}
+
+const CHAIN_HEADERS = ['chain', 'chainid', 'chain_id', 'auth_asym_id'];
+const RESIDUE_HEADERS = ['resseq', 'residue', 'resi', 'res', 'residue_number', 'resnum', 'auth_seq_id'];
+
+/**
+ * Key used to look up a residue's value
+ */
+export function residueDataKey(chainId: string, residueSeq: number): string {
+  return `${chainId}:${residueSeq}`;
+}
+
+/**
+ * Mean B-factor or occupancy of each polymer and ligand residue
+ */
+export function residueValuesFromAtoms(atoms: Atom[], source: ResidueDataSource): Map<string, number> {
+  const sums = new Map<string, { total: number; count: number }>();
+
+  for (const atom of atoms) {
+    const key = residueDataKey(atom.chain, atom.residueSeq);
+    const sum = sums.get(key) ?? { total: 0, count: 0 };
+    sum.total += source === 'b-factor' ? atom.tempFactor : atom.occupancy;
+    sum.count++;
+    sums.set(key, sum);
+  }
+
+  return new Map(Array.from(sums, ([key, { total, count }]) => [key, total / count]));
+}
+
+/**
+ * Read chain, residue number and value columns from CSV text; a header row
+ * may name the columns (chain, resSeq, then the first other column as the
+ * value), otherwise they are taken in that order
+ */
+export function parseResidueDataCSV(text: string): ResidueDataParseResult {
+  const values = new Map<string, number>();
+  const errors: string[] = [];
+  const lines = text.split(/\r?\n/);
+
+  let columns = { chain: 0, residue: 1, value: 2 };
+  const first = lines.findIndex((line) => line.trim() !== '');
+  if (first === -1) {
+    return { values, errors: ['File is empty'] };
+  }
+
+  const header = splitRow(lines[first]).map((cell) => cell.toLowerCase());
+  const hasHeader = header.some((cell) => CHAIN_HEADERS.includes(cell) || RESIDUE_HEADERS.includes(cell));
+  if (hasHeader) {
+    const chain = header.findIndex((cell) => CHAIN_HEADERS.includes(cell));
+    const residue = header.findIndex((cell) => RESIDUE_HEADERS.includes(cell));
+    const value = header.findIndex((_, i) => i !== chain && i !== residue);
+    if (chain === -1 || residue === -1 || value === -1) {
+      return { values, errors: ['Header must name a chain, a residue number and a value column'] };
+    }
+    columns = { chain, residue, value };
+  }
+
+  lines.forEach((line, i) => {
+    if (line.trim() === '' || (hasHeader && i === first)) return;
+
+    const cells = splitRow(line);
+    const chain = cells[columns.chain];
+    const residueCell = cells[columns.residue]?.trim() ?? '';
+    const valueCell = cells[columns.value]?.trim() ?? '';
+    // Number('') is 0, so blank cells are rejected before converting
+    const residueSeq = Number(residueCell);
+    const value = Number(valueCell);
+    if (
+      !chain ||
+      residueCell === '' ||
+      valueCell === '' ||
+      !Number.isInteger(residueSeq) ||
+      !Number.isFinite(value)
+    ) {
+      errors.push(`Line ${i + 1}: expected chain, residue number and value`);
+      return;
+    }
+    values.set(residueDataKey(chain, residueSeq), value);
+  });
+
+  return { values, errors };
+}
+
+/**
+ * Smallest and largest value, [0, 1] when there are none
+ */
+export function residueDataRange(values: Map<string, number>): [number, number] {
+  if (values.size === 0) return [0, 1];
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values.values()) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return min === max ? [min - 1, max + 1] : [min, max];
+}
+
+function splitRow(line: string): string[] {
+  return line.split(/[,\t;]/).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+}
@@ -0,0 +1,414 @@
+/**
+ * Selection Language
+ * Parses selection expressions such as `chain A and resi 50-80 and not hydro`,
+ * `within 5 of resn NAD` or `sidechain and polar`, and compiles them to
+ * MolScript queries that Mol* evaluates over a loaded structure
+ */
+
+import { MolScriptBuilder as MS } from 'molstar/lib/mol-script/language/builder';
+import type { Expression } from 'molstar/lib/mol-script/language/expression';
+import { StructureSelectionQueries } from 'molstar/lib/mol-plugin-state/helpers/structure-selection-query';
+import type { SelectionQuery } from '@/types/molstar';
+
+// ============================================================================
+// Syntax tree
+// ============================================================================
+
+export type SelectionProperty = 'chain' | 'resi' | 'resn' | 'name' | 'elem' | 'id';
+
+export type SelectionKeyword =
+  | 'all'
+  | 'none'
+  | 'protein'
+  | 'nucleic'
+  | 'water'
+  | 'ion'
+  | 'ligand'
+  | 'backbone'
+  | 'sidechain'
+  | 'hydro'
+  | 'polar'
+  | 'hydrophobic'
+  | 'charged'
+  | 'aromatic';
+
+export type SelectionValue = string | { from: number; to: number };
+
+export type SelectionNode =
+  | { kind: 'and' | 'or'; left: SelectionNode; right: SelectionNode }
+  | { kind: 'not'; operand: SelectionNode }
+  | { kind: 'within'; distance: number; operand: SelectionNode }
+  | { kind: 'byres'; operand: SelectionNode }
+  | { kind: 'property'; property: SelectionProperty; values: SelectionValue[] }
+  | { kind: 'keyword'; keyword: SelectionKeyword };
+
+/**
+ * Parse failure, with the character range of the offending input
+ */
+export class SelectionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public start: number,
+    public end: number
+  ) {
+    super(message);
+    this.name = 'SelectionSyntaxError';
+  }
+}
+
+const PROPERTY_ALIASES: Record<string, SelectionProperty> = {
+  chain: 'chain',
+  resi: 'resi',
+  resid: 'resi',
+  resn: 'resn',
+  name: 'name',
+  elem: 'elem',
+  element: 'elem',
+  id: 'id',
+  serial: 'id',
+};
+
+const KEYWORD_ALIASES: Record<string, SelectionKeyword> = {
+  all: 'all',
+  none: 'none',
+  protein: 'protein',
+  nucleic: 'nucleic',
+  water: 'water',
+  solvent: 'water',
+  ion: 'ion',
+  ions: 'ion',
+  ligand: 'ligand',
+  organic: 'ligand',
+  backbone: 'backbone',
+  sidechain: 'sidechain',
+  hydro: 'hydro',
+  hydrogen: 'hydro',
+  h: 'hydro',
+  polar: 'polar',
+  hydrophobic: 'hydrophobic',
+  charged: 'charged',
+  aromatic: 'aromatic',
+};
+
+const OPERATORS = new Set(['and', 'or', 'not', 'within', 'of', 'byres']);
+
+// Residue classes by side chain, as in the sequence viewer legend
+const RESIDUE_CLASSES: Record<'polar' | 'hydrophobic' | 'charged' | 'aromatic', string[]> = {
+  polar: ['SER', 'THR', 'CYS', 'TYR', 'ASN', 'GLN'],
+  hydrophobic: ['ALA', 'VAL', 'ILE', 'LEU', 'MET', 'PHE', 'TRP', 'PRO'],
+  charged: ['ASP', 'GLU', 'LYS', 'ARG', 'HIS'],
+  aromatic: ['PHE', 'TYR', 'TRP', 'HIS'],
+};
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[()]|[^\s()]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private tokens: Token[],
+    private length: number
+  ) {}
+
+  parse(): SelectionNode {
+    if (this.tokens.length === 0) {
+      throw new SelectionSyntaxError('Empty selection', 0, this.length);
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new SelectionSyntaxError(
+        extra.text === ')' ? "Unexpected ')'" : `Expected 'and' or 'or' before '${extra.text}'`,
+        extra.start,
+        extra.end
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(token: Token | undefined, operator: string): boolean {
+    return token?.text.toLowerCase() === operator;
+  }
+
+  private expected(what: string, after: Token): never {
+    const token = this.peek();
+    throw new SelectionSyntaxError(
+      `Expected ${what} after '${after.text}'`,
+      token?.start ?? after.end,
+      token?.end ?? this.length
+    );
+  }
+
+  private parseOr(): SelectionNode {
+    let left = this.parseAnd();
+    while (this.isOperator(this.peek(), 'or')) {
+      const operator = this.next()!;
+      if (!this.peek()) this.expected('a selection', operator);
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): SelectionNode {
+    let left = this.parseUnary();
+    while (this.isOperator(this.peek(), 'and')) {
+      const operator = this.next()!;
+      if (!this.peek()) this.expected('a selection', operator);
+      left = { kind: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): SelectionNode {
+    const token = this.peek();
+    if (!token) {
+      throw new SelectionSyntaxError('Unexpected end of selection', this.length, this.length);
+    }
+    const word = token.text.toLowerCase();
+
+    if (word === 'not') {
+      this.next();
+      if (!this.peek()) this.expected('a selection', token);
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+
+    if (word === 'byres') {
+      this.next();
+      if (!this.peek()) this.expected('a selection', token);
+      return { kind: 'byres', operand: this.parseUnary() };
+    }
+
+    if (word === 'within') {
+      this.next();
+      const distanceToken = this.peek();
+      const distance = distanceToken ? Number(distanceToken.text) : NaN;
+      if (!distanceToken || !Number.isFinite(distance) || distance <= 0) {
+        this.expected('a distance in Å', token);
+      }
+      this.next();
+      if (!this.isOperator(this.peek(), 'of')) this.expected("'of'", distanceToken);
+      const of = this.next()!;
+      if (!this.peek()) this.expected('a selection', of);
+      return { kind: 'within', distance, operand: this.parseUnary() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SelectionNode {
+    const token = this.next()!;
+    const word = token.text.toLowerCase();
+
+    if (token.text === '(') {
+      if (this.peek()?.text === ')') this.expected('a selection', token);
+      const node = this.parseOr();
+      const close = this.next();
+      if (close?.text !== ')') {
+        throw new SelectionSyntaxError("Missing ')'", token.start, token.end);
+      }
+      return node;
+    }
+
+    if (token.text === ')') {
+      throw new SelectionSyntaxError("Unexpected ')'", token.start, token.end);
+    }
+
+    const keyword = KEYWORD_ALIASES[word];
+    if (keyword) {
+      return { kind: 'keyword', keyword };
+    }
+
+    const property = PROPERTY_ALIASES[word];
+    if (property) {
+      return { kind: 'property', property, values: this.parseValues(property, token) };
+    }
+
+    if (OPERATORS.has(word)) {
+      throw new SelectionSyntaxError(`Unexpected '${token.text}'`, token.start, token.end);
+    }
+    throw new SelectionSyntaxError(`Unknown keyword '${token.text}'`, token.start, token.end);
+  }
+
+  private parseValues(property: SelectionProperty, keyword: Token): SelectionValue[] {
+    const values: SelectionValue[] = [];
+
+    // Values run until the next operator or parenthesis; '+' also separates
+    for (let token = this.peek(); token && !/^[()]$/.test(token.text) && !OPERATORS.has(token.text.toLowerCase()); token = this.peek()) {
+      this.next();
+      for (const text of token.text.split('+').filter(Boolean)) {
+        values.push(parseValue(property, text, token));
+      }
+    }
+
+    if (values.length === 0) {
+      this.expected(property === 'resi' || property === 'id' ? 'numbers' : 'one or more names', keyword);
+    }
+    return values;
+  }
+}
+
+function parseValue(property: SelectionProperty, text: string, token: Token): SelectionValue {
+  if (property !== 'resi' && property !== 'id') {
+    // Chain ids are case-sensitive, residue, atom and element names are not
+    return property === 'chain' ? text : text.toUpperCase();
+  }
+
+  const range = /^(-?\d+)(?:[-:](-?\d+))?$/.exec(text);
+  if (!range) {
+    throw new SelectionSyntaxError(`Invalid number '${text}'`, token.start, token.end);
+  }
+  const from = Number(range[1]);
+  const to = range[2] === undefined ? from : Number(range[2]);
+  if (to < from) {
+    throw new SelectionSyntaxError(`Invalid range '${text}'`, token.start, token.end);
+  }
+  return { from, to };
+}
+
+/**
+ * Parse a selection expression; throws SelectionSyntaxError
+ */
+export function parseSelection(text: string): SelectionNode {
+  return new Parser(tokenize(text), text.length).parse();
+}
+
+/**
+ * Syntax error of a selection expression, or null when it parses
+ */
+export function validateSelection(text: string): SelectionSyntaxError | null {
+  try {
+    parseSelection(text);
+    return null;
+  } catch (error) {
+    if (error instanceof SelectionSyntaxError) return error;
+    throw error;
+  }
+}
+
+/**
+ * Syntax tree equivalent to a flat atom, residue or chain id query
+ */
+export function selectionFromQuery(query: SelectionQuery): SelectionNode {
+  switch (query.type) {
+    case 'expression':
+      return parseSelection(query.expression ?? '');
+
+    case 'atom':
+      return {
+        kind: 'property',
+        property: 'id',
+        values: (query.atomIds ?? []).map((id) => ({ from: Number(id), to: Number(id) })),
+      };
+
+    case 'residue':
+      return {
+        kind: 'property',
+        property: 'resi',
+        values: (query.residueIds ?? []).map((id) => ({ from: Number(id), to: Number(id) })),
+      };
+
+    case 'chain':
+      return { kind: 'property', property: 'chain', values: query.chainIds ?? [] };
+
+    default:
+      throw new Error(`Unknown selection type: ${(query as SelectionQuery).type}`);
+  }
+}
+
+// ============================================================================
+// Compilation to MolScript
+// ============================================================================
+
+function propertyTest(property: SelectionProperty, values: SelectionValue[]): Expression {
+  if (property === 'resi' || property === 'id') {
+    const atomProperty = property === 'resi' ? MS.ammp('auth_seq_id') : MS.ammp('id');
+    const tests = values.map((value) => {
+      const { from, to } = value as { from: number; to: number };
+      return from === to
+        ? MS.core.rel.eq([atomProperty, from])
+        : MS.core.rel.inRange([atomProperty, from, to]);
+    });
+    return tests.length === 1 ? tests[0] : MS.core.logic.or(tests);
+  }
+
+  if (property === 'elem') {
+    return MS.core.set.has([MS.set(...values.map((value) => MS.es(value as string))), MS.acp('elementSymbol')]);
+  }
+
+  const atomProperty = {
+    chain: MS.ammp('auth_asym_id'),
+    resn: MS.ammp('label_comp_id'),
+    name: MS.ammp('label_atom_id'),
+  }[property];
+  return MS.core.set.has([MS.set(...(values as string[])), atomProperty]);
+}
+
+function atoms(test: Expression): Expression {
+  return MS.struct.generator.atomGroups({ 'atom-test': test });
+}
+
+function keywordQuery(keyword: SelectionKeyword): Expression {
+  switch (keyword) {
+    case 'all':
+      return MS.struct.generator.all();
+    case 'none':
+      return MS.struct.generator.empty();
+    case 'hydro':
+      return atoms(MS.core.set.has([MS.set(MS.es('H'), MS.es('D')), MS.acp('elementSymbol')]));
+    case 'polar':
+    case 'hydrophobic':
+    case 'charged':
+    case 'aromatic':
+      return atoms(propertyTest('resn', RESIDUE_CLASSES[keyword]));
+    default:
+      return StructureSelectionQueries[keyword].expression;
+  }
+}
+
+/**
+ * MolScript query selecting the atoms matched by a syntax tree
+ */
+export function compileSelection(node: SelectionNode): Expression {
+  switch (node.kind) {
+    case 'and':
+      return MS.struct.modifier.intersectBy({ 0: compileSelection(node.left), by: compileSelection(node.right) });
+    case 'or':
+      return MS.struct.combinator.merge([compileSelection(node.left), compileSelection(node.right)]);
+    case 'not':
+      return MS.struct.modifier.exceptBy({ 0: MS.struct.generator.all(), by: compileSelection(node.operand) });
+    case 'within':
+      return MS.struct.modifier.includeSurroundings({ 0: compileSelection(node.operand), radius: node.distance });
+    case 'byres':
+      return MS.struct.modifier.wholeResidues({ 0: compileSelection(node.operand) });
+    case 'property':
+      return atoms(propertyTest(node.property, node.values));
+    case 'keyword':
+      return keywordQuery(node.keyword);
+  }
+}
@@ -0,0 +1,469 @@
+/**
+ * Sequence Alignment
+ * Global (Needleman-Wunsch) and local (Smith-Waterman) pairwise alignment with
+ * affine gaps, and progressive multiple alignment of a handful of sequences
+ */
+
+const ONE_LETTER_CODES: Record<string, string> = {
+  ALA: 'A', ARG: 'R', ASN: 'N', ASP: 'D', CYS: 'C',
+  GLN: 'Q', GLU: 'E', GLY: 'G', HIS: 'H', ILE: 'I',
+  LEU: 'L', LYS: 'K', MET: 'M', PHE: 'F', PRO: 'P',
+  SER: 'S', THR: 'T', TRP: 'W', TYR: 'Y', VAL: 'V',
+  MSE: 'M', SEC: 'U', PYL: 'O',
+};
+
+/**
+ * One-letter code for a residue name, 'X' when unknown
+ */
+export function residueCode(resName: string): string {
+  return ONE_LETTER_CODES[resName.trim().toUpperCase()] ?? 'X';
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+export type SubstitutionMatrix = Record<string, Record<string, number>>;
+
+const BLOSUM62_ORDER = 'ARNDCQEGHILKMFPSTWYVBZX*';
+const BLOSUM62_ROWS = [
+  ' 4 -1 -2 -2  0 -1 -1  0 -2 -1 -1 -1 -1 -2 -1  1  0 -3 -2  0 -2 -1  0 -4',
+  '-1  5  0 -2 -3  1  0 -2  0 -3 -2  2 -1 -3 -2 -1 -1 -3 -2 -3 -1  0 -1 -4',
+  '-2  0  6  1 -3  0  0  0  1 -3 -3  0 -2 -3 -2  1  0 -4 -2 -3  3  0 -1 -4',
+  '-2 -2  1  6 -3  0  2 -1 -1 -3 -4 -1 -3 -3 -1  0 -1 -4 -3 -3  4  1 -1 -4',
+  ' 0 -3 -3 -3  9 -3 -4 -3 -3 -1 -1 -3 -1 -2 -3 -1 -1 -2 -2 -1 -3 -3 -2 -4',
+  '-1  1  0  0 -3  5  2 -2  0 -3 -2  1  0 -3 -1  0 -1 -2 -1 -2  0  3 -1 -4',
+  '-1  0  0  2 -4  2  5 -2  0 -3 -3  1 -2 -3 -1  0 -1 -3 -2 -2  1  4 -1 -4',
+  ' 0 -2  0 -1 -3 -2 -2  6 -2 -4 -4 -2 -3 -3 -2  0 -2 -2 -3 -3 -1 -2 -1 -4',
+  '-2  0  1 -1 -3  0  0 -2  8 -3 -3 -1 -2 -1 -2 -1 -2 -2  2 -3  0  0 -1 -4',
+  '-1 -3 -3 -3 -1 -3 -3 -4 -3  4  2 -3  1  0 -3 -2 -1 -3 -1  3 -3 -3 -1 -4',
+  '-1 -2 -3 -4 -1 -2 -3 -4 -3  2  4 -2  2  0 -3 -2 -1 -2 -1  1 -4 -3 -1 -4',
+  '-1  2  0 -1 -3  1  1 -2 -1 -3 -2  5 -1 -3 -1  0 -1 -3 -2 -2  0  1 -1 -4',
+  '-1 -1 -2 -3 -1  0 -2 -3 -2  1  2 -1  5  0 -2 -1 -1 -1 -1  1 -3 -1 -1 -4',
+  '-2 -3 -3 -3 -2 -3 -3 -3 -1  0  0 -3  0  6 -4 -2 -2  1  3 -1 -3 -3 -1 -4',
+  '-1 -2 -2 -1 -3 -1 -1 -2 -2 -3 -3 -1 -2 -4  7 -1 -1 -4 -3 -2 -2 -1 -2 -4',
+  ' 1 -1  1  0 -1  0  0  0 -1 -2 -2  0 -1 -2 -1  4  1 -3 -2 -2  0  0  0 -4',
+  ' 0 -1  0 -1 -1 -1 -1 -2 -2 -1 -1 -1 -1 -2 -1  1  5 -2 -2  0 -1 -1  0 -4',
+  '-3 -3 -4 -4 -2 -2 -3 -2 -2 -3 -2 -3 -1  1 -4 -3 -2 11  2 -3 -4 -3 -2 -4',
+  '-2 -2 -2 -3 -2 -1 -2 -3  2 -1 -1 -2 -1  3 -3 -2 -2  2  7 -1 -3 -2 -1 -4',
+  ' 0 -3 -3 -3 -1 -2 -2 -3 -3  3  1 -2  1 -1 -2 -2  0 -3 -1  4 -3 -2 -1 -4',
+  '-2 -1  3  4 -3  0  1 -1  0 -3 -4  0 -3 -3 -2  0 -1 -4 -3 -3  4  1 -1 -4',
+  '-1  0  0  1 -3  3  4 -2  0 -3 -3  1 -1 -3 -1  0 -1 -3 -2 -2  1  4 -1 -4',
+  ' 0 -1 -1 -1 -2 -1 -1 -1 -1 -1 -1 -1 -1 -1 -2  0  0 -2 -1 -1 -1 -1 -1 -4',
+  '-4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4 -4  1',
+];
+
+export const BLOSUM62: SubstitutionMatrix = Object.fromEntries(
+  BLOSUM62_ROWS.map((row, i) => {
+    const values = row.trim().split(/\s+/).map(Number);
+    return [BLOSUM62_ORDER[i], Object.fromEntries(values.map((value, j) => [BLOSUM62_ORDER[j], value]))];
+  })
+);
+
+export interface AlignmentScoring {
+  substitution: SubstitutionMatrix | { match: number; mismatch: number };
+  gapOpen: number; // Score (negative) of a gap's first position
+  gapExtend: number; // Score of each further position
+  freeEndGaps?: boolean; // Global only: overhangs at either end are not penalised
+}
+
+/**
+ * Protein defaults, as used by EMBOSS needle and water
+ */
+export const BLOSUM62_SCORING: AlignmentScoring = { substitution: BLOSUM62, gapOpen: -10, gapExtend: -0.5 };
+
+/**
+ * Match/mismatch scoring for nucleic acids or unknown residues
+ */
+export const IDENTITY_SCORING: AlignmentScoring = {
+  substitution: { match: 2, mismatch: -1 },
+  gapOpen: -2,
+  gapExtend: -2,
+};
+
+function isMatchMismatch(
+  substitution: AlignmentScoring['substitution']
+): substitution is { match: number; mismatch: number } {
+  return typeof substitution.match === 'number';
+}
+
+/**
+ * Substitution score of two residues; unknown letters score as X
+ */
+export function substitutionScore(a: string, b: string, scoring: AlignmentScoring = BLOSUM62_SCORING): number {
+  const { substitution } = scoring;
+  if (isMatchMismatch(substitution)) {
+    return a === b ? substitution.match : substitution.mismatch;
+  }
+  const row = substitution[a] ?? substitution.X;
+  return row?.[b] ?? row?.X ?? 0;
+}
+
+// ============================================================================
+// Dynamic programming (Gotoh)
+// ============================================================================
+
+const MATCH = 0;
+const GAP_B = 1; // Consumes a, gap in b
+const GAP_A = 2; // Consumes b, gap in a
+const STOP = 3;
+
+interface AlignmentPath {
+  operations: number[]; // MATCH, GAP_B or GAP_A from start to end
+  startA: number;
+  startB: number;
+  score: number;
+}
+
+/**
+ * Affine-gap alignment of n against m positions scored by score(i, j)
+ */
+function alignPositions(
+  n: number,
+  m: number,
+  score: (i: number, j: number) => number,
+  scoring: AlignmentScoring,
+  local: boolean
+): AlignmentPath {
+  const { gapOpen, gapExtend } = scoring;
+  const freeEndGaps = !local && !!scoring.freeEndGaps;
+  const cols = m + 1;
+  const size = (n + 1) * cols;
+
+  // Best score of an alignment of a[0..i) and b[0..j) ending in each state
+  const M = new Float64Array(size).fill(-Infinity);
+  const X = new Float64Array(size).fill(-Infinity);
+  const Y = new Float64Array(size).fill(-Infinity);
+  const traceM = new Uint8Array(size);
+  const traceX = new Uint8Array(size);
+  const traceY = new Uint8Array(size);
+
+  // Local alignments restart wherever the best prefix is not positive
+  M[0] = 0;
+  if (!local) {
+    for (let i = 1; i <= n; i++) {
+      X[i * cols] = freeEndGaps ? 0 : gapOpen + (i - 1) * gapExtend;
+      traceX[i * cols] = i === 1 ? MATCH : GAP_B;
+    }
+    for (let j = 1; j <= m; j++) {
+      Y[j] = freeEndGaps ? 0 : gapOpen + (j - 1) * gapExtend;
+      traceY[j] = j === 1 ? MATCH : GAP_A;
+    }
+  }
+
+  let bestScore = local ? 0 : -Infinity;
+  let bestCell = 0;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const k = i * cols + j;
+
+      const diagonal = k - cols - 1;
+      let from = MATCH;
+      let best = M[diagonal];
+      if (X[diagonal] > best) {
+        best = X[diagonal];
+        from = GAP_B;
+      }
+      if (Y[diagonal] > best) {
+        best = Y[diagonal];
+        from = GAP_A;
+      }
+      if (local && best <= 0) {
+        best = 0;
+        from = STOP;
+      }
+      M[k] = best + score(i - 1, j - 1);
+      traceM[k] = from;
+
+      const up = k - cols;
+      X[k] = M[up] + gapOpen;
+      traceX[k] = MATCH;
+      if (X[up] + gapExtend > X[k]) {
+        X[k] = X[up] + gapExtend;
+        traceX[k] = GAP_B;
+      }
+      if (Y[up] + gapOpen > X[k]) {
+        X[k] = Y[up] + gapOpen;
+        traceX[k] = GAP_A;
+      }
+
+      const left = k - 1;
+      Y[k] = M[left] + gapOpen;
+      traceY[k] = MATCH;
+      if (Y[left] + gapExtend > Y[k]) {
+        Y[k] = Y[left] + gapExtend;
+        traceY[k] = GAP_A;
+      }
+      if (X[left] + gapOpen > Y[k]) {
+        Y[k] = X[left] + gapOpen;
+        traceY[k] = GAP_B;
+      }
+
+      if (local && M[k] > bestScore) {
+        bestScore = M[k];
+        bestCell = k;
+      }
+    }
+  }
+
+  const operations: number[] = [];
+  let state = MATCH;
+  let endCell = n * cols + m;
+
+  if (local) {
+    endCell = bestCell;
+  } else {
+    // With free end gaps the alignment may finish anywhere on the last row or column
+    const candidates = freeEndGaps
+      ? [
+          ...Array.from({ length: n + 1 }, (_, i) => i * cols + m),
+          ...Array.from({ length: m }, (_, j) => n * cols + j),
+        ]
+      : [endCell];
+    for (const k of candidates) {
+      for (const [matrix, s] of [[M, MATCH], [X, GAP_B], [Y, GAP_A]] as const) {
+        if (matrix[k] > bestScore) {
+          bestScore = matrix[k];
+          endCell = k;
+          state = s;
+        }
+      }
+    }
+    // Overhang after the end cell
+    for (let i = n; i > Math.floor(endCell / cols); i--) operations.push(GAP_B);
+    for (let j = m; j > endCell % cols; j--) operations.push(GAP_A);
+  }
+
+  let i = Math.floor(endCell / cols);
+  let j = endCell % cols;
+  while (local ? bestScore > 0 : i > 0 || j > 0) {
+    const k = i * cols + j;
+    operations.push(state);
+    if (state === MATCH) {
+      state = traceM[k];
+      i--;
+      j--;
+      if (state === STOP) break;
+    } else if (state === GAP_B) {
+      state = traceX[k];
+      i--;
+    } else {
+      state = traceY[k];
+      j--;
+    }
+  }
+
+  operations.reverse();
+  return { operations, startA: local ? i : 0, startB: local ? j : 0, score: bestScore };
+}
+
+// ============================================================================
+// Pairwise alignment
+// ============================================================================
+
+export interface PairwiseAlignment {
+  alignedA: string; // Gapped with '-'
+  alignedB: string;
+  pairs: Array<[number, number]>; // Indices into a and b of aligned (non-gap) columns
+  score: number;
+  identity: number; // Fraction of aligned pairs that are identical
+}
+
+function pairwise(a: string, b: string, scoring: AlignmentScoring, local: boolean): PairwiseAlignment {
+  const path = alignPositions(a.length, b.length, (i, j) => substitutionScore(a[i], b[j], scoring), scoring, local);
+
+  const columnsA: string[] = [];
+  const columnsB: string[] = [];
+  const pairs: Array<[number, number]> = [];
+  let identical = 0;
+  let i = path.startA;
+  let j = path.startB;
+
+  for (const operation of path.operations) {
+    if (operation === MATCH) {
+      columnsA.push(a[i]);
+      columnsB.push(b[j]);
+      pairs.push([i, j]);
+      if (a[i] === b[j]) identical++;
+      i++;
+      j++;
+    } else if (operation === GAP_B) {
+      columnsA.push(a[i++]);
+      columnsB.push('-');
+    } else {
+      columnsA.push('-');
+      columnsB.push(b[j++]);
+    }
+  }
+
+  return {
+    alignedA: columnsA.join(''),
+    alignedB: columnsB.join(''),
+    pairs,
+    score: path.score,
+    identity: pairs.length > 0 ? identical / pairs.length : 0,
+  };
+}
+
+/**
+ * Optimal global alignment of two sequences (Needleman-Wunsch with affine gaps)
+ */
+export function alignGlobal(a: string, b: string, scoring: Partial<AlignmentScoring> = {}): PairwiseAlignment {
+  return pairwise(a, b, { ...BLOSUM62_SCORING, ...scoring }, false);
+}
+
+/**
+ * Best-scoring local alignment of two sequences (Smith-Waterman with affine gaps)
+ */
+export function alignLocal(a: string, b: string, scoring: Partial<AlignmentScoring> = {}): PairwiseAlignment {
+  return pairwise(a, b, { ...BLOSUM62_SCORING, ...scoring }, true);
+}
+
+// ============================================================================
+// Multiple alignment
+// ============================================================================
+
+export interface MultipleAlignment {
+  rows: string[]; // Gapped sequences in input order, all the same length
+  conservation: number[]; // Per column (0-1)
+}
+
+/**
+ * Progressive multiple alignment: sequences are merged along a UPGMA guide tree
+ * built from pairwise identities, aligning profiles by average substitution score
+ */
+export function alignMultiple(sequences: string[], scoring: Partial<AlignmentScoring> = {}): MultipleAlignment {
+  const fullScoring = { ...BLOSUM62_SCORING, ...scoring, freeEndGaps: false };
+  if (sequences.length === 0) {
+    return { rows: [], conservation: [] };
+  }
+
+  // Clusters hold the gapped rows of their member sequences
+  const clusters = new Map(sequences.map((sequence, i) => [i, { members: [i], rows: [sequence] }]));
+  const distance = new Map<string, number>();
+  const key = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+  for (let a = 0; a < sequences.length; a++) {
+    for (let b = a + 1; b < sequences.length; b++) {
+      distance.set(key(a, b), 1 - alignGlobal(sequences[a], sequences[b], fullScoring).identity);
+    }
+  }
+
+  let active = sequences.map((_, i) => i);
+  let nextId = sequences.length;
+
+  while (active.length > 1) {
+    let closest: [number, number] = [active[0], active[1]];
+    for (let x = 0; x < active.length; x++) {
+      for (let y = x + 1; y < active.length; y++) {
+        if (distance.get(key(active[x], active[y]))! < distance.get(key(...closest))!) {
+          closest = [active[x], active[y]];
+        }
+      }
+    }
+
+    const [idA, idB] = closest;
+    const a = clusters.get(idA)!;
+    const b = clusters.get(idB)!;
+    const merged = { members: [...a.members, ...b.members], rows: alignProfiles(a.rows, b.rows, fullScoring) };
+
+    // UPGMA: distance to the merged cluster is the size-weighted average
+    active = active.filter((id) => id !== idA && id !== idB);
+    for (const id of active) {
+      const total = distance.get(key(idA, id))! * a.members.length + distance.get(key(idB, id))! * b.members.length;
+      distance.set(key(nextId, id), total / merged.members.length);
+    }
+    clusters.set(nextId, merged);
+    active.push(nextId++);
+  }
+
+  const root = clusters.get(active[0])!;
+  const rows = new Array<string>(sequences.length);
+  root.members.forEach((member, i) => {
+    rows[member] = root.rows[i];
+  });
+
+  return { rows, conservation: columnConservation(rows) };
+}
+
+/**
+ * Align two blocks of gapped rows column against column
+ */
+function alignProfiles(a: string[], b: string[], scoring: AlignmentScoring): string[] {
+  const columnScore = (i: number, j: number) => {
+    let total = 0;
+    let count = 0;
+    for (const rowA of a) {
+      if (rowA[i] === '-') continue;
+      for (const rowB of b) {
+        if (rowB[j] === '-') continue;
+        total += substitutionScore(rowA[i], rowB[j], scoring);
+        count++;
+      }
+    }
+    return count > 0 ? total / count : 0;
+  };
+
+  const path = alignPositions(a[0].length, b[0].length, columnScore, scoring, false);
+  const rowsA = a.map(() => [] as string[]);
+  const rowsB = b.map(() => [] as string[]);
+  let i = 0;
+  let j = 0;
+
+  for (const operation of path.operations) {
+    rowsA.forEach((row, r) => row.push(operation === GAP_A ? '-' : a[r][i]));
+    rowsB.forEach((row, r) => row.push(operation === GAP_B ? '-' : b[r][j]));
+    if (operation !== GAP_A) i++;
+    if (operation !== GAP_B) j++;
+  }
+
+  return [...rowsA, ...rowsB].map((row) => row.join(''));
+}
+
+/**
+ * Fraction of rows sharing each column's most common residue (gaps never count)
+ */
+export function columnConservation(rows: string[]): number[] {
+  const length = rows[0]?.length ?? 0;
+  return Array.from({ length }, (_, column) => {
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      const residue = row[column];
+      if (residue !== '-') counts.set(residue, (counts.get(residue) ?? 0) + 1);
+    }
+    return counts.size > 0 ? Math.max(...counts.values()) / rows.length : 0;
+  });
+}
+
+/**
+ * Index into the ungapped sequence of each column of a gapped row, null at gaps
+ */
+export function columnResidueIndices(row: string): Array<number | null> {
+  let index = 0;
+  return Array.from(row, (residue) => (residue === '-' ? null : index++));
+}
+
+/**
+ * Conservation of each residue of a sequence across homologous sequences,
+ * from their multiple alignment
+ */
+export function sequenceConservation(sequence: string, homologs: string[]): number[] {
+  const { rows, conservation } = alignMultiple([sequence, ...homologs]);
+  const values: number[] = [];
+  columnResidueIndices(rows[0]).forEach((index, column) => {
+    if (index !== null) values[index] = conservation[column];
+  });
+  return values;
+}
+
+/**
+ * Sequences from FASTA text, or one per line when there are no headers
+ */
+export function parseSequences(text: string): string[] {
+  const clean = (sequence: string) => sequence.replace(/[^A-Za-z]/g, '').toUpperCase();
+  const sequences = text.includes('>')
+    ? text.split('>').slice(1).map((entry) => clean(entry.split('\n').slice(1).join('')))
+    : text.split('\n').map(clean);
+  return sequences.filter((sequence) => sequence.length > 0);
+}
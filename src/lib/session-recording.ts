@@ -0,0 +1,126 @@
+/**
+ * Session Recording Format
+ * Compact storage of recorded session events. Times are stored as deltas,
+ * event types as indexes into a table, and camera and cursor coordinates
+ * are rounded to a precision nobody can see
+ */
+
+import type { CameraState } from '@/types/collaboration';
+import type { CameraSnapshot } from '@/types/molstar';
+import type {
+  EncodedRecording,
+  RecordedEvent,
+  RecordedEventType,
+} from '@/types/session-recording';
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+const COORDINATE_DECIMALS = 3;
+const DEFAULT_FOV = Math.PI / 4; // Mol*'s default, in radians
+
+// Events whose payloads are mostly coordinates
+const ROUNDED_TYPES: RecordedEventType[] = ['camera-update', 'cursor-move'];
+
+function roundNumbers(value: unknown, factor: number): unknown {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? value : Math.round(value * factor) / factor;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => roundNumbers(item, factor));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, roundNumbers(item, factor)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Encode events, which must be in time order, for storage
+ */
+export function encodeRecording(events: RecordedEvent[]): EncodedRecording {
+  const types: RecordedEventType[] = [];
+  const factor = 10 ** COORDINATE_DECIMALS;
+  let previous = 0;
+
+  return {
+    version: RECORDING_FORMAT_VERSION,
+    types,
+    events: events.map((event) => {
+      let typeIndex = types.indexOf(event.type);
+      if (typeIndex === -1) {
+        typeIndex = types.push(event.type) - 1;
+      }
+
+      const time = Math.round(event.time);
+      const delta = time - previous;
+      previous = time;
+
+      const payload = ROUNDED_TYPES.includes(event.type)
+        ? roundNumbers(event.payload, factor)
+        : event.payload;
+      return [delta, typeIndex, payload];
+    }),
+  };
+}
+
+/**
+ * Decode stored events
+ */
+export function decodeRecording(encoded: EncodedRecording): RecordedEvent[] {
+  if (encoded.version !== RECORDING_FORMAT_VERSION) {
+    throw new Error(`Unsupported recording format version ${encoded.version}`);
+  }
+
+  let time = 0;
+  return encoded.events.map(([delta, typeIndex, payload]) => {
+    const type = encoded.types[typeIndex];
+    if (!type) {
+      throw new Error(`Unknown event type index ${typeIndex}`);
+    }
+
+    time += delta;
+    return { time, type, payload } as RecordedEvent;
+  });
+}
+
+/**
+ * Format a playback time as m:ss, or h:mm:ss for an hour or more
+ */
+export function formatPlaybackTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Session camera state for a Mol* camera snapshot
+ */
+export function cameraStateFromSnapshot(snapshot: CameraSnapshot): CameraState {
+  return {
+    position: snapshot.position,
+    target: snapshot.target,
+    up: snapshot.up,
+    zoom: 1,
+    rotation: [0, 0, 0],
+    fov: snapshot.fov,
+  };
+}
+
+/**
+ * Mol* camera snapshot for a session camera state
+ */
+export function cameraSnapshotFromState(state: CameraState): CameraSnapshot {
+  return {
+    position: state.position,
+    target: state.target,
+    up: state.up ?? [0, 1, 0],
+    fov: state.fov ?? DEFAULT_FOV,
+  };
+}
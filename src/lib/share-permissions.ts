@@ -0,0 +1,37 @@
+/**
+ * Share Permission Levels
+ * Ordering and labels for structure access levels. Mirrors
+ * has_structure_permission() in the sharing migration, which enforces the
+ * same order in the database
+ */
+
+import type { AccessLevel, SharePermission } from '@/types/sharing';
+
+export const SHARE_PERMISSIONS: SharePermission[] = ['view', 'comment', 'edit', 'admin'];
+
+const PERMISSION_RANK: Record<AccessLevel, number> = {
+  view: 1,
+  comment: 2,
+  edit: 3,
+  admin: 4,
+  owner: 5,
+};
+
+export const PERMISSION_LABELS: Record<AccessLevel, string> = {
+  view: 'Can view',
+  comment: 'Can comment',
+  edit: 'Can edit',
+  admin: 'Can manage',
+  owner: 'Owner',
+};
+
+export function isSharePermission(value: unknown): value is SharePermission {
+  return SHARE_PERMISSIONS.includes(value as SharePermission);
+}
+
+/**
+ * Whether an access level allows at least the required one
+ */
+export function hasPermission(level: AccessLevel | null | undefined, required: AccessLevel): boolean {
+  return !!level && PERMISSION_RANK[level] >= PERMISSION_RANK[required];
+}
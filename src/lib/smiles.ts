@@ -0,0 +1,489 @@
+/**
+ * SMILES
+ *
+ * Reads SMILES and builds 3D coordinates for simple ligands (metabolites,
+ * cofactor fragments) so they can be shown next to proteins
+ * - Organic subset and bracket atoms with charges and hydrogen counts,
+ *   branches, ring closures and aromatic atoms
+ * - Stereo marks (@, /, \) are accepted but not enforced
+ * - Implicit hydrogens become explicit atoms; aromatic rings are kekulized
+ * - Coordinates relax bond lengths, bond angles and non-bonded contacts,
+ *   starting in 4D so branches can pass through each other
+ */
+
+export interface SmilesAtom {
+  element: string; // Capitalised symbol, e.g. "C", "Cl"
+  charge: number;
+  aromatic: boolean;
+  hydrogens: number; // Hydrogens attached; after building these are explicit atoms
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface SmilesBond {
+  atom1: number; // Index into atoms
+  atom2: number;
+  order: 1 | 2 | 3; // Kekulé order
+  aromatic: boolean;
+}
+
+export interface SmilesMolecule {
+  atoms: SmilesAtom[];
+  bonds: SmilesBond[];
+}
+
+export interface BuildOptions {
+  seed?: number; // Default 1
+  attempts?: number; // Starting points tried, default 6
+}
+
+const ORGANIC_SUBSET = ['Cl', 'Br', 'B', 'C', 'N', 'O', 'P', 'S', 'F', 'I'];
+const AROMATIC_SUBSET = ['b', 'c', 'n', 'o', 'p', 's'];
+const VALENCES: Record<string, number[]> = {
+  B: [3], C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6], F: [1], Cl: [1], Br: [1], I: [1],
+};
+const COVALENT_RADII: Record<string, number> = {
+  H: 0.31, B: 0.84, C: 0.76, N: 0.71, O: 0.66, F: 0.57, P: 1.0, S: 1.0, Cl: 1.02, Br: 1.2, I: 1.39,
+};
+const BRACKET_ATOM = /^\[(\d+)?([A-Z][a-z]?|se|as|[bcnops])(@{1,2}(?:TH|AL|SP|TB|OH)?\d*)?(H\d*)?([+-]+\d*)?(?::\d+)?\]/;
+
+type PendingOrder = 1 | 2 | 3 | 'aromatic' | null;
+
+/**
+ * Atoms and bonds of a SMILES string, without coordinates or explicit hydrogens
+ */
+export function parseSmiles(smiles: string): SmilesMolecule {
+  const atoms: SmilesAtom[] = [];
+  const bondPairs: Array<{ atom1: number; atom2: number; order: PendingOrder }> = [];
+  const rings = new Map<number, { atom: number; order: PendingOrder }>();
+  const branches: number[] = [];
+  const implicit = new Set<number>(); // Organic subset atoms whose hydrogens are implied
+  let previous: number | null = null;
+  let pending: PendingOrder = null;
+
+  const addAtom = (atom: Omit<SmilesAtom, 'x' | 'y' | 'z'>) => {
+    atoms.push({ ...atom, x: 0, y: 0, z: 0 });
+    const index = atoms.length - 1;
+    if (previous !== null) bondPairs.push({ atom1: previous, atom2: index, order: pending });
+    previous = index;
+    pending = null;
+    return index;
+  };
+
+  let i = 0;
+  while (i < smiles.length) {
+    const char = smiles[i];
+
+    if (char === '(') {
+      if (previous === null) throw new Error(`Branch without an atom at position ${i + 1}`);
+      branches.push(previous);
+      i++;
+    } else if (char === ')') {
+      const top = branches.pop();
+      if (top === undefined) throw new Error(`Unmatched ")" at position ${i + 1}`);
+      previous = top;
+      i++;
+    } else if ('-=#:/\\'.includes(char)) {
+      pending = char === '=' ? 2 : char === '#' ? 3 : char === ':' ? 'aromatic' : 1;
+      i++;
+    } else if (char === '.') {
+      previous = null;
+      pending = null;
+      i++;
+    } else if (/\d|%/.test(char)) {
+      const label = char === '%' ? smiles.substring(i + 1, i + 3) : char;
+      const number = parseInt(label);
+      if (previous === null || Number.isNaN(number)) throw new Error(`Invalid ring closure at position ${i + 1}`);
+      const open = rings.get(number);
+      if (open) {
+        bondPairs.push({ atom1: open.atom, atom2: previous, order: pending ?? open.order });
+        rings.delete(number);
+      } else {
+        rings.set(number, { atom: previous, order: pending });
+      }
+      pending = null;
+      i += char === '%' ? 3 : 1;
+    } else if (char === '[') {
+      const match = smiles.substring(i).match(BRACKET_ATOM);
+      if (!match) throw new Error(`Invalid bracket atom at position ${i + 1}`);
+      const [text, , symbol, , hydrogens, charge] = match;
+      addAtom({
+        element: capitalise(symbol),
+        aromatic: symbol[0] === symbol[0].toLowerCase(),
+        hydrogens: hydrogens ? parseInt(hydrogens.substring(1) || '1') : 0,
+        charge: parseCharge(charge),
+      });
+      i += text.length;
+    } else {
+      const symbol =
+        ORGANIC_SUBSET.find((candidate) => smiles.startsWith(candidate, i)) ??
+        AROMATIC_SUBSET.find((candidate) => smiles.startsWith(candidate, i));
+      if (!symbol) throw new Error(`Unexpected "${char}" at position ${i + 1}`);
+      implicit.add(addAtom({ element: capitalise(symbol), aromatic: symbol === symbol.toLowerCase(), hydrogens: 0, charge: 0 }));
+      i += symbol.length;
+    }
+  }
+
+  if (rings.size > 0) throw new Error(`Unclosed ring ${Array.from(rings.keys()).join(', ')}`);
+  if (branches.length > 0) throw new Error('Unclosed branch');
+  if (atoms.length === 0) throw new Error('Empty SMILES');
+
+  const bonds = bondPairs.map(({ atom1, atom2, order }): SmilesBond => {
+    const aromatic = order === 'aromatic' || (order === null && atoms[atom1].aromatic && atoms[atom2].aromatic);
+    return { atom1, atom2, aromatic, order: aromatic || order === null ? 1 : order };
+  });
+
+  for (const index of implicit) {
+    atoms[index].hydrogens = implicitHydrogens(atoms[index], bonds.filter((b) => b.atom1 === index || b.atom2 === index));
+  }
+
+  kekulize(atoms, bonds);
+  return { atoms, bonds };
+}
+
+/**
+ * Molecule with explicit hydrogens and 3D coordinates in Å, centred on the origin
+ */
+export function buildMolecule(smiles: string, options: BuildOptions = {}): SmilesMolecule {
+  const { seed = 1, attempts = 6 } = options;
+  const molecule = addHydrogens(parseSmiles(smiles));
+  const constraints = buildConstraints(molecule);
+
+  let best: { positions: number[][]; error: number } | null = null;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const result = embed(molecule, constraints, mulberry32(seed + attempt * 7919));
+    if (!best || result.error < best.error) best = result;
+  }
+
+  const centre = [0, 1, 2].map((axis) => best!.positions.reduce((sum, p) => sum + p[axis], 0) / best!.positions.length);
+  molecule.atoms.forEach((atom, i) => {
+    [atom.x, atom.y, atom.z] = [0, 1, 2].map((axis) => best!.positions[i][axis] - centre[axis]);
+  });
+  return molecule;
+}
+
+/**
+ * V2000 SD file record for a built molecule
+ */
+export function toSDF(molecule: SmilesMolecule, name = 'LIG'): string {
+  const { atoms, bonds } = molecule;
+  const lines = [name, '  lab-visualizer 3D', '', `${pad(atoms.length, 3)}${pad(bonds.length, 3)}  0  0  0  0  0  0  0  0999 V2000`];
+
+  for (const atom of atoms) {
+    const coordinates = [atom.x, atom.y, atom.z].map((value) => value.toFixed(4).padStart(10)).join('');
+    lines.push(`${coordinates} ${atom.element.padEnd(3)} 0  0  0  0  0  0  0  0  0  0  0  0`);
+  }
+  for (const bond of bonds) {
+    lines.push(`${pad(bond.atom1 + 1, 3)}${pad(bond.atom2 + 1, 3)}${pad(bond.order, 3)}  0  0  0  0`);
+  }
+
+  const charged = atoms.flatMap((atom, i) => (atom.charge ? [[i + 1, atom.charge]] : []));
+  for (let i = 0; i < charged.length; i += 8) {
+    const entries = charged.slice(i, i + 8);
+    lines.push(`M  CHG${pad(entries.length, 3)}${entries.map(([index, charge]) => `${pad(index, 4)}${pad(charge, 4)}`).join('')}`);
+  }
+
+  lines.push('M  END', '$$$$');
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// Valence and aromaticity
+// ============================================================================
+
+function implicitHydrogens(atom: SmilesAtom, bonds: SmilesBond[]): number {
+  const valences = VALENCES[atom.element] ?? [];
+  const bondSum = bonds.reduce((sum, bond) => sum + (bond.aromatic ? 1 : bond.order), 0);
+  if (atom.aromatic && bondSum >= (valences[0] ?? 0)) return 0;
+
+  const needed = bondSum + (atom.aromatic ? 1 : 0);
+  const valence = valences.find((v) => v >= needed);
+  return valence === undefined ? 0 : valence - needed;
+}
+
+/**
+ * Assign alternating double bonds to aromatic bonds so every aromatic atom
+ * that still has a free valence gets exactly one
+ */
+function kekulize(atoms: SmilesAtom[], bonds: SmilesBond[]): void {
+  const aromaticBonds = bonds.filter((bond) => bond.aromatic);
+  if (aromaticBonds.length === 0) return;
+
+  const needsDouble = new Set<number>();
+  atoms.forEach((atom, index) => {
+    if (!atom.aromatic) return;
+    const valence = (VALENCES[atom.element]?.[0] ?? 0) + (atom.element === 'N' || atom.element === 'P' ? atom.charge : -Math.abs(atom.charge));
+    const used = bonds.reduce((sum, bond) => sum + (bond.atom1 === index || bond.atom2 === index ? bond.order : 0), 0);
+    if (valence - used - atom.hydrogens === 1) needsDouble.add(index);
+  });
+
+  const matched = new Set<number>();
+  const candidates = (atom: number) =>
+    aromaticBonds.filter((bond) => {
+      const other = bond.atom1 === atom ? bond.atom2 : bond.atom2 === atom ? bond.atom1 : -1;
+      return other !== -1 && needsDouble.has(other) && !matched.has(other);
+    });
+
+  // Backtracking matching, most constrained atom first
+  const solve = (): boolean => {
+    const open = Array.from(needsDouble).filter((atom) => !matched.has(atom));
+    if (open.length === 0) return true;
+    const atom = open.reduce((best, a) => (candidates(a).length < candidates(best).length ? a : best), open[0]);
+    for (const bond of candidates(atom)) {
+      matched.add(bond.atom1).add(bond.atom2);
+      bond.order = 2;
+      if (solve()) return true;
+      bond.order = 1;
+      matched.delete(bond.atom1);
+      matched.delete(bond.atom2);
+    }
+    return false;
+  };
+
+  if (!solve()) {
+    throw new Error('Cannot kekulize aromatic system; write pyrrole-type nitrogens as [nH]');
+  }
+}
+
+function addHydrogens(molecule: SmilesMolecule): SmilesMolecule {
+  const atoms = [...molecule.atoms];
+  const bonds = [...molecule.bonds];
+  molecule.atoms.forEach((atom, index) => {
+    for (let h = 0; h < atom.hydrogens; h++) {
+      atoms.push({ element: 'H', charge: 0, aromatic: false, hydrogens: 0, x: 0, y: 0, z: 0 });
+      bonds.push({ atom1: index, atom2: atoms.length - 1, order: 1, aromatic: false });
+    }
+  });
+  return { atoms, bonds };
+}
+
+// ============================================================================
+// Embedding
+// ============================================================================
+
+interface Constraint {
+  i: number;
+  j: number;
+  target: number;
+  minimum: boolean; // Only pushes apart
+  weight: number;
+}
+
+function bondLength(molecule: SmilesMolecule, bond: SmilesBond): number {
+  const radius = (i: number) => COVALENT_RADII[molecule.atoms[i].element] ?? 0.77;
+  const shortening = bond.aromatic ? 0.12 : bond.order === 2 ? 0.2 : bond.order === 3 ? 0.34 : 0;
+  return radius(bond.atom1) + radius(bond.atom2) - shortening;
+}
+
+function buildConstraints(molecule: SmilesMolecule): Constraint[] {
+  const count = molecule.atoms.length;
+  const neighbours = Array.from({ length: count }, () => [] as Array<{ atom: number; bond: SmilesBond; length: number }>);
+  const constraints: Constraint[] = [];
+
+  for (const bond of molecule.bonds) {
+    const length = bondLength(molecule, bond);
+    neighbours[bond.atom1].push({ atom: bond.atom2, bond, length });
+    neighbours[bond.atom2].push({ atom: bond.atom1, bond, length });
+    constraints.push({ i: bond.atom1, j: bond.atom2, target: length, minimum: false, weight: 1 });
+  }
+
+  // Topological distances for ring sizes and non-bonded contacts
+  const topology = neighbours.map((_, start) => {
+    const distance = new Array<number>(count).fill(Infinity);
+    distance[start] = 0;
+    const queue = [start];
+    while (queue.length > 0) {
+      const atom = queue.shift()!;
+      for (const { atom: next } of neighbours[atom]) {
+        if (distance[next] === Infinity) {
+          distance[next] = distance[atom] + 1;
+          queue.push(next);
+        }
+      }
+    }
+    return distance;
+  });
+
+  const hybridisation = molecule.atoms.map((atom, index) => {
+    const bonds = neighbours[index].map(({ bond }) => bond);
+    if (bonds.some((bond) => bond.order === 3) || bonds.filter((bond) => bond.order === 2).length >= 2) return 'sp';
+    if (atom.aromatic || bonds.some((bond) => bond.order === 2)) return 'sp2';
+    // Lone pairs conjugated with a neighbouring pi system (amides, esters, anilines)
+    const conjugated = neighbours[index].some(({ atom: other }) =>
+      neighbours[other].some(({ bond }) => bond.order === 2 || bond.aromatic)
+    );
+    return (atom.element === 'N' || atom.element === 'O') && conjugated && neighbours[index].length <= 3 ? 'sp2' : 'sp3';
+  });
+
+  molecule.atoms.forEach((_, centre) => {
+    const around = neighbours[centre];
+    if (around.length < 2) return;
+
+    const pairs: Array<{ a: (typeof around)[number]; b: (typeof around)[number]; angle: number | null }> = [];
+    for (let p = 0; p < around.length; p++) {
+      for (let q = p + 1; q < around.length; q++) {
+        const ring = smallestRing(around[p].atom, around[q].atom, centre, neighbours);
+        pairs.push({ a: around[p], b: around[q], angle: ring ? ringAngle(ring, hybridisation[centre]) : null });
+      }
+    }
+
+    const base = hybridisation[centre] === 'sp' ? 180 : hybridisation[centre] === 'sp2' ? 120 : 109.47;
+    const free = pairs.filter((pair) => pair.angle === null);
+    const fixed = pairs.reduce((sum, pair) => sum + (pair.angle ?? 0), 0);
+    // Planar centres share 360° between their three angles
+    const freeAngle = hybridisation[centre] === 'sp2' && around.length === 3 && free.length > 0 && free.length < 3
+      ? (360 - fixed) / free.length
+      : base;
+
+    for (const { a, b, angle } of pairs) {
+      const theta = ((angle ?? freeAngle) * Math.PI) / 180;
+      const target = Math.sqrt(a.length ** 2 + b.length ** 2 - 2 * a.length * b.length * Math.cos(theta));
+      constraints.push({ i: a.atom, j: b.atom, target, minimum: false, weight: 0.5 });
+    }
+  });
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      if (topology[i][j] < 3) continue;
+      const hydrogen = molecule.atoms[i].element === 'H' || molecule.atoms[j].element === 'H';
+      const target = topology[i][j] === 3 ? (hydrogen ? 2.2 : 2.5) : hydrogen ? 2.4 : 3.0;
+      constraints.push({ i, j, target, minimum: true, weight: 0.3 });
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * Size of the smallest ring through a-centre-b, up to 8 atoms
+ */
+function smallestRing(
+  a: number,
+  b: number,
+  centre: number,
+  neighbours: Array<Array<{ atom: number }>>
+): number | null {
+  const distance = new Map<number, number>([[a, 0]]);
+  const queue = [a];
+  while (queue.length > 0) {
+    const atom = queue.shift()!;
+    const d = distance.get(atom)!;
+    if (atom === b) return d + 2;
+    if (d >= 6) continue;
+    for (const { atom: next } of neighbours[atom]) {
+      if (next !== centre && !distance.has(next)) {
+        distance.set(next, d + 1);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
+
+function ringAngle(size: number, hybridisation: string): number {
+  const polygon = (180 * (size - 2)) / size;
+  if (hybridisation === 'sp3') {
+    return size === 3 ? 60 : size === 4 ? 88 : size === 5 ? 104 : 109.47;
+  }
+  return polygon;
+}
+
+/**
+ * Relax from a random tree-shaped start, first in 4D and then squeezed into 3D
+ */
+function embed(molecule: SmilesMolecule, constraints: Constraint[], random: () => number): { positions: number[][]; error: number } {
+  const count = molecule.atoms.length;
+  const positions: number[][] = new Array(count);
+  const placed = new Set<number>();
+
+  const direction = () => {
+    const v = [0, 0, 0, 0].map(() => random() * 2 - 1);
+    const norm = Math.hypot(...v) || 1;
+    return v.map((x) => x / norm);
+  };
+
+  for (let root = 0; root < count; root++) {
+    if (placed.has(root)) continue;
+    positions[root] = [0, 1, 2, 3].map(() => (random() - 0.5) * 4);
+    placed.add(root);
+    const queue = [root];
+    while (queue.length > 0) {
+      const atom = queue.shift()!;
+      for (const bond of molecule.bonds) {
+        const next = bond.atom1 === atom ? bond.atom2 : bond.atom2 === atom ? bond.atom1 : -1;
+        if (next === -1 || placed.has(next)) continue;
+        const length = bondLength(molecule, bond);
+        positions[next] = direction().map((d, axis) => positions[atom][axis] + d * length);
+        placed.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  const sweeps = 600;
+  const delta = new Float64Array(4);
+  for (let sweep = 0; sweep < sweeps; sweep++) {
+    for (const { i, j, target, minimum, weight } of constraints) {
+      const a = positions[i];
+      const b = positions[j];
+      let squared = 0;
+      for (let axis = 0; axis < 4; axis++) {
+        delta[axis] = b[axis] - a[axis];
+        squared += delta[axis] * delta[axis];
+      }
+      if (minimum && squared >= target * target) continue;
+      const distance = Math.sqrt(squared) || 1e-6;
+      const correction = (weight * 0.5 * (distance - target)) / distance;
+      for (let axis = 0; axis < 4; axis++) {
+        a[axis] += correction * delta[axis];
+        b[axis] -= correction * delta[axis];
+      }
+    }
+
+    // Collapse the fourth dimension over the second half
+    if (sweep >= sweeps / 2) {
+      const scale = sweep >= sweeps * 0.8 ? 0 : 0.9;
+      positions.forEach((p) => (p[3] *= scale));
+    }
+  }
+
+  const error = constraints.reduce((sum, { i, j, target, minimum, weight }) => {
+    const distance = Math.hypot(...[0, 1, 2].map((axis) => positions[j][axis] - positions[i][axis]));
+    const violation = minimum ? Math.max(0, target - distance) : distance - target;
+    return sum + weight * violation * violation;
+  }, 0);
+
+  return { positions: positions.map((p) => p.slice(0, 3)), error };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function capitalise(symbol: string): string {
+  return symbol[0].toUpperCase() + symbol.slice(1).toLowerCase();
+}
+
+function parseCharge(text: string | undefined): number {
+  if (!text) return 0;
+  const sign = text[0] === '+' ? 1 : -1;
+  const digits = text.replace(/[+-]/g, '');
+  return sign * (digits ? parseInt(digits) : text.length);
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width);
+}
+
+// Small seeded PRNG so builds are reproducible
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Structure Comparison
+ * Sequence-guided superposition of C-alpha traces with global and
+ * per-residue RMSD (positions in Å)
+ */
+
+import type { Atom } from './pdb-parser';
+import { ResidueValue, Superposition, applySuperposition, superpose } from './md-analysis';
+import { PairwiseAlignment, alignGlobal, residueCode } from './sequence-alignment';
+
+export interface CAResidue {
+  chainId: string;
+  residueSeq: number;
+  residueName: string;
+  position: [number, number, number];
+}
+
+export interface StructureComparison {
+  alignment: PairwiseAlignment;
+  superposition: Superposition; // Mobile onto reference
+  rmsd: number; // Å over aligned C-alpha pairs
+  alignedCount: number;
+  reference: ResidueValue[]; // C-alpha distance per aligned reference residue
+  mobile: ResidueValue[]; // C-alpha distance per aligned mobile residue
+}
+
+const MIN_ALIGNED = 3;
+
+/**
+ * C-alpha trace of a parsed structure, optionally restricted to chains
+ * (first alternate location only; calcium ions named CA are skipped)
+ */
+export function caResidues(atoms: Atom[], chainIds?: string[]): CAResidue[] {
+  const seen = new Set<string>();
+  const residues: CAResidue[] = [];
+
+  for (const atom of atoms) {
+    if (atom.name.trim() !== 'CA' || atom.element.trim().toUpperCase() === 'CA') continue;
+    if (chainIds && !chainIds.includes(atom.chainID)) continue;
+
+    const key = `${atom.chainID}:${atom.resSeq}${atom.iCode ?? ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    residues.push({
+      chainId: atom.chainID,
+      residueSeq: atom.resSeq,
+      residueName: atom.resName,
+      position: [atom.x, atom.y, atom.z]
+    });
+  }
+
+  return residues;
+}
+
+/**
+ * Align the sequences of two C-alpha traces, then fit the aligned pairs of
+ * mobile onto reference (Kabsch) and measure each pair's deviation
+ */
+export function compareStructures(reference: CAResidue[], mobile: CAResidue[]): StructureComparison {
+  const sequence = (residues: CAResidue[]) => residues.map(r => residueCode(r.residueName)).join('');
+  const alignment = alignGlobal(sequence(reference), sequence(mobile), { freeEndGaps: true });
+
+  if (alignment.pairs.length < MIN_ALIGNED) {
+    throw new Error(`Too few aligned residues to superpose (${alignment.pairs.length})`);
+  }
+
+  const referenceCoordinates = new Float64Array(alignment.pairs.length * 3);
+  const mobileCoordinates = new Float64Array(alignment.pairs.length * 3);
+  alignment.pairs.forEach(([r, m], k) => {
+    referenceCoordinates.set(reference[r].position, k * 3);
+    mobileCoordinates.set(mobile[m].position, k * 3);
+  });
+
+  const fit = superpose(mobileCoordinates, referenceCoordinates);
+  const fitted = applySuperposition(mobileCoordinates, fit);
+
+  const referenceValues: ResidueValue[] = [];
+  const mobileValues: ResidueValue[] = [];
+  alignment.pairs.forEach(([r, m], k) => {
+    const value = Math.hypot(
+      fitted[k * 3] - referenceCoordinates[k * 3],
+      fitted[k * 3 + 1] - referenceCoordinates[k * 3 + 1],
+      fitted[k * 3 + 2] - referenceCoordinates[k * 3 + 2]
+    );
+    const { chainId, residueSeq, residueName } = reference[r];
+    referenceValues.push({ chainId, residueSeq, residueName, value });
+    mobileValues.push({
+      chainId: mobile[m].chainId,
+      residueSeq: mobile[m].residueSeq,
+      residueName: mobile[m].residueName,
+      value
+    });
+  });
+
+  return {
+    alignment,
+    superposition: fit,
+    rmsd: fit.rmsd,
+    alignedCount: alignment.pairs.length,
+    reference: referenceValues,
+    mobile: mobileValues
+  };
+}
+
+/**
+ * Root-mean-square of each reference residue's deviation across several
+ * comparisons, for colouring the reference of a multi-structure comparison
+ */
+export function combineDeviations(deviations: ResidueValue[][]): ResidueValue[] {
+  const combined = new Map<string, ResidueValue & { count: number }>();
+
+  for (const residues of deviations) {
+    for (const residue of residues) {
+      const key = `${residue.chainId}:${residue.residueSeq}`;
+      const entry = combined.get(key) ?? { ...residue, value: 0, count: 0 };
+      entry.value += residue.value * residue.value;
+      entry.count++;
+      combined.set(key, entry);
+    }
+  }
+
+  return Array.from(combined.values(), ({ count, ...residue }) => ({
+    ...residue,
+    value: Math.sqrt(residue.value / count)
+  }));
+}
+
+/**
+ * 4x4 column-major matrix applying a superposition followed by a translation
+ * (identity rotation when no superposition is given)
+ */
+export function superpositionMatrix(
+  fit?: Superposition,
+  offset: [number, number, number] = [0, 0, 0]
+): number[] {
+  const R = fit?.rotation ?? [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  const c = fit?.mobileCenter ?? [0, 0, 0];
+  const t = fit?.referenceCenter ?? [0, 0, 0];
+
+  const translation = [0, 1, 2].map(
+    row => t[row] + offset[row] - (R[row * 3] * c[0] + R[row * 3 + 1] * c[1] + R[row * 3 + 2] * c[2])
+  );
+
+  return [
+    R[0], R[3], R[6], 0,
+    R[1], R[4], R[7], 0,
+    R[2], R[5], R[8], 0,
+    translation[0], translation[1], translation[2], 1
+  ];
+}
+
+/**
+ * Offsets placing superposed structures in a row along x, far enough apart
+ * that the largest one does not touch its neighbours
+ */
+export function sideBySideOffsets(structures: CAResidue[][], gap: number = 10): Array<[number, number, number]> {
+  let radius = 0;
+  for (const residues of structures) {
+    if (residues.length === 0) continue;
+    const center = [0, 1, 2].map(d => residues.reduce((sum, r) => sum + r.position[d], 0) / residues.length);
+    for (const { position } of residues) {
+      radius = Math.max(radius, Math.hypot(position[0] - center[0], position[1] - center[1], position[2] - center[2]));
+    }
+  }
+
+  const spacing = 2 * radius + gap;
+  return structures.map((_, i): [number, number, number] => [i * spacing, 0, 0]);
+}
@@ -0,0 +1,191 @@
+/**
+ * Structure Version Diffs
+ * Summarises a parsed structure file and compares two summaries, so a new
+ * upload can be described against the previous version without keeping
+ * either file in memory
+ */
+
+import type { ParsedStructure } from './pdb-parser';
+
+export interface ChainSummary {
+  id: string;
+  atomCount: number;
+  residueCount: number;
+}
+
+export interface StructureSummary {
+  format: ParsedStructure['format'];
+  atomCount: number;
+  residueCount: number;
+  heteroAtomCount: number;
+  modelCount: number;
+  chains: ChainSummary[];
+  metadata: {
+    title?: string;
+    method?: string;
+    resolution?: number;
+    authors?: string[];
+    organisms?: string[];
+  };
+}
+
+export interface CountChange {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ChainChange {
+  id: string;
+  atomCount: CountChange;
+  residueCount: CountChange;
+}
+
+export interface MetadataChange {
+  field: keyof StructureSummary['metadata'];
+  before: unknown;
+  after: unknown;
+}
+
+export interface StructureDiff {
+  atomCount: CountChange;
+  residueCount: CountChange;
+  chains: {
+    added: string[];
+    removed: string[];
+    changed: ChainChange[];
+  };
+  metadata: MetadataChange[];
+}
+
+const METADATA_FIELDS: Array<keyof StructureSummary['metadata']> = [
+  'title', 'method', 'resolution', 'authors', 'organisms',
+];
+
+/**
+ * Counts and header metadata of a parsed file, in chain order of first appearance
+ */
+export function summarizeStructure(structure: ParsedStructure): StructureSummary {
+  const chains = new Map<string, { atomCount: number; residues: Set<string> }>();
+  for (const atom of structure.atoms) {
+    let chain = chains.get(atom.chainID);
+    if (!chain) {
+      chain = { atomCount: 0, residues: new Set() };
+      chains.set(atom.chainID, chain);
+    }
+    chain.atomCount++;
+    chain.residues.add(`${atom.resSeq}${atom.iCode ?? ''}`);
+  }
+
+  const { title, method, resolution, authors, organisms } = structure.metadata;
+  const metadata: StructureSummary['metadata'] = {};
+  if (title) metadata.title = title;
+  if (method) metadata.method = method;
+  if (resolution !== undefined) metadata.resolution = resolution;
+  if (authors?.length) metadata.authors = authors;
+  if (organisms?.length) metadata.organisms = organisms;
+
+  return {
+    format: structure.format,
+    atomCount: structure.statistics.atomCount,
+    residueCount: structure.statistics.residueCount,
+    heteroAtomCount: structure.statistics.heteroAtomCount,
+    modelCount: structure.statistics.modelCount,
+    chains: Array.from(chains, ([id, chain]) => ({
+      id,
+      atomCount: chain.atomCount,
+      residueCount: chain.residues.size,
+    })),
+    metadata,
+  };
+}
+
+function countChange(before: number, after: number): CountChange {
+  return { before, after, delta: after - before };
+}
+
+/**
+ * Changes from one version's summary to the next
+ */
+export function diffStructures(before: StructureSummary, after: StructureSummary): StructureDiff {
+  const beforeChains = new Map(before.chains.map((chain) => [chain.id, chain]));
+  const afterChains = new Map(after.chains.map((chain) => [chain.id, chain]));
+
+  const changed: ChainChange[] = [];
+  for (const chain of after.chains) {
+    const previous = beforeChains.get(chain.id);
+    if (previous && (previous.atomCount !== chain.atomCount || previous.residueCount !== chain.residueCount)) {
+      changed.push({
+        id: chain.id,
+        atomCount: countChange(previous.atomCount, chain.atomCount),
+        residueCount: countChange(previous.residueCount, chain.residueCount),
+      });
+    }
+  }
+
+  const metadata: MetadataChange[] = [];
+  for (const field of METADATA_FIELDS) {
+    const a = before.metadata[field];
+    const b = after.metadata[field];
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      metadata.push({ field, before: a ?? null, after: b ?? null });
+    }
+  }
+
+  return {
+    atomCount: countChange(before.atomCount, after.atomCount),
+    residueCount: countChange(before.residueCount, after.residueCount),
+    chains: {
+      added: after.chains.filter((chain) => !beforeChains.has(chain.id)).map((chain) => chain.id),
+      removed: before.chains.filter((chain) => !afterChains.has(chain.id)).map((chain) => chain.id),
+      changed,
+    },
+    metadata,
+  };
+}
+
+export function isEmptyDiff(diff: StructureDiff): boolean {
+  return diff.atomCount.delta === 0 &&
+    diff.residueCount.delta === 0 &&
+    diff.chains.added.length === 0 &&
+    diff.chains.removed.length === 0 &&
+    diff.chains.changed.length === 0 &&
+    diff.metadata.length === 0;
+}
+
+function signedCount(delta: number, word: string): string {
+  return `${delta > 0 ? '+' : ''}${delta} ${word}${Math.abs(delta) === 1 ? '' : 's'}`;
+}
+
+/**
+ * One-line description of a diff, e.g. "+120 atoms; chain C added; resolution 2.1 → 1.9"
+ */
+export function describeDiff(diff: StructureDiff): string {
+  if (isEmptyDiff(diff)) {
+    return 'No structural changes';
+  }
+
+  const parts: string[] = [];
+  if (diff.atomCount.delta !== 0) {
+    parts.push(signedCount(diff.atomCount.delta, 'atom'));
+  }
+  if (diff.residueCount.delta !== 0) {
+    parts.push(signedCount(diff.residueCount.delta, 'residue'));
+  }
+  if (diff.chains.added.length) {
+    parts.push(`${diff.chains.added.length === 1 ? 'chain' : 'chains'} ${diff.chains.added.join(', ')} added`);
+  }
+  if (diff.chains.removed.length) {
+    parts.push(`${diff.chains.removed.length === 1 ? 'chain' : 'chains'} ${diff.chains.removed.join(', ')} removed`);
+  }
+  for (const field of diff.metadata) {
+    const format = (value: unknown) => (Array.isArray(value) ? value.join(', ') : value ?? 'none');
+    parts.push(`${field.field} ${format(field.before)} → ${format(field.after)}`);
+  }
+  if (parts.length === 0) {
+    // Same totals, but atoms moved between chains
+    parts.push(`chains ${diff.chains.changed.map((chain) => chain.id).join(', ')} changed`);
+  }
+
+  return parts.join('; ');
+}
@@ -0,0 +1,291 @@
+/**
+ * Surface Properties
+ *
+ * Per-atom values used to color molecular surfaces
+ * - Electrostatic potential in kT/e at 298 K, from Coulomb's law with a
+ *   distance-dependent dielectric or a linearised Poisson–Boltzmann grid
+ * - Kyte–Doolittle hydrophobicity of the atom's residue
+ * - Charges are formal charges at pH 7; potentials are sampled at atom centres
+ */
+
+import type { Atom } from '@/types/pdb';
+
+export type SurfaceProperty = 'electrostatic' | 'hydrophobicity' | 'conservation';
+
+export type ElectrostaticsMethod = 'coulomb' | 'poisson-boltzmann';
+
+export interface SurfacePropertyScale {
+  label: string;
+  unit: string;
+  range: [number, number]; // Default color range
+  limits: [number, number]; // Widest sensible range
+  colors: string[]; // Low to high
+}
+
+export const SURFACE_PROPERTY_SCALES: Record<SurfaceProperty, SurfacePropertyScale> = {
+  electrostatic: {
+    label: 'Electrostatic potential',
+    unit: 'kT/e',
+    range: [-5, 5],
+    limits: [-20, 20],
+    colors: ['#d62728', '#ffffff', '#1f5bd6'],
+  },
+  hydrophobicity: {
+    label: 'Hydrophobicity (Kyte–Doolittle)',
+    unit: '',
+    range: [-4.5, 4.5],
+    limits: [-4.5, 4.5],
+    colors: ['#008b8b', '#ffffff', '#daa520'],
+  },
+  conservation: {
+    label: 'Conservation',
+    unit: '',
+    range: [0, 1],
+    limits: [0, 1],
+    colors: ['#10c8d1', '#ffffff', '#a02560'],
+  },
+};
+
+/**
+ * Kyte & Doolittle (1982) hydropathy index
+ */
+export const KYTE_DOOLITTLE: Record<string, number> = {
+  ILE: 4.5, VAL: 4.2, LEU: 3.8, PHE: 2.8, CYS: 2.5, MET: 1.9, ALA: 1.8,
+  GLY: -0.4, THR: -0.7, SER: -0.8, TRP: -0.9, TYR: -1.3, PRO: -1.6,
+  HIS: -3.2, GLU: -3.5, GLN: -3.5, ASP: -3.5, ASN: -3.5, LYS: -3.9, ARG: -4.5,
+};
+
+/**
+ * Atom reduced to what the electrostatics solvers need
+ */
+export interface ChargedAtom {
+  x: number;
+  y: number;
+  z: number;
+  charge: number; // e
+  radius: number; // Å
+}
+
+export interface PoissonBoltzmannOptions {
+  spacing?: number; // Å, grown so the grid stays within maxPoints per axis
+  maxPoints?: number; // Per axis, default 65
+  margin?: number; // Å of solvent around the molecule, default 10
+  ionicStrength?: number; // M, default 0.15
+  interiorDielectric?: number; // Default 2
+  solventDielectric?: number; // Default 80
+  tolerance?: number; // kT/e, default 1e-3
+  maxIterations?: number; // Default 500
+}
+
+const COULOMB = 332.0636; // kcal·Å/(mol·e²)
+const KT = 0.5925; // kcal/mol at 298 K
+const MIN_DISTANCE = 1; // Å, keeps overlapping charges finite
+
+const SIDE_CHAIN_CHARGES: Record<string, Record<string, number>> = {
+  ARG: { NH1: 0.5, NH2: 0.5 },
+  LYS: { NZ: 1 },
+  ASP: { OD1: -0.5, OD2: -0.5 },
+  GLU: { OE1: -0.5, OE2: -0.5 },
+};
+
+const ION_CHARGES: Record<string, number> = {
+  NA: 1, K: 1, LI: 1, MG: 2, CA: 2, ZN: 2, MN: 2, FE: 2, CO: 2, NI: 2, CU: 2, CD: 2, CL: -1, BR: -1, I: -1,
+};
+
+const VDW_RADII: Record<string, number> = { H: 1.1, C: 1.7, N: 1.55, O: 1.52, S: 1.8, P: 1.8 };
+
+const WATER = new Set(['HOH', 'WAT', 'DOD']);
+
+/**
+ * Formal charge of each atom at pH 7: charged side chains, chain termini
+ * and monatomic ions; histidine is taken as neutral
+ */
+export function atomCharges(atoms: Atom[]): number[] {
+  const firstN = new Map<string, number>(); // Chain → index of its first backbone N
+  atoms.forEach((atom, i) => {
+    if (!atom.isLigand && atom.name === 'N' && !firstN.has(atom.chain)) firstN.set(atom.chain, i);
+  });
+
+  return atoms.map((atom, i) => {
+    if (atom.isLigand) {
+      const residueName = atom.residue.toUpperCase();
+      return residueName === atom.element.toUpperCase() ? ION_CHARGES[residueName] ?? 0 : 0;
+    }
+    if (atom.name === 'OXT') return -1;
+    if (firstN.get(atom.chain) === i) return 1;
+    return SIDE_CHAIN_CHARGES[atom.residue]?.[atom.name] ?? 0;
+  });
+}
+
+/**
+ * Whether an atom belongs to a water molecule; waters are left out of the
+ * electrostatics so the solvent stays continuous
+ */
+export function isWater(atom: Atom): boolean {
+  return WATER.has(atom.residue);
+}
+
+/**
+ * Atoms with their formal charges and van der Waals radii, in input order
+ */
+export function chargedAtoms(atoms: Atom[]): ChargedAtom[] {
+  const charges = atomCharges(atoms);
+  return atoms.map((atom, i) => ({
+    x: atom.x,
+    y: atom.y,
+    z: atom.z,
+    charge: charges[i],
+    radius: VDW_RADII[atom.element.toUpperCase()] ?? 1.7,
+  }));
+}
+
+/**
+ * Potential at each atom from every other charge, with ε = 4r
+ */
+export function coulombPotential(atoms: ChargedAtom[]): number[] {
+  const charges = atoms.filter((atom) => atom.charge !== 0);
+
+  return atoms.map((atom) => {
+    let potential = 0;
+    for (const source of charges) {
+      if (source === atom) continue;
+      const r = Math.max(MIN_DISTANCE, Math.hypot(atom.x - source.x, atom.y - source.y, atom.z - source.z));
+      potential += source.charge / (4 * r * r);
+    }
+    return (COULOMB * potential) / KT;
+  });
+}
+
+/**
+ * Potential at each atom from the linearised Poisson–Boltzmann equation,
+ * solved by successive over-relaxation on a cubic grid with a van der Waals
+ * dielectric boundary and Debye–Hückel values on the grid faces
+ */
+export function poissonBoltzmannPotential(atoms: ChargedAtom[], options: PoissonBoltzmannOptions = {}): number[] {
+  const {
+    maxPoints = 65,
+    margin = 10,
+    ionicStrength = 0.15,
+    interiorDielectric = 2,
+    solventDielectric = 80,
+    tolerance = 1e-3,
+    maxIterations = 500,
+  } = options;
+
+  if (atoms.length === 0) return [];
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const atom of atoms) {
+    [atom.x, atom.y, atom.z].forEach((value, axis) => {
+      min[axis] = Math.min(min[axis], value);
+      max[axis] = Math.max(max[axis], value);
+    });
+  }
+  const extent = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) + 2 * margin;
+  const spacing = Math.max(options.spacing ?? 1, extent / (maxPoints - 1));
+  const dims = [0, 1, 2].map((axis) => Math.min(maxPoints, Math.ceil((max[axis] - min[axis] + 2 * margin) / spacing) + 1));
+  const origin = [0, 1, 2].map((axis) => (min[axis] + max[axis]) / 2 - ((dims[axis] - 1) * spacing) / 2);
+  const [nx, ny, nz] = dims;
+  const index = (i: number, j: number, k: number) => (k * ny + j) * nx + i;
+  const total = nx * ny * nz;
+
+  // Dielectric map: interior inside any atom's van der Waals sphere
+  const epsilon = new Float32Array(total).fill(solventDielectric);
+  for (const atom of atoms) {
+    const lo = [atom.x, atom.y, atom.z].map((value, axis) => Math.max(0, Math.floor((value - atom.radius - origin[axis]) / spacing)));
+    const hi = [atom.x, atom.y, atom.z].map((value, axis) => Math.min(dims[axis] - 1, Math.ceil((value + atom.radius - origin[axis]) / spacing)));
+    for (let k = lo[2]; k <= hi[2]; k++) {
+      for (let j = lo[1]; j <= hi[1]; j++) {
+        for (let i = lo[0]; i <= hi[0]; i++) {
+          const dx = origin[0] + i * spacing - atom.x;
+          const dy = origin[1] + j * spacing - atom.y;
+          const dz = origin[2] + k * spacing - atom.z;
+          if (dx * dx + dy * dy + dz * dz <= atom.radius * atom.radius) epsilon[index(i, j, k)] = interiorDielectric;
+        }
+      }
+    }
+  }
+
+  // Charges spread trilinearly onto the eight surrounding nodes
+  const charge = new Float32Array(total);
+  const charges = atoms.filter((atom) => atom.charge !== 0);
+  for (const atom of charges) {
+    const g = [atom.x, atom.y, atom.z].map((value, axis) => (value - origin[axis]) / spacing);
+    const base = g.map((value, axis) => Math.min(dims[axis] - 2, Math.max(0, Math.floor(value))));
+    const frac = g.map((value, axis) => value - base[axis]);
+    for (let corner = 0; corner < 8; corner++) {
+      const offset = [corner & 1, (corner >> 1) & 1, (corner >> 2) & 1];
+      const weight = offset.reduce((w, o, axis) => w * (o ? frac[axis] : 1 - frac[axis]), 1);
+      charge[index(base[0] + offset[0], base[1] + offset[1], base[2] + offset[2])] += atom.charge * weight;
+    }
+  }
+
+  const kappa = Math.sqrt(ionicStrength) / 3.04; // Inverse Debye length in Å at 298 K
+  const screening = kappa * kappa * spacing * spacing * solventDielectric;
+  const source = (4 * Math.PI * COULOMB) / (KT * spacing);
+  const potential = new Float32Array(total);
+
+  // Boundary: screened Coulomb potential in solvent
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        if (i > 0 && j > 0 && k > 0 && i < nx - 1 && j < ny - 1 && k < nz - 1) continue;
+        let value = 0;
+        for (const atom of charges) {
+          const r = Math.hypot(origin[0] + i * spacing - atom.x, origin[1] + j * spacing - atom.y, origin[2] + k * spacing - atom.z);
+          value += (atom.charge * Math.exp(-kappa * r)) / (solventDielectric * Math.max(MIN_DISTANCE, r));
+        }
+        potential[index(i, j, k)] = (COULOMB * value) / KT;
+      }
+    }
+  }
+
+  const omega = 2 / (1 + Math.sin(Math.PI / Math.max(nx, ny, nz))); // Optimal over-relaxation for a cube
+  const strides = [1, nx, nx * ny];
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let change = 0;
+    for (let k = 1; k < nz - 1; k++) {
+      for (let j = 1; j < ny - 1; j++) {
+        for (let i = 1; i < nx - 1; i++) {
+          const n = index(i, j, k);
+          const e = epsilon[n];
+          let weights = 0;
+          let sum = 0;
+          for (const stride of strides) {
+            const below = (e + epsilon[n - stride]) / 2;
+            const above = (e + epsilon[n + stride]) / 2;
+            weights += below + above;
+            sum += below * potential[n - stride] + above * potential[n + stride];
+          }
+          const ions = e === solventDielectric ? screening : 0;
+          const updated = (sum + source * charge[n]) / (weights + ions);
+          const delta = omega * (updated - potential[n]);
+          potential[n] += delta;
+          change = Math.max(change, Math.abs(delta));
+        }
+      }
+    }
+    if (change < tolerance) break;
+  }
+
+  return atoms.map((atom) => {
+    const g = [atom.x, atom.y, atom.z].map((value, axis) => (value - origin[axis]) / spacing);
+    const base = g.map((value, axis) => Math.min(dims[axis] - 2, Math.max(0, Math.floor(value))));
+    const frac = g.map((value, axis) => value - base[axis]);
+    let value = 0;
+    for (let corner = 0; corner < 8; corner++) {
+      const offset = [corner & 1, (corner >> 1) & 1, (corner >> 2) & 1];
+      const weight = offset.reduce((w, o, axis) => w * (o ? frac[axis] : 1 - frac[axis]), 1);
+      value += potential[index(base[0] + offset[0], base[1] + offset[1], base[2] + offset[2])] * weight;
+    }
+    return value;
+  });
+}
+
+/**
+ * Kyte–Doolittle index of each atom's residue; NaN for non-amino acids
+ */
+export function hydrophobicityValues(atoms: Atom[]): number[] {
+  return atoms.map((atom) => KYTE_DOOLITTLE[atom.residue] ?? NaN);
+}
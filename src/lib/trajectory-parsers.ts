@@ -0,0 +1,645 @@
+/**
+ * Trajectory File Parsers
+ * Readers for DCD (CHARMM/NAMD), XTC and TRR (GROMACS) and multi-model PDB
+ * Frames are indexed up front and decoded on demand; coordinates are in Å
+ */
+
+import type { Vec3 } from './md-box';
+
+export type TrajectoryFormat = 'dcd' | 'xtc' | 'trr' | 'pdb';
+
+export interface TrajectoryBox {
+  lengths: Vec3; // Å
+  angles: Vec3; // degrees (alpha, beta, gamma)
+}
+
+export interface TrajectoryFileFrame {
+  index: number;
+  time?: number; // ps
+  coordinates: Float32Array; // Å, flat [x0, y0, z0, x1, ...]
+  box?: TrajectoryBox;
+}
+
+export interface TrajectoryReader {
+  format: TrajectoryFormat;
+  atomCount: number;
+  frameCount: number;
+  readFrame(index: number): TrajectoryFileFrame;
+}
+
+const XTC_MAGIC = 1995;
+const TRR_MAGIC = 1993;
+const AKMA_TIME_PS = 0.0488882129; // CHARMM time unit in ps
+
+/**
+ * Determine the format from the file extension, falling back to magic numbers
+ */
+export function detectTrajectoryFormat(filename: string, data: ArrayBuffer): TrajectoryFormat {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'dcd' || extension === 'xtc' || extension === 'trr' || extension === 'pdb') {
+    return extension;
+  }
+  if (extension === 'ent') return 'pdb';
+
+  if (data.byteLength >= 8) {
+    const view = new DataView(data);
+    const magic = view.getInt32(0, false);
+    if (magic === XTC_MAGIC) return 'xtc';
+    if (magic === TRR_MAGIC) return 'trr';
+    if (view.getInt32(0, true) === 84 || view.getInt32(0, false) === 84) return 'dcd';
+  }
+  if (/^(MODEL|ATOM|HETATM|HEADER|CRYST1|REMARK)/m.test(new TextDecoder().decode(data.slice(0, 4096)))) {
+    return 'pdb';
+  }
+
+  throw new Error(`Unrecognized trajectory format: ${filename}`);
+}
+
+/**
+ * Create a reader for a trajectory file
+ */
+export function createTrajectoryReader(data: ArrayBuffer, format: TrajectoryFormat): TrajectoryReader {
+  switch (format) {
+    case 'dcd':
+      return new DCDReader(data);
+    case 'xtc':
+      return new XTCReader(data);
+    case 'trr':
+      return new TRRReader(data);
+    case 'pdb':
+      return new MultiModelPDBReader(new TextDecoder().decode(data));
+    default:
+      throw new Error(`Unsupported trajectory format: ${format}`);
+  }
+}
+
+function checkIndex(index: number, frameCount: number): void {
+  if (!Number.isInteger(index) || index < 0 || index >= frameCount) {
+    throw new Error(`Frame ${index} out of range (0-${frameCount - 1})`);
+  }
+}
+
+/**
+ * Box lengths and angles from GROMACS box vectors (nm)
+ */
+function boxFromVectors(vectors: number[]): TrajectoryBox | undefined {
+  const a = vectors.slice(0, 3);
+  const b = vectors.slice(3, 6);
+  const c = vectors.slice(6, 9);
+  const length = (v: number[]) => Math.hypot(v[0], v[1], v[2]);
+  if (length(a) === 0 || length(b) === 0 || length(c) === 0) return undefined;
+
+  const angle = (u: number[], v: number[]) =>
+    (Math.acos((u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / (length(u) * length(v))) * 180) / Math.PI;
+  return {
+    lengths: [length(a) * 10, length(b) * 10, length(c) * 10],
+    angles: [angle(b, c), angle(a, c), angle(a, b)]
+  };
+}
+
+// ============================================================================
+// DCD
+// ============================================================================
+
+class DCDReader implements TrajectoryReader {
+  readonly format = 'dcd' as const;
+  readonly atomCount: number;
+  readonly frameCount: number;
+
+  private view: DataView;
+  private littleEndian: boolean;
+  private firstFrame: number;
+  private frameSize: number;
+  private hasUnitCell: boolean;
+  private timePerFrame: number;
+  private startTime: number;
+
+  constructor(data: ArrayBuffer) {
+    this.view = new DataView(data);
+    if (data.byteLength < 92) {
+      throw new Error('DCD file is too short');
+    }
+
+    // The header record is always 84 bytes; its marker reveals the byte order
+    if (this.view.getInt32(0, true) === 84) {
+      this.littleEndian = true;
+    } else if (this.view.getInt32(0, false) === 84) {
+      this.littleEndian = false;
+    } else {
+      throw new Error('Invalid DCD header (64-bit record markers are not supported)');
+    }
+    if (new TextDecoder().decode(data.slice(4, 8)) !== 'CORD') {
+      throw new Error('Invalid DCD header: missing CORD signature');
+    }
+
+    const icntrl = (i: number) => this.view.getInt32(8 + i * 4, this.littleEndian);
+    const isCharmm = icntrl(19) !== 0;
+    const istart = icntrl(1);
+    const nsavc = icntrl(2) || 1;
+    const fixedAtoms = icntrl(8);
+    // CHARMM stores DELTA as a float, X-PLOR as a double
+    const delta = isCharmm
+      ? this.view.getFloat32(8 + 9 * 4, this.littleEndian)
+      : this.view.getFloat64(8 + 9 * 4, this.littleEndian);
+    this.hasUnitCell = isCharmm && icntrl(10) !== 0;
+    const has4D = isCharmm && icntrl(11) !== 0;
+
+    if (fixedAtoms > 0) {
+      throw new Error('DCD files with fixed atoms are not supported');
+    }
+
+    // Title record
+    let offset = 92;
+    const titleLength = this.record(offset);
+    offset += titleLength + 8;
+
+    // Atom count record
+    this.view.getInt32(offset, this.littleEndian);
+    this.atomCount = this.view.getInt32(offset + 4, this.littleEndian);
+    offset += 12;
+
+    const coordinateRecord = this.atomCount * 4 + 8;
+    this.firstFrame = offset;
+    this.frameSize = (this.hasUnitCell ? 56 : 0) + coordinateRecord * (has4D ? 4 : 3);
+    // NAMD may leave NSET at zero, so count frames from the file size
+    this.frameCount = Math.floor((data.byteLength - offset) / this.frameSize);
+    this.timePerFrame = delta * nsavc * AKMA_TIME_PS;
+    this.startTime = delta * istart * AKMA_TIME_PS;
+  }
+
+  readFrame(index: number): TrajectoryFileFrame {
+    checkIndex(index, this.frameCount);
+    let offset = this.firstFrame + index * this.frameSize;
+    let box: TrajectoryBox | undefined;
+
+    if (this.hasUnitCell) {
+      // A, gamma, B, beta, alpha, C; NAMD writes angle cosines
+      const cell = Array.from({ length: 6 }, (_, i) => this.view.getFloat64(offset + 4 + i * 8, this.littleEndian));
+      const toDegrees = (value: number) =>
+        Math.abs(value) <= 1 ? (Math.acos(value) * 180) / Math.PI : value;
+      box = {
+        lengths: [cell[0], cell[2], cell[5]],
+        angles: [toDegrees(cell[4]), toDegrees(cell[3]), toDegrees(cell[1])]
+      };
+      offset += 56;
+    }
+
+    const n = this.atomCount;
+    const coordinates = new Float32Array(n * 3);
+    for (let d = 0; d < 3; d++) {
+      const start = offset + 4;
+      for (let i = 0; i < n; i++) {
+        coordinates[i * 3 + d] = this.view.getFloat32(start + i * 4, this.littleEndian);
+      }
+      offset += n * 4 + 8;
+    }
+
+    return {
+      index,
+      time: this.startTime + index * this.timePerFrame,
+      coordinates,
+      box
+    };
+  }
+
+  private record(offset: number): number {
+    return this.view.getInt32(offset, this.littleEndian);
+  }
+}
+
+// ============================================================================
+// XTC
+// ============================================================================
+
+// Magic integers used by the XTC compression to pick bit sizes of small differences
+const MAGIC_INTS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 8, 10, 12, 16, 20, 25, 32, 40, 50, 64,
+  80, 101, 128, 161, 203, 256, 322, 406, 512, 645, 812, 1024, 1290,
+  1625, 2048, 2580, 3250, 4096, 5060, 6501, 8192, 10321, 13003,
+  16384, 20642, 26007, 32768, 41285, 52015, 65536, 82570, 104031,
+  131072, 165140, 208063, 262144, 330280, 416127, 524287, 660561,
+  832255, 1048576, 1321122, 1664510, 2097152, 2642245, 3329021,
+  4194304, 5284491, 6658042, 8388607, 10568983, 13316085, 16777216
+];
+const FIRST_IDX = 9;
+
+/**
+ * Bit reader over the compressed coordinate bytes
+ */
+class XTCBitReader {
+  private count = 0;
+  private lastBits = 0;
+  private lastByte = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  receiveBits(nbits: number): number {
+    let num = 0;
+    let remaining = nbits;
+
+    while (remaining >= 8) {
+      this.lastByte = ((this.lastByte << 8) | this.bytes[this.count++]) & 0xffff;
+      num += ((this.lastByte >> this.lastBits) & 0xff) * 2 ** (remaining - 8);
+      remaining -= 8;
+    }
+    if (remaining > 0) {
+      if (this.lastBits < remaining) {
+        this.lastBits += 8;
+        this.lastByte = ((this.lastByte << 8) | this.bytes[this.count++]) & 0xffff;
+      }
+      this.lastBits -= remaining;
+      num += (this.lastByte >> this.lastBits) & ((1 << remaining) - 1);
+    }
+
+    return num;
+  }
+
+  /**
+   * Decode three integers packed together in a mixed-radix number of nbits bits
+   */
+  receiveInts(nbits: number, sizes: number[], out: number[]): void {
+    const bytes: number[] = [];
+    let remaining = nbits;
+    while (remaining > 8) {
+      bytes.push(this.receiveBits(8));
+      remaining -= 8;
+    }
+    if (remaining > 0) {
+      bytes.push(this.receiveBits(remaining));
+    }
+
+    for (let i = 2; i > 0; i--) {
+      let num = 0;
+      for (let j = bytes.length - 1; j >= 0; j--) {
+        num = num * 256 + bytes[j];
+        const quotient = Math.floor(num / sizes[i]);
+        bytes[j] = quotient;
+        num -= quotient * sizes[i];
+      }
+      out[i] = num;
+    }
+    out[0] = (bytes[0] ?? 0) + (bytes[1] ?? 0) * 256 + (bytes[2] ?? 0) * 65536 + (bytes[3] ?? 0) * 16777216;
+  }
+}
+
+function sizeOfInt(size: number): number {
+  let num = 1;
+  let bits = 0;
+  while (size >= num && bits < 32) {
+    bits++;
+    num *= 2;
+  }
+  return bits;
+}
+
+function sizeOfInts(sizes: number[]): number {
+  const bytes = [1];
+  for (const size of sizes) {
+    let carry = 0;
+    for (let b = 0; b < bytes.length; b++) {
+      carry += bytes[b] * size;
+      bytes[b] = carry & 0xff;
+      carry = Math.floor(carry / 256);
+    }
+    while (carry !== 0) {
+      bytes.push(carry & 0xff);
+      carry = Math.floor(carry / 256);
+    }
+  }
+
+  let bits = 0;
+  let num = 1;
+  const top = bytes[bytes.length - 1];
+  while (top >= num) {
+    bits++;
+    num *= 2;
+  }
+  return bits + (bytes.length - 1) * 8;
+}
+
+/**
+ * Decompress XTC coordinates (port of xdrfile's xdrfile_decompress_coord_float)
+ */
+function decompressXTC(
+  bytes: Uint8Array,
+  atomCount: number,
+  precision: number,
+  minInt: number[],
+  maxInt: number[],
+  initialSmallIdx: number
+): Float32Array {
+  const output = new Float32Array(atomCount * 3);
+  const reader = new XTCBitReader(bytes);
+  const sizeInt = [0, 1, 2].map(d => maxInt[d] - minInt[d] + 1);
+  const inverse = 10 / precision; // nm -> Å
+
+  let bitSize = 0;
+  let bitSizeInt = [0, 0, 0];
+  if (sizeInt.some(size => size > 0xffffff)) {
+    bitSizeInt = sizeInt.map(sizeOfInt);
+  } else {
+    bitSize = sizeOfInts(sizeInt);
+  }
+
+  let smallIdx = initialSmallIdx;
+  let smaller = Math.floor(MAGIC_INTS[Math.max(FIRST_IDX, smallIdx - 1)] / 2);
+  let smallNum = Math.floor(MAGIC_INTS[smallIdx] / 2);
+  let sizeSmall = [MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx]];
+
+  const thisCoord = [0, 0, 0];
+  const prevCoord = [0, 0, 0];
+  let written = 0;
+  const emit = (coord: number[]) => {
+    output[written++] = coord[0] * inverse;
+    output[written++] = coord[1] * inverse;
+    output[written++] = coord[2] * inverse;
+  };
+
+  let i = 0;
+  let run = 0;
+  while (i < atomCount) {
+    if (bitSize === 0) {
+      thisCoord[0] = reader.receiveBits(bitSizeInt[0]);
+      thisCoord[1] = reader.receiveBits(bitSizeInt[1]);
+      thisCoord[2] = reader.receiveBits(bitSizeInt[2]);
+    } else {
+      reader.receiveInts(bitSize, sizeInt, thisCoord);
+    }
+    i++;
+    for (let d = 0; d < 3; d++) {
+      thisCoord[d] += minInt[d];
+      prevCoord[d] = thisCoord[d];
+    }
+
+    let isSmaller = 0;
+    if (reader.receiveBits(1) === 1) {
+      run = reader.receiveBits(5);
+      isSmaller = run % 3;
+      run -= isSmaller;
+      isSmaller--;
+    }
+
+    if (run > 0) {
+      for (let k = 0; k < run; k += 3) {
+        reader.receiveInts(smallIdx, sizeSmall, thisCoord);
+        i++;
+        for (let d = 0; d < 3; d++) {
+          thisCoord[d] += prevCoord[d] - smallNum;
+        }
+        if (k === 0) {
+          // The first two atoms of a run are swapped (water compresses better)
+          for (let d = 0; d < 3; d++) {
+            const swap = thisCoord[d];
+            thisCoord[d] = prevCoord[d];
+            prevCoord[d] = swap;
+          }
+          emit(prevCoord);
+        } else {
+          for (let d = 0; d < 3; d++) prevCoord[d] = thisCoord[d];
+        }
+        emit(thisCoord);
+      }
+    } else {
+      emit(thisCoord);
+    }
+
+    smallIdx += isSmaller;
+    if (isSmaller < 0) {
+      smallNum = smaller;
+      smaller = smallIdx > FIRST_IDX ? Math.floor(MAGIC_INTS[smallIdx - 1] / 2) : 0;
+    } else if (isSmaller > 0) {
+      smaller = smallNum;
+      smallNum = Math.floor(MAGIC_INTS[smallIdx] / 2);
+    }
+    sizeSmall = [MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx]];
+  }
+
+  return output;
+}
+
+class XTCReader implements TrajectoryReader {
+  readonly format = 'xtc' as const;
+  readonly atomCount: number;
+  readonly frameCount: number;
+
+  private view: DataView;
+  private offsets: number[] = [];
+
+  constructor(private data: ArrayBuffer) {
+    this.view = new DataView(data);
+    if (data.byteLength < 56 || this.view.getInt32(0, false) !== XTC_MAGIC) {
+      throw new Error('Invalid XTC file: bad magic number');
+    }
+    this.atomCount = this.view.getInt32(4, false);
+
+    // Index frames by skipping over each compressed block
+    let offset = 0;
+    while (offset + 56 <= data.byteLength) {
+      if (this.view.getInt32(offset, false) !== XTC_MAGIC) {
+        throw new Error(`Invalid XTC frame at byte ${offset}`);
+      }
+      const natoms = this.view.getInt32(offset + 4, false);
+      let size: number;
+      if (natoms <= 9) {
+        size = 56 + natoms * 12;
+      } else {
+        const length = this.view.getInt32(offset + 88, false);
+        size = 92 + Math.ceil(length / 4) * 4;
+      }
+      if (offset + size > data.byteLength) break; // Truncated final frame
+      this.offsets.push(offset);
+      offset += size;
+    }
+    this.frameCount = this.offsets.length;
+  }
+
+  readFrame(index: number): TrajectoryFileFrame {
+    checkIndex(index, this.frameCount);
+    const offset = this.offsets[index];
+    const view = this.view;
+    const time = view.getFloat32(offset + 12, false);
+    const box = boxFromVectors(Array.from({ length: 9 }, (_, i) => view.getFloat32(offset + 16 + i * 4, false)));
+    const natoms = view.getInt32(offset + 52, false);
+
+    let coordinates: Float32Array;
+    if (natoms <= 9) {
+      coordinates = new Float32Array(natoms * 3);
+      for (let i = 0; i < natoms * 3; i++) {
+        coordinates[i] = view.getFloat32(offset + 56 + i * 4, false) * 10;
+      }
+    } else {
+      const precision = view.getFloat32(offset + 56, false);
+      const minInt = [0, 1, 2].map(d => view.getInt32(offset + 60 + d * 4, false));
+      const maxInt = [0, 1, 2].map(d => view.getInt32(offset + 72 + d * 4, false));
+      const smallIdx = view.getInt32(offset + 84, false);
+      const length = view.getInt32(offset + 88, false);
+      coordinates = decompressXTC(
+        new Uint8Array(this.data, offset + 92, length),
+        natoms,
+        precision,
+        minInt,
+        maxInt,
+        smallIdx
+      );
+    }
+
+    return { index, time, coordinates, box };
+  }
+}
+
+// ============================================================================
+// TRR
+// ============================================================================
+
+interface TRRFrameIndex {
+  offset: number; // Start of the box block
+  precision: 4 | 8;
+  boxSize: number;
+  skipToX: number; // Bytes from the box block to the coordinates
+  hasX: boolean;
+  time: number;
+}
+
+class TRRReader implements TrajectoryReader {
+  readonly format = 'trr' as const;
+  readonly atomCount: number;
+  readonly frameCount: number;
+
+  private view: DataView;
+  private frames: TRRFrameIndex[] = [];
+
+  constructor(data: ArrayBuffer) {
+    this.view = new DataView(data);
+    if (data.byteLength < 24 || this.view.getInt32(0, false) !== TRR_MAGIC) {
+      throw new Error('Invalid TRR file: bad magic number');
+    }
+
+    let atomCount = 0;
+    let offset = 0;
+    while (offset + 24 <= data.byteLength) {
+      if (this.view.getInt32(offset, false) !== TRR_MAGIC) {
+        throw new Error(`Invalid TRR frame at byte ${offset}`);
+      }
+      // Version string: declared length, XDR string length, padded characters
+      const stringLength = this.view.getInt32(offset + 8, false);
+      let cursor = offset + 12 + Math.ceil(stringLength / 4) * 4;
+
+      const sizes = Array.from({ length: 13 }, (_, i) => this.view.getInt32(cursor + i * 4, false));
+      cursor += 52;
+      const [irSize, eSize, boxSize, virSize, presSize, topSize, symSize, xSize, vSize, fSize, natoms] = sizes;
+
+      const precision: 4 | 8 = boxSize > 0
+        ? (boxSize / 9 === 8 ? 8 : 4)
+        : xSize > 0 && xSize / (natoms * 3) === 8 ? 8 : 4;
+      const time = precision === 8 ? this.view.getFloat64(cursor, false) : this.view.getFloat32(cursor, false);
+      cursor += precision * 2;
+
+      const dataSize = irSize + eSize + boxSize + virSize + presSize + topSize + symSize + xSize + vSize + fSize;
+      if (cursor + dataSize > data.byteLength) break; // Truncated final frame
+
+      atomCount = natoms;
+      this.frames.push({
+        offset: cursor,
+        precision,
+        boxSize,
+        skipToX: boxSize + virSize + presSize,
+        hasX: xSize > 0,
+        time
+      });
+      offset = cursor + dataSize;
+    }
+
+    this.atomCount = atomCount;
+    this.frameCount = this.frames.length;
+  }
+
+  readFrame(index: number): TrajectoryFileFrame {
+    checkIndex(index, this.frameCount);
+    const frame = this.frames[index];
+    if (!frame.hasX) {
+      throw new Error(`TRR frame ${index} has no coordinates`);
+    }
+
+    const read = (position: number) =>
+      frame.precision === 8 ? this.view.getFloat64(position, false) : this.view.getFloat32(position, false);
+    const box = frame.boxSize > 0
+      ? boxFromVectors(Array.from({ length: 9 }, (_, i) => read(frame.offset + i * frame.precision)))
+      : undefined;
+
+    const start = frame.offset + frame.skipToX;
+    const coordinates = new Float32Array(this.atomCount * 3);
+    for (let i = 0; i < coordinates.length; i++) {
+      coordinates[i] = read(start + i * frame.precision) * 10;
+    }
+
+    return { index, time: frame.time, coordinates, box };
+  }
+}
+
+// ============================================================================
+// Multi-model PDB
+// ============================================================================
+
+class MultiModelPDBReader implements TrajectoryReader {
+  readonly format = 'pdb' as const;
+  readonly atomCount: number;
+  readonly frameCount: number;
+
+  private models: string[][] = [];
+  private box?: TrajectoryBox;
+
+  constructor(content: string) {
+    let current: string[] = [];
+    let inModel = false;
+
+    for (const line of content.split(/\r?\n/)) {
+      const record = line.substring(0, 6).trim();
+      if (record === 'CRYST1' && !this.box) {
+        this.box = {
+          lengths: [parseFloat(line.substring(6, 15)), parseFloat(line.substring(15, 24)), parseFloat(line.substring(24, 33))],
+          angles: [parseFloat(line.substring(33, 40)), parseFloat(line.substring(40, 47)), parseFloat(line.substring(47, 54))]
+        };
+      } else if (record === 'MODEL') {
+        current = [];
+        inModel = true;
+      } else if (record === 'ENDMDL') {
+        this.models.push(current);
+        current = [];
+        inModel = false;
+      } else if (record === 'ATOM' || record === 'HETATM') {
+        current.push(line);
+      }
+    }
+    // A file without MODEL records is a single frame
+    if ((inModel || this.models.length === 0) && current.length > 0) {
+      this.models.push(current);
+    }
+
+    if (this.models.length === 0) {
+      throw new Error('No models found in PDB trajectory');
+    }
+
+    this.atomCount = this.models[0].length;
+    const mismatch = this.models.findIndex(model => model.length !== this.atomCount);
+    if (mismatch >= 0) {
+      throw new Error(
+        `Model ${mismatch + 1} has ${this.models[mismatch].length} atoms, expected ${this.atomCount}`
+      );
+    }
+    this.frameCount = this.models.length;
+  }
+
+  readFrame(index: number): TrajectoryFileFrame {
+    checkIndex(index, this.frameCount);
+    const lines = this.models[index];
+    const coordinates = new Float32Array(lines.length * 3);
+
+    lines.forEach((line, i) => {
+      coordinates[i * 3] = parseFloat(line.substring(30, 38));
+      coordinates[i * 3 + 1] = parseFloat(line.substring(38, 46));
+      coordinates[i * 3 + 2] = parseFloat(line.substring(46, 54));
+    });
+
+    return { index, coordinates, box: this.box };
+  }
+}
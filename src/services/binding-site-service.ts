@@ -0,0 +1,194 @@
+/**
+ * Binding Site Service
+ *
+ * Lists ligand binding sites and detects pockets in the structure loaded in
+ * the Mol* viewer, and frames a site or pocket with the camera. Pockets are
+ * detected in a Web Worker; falls back to the main thread where workers are
+ * unavailable (SSR, tests)
+ */
+
+import {
+  detectPockets,
+  findBindingSites,
+  type BindingSite,
+  type Pocket,
+  type PocketOptions,
+  type SiteResidue,
+} from '@/lib/binding-sites';
+import { molstarService, type MolstarService } from './molstar-service';
+import type { FocusOptions, ResidueSelection } from '@/types/molstar';
+import type { Atom } from '@/types/pdb';
+import type { BindingSitesWorkerRequest, BindingSitesWorkerResponse } from '@/workers/binding-sites.worker';
+
+export interface BindingSiteOptions extends PocketOptions {
+  radius?: number; // Å around each ligand, default 5
+  detectPockets?: boolean; // Default true
+}
+
+export interface BindingSiteReport {
+  sites: BindingSite[];
+  pockets: Pocket[];
+  radius: number;
+}
+
+type BindingSiteViewer = Pick<MolstarService, 'getAtoms' | 'focusOnResidues'>;
+
+type WorkerFactory = () => Worker | null;
+
+interface PendingPockets {
+  atoms: Atom[];
+  options: PocketOptions;
+  resolve: (pockets: Pocket[]) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_RADIUS = 5;
+
+function createBindingSitesWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  return new Worker(new URL('../workers/binding-sites.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Binding Site Service
+ */
+export class BindingSiteService {
+  private worker: Worker | null | undefined;
+  private pending = new Map<number, PendingPockets>();
+  private nextId = 0;
+
+  constructor(
+    private viewer: BindingSiteViewer = molstarService,
+    private createWorker: WorkerFactory = createBindingSitesWorker
+  ) {}
+
+  /**
+   * Ligands with the residues within `radius` of them, and geometric pockets
+   */
+  async analyze(options: BindingSiteOptions = {}): Promise<BindingSiteReport> {
+    const { radius = DEFAULT_RADIUS, detectPockets: withPockets = true, ...pocketOptions } = options;
+    const atoms = this.viewer.getAtoms();
+
+    return {
+      sites: findBindingSites(atoms, radius),
+      pockets: withPockets ? await this.detectPockets(atoms, pocketOptions) : [],
+      radius,
+    };
+  }
+
+  /**
+   * Frame a ligand together with its binding-site residues
+   */
+  async focusSite(site: BindingSite, options?: FocusOptions): Promise<void> {
+    const ligand: SiteResidue = {
+      chain: site.ligand.chain,
+      residueSeq: site.ligand.residueSeq,
+      residue: site.ligand.name,
+      minDistance: 0,
+    };
+    await this.viewer.focusOnResidues(groupByChain([ligand, ...site.residues]), options);
+  }
+
+  /**
+   * Frame the residues lining a pocket
+   */
+  async focusPocket(pocket: Pocket, options?: FocusOptions): Promise<void> {
+    await this.viewer.focusOnResidues(groupByChain(pocket.residues), options);
+  }
+
+  /**
+   * Terminate the worker and reject detections still running
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.pending.forEach(({ reject }) => reject(new Error('Binding site service disposed')));
+    this.pending.clear();
+  }
+
+  private detectPockets(atoms: Atom[], options: PocketOptions): Promise<Pocket[]> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.resolve(detectPockets(atoms, options));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { atoms, options, resolve, reject });
+      const request: BindingSitesWorkerRequest = { type: 'pockets', id, atoms, options };
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker === undefined) {
+      try {
+        this.worker = this.createWorker();
+      } catch (error) {
+        console.warn('[BindingSiteService] Worker unavailable, detecting pockets on the main thread:', error);
+        this.worker = null;
+      }
+      this.worker?.addEventListener('message', (event: MessageEvent<BindingSitesWorkerResponse>) =>
+        this.handleResponse(event.data)
+      );
+      this.worker?.addEventListener('error', (event) => this.handleWorkerFailure(event));
+      this.worker?.addEventListener('messageerror', (event) => this.handleWorkerFailure(event));
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: BindingSitesWorkerResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      pending.resolve(response.pockets);
+    } else {
+      pending.reject(new Error(response.error));
+    }
+  }
+
+  /**
+   * A worker that failed to load or crashed never answers, so drop it and
+   * finish its detections, and any later ones, on the main thread
+   */
+  private handleWorkerFailure(event: Event): void {
+    console.warn('[BindingSiteService] Worker failed, detecting pockets on the main thread:', event);
+    this.worker?.terminate();
+    this.worker = null;
+
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    pending.forEach(({ atoms, options, resolve, reject }) => {
+      try {
+        resolve(detectPockets(atoms, options));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+}
+
+function groupByChain(residues: SiteResidue[]): ResidueSelection[] {
+  const chains = new Map<string, number[]>();
+  for (const residue of residues) {
+    const ids = chains.get(residue.chain) ?? [];
+    if (!ids.includes(residue.residueSeq)) ids.push(residue.residueSeq);
+    chains.set(residue.chain, ids);
+  }
+  return Array.from(chains, ([chainId, residueIds]) => ({ chainId, residueIds }));
+}
+
+// Singleton instance
+let serviceInstance: BindingSiteService | null = null;
+
+/**
+ * Get singleton binding site service instance
+ */
+export function getBindingSiteService(): BindingSiteService {
+  if (!serviceInstance) {
+    serviceInstance = new BindingSiteService();
+  }
+  return serviceInstance;
+}
@@ -10,6 +10,7 @@ import {
   SimulationFrame,
   SimulationProgress,
 } from '../lib/md-browser-dynamica';
+import { SimulationBox } from '../lib/md-box';
 import { MDTier } from '../types/md-types';
 
 export interface BrowserSimulationConfig {
@@ -20,6 +21,7 @@ export interface BrowserSimulationConfig {
   forceField: 'AMBER' | 'CHARMM' | 'OPLS';
   ensemble: 'NVE' | 'NVT' | 'NPT';
   outputFrequency: number; // frames per 100 steps
+  box?: SimulationBox; // Periodic box (nm), e.g. from solvate()
 }
 
 export interface SimulationMetrics {
@@ -94,6 +96,7 @@ export class BrowserSimulationController {
         ensemble: config.ensemble,
         maxSteps: config.steps,
         outputFrequency: config.outputFrequency,
+        box: config.box,
       };
 
       await this.engine.initialize(positions, atomCount, dynamicaConfig);
@@ -0,0 +1,302 @@
+/**
+ * Collaboration document
+ * Shared state of a session — annotations, measurements and notes — kept in
+ * CRDTs so concurrent and offline edits merge the same way on every replica
+ */
+import { LWWRecordMap, RGASequence } from '@/lib/crdt';
+import type {
+  Annotation,
+  CrdtStamp,
+  DocumentOperation,
+  VersionVector,
+} from '@/types/collaboration';
+import type { MeasurementResult } from '@/types/molstar';
+
+type OperationBody<O = DocumentOperation> = O extends DocumentOperation
+  ? Omit<O, 'replica' | 'seq' | 'clock'>
+  : never;
+
+export type DocumentOrigin = 'local' | 'remote';
+
+export type DocumentListener = (
+  operations: DocumentOperation[],
+  origin: DocumentOrigin
+) => void;
+
+function stampOf(operation: DocumentOperation): CrdtStamp {
+  return { clock: operation.clock, replica: operation.replica };
+}
+
+// Clock values an operation uses: one per inserted notes character
+function clockSpan(operation: DocumentOperation): number {
+  return operation.type === 'notes-insert' ? Math.max(operation.text.length, 1) : 1;
+}
+
+export class CollaborationDocument {
+  private clock = 0;
+  private log = new Map<string, DocumentOperation[]>();
+  private pending = new Map<string, DocumentOperation>();
+  private annotations = new LWWRecordMap<Annotation>();
+  private measurements = new RGASequence<MeasurementResult>();
+  private notes = new RGASequence<string>();
+  private listeners = new Set<DocumentListener>();
+
+  constructor(readonly replicaId: string) {}
+
+  /**
+   * Add an annotation
+   */
+  addAnnotation(annotation: Annotation): void {
+    this.commit({ type: 'annotation-set', annotationId: annotation.id, fields: annotation });
+  }
+
+  /**
+   * Update fields of an annotation. Concurrent updates to other fields are kept
+   */
+  updateAnnotation(id: string, update: Partial<Omit<Annotation, 'id'>>): void {
+    this.commit({
+      type: 'annotation-set',
+      annotationId: id,
+      fields: { ...update, updatedAt: Date.now() },
+    });
+  }
+
+  deleteAnnotation(id: string): void {
+    this.commit({ type: 'annotation-delete', annotationId: id });
+  }
+
+  /**
+   * Append a measurement. Measurements already in the list are ignored
+   */
+  addMeasurement(measurement: MeasurementResult): void {
+    if (this.getMeasurements().some((existing) => existing.id === measurement.id)) return;
+
+    const ids = this.measurements.ids();
+    this.commit({
+      type: 'measurement-insert',
+      after: ids[ids.length - 1] ?? null,
+      measurement,
+    });
+  }
+
+  removeMeasurement(measurementId: string): void {
+    const index = this.getMeasurements().findIndex((measurement) => measurement.id === measurementId);
+    if (index === -1) return;
+
+    this.commit({ type: 'measurement-delete', target: this.measurements.ids()[index] });
+  }
+
+  /**
+   * Insert text into the notes at a character index
+   */
+  insertNotes(index: number, text: string): void {
+    if (!text) return;
+
+    const ids = this.notes.ids();
+    const position = Math.max(0, Math.min(index, ids.length));
+    this.commit({
+      type: 'notes-insert',
+      after: position > 0 ? ids[position - 1] : null,
+      text,
+    });
+  }
+
+  deleteNotes(index: number, length: number): void {
+    const targets = this.notes.ids().slice(Math.max(0, index), index + length);
+    if (targets.length === 0) return;
+
+    this.commit({ type: 'notes-delete', targets });
+  }
+
+  /**
+   * Replace the notes with new text, as an edit of the part that changed so
+   * that concurrent edits elsewhere in the notes are kept
+   */
+  setNotes(text: string): void {
+    const current = this.getNotes();
+    if (text === current) return;
+
+    let prefix = 0;
+    const maxPrefix = Math.min(current.length, text.length);
+    while (prefix < maxPrefix && current[prefix] === text[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    const maxSuffix = maxPrefix - prefix;
+    while (
+      suffix < maxSuffix &&
+      current[current.length - 1 - suffix] === text[text.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    this.deleteNotes(prefix, current.length - prefix - suffix);
+    this.insertNotes(prefix, text.slice(prefix, text.length - suffix));
+  }
+
+  getAnnotations(): Annotation[] {
+    return this.annotations
+      .keys()
+      .map((key) => this.annotations.get(key))
+      // Skip records this replica has only seen later edits of
+      .filter((annotation): annotation is Annotation => !!annotation?.id)
+      .sort((a, b) => a.createdAt - b.createdAt || (a.id < b.id ? -1 : 1));
+  }
+
+  getMeasurements(): MeasurementResult[] {
+    return this.measurements.values();
+  }
+
+  getNotes(): string {
+    return this.notes.values().join('');
+  }
+
+  getVersionVector(): VersionVector {
+    const vector: VersionVector = {};
+    this.log.forEach((operations, replica) => {
+      vector[replica] = operations.length;
+    });
+    return vector;
+  }
+
+  /**
+   * Operations a replica with the given version vector has not seen
+   */
+  getOperationsSince(vector: VersionVector): DocumentOperation[] {
+    const operations: DocumentOperation[] = [];
+    this.log.forEach((log, replica) => {
+      operations.push(...log.slice(vector[replica] ?? 0));
+    });
+    return operations;
+  }
+
+  /**
+   * Whether a replica with the given version vector has operations this one
+   * has not applied
+   */
+  isBehind(vector: VersionVector): boolean {
+    return Object.entries(vector).some(([replica, seq]) => seq > this.appliedCount(replica));
+  }
+
+  /**
+   * Apply operations from other replicas. Operations may arrive in any order
+   * and more than once; those whose predecessors are missing wait until they
+   * arrive. Returns the operations that were applied
+   */
+  applyOperations(operations: DocumentOperation[]): DocumentOperation[] {
+    for (const operation of operations) {
+      if (operation.seq > this.appliedCount(operation.replica)) {
+        this.pending.set(`${operation.replica}:${operation.seq}`, operation);
+      }
+    }
+
+    const applied: DocumentOperation[] = [];
+    let progress = true;
+    while (progress) {
+      progress = false;
+      this.pending.forEach((operation, key) => {
+        if (
+          operation.seq === this.appliedCount(operation.replica) + 1 &&
+          this.isReady(operation)
+        ) {
+          this.pending.delete(key);
+          this.integrate(operation);
+          applied.push(operation);
+          progress = true;
+        }
+      });
+    }
+
+    if (applied.length > 0) {
+      this.notify(applied, 'remote');
+    }
+    return applied;
+  }
+
+  /**
+   * Subscribe to applied operations, local and remote
+   */
+  subscribe(listener: DocumentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private commit(body: OperationBody): void {
+    const operation = {
+      ...body,
+      replica: this.replicaId,
+      seq: this.appliedCount(this.replicaId) + 1,
+      clock: this.clock + 1,
+    } as DocumentOperation;
+
+    this.integrate(operation);
+    this.notify([operation], 'local');
+  }
+
+  private appliedCount(replica: string): number {
+    return this.log.get(replica)?.length ?? 0;
+  }
+
+  // Sequence operations need the elements they refer to
+  private isReady(operation: DocumentOperation): boolean {
+    switch (operation.type) {
+      case 'measurement-insert':
+        return !operation.after || this.measurements.has(operation.after);
+      case 'measurement-delete':
+        return this.measurements.has(operation.target);
+      case 'notes-insert':
+        return !operation.after || this.notes.has(operation.after);
+      case 'notes-delete':
+        return operation.targets.every((target) => this.notes.has(target));
+      default:
+        return true;
+    }
+  }
+
+  private integrate(operation: DocumentOperation): void {
+    this.clock = Math.max(this.clock, operation.clock + clockSpan(operation) - 1);
+
+    const log = this.log.get(operation.replica) ?? [];
+    log.push(operation);
+    this.log.set(operation.replica, log);
+
+    switch (operation.type) {
+      case 'annotation-set':
+        this.annotations.set(operation.annotationId, operation.fields, stampOf(operation));
+        break;
+
+      case 'annotation-delete':
+        this.annotations.delete(operation.annotationId, stampOf(operation));
+        break;
+
+      case 'measurement-insert':
+        this.measurements.insert(operation.after, stampOf(operation), operation.measurement);
+        break;
+
+      case 'measurement-delete':
+        this.measurements.delete(operation.target);
+        break;
+
+      case 'notes-insert': {
+        let after = operation.after;
+        operation.text.split('').forEach((character, offset) => {
+          const id = { clock: operation.clock + offset, replica: operation.replica };
+          this.notes.insert(after, id, character);
+          after = id;
+        });
+        break;
+      }
+
+      case 'notes-delete':
+        operation.targets.forEach((target) => this.notes.delete(target));
+        break;
+    }
+  }
+
+  private notify(operations: DocumentOperation[], origin: DocumentOrigin): void {
+    this.listeners.forEach((listener) => listener(operations, origin));
+  }
+}
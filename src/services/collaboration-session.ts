@@ -4,6 +4,7 @@
  */
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/client';
+import { documentSync } from './document-sync';
 import type {
   CollaborationSession,
   CollaborationUser,
@@ -12,6 +13,14 @@ import type {
   ActivityEvent,
 } from '@/types/collaboration';
 
+/**
+ * Listener for every event sent or received on the session channel
+ */
+export type SessionEventListener = <K extends keyof RealtimeEvents>(
+  type: K,
+  payload: RealtimeEvents[K]
+) => void;
+
 const SESSION_EXPIRATION_HOURS = 24;
 const PRESENCE_TIMEOUT_MS = 30000; // 30 seconds
 
@@ -38,6 +47,7 @@ export class CollaborationSessionService {
   private channel: RealtimeChannel | null = null;
   private presenceInterval: NodeJS.Timeout | null = null;
   private currentUserId: string | null = null;
+  private eventListeners = new Set<SessionEventListener>();
 
   /**
    * Create a new collaboration session
@@ -187,9 +197,6 @@ export class CollaborationSessionService {
     // Subscribe to all event types
     const eventTypes: (keyof RealtimeEvents)[] = [
       'cursor-move',
-      'annotation-add',
-      'annotation-edit',
-      'annotation-delete',
       'camera-update',
       'user-join',
       'user-leave',
@@ -201,9 +208,13 @@ export class CollaborationSessionService {
     eventTypes.forEach((type) => {
       this.channel?.on('broadcast', { event: type }, ({ payload }) => {
         onEvent(type, payload);
+        this.notifyEventListeners(type, payload);
       });
     });
 
+    // Annotations, measurements and notes sync through the session document
+    documentSync.attach(this.channel, sessionId, userId);
+
     // Track presence
     this.channel
       .on('presence', { event: 'sync' }, () => {
@@ -217,6 +228,8 @@ export class CollaborationSessionService {
         console.log('User left:', key, leftPresences);
       })
       .subscribe(async (status) => {
+        void documentSync.setSubscribed(status === 'SUBSCRIBED');
+
         if (status === 'SUBSCRIBED') {
           await this.channel?.track({
             userId,
@@ -245,6 +258,25 @@ export class CollaborationSessionService {
       event: type,
       payload,
     });
+
+    this.notifyEventListeners(type, payload);
+  }
+
+  /**
+   * Listen to every event sent or received on the session channel
+   */
+  addEventListener(listener: SessionEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  private notifyEventListeners<K extends keyof RealtimeEvents>(
+    type: K,
+    payload: RealtimeEvents[K]
+  ): void {
+    this.eventListeners.forEach((listener) => listener(type, payload));
   }
 
   /**
@@ -275,6 +307,7 @@ export class CollaborationSessionService {
     }
 
     if (this.channel) {
+      documentSync.detach();
       this.channel.unsubscribe();
       this.channel = null;
     }
@@ -0,0 +1,573 @@
+/**
+ * Collections Service
+ * Manages curated structure collections, their ordering and sharing, and
+ * per-user favourite structures
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+import type { Database } from '@/types/database';
+import { isPdbStructureError, pdbIdFromSource, resolvePdbStructure } from '@/lib/pdb-structures';
+import type {
+  ICollectionsService,
+  Collection,
+  CollectionWithStructures,
+  CollectionStructure,
+  CollectionShare,
+  FavoriteStructure,
+  CreateCollectionRequest,
+  UpdateCollectionRequest,
+  ListCollectionsFilters,
+  AddStructureRequest,
+  ShareCollectionRequest,
+  CollectionError,
+} from '@/types/collections';
+
+const COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+const STRUCTURE_COLUMNS = 'id, name, source, structure_type, description, thumbnail_url';
+
+class CollectionsService implements ICollectionsService {
+  private _supabase: SupabaseClient<Database> | null = null;
+
+  /**
+   * Lazy-load Supabase client to avoid issues during build
+   */
+  private get supabase(): SupabaseClient<Database> {
+    if (!this._supabase) {
+      this._supabase = createClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * List collections visible to the current user
+   */
+  async listCollections(filters: ListCollectionsFilters = {}): Promise<Collection[]> {
+    try {
+      let query = (this.supabase as any)
+        .from('collections')
+        .select('*');
+
+      if (filters.ownerId) {
+        query = query.eq('owner_id', filters.ownerId);
+      }
+      if (filters.parentId === null) {
+        query = query.is('parent_id', null);
+      } else if (filters.parentId) {
+        query = query.eq('parent_id', filters.parentId);
+      }
+      if (filters.visibility) {
+        query = query.eq('visibility', filters.visibility);
+      }
+      if (filters.sharedWithMe) {
+        const user = await this.requireUser();
+        const { data: shares, error } = await (this.supabase as any)
+          .from('collection_shares')
+          .select('collection_id')
+          .eq('shared_with', user.id);
+
+        if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+        query = query.in('id', (shares || []).map((share: any) => share.collection_id));
+      }
+
+      query = query.order('updated_at', { ascending: false });
+
+      if (filters.limit) {
+        query = query.limit(filters.limit);
+      }
+      if (filters.offset) {
+        query = query.range(filters.offset, filters.offset + (filters.limit || 20) - 1);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+
+      return (data || []).map(this.mapToCollection);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a collection with its structures in order
+   */
+  async getCollection(id: string): Promise<CollectionWithStructures> {
+    try {
+      const { data, error } = await (this.supabase as any)
+        .from('collections')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error || !data) throw this.createError('NOT_FOUND', `Collection ${id} not found`, error);
+
+      return {
+        ...this.mapToCollection(data),
+        structures: await this.getCollectionStructures(id),
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create new collection owned by the current user
+   */
+  async createCollection(data: CreateCollectionRequest): Promise<Collection> {
+    try {
+      const user = await this.requireUser('Must be logged in to create collections');
+      this.validateCollection(data);
+
+      const { data: collection, error } = await (this.supabase as any)
+        .from('collections')
+        .insert({
+          owner_id: user.id,
+          name: data.name.trim(),
+          description: data.description || null,
+          icon: data.icon || null,
+          color: data.color || '#3B82F6',
+          visibility: data.visibility || 'private',
+          parent_id: data.parentId || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw this.createError('VALIDATION_ERROR', error.message, error);
+      if (!collection) throw this.createError('NETWORK_ERROR', 'Failed to create collection');
+
+      return this.mapToCollection(collection);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update collection details; owner only
+   */
+  async updateCollection(id: string, data: UpdateCollectionRequest): Promise<Collection> {
+    try {
+      await this.requireOwner(id);
+      this.validateCollection(data);
+
+      const updateData: any = {};
+      if (data.name) updateData.name = data.name.trim();
+      if (data.description !== undefined) updateData.description = data.description;
+      if (data.icon !== undefined) updateData.icon = data.icon;
+      if (data.color) updateData.color = data.color;
+      if (data.visibility) updateData.visibility = data.visibility;
+      if (data.parentId !== undefined) {
+        if (data.parentId === id) {
+          throw this.createError('VALIDATION_ERROR', 'A collection cannot contain itself');
+        }
+        updateData.parent_id = data.parentId || null;
+      }
+
+      const { data: updated, error } = await (this.supabase as any)
+        .from('collections')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw this.createError('VALIDATION_ERROR', error.message, error);
+
+      return this.mapToCollection(updated);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete collection and its nested collections; owner only
+   */
+  async deleteCollection(id: string): Promise<void> {
+    try {
+      await this.requireOwner(id);
+
+      const { error } = await (this.supabase as any)
+        .from('collections')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Append a structure to the end of a collection. PDB IDs resolve to an
+   * existing structure row with that source, or register a public reference
+   * row pointing at RCSB so everyone the collection is shared with can see it
+   */
+  async addStructure(collectionId: string, data: AddStructureRequest): Promise<CollectionStructure[]> {
+    try {
+      const structureId = 'structureId' in data
+        ? data.structureId
+        : (await resolvePdbStructure(this.supabase, data.pdbId, { register: true }))!;
+
+      const current = await this.getCollectionStructures(collectionId);
+      if (current.some((entry) => entry.structureId === structureId)) {
+        throw this.createError('VALIDATION_ERROR', 'Structure is already in this collection');
+      }
+
+      const position = current.reduce((max, entry) => Math.max(max, entry.position), -1) + 1;
+      const { error } = await (this.supabase as any)
+        .from('collection_structures')
+        .insert({ collection_id: collectionId, structure_id: structureId, position });
+
+      if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+
+      return this.getCollectionStructures(collectionId);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Remove a structure from a collection
+   */
+  async removeStructure(collectionId: string, structureId: string): Promise<void> {
+    try {
+      const { error } = await (this.supabase as any)
+        .from('collection_structures')
+        .delete()
+        .eq('collection_id', collectionId)
+        .eq('structure_id', structureId);
+
+      if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Set the order of a collection; structureIds must list every structure once
+   */
+  async reorderStructures(collectionId: string, structureIds: string[]): Promise<CollectionStructure[]> {
+    try {
+      const current = await this.getCollectionStructures(collectionId);
+      const currentIds = new Set(current.map((entry) => entry.structureId));
+      if (
+        structureIds.length !== currentIds.size ||
+        new Set(structureIds).size !== structureIds.length ||
+        !structureIds.every((id) => currentIds.has(id))
+      ) {
+        throw this.createError('VALIDATION_ERROR', 'Order must list every structure in the collection exactly once');
+      }
+
+      const { error } = await (this.supabase as any)
+        .from('collection_structures')
+        .upsert(
+          structureIds.map((structureId, position) => ({ collection_id: collectionId, structure_id: structureId, position })),
+          { onConflict: 'collection_id,structure_id' }
+        );
+
+      if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+
+      return this.getCollectionStructures(collectionId);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * List who a collection is shared with, and its share links
+   */
+  async listShares(collectionId: string): Promise<CollectionShare[]> {
+    try {
+      const { data, error } = await (this.supabase as any)
+        .from('collection_shares')
+        .select('*')
+        .eq('collection_id', collectionId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+
+      return (data || []).map(this.mapToCollectionShare);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Share with one user, or create a link share when no user is given
+   */
+  async shareCollection(collectionId: string, data: ShareCollectionRequest): Promise<CollectionShare> {
+    try {
+      const user = await this.requireUser('Must be logged in to share collections');
+      if (data.userId === user.id) {
+        throw this.createError('VALIDATION_ERROR', 'Cannot share a collection with yourself');
+      }
+      if (data.expiresAt && new Date(data.expiresAt).getTime() <= Date.now()) {
+        throw this.createError('VALIDATION_ERROR', 'Expiry must be in the future');
+      }
+
+      const { data: share, error } = await (this.supabase as any)
+        .from('collection_shares')
+        .insert({
+          collection_id: collectionId,
+          shared_by: user.id,
+          shared_with: data.userId || null,
+          share_token: data.userId ? null : this.createShareToken(),
+          permission: data.permission || 'view',
+          expires_at: data.expiresAt || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+
+      return this.mapToCollectionShare(share);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Revoke a share or share link
+   */
+  async revokeShare(collectionId: string, shareId: string): Promise<void> {
+    try {
+      const { error } = await (this.supabase as any)
+        .from('collection_shares')
+        .delete()
+        .eq('collection_id', collectionId)
+        .eq('id', shareId);
+
+      if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Join a collection through its share link; returns the collection ID
+   */
+  async redeemShareLink(token: string): Promise<string> {
+    try {
+      await this.requireUser('Must be logged in to open a shared collection');
+
+      const { data, error } = await (this.supabase as any).rpc('redeem_collection_share', { p_token: token });
+
+      if (error) throw this.createError('NOT_FOUND', error.message, error);
+
+      return data as string;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * List the current user's favourite structures, newest first
+   */
+  async listFavorites(): Promise<FavoriteStructure[]> {
+    try {
+      const user = await this.requireUser();
+
+      const { data, error } = await (this.supabase as any)
+        .from('structure_favorites')
+        .select(`created_at, structures(${STRUCTURE_COLUMNS})`)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+
+      return (data || [])
+        .filter((row: any) => row.structures)
+        .map((row: any) => ({
+          structureId: row.structures.id,
+          name: row.structures.name,
+          pdbId: pdbIdFromSource(row.structures.source),
+          createdAt: row.created_at,
+        }));
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Mark a structure as favourite
+   */
+  async addFavorite(structureId: string): Promise<void> {
+    try {
+      const user = await this.requireUser();
+
+      const { error } = await (this.supabase as any)
+        .from('structure_favorites')
+        .upsert({ user_id: user.id, structure_id: structureId }, { onConflict: 'user_id,structure_id', ignoreDuplicates: true });
+
+      if (error) throw this.createError('VALIDATION_ERROR', error.message, error);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Remove a structure from favourites
+   */
+  async removeFavorite(structureId: string): Promise<void> {
+    try {
+      const user = await this.requireUser();
+
+      const { error } = await (this.supabase as any)
+        .from('structure_favorites')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('structure_id', structureId);
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Helper: Structures of a collection by position, with favourite flags
+   */
+  private async getCollectionStructures(collectionId: string): Promise<CollectionStructure[]> {
+    const { data, error } = await (this.supabase as any)
+      .from('collection_structures')
+      .select(`position, added_at, structures(${STRUCTURE_COLUMNS})`)
+      .eq('collection_id', collectionId)
+      .order('position', { ascending: true, nullsFirst: false });
+
+    if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+
+    // Rows whose structure the user cannot read come back without it
+    const rows = (data || []).filter((row: any) => row.structures);
+    const favorites = await this.getFavoriteIds(rows.map((row: any) => row.structures.id));
+
+    return rows.map((row: any, index: number) => this.mapToCollectionStructure(row, index, favorites));
+  }
+
+  /**
+   * Helper: Which of the given structures the current user has favourited
+   */
+  private async getFavoriteIds(structureIds: string[]): Promise<Set<string>> {
+    if (structureIds.length === 0) return new Set();
+
+    const { data: { user } } = await this.supabase.auth.getUser();
+    if (!user) return new Set();
+
+    const { data } = await (this.supabase as any)
+      .from('structure_favorites')
+      .select('structure_id')
+      .eq('user_id', user.id)
+      .in('structure_id', structureIds);
+
+    return new Set((data || []).map((row: any) => row.structure_id));
+  }
+
+  /**
+   * Helper: Current user, or UNAUTHORIZED
+   */
+  private async requireUser(message = 'Must be logged in') {
+    const { data: { user } } = await this.supabase.auth.getUser();
+    if (!user) throw this.createError('UNAUTHORIZED', message);
+    return user;
+  }
+
+  /**
+   * Helper: Check the current user owns a collection
+   */
+  private async requireOwner(id: string): Promise<void> {
+    const user = await this.requireUser();
+
+    const { data: existing } = await (this.supabase as any)
+      .from('collections')
+      .select('owner_id')
+      .eq('id', id)
+      .single() as { data: { owner_id: string } | null };
+
+    if (!existing) throw this.createError('NOT_FOUND', `Collection ${id} not found`);
+    if (existing.owner_id !== user.id) {
+      throw this.createError('PERMISSION_DENIED', 'You do not own this collection');
+    }
+  }
+
+  private validateCollection(data: UpdateCollectionRequest): void {
+    if (data.name !== undefined && !data.name.trim()) {
+      throw this.createError('VALIDATION_ERROR', 'Collection name is required');
+    }
+    if (data.color && !COLOR_PATTERN.test(data.color)) {
+      throw this.createError('VALIDATION_ERROR', 'Color must be a hex value such as #3B82F6');
+    }
+  }
+
+  private createShareToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Type mappers
+   */
+  private mapToCollection(data: any): Collection {
+    return {
+      id: data.id,
+      ownerId: data.owner_id,
+      name: data.name,
+      description: data.description,
+      icon: data.icon,
+      color: data.color || '#3B82F6',
+      visibility: data.visibility,
+      parentId: data.parent_id,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  private mapToCollectionStructure(data: any, index: number, favorites: Set<string>): CollectionStructure {
+    return {
+      structureId: data.structures.id,
+      name: data.structures.name,
+      pdbId: pdbIdFromSource(data.structures.source),
+      structureType: data.structures.structure_type,
+      description: data.structures.description,
+      thumbnailUrl: data.structures.thumbnail_url,
+      position: data.position ?? index,
+      addedAt: data.added_at,
+      isFavorite: favorites.has(data.structures.id),
+    };
+  }
+
+  private mapToCollectionShare(data: any): CollectionShare {
+    return {
+      id: data.id,
+      collectionId: data.collection_id,
+      sharedBy: data.shared_by,
+      sharedWith: data.shared_with,
+      permission: data.permission,
+      shareToken: data.share_token,
+      expiresAt: data.expires_at,
+      createdAt: data.created_at,
+    };
+  }
+
+  /**
+   * Error handling
+   */
+  private createError(code: CollectionError['code'], message: string, details?: unknown): CollectionError {
+    const error = new Error(message) as CollectionError;
+    error.name = 'CollectionError';
+    error.code = code;
+    error.details = details;
+    return error;
+  }
+
+  private handleError(error: unknown): CollectionError {
+    if ((error as CollectionError).name === 'CollectionError') {
+      return error as CollectionError;
+    }
+    if (isPdbStructureError(error)) {
+      return this.createError(error.code, error.message, error.details);
+    }
+    return this.createError('NETWORK_ERROR', 'An unexpected error occurred', error);
+  }
+}
+
+// Export singleton
+export const collectionsService = new CollectionsService();
+export default collectionsService;
@@ -8,6 +8,25 @@ import {
   DesktopExportConfig,
   MDSimulationConfig
 } from '../types/md-types';
+import { Atom, parsePDB } from '../lib/pdb-parser';
+import {
+  atomElement,
+  atomicNumber,
+  buildMDSystem,
+  buildTopologyFromBonds,
+  findMolecules
+} from '../lib/md-topology';
+import {
+  TemplatedSystem,
+  TemplateMatchError,
+  applyResidueTemplates,
+  atomTypeMass,
+  formatTemplateReport,
+  hasBlockingIssues
+} from '../lib/md-templates';
+import { ATOM_TYPES } from '../data/residue-templates';
+import { SimulationBox, Vec3, fitBox, wrapToUnitCell } from '../lib/md-box';
+import { createMDSimulation, ForceFieldParameters, MolecularTopology } from './md-simulation';
 
 export interface ExportResult {
   format: ExportFormat;
@@ -23,6 +42,40 @@ export interface ExportFile {
   mimeType: string;
 }
 
+/**
+ * Structure prepared for export: parsed atoms with topology, equilibrium
+ * geometry and force field parameters, positioned inside the periodic box
+ */
+interface ExportSystem {
+  atoms: Atom[];
+  elements: string[];
+  positions: Float64Array; // nm
+  masses: Float64Array; // amu
+  topology: MolecularTopology;
+  box: SimulationBox;
+  residueStarts: number[]; // First atom index of each residue
+  forceField: ForceFieldParameters;
+  bondTypes: number[]; // Equilibrium length per bond type (nm)
+  bondTypeOf: number[]; // Bond type index per bond
+  angleTypes: number[]; // Equilibrium angle per angle type (rad)
+  angleTypeOf: number[]; // Angle type index per angle
+}
+
+/**
+ * Structure matched to the residue template library, positioned inside the box
+ */
+interface TemplatedExportSystem extends TemplatedSystem {
+  positions: Float64Array; // nm
+  box: SimulationBox;
+  forceField: ForceFieldParameters;
+}
+
+const KJ_PER_KCAL = 4.184;
+const AMBER_CHARGE_SCALE = 18.2223; // sqrt(Coulomb constant in kcal*A/mol/e^2)
+const DEFAULT_BOX_PADDING = 1.0; // nm
+const WATER_RESIDUES = new Set(['HOH', 'WAT', 'SOL', 'TIP3']);
+const OCTAHEDRON_ANGLE = 109.471219; // Truncated octahedron angle as AMBER writes it (degrees)
+
 export class DesktopExportService {
   private static instance: DesktopExportService;
 
@@ -65,12 +118,13 @@ export class DesktopExportService {
     config: MDSimulationConfig,
     exportConfig: DesktopExportConfig
   ): Promise<ExportResult> {
+    const system = await this.prepareTemplatedSystem(structureData, config, exportConfig);
     const files: ExportFile[] = [];
 
     // Structure file (.gro)
     files.push({
       filename: 'system.gro',
-      content: this.convertPDBtoGRO(structureData),
+      content: this.convertPDBtoGRO(system),
       description: 'GROMACS structure file',
       mimeType: 'text/plain'
     });
@@ -79,17 +133,23 @@ export class DesktopExportService {
     if (exportConfig.includeTopology) {
       files.push({
         filename: 'topol.top',
-        content: this.generateGROMACSTopology(),
+        content: this.generateGROMACSTopology(system),
         description: 'GROMACS topology file',
         mimeType: 'text/plain'
       });
     }
 
-    // MD parameters (.mdp)
+    // Minimization and MD parameters (.mdp)
     if (exportConfig.includeParameters) {
+      files.push({
+        filename: 'em.mdp',
+        content: this.generateGROMACSMinimizationMDP(system),
+        description: 'GROMACS energy minimization parameters',
+        mimeType: 'text/plain'
+      });
       files.push({
         filename: 'md.mdp',
-        content: this.generateGROMACSMDP(config),
+        content: this.generateGROMACSMDP(config, system),
         description: 'GROMACS MD parameters',
         mimeType: 'text/plain'
       });
@@ -105,7 +165,7 @@ export class DesktopExportService {
       });
     }
 
-    const readme = this.generateGROMACSReadme(exportConfig);
+    const readme = this.generateGROMACSReadme(exportConfig, system);
     const citations = this.getGROMACSCitations();
 
     return { format: ExportFormat.GROMACS, files, readme, citations };
@@ -173,17 +233,54 @@ export class DesktopExportService {
     config: MDSimulationConfig,
     exportConfig: DesktopExportConfig
   ): Promise<ExportResult> {
+    const system = await this.prepareSystem(structureData, config, exportConfig);
     const files: ExportFile[] = [];
 
-    // TODO: Implement AMBER export
+    // Coordinates (.inpcrd)
     files.push({
-      filename: 'system.prmtop',
-      content: '# AMBER topology - TODO',
-      description: 'AMBER parameter/topology file',
+      filename: 'system.inpcrd',
+      content: this.generateAMBERCoordinates(system),
+      description: 'AMBER coordinate file',
       mimeType: 'text/plain'
     });
 
-    const readme = 'AMBER export - TODO';
+    // Parameter/topology file (.prmtop)
+    if (exportConfig.includeTopology) {
+      files.push({
+        filename: 'system.prmtop',
+        content: this.generateAMBERTopology(system),
+        description: 'AMBER parameter/topology file',
+        mimeType: 'text/plain'
+      });
+    }
+
+    // Minimization and MD input (.in)
+    if (exportConfig.includeParameters) {
+      files.push({
+        filename: 'min.in',
+        content: this.generateAMBERMinInput(system),
+        description: 'AMBER energy minimization input',
+        mimeType: 'text/plain'
+      });
+      files.push({
+        filename: 'md.in',
+        content: this.generateAMBERMDInput(config, system),
+        description: 'AMBER MD input',
+        mimeType: 'text/plain'
+      });
+    }
+
+    // Run script
+    if (exportConfig.includeRunScript) {
+      files.push({
+        filename: 'run_amber.sh',
+        content: this.generateAMBERScript(),
+        description: 'AMBER execution script',
+        mimeType: 'text/x-shellscript'
+      });
+    }
+
+    const readme = this.generateAMBERReadme(exportConfig, system);
     const citations = this.getAMBERCitations();
 
     return { format: ExportFormat.AMBER, files, readme, citations };
@@ -197,70 +294,431 @@ export class DesktopExportService {
     config: MDSimulationConfig,
     exportConfig: DesktopExportConfig
   ): Promise<ExportResult> {
+    const system = await this.prepareSystem(structureData, config, exportConfig);
     const files: ExportFile[] = [];
 
-    // TODO: Implement LAMMPS export
+    // Data file holds coordinates, topology and coefficients
     files.push({
       filename: 'system.data',
-      content: '# LAMMPS data file - TODO',
+      content: this.generateLAMMPSData(system),
       description: 'LAMMPS data file',
       mimeType: 'text/plain'
     });
 
-    const readme = 'LAMMPS export - TODO';
+    // Input script
+    if (exportConfig.includeParameters) {
+      files.push({
+        filename: 'in.lammps',
+        content: this.generateLAMMPSInput(config, system),
+        description: 'LAMMPS input script',
+        mimeType: 'text/plain'
+      });
+    }
+
+    // Run script
+    if (exportConfig.includeRunScript) {
+      files.push({
+        filename: 'run_lammps.sh',
+        content: this.generateLAMMPSScript(),
+        description: 'LAMMPS execution script',
+        mimeType: 'text/x-shellscript'
+      });
+    }
+
+    const readme = this.generateLAMMPSReadme(exportConfig, system);
     const citations = this.getLAMMPSCitations();
 
     return { format: ExportFormat.LAMMPS, files, readme, citations };
   }
 
+  /**
+   * Parse the structure, derive its topology and place it in the periodic box
+   */
+  private async prepareSystem(
+    structureData: string,
+    config: MDSimulationConfig,
+    exportConfig: DesktopExportConfig
+  ): Promise<ExportSystem> {
+    const structure = await parsePDB(structureData, { includeWater: true });
+
+    // Keep only the first alternate location of each atom
+    const seen = new Set<string>();
+    const atoms = structure.atoms.filter(atom => {
+      const key = `${atom.chainID}:${atom.resSeq}:${atom.iCode ?? ''}:${atom.name}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (atoms.length === 0) {
+      throw new Error('No atoms found in structure data');
+    }
+
+    const mdSystem = buildMDSystem(atoms);
+    const positions = mdSystem.positions;
+    let box = exportConfig.box;
+    if (!box) {
+      const fitted = fitBox(positions, atoms.length, 'rectangular', DEFAULT_BOX_PADDING);
+      box = fitted.box;
+      for (let i = 0; i < positions.length; i++) {
+        positions[i] += fitted.translation[i % 3];
+      }
+    }
+
+    const mdService = createMDSimulation();
+    mdService.setForceField(config.forceField ?? 'AMBER');
+
+    const residueStarts: number[] = [];
+    atoms.forEach((atom, i) => {
+      const previous = atoms[i - 1];
+      if (
+        !previous ||
+        previous.chainID !== atom.chainID ||
+        previous.resSeq !== atom.resSeq ||
+        previous.iCode !== atom.iCode
+      ) {
+        residueStarts.push(i);
+      }
+    });
+
+    // Bond and angle types take their equilibrium values from the input geometry
+    const bondTypes: number[] = [];
+    const bondTypeOf = this.assignTypes(
+      mdSystem.topology.bonds.map(([i, j]) => this.distance(positions, i, j)),
+      bondTypes,
+      1e-4
+    );
+    const angleTypes: number[] = [];
+    const angleTypeOf = this.assignTypes(
+      mdSystem.topology.angles.map(([i, j, k]) => this.angle(positions, i, j, k)),
+      angleTypes,
+      1e-3
+    );
+
+    return {
+      atoms,
+      elements: atoms.map(atomElement),
+      positions,
+      masses: mdSystem.masses,
+      topology: mdSystem.topology,
+      box,
+      residueStarts,
+      forceField: mdService.getForceField()!,
+      bondTypes,
+      bondTypeOf,
+      angleTypes,
+      angleTypeOf
+    };
+  }
+
+  /**
+   * Parse the structure and match it to the residue template library
+   * Throws a TemplateMatchError listing unsupported residues and missing atoms
+   */
+  private async prepareTemplatedSystem(
+    structureData: string,
+    config: MDSimulationConfig,
+    exportConfig: DesktopExportConfig
+  ): Promise<TemplatedExportSystem> {
+    const structure = await parsePDB(structureData, { includeWater: true });
+    if (structure.atoms.length === 0) {
+      throw new Error('No atoms found in structure data');
+    }
+
+    const templated = applyResidueTemplates(structure.atoms);
+    if (hasBlockingIssues(templated.report)) {
+      throw new TemplateMatchError(
+        `Structure does not match the residue template library:\n${formatTemplateReport(templated.report)}`,
+        templated.report
+      );
+    }
+
+    const positions = new Float64Array(templated.atoms.length * 3);
+    templated.atoms.forEach((atom, i) => {
+      positions[i * 3] = atom.x;
+      positions[i * 3 + 1] = atom.y;
+      positions[i * 3 + 2] = atom.z;
+    });
+
+    let box = exportConfig.box;
+    if (!box) {
+      const fitted = fitBox(positions, templated.atoms.length, 'rectangular', DEFAULT_BOX_PADDING);
+      box = fitted.box;
+      for (let i = 0; i < positions.length; i++) {
+        positions[i] += fitted.translation[i % 3];
+      }
+    }
+
+    const mdService = createMDSimulation();
+    mdService.setForceField(config.forceField ?? 'AMBER');
+
+    return { ...templated, positions, box, forceField: mdService.getForceField()! };
+  }
+
+  /**
+   * Group values into types that agree within the given resolution
+   */
+  private assignTypes(values: number[], types: number[], resolution: number): number[] {
+    const index = new Map<number, number>();
+    return values.map(value => {
+      const key = Math.round(value / resolution);
+      if (!index.has(key)) {
+        index.set(key, types.length);
+        types.push(key * resolution);
+      }
+      return index.get(key)!;
+    });
+  }
+
+  private distance(positions: Float64Array, i: number, j: number): number {
+    return Math.hypot(
+      positions[j * 3] - positions[i * 3],
+      positions[j * 3 + 1] - positions[i * 3 + 1],
+      positions[j * 3 + 2] - positions[i * 3 + 2]
+    );
+  }
+
+  private angle(positions: Float64Array, i: number, j: number, k: number): number {
+    const u = [0, 1, 2].map(d => positions[i * 3 + d] - positions[j * 3 + d]);
+    const v = [0, 1, 2].map(d => positions[k * 3 + d] - positions[j * 3 + d]);
+    const cos = (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / (Math.hypot(...u) * Math.hypot(...v));
+    return Math.acos(Math.max(-1, Math.min(1, cos)));
+  }
+
+  /**
+   * Box edge lengths (nm) and angles (degrees) alpha, beta, gamma
+   */
+  private boxParameters(box: SimulationBox): { lengths: Vec3; angles: Vec3 } {
+    const [a, b, c] = box.vectors;
+    const length = (v: Vec3) => Math.hypot(v[0], v[1], v[2]);
+    const angle = (u: Vec3, v: Vec3) =>
+      (Math.acos((u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / (length(u) * length(v))) * 180) / Math.PI;
+    return {
+      lengths: [length(a), length(b), length(c)],
+      angles: [angle(b, c), angle(a, c), angle(a, b)]
+    };
+  }
+
+  /**
+   * Box parameters as AMBER reads them. AMBER's truncated octahedron
+   * (IFBOX=2) has all three angles at 109.4712190°, while the reduced
+   * vectors used elsewhere give 70.53°, 109.47°, 70.53° for the same cell
+   */
+  private amberBoxParameters(box: SimulationBox): { lengths: Vec3; angles: Vec3 } {
+    const { lengths, angles } = this.boxParameters(box);
+    if (box.shape !== 'truncated-octahedron') return { lengths, angles };
+    return { lengths, angles: [OCTAHEDRON_ANGLE, OCTAHEDRON_ANGLE, OCTAHEDRON_ANGLE] };
+  }
+
   // Private helper methods - GROMACS
 
-  private convertPDBtoGRO(pdbData: string): string {
-    // TODO: Implement proper PDB to GRO conversion
-    return `Generated GROMACS structure
-    1
-System
-    1
-    0.000   0.000   0.000
-   10.000  10.000  10.000`;
+  private convertPDBtoGRO(system: TemplatedExportSystem): string {
+    const { atoms, residues, positions, box } = system;
+    const lines = ['Generated by LAB Visualization Platform', atoms.length.toString().padStart(5)];
+
+    // Fixed columns: residue number, residue name, atom name, atom number, x, y, z (nm)
+    atoms.forEach((atom, i) => {
+      const residue = residues[atom.residueIndex];
+      lines.push(
+        ((atom.residueIndex + 1) % 100000).toString().padStart(5) +
+        residue.name.slice(0, 5).padEnd(5) +
+        atom.name.slice(0, 5).padStart(5) +
+        ((i + 1) % 100000).toString().padStart(5) +
+        [0, 1, 2].map(d => positions[i * 3 + d].toFixed(3).padStart(8)).join('')
+      );
+    });
+
+    // Box: v1(x) v2(y) v3(z), followed by the off-diagonal terms for triclinic cells
+    const [a, b, c] = box.vectors;
+    const boxValues = box.shape === 'truncated-octahedron'
+      ? [a[0], b[1], c[2], a[1], a[2], b[0], b[2], c[0], c[1]]
+      : [a[0], b[1], c[2]];
+    lines.push(boxValues.map(v => v.toFixed(5).padStart(10)).join(''));
+
+    return lines.join('\n') + '\n';
   }
 
-  private generateGROMACSTopology(): string {
+  private generateGROMACSTopology(system: TemplatedExportSystem): string {
+    const { atoms, residues, forceField } = system;
+    const scale14 = forceField.scale14 ?? { vdw: 1, coulomb: 1 };
+
+    // Atom types in order of first use; water hydrogens carry no Lennard-Jones site
+    const types = Array.from(new Set(atoms.map(atom => atom.type)));
+    const atomTypes = types.map(type => {
+      const { element } = ATOM_TYPES[type];
+      const [sigma, epsilon] = type === 'HW' ? [0, 0] : [forceField.vdw.sigma, forceField.vdw.epsilon];
+      return `${type.padEnd(6)}${atomicNumber(element).toString().padStart(4)}${atomTypeMass(type).toFixed(4).padStart(10)}` +
+        `   0.000  A ${sigma.toExponential(5).padStart(12)} ${epsilon.toExponential(5).padStart(12)}`;
+    });
+
+    // Consecutive residues of the same chain form one molecule; waters and ions are single molecules
+    const molecules: Array<{ name: string; residues: number[] }> = [];
+    residues.forEach((residue, r) => {
+      const last = molecules[molecules.length - 1];
+      const previous = residues[r - 1];
+      if (residue.kind === 'amino-acid' && previous?.kind === 'amino-acid' && previous.chainID === residue.chainID) {
+        last.residues.push(r);
+      } else {
+        const name = residue.kind === 'amino-acid' ? `Protein_chain_${residue.chainID.trim() || 'X'}` : residue.name;
+        molecules.push({ name, residues: [r] });
+      }
+    });
+
+    // One moleculetype per distinct name; repeated solvent and ion molecules share theirs
+    const definitions = new Map<string, string>();
+    molecules.forEach(molecule => {
+      if (!definitions.has(molecule.name)) {
+        definitions.set(molecule.name, this.generateGROMACSMoleculeType(system, molecule.name, molecule.residues));
+      }
+    });
+
+    // [ molecules ] must follow coordinate order, merging runs of the same molecule
+    const counts: Array<[string, number]> = [];
+    molecules.forEach(({ name }) => {
+      const last = counts[counts.length - 1];
+      if (last && last[0] === name) last[1]++;
+      else counts.push([name, 1]);
+    });
+
     return `; GROMACS topology file
 ; Generated by LAB Visualization Platform
+; United-atom residue templates with the platform's generic force field parameters
 
 [ defaults ]
 ; nbfunc  comb-rule  gen-pairs  fudgeLJ  fudgeQQ
-1         2          yes        0.5      0.8333
+1         2          yes        ${scale14.vdw.toFixed(4)}   ${scale14.coulomb.toFixed(4)}
+
+[ atomtypes ]
+; name  at.num      mass  charge ptype        sigma      epsilon
+${atomTypes.join('\n')}
 
+${Array.from(definitions.values()).join('\n')}
 [ system ]
 ; Name
 Protein System
 
 [ molecules ]
 ; Compound  #mols
-Protein     1
+${counts.map(([name, count]) => `${name.padEnd(20)}${count}`).join('\n')}
 `;
   }
 
-  private generateGROMACSMDP(config: MDSimulationConfig): string {
+  /**
+   * [ moleculetype ] block with atoms, bonds, pairs, angles and dihedrals
+   * Equilibrium bond lengths and angles come from the input geometry
+   */
+  private generateGROMACSMoleculeType(system: TemplatedExportSystem, name: string, residueIndices: number[]): string {
+    const { atoms, residues, positions, forceField } = system;
+    const first = residues[residueIndices[0]].start;
+    const last = residues[residueIndices[residueIndices.length - 1]];
+    const count = last.start + last.count - first;
+
+    const bonds = system.bonds
+      .filter(([i, j]) => i >= first && i < first + count && j >= first && j < first + count)
+      .map(([i, j]) => [i - first, j - first] as [number, number]);
+    const topology = buildTopologyFromBonds(count, bonds);
+    const local = positions.subarray(first * 3, (first + count) * 3);
+
+    // 1-4 pairs, skipping ends that are already 1-2 or 1-3 partners in rings
+    const pairKey = (i: number, j: number) => `${Math.min(i, j)}-${Math.max(i, j)}`;
+    const closePairs = new Set([
+      ...topology.bonds.map(([i, j]) => pairKey(i, j)),
+      ...topology.angles.map(([i, , k]) => pairKey(i, k))
+    ]);
+    const pairs = new Map<string, [number, number]>();
+    topology.dihedrals.forEach(([i, , , l]) => {
+      const key = pairKey(i, l);
+      if (!closePairs.has(key)) pairs.set(key, [Math.min(i, l), Math.max(i, l)]);
+    });
+
+    const atomLines = Array.from({ length: count }, (_, i) => {
+      const atom = atoms[first + i];
+      return `${(i + 1).toString().padStart(6)} ${atom.type.padEnd(6)}${(atom.residueIndex + 1).toString().padStart(6)} ` +
+        `${residues[atom.residueIndex].name.padEnd(6)}${atom.name.padEnd(6)}${(i + 1).toString().padStart(6)}` +
+        `${atom.charge.toFixed(4).padStart(10)}${atomTypeMass(atom.type).toFixed(4).padStart(10)}`;
+    });
+    const bondLines = topology.bonds.map(([i, j]) =>
+      `${i + 1} ${j + 1} 1 ${this.distance(local, i, j).toFixed(5)} ${forceField.bond.k.toFixed(1)}`
+    );
+    const angleLines = topology.angles.map(([i, j, k]) =>
+      `${i + 1} ${j + 1} ${k + 1} 1 ${((this.angle(local, i, j, k) * 180) / Math.PI).toFixed(3)} ${forceField.angle.k.toFixed(2)}`
+    );
+    // Function type 9 allows one line per Fourier term
+    const dihedralLines = topology.dihedrals.flatMap(([i, j, k, l]) =>
+      forceField.dihedral.k.map((kd, t) =>
+        `${i + 1} ${j + 1} ${k + 1} ${l + 1} 9 ${((forceField.dihedral.phi0[t] * 180) / Math.PI).toFixed(1)} ${kd.toFixed(3)} ${forceField.dihedral.n[t]}`
+      )
+    );
+
+    const section = (title: string, header: string, lines: string[]) =>
+      lines.length > 0 ? `[ ${title} ]\n; ${header}\n${lines.join('\n')}\n\n` : '';
+
+    return `[ moleculetype ]
+; Name            nrexcl
+${name.padEnd(18)}3
+
+${section('atoms', '  nr type    resnr residu atom   cgnr    charge      mass', atomLines)}` +
+      section('bonds', 'ai aj funct b0 kb', bondLines) +
+      section('pairs', 'ai aj funct', Array.from(pairs.values()).map(([i, l]) => `${i + 1} ${l + 1} 1`)) +
+      section('angles', 'ai aj ak funct th0 cth', angleLines) +
+      section('dihedrals', 'ai aj ak al funct phi0 kphi mult', dihedralLines);
+  }
+
+  private generateGROMACSMinimizationMDP(system: TemplatedExportSystem): string {
+    return `; GROMACS energy minimization parameters
+; Generated by LAB Visualization Platform
+
+integrator               = steep
+emtol                    = 1000.0
+emstep                   = 0.01
+nsteps                   = 50000
+
+${this.gromacsNonbondedSettings(system)}`;
+  }
+
+  private generateGROMACSMDP(config: MDSimulationConfig, system: TemplatedExportSystem): string {
+    const stepsPerFrame = Math.max(1, Math.round(1000 / (config.timestep * config.outputFrequency)));
+
     return `; GROMACS MDP file
 ; Generated by LAB Visualization Platform
 
 integrator               = ${this.mapIntegratorToGROMACS(config.integrator)}
 dt                       = ${config.timestep / 1000}  ; ps
-nsteps                   = ${(config.totalTime / config.timestep) * 1000}
-nstxout                  = ${Math.floor(1000 / config.outputFrequency)}
-
+nsteps                   = ${Math.round((config.totalTime / config.timestep) * 1000)}
+nstxout-compressed       = ${stepsPerFrame}
+nstenergy                = ${stepsPerFrame}
+nstlog                   = ${stepsPerFrame}
+gen_vel                  = yes
+gen_temp                 = ${config.temperature}
+constraints              = h-bonds
+
+${this.gromacsNonbondedSettings(system)}
 ; Temperature coupling
-tcoupl                   = ${config.ensemble !== 'NVE' ? 'V-rescale' : 'no'}
+tcoupl                   = ${config.ensemble !== 'NVE' && config.integrator !== 'langevin' ? 'V-rescale' : 'no'}
+tc-grps                  = System
 ref_t                    = ${config.temperature}
-tau_t                    = 0.1
+tau_t                    = ${config.integrator === 'langevin' ? '1.0' : '0.1'}
 
 ; Pressure coupling
 pcoupl                   = ${config.ensemble === 'NPT' ? 'Parrinello-Rahman' : 'no'}
 ref_p                    = 1.0
 tau_p                    = 2.0
+compressibility          = 4.5e-5
+`;
+  }
+
+  /**
+   * Periodic boundaries and cutoffs shared by the minimization and MD inputs
+   */
+  private gromacsNonbondedSettings(system: TemplatedExportSystem): string {
+    const { forceField } = system;
+    // PME requires rcoulomb >= rvdw with the Verlet scheme
+    const rvdw = forceField.vdw.cutoff ?? 1.2;
+    return `pbc                      = xyz
+cutoff-scheme            = Verlet
+coulombtype              = PME
+rcoulomb                 = ${Math.max(forceField.coulomb.cutoff, rvdw)}
+vdwtype                  = Cut-off
+rvdw                     = ${rvdw}
 `;
   }
 
@@ -271,14 +729,11 @@ tau_p                    = 2.0
 
 echo "Starting GROMACS simulation..."
 
-# 1. Generate topology
-gmx pdb2gmx -f system.gro -o processed.gro -p topol.top
-
-# 2. Energy minimization
-gmx grompp -f em.mdp -c processed.gro -p topol.top -o em.tpr
+# 1. Energy minimization
+gmx grompp -f em.mdp -c system.gro -p topol.top -o em.tpr
 gmx mdrun -v -deffnm em
 
-# 3. Production MD
+# 2. Production MD
 gmx grompp -f md.mdp -c em.gro -p topol.top -o md.tpr
 gmx mdrun -v -deffnm md
 
@@ -286,23 +741,38 @@ echo "Simulation complete!"
 `;
   }
 
-  private generateGROMACSReadme(exportConfig: DesktopExportConfig): string {
+  private generateGROMACSReadme(exportConfig: DesktopExportConfig, system: TemplatedExportSystem): string {
     return `# GROMACS Simulation Setup
 
 Generated by LAB Visualization Platform
 
+## System
+
+- ${system.atoms.length} atoms, ${system.residues.length} residues, ${system.bonds.length} bonds
+- ${system.box.shape} periodic box
+
 ## Files Included
 
-- system.gro: Initial structure
-${exportConfig.includeTopology ? '- topol.top: System topology\n' : ''}${exportConfig.includeParameters ? '- md.mdp: MD parameters\n' : ''}${exportConfig.includeRunScript ? '- run_md.sh: Execution script\n' : ''}
+- system.gro: Initial structure and box
+${exportConfig.includeTopology ? '- topol.top: System topology\n' : ''}${exportConfig.includeParameters ? '- em.mdp: Energy minimization parameters\n- md.mdp: MD parameters\n' : ''}${exportConfig.includeRunScript ? '- run_md.sh: Execution script\n' : ''}
+## Structure Check
+
+${formatTemplateReport(system.report)}
+
+## Parameters
+
+Residues are built from the platform's united-atom templates (hydrogens merged
+into their heavy atoms). Bonded terms use the generic force field constants
+with equilibrium geometry from the input structure. For production work,
+regenerate the topology with gmx pdb2gmx and a full force field.
+
 ## Prerequisites
 
 - GROMACS 2020 or later
-- Appropriate force field files
 
 ## Running the Simulation
 
-1. Review and adjust parameters in md.mdp
+1. Review and adjust parameters in em.mdp and md.mdp
 2. Execute: ./run_md.sh
 3. Analyze results with GROMACS tools
 
@@ -412,6 +882,534 @@ See NAMD User Guide: https://www.ks.uiuc.edu/Research/namd/
     ];
   }
 
+  // Private helper methods - AMBER
+
+  private generateAMBERTopology(system: ExportSystem): string {
+    const { atoms, elements, topology, forceField } = system;
+    const natom = atoms.length;
+    const isHydrogen = (i: number) => elements[i] === 'H';
+    const charges = topology.charges ?? new Float32Array(natom);
+
+    // Exclusions: 1-2, 1-3 and 1-4 partners with a higher index (1-based, 0 marks none)
+    const partners: Array<Set<number>> = Array.from({ length: natom }, () => new Set());
+    const exclude = (i: number, j: number) => {
+      if (i === j) return;
+      partners[Math.min(i, j)].add(Math.max(i, j));
+    };
+    topology.bonds.forEach(([i, j]) => exclude(i, j));
+    topology.angles.forEach(([i, , k]) => exclude(i, k));
+    topology.dihedrals.forEach(([i, , , l]) => exclude(i, l));
+
+    const numberExcluded: number[] = [];
+    const excludedList: number[] = [];
+    partners.forEach(set => {
+      const sorted = Array.from(set).sort((a, b) => a - b);
+      numberExcluded.push(Math.max(sorted.length, 1));
+      excludedList.push(...(sorted.length > 0 ? sorted.map(j => j + 1) : [0]));
+    });
+
+    // Bonds and angles, split by whether they involve hydrogen (coordinate indices = 3 * atom)
+    const bondsH: number[] = [];
+    const bondsHeavy: number[] = [];
+    topology.bonds.forEach(([i, j], n) => {
+      const target = isHydrogen(i) || isHydrogen(j) ? bondsH : bondsHeavy;
+      target.push(i * 3, j * 3, system.bondTypeOf[n] + 1);
+    });
+
+    const anglesH: number[] = [];
+    const anglesHeavy: number[] = [];
+    topology.angles.forEach(([i, j, k], n) => {
+      const target = isHydrogen(i) || isHydrogen(j) || isHydrogen(k) ? anglesH : anglesHeavy;
+      target.push(i * 3, j * 3, k * 3, system.angleTypeOf[n] + 1);
+    });
+
+    // One entry per Fourier term; a negative fourth index skips 1-4 terms already counted
+    const dihedralsH: number[] = [];
+    const dihedralsHeavy: number[] = [];
+    const pairKey = (i: number, j: number) => `${Math.min(i, j)}-${Math.max(i, j)}`;
+    // Ends of a dihedral closing a 3- or 4-ring are already 1-2 or 1-3 partners
+    const closePairs = new Set([
+      ...topology.bonds.map(([i, j]) => pairKey(i, j)),
+      ...topology.angles.map(([i, , k]) => pairKey(i, k))
+    ]);
+    const counted14 = new Set<string>();
+    topology.dihedrals.forEach(dihedral => {
+      let [i, j, k, l] = dihedral;
+      // Atom 0 cannot carry the sign flag in the third or fourth position
+      if (k === 0 || l === 0) [i, j, k, l] = [l, k, j, i];
+
+      const pair = pairKey(i, l);
+      const skip14 = counted14.has(pair) || closePairs.has(pair);
+      counted14.add(pair);
+
+      const target = [i, j, k, l].some(isHydrogen) ? dihedralsH : dihedralsHeavy;
+      forceField.dihedral.k.forEach((_, term) => {
+        const sign = term > 0 || skip14 ? -1 : 1;
+        target.push(i * 3, j * 3, k * 3, sign * l * 3, term + 1);
+      });
+    });
+
+    // Residues
+    const residueLabels = system.residueStarts.map(start => {
+      const name = atoms[start].resName.trim();
+      return WATER_RESIDUES.has(name) ? 'WAT' : name;
+    });
+    const residuePointers = system.residueStarts.map(start => start + 1);
+    const residueSizes = system.residueStarts.map((start, r) =>
+      (system.residueStarts[r + 1] ?? natom) - start
+    );
+
+    // Single Lennard-Jones type from the force field (kcal/mol, Angstrom)
+    const epsilon = forceField.vdw.epsilon / KJ_PER_KCAL;
+    const sigma = forceField.vdw.sigma * 10;
+    const scale14 = forceField.scale14 ?? { vdw: 1, coulomb: 1 };
+    const ifbox = system.box.shape === 'truncated-octahedron' ? 2 : 1;
+    const { lengths, angles } = this.amberBoxParameters(system.box);
+
+    // Molecules must be listed for periodic systems; waters count as solvent
+    const molecules = findMolecules(natom, topology.bonds);
+    const isWaterResidue = residueLabels.map(label => label === 'WAT');
+    const firstWaterResidue = isWaterResidue.indexOf(true);
+    const firstSolventMolecule = molecules.findIndex(molecule =>
+      WATER_RESIDUES.has(atoms[molecule[0]].resName.trim())
+    );
+
+    const pointers = [
+      natom, 1, bondsH.length / 3, bondsHeavy.length / 3, anglesH.length / 4, anglesHeavy.length / 4,
+      dihedralsH.length / 5, dihedralsHeavy.length / 5, 0, 0, excludedList.length, residueLabels.length,
+      bondsHeavy.length / 3, anglesHeavy.length / 4, dihedralsHeavy.length / 5,
+      system.bondTypes.length, system.angleTypes.length, forceField.dihedral.k.length,
+      1, 0, 0, 0, 0, 0, 0, 0, 0, ifbox, Math.max(...residueSizes), 0, 0
+    ];
+
+    const radius = (e: string) => ({ H: 1.2, C: 1.7, N: 1.55, O: 1.5, S: 1.8, P: 1.85 } as Record<string, number>)[e] ?? 1.5;
+    const screen = (e: string) => ({ H: 0.85, C: 0.72, N: 0.79, O: 0.85, S: 0.96, P: 0.86 } as Record<string, number>)[e] ?? 0.8;
+
+    const date = new Date();
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    const stamp = `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${pad(date.getFullYear() % 100)}` +
+      `  ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+    const sections = [
+      `%VERSION  VERSION_STAMP = V0001.000  DATE = ${stamp}`,
+      this.prmtopSection('TITLE', ['LAB Visualization Platform export'], 'a80'),
+      this.prmtopSection('POINTERS', pointers, 'I8'),
+      this.prmtopSection('ATOM_NAME', atoms.map(a => a.name.trim()), 'a4'),
+      this.prmtopSection('CHARGE', Array.from(charges, q => q * AMBER_CHARGE_SCALE), 'E16.8'),
+      this.prmtopSection('ATOMIC_NUMBER', elements.map(atomicNumber), 'I8'),
+      this.prmtopSection('MASS', Array.from(system.masses), 'E16.8'),
+      this.prmtopSection('ATOM_TYPE_INDEX', atoms.map(() => 1), 'I8'),
+      this.prmtopSection('NUMBER_EXCLUDED_ATOMS', numberExcluded, 'I8'),
+      this.prmtopSection('NONBONDED_PARM_INDEX', [1], 'I8'),
+      this.prmtopSection('RESIDUE_LABEL', residueLabels, 'a4'),
+      this.prmtopSection('RESIDUE_POINTER', residuePointers, 'I8'),
+      // Harmonic terms are E = K (x - x0)^2 in kcal/mol/A^2 and kcal/mol/rad^2
+      this.prmtopSection(
+        'BOND_FORCE_CONSTANT',
+        system.bondTypes.map(() => forceField.bond.k / 2 / KJ_PER_KCAL / 100),
+        'E16.8'
+      ),
+      this.prmtopSection('BOND_EQUIL_VALUE', system.bondTypes.map(r0 => r0 * 10), 'E16.8'),
+      this.prmtopSection(
+        'ANGLE_FORCE_CONSTANT',
+        system.angleTypes.map(() => forceField.angle.k / 2 / KJ_PER_KCAL),
+        'E16.8'
+      ),
+      this.prmtopSection('ANGLE_EQUIL_VALUE', system.angleTypes, 'E16.8'),
+      this.prmtopSection('DIHEDRAL_FORCE_CONSTANT', forceField.dihedral.k.map(k => k / KJ_PER_KCAL), 'E16.8'),
+      this.prmtopSection('DIHEDRAL_PERIODICITY', forceField.dihedral.n, 'E16.8'),
+      this.prmtopSection('DIHEDRAL_PHASE', forceField.dihedral.phi0, 'E16.8'),
+      this.prmtopSection('SCEE_SCALE_FACTOR', forceField.dihedral.k.map(() => 1 / scale14.coulomb), 'E16.8'),
+      this.prmtopSection('SCNB_SCALE_FACTOR', forceField.dihedral.k.map(() => 1 / scale14.vdw), 'E16.8'),
+      this.prmtopSection('SOLTY', [0], 'E16.8'),
+      this.prmtopSection('LENNARD_JONES_ACOEF', [4 * epsilon * Math.pow(sigma, 12)], 'E16.8'),
+      this.prmtopSection('LENNARD_JONES_BCOEF', [4 * epsilon * Math.pow(sigma, 6)], 'E16.8'),
+      this.prmtopSection('BONDS_INC_HYDROGEN', bondsH, 'I8'),
+      this.prmtopSection('BONDS_WITHOUT_HYDROGEN', bondsHeavy, 'I8'),
+      this.prmtopSection('ANGLES_INC_HYDROGEN', anglesH, 'I8'),
+      this.prmtopSection('ANGLES_WITHOUT_HYDROGEN', anglesHeavy, 'I8'),
+      this.prmtopSection('DIHEDRALS_INC_HYDROGEN', dihedralsH, 'I8'),
+      this.prmtopSection('DIHEDRALS_WITHOUT_HYDROGEN', dihedralsHeavy, 'I8'),
+      this.prmtopSection('EXCLUDED_ATOMS_LIST', excludedList, 'I8'),
+      this.prmtopSection('HBOND_ACOEF', [], 'E16.8'),
+      this.prmtopSection('HBOND_BCOEF', [], 'E16.8'),
+      this.prmtopSection('HBCUT', [], 'E16.8'),
+      this.prmtopSection('AMBER_ATOM_TYPE', elements, 'a4'),
+      this.prmtopSection('TREE_CHAIN_CLASSIFICATION', atoms.map(() => 'BLA'), 'a4'),
+      this.prmtopSection('JOIN_ARRAY', atoms.map(() => 0), 'I8'),
+      this.prmtopSection('IROTAT', atoms.map(() => 0), 'I8'),
+      this.prmtopSection(
+        'SOLVENT_POINTERS',
+        [
+          firstWaterResidue >= 0 ? firstWaterResidue : residueLabels.length,
+          molecules.length,
+          firstSolventMolecule >= 0 ? firstSolventMolecule + 1 : molecules.length + 1
+        ],
+        'I8'
+      ),
+      this.prmtopSection('ATOMS_PER_MOLECULE', molecules.map(m => m.length), 'I8'),
+      this.prmtopSection('BOX_DIMENSIONS', [angles[1], lengths[0] * 10, lengths[1] * 10, lengths[2] * 10], 'E16.8'),
+      this.prmtopSection('RADIUS_SET', ['modified Bondi radii (mbondi)'], 'a80'),
+      this.prmtopSection('RADII', elements.map(radius), 'E16.8'),
+      this.prmtopSection('SCREEN', elements.map(screen), 'E16.8')
+    ];
+
+    return sections.join('\n') + '\n';
+  }
+
+  /**
+   * One %FLAG block in Fortran fixed-width format
+   */
+  private prmtopSection(flag: string, values: Array<string | number>, format: 'a4' | 'a80' | 'I8' | 'E16.8'): string {
+    const layouts = {
+      a4: { spec: '20a4', perLine: 20, render: (v: string | number) => String(v).slice(0, 4).padEnd(4) },
+      a80: { spec: '20a4', perLine: 1, render: (v: string | number) => String(v).slice(0, 80).padEnd(80) },
+      I8: { spec: '10I8', perLine: 10, render: (v: string | number) => String(Math.round(Number(v))).padStart(8) },
+      'E16.8': { spec: '5E16.8', perLine: 5, render: (v: string | number) => this.fortranExponential(Number(v), 16) }
+    };
+    const layout = layouts[format];
+    const lines = [`%FLAG ${flag}`, `%FORMAT(${layout.spec})`];
+
+    for (let i = 0; i < values.length; i += layout.perLine) {
+      lines.push(values.slice(i, i + layout.perLine).map(layout.render).join(''));
+    }
+    if (values.length === 0) lines.push('');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Fortran-style exponential, e.g. 1.52200000E+00
+   */
+  private fortranExponential(value: number, width: number): string {
+    const [mantissa, exponent] = value.toExponential(8).split('e');
+    const exp = Number(exponent);
+    const formatted = `${mantissa}E${exp < 0 ? '-' : '+'}${Math.abs(exp).toString().padStart(2, '0')}`;
+    return formatted.padStart(width);
+  }
+
+  private generateAMBERCoordinates(system: ExportSystem): string {
+    const natom = system.atoms.length;
+    const lines = ['LAB Visualization Platform export', natom.toString().padStart(6)];
+    const values = Array.from(system.positions, v => (v * 10).toFixed(7).padStart(12));
+
+    // 6F12.7: two atoms per line
+    for (let i = 0; i < values.length; i += 6) {
+      lines.push(values.slice(i, i + 6).join(''));
+    }
+
+    const { lengths, angles } = this.amberBoxParameters(system.box);
+    lines.push(
+      [...lengths.map(l => l * 10), ...angles].map(v => v.toFixed(7).padStart(12)).join('')
+    );
+
+    return lines.join('\n') + '\n';
+  }
+
+  private generateAMBERMinInput(system: ExportSystem): string {
+    return `Energy minimization
+ &cntrl
+  imin=1, maxcyc=2000, ncyc=500,
+  ntb=1, cut=${(system.forceField.coulomb.cutoff * 10).toFixed(1)},
+  ntpr=100,
+ /
+`;
+  }
+
+  private generateAMBERMDInput(config: MDSimulationConfig, system: ExportSystem): string {
+    const stepsPerFrame = Math.max(1, Math.round(1000 / (config.timestep * config.outputFrequency)));
+    const thermostat = config.ensemble === 'NVE'
+      ? '  ntt=0,'
+      : config.integrator === 'langevin'
+        ? `  ntt=3, gamma_ln=1.0, temp0=${config.temperature}, ig=-1,`
+        : `  ntt=1, tautp=0.1, temp0=${config.temperature},`;
+    const barostat = config.ensemble === 'NPT'
+      ? '  ntb=2, ntp=1, barostat=1, pres0=1.0, taup=1.0,'
+      : '  ntb=1, ntp=0,';
+
+    return `Production MD (${config.ensemble}, ${config.integrator})
+ &cntrl
+  imin=0, irest=0, ntx=1,
+  nstlim=${Math.round((config.totalTime / config.timestep) * 1000)}, dt=${config.timestep / 1000},
+  ntc=1, ntf=1,
+  cut=${(system.forceField.coulomb.cutoff * 10).toFixed(1)},
+  tempi=${config.temperature},
+${thermostat}
+${barostat}
+  ntpr=${stepsPerFrame}, ntwx=${stepsPerFrame}, ntwe=${stepsPerFrame},
+ /
+`;
+  }
+
+  private generateAMBERScript(): string {
+    return `#!/bin/bash
+# AMBER MD simulation script
+# Generated by LAB Visualization Platform
+
+AMBER=\${AMBER_EXE:-sander}
+
+echo "Starting AMBER simulation..."
+
+# 1. Energy minimization
+$AMBER -O -i min.in -p system.prmtop -c system.inpcrd -r min.rst7 -o min.out
+
+# 2. Production MD
+$AMBER -O -i md.in -p system.prmtop -c min.rst7 -r md.rst7 -x md.nc -o md.out
+
+echo "Simulation complete!"
+`;
+  }
+
+  private generateAMBERReadme(exportConfig: DesktopExportConfig, system: ExportSystem): string {
+    return `# AMBER Simulation Setup
+
+Generated by LAB Visualization Platform
+
+## System
+
+- ${system.atoms.length} atoms, ${system.residueStarts.length} residues
+- ${system.topology.bonds.length} bonds, ${system.topology.angles.length} angles, ${system.topology.dihedrals.length} dihedrals
+- ${system.box.shape} periodic box
+
+## Files Included
+
+- system.inpcrd: Initial coordinates and box
+${exportConfig.includeTopology ? '- system.prmtop: Parameters and topology\n' : ''}${exportConfig.includeParameters ? '- min.in: Energy minimization input\n- md.in: Production MD input\n' : ''}${exportConfig.includeRunScript ? '- run_amber.sh: Execution script\n' : ''}
+## Parameters
+
+Bonds, angles and dihedrals use the platform's generic force field constants;
+equilibrium bond lengths and angles are taken from the input geometry. Charges
+are formal charges of ionizable groups. For production work, rebuild the
+topology with tleap and a full AMBER force field (e.g. ff19SB).
+
+## Prerequisites
+
+- AmberTools 20 or later (sander) or AMBER (pmemd)
+
+## Running the Simulation
+
+1. Review and adjust min.in and md.in
+2. Execute: ./run_amber.sh (set AMBER_EXE=pmemd.cuda to use GPUs)
+3. Analyze results with cpptraj
+
+## Documentation
+
+See the Amber manual: https://ambermd.org/Manuals.php
+`;
+  }
+
+  // Private helper methods - LAMMPS
+
+  private generateLAMMPSData(system: ExportSystem): string {
+    const { atoms, elements, topology, forceField, box } = system;
+    const charges = topology.charges ?? new Float32Array(atoms.length);
+
+    // One atom type per element so each type has a single mass
+    const typeElements = Array.from(new Set(elements));
+    const typeOf = elements.map(e => typeElements.indexOf(e) + 1);
+    const massOf = (element: string) => system.masses[elements.indexOf(element)];
+
+    // Molecule IDs from the bond graph
+    const moleculeOf = new Array<number>(atoms.length);
+    findMolecules(atoms.length, topology.bonds).forEach((molecule, m) => {
+      molecule.forEach(i => { moleculeOf[i] = m + 1; });
+    });
+
+    const [a, b, c] = box.vectors;
+    const triclinic = box.shape === 'truncated-octahedron';
+    const epsilon = forceField.vdw.epsilon / KJ_PER_KCAL;
+    const sigma = forceField.vdw.sigma * 10;
+    const dihedralCoeffs = forceField.dihedral.k
+      .map((k, t) =>
+        `${(k / KJ_PER_KCAL).toFixed(6)} ${forceField.dihedral.n[t]} ${((forceField.dihedral.phi0[t] * 180) / Math.PI).toFixed(1)}`
+      )
+      .join(' ');
+
+    const lines: string[] = [
+      'LAMMPS data file - Generated by LAB Visualization Platform',
+      '',
+      `${atoms.length} atoms`,
+      `${topology.bonds.length} bonds`,
+      `${topology.angles.length} angles`,
+      `${topology.dihedrals.length} dihedrals`,
+      '',
+      `${typeElements.length} atom types`,
+      `${Math.max(system.bondTypes.length, 1)} bond types`,
+      `${Math.max(system.angleTypes.length, 1)} angle types`,
+      '1 dihedral types',
+      '',
+      `0.000000 ${(a[0] * 10).toFixed(6)} xlo xhi`,
+      `0.000000 ${(b[1] * 10).toFixed(6)} ylo yhi`,
+      `0.000000 ${(c[2] * 10).toFixed(6)} zlo zhi`
+    ];
+    if (triclinic) {
+      lines.push(`${(b[0] * 10).toFixed(6)} ${(c[0] * 10).toFixed(6)} ${(c[1] * 10).toFixed(6)} xy xz yz`);
+    }
+
+    lines.push('', 'Masses', '');
+    typeElements.forEach((e, t) => lines.push(`${t + 1} ${massOf(e).toFixed(4)} # ${e}`));
+
+    lines.push('', 'Pair Coeffs # lj/cut/coul/long', '');
+    typeElements.forEach((e, t) => lines.push(`${t + 1} ${epsilon.toFixed(6)} ${sigma.toFixed(6)} # ${e}`));
+
+    // Harmonic bond and angle energies are K (x - x0)^2 in kcal/mol/A^2 and kcal/mol/rad^2
+    if (system.bondTypes.length > 0) {
+      lines.push('', 'Bond Coeffs # harmonic', '');
+      system.bondTypes.forEach((r0, t) =>
+        lines.push(`${t + 1} ${(forceField.bond.k / 2 / KJ_PER_KCAL / 100).toFixed(4)} ${(r0 * 10).toFixed(4)}`)
+      );
+    }
+    if (system.angleTypes.length > 0) {
+      lines.push('', 'Angle Coeffs # harmonic', '');
+      system.angleTypes.forEach((theta0, t) =>
+        lines.push(`${t + 1} ${(forceField.angle.k / 2 / KJ_PER_KCAL).toFixed(4)} ${((theta0 * 180) / Math.PI).toFixed(3)}`)
+      );
+    }
+    lines.push('', 'Dihedral Coeffs # fourier', '', `1 ${forceField.dihedral.k.length} ${dihedralCoeffs}`);
+
+    // Atoms must lie inside the box; image flags keep molecules whole
+    lines.push('', 'Atoms # full', '');
+    atoms.forEach((atom, i) => {
+      const { position, image } = wrapToUnitCell(box, [
+        system.positions[i * 3],
+        system.positions[i * 3 + 1],
+        system.positions[i * 3 + 2]
+      ]);
+      lines.push(
+        `${i + 1} ${moleculeOf[i]} ${typeOf[i]} ${charges[i].toFixed(6)} ` +
+        `${position.map(v => (v * 10).toFixed(6)).join(' ')} ${image.join(' ')}`
+      );
+    });
+
+    if (topology.bonds.length > 0) {
+      lines.push('', 'Bonds', '');
+      topology.bonds.forEach(([i, j], n) => lines.push(`${n + 1} ${system.bondTypeOf[n] + 1} ${i + 1} ${j + 1}`));
+    }
+    if (topology.angles.length > 0) {
+      lines.push('', 'Angles', '');
+      topology.angles.forEach(([i, j, k], n) =>
+        lines.push(`${n + 1} ${system.angleTypeOf[n] + 1} ${i + 1} ${j + 1} ${k + 1}`)
+      );
+    }
+    if (topology.dihedrals.length > 0) {
+      lines.push('', 'Dihedrals', '');
+      topology.dihedrals.forEach(([i, j, k, l], n) =>
+        lines.push(`${n + 1} 1 ${i + 1} ${j + 1} ${k + 1} ${l + 1}`)
+      );
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private generateLAMMPSInput(config: MDSimulationConfig, system: ExportSystem): string {
+    const { forceField } = system;
+    const steps = Math.round((config.totalTime / config.timestep) * 1000);
+    const stepsPerFrame = Math.max(1, Math.round(1000 / (config.timestep * config.outputFrequency)));
+    const scale14 = forceField.scale14 ?? { vdw: 1, coulomb: 1 };
+    const T = config.temperature;
+
+    let ensemble: string;
+    if (config.integrator === 'langevin') {
+      ensemble = (config.ensemble === 'NPT' ? 'fix 1 all nph iso 1.0 1.0 1000.0\n' : 'fix 1 all nve\n') +
+        `fix 2 all langevin ${T} ${T} 1000.0 48279`;
+    } else if (config.ensemble === 'NVT') {
+      ensemble = `fix 1 all nvt temp ${T} ${T} 100.0`;
+    } else if (config.ensemble === 'NPT') {
+      ensemble = `fix 1 all npt temp ${T} ${T} 100.0 iso 1.0 1.0 1000.0`;
+    } else {
+      ensemble = 'fix 1 all nve';
+    }
+
+    return `# LAMMPS input script
+# Generated by LAB Visualization Platform
+
+units           real
+atom_style      full
+boundary        p p p
+
+pair_style      lj/cut/coul/long ${(forceField.vdw.cutoff ?? 1.2) * 10} ${forceField.coulomb.cutoff * 10}
+bond_style      harmonic
+angle_style     harmonic
+dihedral_style  fourier
+special_bonds   lj 0.0 0.0 ${scale14.vdw.toFixed(4)} coul 0.0 0.0 ${scale14.coulomb.toFixed(4)}
+kspace_style    pppm 1.0e-4
+
+read_data       system.data
+
+neighbor        2.0 bin
+neigh_modify    delay 0 every 1 check yes
+
+# Energy minimization
+thermo          100
+minimize        1.0e-4 1.0e-6 1000 10000
+reset_timestep  0
+
+# Production MD (${config.ensemble}, ${config.integrator})
+timestep        ${config.timestep}
+velocity        all create ${T} 4928459 mom yes rot yes dist gaussian
+${ensemble}
+
+thermo_style    custom step temp pe ke etotal press vol
+thermo          ${stepsPerFrame}
+dump            traj all dcd ${stepsPerFrame} trajectory.dcd
+
+run             ${steps}
+write_data      final.data
+`;
+  }
+
+  private generateLAMMPSScript(): string {
+    return `#!/bin/bash
+# LAMMPS MD simulation script
+# Generated by LAB Visualization Platform
+
+LMP=\${LMP_EXE:-lmp}
+
+echo "Starting LAMMPS simulation..."
+
+mpirun -np \${NPROCS:-4} $LMP -in in.lammps -log md.log
+
+echo "Simulation complete!"
+`;
+  }
+
+  private generateLAMMPSReadme(exportConfig: DesktopExportConfig, system: ExportSystem): string {
+    return `# LAMMPS Simulation Setup
+
+Generated by LAB Visualization Platform
+
+## System
+
+- ${system.atoms.length} atoms, ${system.residueStarts.length} residues
+- ${system.topology.bonds.length} bonds, ${system.topology.angles.length} angles, ${system.topology.dihedrals.length} dihedrals
+- ${system.box.shape} periodic box
+
+## Files Included
+
+- system.data: Coordinates, topology and force field coefficients (real units)
+${exportConfig.includeParameters ? '- in.lammps: Minimization and MD input script\n' : ''}${exportConfig.includeRunScript ? '- run_lammps.sh: Execution script\n' : ''}
+## Parameters
+
+Bonds, angles and dihedrals use the platform's generic force field constants;
+equilibrium bond lengths and angles are taken from the input geometry. Charges
+are formal charges of ionizable groups and long-range electrostatics use PPPM.
+
+## Prerequisites
+
+- LAMMPS (2020 or later) built with the MOLECULE and KSPACE packages
+
+## Running the Simulation
+
+1. Review and adjust in.lammps
+2. Execute: ./run_lammps.sh (set LMP_EXE and NPROCS for your cluster)
+3. Analyze trajectory.dcd with VMD or MDAnalysis
+
+## Documentation
+
+See the LAMMPS manual: https://docs.lammps.org/
+`;
+  }
+
   // Citations for other formats
 
   private getAMBERCitations(): string[] {
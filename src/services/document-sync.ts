@@ -0,0 +1,270 @@
+/**
+ * Document sync service
+ * Carries collaboration document operations over the session's realtime
+ * channel. Changes made while offline wait in an outbox and are sent on
+ * reconnect, after which peers send back whatever this replica missed
+ */
+import { CollaborationDocument, type DocumentOrigin } from './collaboration-document';
+import type {
+  DocumentOperation,
+  DocumentSyncEvents,
+} from '@/types/collaboration';
+
+const BATCH_SIZE = 100; // Operations per broadcast message
+
+/**
+ * The parts of a realtime channel the sync uses. Satisfied by Supabase's
+ * RealtimeChannel and by MockRealtimeChannel
+ */
+export interface SyncChannel {
+  on(
+    type: 'broadcast',
+    filter: { event: string },
+    callback: (message: { payload: unknown }) => void
+  ): unknown;
+  send(message: {
+    type: 'broadcast';
+    event: string;
+    payload: Record<string, unknown>;
+  }): Promise<unknown>;
+}
+
+export class DocumentSyncService {
+  private document: CollaborationDocument | null = null;
+  private sessionId: string | null = null;
+  private channel: SyncChannel | null = null;
+  private subscribed = false;
+  private online = true;
+  private outbox: DocumentOperation[] = [];
+  private flushing: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+  private unsubscribeDocument: (() => void) | null = null;
+
+  /**
+   * Sync a session's document over a channel. Call before subscribing to the
+   * channel, then report its status with setSubscribed(). Reattaching to the
+   * same session keeps the document and any unsent changes
+   */
+  attach(channel: SyncChannel, sessionId: string, userId: string): void {
+    if (this.sessionId !== sessionId || !this.document) {
+      this.reset();
+      this.sessionId = sessionId;
+      this.document = new CollaborationDocument(
+        `${userId}:${Math.random().toString(36).substring(2, 10)}`
+      );
+      this.unsubscribeDocument = this.document.subscribe(this.handleDocumentChange);
+    } else {
+      this.detach();
+    }
+
+    this.channel = channel;
+    channel.on('broadcast', { event: 'document-ops' }, ({ payload }) => {
+      this.handleOperations(channel, payload as DocumentSyncEvents['document-ops']);
+    });
+    channel.on('broadcast', { event: 'document-sync' }, ({ payload }) => {
+      this.handleSyncRequest(channel, payload as DocumentSyncEvents['document-sync']);
+    });
+
+    if (typeof window !== 'undefined') {
+      this.online = navigator.onLine;
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+  }
+
+  /**
+   * Report whether the channel is subscribed. Unsent changes are sent and
+   * missed ones requested whenever the sync comes back online
+   */
+  async setSubscribed(subscribed: boolean): Promise<void> {
+    await this.updateConnection(() => {
+      this.subscribed = subscribed;
+    });
+  }
+
+  /**
+   * Stop syncing over the current channel. The document and unsent changes
+   * are kept for the next attach()
+   */
+  detach(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+
+    this.channel = null;
+    this.subscribed = false;
+    this.notify();
+  }
+
+  /**
+   * Detach and discard the document
+   */
+  reset(): void {
+    this.detach();
+    this.unsubscribeDocument?.();
+    this.unsubscribeDocument = null;
+    this.document = null;
+    this.sessionId = null;
+    this.outbox = [];
+    this.notify();
+  }
+
+  getDocument(): CollaborationDocument | null {
+    return this.document;
+  }
+
+  isConnected(): boolean {
+    return !!this.channel && this.subscribed && this.online;
+  }
+
+  /**
+   * Local changes not yet sent to the channel
+   */
+  getPendingCount(): number {
+    return this.outbox.length;
+  }
+
+  /**
+   * Subscribe to document, outbox and connection changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleDocumentChange = (
+    operations: DocumentOperation[],
+    origin: DocumentOrigin
+  ): void => {
+    if (origin === 'local') {
+      this.outbox.push(...operations);
+      void this.flush();
+    }
+    this.notify();
+  };
+
+  private handleOnline = (): void => {
+    void this.updateConnection(() => {
+      this.online = true;
+    });
+  };
+
+  private handleOffline = (): void => {
+    void this.updateConnection(() => {
+      this.online = false;
+    });
+  };
+
+  private async updateConnection(update: () => void): Promise<void> {
+    const wasConnected = this.isConnected();
+    update();
+    this.notify();
+
+    if (!wasConnected && this.isConnected()) {
+      await this.flush();
+      await this.requestSync();
+    }
+  }
+
+  // Messages are ignored while offline; the sync request on reconnect
+  // fetches anything missed
+  private handleOperations(
+    channel: SyncChannel,
+    payload: DocumentSyncEvents['document-ops']
+  ): void {
+    const document = this.document;
+    if (channel !== this.channel || !document || !this.isConnected()) return;
+    if (payload.from === document.replicaId) return;
+    if (payload.to && payload.to !== document.replicaId) return;
+
+    document.applyOperations(payload.operations);
+  }
+
+  private handleSyncRequest(
+    channel: SyncChannel,
+    payload: DocumentSyncEvents['document-sync']
+  ): void {
+    const document = this.document;
+    if (channel !== this.channel || !document || !this.isConnected()) return;
+    if (payload.from === document.replicaId) return;
+
+    const missing = document.getOperationsSince(payload.vector);
+    if (missing.length > 0) {
+      void this.sendOperations(missing, payload.from);
+    }
+
+    // The requester may hold operations from replicas this one never heard
+    if (document.isBehind(payload.vector)) {
+      void this.requestSync();
+    }
+  }
+
+  private flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendOutbox().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async sendOutbox(): Promise<void> {
+    const outbox = this.outbox;
+    while (this.isConnected() && outbox.length > 0) {
+      const batch = outbox.slice(0, BATCH_SIZE);
+      const sent = await this.send('document-ops', {
+        from: this.document!.replicaId,
+        operations: batch,
+      });
+      // Stop on failure, or if the document was reset meanwhile
+      if (!sent || outbox !== this.outbox) return;
+
+      outbox.splice(0, batch.length);
+      this.notify();
+    }
+  }
+
+  private async sendOperations(operations: DocumentOperation[], to: string): Promise<void> {
+    for (let i = 0; i < operations.length; i += BATCH_SIZE) {
+      const sent = await this.send('document-ops', {
+        from: this.document!.replicaId,
+        to,
+        operations: operations.slice(i, i + BATCH_SIZE),
+      });
+      if (!sent) return;
+    }
+  }
+
+  private async requestSync(): Promise<void> {
+    if (!this.document) return;
+
+    await this.send('document-sync', {
+      from: this.document.replicaId,
+      vector: this.document.getVersionVector(),
+    });
+  }
+
+  private async send<K extends keyof DocumentSyncEvents>(
+    event: K,
+    payload: DocumentSyncEvents[K]
+  ): Promise<boolean> {
+    if (!this.channel) return false;
+
+    try {
+      const status = await this.channel.send({ type: 'broadcast', event, payload });
+      return status === 'ok';
+    } catch (error) {
+      console.error(`Failed to send ${event}:`, error);
+      return false;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const documentSync = new DocumentSyncService();
@@ -0,0 +1,104 @@
+/**
+ * Electrostatics Service
+ *
+ * Computes electrostatic potentials for surface coloring in a Web Worker;
+ * falls back to the main thread where workers are unavailable (SSR, tests)
+ */
+
+import {
+  coulombPotential,
+  poissonBoltzmannPotential,
+  type ChargedAtom,
+  type ElectrostaticsMethod,
+} from '@/lib/surface-properties';
+import type { ElectrostaticsWorkerRequest, ElectrostaticsWorkerResponse } from '@/workers/electrostatics.worker';
+
+type WorkerFactory = () => Worker | null;
+
+interface PendingPotential {
+  resolve: (values: number[]) => void;
+  reject: (error: Error) => void;
+}
+
+function createElectrostaticsWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  return new Worker(new URL('../workers/electrostatics.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Electrostatics Service
+ */
+export class ElectrostaticsService {
+  private worker: Worker | null | undefined;
+  private pending = new Map<number, PendingPotential>();
+  private nextId = 0;
+
+  constructor(private createWorker: WorkerFactory = createElectrostaticsWorker) {}
+
+  /**
+   * Potential in kT/e at each atom, in input order
+   */
+  async computePotential(atoms: ChargedAtom[], method: ElectrostaticsMethod): Promise<number[]> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return method === 'poisson-boltzmann' ? poissonBoltzmannPotential(atoms) : coulombPotential(atoms);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const request: ElectrostaticsWorkerRequest = { type: 'potential', id, method, atoms };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Terminate the worker and reject calculations still running
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.pending.forEach(({ reject }) => reject(new Error('Electrostatics service disposed')));
+    this.pending.clear();
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker === undefined) {
+      try {
+        this.worker = this.createWorker();
+      } catch (error) {
+        console.warn('[ElectrostaticsService] Worker unavailable, computing on the main thread:', error);
+        this.worker = null;
+      }
+      this.worker?.addEventListener('message', (event: MessageEvent<ElectrostaticsWorkerResponse>) =>
+        this.handleResponse(event.data)
+      );
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: ElectrostaticsWorkerResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      pending.resolve(response.values);
+    } else {
+      pending.reject(new Error(response.error));
+    }
+  }
+}
+
+// Singleton instance
+let serviceInstance: ElectrostaticsService | null = null;
+
+/**
+ * Get singleton electrostatics service instance
+ */
+export function getElectrostaticsService(): ElectrostaticsService {
+  if (!serviceInstance) {
+    serviceInstance = new ElectrostaticsService();
+  }
+  return serviceInstance;
+}
@@ -5,3 +5,8 @@
 export { collaborationSession, CollaborationSessionService } from './collaboration-session';
 export { cameraSync, CameraSyncService } from './camera-sync';
 export { conflictResolution, ConflictResolutionService } from './conflict-resolution';
+export { documentSync, DocumentSyncService } from './document-sync';
+export { CollaborationDocument } from './collaboration-document';
+export { sessionRecorder, SessionRecorderService } from './session-recorder';
+export { sessionRecordingService, SessionRecordingService } from './session-recording-service';
+export { SessionReplayPlayer } from './session-replay';
@@ -13,8 +13,7 @@
  */
 
 import { PluginContext } from 'molstar/lib/mol-plugin/context';
-import { Structure, StructureElement, Unit } from 'molstar/lib/mol-model/structure';
-import { Vec3 } from 'molstar/lib/mol-math/linear-algebra';
+import { Structure, Unit } from 'molstar/lib/mol-model/structure';
 import { StateTransforms } from 'molstar/lib/mol-plugin-state/transforms';
 import { ElementIndex } from 'molstar/lib/mol-model/structure/model/indexing';
 
@@ -57,17 +56,15 @@ export interface DetectionOptions {
 }
 
 /**
- * Atom information for detection
+ * Atom with coordinates (Å) for geometric detection
  */
-interface AtomInfo {
+export interface HydrogenBondAtom {
   chainId: string;
   residueSeq: number;
   residueName: string;
   atomName: string;
   element: string;
   position: [number, number, number];
-  unit: Unit;
-  elementIndex: ElementIndex;
 }
 
 /**
@@ -142,6 +139,34 @@ export class HydrogenBondDetector {
     options: DetectionOptions = {}
   ): Promise<HydrogenBond[]> {
     const startTime = performance.now();
+
+    // Get structure from plugin state
+    const structure = this.getStructure();
+    if (!structure) {
+      console.warn('[HydrogenBondDetector] No structure loaded');
+      return [];
+    }
+
+    const hbonds = HydrogenBondDetector.detectInAtoms(this.collectAtoms(structure), options);
+
+    const duration = performance.now() - startTime;
+    console.info(
+      `[HydrogenBondDetector] Detected ${hbonds.length} H-bonds in ${duration.toFixed(2)}ms`
+    );
+
+    return hbonds;
+  }
+
+  /**
+   * Detect hydrogen bonds among plain atoms, e.g. one trajectory frame
+   *
+   * @param atoms Atoms with positions in Å, hydrogens included when present
+   * @param options Detection configuration
+   */
+  static detectInAtoms(
+    atoms: HydrogenBondAtom[],
+    options: DetectionOptions = {}
+  ): HydrogenBond[] {
     const {
       maxDistance = 3.5,
       minAngle = 120,
@@ -151,36 +176,36 @@ export class HydrogenBondDetector {
 
     const hbonds: HydrogenBond[] = [];
 
-    // Get structure from plugin state
-    const structure = this.getStructure();
-    if (!structure) {
-      console.warn('[HydrogenBondDetector] No structure loaded');
-      return hbonds;
-    }
-
     // Extract all potential donors and acceptors
-    const donors = this.findDonorAtoms(structure);
-    const acceptors = this.findAcceptorAtoms(structure);
-
-    console.info(
-      `[HydrogenBondDetector] Found ${donors.length} donors, ${acceptors.length} acceptors`
+    const donors = atoms.filter(atom =>
+      HydrogenBondDetector.isDonorAtom(atom.atomName, atom.element, atom.residueName)
+    );
+    const acceptors = atoms.filter(atom =>
+      HydrogenBondDetector.isAcceptorAtom(atom.atomName, atom.element, atom.residueName)
     );
 
+    // Hydrogens grouped by residue for the D-H lookup
+    const hydrogens = new Map<string, HydrogenBondAtom[]>();
+    for (const atom of atoms) {
+      if (atom.element !== 'H') continue;
+      const key = `${atom.chainId}:${atom.residueSeq}`;
+      if (!hydrogens.has(key)) hydrogens.set(key, []);
+      hydrogens.get(key)!.push(atom);
+    }
+
     // Apply radius filter if selection provided
-    const filteredDonors = radiusFromSelection && selectedResidue
-      ? this.filterByRadius(donors, selectedResidue, radiusFromSelection, structure)
-      : donors;
+    const center = radiusFromSelection && selectedResidue
+      ? HydrogenBondDetector.getResidueCenterPosition(atoms, selectedResidue.chainId, selectedResidue.residueSeq)
+      : null;
+    const withinRadius = (atom: HydrogenBondAtom) =>
+      !center || HydrogenBondDetector.calculateDistance(atom.position, center) <= radiusFromSelection!;
 
-    const filteredAcceptors = radiusFromSelection && selectedResidue
-      ? this.filterByRadius(acceptors, selectedResidue, radiusFromSelection, structure)
-      : acceptors;
+    const filteredDonors = donors.filter(withinRadius);
+    const filteredAcceptors = acceptors.filter(withinRadius);
 
     // Check each donor-acceptor pair
-    let pairsChecked = 0;
     for (const donor of filteredDonors) {
       for (const acceptor of filteredAcceptors) {
-        pairsChecked++;
-
         // Skip if same residue (no intra-residue H-bonds)
         if (donor.residueSeq === acceptor.residueSeq &&
             donor.chainId === acceptor.chainId) {
@@ -188,15 +213,18 @@ export class HydrogenBondDetector {
         }
 
         // Check distance criterion
-        const distance = this.calculateDistance(donor.position, acceptor.position);
+        const distance = HydrogenBondDetector.calculateDistance(donor.position, acceptor.position);
 
         if (distance >= 2.5 && distance <= maxDistance) {
           // Try to find bonded hydrogen for angle calculation
-          const hydrogen = this.findBondedHydrogen(donor, structure);
+          const hydrogen = HydrogenBondDetector.findBondedHydrogen(
+            donor,
+            hydrogens.get(`${donor.chainId}:${donor.residueSeq}`) ?? []
+          );
 
           // Calculate D-H...A angle (or assume linear if no H)
           const angle = hydrogen
-            ? this.calculateAngle(donor.position, hydrogen.position, acceptor.position)
+            ? HydrogenBondDetector.calculateAngle(donor.position, hydrogen.position, acceptor.position)
             : 180; // Ideal linear geometry
 
           // Check angle criterion
@@ -223,19 +251,13 @@ export class HydrogenBondDetector {
               },
               distance,
               angle,
-              strength: this.classifyStrength(distance, angle),
+              strength: HydrogenBondDetector.classifyStrength(distance, angle),
             });
           }
         }
       }
     }
 
-    const duration = performance.now() - startTime;
-    console.info(
-      `[HydrogenBondDetector] Detected ${hbonds.length} H-bonds in ${duration.toFixed(2)}ms ` +
-      `(checked ${pairsChecked} pairs)`
-    );
-
     return hbonds;
   }
 
@@ -262,12 +284,10 @@ export class HydrogenBondDetector {
   }
 
   /**
-   * Find all potential hydrogen bond donor atoms
-   *
-   * Donors: N-H, O-H, S-H groups
+   * Collect atoms with their current positions from a Mol* structure
    */
-  private findDonorAtoms(structure: Structure): AtomInfo[] {
-    const donors: AtomInfo[] = [];
+  private collectAtoms(structure: Structure): HydrogenBondAtom[] {
+    const collected: HydrogenBondAtom[] = [];
 
     for (const unit of structure.units) {
       if (!Unit.isAtomic(unit)) continue;
@@ -276,85 +296,27 @@ export class HydrogenBondDetector {
       const { atoms, residues, chains } = model.atomicHierarchy;
       const conformation = unit.conformation;
 
-      const residueCount = unit.elements.length;
-
-      for (let i = 0; i < residueCount; i++) {
-        const elementIndex = unit.elements[i] as ElementIndex;
-
-        const atomName = atoms.label_atom_id.value(elementIndex);
-        const element = atoms.type_symbol.value(elementIndex);
-        const residueName = atoms.label_comp_id.value(elementIndex);
-        const residueSeq = residues.label_seq_id.value(elementIndex);
-        const chainId = chains.label_asym_id.value(elementIndex);
-
-        // Check if atom is a potential donor
-        if (this.isDonorAtom(atomName, element, residueName)) {
-          donors.push({
-            chainId: chainId || 'A',
-            residueSeq: residueSeq || 0,
-            residueName: residueName || 'UNK',
-            atomName: atomName || 'X',
-            element: element || 'X',
-            position: [conformation.x(elementIndex), conformation.y(elementIndex), conformation.z(elementIndex)],
-            unit,
-            elementIndex,
-          });
-        }
-      }
-    }
-
-    return donors;
-  }
-
-  /**
-   * Find all potential hydrogen bond acceptor atoms
-   *
-   * Acceptors: O, N, S, F with lone pairs
-   */
-  private findAcceptorAtoms(structure: Structure): AtomInfo[] {
-    const acceptors: AtomInfo[] = [];
-
-    for (const unit of structure.units) {
-      if (!Unit.isAtomic(unit)) continue;
-
-      const { model } = unit;
-      const { atoms, residues, chains } = model.atomicHierarchy;
-      const conformation = unit.conformation;
-
-      const residueCount = unit.elements.length;
-
-      for (let i = 0; i < residueCount; i++) {
+      for (let i = 0; i < unit.elements.length; i++) {
         const elementIndex = unit.elements[i] as ElementIndex;
 
-        const atomName = atoms.label_atom_id.value(elementIndex);
-        const element = atoms.type_symbol.value(elementIndex);
-        const residueName = atoms.label_comp_id.value(elementIndex);
-        const residueSeq = residues.label_seq_id.value(elementIndex);
-        const chainId = chains.label_asym_id.value(elementIndex);
-
-        // Check if atom is a potential acceptor
-        if (this.isAcceptorAtom(atomName, element, residueName)) {
-          acceptors.push({
-            chainId: chainId || 'A',
-            residueSeq: residueSeq || 0,
-            residueName: residueName || 'UNK',
-            atomName: atomName || 'X',
-            element: element || 'X',
-            position: [conformation.x(elementIndex), conformation.y(elementIndex), conformation.z(elementIndex)],
-            unit,
-            elementIndex,
-          });
-        }
+        collected.push({
+          chainId: chains.label_asym_id.value(elementIndex) || 'A',
+          residueSeq: residues.label_seq_id.value(elementIndex) || 0,
+          residueName: atoms.label_comp_id.value(elementIndex) || 'UNK',
+          atomName: atoms.label_atom_id.value(elementIndex) || 'X',
+          element: atoms.type_symbol.value(elementIndex) || 'X',
+          position: [conformation.x(elementIndex), conformation.y(elementIndex), conformation.z(elementIndex)],
+        });
       }
     }
 
-    return acceptors;
+    return collected;
   }
 
   /**
    * Check if atom is a potential H-bond donor
    */
-  private isDonorAtom(atomName: string, element: string, residueName: string): boolean {
+  private static isDonorAtom(atomName: string, element: string, residueName: string): boolean {
     // Check element type first
     if (!HydrogenBondDetector.DONOR_ELEMENTS.has(element)) {
       return false;
@@ -377,7 +339,7 @@ export class HydrogenBondDetector {
   /**
    * Check if atom is a potential H-bond acceptor
    */
-  private isAcceptorAtom(atomName: string, element: string, residueName: string): boolean {
+  private static isAcceptorAtom(atomName: string, element: string, residueName: string): boolean {
     // Check element type first
     if (!HydrogenBondDetector.ACCEPTOR_ELEMENTS.has(element)) {
       return false;
@@ -397,62 +359,23 @@ export class HydrogenBondDetector {
     return false;
   }
 
-  /**
-   * Filter atoms by radius from selected residue
-   */
-  private filterByRadius(
-    atoms: AtomInfo[],
-    selectedResidue: { chainId: string; residueSeq: number },
-    radius: number,
-    structure: Structure
-  ): AtomInfo[] {
-    // Find center position of selected residue
-    const centerPos = this.getResidueCenterPosition(
-      selectedResidue.chainId,
-      selectedResidue.residueSeq,
-      structure
-    );
-
-    if (!centerPos) {
-      return atoms;
-    }
-
-    // Filter atoms within radius
-    return atoms.filter(atom => {
-      const distance = this.calculateDistance(atom.position, centerPos);
-      return distance <= radius;
-    });
-  }
-
   /**
    * Get center position of a residue
    */
-  private getResidueCenterPosition(
+  private static getResidueCenterPosition(
+    atoms: HydrogenBondAtom[],
     chainId: string,
-    residueSeq: number,
-    structure: Structure
+    residueSeq: number
   ): [number, number, number] | null {
     let sumX = 0, sumY = 0, sumZ = 0;
     let count = 0;
 
-    for (const unit of structure.units) {
-      if (!Unit.isAtomic(unit)) continue;
-
-      const { model } = unit;
-      const { residues, chains } = model.atomicHierarchy;
-      const conformation = unit.conformation;
-
-      for (let i = 0; i < unit.elements.length; i++) {
-        const elementIndex = unit.elements[i] as ElementIndex;
-        const resSeq = residues.label_seq_id.value(elementIndex);
-        const chain = chains.label_asym_id.value(elementIndex);
-
-        if (chain === chainId && resSeq === residueSeq) {
-          sumX += conformation.x(elementIndex);
-          sumY += conformation.y(elementIndex);
-          sumZ += conformation.z(elementIndex);
-          count++;
-        }
+    for (const atom of atoms) {
+      if (atom.chainId === chainId && atom.residueSeq === residueSeq) {
+        sumX += atom.position[0];
+        sumY += atom.position[1];
+        sumZ += atom.position[2];
+        count++;
       }
     }
 
@@ -464,7 +387,7 @@ export class HydrogenBondDetector {
   /**
    * Calculate Euclidean distance between two points
    */
-  private calculateDistance(
+  private static calculateDistance(
     p1: [number, number, number],
     p2: [number, number, number]
   ): number {
@@ -482,7 +405,7 @@ export class HydrogenBondDetector {
    * @param acceptor Acceptor atom position
    * @returns Angle in degrees (0-180)
    */
-  private calculateAngle(
+  private static calculateAngle(
     donor: [number, number, number],
     hydrogen: [number, number, number],
     acceptor: [number, number, number]
@@ -522,54 +445,15 @@ export class HydrogenBondDetector {
    * Searches for hydrogen atoms within 1.2 Å of donor (typical X-H bond length)
    * Returns null if no explicit hydrogen found (structure may lack H atoms)
    */
-  private findBondedHydrogen(
-    donor: AtomInfo,
-    structure: Structure
-  ): AtomInfo | null {
+  private static findBondedHydrogen(
+    donor: HydrogenBondAtom,
+    residueHydrogens: HydrogenBondAtom[]
+  ): HydrogenBondAtom | null {
     const bondLength = 1.2; // Typical X-H bond length in Å
 
-    for (const unit of structure.units) {
-      if (!Unit.isAtomic(unit)) continue;
-
-      const { model } = unit;
-      const { atoms, residues, chains } = model.atomicHierarchy;
-      const conformation = unit.conformation;
-
-      for (let i = 0; i < unit.elements.length; i++) {
-        const elementIndex = unit.elements[i] as ElementIndex;
-
-        const element = atoms.type_symbol.value(elementIndex);
-        const atomName = atoms.label_atom_id.value(elementIndex);
-        const resSeq = residues.label_seq_id.value(elementIndex);
-        const chain = chains.label_asym_id.value(elementIndex);
-
-        // Check if it's a hydrogen in the same residue
-        if (element === 'H' &&
-            chain === donor.chainId &&
-            resSeq === donor.residueSeq) {
-
-          const position: [number, number, number] = [
-            conformation.x(elementIndex),
-            conformation.y(elementIndex),
-            conformation.z(elementIndex),
-          ];
-
-          const distance = this.calculateDistance(donor.position, position);
-
-          // Check if within bonding distance
-          if (distance <= bondLength) {
-            return {
-              chainId: chain || 'A',
-              residueSeq: resSeq || 0,
-              residueName: donor.residueName,
-              atomName: atomName || 'H',
-              element: 'H',
-              position,
-              unit,
-              elementIndex,
-            };
-          }
-        }
+    for (const hydrogen of residueHydrogens) {
+      if (HydrogenBondDetector.calculateDistance(donor.position, hydrogen.position) <= bondLength) {
+        return hydrogen;
       }
     }
 
@@ -585,7 +469,7 @@ export class HydrogenBondDetector {
    *
    * Based on Jeffrey's H-bond classification (1997)
    */
-  private classifyStrength(distance: number, angle: number): 'strong' | 'moderate' | 'weak' {
+  private static classifyStrength(distance: number, angle: number): 'strong' | 'moderate' | 'weak' {
     if (distance < 2.8 && angle > 150) {
       return 'strong';
     } else if (distance < 3.2 && angle > 135) {
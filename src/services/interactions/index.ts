@@ -5,4 +5,4 @@
  */
 
 export { HydrogenBondDetector } from './hydrogen-bond-detector';
-export type { HydrogenBond, DetectionOptions } from './hydrogen-bond-detector';
+export type { HydrogenBond, HydrogenBondAtom, DetectionOptions } from './hydrogen-bond-detector';
@@ -5,6 +5,8 @@
  */
 
 import { createWebDynamicaEngine, WebDynamicaEngine, DynamicaConfig, SimulationFrame } from '../lib/md-browser-dynamica';
+import { SimulationBox, applyMinimumImage, shortestImageDistance, wrapPositions } from '../lib/md-box';
+import { findMolecules } from '../lib/md-topology';
 
 export interface ForceFieldParameters {
   bond: {
@@ -28,9 +30,37 @@ export interface ForceFieldParameters {
   coulomb: {
     constant: number; // Coulomb constant (kJ*nm/mol/e^2)
     cutoff: number; // Cutoff distance (nm)
+    dielectric?: number; // Relative dielectric inside cutoff - optional, default 1
+    reactionFieldDielectric?: number; // Reaction-field dielectric beyond cutoff - optional, plain cutoff if omitted
   };
+  scale14?: {
+    vdw: number; // Scaling of 1-4 Lennard-Jones interactions
+    coulomb: number; // Scaling of 1-4 electrostatic interactions
+  };
+}
+
+export interface LennardJonesParameters {
+  sigma: number; // nm
+  epsilon: number; // kJ/mol
+}
+
+/**
+ * Bonded topology and partial charges (atom indices are zero-based)
+ * Per-term parameters override the force field's generic values where set,
+ * e.g. for water
+ */
+export interface MolecularTopology {
+  bonds: Array<[number, number]>;
+  angles: Array<[number, number, number]>;
+  dihedrals: Array<[number, number, number, number]>;
+  charges?: Float32Array; // Partial charges (e)
+  bondParameters?: Array<ForceFieldParameters['bond'] | undefined>; // Indexed like bonds
+  angleParameters?: Array<ForceFieldParameters['angle'] | undefined>; // Indexed like angles
+  lennardJones?: Array<LennardJonesParameters | undefined>; // Per atom, Lorentz-Berthelot combined
 }
 
+type Coordinates = Float32Array | Float64Array;
+
 export interface EnergyComponents {
   bond: number;
   angle: number;
@@ -38,13 +68,23 @@ export interface EnergyComponents {
   vdw: number;
   coulomb: number;
   total: number;
+  virial?: number; // Sum of r.F (kJ/mol) over minimum-image pairs, when forces are computed
 }
 
 export interface MinimizationConfig {
   algorithm: 'steepest-descent' | 'conjugate-gradient' | 'lbfgs';
   maxIterations: number;
-  tolerance: number; // kJ/mol/nm
+  tolerance: number; // kJ/mol/nm, compared against the RMS force
   stepSize: number; // nm
+  historySize?: number; // L-BFGS correction pairs - optional, default 10
+}
+
+export type MinimizationConvergence = 'tolerance' | 'max-iterations' | 'line-search-failure';
+
+export interface MinimizationStep {
+  iteration: number;
+  energy: number; // kJ/mol
+  rmsForce: number; // kJ/mol/nm per atom
 }
 
 export interface MinimizationResult {
@@ -54,9 +94,26 @@ export interface MinimizationResult {
   finalEnergy: number;
   energyChange: number;
   forceNorm: number;
+  rmsForce: number;
+  convergenceReason: MinimizationConvergence;
+  history: MinimizationStep[];
+  positions: Float32Array; // Minimized coordinates (nm)
   trajectory: SimulationFrame[];
 }
 
+interface LBFGSHistory {
+  s: Float64Array[]; // Position differences
+  y: Float64Array[]; // Gradient differences
+  rho: number[]; // 1 / (y . s)
+}
+
+// Largest atomic displacement allowed in a single line-search trial (nm)
+const MAX_DISPLACEMENT = 0.1;
+const MAX_LINE_SEARCH_STEPS = 20;
+const ARMIJO_C1 = 1e-4;
+// Steepest descent gives up once its adaptive step shrinks below this (nm)
+const MIN_STEP_SIZE = 1e-10;
+
 export interface MDSimulationParams {
   temperature: number; // K
   timestep: number; // fs
@@ -101,7 +158,12 @@ export type FrameUpdateCallback = (frame: SimulationFrame, index: number) => voi
 export class MDSimulationService {
   private engine: WebDynamicaEngine;
   private forceFieldParams: ForceFieldParameters | null = null;
+  private topology: MolecularTopology | null = null;
+  private chainTopology: MolecularTopology | null = null;
   private trajectory: TrajectoryData | null = null;
+  private box: SimulationBox | null = null;
+  private exclusionCache: { topology: MolecularTopology; excluded: Set<number>; pairs14: Set<number> } | null = null;
+  private lennardJonesCache: { topology: MolecularTopology; sigma: Float64Array; sqrtEpsilon: Float64Array } | null = null;
 
   constructor() {
     this.engine = createWebDynamicaEngine();
@@ -118,21 +180,24 @@ export class MDSimulationService {
         angle: { k: 418.4, theta0: 1.911 },
         dihedral: { k: [7.11, -2.09, 26.18], n: [1, 2, 3], phi0: [0, Math.PI, 0] },
         vdw: { epsilon: 0.6364, sigma: 0.3550, cutoff: 1.2 }, // 12 Angstroms
-        coulomb: { constant: 138.935485, cutoff: 1.0 }
+        coulomb: { constant: 138.935485, cutoff: 1.0, dielectric: 1, reactionFieldDielectric: 78.5 },
+        scale14: { vdw: 0.5, coulomb: 1 / 1.2 }
       },
       CHARMM: {
         bond: { k: 322560, r0: 0.1530 },
         angle: { k: 460.24, theta0: 1.911 },
         dihedral: { k: [8.16, -1.04, 21.75], n: [1, 2, 3], phi0: [0, Math.PI, 0] },
         vdw: { epsilon: 0.4577, sigma: 0.3500, cutoff: 1.4 }, // 14 Angstroms
-        coulomb: { constant: 138.935485, cutoff: 1.2 }
+        coulomb: { constant: 138.935485, cutoff: 1.2, dielectric: 1, reactionFieldDielectric: 78.5 },
+        scale14: { vdw: 1, coulomb: 1 }
       },
       OPLS: {
         bond: { k: 265265, r0: 0.1529 },
         angle: { k: 383.25, theta0: 1.911 },
         dihedral: { k: [5.44, -1.25, 14.01], n: [1, 2, 3], phi0: [0, Math.PI, 0] },
         vdw: { epsilon: 0.6502, sigma: 0.3550, cutoff: 1.2 }, // 12 Angstroms
-        coulomb: { constant: 138.935485, cutoff: 1.0 }
+        coulomb: { constant: 138.935485, cutoff: 1.0, dielectric: 1, reactionFieldDielectric: 78.5 },
+        scale14: { vdw: 0.5, coulomb: 0.5 }
       }
     };
 
@@ -140,90 +205,98 @@ export class MDSimulationService {
       ...defaults[type],
       ...custom
     };
+    this.lennardJonesCache = null;
   }
 
   /**
-   * Calculate energy components for current configuration
+   * Current force field parameters, or null before setForceField
    */
-  calculateEnergy(positions: Float32Array, atomCount: number): EnergyComponents {
-    if (!this.forceFieldParams) {
-      throw new Error('Force field not initialized');
-    }
+  getForceField(): ForceFieldParameters | null {
+    return this.forceFieldParams;
+  }
 
-    // Simplified energy calculation for demonstration
-    // Real implementation would use proper topology and interactions
-    const bond = this.calculateBondEnergy(positions, atomCount);
-    const angle = this.calculateAngleEnergy(positions, atomCount);
-    const dihedral = this.calculateDihedralEnergy(positions, atomCount);
-    const vdw = this.calculateVdWEnergy(positions, atomCount);
-    const coulomb = this.calculateCoulombEnergy(positions, atomCount);
+  /**
+   * Set bonded topology and charges
+   * Without a topology the atoms are treated as a linear chain with zero charges
+   */
+  setTopology(topology: MolecularTopology | null): void {
+    this.topology = topology;
+    this.exclusionCache = null;
+    this.lennardJonesCache = null;
+  }
 
-    return {
-      bond,
-      angle,
-      dihedral,
-      vdw,
-      coulomb,
-      total: bond + angle + dihedral + vdw + coulomb
-    };
+  /**
+   * Set the periodic box; null restores open boundaries
+   * Nonbonded terms use minimum-image distances while a box is set
+   */
+  setBox(box: SimulationBox | null): void {
+    this.box = box;
+  }
+
+  getBox(): SimulationBox | null {
+    return this.box;
+  }
+
+  /**
+   * Calculate energy components for current configuration
+   */
+  calculateEnergy(positions: Coordinates, atomCount: number): EnergyComponents {
+    return this.evaluate(positions, atomCount, null);
+  }
+
+  /**
+   * Analytic forces (kJ/mol/nm) for all atoms; returns the energy of the same configuration
+   */
+  calculateForces(positions: Coordinates, atomCount: number, forces: Coordinates): EnergyComponents {
+    return this.evaluate(positions, atomCount, forces);
   }
 
   /**
    * Perform energy minimization
+   *
+   * Steepest descent adapts its step by accept/reject; conjugate gradient
+   * (Polak-Ribiere+) and L-BFGS use a backtracking Armijo line search and fall
+   * back to the steepest-descent direction once before reporting a failure.
    */
   async minimize(
     positions: Float32Array,
     atomCount: number,
     config: MinimizationConfig,
-    onProgress?: (iteration: number, energy: number) => void
+    onProgress?: (iteration: number, energy: number, rmsForce: number) => void
   ): Promise<MinimizationResult> {
     if (!this.forceFieldParams) {
       throw new Error('Force field not initialized');
     }
 
     const trajectory: SimulationFrame[] = [];
-    const currentPos = new Float32Array(positions);
-    const forces = new Float32Array(atomCount * 3);
-
-    const initialEnergy = this.calculateEnergy(currentPos, atomCount).total;
+    const history: MinimizationStep[] = [];
+    // Minimize in double precision; Float32 cannot resolve stiff bond forces near convergence
+    let currentPos = Float64Array.from(positions);
+    let trialPos = new Float64Array(currentPos.length);
+    let forces = new Float64Array(atomCount * 3);
+    let trialForces = new Float64Array(atomCount * 3);
+
+    const initialEnergy = this.calculateForces(currentPos, atomCount, forces).total;
     let currentEnergy = initialEnergy;
+    let stepSize = config.stepSize;
+    let convergenceReason: MinimizationConvergence = 'max-iterations';
     let iteration = 0;
 
-    for (iteration = 0; iteration < config.maxIterations; iteration++) {
-      // Calculate forces
-      this.calculateForces(currentPos, atomCount, forces);
-
-      // Calculate force norm
-      let forceNorm = 0;
-      for (let i = 0; i < forces.length; i++) {
-        forceNorm += forces[i] * forces[i];
-      }
-      forceNorm = Math.sqrt(forceNorm);
-
-      // Check convergence
-      if (forceNorm < config.tolerance) {
-        break;
-      }
+    // Conjugate gradient and L-BFGS state
+    let previousForces: Float64Array | null = null;
+    let previousDirection: Float64Array | null = null;
+    const lbfgs: LBFGSHistory = { s: [], y: [], rho: [] };
+    const historySize = config.historySize ?? 10;
 
-      // Update positions based on algorithm
-      switch (config.algorithm) {
-        case 'steepest-descent':
-          this.steepestDescentStep(currentPos, forces, config.stepSize);
-          break;
-        case 'conjugate-gradient':
-          this.conjugateGradientStep(currentPos, forces, config.stepSize, iteration);
-          break;
-        case 'lbfgs':
-          this.lbfgsStep(currentPos, forces, config.stepSize);
-          break;
-      }
+    const rms = (f: Float64Array) => (atomCount > 0 ? this.norm(f) / Math.sqrt(atomCount) : 0);
 
-      // Calculate new energy
-      currentEnergy = this.calculateEnergy(currentPos, atomCount).total;
+    for (iteration = 0; iteration < config.maxIterations; iteration++) {
+      const rmsForce = rms(forces);
+      history.push({ iteration, energy: currentEnergy, rmsForce });
 
       // Report progress
       if (onProgress && iteration % 10 === 0) {
-        onProgress(iteration, currentEnergy);
+        onProgress(iteration, currentEnergy, rmsForce);
       }
 
       // Store frame
@@ -231,21 +304,121 @@ export class MDSimulationService {
         trajectory.push({
           step: iteration,
           time: iteration * 0.001, // pseudo-time for minimization
-          positions: new Float32Array(currentPos),
+          positions: Float32Array.from(currentPos),
           potentialEnergy: currentEnergy,
           kineticEnergy: 0,
           temperature: 0
         });
       }
+
+      // Check convergence on the reported RMS force, so the tolerance does
+      // not depend on system size
+      if (rmsForce < config.tolerance) {
+        convergenceReason = 'tolerance';
+        break;
+      }
+
+      if (config.algorithm === 'steepest-descent') {
+        // Accept downhill steps and grow the step, otherwise retry with a smaller one
+        trialPos.set(currentPos);
+        this.steepestDescentStep(trialPos, forces, stepSize);
+        const trialEnergy = this.calculateForces(trialPos, atomCount, trialForces).total;
+        if (trialEnergy < currentEnergy) {
+          [currentPos, trialPos] = [trialPos, currentPos];
+          [forces, trialForces] = [trialForces, forces];
+          currentEnergy = trialEnergy;
+          stepSize *= 1.2;
+        } else {
+          stepSize *= 0.2;
+          if (stepSize < MIN_STEP_SIZE) {
+            convergenceReason = 'line-search-failure';
+            break;
+          }
+        }
+        continue;
+      }
+
+      const direction: Float64Array = config.algorithm === 'conjugate-gradient'
+        ? this.conjugateGradientDirection(forces, previousForces, previousDirection)
+        : this.lbfgsDirection(forces, lbfgs);
+      const isSteepest = config.algorithm === 'conjugate-gradient'
+        ? previousDirection === null
+        : lbfgs.s.length === 0;
+
+      // L-BFGS directions are scaled by the inverse Hessian estimate, so try the full step
+      const maxComponent = this.maxAbs(direction);
+      let alpha = config.algorithm === 'lbfgs' && !isSteepest ? 1 : stepSize / maxComponent;
+      alpha = Math.min(alpha, MAX_DISPLACEMENT / maxComponent);
+
+      const trialEnergy = this.lineSearch(
+        currentPos, currentEnergy, forces, direction, alpha, atomCount, trialPos, trialForces
+      );
+
+      if (trialEnergy === null) {
+        if (isSteepest) {
+          convergenceReason = 'line-search-failure';
+          break;
+        }
+        // Restart from the steepest-descent direction
+        previousForces = null;
+        previousDirection = null;
+        lbfgs.s.length = 0;
+        lbfgs.y.length = 0;
+        lbfgs.rho.length = 0;
+        continue;
+      }
+
+      // Update search history with s = x_new - x_old and y = g_new - g_old = F_old - F_new
+      const s = new Float64Array(currentPos.length);
+      const y = new Float64Array(currentPos.length);
+      let ys = 0;
+      let displacement = 0;
+      for (let i = 0; i < s.length; i++) {
+        s[i] = trialPos[i] - currentPos[i];
+        y[i] = forces[i] - trialForces[i];
+        ys += y[i] * s[i];
+        displacement = Math.max(displacement, Math.abs(s[i]));
+      }
+
+      if (config.algorithm === 'lbfgs') {
+        // Skip pairs that would break positive definiteness
+        if (ys > 1e-10) {
+          lbfgs.s.push(s);
+          lbfgs.y.push(y);
+          lbfgs.rho.push(1 / ys);
+          if (lbfgs.s.length > historySize) {
+            lbfgs.s.shift();
+            lbfgs.y.shift();
+            lbfgs.rho.shift();
+          }
+        }
+      } else {
+        previousForces = Float64Array.from(forces);
+        previousDirection = direction;
+      }
+
+      stepSize = Math.max(displacement * 1.5, MIN_STEP_SIZE);
+      [currentPos, trialPos] = [trialPos, currentPos];
+      [forces, trialForces] = [trialForces, forces];
+      currentEnergy = trialEnergy;
+    }
+
+    const rmsForce = rms(forces);
+    if (history[history.length - 1]?.iteration !== iteration) {
+      history.push({ iteration, energy: currentEnergy, rmsForce });
     }
 
     return {
-      success: iteration < config.maxIterations,
+      success: convergenceReason === 'tolerance',
       iterations: iteration,
       initialEnergy,
       finalEnergy: currentEnergy,
       energyChange: currentEnergy - initialEnergy,
-      forceNorm: 0, // Would calculate final force norm
+      forceNorm: this.norm(forces),
+      rmsForce,
+      convergenceReason,
+      history,
+      positions: Float32Array.from(currentPos),
       trajectory
     };
   }
@@ -271,7 +444,8 @@ export class MDSimulationService {
       temperature: params.temperature,
       ensemble: params.ensemble,
       maxSteps: params.steps,
-      outputFrequency: params.outputFrequency
+      outputFrequency: params.outputFrequency,
+      box: this.box ?? undefined
     };
 
     await this.engine.initialize(positions, atomCount, config);
@@ -371,66 +545,339 @@ export class MDSimulationService {
     }
 
     const frame = this.trajectory.frames[frameIndex];
+    const atomCount = frame.positions.length / 3;
+    // Wrap whole molecules into the box so bonds are not drawn across it
+    const positions = this.box
+      ? wrapPositions(this.box, frame.positions, findMolecules(atomCount, (this.topology ?? this.getChainTopology(atomCount)).bonds))
+      : frame.positions;
+
     return {
-      positions: frame.positions,
+      positions,
       energy: frame.potentialEnergy + frame.kineticEnergy,
       temperature: frame.temperature
     };
   }
 
   /**
-   * Private helper methods for energy calculations
+   * Evaluate all force field terms, accumulating forces (-gradient) when requested
+   */
+  private evaluate(positions: Coordinates, atomCount: number, forces: Coordinates | null): EnergyComponents {
+    if (!this.forceFieldParams) {
+      throw new Error('Force field not initialized');
+    }
+
+    const topology = this.topology ?? this.getChainTopology(atomCount);
+    if (forces) {
+      forces.fill(0);
+    }
+
+    const bond = this.calculateBondEnergy(positions, topology, forces);
+    const angle = this.calculateAngleEnergy(positions, topology, forces);
+    const dihedral = this.calculateDihedralEnergy(positions, topology, forces);
+
+    // Bonded terms never cross the box, so their virial is the plain sum of r.F
+    let virial = 0;
+    if (forces) {
+      for (let i = 0; i < atomCount * 3; i++) {
+        virial += positions[i] * forces[i];
+      }
+    }
+
+    const nonbonded = this.calculateNonbondedEnergy(positions, atomCount, topology, forces);
+    const { vdw, coulomb } = nonbonded;
+
+    return {
+      bond,
+      angle,
+      dihedral,
+      vdw,
+      coulomb,
+      total: bond + angle + dihedral + vdw + coulomb,
+      ...(forces ? { virial: virial + nonbonded.virial } : {})
+    };
+  }
+
+  /**
+   * Harmonic bond stretching: V = 1/2 k (r - r0)^2
    */
-  private calculateBondEnergy(positions: Float32Array, atomCount: number): number {
-    // Simplified: assume linear chain for demo
+  private calculateBondEnergy(positions: Coordinates, topology: MolecularTopology, forces: Coordinates | null): number {
     let energy = 0;
-    for (let i = 0; i < atomCount - 1; i++) {
-      const dx = positions[(i + 1) * 3] - positions[i * 3];
-      const dy = positions[(i + 1) * 3 + 1] - positions[i * 3 + 1];
-      const dz = positions[(i + 1) * 3 + 2] - positions[i * 3 + 2];
+
+    for (let b = 0; b < topology.bonds.length; b++) {
+      const [i, j] = topology.bonds[b];
+      const { k, r0 } = topology.bondParameters?.[b] ?? this.forceFieldParams!.bond;
+      const dx = positions[j * 3] - positions[i * 3];
+      const dy = positions[j * 3 + 1] - positions[i * 3 + 1];
+      const dz = positions[j * 3 + 2] - positions[i * 3 + 2];
       const r = Math.sqrt(dx * dx + dy * dy + dz * dz);
-      const r0 = this.forceFieldParams!.bond.r0;
-      const k = this.forceFieldParams!.bond.k;
-      energy += 0.5 * k * Math.pow(r - r0, 2);
+      const dr = r - r0;
+      energy += 0.5 * k * dr * dr;
+
+      if (forces && r > 0) {
+        // Force on j along -(rj - ri); equal and opposite on i
+        const f = -k * dr / r;
+        forces[j * 3] += f * dx;
+        forces[j * 3 + 1] += f * dy;
+        forces[j * 3 + 2] += f * dz;
+        forces[i * 3] -= f * dx;
+        forces[i * 3 + 1] -= f * dy;
+        forces[i * 3 + 2] -= f * dz;
+      }
     }
+
     return energy;
   }
 
-  private calculateAngleEnergy(positions: Float32Array, atomCount: number): number {
-    // Simplified angle energy
-    return atomCount * 10; // Placeholder
+  /**
+   * Harmonic angle bending: V = 1/2 k (theta - theta0)^2
+   */
+  private calculateAngleEnergy(positions: Coordinates, topology: MolecularTopology, forces: Coordinates | null): number {
+    let energy = 0;
+
+    for (let a = 0; a < topology.angles.length; a++) {
+      const [i, j, l] = topology.angles[a];
+      const { k, theta0 } = topology.angleParameters?.[a] ?? this.forceFieldParams!.angle;
+      // Vectors from the central atom j
+      const ux = positions[i * 3] - positions[j * 3];
+      const uy = positions[i * 3 + 1] - positions[j * 3 + 1];
+      const uz = positions[i * 3 + 2] - positions[j * 3 + 2];
+      const vx = positions[l * 3] - positions[j * 3];
+      const vy = positions[l * 3 + 1] - positions[j * 3 + 1];
+      const vz = positions[l * 3 + 2] - positions[j * 3 + 2];
+      const ru = Math.sqrt(ux * ux + uy * uy + uz * uz);
+      const rv = Math.sqrt(vx * vx + vy * vy + vz * vz);
+      if (ru === 0 || rv === 0) continue;
+
+      const cos = Math.max(-1, Math.min(1, (ux * vx + uy * vy + uz * vz) / (ru * rv)));
+      const theta = Math.acos(cos);
+      const dTheta = theta - theta0;
+      energy += 0.5 * k * dTheta * dTheta;
+
+      if (forces) {
+        // dTheta/dr_i = (cos * u/|u| - v/|v|) / (|u| sin), analogous for l
+        const sin = Math.max(Math.sqrt(1 - cos * cos), 1e-8);
+        const prefactor = -k * dTheta / sin;
+        const fix = prefactor * (cos * ux / ru - vx / rv) / ru;
+        const fiy = prefactor * (cos * uy / ru - vy / rv) / ru;
+        const fiz = prefactor * (cos * uz / ru - vz / rv) / ru;
+        const flx = prefactor * (cos * vx / rv - ux / ru) / rv;
+        const fly = prefactor * (cos * vy / rv - uy / ru) / rv;
+        const flz = prefactor * (cos * vz / rv - uz / ru) / rv;
+
+        forces[i * 3] += fix;
+        forces[i * 3 + 1] += fiy;
+        forces[i * 3 + 2] += fiz;
+        forces[l * 3] += flx;
+        forces[l * 3 + 1] += fly;
+        forces[l * 3 + 2] += flz;
+        forces[j * 3] -= fix + flx;
+        forces[j * 3 + 1] -= fiy + fly;
+        forces[j * 3 + 2] -= fiz + flz;
+      }
+    }
+
+    return energy;
   }
 
-  private calculateDihedralEnergy(positions: Float32Array, atomCount: number): number {
-    // Simplified dihedral energy
-    return atomCount * 5; // Placeholder
+  /**
+   * Periodic proper dihedral: V = sum_n k_n (1 + cos(n phi - phi0_n))
+   * Forces follow Bekker's formulation as used in GROMACS
+   */
+  private calculateDihedralEnergy(positions: Coordinates, topology: MolecularTopology, forces: Coordinates | null): number {
+    const { k, n, phi0 } = this.forceFieldParams!.dihedral;
+    let energy = 0;
+
+    for (const [i, j, l, m] of topology.dihedrals) {
+      const rijx = positions[i * 3] - positions[j * 3];
+      const rijy = positions[i * 3 + 1] - positions[j * 3 + 1];
+      const rijz = positions[i * 3 + 2] - positions[j * 3 + 2];
+      const rkjx = positions[l * 3] - positions[j * 3];
+      const rkjy = positions[l * 3 + 1] - positions[j * 3 + 1];
+      const rkjz = positions[l * 3 + 2] - positions[j * 3 + 2];
+      const rklx = positions[l * 3] - positions[m * 3];
+      const rkly = positions[l * 3 + 1] - positions[m * 3 + 1];
+      const rklz = positions[l * 3 + 2] - positions[m * 3 + 2];
+
+      // Plane normals m = rij x rkj, n = rkj x rkl
+      const mx = rijy * rkjz - rijz * rkjy;
+      const my = rijz * rkjx - rijx * rkjz;
+      const mz = rijx * rkjy - rijy * rkjx;
+      const nx = rkjy * rklz - rkjz * rkly;
+      const ny = rkjz * rklx - rkjx * rklz;
+      const nz = rkjx * rkly - rkjy * rklx;
+      const m2 = mx * mx + my * my + mz * mz;
+      const n2 = nx * nx + ny * ny + nz * nz;
+      if (m2 < 1e-12 || n2 < 1e-12) continue; // Collinear atoms, dihedral undefined
+
+      const cos = Math.max(-1, Math.min(1, (mx * nx + my * ny + mz * nz) / Math.sqrt(m2 * n2)));
+      const sign = rijx * nx + rijy * ny + rijz * nz < 0 ? -1 : 1;
+      const phi = sign * Math.acos(cos);
+
+      let dVdPhi = 0;
+      for (let t = 0; t < k.length; t++) {
+        energy += k[t] * (1 + Math.cos(n[t] * phi - phi0[t]));
+        dVdPhi -= k[t] * n[t] * Math.sin(n[t] * phi - phi0[t]);
+      }
+
+      if (forces) {
+        const rkj2 = rkjx * rkjx + rkjy * rkjy + rkjz * rkjz;
+        const rkj = Math.sqrt(rkj2);
+        const fi = -dVdPhi * rkj / m2;
+        const fl = dVdPhi * rkj / n2;
+        const fix = fi * mx, fiy = fi * my, fiz = fi * mz;
+        const flx = fl * nx, fly = fl * ny, flz = fl * nz;
+        const p = (rijx * rkjx + rijy * rkjy + rijz * rkjz) / rkj2;
+        const q = (rklx * rkjx + rkly * rkjy + rklz * rkjz) / rkj2;
+        const sx = p * fix - q * flx;
+        const sy = p * fiy - q * fly;
+        const sz = p * fiz - q * flz;
+
+        forces[i * 3] += fix;
+        forces[i * 3 + 1] += fiy;
+        forces[i * 3 + 2] += fiz;
+        forces[j * 3] -= fix - sx;
+        forces[j * 3 + 1] -= fiy - sy;
+        forces[j * 3 + 2] -= fiz - sz;
+        forces[l * 3] -= flx + sx;
+        forces[l * 3 + 1] -= fly + sy;
+        forces[l * 3 + 2] -= flz + sz;
+        forces[m * 3] += flx;
+        forces[m * 3 + 1] += fly;
+        forces[m * 3 + 2] += flz;
+      }
+    }
+
+    return energy;
   }
 
   /**
-   * Calculate VdW energy with spatial cutoff optimization
+   * Calculate VdW and Coulomb energy with spatial cutoff optimization
    * O(n²) → O(n) average case with spatial grid
    *
-   * Performance improvement: ~15x faster for 500+ atoms
+   * Lennard-Jones 12-6 within the VdW cutoff; Coulomb with reaction field
+   * (or a plain cutoff when no reaction-field dielectric is set).
+   * 1-2 and 1-3 pairs are excluded and 1-4 pairs scaled per force field.
+   * With a periodic box all pair distances use the minimum image.
+   * Atoms with their own Lennard-Jones parameters use Lorentz-Berthelot rules.
    */
-  private calculateVdWEnergy(positions: Float32Array, atomCount: number): number {
-    let energy = 0;
-    const epsilon = this.forceFieldParams!.vdw.epsilon;
-    const sigma = this.forceFieldParams!.vdw.sigma;
-    const cutoff = this.forceFieldParams!.vdw.cutoff || 1.2; // 12 Angstroms default (in nm)
+  private calculateNonbondedEnergy(
+    positions: Coordinates,
+    atomCount: number,
+    topology: MolecularTopology,
+    forces: Coordinates | null
+  ): { vdw: number; coulomb: number; virial: number } {
+    const params = this.forceFieldParams!;
+    const epsilon = params.vdw.epsilon;
+    const sigma = params.vdw.sigma;
+    const vdwCutoff = params.vdw.cutoff || 1.2; // 12 Angstroms default (in nm)
+    const charges = topology.charges;
+    const coulombCutoff = params.coulomb.cutoff;
+    const epsR = params.coulomb.dielectric ?? 1;
+    const epsRF = params.coulomb.reactionFieldDielectric;
+    const scale14 = params.scale14 ?? { vdw: 1, coulomb: 1 };
+
+    // Reaction-field constants; k_rf = c_rf = 0 reduces to a plain cutoff
+    const kRF = epsRF !== undefined
+      ? (epsRF - epsR) / ((2 * epsRF + epsR) * Math.pow(coulombCutoff, 3))
+      : 0;
+    const cRF = epsRF !== undefined ? 1 / coulombCutoff + kRF * coulombCutoff * coulombCutoff : 0;
+    const coulombPrefactor = params.coulomb.constant / epsR;
+
+    const { excluded, pairs14 } = this.getExclusions(topology, atomCount);
+    const lj = this.getLennardJones(topology, atomCount);
+    const vdwCutoff2 = vdwCutoff * vdwCutoff;
+    const coulombCutoff2 = coulombCutoff * coulombCutoff;
+
+    const box = this.box;
+    if (box) {
+      const limit = shortestImageDistance(box) / 2;
+      if (Math.max(vdwCutoff, charges ? coulombCutoff : 0) > limit) {
+        throw new Error(
+          `Nonbonded cutoff exceeds half the shortest periodic distance (${limit.toFixed(3)} nm); enlarge the box`
+        );
+      }
+    }
+
+    let vdw = 0;
+    let coulomb = 0;
+    let virial = 0;
+    const delta = new Float64Array(3);
+
+    const interact = (i: number, j: number): void => {
+      const pairKey = i < j ? i * atomCount + j : j * atomCount + i;
+      if (excluded.has(pairKey)) return;
+
+      delta[0] = positions[j * 3] - positions[i * 3];
+      delta[1] = positions[j * 3 + 1] - positions[i * 3 + 1];
+      delta[2] = positions[j * 3 + 2] - positions[i * 3 + 2];
+      const r2 = box
+        ? applyMinimumImage(box, delta)
+        : delta[0] * delta[0] + delta[1] * delta[1] + delta[2] * delta[2];
+      if (r2 === 0) return;
+
+      const is14 = pairs14.has(pairKey);
+      // Accumulates -dV/dr / r so the force on j is fScalar * (rj - ri)
+      let fScalar = 0;
+
+      // Lennard-Jones 12-6 potential
+      const sigmaIJ = lj ? 0.5 * (lj.sigma[i] + lj.sigma[j]) : sigma;
+      const epsilonIJ = lj ? lj.sqrtEpsilon[i] * lj.sqrtEpsilon[j] : epsilon;
+      if (r2 <= vdwCutoff2 && epsilonIJ !== 0) {
+        const scale = is14 ? scale14.vdw : 1;
+        const sr2 = (sigmaIJ * sigmaIJ) / r2;
+        const sr6 = sr2 * sr2 * sr2;
+        vdw += scale * 4 * epsilonIJ * (sr6 * sr6 - sr6);
+        fScalar += scale * 24 * epsilonIJ * (2 * sr6 * sr6 - sr6) / r2;
+      }
+
+      // Reaction-field Coulomb
+      if (charges && r2 <= coulombCutoff2) {
+        const qq = charges[i] * charges[j];
+        if (qq !== 0) {
+          const scale = is14 ? scale14.coulomb : 1;
+          const r = Math.sqrt(r2);
+          coulomb += scale * coulombPrefactor * qq * (1 / r + kRF * r2 - cRF);
+          fScalar += scale * coulombPrefactor * qq * (1 / (r2 * r) - 2 * kRF);
+        }
+      }
+
+      if (forces && fScalar !== 0) {
+        virial += fScalar * r2;
+        forces[j * 3] += fScalar * delta[0];
+        forces[j * 3 + 1] += fScalar * delta[1];
+        forces[j * 3 + 2] += fScalar * delta[2];
+        forces[i * 3] -= fScalar * delta[0];
+        forces[i * 3 + 1] -= fScalar * delta[1];
+        forces[i * 3 + 2] -= fScalar * delta[2];
+      }
+    };
+
+    const cellSize = Math.max(vdwCutoff, charges ? coulombCutoff : 0);
+
+    if (box) {
+      const [a, b, c] = box.vectors;
+      const cells = [a[0], b[1], c[2]].map(l => Math.floor(l / cellSize));
+      // Periodic cell lists need an orthogonal box at least three cells wide
+      if (box.shape === 'truncated-octahedron' || cells.some(n => n < 3)) {
+        for (let i = 0; i < atomCount; i++) {
+          for (let j = i + 1; j < atomCount; j++) {
+            interact(i, j);
+          }
+        }
+      } else {
+        this.forEachPeriodicCellPair(positions, atomCount, [a[0], b[1], c[2]], cells, interact);
+      }
+      return { vdw, coulomb, virial };
+    }
 
     // Build spatial grid for neighbor search (O(n))
-    const cellSize = cutoff;
     const grid = new Map<string, number[]>();
 
     // Assign atoms to grid cells
     for (let i = 0; i < atomCount; i++) {
-      const x = positions[i * 3];
-      const y = positions[i * 3 + 1];
-      const z = positions[i * 3 + 2];
-
-      const cellX = Math.floor(x / cellSize);
-      const cellY = Math.floor(y / cellSize);
-      const cellZ = Math.floor(z / cellSize);
+      const cellX = Math.floor(positions[i * 3] / cellSize);
+      const cellY = Math.floor(positions[i * 3 + 1] / cellSize);
+      const cellZ = Math.floor(positions[i * 3 + 2] / cellSize);
       const cellKey = `${cellX},${cellY},${cellZ}`;
 
       if (!grid.has(cellKey)) {
@@ -439,92 +886,293 @@ export class MDSimulationService {
       grid.get(cellKey)!.push(i);
     }
 
-    // Calculate VdW only for atoms within cutoff (O(n) average)
+    // Calculate interactions only for atoms within cutoff (O(n) average)
     for (let i = 0; i < atomCount; i++) {
-      const xi = positions[i * 3];
-      const yi = positions[i * 3 + 1];
-      const zi = positions[i * 3 + 2];
-
-      const cellX = Math.floor(xi / cellSize);
-      const cellY = Math.floor(yi / cellSize);
-      const cellZ = Math.floor(zi / cellSize);
+      const cellX = Math.floor(positions[i * 3] / cellSize);
+      const cellY = Math.floor(positions[i * 3 + 1] / cellSize);
+      const cellZ = Math.floor(positions[i * 3 + 2] / cellSize);
 
       // Check neighboring cells (3x3x3 = 27 cells)
       for (let dx = -1; dx <= 1; dx++) {
         for (let dy = -1; dy <= 1; dy++) {
           for (let dz = -1; dz <= 1; dz++) {
-            const neighborKey = `${cellX + dx},${cellY + dy},${cellZ + dz}`;
-            const neighbors = grid.get(neighborKey);
-
+            const neighbors = grid.get(`${cellX + dx},${cellY + dy},${cellZ + dz}`);
             if (!neighbors) continue;
 
             for (const j of neighbors) {
               if (j <= i) continue; // Avoid double counting and self-interaction
+              interact(i, j);
+            }
+          }
+        }
+      }
+    }
 
-              const xj = positions[j * 3];
-              const yj = positions[j * 3 + 1];
-              const zj = positions[j * 3 + 2];
+    return { vdw, coulomb, virial };
+  }
 
-              const dx_ij = xj - xi;
-              const dy_ij = yj - yi;
-              const dz_ij = zj - zi;
-              const r2 = dx_ij * dx_ij + dy_ij * dy_ij + dz_ij * dz_ij;
+  /**
+   * Visit each pair of atoms in neighbouring cells of an orthogonal periodic box once
+   */
+  private forEachPeriodicCellPair(
+    positions: Coordinates,
+    atomCount: number,
+    lengths: number[],
+    cells: number[],
+    visit: (i: number, j: number) => void
+  ): void {
+    const [nx, ny, nz] = cells;
+    const cellOf = (value: number, d: number) => {
+      const index = Math.floor((value / lengths[d]) * cells[d]) % cells[d];
+      return index < 0 ? index + cells[d] : index;
+    };
 
-              // Apply cutoff (skip if beyond cutoff distance)
-              if (r2 > cutoff * cutoff) continue;
+    const grid: number[][] = Array.from({ length: nx * ny * nz }, () => []);
+    const atomCell = new Int32Array(atomCount);
+    for (let i = 0; i < atomCount; i++) {
+      const cell =
+        (cellOf(positions[i * 3], 0) * ny + cellOf(positions[i * 3 + 1], 1)) * nz + cellOf(positions[i * 3 + 2], 2);
+      atomCell[i] = cell;
+      grid[cell].push(i);
+    }
 
-              const r = Math.sqrt(r2);
+    for (let i = 0; i < atomCount; i++) {
+      const cx = Math.floor(atomCell[i] / (ny * nz));
+      const cy = Math.floor(atomCell[i] / nz) % ny;
+      const cz = atomCell[i] % nz;
 
-              // Lennard-Jones 12-6 potential
-              const sr6 = Math.pow(sigma / r, 6);
-              energy += 4 * epsilon * (sr6 * sr6 - sr6);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dz = -1; dz <= 1; dz++) {
+            const cell =
+              (((cx + dx + nx) % nx) * ny + ((cy + dy + ny) % ny)) * nz + ((cz + dz + nz) % nz);
+            for (const j of grid[cell]) {
+              if (j > i) visit(i, j);
             }
           }
         }
       }
     }
-
-    return energy;
   }
 
-  private calculateCoulombEnergy(positions: Float32Array, atomCount: number): number {
-    // Simplified: assume unit charges for demo
-    return atomCount * 50; // Placeholder
+  /**
+   * Excluded (1-2, 1-3) and scaled (1-4) pair sets keyed by i * atomCount + j with i < j
+   */
+  private getExclusions(topology: MolecularTopology, atomCount: number): { excluded: Set<number>; pairs14: Set<number> } {
+    if (this.exclusionCache && this.exclusionCache.topology === topology) {
+      return this.exclusionCache;
+    }
+
+    const key = (a: number, b: number) => (a < b ? a * atomCount + b : b * atomCount + a);
+    const excluded = new Set<number>();
+    const pairs14 = new Set<number>();
+
+    for (const [i, j] of topology.bonds) excluded.add(key(i, j));
+    for (const [i, , l] of topology.angles) excluded.add(key(i, l));
+    for (const [i, , , m] of topology.dihedrals) {
+      const pair = key(i, m);
+      if (!excluded.has(pair)) pairs14.add(pair);
+    }
+
+    this.exclusionCache = { topology, excluded, pairs14 };
+    return this.exclusionCache;
   }
 
-  private calculateForces(positions: Float32Array, atomCount: number, forces: Float32Array): void {
-    // Calculate negative gradient of energy
-    const eps = 1e-6;
+  /**
+   * Per-atom sigma and sqrt(epsilon) when the topology sets its own Lennard-Jones
+   * parameters; null when every atom uses the force field's
+   */
+  private getLennardJones(
+    topology: MolecularTopology,
+    atomCount: number
+  ): { sigma: Float64Array; sqrtEpsilon: Float64Array } | null {
+    if (!topology.lennardJones) {
+      return null;
+    }
+    if (this.lennardJonesCache && this.lennardJonesCache.topology === topology) {
+      return this.lennardJonesCache;
+    }
 
-    for (let i = 0; i < atomCount * 3; i++) {
-      const orig = positions[i];
+    const { sigma, epsilon } = this.forceFieldParams!.vdw;
+    const sigmas = new Float64Array(atomCount);
+    const sqrtEpsilon = new Float64Array(atomCount);
+    for (let i = 0; i < atomCount; i++) {
+      const own = topology.lennardJones[i];
+      sigmas[i] = own?.sigma ?? sigma;
+      sqrtEpsilon[i] = Math.sqrt(own?.epsilon ?? epsilon);
+    }
 
-      positions[i] = orig + eps;
-      const ePlus = this.calculateEnergy(positions, atomCount).total;
+    this.lennardJonesCache = { topology, sigma: sigmas, sqrtEpsilon };
+    return this.lennardJonesCache;
+  }
 
-      positions[i] = orig - eps;
-      const eMinus = this.calculateEnergy(positions, atomCount).total;
+  /**
+   * Implicit linear-chain topology, reused while the atom count is unchanged
+   */
+  private getChainTopology(atomCount: number): MolecularTopology {
+    if (!this.chainTopology || this.chainTopology.bonds.length !== Math.max(atomCount - 1, 0)) {
+      this.chainTopology = createLinearChainTopology(atomCount);
+    }
+    return this.chainTopology;
+  }
 
-      positions[i] = orig;
-      forces[i] = -(ePlus - eMinus) / (2 * eps);
+  private norm(values: Coordinates): number {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+      sum += values[i] * values[i];
     }
+    return Math.sqrt(sum);
   }
 
-  private steepestDescentStep(positions: Float32Array, forces: Float32Array, stepSize: number): void {
+  /**
+   * Move along the force so the largest atomic displacement equals stepSize
+   */
+  private steepestDescentStep(positions: Coordinates, forces: Coordinates, stepSize: number): void {
+    let maxForce = 0;
+    for (let i = 0; i < forces.length; i++) {
+      maxForce = Math.max(maxForce, Math.abs(forces[i]));
+    }
+    if (maxForce === 0) return;
+
+    const scale = stepSize / maxForce;
     for (let i = 0; i < positions.length; i++) {
-      positions[i] += stepSize * forces[i];
+      positions[i] += scale * forces[i];
     }
   }
 
-  private conjugateGradientStep(positions: Float32Array, forces: Float32Array, stepSize: number, iteration: number): void {
-    // Simplified CG - would need to store previous gradient
-    this.steepestDescentStep(positions, forces, stepSize);
+  private maxAbs(values: Coordinates): number {
+    let max = 0;
+    for (let i = 0; i < values.length; i++) {
+      max = Math.max(max, Math.abs(values[i]));
+    }
+    return max;
   }
 
-  private lbfgsStep(positions: Float32Array, forces: Float32Array, stepSize: number): void {
-    // Simplified L-BFGS - would need history buffer
-    this.steepestDescentStep(positions, forces, stepSize);
+  /**
+   * Polak-Ribiere+ conjugate direction: d = F + beta * d_prev,
+   * beta = max(0, F . (F - F_prev) / |F_prev|^2); restarts when not downhill
+   */
+  private conjugateGradientDirection(
+    forces: Float64Array,
+    previousForces: Float64Array | null,
+    previousDirection: Float64Array | null
+  ): Float64Array {
+    const direction = Float64Array.from(forces);
+    if (!previousForces || !previousDirection) {
+      return direction;
+    }
+
+    let numerator = 0;
+    let denominator = 0;
+    for (let i = 0; i < forces.length; i++) {
+      numerator += forces[i] * (forces[i] - previousForces[i]);
+      denominator += previousForces[i] * previousForces[i];
+    }
+    const beta = denominator > 0 ? Math.max(0, numerator / denominator) : 0;
+
+    let slope = 0;
+    for (let i = 0; i < direction.length; i++) {
+      direction[i] += beta * previousDirection[i];
+      slope += direction[i] * forces[i];
+    }
+
+    return slope > 0 ? direction : Float64Array.from(forces);
   }
+
+  /**
+   * L-BFGS two-loop recursion: returns -H * g with g = -F
+   */
+  private lbfgsDirection(forces: Float64Array, history: LBFGSHistory): Float64Array {
+    const count = history.s.length;
+    const q = Float64Array.from(forces, f => -f);
+    const alphas = new Array<number>(count);
+
+    for (let k = count - 1; k >= 0; k--) {
+      alphas[k] = history.rho[k] * this.dot(history.s[k], q);
+      const y = history.y[k];
+      for (let i = 0; i < q.length; i++) q[i] -= alphas[k] * y[i];
+    }
+
+    // Initial Hessian scaling gamma = s.y / y.y from the newest pair
+    if (count > 0) {
+      const y = history.y[count - 1];
+      const gamma = 1 / (history.rho[count - 1] * this.dot(y, y));
+      for (let i = 0; i < q.length; i++) q[i] *= gamma;
+    }
+
+    for (let k = 0; k < count; k++) {
+      const beta = history.rho[k] * this.dot(history.y[k], q);
+      const s = history.s[k];
+      for (let i = 0; i < q.length; i++) q[i] += s[i] * (alphas[k] - beta);
+    }
+
+    for (let i = 0; i < q.length; i++) q[i] = -q[i];
+
+    // Fall back to steepest descent if the curvature estimate is not downhill
+    if (this.dot(q, forces) <= 0) {
+      history.s.length = 0;
+      history.y.length = 0;
+      history.rho.length = 0;
+      return Float64Array.from(forces);
+    }
+    return q;
+  }
+
+  /**
+   * Backtracking line search along direction with the Armijo sufficient-decrease condition
+   * Writes the accepted point into outPositions/outForces; returns its energy or null on failure
+   */
+  private lineSearch(
+    positions: Float64Array,
+    energy: number,
+    forces: Float64Array,
+    direction: Float64Array,
+    initialAlpha: number,
+    atomCount: number,
+    outPositions: Float64Array,
+    outForces: Float64Array
+  ): number | null {
+    // Directional derivative of the energy: g . d = -F . d
+    const slope = -this.dot(forces, direction);
+    let alpha = initialAlpha;
+
+    for (let attempt = 0; attempt < MAX_LINE_SEARCH_STEPS; attempt++) {
+      for (let i = 0; i < positions.length; i++) {
+        outPositions[i] = positions[i] + alpha * direction[i];
+      }
+      const trialEnergy = this.calculateForces(outPositions, atomCount, outForces).total;
+      if (trialEnergy <= energy + ARMIJO_C1 * alpha * slope && trialEnergy < energy) {
+        return trialEnergy;
+      }
+      alpha *= 0.5;
+    }
+
+    return null;
+  }
+
+  private dot(a: Float64Array, b: Float64Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      sum += a[i] * b[i];
+    }
+    return sum;
+  }
+}
+
+/**
+ * Build the implicit linear-chain topology used when no topology is set:
+ * consecutive atoms are bonded and form angles and dihedrals along the chain
+ */
+export function createLinearChainTopology(atomCount: number): MolecularTopology {
+  const bonds: Array<[number, number]> = [];
+  const angles: Array<[number, number, number]> = [];
+  const dihedrals: Array<[number, number, number, number]> = [];
+
+  for (let i = 0; i < atomCount - 1; i++) bonds.push([i, i + 1]);
+  for (let i = 0; i < atomCount - 2; i++) angles.push([i, i + 1, i + 2]);
+  for (let i = 0; i < atomCount - 3; i++) dihedrals.push([i, i + 1, i + 2, i + 3]);
+
+  return { bonds, angles, dihedrals };
 }
 
 /**
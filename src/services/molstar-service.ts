@@ -16,6 +16,15 @@ import { PluginCommands } from 'molstar/lib/mol-plugin/commands';
 import { StateTransforms } from 'molstar/lib/mol-plugin-state/transforms';
 import { PluginConfig } from 'molstar/lib/mol-plugin/config';
 import { Color } from 'molstar/lib/mol-util/color';
+import { Model, Structure, StructureElement, StructureSelection, Unit } from 'molstar/lib/mol-model/structure';
+import { StateTree } from 'molstar/lib/mol-state';
+import { MolScriptBuilder as MS } from 'molstar/lib/mol-script/language/builder';
+import { Script } from 'molstar/lib/mol-script/script';
+import type { Expression } from 'molstar/lib/mol-script/language/expression';
+import { ModelSymmetry } from 'molstar/lib/mol-model-formats/structure/property/symmetry';
+import { ModelSecondaryStructure } from 'molstar/lib/mol-model-formats/structure/property/secondary-structure';
+import { SpacegroupCell } from 'molstar/lib/mol-math/geometry/spacegroup/construction';
+import { Mat4, Vec3 } from 'molstar/lib/mol-math/linear-algebra';
 
 // Import SCSS only in browser environment
 if (typeof window !== 'undefined') {
@@ -36,9 +45,25 @@ import type {
   ExportImageOptions,
   PerformanceMetrics,
   TrajectoryOptions,
+  TrajectoryFrame,
+  TrajectoryWindowOptions,
+  AssemblyView,
+  AssemblyInfo,
+  SymmetryInfo,
+  ComparisonMode,
+  ComparisonOptions,
+  ComparisonResult,
   MolstarEvents,
   HoverInfo,
   SequenceData,
+  StructureSequence,
+  StructureResidue,
+  SecondaryStructureResidue,
+  ConfidenceTrim,
+  SurfaceColoringOptions,
+  ResidueDataColoringOptions,
+  LoadLigandOptions,
+  LoadedLigand,
   ResidueSelection,
   FocusOptions,
   InteractionOptions,
@@ -47,6 +72,104 @@ import type {
 
 import { MeasurementRenderer } from './molstar/measurement-renderer';
 import { SelectionHighlighter } from './molstar/selection-highlighter';
+import { CoordinatesFromFrames } from './molstar/trajectory-coordinates';
+import { RMSFColorThemeProvider, rmsfResidueKey } from './molstar/rmsf-color-theme';
+import { DSSPColorThemeProvider, dsspResidueKey } from './molstar/dssp-color-theme';
+import { PLDDTColorThemeProvider } from './molstar/plddt-color-theme';
+import { SurfacePropertyColorThemeProvider } from './molstar/surface-property-color-theme';
+import { ResidueDataColorThemeProvider } from './molstar/residue-data-color-theme';
+import { getSecondaryStructureService } from './secondary-structure-service';
+import { getElectrostaticsService } from './electrostatics-service';
+import { detectNonCovalentInteractions, type InteractionAtom } from '@/utils/interaction-utils';
+import type { Superposition } from '@/lib/md-analysis';
+import type { Atom as PDBAtom } from '@/types/pdb';
+import { residueCode, sequenceConservation } from '@/lib/sequence-alignment';
+import {
+  SURFACE_PROPERTY_SCALES,
+  chargedAtoms,
+  hydrophobicityValues,
+  isWater,
+  type SurfaceProperty,
+} from '@/lib/surface-properties';
+import {
+  residueDataKey,
+  residueDataRange,
+  residueValuesFromAtoms,
+  type ResidueDataSource,
+} from '@/lib/residue-data';
+import { backboneResidues, type BackboneAtom } from '@/lib/dssp';
+import { buildMolecule, toSDF } from '@/lib/smiles';
+import { compileSelection, selectionFromQuery, type SelectionNode } from '@/lib/selection/selection-language';
+import {
+  combineDeviations,
+  compareStructures,
+  sideBySideOffsets,
+  superpositionMatrix,
+  type CAResidue,
+} from '@/lib/structure-comparison';
+
+const OLIGOMER_NAMES = ['', 'monomer', 'dimer', 'trimer', 'tetramer', 'pentamer', 'hexamer',
+  'heptamer', 'octamer', 'nonamer', 'decamer', 'undecamer', 'dodecamer'];
+
+const CONFIDENCE_TRIM_TAG = 'confidence-trim';
+const CONFIDENCE_FADE = 0.8; // Transparency of faded low-confidence residues
+const SURFACE_PROPERTIES: MolstarColorScheme[] = ['electrostatic', 'hydrophobicity', 'conservation'];
+
+function isSurfaceProperty(scheme: MolstarColorScheme): scheme is SurfaceProperty {
+  return SURFACE_PROPERTIES.includes(scheme);
+}
+
+/**
+ * Assembly matching the requested id, or the first one as Mol* does by default
+ */
+function resolveAssemblyView(model: Model | undefined, assemblyId?: string): AssemblyView {
+  const assemblies = model ? ModelSymmetry.Provider.get(model)?.assemblies ?? [] : [];
+  const assembly = assemblyId ? assemblies.find((a) => a.id === assemblyId) : assemblies[0];
+  return assembly ? { type: 'assembly', id: assembly.id } : { type: 'model' };
+}
+
+/**
+ * Count the polymer chain copies an assembly generates and name its oligomeric state
+ */
+function describeAssembly(
+  model: Model,
+  assembly: NonNullable<ReturnType<typeof ModelSymmetry.Provider.get>>['assemblies'][number]
+): AssemblyInfo {
+  const { chains } = model.atomicHierarchy;
+  const polymerEntities = new Map<string, string>();
+  for (let i = 0; i < chains._rowCount; i++) {
+    const entityId = chains.label_entity_id.value(i);
+    const entityIndex = model.entities.getEntityIndex(entityId);
+    if (model.entities.data.type.value(entityIndex) === 'polymer') {
+      polymerEntities.set(chains.label_asym_id.value(i), entityId);
+    }
+  }
+
+  let polymerCount = 0;
+  const entities = new Set<string>();
+  for (const group of assembly.operatorGroups) {
+    const asymIds = (group.asymIds ?? []).filter((asymId) => polymerEntities.has(asymId));
+    polymerCount += asymIds.length * group.operators.length;
+    asymIds.forEach((asymId) => entities.add(polymerEntities.get(asymId)!));
+  }
+
+  const name = OLIGOMER_NAMES[polymerCount] ?? `${polymerCount}-mer`;
+  const oligomericState = polymerCount <= 1
+    ? name || 'non-polymer'
+    : `${entities.size > 1 ? 'hetero' : 'homo'}-${name}`;
+
+  return { id: assembly.id, details: assembly.details, polymerCount, oligomericState };
+}
+
+/**
+ * State refs and C-alpha trace of one structure in a comparison
+ */
+interface ComparisonEntry {
+  structure: string;
+  transform: string;
+  residues: CAResidue[];
+  fit?: Superposition; // Onto the reference, none for the reference itself
+}
 
 /**
  * Mol* Service Singleton
@@ -66,6 +189,18 @@ export class MolstarService {
   private measurementRepresentations: Map<string, any> = new Map();
   private measurementRenderer: MeasurementRenderer | null = null;
   private selectionHighlighter: SelectionHighlighter | null = null;
+  private trajectoryRefs: { coordinates: string; model: string } | null = null;
+  private structureRefs: { model: string; structure: string } | null = null;
+  private assemblyView: AssemblyView = { type: 'model' };
+  private comparison: { structures: ComparisonEntry[]; result: ComparisonResult } | null = null;
+  private colorScheme: MolstarColorScheme = 'chain-id';
+  private confidenceTrim: ConfidenceTrim | null = null;
+  private surfaceColoring: SurfaceColoringOptions = {};
+  private surfaceValues = new WeakMap<Structure, Map<string, Promise<Float32Array>>>();
+  private residueData: { values: Map<string, number>; options: ResidueDataColoringOptions } | null = null;
+  private ligands: Map<string, LoadedLigand> = new Map();
+  private secondaryStructure: { structure: Structure; residues: Promise<SecondaryStructureResidue[]> } | null = null;
+  private cameraSubscription: { unsubscribe(): void } | null = null;
 
   private constructor() {
     // Private constructor for singleton
@@ -198,6 +333,11 @@ export class MolstarService {
 
       // Clear previous structure
       await plugin.clear();
+      this.trajectoryRefs = null;
+      this.structureRefs = null;
+      this.comparison = null;
+      this.confidenceTrim = null;
+      this.ligands.clear();
 
       // Download structure data
       const dataState = await plugin.builders.data.rawData({
@@ -211,19 +351,22 @@ export class MolstarService {
       // Create model
       const model = await plugin.builders.structure.createModel(trajectory);
 
-      // Create structure
+      // Create structure; small molecules have no assemblies
+      const isSmallMolecule = format === 'sdf' || format === 'mol2';
       const structure = await plugin.builders.structure.createStructure(
         model,
-        assemblyId ? { name: 'assembly', params: { id: assemblyId } } : undefined
+        assemblyId && !isSmallMolecule ? { name: 'assembly', params: { id: assemblyId } } : undefined
       );
+      this.structureRefs = { model: model.ref, structure: structure.ref };
+      this.assemblyView = resolveAssemblyView(model.data, isSmallMolecule ? undefined : assemblyId);
 
       // Extract metadata
       const metadata = this.extractMetadata(structure);
 
       // Create default representation
       await this.applyRepresentation({
-        type: 'cartoon',
-        colorScheme: 'chain-id',
+        type: isSmallMolecule ? 'ball-and-stick' : 'cartoon',
+        colorScheme: isSmallMolecule ? 'element-symbol' : 'chain-id',
         quality: 'auto',
       });
 
@@ -246,10 +389,144 @@ export class MolstarService {
     }
   }
 
+  /**
+   * Add a small molecule (SDF or MOL2) to the scene without clearing it,
+   * drawn as ball-and-stick and left out of representation and color changes
+   */
+  public async loadLigand(data: string, options: LoadLigandOptions = {}): Promise<LoadedLigand> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
+
+    const { format = 'sdf', label = 'Ligand' } = options;
+
+    try {
+      const plugin = this.viewer.plugin;
+      const dataState = await plugin.builders.data.rawData({ data, label });
+      const trajectory = await plugin.builders.structure.parseTrajectory(dataState, format);
+      const model = await plugin.builders.structure.createModel(trajectory);
+      const structure = await plugin.builders.structure.createStructure(model);
+
+      await plugin.builders.structure.representation.addRepresentation(structure, {
+        type: 'ball-and-stick',
+        color: 'element-symbol',
+      } as any);
+
+      const ligand: LoadedLigand = {
+        id: dataState.ref,
+        label,
+        atomCount: structure.data?.elementCount ?? 0,
+      };
+      this.ligands.set(ligand.id, ligand);
+      this.emit('ligands-changed', this.getLigands());
+
+      // A ligand on its own gets the camera; next to a protein the view is kept
+      if (!this.structureRefs) {
+        await this.centerCamera();
+      }
+
+      console.info(`[MolstarService] Ligand ${label} loaded (${ligand.atomCount} atoms)`);
+      return ligand;
+    } catch (error) {
+      console.error('[MolstarService] Ligand loading failed:', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build 3D coordinates for a SMILES string and add it as a ligand
+   */
+  public async loadSmiles(smiles: string, label: string = smiles): Promise<LoadedLigand> {
+    const molecule = buildMolecule(smiles);
+    return this.loadLigand(toSDF(molecule, label), { format: 'sdf', label });
+  }
+
+  /**
+   * Ligands currently in the scene, in load order
+   */
+  public getLigands(): LoadedLigand[] {
+    return Array.from(this.ligands.values());
+  }
+
+  /**
+   * Remove one ligand from the scene
+   */
+  public async removeLigand(id: string): Promise<void> {
+    if (!this.viewer || !this.ligands.has(id)) return;
+
+    const plugin = this.viewer.plugin;
+    await PluginCommands.State.RemoveObject(plugin, { state: plugin.state.data, ref: id });
+    this.ligands.delete(id);
+    this.emit('ligands-changed', this.getLigands());
+  }
+
+  /**
+   * Helper: Whether a state cell belongs to a loaded ligand
+   */
+  private isLigandCell(cell: { transform: { ref: string } }): boolean {
+    if (this.ligands.size === 0) return false;
+
+    const tree = this.viewer!.plugin.state.data.tree;
+    let ref = cell.transform.ref;
+    while (!this.ligands.has(ref)) {
+      const parent = tree.transforms.get(ref)?.parent;
+      if (!parent || parent === ref) return false;
+      ref = parent;
+    }
+    return true;
+  }
+
   /**
    * Load structure from PDB ID
    */
   public async loadStructureById(pdbId: string): Promise<StructureMetadata> {
+    const id = pdbId.toUpperCase();
+    return this.loadStructureFromUrl(`https://files.rcsb.org/download/${id}.pdb`, id);
+  }
+
+  /**
+   * Load an uploaded structure by its structure ID. The server checks the
+   * user may view it; failures carry the response status
+   */
+  public async loadSharedStructure(structureId: string): Promise<StructureMetadata> {
+    const response = await fetch(`/api/pdb/${encodeURIComponent(structureId)}?raw=true`);
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      const error = new Error(body.error || `Failed to load structure ${structureId}`) as Error & { status: number };
+      error.status = response.status;
+      throw error;
+    }
+
+    const fileFormat = response.headers.get('X-Structure-Format');
+    const name = response.headers.get('X-Structure-Name');
+
+    return this.loadStructure(await response.text(), {
+      format: fileFormat === 'cif' ? 'mmcif' : fileFormat === 'sdf' || fileFormat === 'mol2' ? fileFormat : 'pdb',
+      label: name ? decodeURIComponent(name) : structureId,
+    });
+  }
+
+  /**
+   * Load an AlphaFold Database prediction by UniProt ID, colored by pLDDT
+   */
+  public async loadAlphaFoldModel(uniprotId: string): Promise<StructureMetadata> {
+    const id = uniprotId.toUpperCase();
+    return this.loadStructureFromUrl(`https://alphafold.ebi.ac.uk/files/AF-${id}-F1-model_v4.pdb`, `AF-${id}`, {
+      colorScheme: 'plddt',
+      experimentMethod: 'AlphaFold prediction',
+    });
+  }
+
+  /**
+   * Helper: Download a PDB file into a fresh scene
+   */
+  private async loadStructureFromUrl(
+    url: string,
+    label: string,
+    options: { colorScheme?: MolstarColorScheme; experimentMethod?: string } = {}
+  ): Promise<StructureMetadata> {
     if (!this.viewer) {
       throw new Error('Mol* viewer not initialized');
     }
@@ -259,24 +536,29 @@ export class MolstarService {
 
       // Clear previous structure
       await plugin.clear();
+      this.trajectoryRefs = null;
+      this.structureRefs = null;
+      this.comparison = null;
+      this.confidenceTrim = null;
+      this.ligands.clear();
 
-      // Download from PDB
-      const data = await plugin.builders.data.download({
-        url: `https://files.rcsb.org/download/${pdbId.toUpperCase()}.pdb`,
-        isBinary: false,
-        label: pdbId.toUpperCase(),
-      });
+      const data = await plugin.builders.data.download({ url, isBinary: false, label });
 
       // Parse as PDB
       const trajectory = await plugin.builders.structure.parseTrajectory(data, 'pdb');
       const model = await plugin.builders.structure.createModel(trajectory);
       const structure = await plugin.builders.structure.createStructure(model);
+      this.structureRefs = { model: model.ref, structure: structure.ref };
+      this.assemblyView = resolveAssemblyView(model.data);
 
       const metadata = this.extractMetadata(structure);
+      if (options.experimentMethod) {
+        metadata.experimentMethod = options.experimentMethod;
+      }
 
       await this.applyRepresentation({
         type: 'cartoon',
-        colorScheme: 'chain-id',
+        colorScheme: options.colorScheme ?? 'chain-id',
         quality: 'auto',
       });
 
@@ -293,151 +575,946 @@ export class MolstarService {
   }
 
   /**
-   * Apply representation to current structure
+   * Load a topology with a window of trajectory frames
+   * Frames are Å coordinates in topology atom order; the first frame is shown
+   */
+  public async loadTrajectoryWindow(
+    topology: string,
+    frames: TrajectoryFrame[],
+    options: TrajectoryWindowOptions
+  ): Promise<StructureMetadata> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
+
+    const { atomCount, timeStep = 1, label = 'Trajectory' } = options;
+
+    try {
+      const plugin = this.viewer.plugin;
+
+      await plugin.clear();
+      this.trajectoryRefs = null;
+      this.structureRefs = null;
+      this.comparison = null;
+      this.confidenceTrim = null;
+      this.ligands.clear();
+
+      const data = await plugin.builders.data.rawData({ data: topology, label: `${label} topology` });
+      const topologyTrajectory = await plugin.builders.structure.parseTrajectory(data, 'pdb');
+      const topologyModel = await plugin.builders.structure.createModel(topologyTrajectory);
+
+      const coordinates = await plugin.build().toRoot()
+        .apply(CoordinatesFromFrames, { label, atomCount, timeStep, frames })
+        .commit();
+      const trajectory = await plugin.build().toRoot()
+        .apply(
+          StateTransforms.Model.TrajectoryFromModelAndCoordinates,
+          { modelRef: topologyModel.ref, coordinatesRef: coordinates.ref },
+          { dependsOn: [topologyModel.ref, coordinates.ref] }
+        )
+        .commit();
+
+      const model = await plugin.builders.structure.createModel(trajectory, { modelIndex: 0 });
+      const structure = await plugin.builders.structure.createStructure(model);
+      this.trajectoryRefs = { coordinates: coordinates.ref, model: model.ref };
+
+      const metadata = this.extractMetadata(structure);
+
+      await this.applyRepresentation({
+        type: 'cartoon',
+        colorScheme: 'chain-id',
+        quality: 'auto',
+      });
+
+      await this.centerCamera();
+
+      this.emit('structure-loaded', metadata);
+
+      return metadata;
+    } catch (error) {
+      console.error('[MolstarService] Trajectory loading failed:', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the frames of the loaded trajectory window
+   */
+  public async setTrajectoryWindow(frames: TrajectoryFrame[]): Promise<void> {
+    if (!this.viewer || !this.trajectoryRefs) {
+      throw new Error('No trajectory loaded');
+    }
+
+    await this.viewer.plugin.build()
+      .to(this.trajectoryRefs.coordinates)
+      .update(CoordinatesFromFrames, (old) => ({ ...old, frames }))
+      .commit();
+  }
+
+  /**
+   * Show a frame of the loaded window (index within the window)
+   */
+  public async setTrajectoryFrame(windowIndex: number, frameIndex: number = windowIndex): Promise<void> {
+    if (!this.viewer || !this.trajectoryRefs) {
+      throw new Error('No trajectory loaded');
+    }
+
+    await this.viewer.plugin.build()
+      .to(this.trajectoryRefs.model)
+      .update(StateTransforms.Model.ModelFromTrajectory, (old) => ({ ...old, modelIndex: windowIndex }))
+      .commit();
+
+    // The assignment follows the frame's backbone
+    if (this.colorScheme === 'secondary-structure') {
+      await this.applySecondaryStructureColoring();
+    }
+    if (isSurfaceProperty(this.colorScheme)) {
+      await this.applySurfacePropertyColoring(this.colorScheme, this.surfaceColoring);
+    }
+
+    this.emit('trajectory-frame-changed', frameIndex);
+  }
+
+  /**
+   * Biological assemblies and crystal symmetry of the loaded entry
+   */
+  public getSymmetryInfo(): SymmetryInfo | null {
+    const model = this.getStructureModel();
+    if (!model) return null;
+
+    const symmetry = ModelSymmetry.Provider.get(model);
+    const info: SymmetryInfo = {
+      assemblies: (symmetry?.assemblies ?? []).map((assembly) => describeAssembly(model, assembly)),
+    };
+
+    const cell = symmetry?.spacegroup.cell;
+    if (cell && !SpacegroupCell.isZero(cell)) {
+      const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+      info.spacegroup = symmetry!.spacegroup.name;
+      info.cell = {
+        a: cell.size[0],
+        b: cell.size[1],
+        c: cell.size[2],
+        alpha: toDegrees(cell.anglesInRadians[0]),
+        beta: toDegrees(cell.anglesInRadians[1]),
+        gamma: toDegrees(cell.anglesInRadians[2]),
+      };
+    }
+
+    return info;
+  }
+
+  /**
+   * Currently displayed assembly view
+   */
+  public getAssemblyView(): AssemblyView {
+    return this.assemblyView;
+  }
+
+  /**
+   * Rebuild the structure as the asymmetric unit, a biological assembly,
+   * symmetry mates within a radius or whole unit cells
+   */
+  public async setAssemblyView(view: AssemblyView): Promise<void> {
+    if (!this.viewer || !this.structureRefs) {
+      throw new Error('No structure loaded');
+    }
+
+    if (view.type === 'symmetry-mates' || view.type === 'unit-cell') {
+      if (!this.getSymmetryInfo()?.cell) {
+        throw new Error('Structure has no crystal symmetry');
+      }
+    }
+
+    const type = view.type === 'assembly'
+      ? { name: 'assembly' as const, params: { id: view.id } }
+      : view.type === 'symmetry-mates'
+        ? { name: 'symmetry-mates' as const, params: { radius: view.radius } }
+        : view.type === 'unit-cell'
+          ? {
+              name: 'symmetry' as const,
+              params: {
+                ijkMin: Vec3.create(...(view.ijkMin ?? [-1, -1, -1])),
+                ijkMax: Vec3.create(...(view.ijkMax ?? [1, 1, 1])),
+              },
+            }
+          : { name: 'model' as const, params: {} };
+
+    try {
+      await this.viewer.plugin.build()
+        .to(this.structureRefs.structure)
+        .update(StateTransforms.Model.StructureFromModel, (old) => ({ ...old, type }))
+        .commit();
+
+      this.assemblyView = view;
+      await this.centerCamera();
+
+      this.emit('assembly-changed', view);
+    } catch (error) {
+      console.error('[MolstarService] Assembly change failed:', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  private getStructureModel(): Model | undefined {
+    if (!this.viewer || !this.structureRefs) return undefined;
+    return this.viewer.plugin.state.data.cells.get(this.structureRefs.model)?.obj?.data as Model | undefined;
+  }
+
+  /**
+   * Load two or more PDB entries, superpose each onto the first by sequence
+   * alignment and a C-alpha fit, and color them by per-residue deviation
+   */
+  public async loadComparison(pdbIds: string[], options: ComparisonOptions = {}): Promise<ComparisonResult> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
+    if (pdbIds.length < 2) {
+      throw new Error('Comparison needs at least two structures');
+    }
+
+    const startTime = performance.now();
+    const { mode = 'overlay', chains = [] } = options;
+
+    try {
+      const plugin = this.viewer.plugin;
+
+      await plugin.clear();
+      this.trajectoryRefs = null;
+      this.structureRefs = null;
+      this.comparison = null;
+      this.confidenceTrim = null;
+      this.ligands.clear();
+      this.assemblyView = { type: 'model' };
+
+      const structures: ComparisonEntry[] = [];
+      for (const [i, pdbId] of pdbIds.entries()) {
+        const label = pdbId.toUpperCase();
+        const data = await plugin.builders.data.download({
+          url: `https://files.rcsb.org/download/${label}.pdb`,
+          isBinary: false,
+          label,
+        });
+        const trajectory = await plugin.builders.structure.parseTrajectory(data, 'pdb');
+        const model = await plugin.builders.structure.createModel(trajectory);
+        // Asymmetric unit, so the fit applies to the deposited coordinates
+        const structure = await plugin.builders.structure.createStructure(model, { name: 'model', params: {} });
+        const transform = await plugin.build()
+          .to(structure)
+          .insert(StateTransforms.Model.TransformStructureConformation, {
+            transform: { name: 'matrix', params: { data: Mat4.identity(), transpose: false } },
+          })
+          .commit();
+
+        structures.push({
+          structure: structure.ref,
+          transform: transform.ref,
+          residues: structure.data ? this.extractCAResidues(structure.data, chains[i]) : [],
+        });
+      }
+
+      const [reference, ...mobiles] = structures;
+      const comparisons = mobiles.map((entry) => compareStructures(reference.residues, entry.residues));
+      comparisons.forEach((comparison, i) => {
+        mobiles[i].fit = comparison.superposition;
+      });
+
+      const referenceResidues = combineDeviations(comparisons.map((comparison) => comparison.reference));
+      const result: ComparisonResult = {
+        mode,
+        structures: [
+          {
+            label: pdbIds[0].toUpperCase(),
+            rmsd: 0,
+            alignedCount: referenceResidues.length,
+            identity: 1,
+            residues: referenceResidues,
+          },
+          ...comparisons.map((comparison, i) => ({
+            label: pdbIds[i + 1].toUpperCase(),
+            rmsd: comparison.rmsd,
+            alignedCount: comparison.alignedCount,
+            identity: comparison.alignment.identity,
+            residues: comparison.mobile,
+          })),
+        ],
+      };
+      this.comparison = { structures, result };
+
+      await this.applyComparisonLayout(mode);
+      await this.applyRepresentation({
+        type: 'cartoon',
+        colorScheme: 'chain-id',
+        quality: 'auto',
+      });
+      await this.setComparisonColoring();
+      await this.centerCamera();
+
+      this.emit('comparison-changed', result);
+
+      console.info(`[MolstarService] Compared ${pdbIds.length} structures in ${(performance.now() - startTime).toFixed(2)}ms`);
+
+      return result;
+    } catch (error) {
+      console.error('[MolstarService] Structure comparison failed:', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Current multi-structure comparison, if one is loaded
+   */
+  public getComparison(): ComparisonResult | null {
+    return this.comparison?.result ?? null;
+  }
+
+  /**
+   * Show compared structures overlaid or in a row
+   */
+  public async setComparisonMode(mode: ComparisonMode): Promise<void> {
+    if (!this.viewer || !this.comparison) {
+      throw new Error('No comparison loaded');
+    }
+
+    try {
+      await this.applyComparisonLayout(mode);
+      this.comparison.result = { ...this.comparison.result, mode };
+      await this.centerCamera();
+
+      this.emit('comparison-changed', this.comparison.result);
+    } catch (error) {
+      console.error('[MolstarService] Comparison layout failed:', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Color each compared structure by its per-residue deviation on a shared scale
+   */
+  public async setComparisonColoring(): Promise<void> {
+    if (!this.viewer || !this.comparison) {
+      throw new Error('No comparison loaded');
+    }
+
+    const { structures, result } = this.comparison;
+    const max = result.structures.reduce(
+      (acc, structure) => structure.residues.reduce((m, residue) => Math.max(m, residue.value), acc),
+      0
+    );
+
+    for (const [i, entry] of structures.entries()) {
+      await this.applyResidueValueColoring(result.structures[i].residues, [0, max || 1], entry.structure);
+    }
+  }
+
+  /**
+   * Helper: Set each compared structure's fit, offset along x in side-by-side mode
+   */
+  private async applyComparisonLayout(mode: ComparisonMode): Promise<void> {
+    const plugin = this.viewer!.plugin;
+    const { structures } = this.comparison!;
+    const offsets = mode === 'side-by-side'
+      ? sideBySideOffsets(structures.map((entry) => entry.residues))
+      : structures.map((): [number, number, number] => [0, 0, 0]);
+
+    const update = plugin.state.data.build();
+    structures.forEach((entry, i) => {
+      const matrix = Mat4.fromArray(Mat4(), superpositionMatrix(entry.fit, offsets[i]), 0);
+      update.to(entry.transform).update(StateTransforms.Model.TransformStructureConformation, () => ({
+        transform: { name: 'matrix' as const, params: { data: matrix, transpose: false } },
+      }));
+    });
+    await PluginCommands.State.Update(plugin, { state: plugin.state.data, tree: update });
+  }
+
+  /**
+   * Helper: C-alpha trace by auth chain id and residue number, first alternate location only
+   */
+  private extractCAResidues(structure: Structure, chainIds?: string[]): CAResidue[] {
+    const residues: CAResidue[] = [];
+    const seen = new Set<string>();
+
+    for (const unit of structure.units) {
+      if (!Unit.isAtomic(unit)) continue;
+
+      const { atoms, residues: residueTable, chains, residueAtomSegments, chainAtomSegments } =
+        unit.model.atomicHierarchy;
+      const conformation = unit.conformation;
+
+      for (let i = 0; i < unit.elements.length; i++) {
+        const element = unit.elements[i];
+        if (atoms.label_atom_id.value(element) !== 'CA' || atoms.type_symbol.value(element) !== 'C') continue;
+
+        const chainId = chains.auth_asym_id.value(chainAtomSegments.index[element]);
+        if (chainIds && !chainIds.includes(chainId)) continue;
+
+        const residueIndex = residueAtomSegments.index[element];
+        const key = `${unit.id}:${residueIndex}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        residues.push({
+          chainId,
+          residueSeq: residueTable.auth_seq_id.value(residueIndex),
+          residueName: atoms.label_comp_id.value(element),
+          position: [conformation.x(element), conformation.y(element), conformation.z(element)],
+        });
+      }
+    }
+
+    return residues;
+  }
+
+  /**
+   * Apply representation to current structure
+   */
+  public async applyRepresentation(options: RepresentationOptions): Promise<void> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
+
+    const startTime = performance.now();
+
+    try {
+      const plugin = this.viewer.plugin;
+      const state = plugin.state.data;
+
+      // Remove existing representations; ligands keep their own
+      const reprs = state
+        .selectQ((q) => q.ofTransformer(StateTransforms.Representation.StructureRepresentation3D))
+        .filter((cell) => !this.isLigandCell(cell));
+
+      for (const repr of reprs) {
+        await PluginCommands.State.RemoveObject(plugin, { state, ref: repr.transform.ref });
+      }
+
+      // Get structure
+      const structures = state
+        .selectQ((q) => q.ofTransformer(StateTransforms.Model.StructureFromModel))
+        .filter((cell) => !this.isLigandCell(cell));
+
+      if (structures.length === 0) {
+        throw new Error('No structure loaded');
+      }
+
+      // Map representation types
+      type MolstarBuiltInType = 'cartoon' | 'ball-and-stick' | 'spacefill' | 'molecular-surface' | 'backbone' | 'point' | 'putty';
+      const typeMap: Record<MolstarRepresentationType, MolstarBuiltInType> = {
+        cartoon: 'cartoon',
+        'ball-and-stick': 'ball-and-stick',
+        spacefill: 'spacefill',
+        surface: 'molecular-surface',
+        backbone: 'backbone',
+        point: 'point',
+        putty: 'putty',
+      };
+
+      if (options.colorScheme === 'plddt') {
+        this.registerPLDDTColorTheme();
+      }
+
+      // Computed properties are applied once the representations exist
+      const color =
+        options.colorScheme && !isSurfaceProperty(options.colorScheme) && options.colorScheme !== 'residue-data'
+          ? options.colorScheme
+          : 'chain-id';
+
+      // Create new representation (one per structure when comparing)
+      for (const structure of structures) {
+        await plugin.builders.structure.representation.addRepresentation(structure, {
+          type: typeMap[options.type] ?? 'cartoon',
+          color,
+          quality: options.quality || 'auto',
+          alpha: options.alpha ?? 1.0,
+        } as any);
+      }
+
+      this.colorScheme = options.colorScheme || 'chain-id';
+      if (this.colorScheme === 'secondary-structure' && this.usesComputedSecondaryStructure()) {
+        await this.applySecondaryStructureColoring();
+      }
+      if (isSurfaceProperty(this.colorScheme)) {
+        await this.applySurfacePropertyColoring(this.colorScheme, this.surfaceColoring);
+      }
+      if (this.colorScheme === 'residue-data' && this.residueData) {
+        await this.applyResidueDataColoring(this.residueData.values, this.residueData.options);
+      }
+
+      // Trimming is attached to the representations it was applied to
+      if (this.confidenceTrim) {
+        await this.applyConfidenceTrim(this.confidenceTrim);
+      }
+
+      const renderTime = performance.now() - startTime;
+      this.performanceMetrics.renderTime = renderTime;
+
+      this.emit('representation-changed', options.type);
+
+      console.info(`[MolstarService] Representation applied in ${renderTime.toFixed(2)}ms`);
+    } catch (error) {
+      console.error('[MolstarService] Representation change failed:', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change color scheme; electrostatic, hydrophobicity and conservation are
+   * computed per atom and take a color range and their own options
+   */
+  public async setColorScheme(scheme: MolstarColorScheme, options: SurfaceColoringOptions = {}): Promise<void> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
+
+    try {
+      const plugin = this.viewer.plugin;
+      const state = plugin.state.data;
+
+      this.colorScheme = scheme;
+      if (scheme === 'plddt') {
+        this.registerPLDDTColorTheme();
+      }
+      if (scheme === 'secondary-structure' && this.usesComputedSecondaryStructure()) {
+        await this.applySecondaryStructureColoring();
+        this.emit('color-scheme-changed', scheme);
+        return;
+      }
+      if (isSurfaceProperty(scheme)) {
+        await this.applySurfacePropertyColoring(scheme, options);
+        this.surfaceColoring = options;
+        this.emit('color-scheme-changed', scheme);
+        return;
+      }
+      if (scheme === 'residue-data') {
+        if (!this.residueData) {
+          throw new Error('No residue data to color by');
+        }
+        await this.applyResidueDataColoring(this.residueData.values, this.residueData.options);
+        this.emit('color-scheme-changed', scheme);
+        return;
+      }
+
+      const reprs = state
+        .selectQ((q) => q.ofTransformer(StateTransforms.Representation.StructureRepresentation3D))
+        .filter((cell) => !this.isLigandCell(cell));
+
+      for (const repr of reprs) {
+        const update = state.build().to(repr).update({ colorTheme: { name: scheme } } as any);
+        await PluginCommands.State.Update(plugin, { state, tree: update });
+      }
+
+      this.emit('color-scheme-changed', scheme);
+    } catch (error) {
+      console.error('[MolstarService] Color scheme change failed:', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fade or hide residues below a pLDDT threshold; null shows every residue
+   */
+  public async setConfidenceTrim(trim: ConfidenceTrim | null): Promise<void> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
+
+    try {
+      await this.applyConfidenceTrim(trim);
+      this.confidenceTrim = trim;
+    } catch (error) {
+      console.error('[MolstarService] Confidence trimming failed:', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Helper: Replace the confidence transparency layer of every representation
+   */
+  private async applyConfidenceTrim(trim: ConfidenceTrim | null): Promise<void> {
+    const plugin = this.viewer!.plugin;
+    const state = plugin.state.data;
+    const update = state.build();
+
+    const existing = state.selectQ((q) =>
+      q.ofTransformer(StateTransforms.Representation.TransparencyStructureRepresentation3DFromBundle).withTag(CONFIDENCE_TRIM_TAG)
+    );
+    for (const cell of existing) {
+      update.delete(cell.transform.ref);
+    }
+
+    const structure = this.getLoadedStructures()[0];
+    if (trim && structure) {
+      const expression = MS.struct.modifier.wholeResidues({
+        0: MS.struct.generator.atomGroups({
+          'atom-test': MS.core.rel.lt([MS.struct.atomProperty.macromolecular.B_iso_or_equiv(), trim.threshold]),
+        }),
+      });
+      const selection = Script.getStructureSelection(expression, structure);
+      const bundle = StructureElement.Bundle.fromLoci(StructureSelection.toLociWithSourceUnits(selection));
+      const value = trim.mode === 'hide' ? 1 : CONFIDENCE_FADE;
+
+      const reprs = state
+        .selectQ((q) => q.ofTransformer(StateTransforms.Representation.StructureRepresentation3D))
+        .filter((cell) => !this.isLigandCell(cell));
+      for (const repr of reprs) {
+        update
+          .to(repr)
+          .apply(
+            StateTransforms.Representation.TransparencyStructureRepresentation3DFromBundle,
+            { layers: [{ bundle, value }] },
+            { tags: CONFIDENCE_TRIM_TAG }
+          );
+      }
+    }
+
+    await PluginCommands.State.Update(plugin, { state, tree: update });
+  }
+
+  /**
+   * Helper: Make the pLDDT theme available by its scheme name
+   */
+  private registerPLDDTColorTheme(): void {
+    const registry = this.viewer!.plugin.representation.structure.themes.colorThemeRegistry;
+    if (!registry.has(PLDDTColorThemeProvider)) {
+      registry.add(PLDDTColorThemeProvider);
+    }
+  }
+
+  /**
+   * Helper: Color each loaded structure's representations by a computed property
+   */
+  private async applySurfacePropertyColoring(property: SurfaceProperty, options: SurfaceColoringOptions): Promise<void> {
+    const plugin = this.viewer!.plugin;
+    const state = plugin.state.data;
+
+    const registry = plugin.representation.structure.themes.colorThemeRegistry;
+    if (!registry.has(SurfacePropertyColorThemeProvider)) {
+      registry.add(SurfacePropertyColorThemeProvider);
+    }
+
+    const domain = options.range ?? SURFACE_PROPERTY_SCALES[property].range;
+    const cells = state
+      .selectQ((q) => q.ofTransformer(StateTransforms.Model.StructureFromModel))
+      .filter((cell) => !this.isLigandCell(cell));
+    const structures = this.getLoadedStructures();
+
+    for (const [i, cell] of cells.entries()) {
+      const structure = structures[i];
+      if (!structure) continue;
+
+      const values = await this.getSurfacePropertyValues(structure, property, options);
+      const reprs = state.selectQ((q) =>
+        q.ofTransformer(StateTransforms.Representation.StructureRepresentation3D, cell.transform.ref)
+      );
+      for (const repr of reprs) {
+        const update = state.build().to(repr).update({
+          colorTheme: {
+            name: SurfacePropertyColorThemeProvider.name,
+            params: { property, domain, values },
+          },
+        } as any);
+        await PluginCommands.State.Update(plugin, { state, tree: update });
+      }
+    }
+  }
+
+  /**
+   * Helper: Property value per model atom index (NaN where undefined), cached
+   * per structure so changing the range does not recompute potentials
+   */
+  private getSurfacePropertyValues(
+    structure: Structure,
+    property: SurfaceProperty,
+    options: SurfaceColoringOptions
+  ): Promise<Float32Array> {
+    const key = [
+      property,
+      property === 'electrostatic' ? options.electrostatics ?? 'coulomb' : '',
+      property === 'conservation' ? `${options.chainId ?? ''}:${(options.homologs ?? []).join(',')}` : '',
+    ].join('|');
+
+    const cache = this.surfaceValues.get(structure) ?? new Map<string, Promise<Float32Array>>();
+    this.surfaceValues.set(structure, cache);
+
+    let values = cache.get(key);
+    if (!values) {
+      values = this.computeSurfacePropertyValues(structure, property, options);
+      cache.set(key, values);
+      values.catch(() => cache.delete(key));
+    }
+    return values;
+  }
+
+  /**
+   * Helper: Compute a property for every atom of a structure
+   */
+  private async computeSurfacePropertyValues(
+    structure: Structure,
+    property: SurfaceProperty,
+    options: SurfaceColoringOptions
+  ): Promise<Float32Array> {
+    const { atoms, elements } = this.extractAtoms(structure);
+    const values = new Float32Array(elements.reduce((max, element) => Math.max(max, element + 1), 0)).fill(NaN);
+
+    if (property === 'hydrophobicity') {
+      hydrophobicityValues(atoms).forEach((value, i) => (values[elements[i]] = value));
+    } else if (property === 'electrostatic') {
+      const solute = atoms.flatMap((atom, i) => (isWater(atom) ? [] : [i]));
+      const potential = await getElectrostaticsService().computePotential(
+        chargedAtoms(solute.map((i) => atoms[i])),
+        options.electrostatics ?? 'coulomb'
+      );
+      solute.forEach((atomIndex, i) => (values[elements[atomIndex]] = potential[i]));
+    } else {
+      if (!options.homologs?.length) {
+        throw new Error('Conservation coloring needs homologous sequences');
+      }
+      const chains = this.extractPolymerChains(structure);
+      const chain = options.chainId ? chains.find((c) => c.chainId === options.chainId) : chains[0];
+      if (!chain) {
+        throw new Error(`Chain ${options.chainId} not found`);
+      }
+
+      const conservation = sequenceConservation(chain.sequence, options.homologs);
+      const byResidue = new Map(chain.residueIds.map((residueSeq, i) => [residueSeq, conservation[i]]));
+      atoms.forEach((atom, i) => {
+        if (atom.chain === chain.chainId && !atom.isLigand) values[elements[i]] = byResidue.get(atom.residueSeq) ?? NaN;
+      });
+    }
+
+    return values;
+  }
+
+  /**
+   * Color residues by arbitrary per-residue values keyed by residueDataKey
+   * (chain and auth residue number) through a gradient
+   * @returns Number of displayed residues that have a value
+   */
+  public async setResidueDataColoring(
+    values: Map<string, number>,
+    options: ResidueDataColoringOptions = {}
+  ): Promise<number> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
+
+    try {
+      await this.applyResidueDataColoring(values, options);
+      this.residueData = { values, options };
+      this.colorScheme = 'residue-data';
+
+      const residues = new Set(this.getAtoms().map((atom) => residueDataKey(atom.chain, atom.residueSeq)));
+      const matched = Array.from(values.keys()).filter((key) => residues.has(key)).length;
+
+      this.emit('color-scheme-changed', 'residue-data');
+      console.info(`[MolstarService] Applied residue data coloring to ${matched} residues`);
+      return matched;
+    } catch (error) {
+      console.error('[MolstarService] Residue data coloring failed:', error);
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mean B-factor or occupancy of each residue of the first loaded structure
+   */
+  public getResidueData(source: ResidueDataSource): Map<string, number> {
+    return residueValuesFromAtoms(this.getAtoms(), source);
+  }
+
+  /**
+   * Helper: Color every representation by per-residue values
+   */
+  private async applyResidueDataColoring(
+    values: Map<string, number>,
+    options: ResidueDataColoringOptions
+  ): Promise<void> {
+    const plugin = this.viewer!.plugin;
+    const state = plugin.state.data;
+
+    const registry = plugin.representation.structure.themes.colorThemeRegistry;
+    if (!registry.has(ResidueDataColorThemeProvider)) {
+      registry.add(ResidueDataColorThemeProvider);
+    }
+
+    const params = {
+      gradient: options.gradient ?? 'blue-white-red',
+      domain: options.range ?? residueDataRange(values),
+      label: options.label ?? 'Residue data',
+      values: Object.fromEntries(values),
+    };
+
+    const reprs = state
+      .selectQ((q) => q.ofTransformer(StateTransforms.Representation.StructureRepresentation3D))
+      .filter((cell) => !this.isLigandCell(cell));
+
+    for (const repr of reprs) {
+      const update = state.build().to(repr).update({
+        colorTheme: { name: ResidueDataColorThemeProvider.name, params },
+      } as any);
+      await PluginCommands.State.Update(plugin, { state, tree: update });
+    }
+  }
+
+  /**
+   * Color residues by RMSF from trajectory analysis
    */
-  public async applyRepresentation(options: RepresentationOptions): Promise<void> {
+  public async setRMSFColoring(
+    residues: Array<{ chainId: string; residueSeq: number; value: number }>,
+    domain?: [number, number]
+  ): Promise<void> {
     if (!this.viewer) {
       throw new Error('Mol* viewer not initialized');
     }
 
-    const startTime = performance.now();
-
     try {
-      const plugin = this.viewer.plugin;
-      const state = plugin.state.data;
-
-      // Remove existing representations
-      const reprs = state.selectQ((q) =>
-        q.ofTransformer(StateTransforms.Representation.StructureRepresentation3D)
-      );
-
-      for (const repr of reprs) {
-        await PluginCommands.State.RemoveObject(plugin, { state, ref: repr.transform.ref });
-      }
-
-      // Get structure
-      const structures = state.selectQ((q) =>
-        q.ofTransformer(StateTransforms.Model.StructureFromModel)
-      );
-
-      if (structures.length === 0) {
-        throw new Error('No structure loaded');
-      }
-
-      // Map representation types
-      type MolstarBuiltInType = 'cartoon' | 'ball-and-stick' | 'spacefill' | 'molecular-surface' | 'backbone' | 'point' | 'putty';
-      const typeMap: Record<MolstarRepresentationType, MolstarBuiltInType> = {
-        cartoon: 'cartoon',
-        'ball-and-stick': 'ball-and-stick',
-        spacefill: 'spacefill',
-        surface: 'molecular-surface',
-        backbone: 'backbone',
-        point: 'point',
-        putty: 'putty',
-      };
-
-      // Create new representation
-      await plugin.builders.structure.representation.addRepresentation(structures[0], {
-        type: typeMap[options.type] ?? 'cartoon',
-        color: options.colorScheme || 'chain-id',
-        quality: options.quality || 'auto',
-        alpha: options.alpha ?? 1.0,
-      } as any);
-
-      const renderTime = performance.now() - startTime;
-      this.performanceMetrics.renderTime = renderTime;
-
-      this.emit('representation-changed', options.type);
+      const max = residues.reduce((acc, residue) => Math.max(acc, residue.value), 0);
+      await this.applyResidueValueColoring(residues, domain ?? [0, max || 1]);
 
-      console.info(`[MolstarService] Representation applied in ${renderTime.toFixed(2)}ms`);
+      console.info(`[MolstarService] Applied RMSF coloring to ${residues.length} residues`);
     } catch (error) {
-      console.error('[MolstarService] Representation change failed:', error);
+      console.error('[MolstarService] RMSF coloring failed:', error);
       this.emit('error', error as Error);
       throw error;
     }
   }
 
   /**
-   * Change color scheme
+   * Helper: Color representations (under root, default all) by per-residue values in Å
    */
-  public async setColorScheme(scheme: MolstarColorScheme): Promise<void> {
-    if (!this.viewer) {
-      throw new Error('Mol* viewer not initialized');
-    }
+  private async applyResidueValueColoring(
+    residues: Array<{ chainId: string; residueSeq: number; value: number }>,
+    domain: [number, number],
+    root?: string
+  ): Promise<void> {
+    const plugin = this.viewer!.plugin;
+    const state = plugin.state.data;
 
-    try {
-      const plugin = this.viewer.plugin;
-      const state = plugin.state.data;
+    const registry = plugin.representation.structure.themes.colorThemeRegistry;
+    if (!registry.has(RMSFColorThemeProvider)) {
+      registry.add(RMSFColorThemeProvider);
+    }
 
-      const reprs = state.selectQ((q) =>
-        q.ofTransformer(StateTransforms.Representation.StructureRepresentation3D)
-      );
+    const values: Record<string, number> = {};
+    for (const residue of residues) {
+      values[rmsfResidueKey(residue.chainId, residue.residueSeq)] = residue.value;
+    }
 
-      for (const repr of reprs) {
-        const update = state.build().to(repr).update({ colorTheme: { name: scheme } } as any);
-        await PluginCommands.State.Update(plugin, { state, tree: update });
-      }
+    const reprs = state.selectQ((q) =>
+      q.ofTransformer(StateTransforms.Representation.StructureRepresentation3D, root)
+    );
 
-      this.emit('color-scheme-changed', scheme);
-    } catch (error) {
-      console.error('[MolstarService] Color scheme change failed:', error);
-      this.emit('error', error as Error);
-      throw error;
+    for (const repr of reprs) {
+      const update = state.build().to(repr).update({
+        colorTheme: {
+          name: RMSFColorThemeProvider.name,
+          params: { domain, values },
+        },
+      } as any);
+      await PluginCommands.State.Update(plugin, { state, tree: update });
     }
   }
 
   /**
-   * Select atoms/residues/chains with optional green tint
+   * DSSP assignment of the first displayed structure; recomputed in a worker
+   * whenever the structure or trajectory frame changes
    */
-  public async select(query: SelectionQuery, applyGreenTint: boolean = true): Promise<void> {
+  public async getSecondaryStructure(): Promise<SecondaryStructureResidue[]> {
     if (!this.viewer) {
-      throw new Error('Mol* viewer not initialized');
+      return [];
+    }
+
+    const structure = this.getLoadedStructures()[0];
+    if (!structure) {
+      return [];
+    }
+
+    if (this.secondaryStructure?.structure !== structure) {
+      const backbone = backboneResidues(this.extractBackboneAtoms(structure));
+      const residues = getSecondaryStructureService()
+        .assign(backbone)
+        .then((codes) => {
+          const assigned = backbone.map((residue, i) => ({
+            chainId: residue.chainId,
+            residueSeq: residue.residueSeq,
+            code: codes[i],
+          }));
+          this.emit('secondary-structure-changed', assigned);
+          return assigned;
+        });
+
+      this.secondaryStructure = { structure, residues };
+      residues.catch(() => {
+        if (this.secondaryStructure?.residues === residues) this.secondaryStructure = null;
+      });
     }
 
-    try {
-      const plugin = this.viewer.plugin;
-      const state = plugin.state.data;
+    return this.secondaryStructure.residues;
+  }
 
-      // Get structure reference
-      const structures = state.selectQ((q) =>
-        q.ofTransformer(StateTransforms.Model.StructureFromModel)
-      );
+  /**
+   * Helper: Whether the secondary-structure scheme needs our DSSP assignment:
+   * the file has no HELIX/SHEET records, or trajectory frames move the backbone
+   */
+  private usesComputedSecondaryStructure(): boolean {
+    if (this.trajectoryRefs) return true;
+    const model = this.getStructureModel();
+    return !!model && !ModelSecondaryStructure.Provider.get(model);
+  }
 
-      if (structures.length === 0) {
-        throw new Error('No structure loaded');
-      }
+  /**
+   * Helper: Color representations by the DSSP assignment of the displayed structure
+   */
+  private async applySecondaryStructureColoring(): Promise<void> {
+    const plugin = this.viewer!.plugin;
+    const state = plugin.state.data;
 
-      // Build Mol* selection query based on query type
-      // Note: Using any cast due to molstar API type complexities
-      const selectionManager = plugin.managers.structure.selection as any;
-      let expression: any;
+    const registry = plugin.representation.structure.themes.colorThemeRegistry;
+    if (!registry.has(DSSPColorThemeProvider)) {
+      registry.add(DSSPColorThemeProvider);
+    }
 
-      switch (query.type) {
-        case 'atom':
-          if (query.atomIds && query.atomIds.length > 0) {
-            expression = `@${query.atomIds.join(',')}`;
-          }
-          break;
+    const values: Record<string, SecondaryStructureResidue['code']> = {};
+    for (const residue of await this.getSecondaryStructure()) {
+      values[dsspResidueKey(residue.chainId, residue.residueSeq)] = residue.code;
+    }
 
-        case 'residue':
-          if (query.residueIds && query.residueIds.length > 0) {
-            expression = `${query.residueIds.join(',')}`;
-          }
-          break;
+    const reprs = state
+      .selectQ((q) => q.ofTransformer(StateTransforms.Representation.StructureRepresentation3D))
+      .filter((cell) => !this.isLigandCell(cell));
 
-        case 'chain':
-          if (query.chainIds && query.chainIds.length > 0) {
-            expression = `chain ${query.chainIds.join(',')}`;
-          }
-          break;
+    for (const repr of reprs) {
+      const update = state.build().to(repr).update({
+        colorTheme: {
+          name: DSSPColorThemeProvider.name,
+          params: { values },
+        },
+      } as any);
+      await PluginCommands.State.Update(plugin, { state, tree: update });
+    }
+  }
 
-        default:
-          throw new Error(`Unknown selection type: ${query.type}`);
-      }
+  /**
+   * Select atoms/residues/chains, or a selection language expression, with optional green tint
+   * @returns Number of selected atoms
+   */
+  public async select(query: SelectionQuery, applyGreenTint: boolean = true): Promise<number> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
 
-      if (expression && selectionManager.fromExpression) {
-        await selectionManager.fromExpression(expression);
-      }
+    try {
+      // Flat id queries and expressions share one parser and evaluator
+      const loci = this.selectMatching(compileSelection(selectionFromQuery(query)));
+      const count = loci.reduce((sum, l) => sum + StructureElement.Loci.size(l), 0);
 
       // Apply green tint to selection if requested
       if (applyGreenTint) {
@@ -445,6 +1522,7 @@ export class MolstarService {
       }
 
       this.emit('selection-changed', query);
+      return count;
     } catch (error) {
       console.error('[MolstarService] Selection failed:', error);
       this.emit('error', error as Error);
@@ -452,6 +1530,47 @@ export class MolstarService {
     }
   }
 
+  /**
+   * Helper: Replace the Mol* selection with the atoms a query matches in each loaded structure
+   */
+  private selectMatching(expression: Expression): StructureElement.Loci[] {
+    const structures = this.getLoadedStructures();
+    if (structures.length === 0) {
+      throw new Error('No structure loaded');
+    }
+
+    const selectionManager = this.viewer!.plugin.managers.structure.selection;
+    selectionManager.clear();
+
+    const selected: StructureElement.Loci[] = [];
+    for (const structure of structures) {
+      if (!structure) continue;
+
+      const selection = Script.getStructureSelection(expression, structure);
+      if (StructureSelection.isEmpty(selection)) continue;
+
+      const loci = StructureSelection.toLociWithSourceUnits(selection);
+      selectionManager.fromLoci('add', loci);
+      selected.push(loci);
+    }
+    return selected;
+  }
+
+  /**
+   * Helper: Selection language tree for residues grouped by chain
+   */
+  private residueSelectionNode(residues: ResidueSelection[]): SelectionNode {
+    // One `chain X and resi ...` clause per chain
+    const clauses = residues.map((sel): SelectionNode => ({
+      kind: 'and',
+      left: { kind: 'property', property: 'chain', values: [sel.chainId] },
+      right: { kind: 'property', property: 'resi', values: sel.residueIds.map((id) => ({ from: id, to: id })) },
+    }));
+    return clauses.length > 0
+      ? clauses.reduce((left, right) => ({ kind: 'or', left, right }))
+      : { kind: 'keyword', keyword: 'none' };
+  }
+
   /**
    * Apply green tint to current selection using SelectionHighlighter
    */
@@ -558,6 +1677,25 @@ export class MolstarService {
     };
   }
 
+  /**
+   * Move the camera to a snapshot, animated over durationMs
+   */
+  public async setCameraSnapshot(snapshot: CameraSnapshot, durationMs: number = 0): Promise<void> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
+
+    await PluginCommands.Camera.SetSnapshot(this.viewer.plugin, {
+      snapshot: {
+        position: Vec3.create(...snapshot.position),
+        target: Vec3.create(...snapshot.target),
+        up: Vec3.create(...snapshot.up),
+        fov: snapshot.fov,
+      },
+      durationMs,
+    });
+  }
+
   /**
    * Export image
    */
@@ -770,44 +1908,216 @@ export class MolstarService {
   }
 
   /**
-   * Highlight specified residues visually
-   * @param selection Residue selection to highlight
-   * @performance <100ms
+   * Polymer chain sequences of every loaded structure, by auth chain id and residue number
    */
-  public async highlightResidues(selection: ResidueSelection[]): Promise<void> {
+  public getStructureSequences(): StructureSequence[] {
+    if (!this.viewer) {
+      return [];
+    }
+
+    return this.getLoadedStructures().map((structure, i) => ({
+      label: structure?.models[0]?.entryId || `Structure ${i + 1}`,
+      chains: structure ? this.extractPolymerChains(structure) : [],
+    }));
+  }
+
+  /**
+   * Atoms of the first loaded structure with auth chain ids and residue numbers;
+   * HETATM records are flagged as ligands
+   */
+  public getAtoms(): PDBAtom[] {
     if (!this.viewer) {
       throw new Error('Mol* viewer not initialized');
     }
 
-    const startTime = performance.now();
+    const structure = this.getLoadedStructures()[0];
+    if (!structure) {
+      throw new Error('No structure loaded');
+    }
+
+    return this.extractAtoms(structure).atoms;
+  }
+
+  /**
+   * Select residues across the loaded structures, e.g. one aligned column
+   */
+  public async highlightStructureResidues(residues: StructureResidue[]): Promise<void> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
 
     try {
-      const plugin = this.viewer.plugin;
-      const state = plugin.state.data;
+      const selectionManager = this.viewer.plugin.managers.structure.selection;
+      selectionManager.clear();
+
+      this.getLoadedStructures().forEach((structure, i) => {
+        const targets = residues.filter((residue) => residue.structureIndex === i);
+        if (!structure || targets.length === 0) return;
+
+        const expression = MS.struct.combinator.merge(
+          targets.map((residue) =>
+            MS.struct.generator.atomGroups({
+              'chain-test': MS.core.rel.eq([MS.struct.atomProperty.macromolecular.auth_asym_id(), residue.chainId]),
+              'residue-test': MS.core.rel.eq([MS.struct.atomProperty.macromolecular.auth_seq_id(), residue.residueSeq]),
+            })
+          )
+        );
+        const selection = Script.getStructureSelection(expression, structure);
+        selectionManager.fromLoci('add', StructureSelection.toLociWithSourceUnits(selection));
+      });
+    } catch (error) {
+      console.error('[MolstarService] highlightStructureResidues failed:', error);
+      throw error;
+    }
+  }
 
-      // Clear existing highlights first
-      await this.clearSelectionHighlight();
+  /**
+   * Helper: Atoms of a structure, with each atom's element index in its model
+   */
+  private extractAtoms(structure: Structure): { atoms: PDBAtom[]; elements: number[] } {
+    const atoms: PDBAtom[] = [];
+    const elements: number[] = [];
+    for (const unit of structure.units) {
+      if (!Unit.isAtomic(unit)) continue;
+
+      const { atoms: atomTable, residues, chains, residueAtomSegments, chainAtomSegments } = unit.model.atomicHierarchy;
+      const { atomId, occupancy, B_iso_or_equiv } = unit.model.atomicConformation;
+      const conformation = unit.conformation;
+
+      for (let i = 0; i < unit.elements.length; i++) {
+        const element = unit.elements[i];
+        const residueIndex = residueAtomSegments.index[element];
+
+        elements.push(element);
+        atoms.push({
+          serial: atomId.value(element),
+          name: atomTable.label_atom_id.value(element),
+          element: atomTable.type_symbol.value(element),
+          residue: atomTable.label_comp_id.value(element),
+          residueSeq: residues.auth_seq_id.value(residueIndex),
+          chain: chains.auth_asym_id.value(chainAtomSegments.index[element]),
+          x: conformation.x(element),
+          y: conformation.y(element),
+          z: conformation.z(element),
+          occupancy: occupancy.value(element),
+          tempFactor: B_iso_or_equiv.value(element),
+          isLigand: residues.group_PDB.value(residueIndex) === 'HETATM',
+        });
+      }
+    }
 
-      // Get structure
-      const structures = state.selectQ((q) =>
-        q.ofTransformer(StateTransforms.Model.StructureFromModel)
-      );
+    return { atoms, elements };
+  }
 
-      if (structures.length === 0) {
-        throw new Error('No structure loaded');
+  /**
+   * Helper: Displayed structure of each loaded model, after any conformation transform
+   */
+  private getLoadedStructures(): Array<Structure | undefined> {
+    const state = this.viewer!.plugin.state.data;
+    return state
+      .selectQ((q) => q.ofTransformer(StateTransforms.Model.StructureFromModel))
+      .filter((cell) => !this.isLigandCell(cell))
+      .map((cell) => state.cells.get(StateTree.getDecoratorRoot(state.tree, cell.transform.ref))?.obj?.data as Structure | undefined);
+  }
+
+  /**
+   * Helper: Backbone atoms in residue order, first copy of each residue only
+   */
+  private extractBackboneAtoms(structure: Structure): BackboneAtom[] {
+    const backbone: BackboneAtom[] = [];
+    const seen = new Set<number>();
+
+    for (const unit of structure.units) {
+      if (!Unit.isAtomic(unit)) continue;
+
+      const { atoms, residues, chains, residueAtomSegments, chainAtomSegments } = unit.model.atomicHierarchy;
+      const conformation = unit.conformation;
+      const unitResidues = new Set<number>();
+
+      for (let i = 0; i < unit.elements.length; i++) {
+        const element = unit.elements[i];
+        const residueIndex = residueAtomSegments.index[element];
+        if (seen.has(residueIndex)) continue;
+        unitResidues.add(residueIndex);
+
+        const name = atoms.label_atom_id.value(element);
+        if (name !== 'N' && name !== 'CA' && name !== 'C' && name !== 'O' && name !== 'H') continue;
+
+        backbone.push({
+          chainId: chains.auth_asym_id.value(chainAtomSegments.index[element]),
+          residueSeq: residues.auth_seq_id.value(residueIndex),
+          insertionCode: residues.pdbx_PDB_ins_code.value(residueIndex),
+          residueName: atoms.label_comp_id.value(element),
+          name,
+          x: conformation.x(element),
+          y: conformation.y(element),
+          z: conformation.z(element),
+        });
       }
 
-      // Build selection expression for each chain
-      for (const sel of selection) {
-        const residueList = sel.residueIds.join(',');
-        const expression = `chain ${sel.chainId} and resi ${residueList}`;
+      unitResidues.forEach((residueIndex) => seen.add(residueIndex));
+    }
+
+    return backbone;
+  }
 
-        // Use MolStar's selection API
-        const selectionManager = plugin.managers.structure.selection as any;
-        if (selectionManager.fromExpression) {
-          await selectionManager.fromExpression(expression);
+  /**
+   * Helper: Sequences of polymer chains, first copy of each residue only
+   */
+  private extractPolymerChains(structure: Structure): SequenceData['chains'] {
+    const chains = new Map<string, SequenceData['chains'][number]>();
+    const seen = new Set<number>();
+
+    for (const unit of structure.units) {
+      if (!Unit.isAtomic(unit)) continue;
+
+      const { atoms, residues, chains: chainTable, residueAtomSegments, chainAtomSegments } = unit.model.atomicHierarchy;
+      const { entities } = unit.model;
+
+      for (let i = 0; i < unit.elements.length; i++) {
+        const element = unit.elements[i];
+        const residueIndex = residueAtomSegments.index[element];
+        if (seen.has(residueIndex)) continue;
+        seen.add(residueIndex);
+
+        const chainIndex = chainAtomSegments.index[element];
+        const entityIndex = entities.getEntityIndex(chainTable.label_entity_id.value(chainIndex));
+        if (entities.data.type.value(entityIndex) !== 'polymer') continue;
+
+        const chainId = chainTable.auth_asym_id.value(chainIndex);
+        let chain = chains.get(chainId);
+        if (!chain) {
+          chain = { chainId, sequence: '', residueIds: [], residueNames: [] };
+          chains.set(chainId, chain);
         }
+
+        const residueName = atoms.label_comp_id.value(element);
+        chain.sequence += residueCode(residueName);
+        chain.residueIds.push(residues.auth_seq_id.value(residueIndex));
+        chain.residueNames.push(residueName);
       }
+    }
+
+    return Array.from(chains.values());
+  }
+
+  /**
+   * Highlight specified residues visually
+   * @param selection Residue selection to highlight
+   * @performance <100ms
+   */
+  public async highlightResidues(selection: ResidueSelection[]): Promise<void> {
+    if (!this.viewer) {
+      throw new Error('Mol* viewer not initialized');
+    }
+
+    const startTime = performance.now();
+
+    try {
+      // Clear existing highlights first
+      await this.clearSelectionHighlight();
+
+      this.selectMatching(compileSelection(this.residueSelectionNode(selection)));
 
       // Apply green highlight to selection
       await this.applySelectionHighlight();
@@ -838,36 +2148,16 @@ export class MolstarService {
     const { duration = 500, radius } = options;
 
     try {
-      const plugin = this.viewer.plugin;
-      const state = plugin.state.data;
-
-      // Get structure
-      const structures = state.selectQ((q) =>
-        q.ofTransformer(StateTransforms.Model.StructureFromModel)
-      );
-
-      if (structures.length === 0) {
-        throw new Error('No structure loaded');
-      }
-
-      // Build selection expression
-      const expressions = residues.map(sel => {
-        const residueList = sel.residueIds.join(',');
-        return `chain ${sel.chainId} and resi ${residueList}`;
-      });
-      const fullExpression = expressions.join(' or ');
-
-      // Use MolStar's camera focus API
-      const selectionManager = plugin.managers.structure.selection as any;
-      if (selectionManager.fromExpression) {
-        await selectionManager.fromExpression(fullExpression);
+      // Select the residues, then frame them with optional extra radius
+      const loci = this.selectMatching(compileSelection(this.residueSelectionNode(residues)));
+      if (loci.length === 0) {
+        throw new Error('No matching residues');
       }
 
-      // Focus camera on selection with animation
-      await PluginCommands.Camera.Focus(plugin, {
+      this.viewer.plugin.managers.camera.focusLoci(loci, {
         durationMs: duration,
-        radius: radius,
-      } as any);
+        ...(radius !== undefined && { extraRadius: radius }),
+      });
 
       const elapsed = performance.now() - startTime;
       console.info(`[MolstarService] focusOnResidues setup completed in ${elapsed.toFixed(2)}ms`);
@@ -878,7 +2168,7 @@ export class MolstarService {
   }
 
   /**
-   * Detect molecular interactions (H-bonds, salt bridges, hydrophobic, pi-pi stacking)
+   * Detect molecular interactions (H-bonds, salt bridges, hydrophobic, pi-pi and cation-pi stacking)
    * @param options Interaction detection options
    * @returns Array of detected interactions
    * @performance <100ms
@@ -894,12 +2184,8 @@ export class MolstarService {
       detectSaltBridges = true,
       detectHydrophobic = true,
       detectPiPi = false,
-      distanceCutoffs = {
-        hbond: 3.5,
-        saltBridge: 4.0,
-        hydrophobic: 5.0,
-        piPi: 6.0,
-      },
+      detectCationPi = detectPiPi,
+      distanceCutoffs = {},
     } = options;
 
     try {
@@ -920,46 +2206,15 @@ export class MolstarService {
         throw new Error('No structure data available');
       }
 
-      const interactions: Interaction[] = [];
-      let interactionId = 0;
-
-      // Simplified interaction detection
-      // In production, would use MolStar's StructureQuery API for more accurate detection
-      const units = structureData.units || [];
-
-      for (let i = 0; i < units.length; i++) {
-        const unit1 = units[i];
-        if (!unit1.model || !unit1.model.atomicHierarchy) continue;
-
-        const atoms1 = unit1.model.atomicHierarchy.atoms;
-        const residues1 = unit1.model.atomicHierarchy.residues;
-
-        for (let j = i; j < units.length; j++) {
-          const unit2 = units[j];
-          if (!unit2.model || !unit2.model.atomicHierarchy) continue;
-
-          // Detect H-bonds (N-O, O-H pairs)
-          if (detectHBonds) {
-            // Simplified: would use proper geometry and electronegativity checks
-            // This is a placeholder implementation
-          }
-
-          // Detect salt bridges (charged residue pairs)
-          if (detectSaltBridges) {
-            // Simplified: check for charged residues (ARG, LYS, ASP, GLU) within cutoff
-          }
-
-          // Detect hydrophobic interactions
-          if (detectHydrophobic) {
-            // Simplified: check for hydrophobic residues in close proximity
-          }
-
-          // Detect pi-pi stacking
-          if (detectPiPi) {
-            // Simplified: check for aromatic residues (PHE, TRP, TYR, HIS)
-          }
-        }
-      }
+      const atoms = this.extractInteractionAtoms(structureData);
+      const interactions = detectNonCovalentInteractions(atoms, {
+        detectHBonds,
+        detectSaltBridges,
+        detectHydrophobic,
+        detectPiPi,
+        detectCationPi,
+        cutoffs: distanceCutoffs,
+      });
 
       const duration = performance.now() - startTime;
       console.info(`[MolstarService] detectInteractions completed in ${duration.toFixed(2)}ms, found ${interactions.length} interactions`);
@@ -971,6 +2226,41 @@ export class MolstarService {
     }
   }
 
+  /**
+   * Helper: Flatten atomic units into atom records for interaction detection
+   */
+  private extractInteractionAtoms(structure: Structure): InteractionAtom[] {
+    const atoms: InteractionAtom[] = [];
+
+    for (const unit of structure.units) {
+      if (!Unit.isAtomic(unit)) continue;
+
+      const { atoms: atomTable, residues, chains, residueAtomSegments, chainAtomSegments } =
+        unit.model.atomicHierarchy;
+      const conformation = unit.conformation;
+
+      for (let i = 0; i < unit.elements.length; i++) {
+        const element = unit.elements[i];
+        const residueIndex = residueAtomSegments.index[element];
+        const chainIndex = chainAtomSegments.index[element];
+        const residueSeq =
+          residues.label_seq_id.value(residueIndex) || residues.auth_seq_id.value(residueIndex);
+
+        atoms.push({
+          chainId: chains.label_asym_id.value(chainIndex) || 'A',
+          residueSeq: residueSeq || 0,
+          residueName: atomTable.label_comp_id.value(element) || 'UNK',
+          atomName: atomTable.label_atom_id.value(element),
+          element: atomTable.type_symbol.value(element),
+          position: [conformation.x(element), conformation.y(element), conformation.z(element)],
+          isHet: residues.group_PDB.value(residueIndex) === 'HETATM',
+        });
+      }
+    }
+
+    return atoms;
+  }
+
   /**
    * Visualize detected interactions in 3D viewport
    * @param interactions Array of interactions to visualize
@@ -1002,6 +2292,7 @@ export class MolstarService {
         'salt-bridge': Color.fromRgb(255, 0, 255), // Magenta
         'hydrophobic': Color.fromRgb(0, 255, 0), // Green
         'pi-pi': Color.fromRgb(0, 191, 255), // Deep sky blue
+        'cation-pi': Color.fromRgb(255, 140, 0), // Dark orange
       };
 
       // For each interaction, create a visual representation
@@ -1052,6 +2343,9 @@ export class MolstarService {
   public dispose(): void {
     const hadViewer = this.viewer !== null;
 
+    this.cameraSubscription?.unsubscribe();
+    this.cameraSubscription = null;
+
     if (this.viewer) {
       try {
         this.viewer.dispose();
@@ -1068,6 +2362,12 @@ export class MolstarService {
       this.viewer = null;
     }
 
+    this.trajectoryRefs = null;
+    this.structureRefs = null;
+    this.comparison = null;
+    this.confidenceTrim = null;
+    this.secondaryStructure = null;
+
     // Clear container reference but don't manipulate DOM directly
     // Let React handle the DOM cleanup to avoid conflicts
     this.container = null;
@@ -1774,6 +3074,18 @@ export class MolstarService {
     this.setupHoverDetection();
     this.setupSelectionTracking();
 
+    // Report camera moves
+    const camera = this.viewer.plugin.canvas3d?.camera;
+    if (camera) {
+      this.cameraSubscription?.unsubscribe();
+      this.cameraSubscription = camera.stateChanged.subscribe(() => {
+        const snapshot = this.getCameraSnapshot();
+        if (snapshot) {
+          this.emit('camera-changed', snapshot);
+        }
+      });
+    }
+
     // Monitor frame rate
     let frameCount = 0;
     let lastTime = performance.now();
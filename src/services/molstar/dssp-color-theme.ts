@@ -0,0 +1,88 @@
+/**
+ * MolStar DSSP Color Theme
+ *
+ * Colors residues by the DSSP assignment computed in the app rather than by
+ * the model's own secondary structure
+ * - Codes keyed by auth chain id and auth residue number
+ * - Same palette as Mol*'s secondary-structure theme
+ * - Residues without a code (ligands, water) are drawn grey
+ */
+
+import { Bond, StructureElement, StructureProperties } from 'molstar/lib/mol-model/structure';
+import type { Location } from 'molstar/lib/mol-model/location';
+import type { ColorTheme } from 'molstar/lib/mol-theme/color';
+import { ColorThemeCategory } from 'molstar/lib/mol-theme/color/categories';
+import { SecondaryStructureColors } from 'molstar/lib/mol-theme/color/secondary-structure';
+import type { ThemeDataContext } from 'molstar/lib/mol-theme/theme';
+import { Color } from 'molstar/lib/mol-util/color';
+import { ParamDefinition as PD } from 'molstar/lib/mol-util/param-definition';
+import type { SecondaryStructureCode } from '@/lib/dssp';
+
+const MissingColor = Color(0x808080);
+
+const CodeColors: Record<SecondaryStructureCode, Color> = {
+  H: SecondaryStructureColors.alphaHelix,
+  G: SecondaryStructureColors.threeTenHelix,
+  I: SecondaryStructureColors.piHelix,
+  E: SecondaryStructureColors.betaStrand,
+  B: SecondaryStructureColors.betaStrand,
+  T: SecondaryStructureColors.turn,
+  S: SecondaryStructureColors.bend,
+  '-': SecondaryStructureColors.coil,
+};
+
+export const DSSPColorThemeParams = {
+  values: PD.Value<Record<string, SecondaryStructureCode>>({}, { isHidden: true }),
+};
+export type DSSPColorThemeParams = typeof DSSPColorThemeParams;
+
+/**
+ * Key used to look up a residue's code
+ */
+export function dsspResidueKey(chainId: string, residueSeq: number): string {
+  return `${chainId}:${residueSeq}`;
+}
+
+export function DSSPColorTheme(
+  _ctx: ThemeDataContext,
+  props: PD.Values<DSSPColorThemeParams>
+): ColorTheme<DSSPColorThemeParams> {
+  const location = StructureElement.Location.create();
+
+  const residueColor = (l: StructureElement.Location): Color => {
+    const key = dsspResidueKey(StructureProperties.chain.auth_asym_id(l), StructureProperties.residue.auth_seq_id(l));
+    const code = props.values[key];
+    return code === undefined ? MissingColor : CodeColors[code];
+  };
+
+  const color = (l: Location): Color => {
+    if (StructureElement.Location.is(l)) {
+      return residueColor(l);
+    }
+    if (Bond.isLocation(l)) {
+      location.structure = l.aStructure;
+      location.unit = l.aUnit;
+      location.element = l.aUnit.elements[l.aIndex];
+      return residueColor(location);
+    }
+    return MissingColor;
+  };
+
+  return {
+    factory: DSSPColorTheme,
+    granularity: 'group',
+    color,
+    props,
+    description: 'Secondary structure assigned by DSSP from backbone hydrogen bonds.',
+  };
+}
+
+export const DSSPColorThemeProvider: ColorTheme.Provider<DSSPColorThemeParams, 'dssp-secondary-structure'> = {
+  name: 'dssp-secondary-structure',
+  label: 'Secondary Structure (DSSP)',
+  category: ColorThemeCategory.Residue,
+  factory: DSSPColorTheme,
+  getParams: () => DSSPColorThemeParams,
+  defaultValues: PD.getDefaultValues(DSSPColorThemeParams),
+  isApplicable: (ctx: ThemeDataContext) => !!ctx.structure,
+};
@@ -0,0 +1,65 @@
+/**
+ * MolStar pLDDT Color Theme
+ *
+ * Colors predicted models by per-residue confidence
+ * - pLDDT is read from the B-factor column, where AlphaFold stores it
+ * - Bands and colors follow the AlphaFold Database
+ */
+
+import { Bond, StructureElement, StructureProperties } from 'molstar/lib/mol-model/structure';
+import type { Location } from 'molstar/lib/mol-model/location';
+import type { ColorTheme } from 'molstar/lib/mol-theme/color';
+import { ColorThemeCategory } from 'molstar/lib/mol-theme/color/categories';
+import type { ThemeDataContext } from 'molstar/lib/mol-theme/theme';
+import { Color } from 'molstar/lib/mol-util/color';
+import { TableLegend } from 'molstar/lib/mol-util/legend';
+import { ParamDefinition as PD } from 'molstar/lib/mol-util/param-definition';
+import { PLDDT_BANDS, plddtBand } from '@/lib/alphafold';
+
+const MissingColor = Color(0xcccccc);
+
+export const PLDDTColorThemeParams = {};
+export type PLDDTColorThemeParams = typeof PLDDTColorThemeParams;
+
+export function PLDDTColorTheme(
+  _ctx: ThemeDataContext,
+  props: PD.Values<PLDDTColorThemeParams>
+): ColorTheme<PLDDTColorThemeParams> {
+  const bandColors = new Map(PLDDT_BANDS.map((band) => [band, Color.fromHexStyle(band.color)]));
+  const location = StructureElement.Location.create();
+
+  const atomColor = (l: StructureElement.Location): Color =>
+    bandColors.get(plddtBand(StructureProperties.atom.B_iso_or_equiv(l))) ?? MissingColor;
+
+  const color = (l: Location): Color => {
+    if (StructureElement.Location.is(l)) {
+      return atomColor(l);
+    }
+    if (Bond.isLocation(l)) {
+      location.structure = l.aStructure;
+      location.unit = l.aUnit;
+      location.element = l.aUnit.elements[l.aIndex];
+      return atomColor(location);
+    }
+    return MissingColor;
+  };
+
+  return {
+    factory: PLDDTColorTheme,
+    granularity: 'group',
+    color,
+    props,
+    description: 'Predicted model confidence (pLDDT) from the B-factor column.',
+    legend: TableLegend(PLDDT_BANDS.map((band) => [`${band.label} (≥ ${band.min})`, bandColors.get(band)!])),
+  };
+}
+
+export const PLDDTColorThemeProvider: ColorTheme.Provider<PLDDTColorThemeParams, 'plddt'> = {
+  name: 'plddt',
+  label: 'Confidence (pLDDT)',
+  category: ColorThemeCategory.Atom,
+  factory: PLDDTColorTheme,
+  getParams: () => PLDDTColorThemeParams,
+  defaultValues: PD.getDefaultValues(PLDDTColorThemeParams),
+  isApplicable: (ctx: ThemeDataContext) => !!ctx.structure,
+};
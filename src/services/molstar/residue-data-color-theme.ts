@@ -0,0 +1,80 @@
+/**
+ * MolStar Residue Data Color Theme
+ *
+ * Colors residues by arbitrary per-residue numbers (B-factor, occupancy,
+ * uploaded scores)
+ * - Values keyed by auth chain id and auth residue number
+ * - Gradient chosen from RESIDUE_DATA_GRADIENTS over the given domain
+ * - Residues without a value are drawn grey
+ */
+
+import { Bond, StructureElement, StructureProperties } from 'molstar/lib/mol-model/structure';
+import type { Location } from 'molstar/lib/mol-model/location';
+import type { ColorTheme } from 'molstar/lib/mol-theme/color';
+import { ColorThemeCategory } from 'molstar/lib/mol-theme/color/categories';
+import type { ThemeDataContext } from 'molstar/lib/mol-theme/theme';
+import { Color, ColorScale } from 'molstar/lib/mol-util/color';
+import { ParamDefinition as PD } from 'molstar/lib/mol-util/param-definition';
+import { RESIDUE_DATA_GRADIENTS, residueDataKey, type ResidueDataGradient } from '@/lib/residue-data';
+
+const MissingColor = Color(0xcccccc);
+
+export const ResidueDataColorThemeParams = {
+  gradient: PD.Select<ResidueDataGradient>(
+    'blue-white-red',
+    Object.entries(RESIDUE_DATA_GRADIENTS).map(([name, { label }]) => [name as ResidueDataGradient, label])
+  ),
+  domain: PD.Interval([0, 1], { step: 0.01 }, { description: 'Value range' }),
+  label: PD.Text('Residue data', { isHidden: true }),
+  values: PD.Value<Record<string, number>>({}, { isHidden: true }),
+};
+export type ResidueDataColorThemeParams = typeof ResidueDataColorThemeParams;
+
+export function ResidueDataColorTheme(
+  _ctx: ThemeDataContext,
+  props: PD.Values<ResidueDataColorThemeParams>
+): ColorTheme<ResidueDataColorThemeParams> {
+  const scale = ColorScale.create({
+    domain: props.domain,
+    listOrName: RESIDUE_DATA_GRADIENTS[props.gradient].colors.map((color) => Color.fromHexStyle(color)),
+  });
+  const location = StructureElement.Location.create();
+
+  const residueColor = (l: StructureElement.Location): Color => {
+    const key = residueDataKey(StructureProperties.chain.auth_asym_id(l), StructureProperties.residue.auth_seq_id(l));
+    const value = props.values[key];
+    return value === undefined ? MissingColor : scale.color(value);
+  };
+
+  const color = (l: Location): Color => {
+    if (StructureElement.Location.is(l)) {
+      return residueColor(l);
+    }
+    if (Bond.isLocation(l)) {
+      location.structure = l.aStructure;
+      location.unit = l.aUnit;
+      location.element = l.aUnit.elements[l.aIndex];
+      return residueColor(location);
+    }
+    return MissingColor;
+  };
+
+  return {
+    factory: ResidueDataColorTheme,
+    granularity: 'group',
+    color,
+    props,
+    description: `${props.label} per residue.`,
+    legend: scale.legend,
+  };
+}
+
+export const ResidueDataColorThemeProvider: ColorTheme.Provider<ResidueDataColorThemeParams, 'residue-data'> = {
+  name: 'residue-data',
+  label: 'Residue Data',
+  category: ColorThemeCategory.Residue,
+  factory: ResidueDataColorTheme,
+  getParams: () => ResidueDataColorThemeParams,
+  defaultValues: PD.getDefaultValues(ResidueDataColorThemeParams),
+  isApplicable: (ctx: ThemeDataContext) => !!ctx.structure,
+};
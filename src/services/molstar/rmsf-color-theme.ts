@@ -0,0 +1,81 @@
+/**
+ * MolStar RMSF Color Theme
+ *
+ * Colors residues by per-residue RMSF from trajectory analysis
+ * - Values keyed by auth chain id and auth residue number
+ * - Blue (rigid) to red (flexible) over the given domain
+ * - Residues without a value are drawn grey
+ */
+
+import { Bond, StructureElement, StructureProperties } from 'molstar/lib/mol-model/structure';
+import type { Location } from 'molstar/lib/mol-model/location';
+import type { ColorTheme } from 'molstar/lib/mol-theme/color';
+import { ColorThemeCategory } from 'molstar/lib/mol-theme/color/categories';
+import type { ThemeDataContext } from 'molstar/lib/mol-theme/theme';
+import { Color, ColorScale } from 'molstar/lib/mol-util/color';
+import { ParamDefinition as PD } from 'molstar/lib/mol-util/param-definition';
+
+const MissingColor = Color(0xcccccc);
+
+export const RMSFColorThemeParams = {
+  domain: PD.Interval([0, 3], { step: 0.1 }, { description: 'RMSF range in Å' }),
+  values: PD.Value<Record<string, number>>({}, { isHidden: true }),
+};
+export type RMSFColorThemeParams = typeof RMSFColorThemeParams;
+
+/**
+ * Key used to look up a residue's value
+ */
+export function rmsfResidueKey(chainId: string, residueSeq: number): string {
+  return `${chainId}:${residueSeq}`;
+}
+
+export function RMSFColorTheme(
+  _ctx: ThemeDataContext,
+  props: PD.Values<RMSFColorThemeParams>
+): ColorTheme<RMSFColorThemeParams> {
+  const scale = ColorScale.create({
+    reverse: true,
+    domain: props.domain,
+    listOrName: 'red-white-blue',
+  });
+  const location = StructureElement.Location.create();
+
+  const residueColor = (l: StructureElement.Location): Color => {
+    const key = rmsfResidueKey(StructureProperties.chain.auth_asym_id(l), StructureProperties.residue.auth_seq_id(l));
+    const value = props.values[key];
+    return value === undefined ? MissingColor : scale.color(value);
+  };
+
+  const color = (l: Location): Color => {
+    if (StructureElement.Location.is(l)) {
+      return residueColor(l);
+    }
+    if (Bond.isLocation(l)) {
+      location.structure = l.aStructure;
+      location.unit = l.aUnit;
+      location.element = l.aUnit.elements[l.aIndex];
+      return residueColor(location);
+    }
+    return MissingColor;
+  };
+
+  return {
+    factory: RMSFColorTheme,
+    granularity: 'group',
+    color,
+    props,
+    description: 'Per-residue RMSF from trajectory analysis.',
+    legend: scale.legend,
+  };
+}
+
+export const RMSFColorThemeProvider: ColorTheme.Provider<RMSFColorThemeParams, 'md-rmsf'> = {
+  name: 'md-rmsf',
+  label: 'RMSF (Trajectory)',
+  category: ColorThemeCategory.Residue,
+  factory: RMSFColorTheme,
+  getParams: () => RMSFColorThemeParams,
+  defaultValues: PD.getDefaultValues(RMSFColorThemeParams),
+  isApplicable: (ctx: ThemeDataContext) => !!ctx.structure,
+};
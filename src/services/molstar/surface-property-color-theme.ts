@@ -0,0 +1,80 @@
+/**
+ * MolStar Surface Property Color Theme
+ *
+ * Colors atoms by a computed surface property: electrostatic potential,
+ * hydrophobicity or conservation
+ * - Values indexed by the atom's element index in its model
+ * - Scale colors follow the property (red–white–blue for potential)
+ * - Atoms without a value (NaN) are drawn grey
+ */
+
+import { Bond, StructureElement } from 'molstar/lib/mol-model/structure';
+import type { Location } from 'molstar/lib/mol-model/location';
+import type { ColorTheme } from 'molstar/lib/mol-theme/color';
+import { ColorThemeCategory } from 'molstar/lib/mol-theme/color/categories';
+import type { ThemeDataContext } from 'molstar/lib/mol-theme/theme';
+import { Color, ColorScale } from 'molstar/lib/mol-util/color';
+import { ParamDefinition as PD } from 'molstar/lib/mol-util/param-definition';
+import { SURFACE_PROPERTY_SCALES, type SurfaceProperty } from '@/lib/surface-properties';
+
+const MissingColor = Color(0xcccccc);
+
+export const SurfacePropertyColorThemeParams = {
+  property: PD.Select<SurfaceProperty>('electrostatic', [
+    ['electrostatic', 'Electrostatic potential'],
+    ['hydrophobicity', 'Hydrophobicity'],
+    ['conservation', 'Conservation'],
+  ]),
+  domain: PD.Interval([-5, 5], { step: 0.1 }, { description: 'Color range' }),
+  values: PD.Value<ArrayLike<number>>([], { isHidden: true }),
+};
+export type SurfacePropertyColorThemeParams = typeof SurfacePropertyColorThemeParams;
+
+export function SurfacePropertyColorTheme(
+  _ctx: ThemeDataContext,
+  props: PD.Values<SurfacePropertyColorThemeParams>
+): ColorTheme<SurfacePropertyColorThemeParams> {
+  const scaleInfo = SURFACE_PROPERTY_SCALES[props.property];
+  const scale = ColorScale.create({
+    domain: props.domain,
+    listOrName: scaleInfo.colors.map((color) => Color.fromHexStyle(color)),
+  });
+  const location = StructureElement.Location.create();
+
+  const atomColor = (l: StructureElement.Location): Color => {
+    const value = props.values[l.element];
+    return value === undefined || Number.isNaN(value) ? MissingColor : scale.color(value);
+  };
+
+  const color = (l: Location): Color => {
+    if (StructureElement.Location.is(l)) {
+      return atomColor(l);
+    }
+    if (Bond.isLocation(l)) {
+      location.structure = l.aStructure;
+      location.unit = l.aUnit;
+      location.element = l.aUnit.elements[l.aIndex];
+      return atomColor(location);
+    }
+    return MissingColor;
+  };
+
+  return {
+    factory: SurfacePropertyColorTheme,
+    granularity: 'group',
+    color,
+    props,
+    description: `${scaleInfo.label}${scaleInfo.unit ? ` (${scaleInfo.unit})` : ''}.`,
+    legend: scale.legend,
+  };
+}
+
+export const SurfacePropertyColorThemeProvider: ColorTheme.Provider<SurfacePropertyColorThemeParams, 'surface-property'> = {
+  name: 'surface-property',
+  label: 'Surface Property',
+  category: ColorThemeCategory.Atom,
+  factory: SurfacePropertyColorTheme,
+  getParams: () => SurfacePropertyColorThemeParams,
+  defaultValues: PD.getDefaultValues(SurfacePropertyColorThemeParams),
+  isApplicable: (ctx: ThemeDataContext) => !!ctx.structure,
+};
@@ -0,0 +1,67 @@
+/**
+ * MolStar Trajectory Coordinates
+ *
+ * State transform that turns a window of decoded trajectory frames into a
+ * Mol* Coordinates object, so a topology model can be combined with frames
+ * streamed from the cache instead of a parsed coordinate file
+ */
+
+import { PluginStateObject, PluginStateTransform } from 'molstar/lib/mol-plugin-state/objects';
+import { Coordinates, Frame, Time } from 'molstar/lib/mol-model/structure/coordinates/coordinates';
+import { ParamDefinition as PD } from 'molstar/lib/mol-util/param-definition';
+import { Task } from 'molstar/lib/mol-task';
+import type { TrajectoryFrame } from '@/types/molstar';
+
+/**
+ * Coordinates built from in-memory frames (Å)
+ */
+export const CoordinatesFromFrames = PluginStateTransform.BuiltIn({
+  name: 'lab-coordinates-from-frames',
+  display: { name: 'Trajectory Frames', description: 'Coordinates from a window of cached trajectory frames.' },
+  from: PluginStateObject.Root,
+  to: PluginStateObject.Molecule.Coordinates,
+  params: {
+    label: PD.Text('Trajectory', { isHidden: true }),
+    atomCount: PD.Numeric(0, {}, { isHidden: true }),
+    timeStep: PD.Numeric(1, {}, { isHidden: true }), // ps
+    frames: PD.Value<TrajectoryFrame[]>([], { isHidden: true })
+  }
+})({
+  apply({ params }) {
+    return Task.create('Trajectory frames', async () => {
+      const { frames, atomCount, timeStep, label } = params;
+      if (frames.length === 0) {
+        throw new Error('No trajectory frames to display');
+      }
+
+      const molstarFrames: Frame[] = frames.map(frame => {
+        const x = new Float32Array(atomCount);
+        const y = new Float32Array(atomCount);
+        const z = new Float32Array(atomCount);
+        for (let i = 0; i < atomCount; i++) {
+          x[i] = frame.coordinates[i * 3];
+          y[i] = frame.coordinates[i * 3 + 1];
+          z[i] = frame.coordinates[i * 3 + 2];
+        }
+        return {
+          elementCount: atomCount,
+          time: Time(frame.timestamp ?? frame.index * timeStep, 'ps'),
+          x,
+          y,
+          z,
+          xyzOrdering: { isIdentity: true }
+        };
+      });
+
+      const coordinates = Coordinates.create(
+        molstarFrames,
+        Time(timeStep, 'ps'),
+        Time(frames[0].timestamp ?? 0, 'ps')
+      );
+      return new PluginStateObject.Molecule.Coordinates(coordinates, {
+        label,
+        description: `Frames ${frames[0].index + 1}-${frames[frames.length - 1].index + 1}`
+      });
+    });
+  }
+});
@@ -423,6 +423,35 @@ export async function fetchAlphaFold(
   }
 }
 
+/**
+ * Fetch the predicted aligned error (PAE) JSON of an AlphaFold prediction
+ */
+export async function fetchAlphaFoldPAE(
+  uniprotId: string,
+  options: PDBFetchOptions = {}
+): Promise<unknown> {
+  const { timeout = 10000 } = options;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const url = `${PDB_SOURCES.alphafold.base}/AF-${uniprotId}-F1-predicted_aligned_error_v4.json`;
+    const response = await fetch(url, { signal: controller.signal });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch AlphaFold PAE for ${uniprotId}: ${(error as Error).message}`
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
 /**
  * Validate PDB ID format
  */
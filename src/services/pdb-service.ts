@@ -19,6 +19,8 @@ import type {
   SearchFilters,
   SearchResult,
   CachedStructure,
+  CachedPAE,
+  PAEMatrix,
   AlphaFoldMetadata,
   PDBError,
   PDBService as IPDBService,
@@ -158,6 +160,31 @@ class PDBServiceImpl implements IPDBService {
     }
   }
 
+  /**
+   * Fetch the predicted aligned error of an AlphaFold prediction through the API route
+   */
+  async fetchAlphaFoldPAE(uniprotId: string): Promise<PAEMatrix> {
+    const normalizedId = uniprotId.toUpperCase();
+    const cacheKey = `AF-${normalizedId}-PAE`;
+
+    const cached = await this.getFromCache<CachedPAE>(cacheKey);
+    if (cached) {
+      return cached.pae;
+    }
+
+    const response = await fetch(`/api/pdb/alphafold/${normalizedId}?pae=true`);
+    if (!response.ok) {
+      throw this.createError('NOT_FOUND', `AlphaFold PAE for ${normalizedId} not found`);
+    }
+
+    const { size, values, max } = await response.json();
+    const pae: PAEMatrix = { size, values, max };
+
+    await this.putInCache({ id: cacheKey, pae, cachedAt: Date.now(), lastAccessed: Date.now() });
+
+    return pae;
+  }
+
   /**
    * Search structures by query
    */
@@ -362,7 +389,7 @@ class PDBServiceImpl implements IPDBService {
   /**
    * Cache operations
    */
-  private async getFromCache(pdbId: string): Promise<CachedStructure | null> {
+  private async getFromCache<T extends CachedStructure | CachedPAE = CachedStructure>(pdbId: string): Promise<T | null> {
     if (!this.db) await this.initializeDB();
     if (!this.db) return null;
 
@@ -372,7 +399,7 @@ class PDBServiceImpl implements IPDBService {
       const request = store.get(pdbId);
 
       request.onsuccess = () => {
-        const cached = request.result as CachedStructure | undefined;
+        const cached = request.result as T | undefined;
 
         if (!cached) {
           resolve(null);
@@ -387,7 +414,7 @@ class PDBServiceImpl implements IPDBService {
         }
 
         // Update last accessed time
-        this.updateLastAccessed(pdbId);
+        this.updateLastAccessed(cached);
         resolve(cached);
       };
 
@@ -409,6 +436,13 @@ class PDBServiceImpl implements IPDBService {
       lastAccessed: Date.now(),
     };
 
+    return this.putInCache(cached);
+  }
+
+  private async putInCache(cached: CachedStructure | CachedPAE): Promise<void> {
+    if (!this.db) await this.initializeDB();
+    if (!this.db) return;
+
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([CACHE_STORE_NAME], 'readwrite');
       const store = transaction.objectStore(CACHE_STORE_NAME);
@@ -432,14 +466,11 @@ class PDBServiceImpl implements IPDBService {
     });
   }
 
-  private async updateLastAccessed(pdbId: string): Promise<void> {
+  private async updateLastAccessed(cached: CachedStructure | CachedPAE): Promise<void> {
     if (!this.db) return;
 
-    const cached = await this.getFromCache(pdbId);
-    if (!cached) return;
-
     cached.lastAccessed = Date.now();
-    await this.saveToCache(this.cacheToStructure(cached));
+    await this.putInCache(cached);
   }
 
   private cacheToStructure(cached: CachedStructure): Structure {
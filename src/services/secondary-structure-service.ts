@@ -0,0 +1,121 @@
+/**
+ * Secondary Structure Service
+ *
+ * Runs DSSP assignment in a Web Worker so recomputing per trajectory frame
+ * does not block rendering; falls back to the main thread where workers are
+ * unavailable (SSR, tests)
+ */
+
+import { assignSecondaryStructure, type BackboneResidue, type SecondaryStructureCode } from '@/lib/dssp';
+import type { DSSPWorkerRequest, DSSPWorkerResponse } from '@/workers/dssp.worker';
+
+type WorkerFactory = () => Worker | null;
+
+interface PendingAssignment {
+  residues: BackboneResidue[];
+  resolve: (codes: SecondaryStructureCode[]) => void;
+  reject: (error: Error) => void;
+}
+
+function createDSSPWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  return new Worker(new URL('../workers/dssp.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Secondary Structure Service
+ */
+export class SecondaryStructureService {
+  private worker: Worker | null | undefined;
+  private pending = new Map<number, PendingAssignment>();
+  private nextId = 0;
+
+  constructor(private createWorker: WorkerFactory = createDSSPWorker) {}
+
+  /**
+   * DSSP code of each residue, in input order
+   */
+  async assign(residues: BackboneResidue[]): Promise<SecondaryStructureCode[]> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return assignSecondaryStructure(residues);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { residues, resolve, reject });
+      const request: DSSPWorkerRequest = { type: 'assign', id, residues };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Terminate the worker and reject assignments still running
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.pending.forEach(({ reject }) => reject(new Error('Secondary structure service disposed')));
+    this.pending.clear();
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker === undefined) {
+      try {
+        this.worker = this.createWorker();
+      } catch (error) {
+        console.warn('[SecondaryStructureService] Worker unavailable, assigning on the main thread:', error);
+        this.worker = null;
+      }
+      this.worker?.addEventListener('message', (event: MessageEvent<DSSPWorkerResponse>) => this.handleResponse(event.data));
+      this.worker?.addEventListener('error', (event) => this.handleWorkerFailure(event));
+      this.worker?.addEventListener('messageerror', (event) => this.handleWorkerFailure(event));
+    }
+    return this.worker;
+  }
+
+  /**
+   * A worker that failed to load or crashed never answers, so drop it and
+   * finish its assignments, and any later ones, on the main thread
+   */
+  private handleWorkerFailure(event: Event): void {
+    console.warn('[SecondaryStructureService] Worker failed, assigning on the main thread:', event);
+    this.worker?.terminate();
+    this.worker = null;
+
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    pending.forEach(({ residues, resolve, reject }) => {
+      try {
+        resolve(assignSecondaryStructure(residues));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  private handleResponse(response: DSSPWorkerResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      pending.resolve(response.codes);
+    } else {
+      pending.reject(new Error(response.error));
+    }
+  }
+}
+
+// Singleton instance
+let serviceInstance: SecondaryStructureService | null = null;
+
+/**
+ * Get singleton secondary structure service instance
+ */
+export function getSecondaryStructureService(): SecondaryStructureService {
+  if (!serviceInstance) {
+    serviceInstance = new SecondaryStructureService();
+  }
+  return serviceInstance;
+}
@@ -0,0 +1,168 @@
+/**
+ * Session recorder service
+ * Captures a collaboration session's event stream with timestamps so it can
+ * be stored and replayed later
+ */
+import { collaborationSession } from './collaboration-session';
+import { documentSync } from './document-sync';
+import type {
+  CameraState,
+  CollaborationUser,
+} from '@/types/collaboration';
+import type {
+  RecordedEvent,
+  RecordedEventType,
+  RecordedEvents,
+} from '@/types/session-recording';
+
+// Minimum interval between recorded samples of frequent events, per user
+const SAMPLE_INTERVALS: Partial<Record<RecordedEventType, number>> = {
+  'camera-update': 50,
+  'cursor-move': 100,
+};
+
+/**
+ * State of the session when recording starts, recorded at time zero
+ */
+export interface RecordingStart {
+  sessionId: string;
+  userId: string;
+  structureId?: string | null;
+  users: CollaborationUser[];
+  camera?: CameraState | null;
+}
+
+export interface RecordingResult {
+  sessionId: string;
+  startedAt: number;
+  durationMs: number;
+  events: RecordedEvent[];
+}
+
+function sampleKey(type: RecordedEventType, payload: unknown): string | null {
+  if (!SAMPLE_INTERVALS[type]) return null;
+  const { userId } = payload as { userId?: string };
+  return `${type}:${userId ?? ''}`;
+}
+
+export class SessionRecorderService {
+  private sessionId: string | null = null;
+  private startedAt: number | null = null;
+  private events: RecordedEvent[] = [];
+  private lastSampled = new Map<string, number>();
+  private unsubscribers: Array<() => void> = [];
+  private listeners = new Set<() => void>();
+
+  /**
+   * Start recording the current session
+   */
+  start(options: RecordingStart): void {
+    if (this.isRecording()) {
+      throw new Error('Already recording');
+    }
+
+    this.sessionId = options.sessionId;
+    this.startedAt = Date.now();
+    this.events = [];
+    this.lastSampled.clear();
+
+    // Snapshot of the session so far
+    if (options.structureId) {
+      this.record('structure-change', { structureId: options.structureId });
+    }
+    options.users.forEach((user) => this.record('user-join', user));
+    if (options.camera) {
+      this.record('camera-update', { userId: options.userId, state: options.camera });
+    }
+
+    const document = documentSync.getDocument();
+    if (document) {
+      const operations = document.getOperationsSince({});
+      if (operations.length > 0) {
+        this.record('document-ops', { operations });
+      }
+      this.unsubscribers.push(
+        document.subscribe((applied) => this.record('document-ops', { operations: applied }))
+      );
+    }
+
+    this.unsubscribers.push(
+      collaborationSession.addEventListener((type, payload) =>
+        this.record(type, payload as RecordedEvents[typeof type])
+      )
+    );
+    this.notify();
+  }
+
+  /**
+   * Record an event that did not pass through the session channel, such as
+   * the recording user's own camera or a structure change
+   */
+  record<K extends RecordedEventType>(type: K, payload: RecordedEvents[K]): void {
+    if (this.startedAt === null) return;
+
+    const now = Date.now();
+    const key = sampleKey(type, payload);
+    if (key) {
+      const last = this.lastSampled.get(key);
+      if (last !== undefined && now - last < SAMPLE_INTERVALS[type]!) return;
+      this.lastSampled.set(key, now);
+    }
+
+    this.events.push({ time: now - this.startedAt, type, payload } as RecordedEvent);
+  }
+
+  /**
+   * Stop recording and return what was recorded
+   */
+  stop(): RecordingResult {
+    if (this.startedAt === null || !this.sessionId) {
+      throw new Error('Not recording');
+    }
+
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+
+    const result: RecordingResult = {
+      sessionId: this.sessionId,
+      startedAt: this.startedAt,
+      durationMs: Date.now() - this.startedAt,
+      events: this.events,
+    };
+
+    this.sessionId = null;
+    this.startedAt = null;
+    this.events = [];
+    this.notify();
+    return result;
+  }
+
+  isRecording(): boolean {
+    return this.startedAt !== null;
+  }
+
+  getElapsed(): number {
+    return this.startedAt === null ? 0 : Date.now() - this.startedAt;
+  }
+
+  getEventCount(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Subscribe to recording starting and stopping
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Singleton instance
+export const sessionRecorder = new SessionRecorderService();
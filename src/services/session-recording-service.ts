@@ -0,0 +1,157 @@
+/**
+ * Session recording storage service
+ * Saves recorded collaboration sessions in their compact form and loads them
+ * back for replay
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+import type { Database } from '@/types/database';
+import { decodeRecording, encodeRecording } from '@/lib/session-recording';
+import type {
+  EncodedRecording,
+  SaveRecordingRequest,
+  SessionRecording,
+  SessionRecordingSummary,
+} from '@/types/session-recording';
+
+// Everything but the events, for listings
+const SUMMARY_COLUMNS =
+  'id, session_id, title, recorded_by, structure_id, duration_ms, event_count, is_public, started_at, created_at';
+
+export class SessionRecordingService {
+  private _supabase: SupabaseClient<Database> | null = null;
+
+  /**
+   * Lazy-load Supabase client to avoid issues during build
+   */
+  private get supabase(): SupabaseClient<Database> {
+    if (!this._supabase) {
+      this._supabase = createClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Save a recording made by the current user
+   */
+  async saveRecording(request: SaveRecordingRequest): Promise<SessionRecordingSummary> {
+    const title = request.title.trim();
+    if (!title) {
+      throw new Error('Recording title is required');
+    }
+
+    const { data: { user } } = await this.supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Must be logged in to save recordings');
+    }
+
+    const { data, error } = await (this.supabase as any)
+      .from('session_recordings')
+      .insert({
+        session_id: request.sessionId,
+        recorded_by: user.id,
+        title: title.slice(0, 200),
+        structure_id: request.structureId ?? null,
+        started_at: new Date(request.startedAt).toISOString(),
+        duration_ms: Math.round(request.durationMs),
+        event_count: request.events.length,
+        events: encodeRecording(request.events),
+      })
+      .select(SUMMARY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save recording: ${error?.message ?? 'no data returned'}`);
+    }
+
+    return this.mapToSummary(data);
+  }
+
+  /**
+   * Load a recording with its events
+   */
+  async getRecording(id: string): Promise<SessionRecording> {
+    const { data, error } = await (this.supabase as any)
+      .from('session_recordings')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      throw new Error('Recording not found');
+    }
+
+    return {
+      ...this.mapToSummary(data),
+      events: decodeRecording(data.events as EncodedRecording),
+    };
+  }
+
+  /**
+   * Recordings the current user can watch, newest first, optionally for one
+   * session
+   */
+  async listRecordings(sessionId?: string): Promise<SessionRecordingSummary[]> {
+    let query = (this.supabase as any)
+      .from('session_recordings')
+      .select(SUMMARY_COLUMNS);
+
+    if (sessionId) {
+      query = query.eq('session_id', sessionId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list recordings: ${error.message}`);
+    }
+
+    return (data || []).map((row: Record<string, any>) => this.mapToSummary(row));
+  }
+
+  /**
+   * Let anyone with the link watch a recording, or only session members
+   */
+  async setPublic(id: string, isPublic: boolean): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('session_recordings')
+      .update({ is_public: isPublic })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to update recording: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a recording
+   */
+  async deleteRecording(id: string): Promise<void> {
+    const { error } = await (this.supabase as any)
+      .from('session_recordings')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete recording: ${error.message}`);
+    }
+  }
+
+  private mapToSummary(row: Record<string, any>): SessionRecordingSummary {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      title: row.title,
+      recordedBy: row.recorded_by,
+      structureId: row.structure_id,
+      durationMs: row.duration_ms,
+      eventCount: row.event_count,
+      isPublic: row.is_public ?? false,
+      startedAt: row.started_at,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+// Singleton instance
+export const sessionRecordingService = new SessionRecordingService();
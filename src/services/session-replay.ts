@@ -0,0 +1,253 @@
+/**
+ * Session replay player
+ * Rebuilds a recorded collaboration session at any point in its timeline,
+ * with play, pause, seek and playback speed
+ */
+import { CollaborationDocument } from './collaboration-document';
+import type {
+  ActivityEvent,
+  Annotation,
+  CameraState,
+  CollaborationUser,
+} from '@/types/collaboration';
+import type { MeasurementResult } from '@/types/molstar';
+import type { RecordedEvent } from '@/types/session-recording';
+
+export const REPLAY_SPEEDS = [0.5, 1, 1.5, 2, 4];
+
+const TICK_INTERVAL_MS = 50;
+const MAX_ACTIVITIES = 100;
+
+export interface ReplayState {
+  time: number;
+  durationMs: number;
+  isPlaying: boolean;
+  speed: number;
+  structureId: string | null;
+  camera: CameraState | null;
+  users: CollaborationUser[];
+  activities: ActivityEvent[];
+  annotations: Annotation[];
+  measurements: MeasurementResult[];
+  notes: string;
+}
+
+export type ReplayListener = (state: ReplayState) => void;
+
+export class SessionReplayPlayer {
+  private events: RecordedEvent[];
+  private durationMs: number;
+  private startedAt: number;
+  private cursor = 0; // Index of the next event to apply
+  private time = 0;
+  private speed = 1;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+  private listeners = new Set<ReplayListener>();
+
+  private document = new CollaborationDocument('replay');
+  private structureId: string | null = null;
+  private camera: CameraState | null = null;
+  private users = new Map<string, CollaborationUser>();
+  private activities: ActivityEvent[] = [];
+
+  /**
+   * @param startedAt - When the recording started, for the times of join and
+   * leave activity
+   */
+  constructor(events: RecordedEvent[], durationMs: number, startedAt: number = 0) {
+    this.events = [...events].sort((a, b) => a.time - b.time);
+    const last = this.events[this.events.length - 1];
+    this.durationMs = Math.max(durationMs, last?.time ?? 0);
+    this.startedAt = startedAt;
+  }
+
+  play(): void {
+    if (this.timer) return;
+    if (this.time >= this.durationMs) {
+      this.seek(0);
+    }
+
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.notify();
+  }
+
+  pause(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    this.notify();
+  }
+
+  /**
+   * Jump to a time. Going back rebuilds the session from the start, since
+   * events cannot be undone
+   */
+  seek(time: number): void {
+    const target = Math.min(Math.max(time, 0), this.durationMs);
+    if (target < this.time) {
+      this.rewind();
+    }
+
+    this.advanceTo(target);
+    this.notify();
+  }
+
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error(`Invalid playback speed ${speed}`);
+    }
+
+    this.speed = speed;
+    this.notify();
+  }
+
+  getState(): ReplayState {
+    return {
+      time: this.time,
+      durationMs: this.durationMs,
+      isPlaying: this.timer !== null,
+      speed: this.speed,
+      structureId: this.structureId,
+      camera: this.camera,
+      users: Array.from(this.users.values()),
+      activities: this.activities,
+      annotations: this.document.getAnnotations(),
+      measurements: this.document.getMeasurements(),
+      notes: this.document.getNotes(),
+    };
+  }
+
+  subscribe(listener: ReplayListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop playback and drop listeners
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.listeners.clear();
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastTick) * this.speed;
+    this.lastTick = now;
+
+    this.advanceTo(Math.min(this.time + elapsed, this.durationMs));
+    if (this.time >= this.durationMs && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.notify();
+  }
+
+  private rewind(): void {
+    this.cursor = 0;
+    this.time = 0;
+    this.document = new CollaborationDocument('replay');
+    this.structureId = null;
+    this.camera = null;
+    this.users.clear();
+    this.activities = [];
+  }
+
+  private advanceTo(time: number): void {
+    while (this.cursor < this.events.length && this.events[this.cursor].time <= time) {
+      this.apply(this.events[this.cursor]);
+      this.cursor++;
+    }
+    this.time = time;
+  }
+
+  private apply(event: RecordedEvent): void {
+    switch (event.type) {
+      case 'structure-change':
+        this.structureId = event.payload.structureId;
+        break;
+
+      case 'document-ops':
+        this.document.applyOperations(event.payload.operations);
+        break;
+
+      case 'camera-update':
+        this.camera = event.payload.state;
+        break;
+
+      case 'cursor-move': {
+        const { userId, x, y, target } = event.payload;
+        const user = this.users.get(userId);
+        if (user) {
+          this.users.set(userId, { ...user, cursor: { x, y, target } });
+        }
+        break;
+      }
+
+      case 'user-join':
+        this.users.set(event.payload.id, event.payload);
+        this.addActivity(event, 'user-join', event.payload, 'joined the session');
+        break;
+
+      case 'user-leave': {
+        const user = this.users.get(event.payload.userId);
+        this.users.delete(event.payload.userId);
+        if (user) {
+          this.addActivity(event, 'user-leave', user, 'left the session');
+        }
+        break;
+      }
+
+      case 'user-update': {
+        const user = this.users.get(event.payload.id);
+        if (user) {
+          this.users.set(user.id, { ...user, ...event.payload });
+        }
+        break;
+      }
+
+      case 'activity':
+        this.pushActivity(event.payload);
+        break;
+
+      case 'session-update':
+        if (event.payload.structureId) {
+          this.structureId = event.payload.structureId;
+        }
+        break;
+    }
+  }
+
+  private addActivity(
+    event: RecordedEvent,
+    type: ActivityEvent['type'],
+    user: CollaborationUser,
+    action: string
+  ): void {
+    this.pushActivity({
+      id: `replay-${event.time}-${type}-${user.id}`,
+      type,
+      userId: user.id,
+      userName: user.name,
+      timestamp: this.startedAt + event.time,
+      message: `${user.name} ${action}`,
+    });
+  }
+
+  private pushActivity(activity: ActivityEvent): void {
+    this.activities = [...this.activities, activity].slice(-MAX_ACTIVITIES);
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * Structure Comments Service
+ * Threaded comments on a structure, anchored to residues or atoms, with likes
+ * and a resolved state for top-level threads
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+import type { Database } from '@/types/database';
+import { isPdbStructureError, isStructureId, resolvePdbStructure } from '@/lib/pdb-structures';
+import { hasPermission } from '@/lib/share-permissions';
+import type {
+  IStructureCommentsService,
+  StructureComment,
+  CommentThread,
+  CommentTarget,
+  CreateCommentRequest,
+  UpdateCommentRequest,
+  ListCommentsFilters,
+  CommentError,
+} from '@/types/structure-comments';
+
+const MAX_CONTENT_LENGTH = 5000;
+
+// resolved_by also references user_profiles, so name the author relation
+const COMMENT_COLUMNS = '*, author:user_profiles!user_id(id, username, display_name, avatar_url)';
+
+class StructureCommentsService implements IStructureCommentsService {
+  private _supabase: SupabaseClient<Database> | null = null;
+
+  /**
+   * Lazy-load Supabase client to avoid issues during build
+   */
+  private get supabase(): SupabaseClient<Database> {
+    if (!this._supabase) {
+      this._supabase = createClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Structure row ID for a row ID or PDB ID. PDB entries without a row are
+   * registered when `register` is set, otherwise null is returned
+   */
+  async resolveStructureId(idOrPdbId: string, register: boolean = false): Promise<string | null> {
+    try {
+      if (isStructureId(idOrPdbId)) {
+        return idOrPdbId;
+      }
+      return await resolvePdbStructure(this.supabase, idOrPdbId, { register });
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Top-level comments with their replies; resolved threads are left out
+   * unless asked for
+   */
+  async listThreads(structureId: string, filters: ListCommentsFilters = {}): Promise<CommentThread[]> {
+    try {
+      const { data, error } = await (this.supabase as any)
+        .from('structure_comments')
+        .select(COMMENT_COLUMNS)
+        .eq('structure_id', structureId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+
+      const rows: any[] = data || [];
+      const liked = await this.getLikedIds(rows.map((row) => row.id));
+      const comments = rows.map((row) => this.mapToComment(row, liked));
+      const byId = new Map(comments.map((comment) => [comment.id, comment]));
+
+      // Replies to replies belong to the thread of their top-level comment
+      const rootOf = (comment: StructureComment): StructureComment => {
+        let current = comment;
+        while (current.parentId && byId.has(current.parentId)) {
+          current = byId.get(current.parentId)!;
+        }
+        return current;
+      };
+
+      const threads = new Map<string, CommentThread>();
+      for (const comment of comments) {
+        if (!comment.parentId) {
+          threads.set(comment.id, { ...comment, replies: [] });
+        }
+      }
+      for (const comment of comments) {
+        if (comment.parentId) {
+          threads.get(rootOf(comment).id)?.replies.push(comment);
+        }
+      }
+
+      return Array.from(threads.values()).filter((thread) =>
+        (filters.includeResolved || !thread.resolved) &&
+        (!filters.chainId || thread.target?.chainId === filters.chainId) &&
+        (filters.residueSeq === undefined || thread.target?.residueSeq === filters.residueSeq)
+      );
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Start a thread, or reply to one. Replies take their thread's anchor
+   */
+  async addComment(structureId: string, data: CreateCommentRequest): Promise<StructureComment> {
+    try {
+      const user = await this.requireUser('Must be logged in to comment');
+      const content = this.validateContent(data.content);
+
+      let target: CommentTarget | null = data.target ?? null;
+      let position = data.position ?? null;
+      let versionNumber = data.versionNumber ?? null;
+
+      if (data.parentId) {
+        const { data: parent } = await (this.supabase as any)
+          .from('structure_comments')
+          .select('structure_id, target_residue, position, version_number')
+          .eq('id', data.parentId)
+          .single();
+
+        if (!parent || parent.structure_id !== structureId) {
+          throw this.createError('NOT_FOUND', 'The comment being replied to was not found');
+        }
+        target = parent.target_residue;
+        position = parent.position ? [parent.position.x, parent.position.y, parent.position.z] : null;
+        versionNumber = parent.version_number;
+      } else if (target && (!target.chainId || !Number.isInteger(target.residueSeq))) {
+        throw this.createError('VALIDATION_ERROR', 'Comment target needs a chain and residue number');
+      }
+
+      const { data: comment, error } = await (this.supabase as any)
+        .from('structure_comments')
+        .insert({
+          structure_id: structureId,
+          user_id: user.id,
+          parent_id: data.parentId || null,
+          content,
+          target_residue: target,
+          position: position ? { x: position[0], y: position[1], z: position[2] } : null,
+          version_number: versionNumber,
+        })
+        .select(COMMENT_COLUMNS)
+        .single();
+
+      if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+
+      return this.mapToComment(comment, new Set());
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Edit a comment (author only) or resolve/reopen a thread (author of the
+   * thread, or owner or admin of the structure)
+   */
+  async updateComment(commentId: string, data: UpdateCommentRequest): Promise<StructureComment> {
+    try {
+      const user = await this.requireUser();
+
+      const { data: existing } = await (this.supabase as any)
+        .from('structure_comments')
+        .select('user_id, parent_id, structure_id')
+        .eq('id', commentId)
+        .single();
+
+      if (!existing) throw this.createError('NOT_FOUND', `Comment ${commentId} not found`);
+
+      const isAuthor = existing.user_id === user.id;
+
+      if (data.content !== undefined && !isAuthor) {
+        throw this.createError('PERMISSION_DENIED', 'Only the author can edit a comment');
+      }
+      if (data.resolved !== undefined) {
+        if (existing.parent_id) {
+          throw this.createError('VALIDATION_ERROR', 'Only top-level comments can be resolved');
+        }
+        if (!isAuthor && !(await this.isStructureAdmin(existing.structure_id))) {
+          throw this.createError('PERMISSION_DENIED', 'Only the author or a structure admin can resolve a thread');
+        }
+      }
+
+      if (data.content !== undefined) {
+        const { error } = await (this.supabase as any)
+          .from('structure_comments')
+          .update({ content: this.validateContent(data.content) })
+          .eq('id', commentId);
+
+        if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+      }
+
+      // Resolving may be done by others than the author, so it goes through a
+      // function that only touches the resolved columns
+      if (data.resolved !== undefined) {
+        const { error } = await (this.supabase as any).rpc('set_comment_resolved', {
+          p_comment_id: commentId,
+          p_resolved: data.resolved,
+        });
+
+        if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+      }
+
+      const { data: updated, error } = await (this.supabase as any)
+        .from('structure_comments')
+        .select(COMMENT_COLUMNS)
+        .eq('id', commentId)
+        .single();
+
+      if (error || !updated) throw this.createError('NOT_FOUND', `Comment ${commentId} not found`, error);
+
+      return this.mapToComment(updated, await this.getLikedIds([commentId]));
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a comment and its replies; author only
+   */
+  async deleteComment(commentId: string): Promise<void> {
+    try {
+      const user = await this.requireUser();
+
+      const { data: existing } = await (this.supabase as any)
+        .from('structure_comments')
+        .select('user_id')
+        .eq('id', commentId)
+        .single() as { data: { user_id: string } | null };
+
+      if (!existing) throw this.createError('NOT_FOUND', `Comment ${commentId} not found`);
+      if (existing.user_id !== user.id) {
+        throw this.createError('PERMISSION_DENIED', 'Only the author can delete a comment');
+      }
+
+      const { error } = await (this.supabase as any)
+        .from('structure_comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Like a comment; liking twice has no effect
+   */
+  async likeComment(commentId: string): Promise<void> {
+    try {
+      const user = await this.requireUser('Must be logged in to like comments');
+
+      const { error } = await (this.supabase as any)
+        .from('comment_likes')
+        .upsert({ user_id: user.id, comment_id: commentId }, { onConflict: 'user_id,comment_id', ignoreDuplicates: true });
+
+      if (error) throw this.createError('VALIDATION_ERROR', error.message, error);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Remove a like
+   */
+  async unlikeComment(commentId: string): Promise<void> {
+    try {
+      const user = await this.requireUser();
+
+      const { error } = await (this.supabase as any)
+        .from('comment_likes')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('comment_id', commentId);
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Helper: Which of the given comments the current user has liked
+   */
+  private async getLikedIds(commentIds: string[]): Promise<Set<string>> {
+    if (commentIds.length === 0) return new Set();
+
+    const { data: { user } } = await this.supabase.auth.getUser();
+    if (!user) return new Set();
+
+    const { data } = await (this.supabase as any)
+      .from('comment_likes')
+      .select('comment_id')
+      .eq('user_id', user.id)
+      .in('comment_id', commentIds);
+
+    return new Set((data || []).map((row: any) => row.comment_id));
+  }
+
+  /**
+   * Helper: Whether the current user owns a structure or holds an admin share on it
+   */
+  private async isStructureAdmin(structureId: string): Promise<boolean> {
+    const { data: level } = await (this.supabase as any).rpc('structure_permission', {
+      p_structure_id: structureId,
+    });
+    return hasPermission(level, 'admin');
+  }
+
+  /**
+   * Helper: Current user, or UNAUTHORIZED
+   */
+  private async requireUser(message = 'Must be logged in') {
+    const { data: { user } } = await this.supabase.auth.getUser();
+    if (!user) throw this.createError('UNAUTHORIZED', message);
+    return user;
+  }
+
+  private validateContent(content: string | undefined): string {
+    const trimmed = content?.trim() ?? '';
+    if (!trimmed) {
+      throw this.createError('VALIDATION_ERROR', 'Comment cannot be empty');
+    }
+    if (trimmed.length > MAX_CONTENT_LENGTH) {
+      throw this.createError('VALIDATION_ERROR', `Comments are limited to ${MAX_CONTENT_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Type mappers
+   */
+  private mapToComment(data: any, liked: Set<string>): StructureComment {
+    return {
+      id: data.id,
+      structureId: data.structure_id,
+      parentId: data.parent_id,
+      author: {
+        id: data.user_id,
+        username: data.author?.username ?? null,
+        displayName: data.author?.display_name ?? null,
+        avatarUrl: data.author?.avatar_url ?? null,
+      },
+      content: data.content,
+      target: data.target_residue ?? null,
+      position: data.position ? [data.position.x, data.position.y, data.position.z] : null,
+      versionNumber: data.version_number ?? null,
+      likeCount: data.like_count || 0,
+      likedByMe: liked.has(data.id),
+      resolved: data.resolved || false,
+      resolvedBy: data.resolved_by ?? null,
+      resolvedAt: data.resolved_at ?? null,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
+  /**
+   * Error handling
+   */
+  private createError(code: CommentError['code'], message: string, details?: unknown): CommentError {
+    const error = new Error(message) as CommentError;
+    error.name = 'CommentError';
+    error.code = code;
+    error.details = details;
+    return error;
+  }
+
+  private handleError(error: unknown): CommentError {
+    if ((error as CommentError).name === 'CommentError') {
+      return error as CommentError;
+    }
+    if (isPdbStructureError(error)) {
+      return this.createError(error.code, error.message, error.details);
+    }
+    return this.createError('NETWORK_ERROR', 'An unexpected error occurred', error);
+  }
+}
+
+// Export singleton
+export const structureCommentsService = new StructureCommentsService();
+export default structureCommentsService;
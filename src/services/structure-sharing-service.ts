@@ -0,0 +1,300 @@
+/**
+ * Structure Sharing Service
+ * Grants access to uploaded structures, to named users or through share
+ * links that can expire or run out of views
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+import type { Database } from '@/types/database';
+import { hasPermission, isSharePermission } from '@/lib/share-permissions';
+import type {
+  IStructureSharingService,
+  AccessLevel,
+  StructureAccess,
+  StructureShare,
+  ShareWithUserRequest,
+  CreateShareLinkRequest,
+  RedeemedShare,
+  SharingError,
+} from '@/types/sharing';
+
+const SHARE_COLUMNS = '*, recipient:user_profiles!shared_with(id, username, display_name)';
+
+export class StructureSharingService implements IStructureSharingService {
+  private _supabase: SupabaseClient<Database> | null;
+
+  /**
+   * Route handlers that serve structure files pass a cookie-aware server
+   * client; elsewhere the browser client is created lazily
+   */
+  constructor(client?: SupabaseClient<Database>) {
+    this._supabase = client ?? null;
+  }
+
+  private get supabase(): SupabaseClient<Database> {
+    if (!this._supabase) {
+      this._supabase = createClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * The current user's access to a structure; anonymous users only see
+   * public and unlisted structures
+   */
+  async getAccess(structureId: string): Promise<StructureAccess> {
+    try {
+      const { data, error } = await (this.supabase as any).rpc('structure_permission', {
+        p_structure_id: structureId,
+      });
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+
+      return { structureId, level: (data as AccessLevel | null) ?? null };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Access level of the current user, or an error saying why it falls short.
+   * Structures the user cannot see at all are reported as not found
+   */
+  async requireAccess(structureId: string, required: AccessLevel): Promise<AccessLevel> {
+    const { level } = await this.getAccess(structureId);
+
+    if (!level) {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      throw user
+        ? this.createError('NOT_FOUND', `Structure ${structureId} not found`)
+        : this.createError('UNAUTHORIZED', 'Sign in to open this structure');
+    }
+    if (!hasPermission(level, required)) {
+      throw this.createError('PERMISSION_DENIED', `This needs ${required} access to the structure`);
+    }
+    return level;
+  }
+
+  /**
+   * Users a structure is shared with, and its share links; admins only
+   */
+  async listShares(structureId: string): Promise<StructureShare[]> {
+    try {
+      await this.requireAccess(structureId, 'admin');
+
+      const { data, error } = await (this.supabase as any)
+        .from('structure_shares')
+        .select(SHARE_COLUMNS)
+        .eq('structure_id', structureId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+
+      return (data || []).map(this.mapToShare);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Share with a user by username. Sharing again with the same user replaces
+   * their permission and expiry
+   */
+  async shareWithUser(structureId: string, data: ShareWithUserRequest): Promise<StructureShare> {
+    try {
+      const user = await this.requireUser('Must be logged in to share structures');
+      await this.requireAccess(structureId, 'admin');
+
+      const permission = data.permission || 'view';
+      if (!isSharePermission(permission)) {
+        throw this.createError('VALIDATION_ERROR', `Unknown permission ${permission}`);
+      }
+      this.validateExpiry(data.expiresAt);
+
+      const { data: recipient } = await (this.supabase as any)
+        .from('user_profiles')
+        .select('id')
+        .eq('username', data.username?.trim())
+        .single() as { data: { id: string } | null };
+
+      if (!recipient) throw this.createError('NOT_FOUND', `No user named ${data.username}`);
+      if (recipient.id === user.id) {
+        throw this.createError('VALIDATION_ERROR', 'Cannot share a structure with yourself');
+      }
+
+      const { data: existing } = await (this.supabase as any)
+        .from('structure_shares')
+        .select('id')
+        .eq('structure_id', structureId)
+        .eq('shared_with', recipient.id)
+        .limit(1);
+
+      const values = { permission, expires_at: data.expiresAt || null };
+      const query = existing?.length
+        ? (this.supabase as any)
+            .from('structure_shares')
+            .update(values)
+            .eq('id', existing[0].id)
+        : (this.supabase as any)
+            .from('structure_shares')
+            .insert({ ...values, structure_id: structureId, shared_by: user.id, shared_with: recipient.id });
+
+      const { data: share, error } = await query.select(SHARE_COLUMNS).single();
+
+      if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+
+      return this.mapToShare(share);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a share link. Anyone signed in who opens it gets the link's
+   * permission until it expires
+   */
+  async createShareLink(structureId: string, data: CreateShareLinkRequest = {}): Promise<StructureShare> {
+    try {
+      const user = await this.requireUser('Must be logged in to share structures');
+      await this.requireAccess(structureId, 'admin');
+
+      const permission = data.permission || 'view';
+      if (!isSharePermission(permission) || (permission as string) === 'admin') {
+        throw this.createError('VALIDATION_ERROR', 'Share links can grant view, comment or edit access');
+      }
+      this.validateExpiry(data.expiresAt);
+      if (data.maxViews !== undefined && (!Number.isInteger(data.maxViews) || data.maxViews < 1)) {
+        throw this.createError('VALIDATION_ERROR', 'View limit must be a positive whole number');
+      }
+
+      const { data: share, error } = await (this.supabase as any)
+        .from('structure_shares')
+        .insert({
+          structure_id: structureId,
+          shared_by: user.id,
+          share_token: this.createShareToken(),
+          permission,
+          expires_at: data.expiresAt || null,
+          max_views: data.maxViews ?? null,
+        })
+        .select(SHARE_COLUMNS)
+        .single();
+
+      if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+
+      return this.mapToShare(share);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Revoke a share or share link. Recipients may also remove their own share
+   */
+  async revokeShare(structureId: string, shareId: string): Promise<void> {
+    try {
+      await this.requireUser();
+
+      const { error } = await (this.supabase as any)
+        .from('structure_shares')
+        .delete()
+        .eq('structure_id', structureId)
+        .eq('id', shareId);
+
+      if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Open a structure through its share link, which records a share for the
+   * current user
+   */
+  async redeemShareLink(token: string): Promise<RedeemedShare> {
+    try {
+      await this.requireUser('Sign in to open a shared structure');
+
+      const { data, error } = await (this.supabase as any).rpc('redeem_structure_share', { p_token: token });
+
+      if (error) throw this.createError('NOT_FOUND', error.message, error);
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row) throw this.createError('NOT_FOUND', 'Share link is invalid or has expired');
+
+      return { structureId: row.structure_id, level: row.permission };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Helper: Current user, or UNAUTHORIZED
+   */
+  private async requireUser(message = 'Must be logged in') {
+    const { data: { user } } = await this.supabase.auth.getUser();
+    if (!user) throw this.createError('UNAUTHORIZED', message);
+    return user;
+  }
+
+  private validateExpiry(expiresAt: string | undefined): void {
+    if (!expiresAt) return;
+    const time = new Date(expiresAt).getTime();
+    if (Number.isNaN(time) || time <= Date.now()) {
+      throw this.createError('VALIDATION_ERROR', 'Expiry must be a date in the future');
+    }
+  }
+
+  private createShareToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Type mappers
+   */
+  private mapToShare(data: any): StructureShare {
+    return {
+      id: data.id,
+      structureId: data.structure_id,
+      sharedBy: data.shared_by,
+      sharedWith: data.shared_with
+        ? {
+            id: data.shared_with,
+            username: data.recipient?.username ?? null,
+            displayName: data.recipient?.display_name ?? null,
+          }
+        : null,
+      permission: data.permission,
+      shareToken: data.share_token,
+      expiresAt: data.expires_at,
+      maxViews: data.max_views ?? null,
+      viewCount: data.view_count || 0,
+      lastAccessed: data.last_accessed ?? null,
+      createdAt: data.created_at,
+    };
+  }
+
+  /**
+   * Error handling
+   */
+  private createError(code: SharingError['code'], message: string, details?: unknown): SharingError {
+    const error = new Error(message) as SharingError;
+    error.name = 'SharingError';
+    error.code = code;
+    error.details = details;
+    return error;
+  }
+
+  private handleError(error: unknown): SharingError {
+    if ((error as SharingError).name === 'SharingError') {
+      return error as SharingError;
+    }
+    return this.createError('NETWORK_ERROR', 'An unexpected error occurred', error);
+  }
+}
+
+// Export singleton
+export const structureSharingService = new StructureSharingService();
+export default structureSharingService;
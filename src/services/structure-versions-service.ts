@@ -0,0 +1,206 @@
+/**
+ * Structure Versions Service
+ * Stores uploaded structure files as numbered versions, each with a summary
+ * of the file and a diff against the version before it
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+import type { Database } from '@/types/database';
+import { describeDiff, diffStructures, summarizeStructure } from '@/lib/structure-diff';
+import type {
+  IStructureVersionsService,
+  StructureVersion,
+  RecordUploadRequest,
+  RecordedUpload,
+  VersionError,
+} from '@/types/structure-versions';
+
+const BUCKET = 'structures';
+
+export class StructureVersionsService implements IStructureVersionsService {
+  private _supabase: SupabaseClient<Database> | null;
+
+  /**
+   * Route handlers pass a cookie-aware server client so uploads are recorded
+   * for the signed-in user; elsewhere the browser client is created lazily
+   */
+  constructor(client?: SupabaseClient<Database>) {
+    this._supabase = client ?? null;
+  }
+
+  private get supabase(): SupabaseClient<Database> {
+    if (!this._supabase) {
+      this._supabase = createClient();
+    }
+    return this._supabase;
+  }
+
+  /**
+   * Store an uploaded file as the next version of a structure, creating the
+   * structure on first upload. Re-uploading the latest file is a no-op
+   */
+  async recordUpload(data: RecordUploadRequest): Promise<RecordedUpload> {
+    try {
+      const { data: { user } } = await this.supabase.auth.getUser();
+      if (!user) throw this.createError('UNAUTHORIZED', 'Must be logged in to save structures');
+
+      const fileHash = await this.hashContent(data.content);
+      const fileSize = new TextEncoder().encode(data.content).length;
+      const summary = summarizeStructure(data.structure);
+
+      let structureId = data.structureId;
+      let previous: StructureVersion | null = null;
+
+      if (structureId) {
+        const { data: existing } = await (this.supabase as any)
+          .from('structures')
+          .select('id')
+          .eq('id', structureId)
+          .single();
+
+        if (!existing) throw this.createError('NOT_FOUND', `Structure ${structureId} not found`);
+
+        previous = (await this.listVersions(structureId))[0] ?? null;
+        if (previous?.fileHash === fileHash) {
+          return { structureId, version: previous, isNewVersion: false };
+        }
+        if (previous?.summary && previous.summary.format !== summary.format) {
+          throw this.createError(
+            'VALIDATION_ERROR',
+            `Versions must keep the same format (${previous.summary.format}, got ${summary.format})`
+          );
+        }
+      } else {
+        structureId = crypto.randomUUID();
+      }
+
+      const versionNumber = (previous?.versionNumber ?? 0) + 1;
+      const filePath = `${user.id}/${structureId}/v${versionNumber}-${data.filename}`;
+
+      const { error: uploadError } = await this.supabase.storage
+        .from(BUCKET)
+        .upload(filePath, new Blob([data.content], { type: 'text/plain' }));
+
+      if (uploadError) throw this.createError('NETWORK_ERROR', uploadError.message, uploadError);
+
+      // Don't leave the file behind if the records can't be written
+      try {
+        if (previous) {
+          const { error } = await (this.supabase as any)
+            .from('structures')
+            .update({ file_path: filePath, file_size: fileSize, file_hash: fileHash })
+            .eq('id', structureId);
+
+          if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+        } else {
+          const { error } = await (this.supabase as any)
+            .from('structures')
+            .insert({
+              id: structureId,
+              owner_id: user.id,
+              name: data.name || data.structure.metadata.title || data.filename,
+              structure_type: summary.format === 'sdf' || summary.format === 'mol2' ? 'molecule' : 'protein',
+              file_format: summary.format,
+              file_path: filePath,
+              file_size: fileSize,
+              file_hash: fileHash,
+              source: 'upload',
+            });
+
+          if (error) throw this.createError('VALIDATION_ERROR', error.message, error);
+        }
+
+        const diff = previous?.summary ? diffStructures(previous.summary, summary) : null;
+
+        const { data: version, error } = await (this.supabase as any)
+          .from('structure_versions')
+          .insert({
+            structure_id: structureId,
+            version_number: versionNumber,
+            file_path: filePath,
+            file_hash: fileHash,
+            changes: data.changes?.trim() || (diff ? describeDiff(diff) : 'Initial upload'),
+            summary,
+            diff,
+            created_by: user.id,
+          })
+          .select()
+          .single();
+
+        if (error) throw this.createError('PERMISSION_DENIED', error.message, error);
+
+        return { structureId, version: this.mapToVersion(version), isNewVersion: true };
+      } catch (error) {
+        await this.supabase.storage.from(BUCKET).remove([filePath]);
+        throw error;
+      }
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Versions of a structure, newest first
+   */
+  async listVersions(structureId: string): Promise<StructureVersion[]> {
+    try {
+      const { data, error } = await (this.supabase as any)
+        .from('structure_versions')
+        .select('*')
+        .eq('structure_id', structureId)
+        .order('version_number', { ascending: false });
+
+      if (error) throw this.createError('NETWORK_ERROR', error.message, error);
+
+      return (data || []).map(this.mapToVersion);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  private async hashContent(content: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Type mappers
+   */
+  private mapToVersion(data: any): StructureVersion {
+    return {
+      id: data.id,
+      structureId: data.structure_id,
+      versionNumber: data.version_number,
+      filePath: data.file_path,
+      fileHash: data.file_hash,
+      changes: data.changes,
+      summary: data.summary ?? null,
+      diff: data.diff ?? null,
+      createdBy: data.created_by,
+      createdAt: data.created_at,
+    };
+  }
+
+  /**
+   * Error handling
+   */
+  private createError(code: VersionError['code'], message: string, details?: unknown): VersionError {
+    const error = new Error(message) as VersionError;
+    error.name = 'VersionError';
+    error.code = code;
+    error.details = details;
+    return error;
+  }
+
+  private handleError(error: unknown): VersionError {
+    if ((error as VersionError).name === 'VersionError') {
+      return error as VersionError;
+    }
+    return this.createError('NETWORK_ERROR', 'An unexpected error occurred', error);
+  }
+}
+
+// Export singleton
+export const structureVersionsService = new StructureVersionsService();
+export default structureVersionsService;
@@ -0,0 +1,246 @@
+/**
+ * Trajectory Import Service
+ *
+ * Imports external trajectories (DCD, XTC/TRR, multi-model PDB) against a
+ * topology structure and stores the decoded frames in IndexedDB in chunks,
+ * so playback only keeps a few chunks in memory at a time
+ */
+
+import { getCache, IndexedDBCache } from '@/lib/cache/indexeddb';
+import { parsePDB } from '@/lib/pdb-parser';
+import {
+  createTrajectoryReader,
+  detectTrajectoryFormat,
+  TrajectoryBox,
+  TrajectoryFormat,
+} from '@/lib/trajectory-parsers';
+import type { TrajectoryFrame } from '@/types/molstar';
+
+export type TrajectoryCache = Pick<IndexedDBCache, 'cacheData' | 'getData' | 'deleteData'>;
+
+export interface TrajectoryInfo {
+  id: string;
+  name: string;
+  format: TrajectoryFormat;
+  atomCount: number;
+  frameCount: number;
+  chunkSize: number;
+  timeStep?: number; // ps between frames, absent when the file has no times
+  startTime?: number; // ps
+  box?: TrajectoryBox;
+  topology: string; // PDB text the frames apply to
+  importedAt: number;
+}
+
+export interface TrajectoryImportOptions {
+  onProgress?: (progress: number, message: string) => void;
+}
+
+interface TrajectoryChunk {
+  frames: TrajectoryFrame[];
+}
+
+const DEFAULT_CHUNK_SIZE = 25;
+const DEFAULT_MAX_CHUNKS = 8;
+
+/**
+ * Trajectory Service
+ * Frames are read through a small in-memory LRU of cached chunks
+ */
+export class TrajectoryService {
+  private infos = new Map<string, TrajectoryInfo>();
+  private chunks = new Map<string, Promise<TrajectoryChunk>>();
+
+  constructor(
+    private cache: TrajectoryCache = getCache(),
+    private chunkSize = DEFAULT_CHUNK_SIZE,
+    private maxChunks = DEFAULT_MAX_CHUNKS
+  ) {}
+
+  /**
+   * Decode a trajectory file and store its frames in the cache
+   */
+  async importTrajectory(
+    data: ArrayBuffer,
+    filename: string,
+    topology: string,
+    options: TrajectoryImportOptions = {}
+  ): Promise<TrajectoryInfo> {
+    const { onProgress } = options;
+    onProgress?.(0, 'Reading trajectory...');
+
+    const format = detectTrajectoryFormat(filename, data);
+    const reader = createTrajectoryReader(data, format);
+    if (reader.frameCount === 0) {
+      throw new Error(`No frames found in ${filename}`);
+    }
+
+    const structure = await parsePDB(topology, { includeWater: true });
+    if (structure.atoms.length !== reader.atomCount) {
+      throw new Error(
+        `Topology has ${structure.atoms.length} atoms but ${filename} has ${reader.atomCount}`
+      );
+    }
+
+    const id = `traj-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    const tags = ['trajectory', id];
+    const chunkCount = Math.ceil(reader.frameCount / this.chunkSize);
+    const times: Array<number | undefined> = [];
+    let box: TrajectoryBox | undefined;
+
+    try {
+      for (let c = 0; c < chunkCount; c++) {
+        const frames: TrajectoryFrame[] = [];
+        const end = Math.min(reader.frameCount, (c + 1) * this.chunkSize);
+        for (let i = c * this.chunkSize; i < end; i++) {
+          const frame = reader.readFrame(i);
+          box ??= frame.box;
+          if (i < 2) times.push(frame.time);
+          frames.push({ index: i, coordinates: frame.coordinates, timestamp: frame.time });
+        }
+
+        await this.cache.cacheData<TrajectoryChunk>(chunkKey(id, c), { frames }, tags);
+        onProgress?.(((c + 1) / chunkCount) * 100, `Stored frames ${c * this.chunkSize + 1}-${end}`);
+      }
+    } catch (error) {
+      await this.deleteChunks(id, chunkCount);
+      throw error;
+    }
+
+    const [startTime, nextTime] = times;
+    const timeStep = startTime !== undefined && nextTime !== undefined && nextTime > startTime
+      ? nextTime - startTime
+      : undefined;
+
+    const info: TrajectoryInfo = {
+      id,
+      name: filename,
+      format,
+      atomCount: reader.atomCount,
+      frameCount: reader.frameCount,
+      chunkSize: this.chunkSize,
+      timeStep,
+      startTime,
+      box,
+      topology,
+      importedAt: Date.now(),
+    };
+    await this.cache.cacheData<TrajectoryInfo>(metaKey(id), info, tags);
+    this.infos.set(id, info);
+
+    console.info(`[TrajectoryService] Imported ${filename}: ${info.frameCount} frames, ${info.atomCount} atoms`);
+    return info;
+  }
+
+  /**
+   * Metadata of an imported trajectory
+   */
+  async getInfo(id: string): Promise<TrajectoryInfo> {
+    const known = this.infos.get(id);
+    if (known) return known;
+
+    const info = await this.cache.getData<TrajectoryInfo>(metaKey(id));
+    if (!info) {
+      throw new Error(`Trajectory ${id} is not in the cache; import it again`);
+    }
+    this.infos.set(id, info);
+    return info;
+  }
+
+  /**
+   * A single frame
+   */
+  async getFrame(id: string, index: number): Promise<TrajectoryFrame> {
+    const info = await this.getInfo(id);
+    if (!Number.isInteger(index) || index < 0 || index >= info.frameCount) {
+      throw new Error(`Frame ${index} out of range (0-${info.frameCount - 1})`);
+    }
+
+    const chunk = await this.loadChunk(id, Math.floor(index / info.chunkSize));
+    return chunk.frames[index % info.chunkSize];
+  }
+
+  /**
+   * Consecutive frames starting at `start`, clamped to the trajectory
+   */
+  async getFrames(id: string, start: number, count: number): Promise<TrajectoryFrame[]> {
+    const info = await this.getInfo(id);
+    const first = Math.max(0, Math.min(start, info.frameCount - 1));
+    const end = Math.min(info.frameCount, first + count);
+
+    const frames: TrajectoryFrame[] = [];
+    for (let c = Math.floor(first / info.chunkSize); c * info.chunkSize < end; c++) {
+      const chunk = await this.loadChunk(id, c);
+      frames.push(...chunk.frames.filter(frame => frame.index >= first && frame.index < end));
+    }
+    return frames;
+  }
+
+  /**
+   * Remove a trajectory and its frames from the cache
+   */
+  async removeTrajectory(id: string): Promise<void> {
+    const info = await this.getInfo(id).catch(() => null);
+    if (info) {
+      await this.deleteChunks(id, Math.ceil(info.frameCount / info.chunkSize));
+    }
+    await this.cache.deleteData(metaKey(id));
+    this.infos.delete(id);
+  }
+
+  /**
+   * Load a chunk, keeping the most recently used ones in memory
+   */
+  private loadChunk(id: string, chunk: number): Promise<TrajectoryChunk> {
+    const key = chunkKey(id, chunk);
+    const cached = this.chunks.get(key);
+    if (cached) {
+      // Move to the most recently used position
+      this.chunks.delete(key);
+      this.chunks.set(key, cached);
+      return cached;
+    }
+
+    const pending = this.cache.getData<TrajectoryChunk>(key).then(data => {
+      if (!data) {
+        throw new Error(`Frames of trajectory ${id} are no longer cached; import it again`);
+      }
+      return data;
+    });
+    pending.catch(() => this.chunks.delete(key));
+
+    this.chunks.set(key, pending);
+    while (this.chunks.size > this.maxChunks) {
+      this.chunks.delete(this.chunks.keys().next().value!);
+    }
+    return pending;
+  }
+
+  private async deleteChunks(id: string, chunkCount: number): Promise<void> {
+    for (let c = 0; c < chunkCount; c++) {
+      this.chunks.delete(chunkKey(id, c));
+      await this.cache.deleteData(chunkKey(id, c));
+    }
+  }
+}
+
+function metaKey(id: string): string {
+  return `trajectory:${id}:meta`;
+}
+
+function chunkKey(id: string, chunk: number): string {
+  return `trajectory:${id}:chunk:${chunk}`;
+}
+
+// Singleton instance
+let serviceInstance: TrajectoryService | null = null;
+
+/**
+ * Get singleton trajectory service instance
+ */
+export function getTrajectoryService(): TrajectoryService {
+  if (!serviceInstance) {
+    serviceInstance = new TrajectoryService();
+  }
+  return serviceInstance;
+}
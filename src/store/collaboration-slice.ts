@@ -11,6 +11,7 @@ import type {
   ActivityEvent,
   CameraState,
 } from '@/types/collaboration';
+import type { MeasurementResult } from '@/types/molstar';
 
 const MAX_ACTIVITIES = 100; // Keep last 100 activities
 
@@ -19,9 +20,12 @@ const initialState = {
   users: new Map<string, CollaborationUser>(),
   currentUserId: null,
   annotations: new Map<string, Annotation>(),
+  sharedMeasurements: [] as MeasurementResult[],
+  notes: '',
   activities: [],
   cameraState: null,
   isConnected: false,
+  pendingChanges: 0,
   isFollowingCamera: false,
   selectedAnnotation: null,
 };
@@ -92,6 +96,33 @@ export const useCollaborationStore = create<CollaborationState>()(
         }, false, 'deleteAnnotation');
       },
 
+      // Replaces annotations with the merged state of the session document
+      setAnnotations: (list) => {
+        set((state) => {
+          const annotations = new Map(list.map((annotation) => [annotation.id, annotation]));
+          return {
+            annotations,
+            selectedAnnotation:
+              state.selectedAnnotation && annotations.has(state.selectedAnnotation)
+                ? state.selectedAnnotation
+                : null,
+          };
+        }, false, 'setAnnotations');
+      },
+
+      // Shared Document
+      setSharedMeasurements: (measurements) => {
+        set({ sharedMeasurements: measurements }, false, 'setSharedMeasurements');
+      },
+
+      setNotes: (notes) => {
+        set({ notes }, false, 'setNotes');
+      },
+
+      setPendingChanges: (count) => {
+        set({ pendingChanges: count }, false, 'setPendingChanges');
+      },
+
       // Activity Management
       addActivity: (activity) => {
         set((state) => {
@@ -1,13 +1,14 @@
 /**
  * Selection Store - Zustand
  *
- * Manages multi-atom selection state with keyboard modifier support
- * and measurement mode tracking.
+ * Manages multi-atom selection state with keyboard modifier support,
+ * measurement mode tracking and named selection language expressions.
  */
 
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { useShallow } from 'zustand/react/shallow';
+import { parseSelection } from '@/lib/selection/selection-language';
 
 /**
  * Atom selection with full metadata
@@ -38,6 +39,15 @@ export interface ResidueSelection {
  */
 export type Selection = AtomSelection | ResidueSelection;
 
+/**
+ * Named selection language expression, e.g. "active site" = "within 5 of resn NAD"
+ */
+export interface SavedSelection {
+  name: string;
+  expression: string;
+  createdAt: number;
+}
+
 /**
  * Measurement type
  */
@@ -142,6 +152,11 @@ export interface SelectionStore extends SimpleSelectionStore {
   clearSelections: () => void;
   setMeasurementType: (type: MeasurementType) => void;
   getSelectionOrder: () => Selection[];
+
+  // Saved selections
+  savedSelections: SavedSelection[];
+  saveSelection: (name: string, expression: string) => void;
+  removeSavedSelection: (name: string) => void;
 }
 
 /**
@@ -160,6 +175,7 @@ export const useSelectionStore = create<SelectionStore>()(
         measurementType: null,
         maxSelections: 0,
         autoTriggerMeasurement: false,
+        savedSelections: [],
 
         // Simple actions (backward compatible)
         addSelection: (atomId: string) =>
@@ -270,6 +286,28 @@ export const useSelectionStore = create<SelectionStore>()(
           const { selections } = get();
           return [...selections].sort((a, b) => a.timestamp - b.timestamp);
         },
+
+        // Saved selection actions
+        saveSelection: (name: string, expression: string) => {
+          const trimmedName = name.trim();
+          if (!trimmedName) {
+            throw new Error('Selection name is required');
+          }
+          // Throws SelectionSyntaxError for invalid expressions
+          parseSelection(expression);
+
+          set((state) => ({
+            savedSelections: [
+              ...state.savedSelections.filter((saved) => saved.name !== trimmedName),
+              { name: trimmedName, expression: expression.trim(), createdAt: Date.now() },
+            ],
+          }));
+        },
+
+        removeSavedSelection: (name: string) =>
+          set((state) => ({
+            savedSelections: state.savedSelections.filter((saved) => saved.name !== name),
+          })),
       }),
       {
         name: 'selection-store',
@@ -278,6 +316,7 @@ export const useSelectionStore = create<SelectionStore>()(
           measurementType: state.measurementType,
           maxSelections: state.maxSelections,
           autoTriggerMeasurement: state.autoTriggerMeasurement,
+          savedSelections: state.savedSelections,
         }),
         // Custom serialization for Set
         storage: {
@@ -348,3 +387,15 @@ export const useExtendedSelections = () =>
       getSelectionOrder: state.getSelectionOrder,
     }))
   );
+
+/**
+ * Selector hook for saved selection language expressions
+ */
+export const useSavedSelections = () =>
+  useSelectionStore(
+    useShallow((state) => ({
+      savedSelections: state.savedSelections,
+      saveSelection: state.saveSelection,
+      removeSavedSelection: state.removeSavedSelection,
+    }))
+  );
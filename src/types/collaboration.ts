@@ -2,6 +2,8 @@
  * Collaboration types for real-time features
  */
 
+import type { MeasurementResult } from './molstar';
+
 /**
  * User role in a collaborative session
  */
@@ -139,9 +141,6 @@ export interface CursorUpdate {
  */
 export interface RealtimeEvents {
   'cursor-move': CursorUpdate;
-  'annotation-add': Annotation;
-  'annotation-edit': Annotation;
-  'annotation-delete': { id: string; userId: string };
   'camera-update': { userId: string; state: CameraState };
   'user-join': CollaborationUser;
   'user-leave': { userId: string };
@@ -161,11 +160,14 @@ export interface CollaborationState {
 
   // Features
   annotations: Map<string, Annotation>;
+  sharedMeasurements: MeasurementResult[];
+  notes: string;
   activities: ActivityEvent[];
   cameraState: CameraState | null;
 
   // UI State
   isConnected: boolean;
+  pendingChanges: number; // Local document changes not yet sent
   isFollowingCamera: boolean;
   selectedAnnotation: string | null;
 
@@ -178,6 +180,10 @@ export interface CollaborationState {
   addAnnotation: (annotation: Annotation) => void;
   updateAnnotation: (id: string, update: Partial<Annotation>) => void;
   deleteAnnotation: (id: string) => void;
+  setAnnotations: (annotations: Annotation[]) => void;
+  setSharedMeasurements: (measurements: MeasurementResult[]) => void;
+  setNotes: (notes: string) => void;
+  setPendingChanges: (count: number) => void;
 
   addActivity: (activity: ActivityEvent) => void;
   updateCameraState: (state: CameraState) => void;
@@ -219,3 +225,43 @@ export interface ConflictResolution<T> {
     resolved: unknown;
   }>;
 }
+
+/**
+ * Lamport stamp of a CRDT write or sequence element. Unique per replica and
+ * ordered across replicas by clock, then replica ID
+ */
+export interface CrdtStamp {
+  clock: number;
+  replica: string;
+}
+
+/**
+ * Highest contiguous operation sequence number seen from each replica
+ */
+export type VersionVector = Record<string, number>;
+
+/**
+ * Operation on the shared session document. Inserts use `clock` as the stamp
+ * of their first element; notes inserts stamp each following character with
+ * the next clock value
+ */
+export type DocumentOperation = {
+  replica: string;
+  seq: number;
+  clock: number;
+} & (
+  | { type: 'annotation-set'; annotationId: string; fields: Partial<Annotation> }
+  | { type: 'annotation-delete'; annotationId: string }
+  | { type: 'measurement-insert'; after: CrdtStamp | null; measurement: MeasurementResult }
+  | { type: 'measurement-delete'; target: CrdtStamp }
+  | { type: 'notes-insert'; after: CrdtStamp | null; text: string }
+  | { type: 'notes-delete'; targets: CrdtStamp[] }
+);
+
+/**
+ * Document sync messages sent over the session channel
+ */
+export interface DocumentSyncEvents {
+  'document-ops': { from: string; to?: string; operations: DocumentOperation[] };
+  'document-sync': { from: string; vector: VersionVector };
+}
@@ -0,0 +1,136 @@
+/**
+ * Collection Type Definitions
+ * Curated structure sets, their sharing and per-user favourites
+ */
+
+import type { Database } from './database';
+
+export type Visibility = Database['public']['Enums']['visibility'];
+export type SharePermission = Database['public']['Enums']['share_permission'];
+export type StructureType = Database['public']['Enums']['structure_type'];
+
+/**
+ * Core Collection
+ */
+export interface Collection {
+  id: string;
+  ownerId: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  color: string; // #RRGGBB
+  visibility: Visibility;
+  parentId: string | null; // Nested collections
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Structure as listed in a collection
+ */
+export interface CollectionStructure {
+  structureId: string;
+  name: string;
+  pdbId: string | null; // From structures.source when it is a PDB code
+  structureType: StructureType;
+  description: string | null;
+  thumbnailUrl: string | null;
+  position: number;
+  addedAt: string;
+  isFavorite: boolean;
+}
+
+export interface CollectionWithStructures extends Collection {
+  structures: CollectionStructure[];
+}
+
+/**
+ * Access to a collection for one user, or for anyone holding the token
+ */
+export interface CollectionShare {
+  id: string;
+  collectionId: string;
+  sharedBy: string;
+  sharedWith: string | null;
+  permission: SharePermission;
+  shareToken: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface FavoriteStructure {
+  structureId: string;
+  name: string;
+  pdbId: string | null;
+  createdAt: string;
+}
+
+/**
+ * API Request/Response Types
+ */
+export interface CreateCollectionRequest {
+  name: string;
+  description?: string;
+  icon?: string;
+  color?: string;
+  visibility?: Visibility;
+  parentId?: string;
+}
+
+export type UpdateCollectionRequest = Partial<CreateCollectionRequest>;
+
+export interface ListCollectionsFilters {
+  ownerId?: string;
+  parentId?: string | null; // null lists top-level collections only
+  visibility?: Visibility;
+  sharedWithMe?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A structure by its row id, or a PDB entry resolved to (or registered as) a row
+ */
+export type AddStructureRequest = { structureId: string } | { pdbId: string };
+
+export interface ShareCollectionRequest {
+  userId?: string; // Omit to create a link share with a token
+  permission?: SharePermission;
+  expiresAt?: string;
+}
+
+/**
+ * Error Types
+ */
+export interface CollectionError extends Error {
+  code: 'NOT_FOUND' | 'UNAUTHORIZED' | 'VALIDATION_ERROR' | 'PERMISSION_DENIED' | 'NETWORK_ERROR';
+  details?: unknown;
+}
+
+/**
+ * Service Interface
+ */
+export interface ICollectionsService {
+  // Collections
+  listCollections(filters?: ListCollectionsFilters): Promise<Collection[]>;
+  getCollection(id: string): Promise<CollectionWithStructures>;
+  createCollection(data: CreateCollectionRequest): Promise<Collection>;
+  updateCollection(id: string, data: UpdateCollectionRequest): Promise<Collection>;
+  deleteCollection(id: string): Promise<void>;
+
+  // Structures
+  addStructure(collectionId: string, data: AddStructureRequest): Promise<CollectionStructure[]>;
+  removeStructure(collectionId: string, structureId: string): Promise<void>;
+  reorderStructures(collectionId: string, structureIds: string[]): Promise<CollectionStructure[]>;
+
+  // Sharing
+  listShares(collectionId: string): Promise<CollectionShare[]>;
+  shareCollection(collectionId: string, data: ShareCollectionRequest): Promise<CollectionShare>;
+  revokeShare(collectionId: string, shareId: string): Promise<void>;
+  redeemShareLink(token: string): Promise<string>;
+
+  // Favourites
+  listFavorites(): Promise<FavoriteStructure[]>;
+  addFavorite(structureId: string): Promise<void>;
+  removeFavorite(structureId: string): Promise<void>;
+}
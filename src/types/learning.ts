@@ -97,6 +97,14 @@ export interface InteractiveElement {
   config: Record<string, unknown>;
 }
 
+/**
+ * Config of a 'comparison' element: structures superposed onto the first
+ */
+export interface ComparisonElementConfig {
+  structures: string[]; // PDB IDs
+  labels?: string[];
+}
+
 export interface TutorialContent {
   type: 'tutorial';
   steps: TutorialStep[];
@@ -3,6 +3,9 @@
  * 3-Tier Architecture: Browser Demo | Serverless | Desktop Export
  */
 
+import type { SimulationBox } from '../lib/md-box';
+import type { SolvationOptions } from '../lib/md-solvent';
+
 export enum MDTier {
   BROWSER = 'browser',      // WebDynamica (<500 atoms, <30s)
   SERVERLESS = 'serverless', // OpenMM Edge Functions (<5K atoms)
@@ -34,6 +37,7 @@ export interface MDSimulationConfig {
   ensemble: 'NVE' | 'NVT' | 'NPT';
   integrator: 'verlet' | 'leapfrog' | 'langevin';
   outputFrequency: number;   // frames per picosecond
+  forceField?: 'AMBER' | 'CHARMM' | 'OPLS'; // defaults to AMBER
 }
 
 export interface BrowserMDConfig extends MDSimulationConfig {
@@ -41,6 +45,7 @@ export interface BrowserMDConfig extends MDSimulationConfig {
   maxAtoms: 500;
   maxTime: 30;               // seconds wall-clock time
   warningShown: boolean;
+  solvent?: SolvationOptions; // periodic TIP3P water box; maxAtoms counts the structure only
 }
 
 export interface ServerlessMDConfig extends MDSimulationConfig {
@@ -57,6 +62,7 @@ export interface DesktopExportConfig {
   includeParameters: boolean;
   includeRunScript: boolean;
   includeDocumentation: boolean;
+  box?: SimulationBox;       // defaults to a rectangular box with 1 nm padding
 }
 
 export interface MDJob {
@@ -102,6 +108,7 @@ export interface TrajectoryFrame {
   energy?: number;
   temperature?: number;
   pressure?: number;
+  box?: SimulationBox;       // periodic box (nm) when solvated
 }
 
 export interface MDCapabilities {
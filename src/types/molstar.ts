@@ -6,6 +6,9 @@
 
 import { PluginContext } from 'molstar/lib/mol-plugin/context';
 import { StateTransformer } from 'molstar/lib/mol-state';
+import type { SecondaryStructureCode } from '@/lib/dssp';
+import type { ElectrostaticsMethod } from '@/lib/surface-properties';
+import type { ResidueDataGradient } from '@/lib/residue-data';
 
 /**
  * Mol* viewer configuration options
@@ -41,6 +44,70 @@ export interface LoadStructureOptions {
   assemblyId?: string;
 }
 
+/**
+ * Copies of the deposited model that make up the displayed structure
+ */
+export type AssemblyView =
+  | { type: 'model' } // Asymmetric unit
+  | { type: 'assembly'; id: string }
+  | { type: 'symmetry-mates'; radius: number } // Crystal packing neighbours within radius (Å)
+  | { type: 'unit-cell'; ijkMin?: [number, number, number]; ijkMax?: [number, number, number] };
+
+/**
+ * Biological assembly of the loaded entry
+ */
+export interface AssemblyInfo {
+  id: string;
+  details: string;
+  polymerCount: number; // Polymer chain copies
+  oligomericState: string; // e.g. "homo-dimer", "24-mer"
+}
+
+/**
+ * Assemblies and crystal symmetry of the loaded entry
+ */
+export interface SymmetryInfo {
+  assemblies: AssemblyInfo[];
+  spacegroup?: string;
+  cell?: { a: number; b: number; c: number; alpha: number; beta: number; gamma: number };
+}
+
+/**
+ * Layout of superposed structures in a comparison
+ */
+export type ComparisonMode = 'overlay' | 'side-by-side';
+
+export interface ComparisonOptions {
+  mode?: ComparisonMode;
+  chains?: Array<string[] | undefined>; // Auth chain ids to align per structure, default all
+}
+
+/**
+ * C-alpha deviation of one residue from its aligned counterpart(s)
+ */
+export interface ResidueDeviation {
+  chainId: string;
+  residueSeq: number;
+  residueName: string;
+  value: number; // Å
+}
+
+/**
+ * A structure fitted onto the first (reference) structure of a comparison
+ */
+export interface ComparedStructure {
+  label: string;
+  rmsd: number; // Å over aligned C-alpha pairs, 0 for the reference
+  alignedCount: number;
+  identity: number; // Sequence identity over aligned pairs (0-1)
+  residues: ResidueDeviation[]; // RMS over all comparisons for the reference
+}
+
+export interface ComparisonResult {
+  mode: ComparisonMode;
+  structures: ComparedStructure[];
+}
+
 /**
  * Representation types supported
  */
@@ -64,6 +131,11 @@ export type MolstarColorScheme =
   | 'structure-index'
   | 'residue-name'
   | 'secondary-structure'
+  | 'plddt' // Predicted model confidence from the B-factor column
+  | 'electrostatic' // Computed surface properties, see SurfaceColoringOptions
+  | 'hydrophobicity'
+  | 'conservation'
+  | 'residue-data' // Values from setResidueDataColoring
   | 'uniform';
 
 /**
@@ -99,13 +171,15 @@ export interface CameraState {
 }
 
 /**
- * Selection query for atoms/residues/chains
+ * Selection query for atoms/residues/chains, or a selection language expression
+ * such as `chain A and resi 50-80 and not hydro` (see lib/selection/selection-language)
  */
 export interface SelectionQuery {
-  type: 'atom' | 'residue' | 'chain';
+  type: 'atom' | 'residue' | 'chain' | 'expression';
   atomIds?: string[];
   residueIds?: string[];
   chainIds?: string[];
+  expression?: string;
 }
 
 /**
@@ -178,6 +252,11 @@ export interface MolstarEvents {
   'hover-info': (info: HoverInfo | null) => void;
   'measurement-added': (measurement: MeasurementResult) => void;
   'selection-info': (info: SelectionInfo | null) => void;
+  'trajectory-frame-changed': (frameIndex: number) => void;
+  'assembly-changed': (view: AssemblyView) => void;
+  'comparison-changed': (comparison: ComparisonResult) => void;
+  'secondary-structure-changed': (residues: SecondaryStructureResidue[]) => void;
+  'ligands-changed': (ligands: LoadedLigand[]) => void;
   'error': (error: Error) => void;
 }
 
@@ -212,6 +291,15 @@ export interface TrajectoryFrame {
   timestamp?: number;
 }
 
+/**
+ * Window of imported trajectory frames loaded into the viewer
+ */
+export interface TrajectoryWindowOptions {
+  atomCount: number;
+  timeStep?: number; // ps between frames
+  label?: string;
+}
+
 /**
  * Trajectory playback options
  */
@@ -277,6 +365,76 @@ export interface SequenceData {
   totalResidues: number;
 }
 
+/**
+ * Polymer chain sequences of one loaded structure
+ */
+export interface StructureSequence {
+  label: string; // Entry id, e.g. "1LDG"
+  chains: SequenceData['chains']; // residueIds are auth residue numbers
+}
+
+/**
+ * A residue in one of the loaded structures, indexed as in getStructureSequences()
+ */
+export interface StructureResidue {
+  structureIndex: number;
+  chainId: string;
+  residueSeq: number;
+}
+
+/**
+ * Fade or hide residues of a predicted model below a pLDDT threshold
+ */
+export interface ConfidenceTrim {
+  threshold: number;
+  mode: 'fade' | 'hide';
+}
+
+/**
+ * Options for the computed surface property schemes
+ */
+export interface SurfaceColoringOptions {
+  range?: [number, number]; // Color range, defaults per property
+  electrostatics?: ElectrostaticsMethod; // Default 'coulomb'
+  homologs?: string[]; // Sequences to score conservation against
+  chainId?: string; // Chain the homologs belong to, default the first polymer chain
+}
+
+/**
+ * Gradient and range for per-residue data coloring
+ */
+export interface ResidueDataColoringOptions {
+  gradient?: ResidueDataGradient; // Default 'blue-white-red'
+  range?: [number, number]; // Defaults to the data's min and max
+  label?: string; // Shown in the legend, e.g. "B-factor"
+}
+
+/**
+ * Small molecule file added to the scene next to the main structure
+ */
+export interface LoadLigandOptions {
+  format?: 'sdf' | 'mol2'; // Default 'sdf'
+  label?: string;
+}
+
+/**
+ * Ligand shown alongside the main structure
+ */
+export interface LoadedLigand {
+  id: string; // State ref of the ligand's data node
+  label: string;
+  atomCount: number;
+}
+
+/**
+ * DSSP assignment of one residue of the displayed structure or trajectory frame
+ */
+export interface SecondaryStructureResidue {
+  chainId: string;
+  residueSeq: number;
+  code: SecondaryStructureCode;
+}
+
 /**
  * Residue selection for highlighting or focusing
  */
@@ -301,20 +459,42 @@ export interface InteractionOptions {
   detectSaltBridges?: boolean;
   detectHydrophobic?: boolean;
   detectPiPi?: boolean;
+  detectCationPi?: boolean; // Defaults to the value of detectPiPi
   distanceCutoffs?: {
     hbond?: number;
     saltBridge?: number;
     hydrophobic?: number;
     piPi?: number;
+    cationPi?: number;
   };
 }
 
+/**
+ * Aromatic ring geometry used for stacking interactions
+ */
+export interface RingGeometry {
+  atomNames: string[];
+  centroid: [number, number, number];
+  normal: [number, number, number]; // Unit vector perpendicular to ring plane
+}
+
+/**
+ * Geometric detail for ring-based interactions
+ */
+export interface InteractionGeometry {
+  ring1?: RingGeometry;
+  ring2?: RingGeometry;
+  angle?: number; // Angle between ring normals (pi-pi) or normal and cation vector (cation-pi), degrees
+  offset?: number; // Lateral displacement of the partner from the ring centroid, Å
+  stacking?: 'parallel' | 't-shaped';
+}
+
 /**
  * Detected molecular interaction
  */
 export interface Interaction {
   id: string;
-  type: 'hbond' | 'salt-bridge' | 'hydrophobic' | 'pi-pi';
+  type: 'hbond' | 'salt-bridge' | 'hydrophobic' | 'pi-pi' | 'cation-pi';
   residue1: {
     chainId: string;
     residueSeq: number;
@@ -329,4 +509,5 @@ export interface Interaction {
   };
   distance: number;
   energy?: number;
+  geometry?: InteractionGeometry;
 }
@@ -85,6 +85,11 @@ export interface PDBService {
    */
   fetchAlphaFoldStructure(uniprotId: string): Promise<Structure>;
 
+  /**
+   * Fetch the predicted aligned error of an AlphaFold prediction
+   */
+  fetchAlphaFoldPAE(uniprotId: string): Promise<PAEMatrix>;
+
   /**
    * Search structures by query
    */
@@ -126,6 +131,23 @@ export interface AlphaFoldMetadata {
   pLDDT: number; // Confidence score
 }
 
+/**
+ * AlphaFold predicted aligned error, row-major: values[i * size + j] is the
+ * expected position error in Å at residue j when aligned on residue i
+ */
+export interface PAEMatrix {
+  size: number;
+  values: number[];
+  max: number;
+}
+
+export interface CachedPAE {
+  id: string;
+  pae: PAEMatrix;
+  cachedAt: number;
+  lastAccessed: number;
+}
+
 export interface PDBError extends Error {
   code: 'NOT_FOUND' | 'PARSE_ERROR' | 'NETWORK_ERROR' | 'CACHE_ERROR' | 'INVALID_FORMAT';
   details?: unknown;
@@ -0,0 +1,63 @@
+/**
+ * Session Recording Type Definitions
+ * Timestamped event streams captured from collaboration sessions, and their
+ * stored form
+ */
+
+import type { DocumentOperation, RealtimeEvents } from './collaboration';
+
+/**
+ * Events a recording holds: everything sent over the session channel, plus
+ * the structure in the viewer and session document changes
+ */
+export interface RecordedEvents extends RealtimeEvents {
+  'structure-change': { structureId: string };
+  'document-ops': { operations: DocumentOperation[] };
+}
+
+export type RecordedEventType = keyof RecordedEvents;
+
+/**
+ * Event at a time, in milliseconds since the recording started
+ */
+export type RecordedEvent = {
+  [K in RecordedEventType]: { time: number; type: K; payload: RecordedEvents[K] };
+}[RecordedEventType];
+
+/**
+ * Stored form of an event: [milliseconds since the previous event, index
+ * into the recording's type table, payload]
+ */
+export type EncodedEvent = [number, number, unknown];
+
+export interface EncodedRecording {
+  version: number;
+  types: RecordedEventType[];
+  events: EncodedEvent[];
+}
+
+export interface SessionRecordingSummary {
+  id: string;
+  sessionId: string | null;
+  title: string;
+  recordedBy: string;
+  structureId: string | null;
+  durationMs: number;
+  eventCount: number;
+  isPublic: boolean; // Anyone with the link may watch, not just session members
+  startedAt: string;
+  createdAt: string;
+}
+
+export interface SessionRecording extends SessionRecordingSummary {
+  events: RecordedEvent[];
+}
+
+export interface SaveRecordingRequest {
+  sessionId: string;
+  title: string;
+  structureId?: string | null;
+  startedAt: number;
+  durationMs: number;
+  events: RecordedEvent[];
+}
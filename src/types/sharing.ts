@@ -0,0 +1,80 @@
+/**
+ * Structure Sharing Type Definitions
+ * Per-user and link-based grants on uploaded structures
+ */
+
+import type { SharePermission } from './collections';
+
+export type { SharePermission };
+
+/**
+ * What a user may do with a structure. Owners can do everything an admin
+ * share allows, and also delete the structure
+ */
+export type AccessLevel = 'owner' | SharePermission;
+
+/**
+ * Access to a structure for one user, or for anyone holding the token
+ */
+export interface StructureShare {
+  id: string;
+  structureId: string;
+  sharedBy: string;
+  sharedWith: {
+    id: string;
+    username: string | null;
+    displayName: string | null;
+  } | null; // Null for link shares
+  permission: SharePermission;
+  shareToken: string | null;
+  expiresAt: string | null;
+  maxViews: number | null;
+  viewCount: number;
+  lastAccessed: string | null;
+  createdAt: string;
+}
+
+export interface StructureAccess {
+  structureId: string;
+  level: AccessLevel | null; // Null when the user cannot open the structure
+}
+
+/**
+ * API Request/Response Types
+ */
+export interface ShareWithUserRequest {
+  username: string;
+  permission?: SharePermission;
+  expiresAt?: string;
+}
+
+export interface CreateShareLinkRequest {
+  permission?: Exclude<SharePermission, 'admin'>; // Links never hand out admin
+  expiresAt?: string;
+  maxViews?: number;
+}
+
+export interface RedeemedShare {
+  structureId: string;
+  level: AccessLevel;
+}
+
+/**
+ * Error Types
+ */
+export interface SharingError extends Error {
+  code: 'NOT_FOUND' | 'UNAUTHORIZED' | 'VALIDATION_ERROR' | 'PERMISSION_DENIED' | 'NETWORK_ERROR';
+  details?: unknown;
+}
+
+/**
+ * Service Interface
+ */
+export interface IStructureSharingService {
+  getAccess(structureId: string): Promise<StructureAccess>;
+  listShares(structureId: string): Promise<StructureShare[]>;
+  shareWithUser(structureId: string, data: ShareWithUserRequest): Promise<StructureShare>;
+  createShareLink(structureId: string, data?: CreateShareLinkRequest): Promise<StructureShare>;
+  revokeShare(structureId: string, shareId: string): Promise<void>;
+  redeemShareLink(token: string): Promise<RedeemedShare>;
+}
@@ -0,0 +1,87 @@
+/**
+ * Structure Comment Type Definitions
+ * Threaded discussion of a structure, anchored to residues or atoms
+ */
+
+/**
+ * Residue (and optionally atom) a thread is about
+ */
+export interface CommentTarget {
+  chainId: string;
+  residueSeq: number;
+  residueName: string;
+  atomName?: string;
+}
+
+export interface StructureComment {
+  id: string;
+  structureId: string;
+  parentId: string | null;
+  author: {
+    id: string;
+    username: string | null;
+    displayName: string | null;
+    avatarUrl: string | null;
+  };
+  content: string;
+  target: CommentTarget | null;
+  position: [number, number, number] | null;
+  versionNumber: number | null; // Structure version the comment was written against
+  likeCount: number;
+  likedByMe: boolean;
+  resolved: boolean;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Top-level comment with its replies, oldest first
+ */
+export interface CommentThread extends StructureComment {
+  replies: StructureComment[];
+}
+
+/**
+ * API Request/Response Types
+ */
+export interface CreateCommentRequest {
+  content: string;
+  parentId?: string; // Replies inherit the parent's anchor
+  target?: CommentTarget;
+  position?: [number, number, number];
+  versionNumber?: number;
+}
+
+export interface UpdateCommentRequest {
+  content?: string;
+  resolved?: boolean;
+}
+
+export interface ListCommentsFilters {
+  includeResolved?: boolean;
+  chainId?: string;
+  residueSeq?: number;
+}
+
+/**
+ * Error Types
+ */
+export interface CommentError extends Error {
+  code: 'NOT_FOUND' | 'UNAUTHORIZED' | 'VALIDATION_ERROR' | 'PERMISSION_DENIED' | 'NETWORK_ERROR';
+  details?: unknown;
+}
+
+/**
+ * Service Interface
+ */
+export interface IStructureCommentsService {
+  resolveStructureId(idOrPdbId: string, register?: boolean): Promise<string | null>;
+  listThreads(structureId: string, filters?: ListCommentsFilters): Promise<CommentThread[]>;
+  addComment(structureId: string, data: CreateCommentRequest): Promise<StructureComment>;
+  updateComment(commentId: string, data: UpdateCommentRequest): Promise<StructureComment>;
+  deleteComment(commentId: string): Promise<void>;
+  likeComment(commentId: string): Promise<void>;
+  unlikeComment(commentId: string): Promise<void>;
+}
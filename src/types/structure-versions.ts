@@ -0,0 +1,57 @@
+/**
+ * Structure Version Type Definitions
+ * Versioned uploads of a structure and the diffs between them
+ */
+
+import type { ParsedStructure } from '@/lib/pdb-parser';
+import type { StructureDiff, StructureSummary } from '@/lib/structure-diff';
+
+/**
+ * One uploaded file of a structure
+ */
+export interface StructureVersion {
+  id: string;
+  structureId: string;
+  versionNumber: number;
+  filePath: string; // Path in the structures storage bucket
+  fileHash: string; // SHA-256 of the file content
+  changes: string | null; // Uploader's note, or a description of the diff
+  summary: StructureSummary | null;
+  diff: StructureDiff | null; // Against the previous version; null for version 1
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * API Request/Response Types
+ */
+export interface RecordUploadRequest {
+  content: string;
+  filename: string;
+  structure: ParsedStructure;
+  structureId?: string; // Add a version to this structure instead of creating one
+  name?: string;
+  changes?: string;
+}
+
+export interface RecordedUpload {
+  structureId: string;
+  version: StructureVersion;
+  isNewVersion: boolean; // False when the file matches the latest version
+}
+
+/**
+ * Error Types
+ */
+export interface VersionError extends Error {
+  code: 'NOT_FOUND' | 'UNAUTHORIZED' | 'VALIDATION_ERROR' | 'PERMISSION_DENIED' | 'NETWORK_ERROR';
+  details?: unknown;
+}
+
+/**
+ * Service Interface
+ */
+export interface IStructureVersionsService {
+  recordUpload(data: RecordUploadRequest): Promise<RecordedUpload>;
+  listVersions(structureId: string): Promise<StructureVersion[]>;
+}
@@ -0,0 +1,569 @@
+/**
+ * Non-Covalent Interaction Detection Utilities
+ *
+ * Pure calculation functions for detecting salt bridges, hydrophobic contacts,
+ * pi-pi stacking and cation-pi interactions. These utilities operate on flat
+ * atom lists and can be used independently of MolStar.
+ *
+ * Scientific Criteria (defaults follow PLIP, Salentin et al. 2015):
+ * - Salt bridge: ARG/LYS cationic N to ASP/GLU carboxylate O within 4.0 Å
+ * - Hydrophobic: side-chain/ligand carbons within 5.0 Å, |i-j| >= 2 in chain
+ * - Pi-pi: ring centroids within cutoff, lateral offset <= 2.0 Å,
+ *   normals < 30° (parallel) or 60-90° (T-shaped)
+ * - Cation-pi: cation to ring centroid within 6.0 Å, lateral offset <= 2.0 Å
+ */
+
+import type { Interaction, InteractionGeometry, RingGeometry } from '@/types/molstar';
+import { detectHydrogenBonds, type SimpleAtom } from './hydrogen-bond-utils';
+
+type Vec3 = [number, number, number];
+
+/**
+ * Atom representation for interaction detection
+ */
+export interface InteractionAtom {
+  chainId: string;
+  residueSeq: number;
+  residueName: string;
+  atomName: string;
+  element: string;
+  position: Vec3;
+  isHet?: boolean;
+}
+
+/**
+ * Distance cutoffs for each interaction type (Å)
+ */
+export interface InteractionCutoffs {
+  hbond: number;
+  saltBridge: number;
+  hydrophobic: number;
+  piPi: number;
+  cationPi: number;
+}
+
+/**
+ * Detection flags and cutoffs
+ */
+export interface InteractionDetectionOptions {
+  detectHBonds?: boolean;
+  detectSaltBridges?: boolean;
+  detectHydrophobic?: boolean;
+  detectPiPi?: boolean;
+  detectCationPi?: boolean;
+  cutoffs?: Partial<InteractionCutoffs>;
+}
+
+/**
+ * Aromatic ring with its owning residue
+ */
+export interface AromaticRing extends RingGeometry {
+  chainId: string;
+  residueSeq: number;
+  residueName: string;
+}
+
+export const DEFAULT_INTERACTION_CUTOFFS: InteractionCutoffs = {
+  hbond: 3.5,
+  saltBridge: 4.0,
+  hydrophobic: 5.0,
+  piPi: 6.0,
+  cationPi: 6.0,
+};
+
+// Maximum lateral offset of a stacking partner from the ring centroid
+const MAX_RING_OFFSET = 2.0;
+
+// Ring normal angle windows (degrees)
+const PARALLEL_MAX_ANGLE = 30;
+const T_SHAPED_MIN_ANGLE = 60;
+
+// Distance-dependent dielectric (epsilon = 4r) Coulomb constant, kcal·Å/(mol·e²)
+const COULOMB_CONSTANT = 332.0636;
+
+const CATIONIC_ATOMS: Record<string, string[]> = {
+  ARG: ['NE', 'NH1', 'NH2'],
+  LYS: ['NZ'],
+};
+
+const ANIONIC_ATOMS: Record<string, string[]> = {
+  ASP: ['OD1', 'OD2'],
+  GLU: ['OE1', 'OE2'],
+};
+
+// Atoms representing the charge centre for cation-pi (guanidinium carbon, ammonium N)
+const CATION_PI_ATOMS: Record<string, string[]> = {
+  ARG: ['CZ'],
+  LYS: ['NZ'],
+};
+
+const HYDROPHOBIC_RESIDUES = new Set([
+  'ALA', 'VAL', 'LEU', 'ILE', 'MET', 'PHE', 'TRP', 'PRO', 'TYR',
+]);
+
+// Carbons bonded to N or O are polar and excluded from hydrophobic contacts
+const POLAR_CARBONS: Record<string, string[]> = {
+  PRO: ['CD'],
+  TRP: ['CD1', 'CE2'],
+  TYR: ['CZ'],
+};
+
+const AROMATIC_RINGS: Record<string, string[][]> = {
+  PHE: [['CG', 'CD1', 'CD2', 'CE1', 'CE2', 'CZ']],
+  TYR: [['CG', 'CD1', 'CD2', 'CE1', 'CE2', 'CZ']],
+  TRP: [
+    ['CG', 'CD1', 'NE1', 'CE2', 'CD2'],
+    ['CD2', 'CE2', 'CE3', 'CZ2', 'CZ3', 'CH2'],
+  ],
+  HIS: [['CG', 'ND1', 'CD2', 'CE1', 'NE2']],
+};
+
+const BACKBONE_ATOMS = new Set(['N', 'CA', 'C', 'O', 'OXT']);
+
+const WATER_RESIDUES = new Set(['HOH', 'WAT', 'H2O', 'DOD']);
+
+/**
+ * Residue key used for grouping atoms
+ */
+function residueKey(atom: { chainId: string; residueSeq: number; residueName: string }): string {
+  return `${atom.chainId}:${atom.residueSeq}:${atom.residueName}`;
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+}
+
+function norm(a: Vec3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+/**
+ * Calculate Euclidean distance between two 3D points
+ */
+export function distance(a: Vec3, b: Vec3): number {
+  return norm(sub(a, b));
+}
+
+/**
+ * Angle in degrees between two vectors, folded into [0, 90] for plane normals
+ */
+function planeAngle(n1: Vec3, n2: Vec3): number {
+  const cos = Math.abs(dot(n1, n2)) / (norm(n1) * norm(n2) || 1);
+  return (Math.acos(Math.min(1, cos)) * 180) / Math.PI;
+}
+
+/**
+ * Distance of a point from the ring centroid measured within the ring plane
+ */
+function lateralOffset(point: Vec3, ring: RingGeometry): number {
+  const v = sub(point, ring.centroid);
+  const h = dot(v, ring.normal);
+  return Math.sqrt(Math.max(0, dot(v, v) - h * h));
+}
+
+/**
+ * Uniform grid for neighbour queries, cell size equal to the largest cutoff
+ */
+class SpatialGrid<T extends { position: Vec3 }> {
+  private cells = new Map<string, T[]>();
+
+  constructor(items: T[], private cellSize: number) {
+    for (const item of items) {
+      const key = this.cellKey(item.position);
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(item);
+      } else {
+        this.cells.set(key, [item]);
+      }
+    }
+  }
+
+  private cellKey(p: Vec3): string {
+    return `${Math.floor(p[0] / this.cellSize)},${Math.floor(p[1] / this.cellSize)},${Math.floor(p[2] / this.cellSize)}`;
+  }
+
+  /**
+   * Items in the 27 cells surrounding a position (candidates within cellSize)
+   */
+  neighbours(p: Vec3): T[] {
+    const cx = Math.floor(p[0] / this.cellSize);
+    const cy = Math.floor(p[1] / this.cellSize);
+    const cz = Math.floor(p[2] / this.cellSize);
+    const result: T[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const cell = this.cells.get(`${cx + dx},${cy + dy},${cz + dz}`);
+          if (cell) result.push(...cell);
+        }
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Compute centroid and plane normal of a ring from its atom positions
+ *
+ * Uses Newell's method, which is robust for slightly non-planar rings.
+ */
+export function calculateRingGeometry(positions: Vec3[]): { centroid: Vec3; normal: Vec3 } | null {
+  if (positions.length < 3) return null;
+
+  const centroid: Vec3 = [0, 0, 0];
+  for (const p of positions) {
+    centroid[0] += p[0];
+    centroid[1] += p[1];
+    centroid[2] += p[2];
+  }
+  centroid[0] /= positions.length;
+  centroid[1] /= positions.length;
+  centroid[2] /= positions.length;
+
+  // Order atoms by angle around the centroid so Newell's sum follows the ring
+  const u = sub(positions[0], centroid);
+  let roughNormal: Vec3 = [0, 0, 0];
+  for (let i = 1; i < positions.length && norm(roughNormal) < 1e-6; i++) {
+    roughNormal = cross(u, sub(positions[i], centroid));
+  }
+  const w = cross(roughNormal, u);
+  const ordered = [...positions].sort((a, b) => {
+    const va = sub(a, centroid);
+    const vb = sub(b, centroid);
+    return Math.atan2(dot(va, w), dot(va, u)) - Math.atan2(dot(vb, w), dot(vb, u));
+  });
+
+  const normal: Vec3 = [0, 0, 0];
+  for (let i = 0; i < ordered.length; i++) {
+    const a = ordered[i];
+    const b = ordered[(i + 1) % ordered.length];
+    normal[0] += (a[1] - b[1]) * (a[2] + b[2]);
+    normal[1] += (a[2] - b[2]) * (a[0] + b[0]);
+    normal[2] += (a[0] - b[0]) * (a[1] + b[1]);
+  }
+
+  const length = norm(normal);
+  if (length === 0) return null;
+
+  return {
+    centroid,
+    normal: [normal[0] / length, normal[1] / length, normal[2] / length],
+  };
+}
+
+/**
+ * Locate aromatic rings of PHE, TYR, TRP and HIS side chains
+ */
+export function findAromaticRings(atoms: InteractionAtom[]): AromaticRing[] {
+  const byResidue = new Map<string, InteractionAtom[]>();
+  for (const atom of atoms) {
+    if (!AROMATIC_RINGS[atom.residueName]) continue;
+    const key = residueKey(atom);
+    const list = byResidue.get(key);
+    if (list) {
+      list.push(atom);
+    } else {
+      byResidue.set(key, [atom]);
+    }
+  }
+
+  const rings: AromaticRing[] = [];
+  for (const residueAtoms of byResidue.values()) {
+    const first = residueAtoms[0];
+    for (const ringNames of AROMATIC_RINGS[first.residueName]) {
+      const positions: Vec3[] = [];
+      for (const name of ringNames) {
+        const atom = residueAtoms.find(a => a.atomName === name);
+        if (atom) positions.push(atom.position);
+      }
+      // Skip incompletely resolved rings
+      if (positions.length !== ringNames.length) continue;
+
+      const geometry = calculateRingGeometry(positions);
+      if (!geometry) continue;
+
+      rings.push({
+        chainId: first.chainId,
+        residueSeq: first.residueSeq,
+        residueName: first.residueName,
+        atomNames: ringNames,
+        ...geometry,
+      });
+    }
+  }
+
+  return rings;
+}
+
+function residueRef(atom: { chainId: string; residueSeq: number; residueName: string }, atomName?: string) {
+  return {
+    chainId: atom.chainId,
+    residueSeq: atom.residueSeq,
+    residueName: atom.residueName,
+    atomName,
+  };
+}
+
+/**
+ * Keep only the shortest contact for each unordered residue pair
+ */
+function keepClosestPerResiduePair(
+  best: Map<string, Interaction>,
+  interaction: Interaction
+): void {
+  const k1 = residueKey(interaction.residue1);
+  const k2 = residueKey(interaction.residue2);
+  const key = k1 < k2 ? `${k1}|${k2}` : `${k2}|${k1}`;
+  const existing = best.get(key);
+  if (!existing || interaction.distance < existing.distance) {
+    best.set(key, interaction);
+  }
+}
+
+/**
+ * Detect salt bridges between ARG/LYS and ASP/GLU side chains
+ */
+export function detectSaltBridges(atoms: InteractionAtom[], cutoff: number): Interaction[] {
+  const cations = atoms.filter(a => CATIONIC_ATOMS[a.residueName]?.includes(a.atomName));
+  const anions = atoms.filter(a => ANIONIC_ATOMS[a.residueName]?.includes(a.atomName));
+  const grid = new SpatialGrid(anions, cutoff);
+  const best = new Map<string, Interaction>();
+
+  for (const cation of cations) {
+    for (const anion of grid.neighbours(cation.position)) {
+      const d = distance(cation.position, anion.position);
+      if (d > cutoff) continue;
+
+      keepClosestPerResiduePair(best, {
+        id: '',
+        type: 'salt-bridge',
+        residue1: residueRef(cation, cation.atomName),
+        residue2: residueRef(anion, anion.atomName),
+        distance: d,
+        // Coulomb energy of unit charges with epsilon = 4r
+        energy: -COULOMB_CONSTANT / (4 * d * d),
+      });
+    }
+  }
+
+  return Array.from(best.values());
+}
+
+function isHydrophobicCarbon(atom: InteractionAtom): boolean {
+  if (atom.element !== 'C') return false;
+  if (atom.isHet) {
+    return !WATER_RESIDUES.has(atom.residueName);
+  }
+  if (!HYDROPHOBIC_RESIDUES.has(atom.residueName)) return false;
+  if (BACKBONE_ATOMS.has(atom.atomName)) return false;
+  return !POLAR_CARBONS[atom.residueName]?.includes(atom.atomName);
+}
+
+/**
+ * Detect hydrophobic contacts between apolar side-chain or ligand carbons
+ *
+ * Contacts between residues adjacent in sequence are ignored.
+ */
+export function detectHydrophobicContacts(atoms: InteractionAtom[], cutoff: number): Interaction[] {
+  const carbons = atoms.filter(isHydrophobicCarbon);
+  const grid = new SpatialGrid(carbons, cutoff);
+  const best = new Map<string, Interaction>();
+
+  for (const a of carbons) {
+    const keyA = residueKey(a);
+    for (const b of grid.neighbours(a.position)) {
+      const keyB = residueKey(b);
+      // Visit each unordered pair once
+      if (keyA >= keyB) continue;
+      if (a.chainId === b.chainId && !a.isHet && !b.isHet && Math.abs(a.residueSeq - b.residueSeq) < 2) {
+        continue;
+      }
+
+      const d = distance(a.position, b.position);
+      if (d > cutoff) continue;
+
+      keepClosestPerResiduePair(best, {
+        id: '',
+        type: 'hydrophobic',
+        residue1: residueRef(a, a.atomName),
+        residue2: residueRef(b, b.atomName),
+        distance: d,
+      });
+    }
+  }
+
+  return Array.from(best.values());
+}
+
+/**
+ * Detect parallel and T-shaped pi-pi stacking between aromatic rings
+ */
+export function detectPiStacking(rings: AromaticRing[], cutoff: number): Interaction[] {
+  const interactions: Interaction[] = [];
+
+  for (let i = 0; i < rings.length; i++) {
+    for (let j = i + 1; j < rings.length; j++) {
+      const r1 = rings[i];
+      const r2 = rings[j];
+      if (residueKey(r1) === residueKey(r2)) continue;
+
+      const d = distance(r1.centroid, r2.centroid);
+      if (d > cutoff) continue;
+
+      const angle = planeAngle(r1.normal, r2.normal);
+      let stacking: InteractionGeometry['stacking'];
+      if (angle <= PARALLEL_MAX_ANGLE) {
+        stacking = 'parallel';
+      } else if (angle >= T_SHAPED_MIN_ANGLE) {
+        stacking = 't-shaped';
+      } else {
+        continue;
+      }
+
+      const offset = Math.min(lateralOffset(r2.centroid, r1), lateralOffset(r1.centroid, r2));
+      if (offset > MAX_RING_OFFSET) continue;
+
+      interactions.push({
+        id: '',
+        type: 'pi-pi',
+        residue1: residueRef(r1),
+        residue2: residueRef(r2),
+        distance: d,
+        geometry: { ring1: toRingGeometry(r1), ring2: toRingGeometry(r2), angle, offset, stacking },
+      });
+    }
+  }
+
+  return interactions;
+}
+
+/**
+ * Detect cation-pi interactions between ARG/LYS cations and aromatic rings
+ */
+export function detectCationPi(
+  atoms: InteractionAtom[],
+  rings: AromaticRing[],
+  cutoff: number
+): Interaction[] {
+  const cations = atoms.filter(a => CATION_PI_ATOMS[a.residueName]?.includes(a.atomName));
+  const interactions: Interaction[] = [];
+
+  for (const ring of rings) {
+    for (const cation of cations) {
+      const d = distance(cation.position, ring.centroid);
+      if (d > cutoff) continue;
+
+      const offset = lateralOffset(cation.position, ring);
+      if (offset > MAX_RING_OFFSET) continue;
+
+      interactions.push({
+        id: '',
+        type: 'cation-pi',
+        residue1: residueRef(cation, cation.atomName),
+        residue2: residueRef(ring),
+        distance: d,
+        geometry: {
+          ring2: toRingGeometry(ring),
+          angle: planeAngle(ring.normal, sub(cation.position, ring.centroid)),
+          offset,
+        },
+      });
+    }
+  }
+
+  return interactions;
+}
+
+function toRingGeometry(ring: AromaticRing): RingGeometry {
+  return { atomNames: ring.atomNames, centroid: ring.centroid, normal: ring.normal };
+}
+
+/**
+ * Detect inter-residue hydrogen bonds using the shared H-bond criteria
+ */
+export function detectResidueHydrogenBonds(atoms: InteractionAtom[], cutoff: number): Interaction[] {
+  const lookup = new Map<string, InteractionAtom>();
+  const simpleAtoms: SimpleAtom[] = [];
+
+  for (const atom of atoms) {
+    if (WATER_RESIDUES.has(atom.residueName)) continue;
+    const residueId = residueKey(atom);
+    lookup.set(residueId, atom);
+    simpleAtoms.push({
+      residueId,
+      atomName: atom.atomName,
+      element: atom.element,
+      position: atom.position,
+    });
+  }
+
+  return detectHydrogenBonds({ atoms: simpleAtoms }, { maxDistance: cutoff })
+    .filter(hbond => hbond.donorAtom.residueId !== hbond.acceptorAtom.residueId)
+    .map(hbond => ({
+      id: '',
+      type: 'hbond' as const,
+      residue1: residueRef(lookup.get(hbond.donorAtom.residueId)!, hbond.donorAtom.atomName),
+      residue2: residueRef(lookup.get(hbond.acceptorAtom.residueId)!, hbond.acceptorAtom.atomName),
+      distance: hbond.distance,
+    }));
+}
+
+/**
+ * Detect all requested non-covalent interactions
+ *
+ * @param atoms Flat atom list of the structure
+ * @param options Detection flags and distance cutoffs
+ * @returns Interactions grouped by type, with sequential ids
+ */
+export function detectNonCovalentInteractions(
+  atoms: InteractionAtom[],
+  options: InteractionDetectionOptions = {}
+): Interaction[] {
+  const {
+    detectHBonds = true,
+    detectSaltBridges: saltBridges = true,
+    detectHydrophobic = true,
+    detectPiPi = false,
+    detectCationPi: cationPi = detectPiPi,
+  } = options;
+  const cutoffs: InteractionCutoffs = { ...DEFAULT_INTERACTION_CUTOFFS, ...options.cutoffs };
+
+  const interactions: Interaction[] = [];
+
+  if (detectHBonds) {
+    interactions.push(...detectResidueHydrogenBonds(atoms, cutoffs.hbond));
+  }
+  if (saltBridges) {
+    interactions.push(...detectSaltBridges(atoms, cutoffs.saltBridge));
+  }
+  if (detectHydrophobic) {
+    interactions.push(...detectHydrophobicContacts(atoms, cutoffs.hydrophobic));
+  }
+  if (detectPiPi || cationPi) {
+    const rings = findAromaticRings(atoms);
+    if (detectPiPi) {
+      interactions.push(...detectPiStacking(rings, cutoffs.piPi));
+    }
+    if (cationPi) {
+      interactions.push(...detectCationPi(atoms, rings, cutoffs.cationPi));
+    }
+  }
+
+  return interactions.map((interaction, index) => ({
+    ...interaction,
+    id: `${interaction.type}-${index + 1}`,
+  }));
+}
@@ -0,0 +1,59 @@
+/**
+ * Binding Sites Web Worker
+ *
+ * Detects pockets off the main thread; the buriedness scan visits every grid
+ * point along seven directions and can take seconds for large structures
+ */
+
+import { detectPockets, type Pocket, type PocketOptions } from '../lib/binding-sites';
+import type { Atom } from '../types/pdb';
+
+/**
+ * Message types
+ */
+interface PocketsMessage {
+  type: 'pockets';
+  id: number;
+  atoms: Atom[];
+  options: PocketOptions;
+}
+
+interface PocketsResultMessage {
+  type: 'result';
+  id: number;
+  pockets: Pocket[];
+}
+
+interface PocketsErrorMessage {
+  type: 'error';
+  id: number;
+  error: string;
+}
+
+export type BindingSitesWorkerRequest = PocketsMessage;
+export type BindingSitesWorkerResponse = PocketsResultMessage | PocketsErrorMessage;
+
+self.addEventListener('message', (event: MessageEvent<BindingSitesWorkerRequest>) => {
+  const { type, id } = event.data;
+
+  try {
+    if (type !== 'pockets') {
+      throw new Error(`Unknown message type: ${type}`);
+    }
+
+    const { atoms, options } = event.data;
+    const response: BindingSitesWorkerResponse = {
+      type: 'result',
+      id,
+      pockets: detectPockets(atoms, options),
+    };
+    self.postMessage(response);
+  } catch (error) {
+    const response: BindingSitesWorkerResponse = {
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+    self.postMessage(response);
+  }
+});
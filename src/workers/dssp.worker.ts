@@ -0,0 +1,56 @@
+/**
+ * DSSP Web Worker
+ *
+ * Assigns secondary structure from backbone coordinates off the main thread,
+ * once per structure or trajectory frame
+ */
+
+import { assignSecondaryStructure, type BackboneResidue, type SecondaryStructureCode } from '../lib/dssp';
+
+/**
+ * Message types
+ */
+interface AssignMessage {
+  type: 'assign';
+  id: number;
+  residues: BackboneResidue[];
+}
+
+interface AssignResultMessage {
+  type: 'result';
+  id: number;
+  codes: SecondaryStructureCode[];
+}
+
+interface AssignErrorMessage {
+  type: 'error';
+  id: number;
+  error: string;
+}
+
+export type DSSPWorkerRequest = AssignMessage;
+export type DSSPWorkerResponse = AssignResultMessage | AssignErrorMessage;
+
+self.addEventListener('message', (event: MessageEvent<DSSPWorkerRequest>) => {
+  const { type, id } = event.data;
+
+  try {
+    if (type !== 'assign') {
+      throw new Error(`Unknown message type: ${type}`);
+    }
+
+    const response: DSSPWorkerResponse = {
+      type: 'result',
+      id,
+      codes: assignSecondaryStructure(event.data.residues),
+    };
+    self.postMessage(response);
+  } catch (error) {
+    const response: DSSPWorkerResponse = {
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+    self.postMessage(response);
+  }
+});
@@ -0,0 +1,63 @@
+/**
+ * Electrostatics Web Worker
+ *
+ * Computes electrostatic potentials for surface coloring off the main thread;
+ * the Poisson–Boltzmann grid can take seconds for large structures
+ */
+
+import {
+  coulombPotential,
+  poissonBoltzmannPotential,
+  type ChargedAtom,
+  type ElectrostaticsMethod,
+} from '../lib/surface-properties';
+
+/**
+ * Message types
+ */
+interface PotentialMessage {
+  type: 'potential';
+  id: number;
+  method: ElectrostaticsMethod;
+  atoms: ChargedAtom[];
+}
+
+interface PotentialResultMessage {
+  type: 'result';
+  id: number;
+  values: number[];
+}
+
+interface PotentialErrorMessage {
+  type: 'error';
+  id: number;
+  error: string;
+}
+
+export type ElectrostaticsWorkerRequest = PotentialMessage;
+export type ElectrostaticsWorkerResponse = PotentialResultMessage | PotentialErrorMessage;
+
+self.addEventListener('message', (event: MessageEvent<ElectrostaticsWorkerRequest>) => {
+  const { type, id } = event.data;
+
+  try {
+    if (type !== 'potential') {
+      throw new Error(`Unknown message type: ${type}`);
+    }
+
+    const { method, atoms } = event.data;
+    const response: ElectrostaticsWorkerResponse = {
+      type: 'result',
+      id,
+      values: method === 'poisson-boltzmann' ? poissonBoltzmannPotential(atoms) : coulombPotential(atoms),
+    };
+    self.postMessage(response);
+  } catch (error) {
+    const response: ElectrostaticsWorkerResponse = {
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+    self.postMessage(response);
+  }
+});
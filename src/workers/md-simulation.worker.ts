@@ -4,7 +4,13 @@
  * Offloads CPU-intensive force and energy calculations from main thread
  */
 
-import { createMDSimulation, MDSimulationParams, EnergyComponents } from '../services/md-simulation';
+import {
+  createMDSimulation,
+  MDSimulationParams,
+  EnergyComponents,
+  MinimizationConfig,
+  MolecularTopology
+} from '../services/md-simulation';
 import { SimulationFrame } from '../lib/md-browser-dynamica';
 
 interface WorkerMessage {
@@ -57,13 +63,15 @@ self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
 };
 
 /**
- * Initialize force field
+ * Initialize force field and optional topology
  */
 function handleInitialize(payload: {
   forceField: 'AMBER' | 'CHARMM' | 'OPLS';
   customParams?: any;
+  topology?: MolecularTopology;
 }) {
   mdService.setForceField(payload.forceField, payload.customParams);
+  mdService.setTopology(payload.topology ?? null);
 
   sendResponse({
     type: 'initialized',
@@ -98,12 +106,7 @@ function handleCalculateEnergy(payload: {
 async function handleMinimize(payload: {
   positions: Float32Array;
   atomCount: number;
-  config: {
-    algorithm: 'steepest-descent' | 'conjugate-gradient' | 'lbfgs';
-    maxIterations: number;
-    tolerance: number;
-    stepSize: number;
-  };
+  config: MinimizationConfig;
 }) {
   isRunning = true;
 
@@ -111,7 +114,7 @@ async function handleMinimize(payload: {
     payload.positions,
     payload.atomCount,
     payload.config,
-    (iteration, energy) => {
+    (iteration, energy, rmsForce) => {
       // Report progress
       sendResponse({
         type: 'progress',
@@ -119,6 +122,7 @@ async function handleMinimize(payload: {
           phase: 'minimization',
           iteration,
           energy,
+          rmsForce,
           progress: (iteration / payload.config.maxIterations) * 100
         }
       });
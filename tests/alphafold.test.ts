@@ -0,0 +1,102 @@
+/**
+ * AlphaFold Confidence Test Suite
+ * Tests pLDDT banding and PAE parsing and domain detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  confidenceSummary,
+  paeDomains,
+  paeValue,
+  parsePAE,
+  plddtBand,
+  residueConfidence,
+} from '../src/lib/alphafold';
+import type { Atom, PAEMatrix } from '../src/types/pdb';
+
+function atom(residueSeq: number, name: string, tempFactor: number, isLigand = false): Atom {
+  return {
+    serial: residueSeq * 10,
+    name,
+    residue: 'ALA',
+    chain: 'A',
+    residueSeq,
+    x: 0,
+    y: 0,
+    z: 0,
+    occupancy: 1,
+    tempFactor,
+    element: name[0],
+    isLigand,
+  } as Atom;
+}
+
+/**
+ * Matrix with low error inside the given blocks and high error elsewhere
+ */
+function blockMatrix(size: number, blocks: Array<[number, number]>): PAEMatrix {
+  const values = new Array<number>(size * size).fill(25);
+  for (const [start, end] of blocks) {
+    for (let i = start; i <= end; i++) {
+      for (let j = start; j <= end; j++) values[i * size + j] = i === j ? 0 : 2;
+    }
+  }
+  return { size, values, max: 31.75 };
+}
+
+describe('AlphaFold confidence', () => {
+  it('bands pLDDT values like the AlphaFold Database', () => {
+    expect(plddtBand(95).label).toBe('Very high');
+    expect(plddtBand(90).label).toBe('Very high');
+    expect(plddtBand(70).label).toBe('Confident');
+    expect(plddtBand(55).label).toBe('Low');
+    expect(plddtBand(12).label).toBe('Very low');
+  });
+
+  it('reads per-residue pLDDT from C-alpha B-factors and skips ligands', () => {
+    const residues = residueConfidence([
+      atom(1, 'N', 40),
+      atom(1, 'CA', 92),
+      atom(2, 'CA', 60),
+      atom(3, 'C1', 10, true),
+    ]);
+
+    expect(residues.map((residue) => [residue.residueSeq, residue.plddt])).toEqual([
+      [1, 92],
+      [2, 60],
+    ]);
+
+    const summary = confidenceSummary(residues);
+    expect(summary.mean).toBe(76);
+    expect(summary.bands.map((band) => band.count)).toEqual([1, 0, 1, 0]);
+  });
+
+  it('parses the current PAE matrix format', () => {
+    const pae = parsePAE([{ predicted_aligned_error: [[0, 3], [5, 0]], max_predicted_aligned_error: 31.75 }]);
+
+    expect(pae).toEqual({ size: 2, values: [0, 3, 5, 0], max: 31.75 });
+    expect(paeValue(pae, 1, 0)).toBe(5);
+  });
+
+  it('parses the v1 residue pair format', () => {
+    const pae = parsePAE([{ residue1: [1, 1, 2, 2], residue2: [1, 2, 1, 2], distance: [0, 3, 5, 0] }]);
+
+    expect(pae).toEqual({ size: 2, values: [0, 3, 5, 0], max: 5 });
+  });
+
+  it('rejects unrecognised or ragged PAE files', () => {
+    expect(() => parsePAE({ foo: 1 })).toThrow('Unrecognised PAE format');
+    expect(() => parsePAE({ predicted_aligned_error: [[0, 1], [1]] })).toThrow('PAE matrix is not square');
+  });
+
+  it('finds confident domains separated by a flexible linker', () => {
+    const domains = paeDomains(blockMatrix(60, [[0, 24], [35, 59]]));
+
+    expect(domains.map(({ start, end }) => [start, end])).toEqual([
+      [0, 24],
+      [35, 59],
+    ]);
+    expect(domains[0].meanError).toBeCloseTo(2);
+    expect(paeDomains(blockMatrix(60, [[0, 24]]), { minLength: 30 })).toEqual([]);
+  });
+});
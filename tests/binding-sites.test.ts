@@ -0,0 +1,112 @@
+/**
+ * Binding Sites Test Suite
+ * Tests ligand detection, binding-site residues and grid-based pocket detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bindingSiteResidues, detectPockets, findBindingSites, findLigands } from '../src/lib/binding-sites';
+import type { Atom } from '../src/types/pdb';
+
+let serial = 0;
+const makeAtom = (residue: string, residueSeq: number, chain: string, [x, y, z]: number[], isLigand = false, element = 'C'): Atom => ({
+  serial: ++serial,
+  name: element,
+  element,
+  residue,
+  residueSeq,
+  chain,
+  x,
+  y,
+  z,
+  occupancy: 1,
+  tempFactor: 0,
+  isLigand,
+});
+
+/**
+ * Closed cubic shell of carbon atoms 1.5 Å apart, one residue per face
+ */
+function hollowBox(half: number): Atom[] {
+  const atoms: Atom[] = [];
+  const steps = Math.round((2 * half) / 1.5);
+  const coordinates = Array.from({ length: steps + 1 }, (_, i) => -half + (2 * half * i) / steps);
+  let face = 0;
+  for (const axis of [0, 1, 2]) {
+    for (const side of [-half, half]) {
+      face++;
+      for (const u of coordinates) {
+        for (const v of coordinates) {
+          const p = [u, v];
+          p.splice(axis, 0, side);
+          atoms.push(makeAtom('LEU', face, 'A', p));
+        }
+      }
+    }
+  }
+  return atoms;
+}
+
+describe('binding-sites', () => {
+  it('should list ligands and the residues around them', () => {
+    const atoms = [
+      makeAtom('ALA', 1, 'A', [3, 0, 0]),
+      makeAtom('GLY', 2, 'A', [7, 0, 0]),
+      makeAtom('MSE', 3, 'A', [0, 4, 0], true),
+      makeAtom('HOH', 101, 'A', [0, 0, 2], true, 'O'),
+      makeAtom('NAD', 301, 'A', [0, 0, 0], true),
+      makeAtom('NAD', 301, 'A', [1, 0, 0], true, 'N'),
+      makeAtom('ZN', 401, 'B', [20, 0, 0], true, 'ZN'),
+    ];
+
+    const ligands = findLigands(atoms);
+    expect(ligands.map((ligand) => [ligand.id, ligand.atomCount, ligand.isIon])).toEqual([
+      ['NAD:A:301', 2, false],
+      ['ZN:B:401', 1, true],
+    ]);
+    expect(ligands[0].center).toEqual([0.5, 0, 0]);
+
+    // Modified residues count as polymer, water does not
+    const residues = bindingSiteResidues(atoms, ligands[0], 5);
+    expect(residues.map((residue) => [residue.residue, residue.minDistance])).toEqual([
+      ['ALA', 2],
+      ['MSE', Math.hypot(0, 4)],
+    ]);
+    expect(bindingSiteResidues(atoms, ligands[0], 6.5).map((residue) => residue.residueSeq)).toEqual([1, 2, 3]);
+
+    const sites = findBindingSites(atoms, 5);
+    expect(sites[1].residues).toEqual([]);
+  });
+
+  it('should find an enclosed cavity with its volume, lining residues and ligand', () => {
+    const atoms = [...hollowBox(6), makeAtom('BEN', 1, 'L', [0, 0, 0], true)];
+
+    const pockets = detectPockets(atoms);
+    expect(pockets).toHaveLength(1);
+
+    const [pocket] = pockets;
+    // Grid points more than a van der Waals radius inside each wall: 9 x 9 x 9 at 1 Å
+    expect(pocket.volume).toBe(729);
+    expect(pocket.buriedness).toBeGreaterThan(6);
+    pocket.center.forEach((value) => expect(value).toBeCloseTo(0, 6));
+    expect(pocket.residues.map((residue) => residue.residueSeq)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(pocket.ligandIds).toEqual(['BEN:L:1']);
+  });
+
+  it('should not report open surfaces or pockets below the volume cutoff', () => {
+    const sheet = Array.from({ length: 100 }, (_, i) => makeAtom('ALA', i, 'A', [(i % 10) * 1.5, Math.floor(i / 10) * 1.5, 0]));
+    expect(detectPockets(sheet)).toEqual([]);
+
+    expect(detectPockets(hollowBox(6), { minVolume: 1000 })).toEqual([]);
+    expect(detectPockets([])).toEqual([]);
+  });
+
+  it('should coarsen the grid to stay within maxPoints per axis', () => {
+    const [pocket] = detectPockets(hollowBox(6), { maxPoints: 7 });
+    // 12 Å across on 7 points: 2 Å spacing, 5 x 5 x 5 cavity points
+    expect(pocket.volume).toBe(1000);
+
+    // Without the cap this would be a 2001³ grid
+    const far = [makeAtom('ALA', 1, 'A', [0, 0, 0]), makeAtom('ALA', 2, 'A', [2000, 2000, 2000])];
+    expect(detectPockets(far)).toEqual([]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * CRDT Test Suite
+ * Tests the sequence and record CRDTs and the collaboration document that
+ * merges concurrent annotation, measurement and notes edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LWWRecordMap, RGASequence } from '@/lib/crdt';
+import { CollaborationDocument } from '@/services/collaboration-document';
+import type { Annotation, DocumentOperation } from '@/types/collaboration';
+import type { MeasurementResult } from '@/types/molstar';
+
+function annotation(id: string, extra: Partial<Annotation> = {}): Annotation {
+  return {
+    id,
+    userId: 'user-1',
+    userName: 'Alice',
+    content: 'Active site',
+    position: { x: 0, y: 0, z: 0 },
+    color: '#FF6B6B',
+    createdAt: 1000,
+    updatedAt: 1000,
+    isPinned: false,
+    ...extra,
+  };
+}
+
+function measurement(id: string): MeasurementResult {
+  return {
+    id,
+    type: 'distance',
+    value: 3.2,
+    unit: 'Å',
+    label: `${id} distance`,
+    participants: [],
+    timestamp: 1000,
+  };
+}
+
+// Collect the operations a document makes locally
+function record(document: CollaborationDocument): DocumentOperation[] {
+  const operations: DocumentOperation[] = [];
+  document.subscribe((applied, origin) => {
+    if (origin === 'local') operations.push(...applied);
+  });
+  return operations;
+}
+
+describe('RGASequence', () => {
+  it('should order concurrent inserts at the same place the same way in any order', () => {
+    const a = { clock: 1, replica: 'a' };
+    const b = { clock: 1, replica: 'b' };
+    const c = { clock: 2, replica: 'a' };
+
+    const first = new RGASequence<string>();
+    first.insert(null, a, 'a');
+    first.insert(null, b, 'b');
+    first.insert(a, c, 'c');
+
+    const second = new RGASequence<string>();
+    second.insert(null, b, 'b');
+    second.insert(null, a, 'a');
+    second.insert(a, c, 'c');
+
+    expect(first.values()).toEqual(['b', 'a', 'c']);
+    expect(second.values()).toEqual(first.values());
+  });
+
+  it('should keep deleted elements as anchors for later inserts', () => {
+    const sequence = new RGASequence<string>();
+    const x = { clock: 1, replica: 'a' };
+    sequence.insert(null, x, 'x');
+    sequence.delete(x);
+    sequence.insert(x, { clock: 2, replica: 'b' }, 'y');
+
+    expect(sequence.values()).toEqual(['y']);
+    expect(sequence.insert(null, x, 'x')).toBe(false);
+  });
+});
+
+describe('LWWRecordMap', () => {
+  it('should keep concurrent edits to different fields', () => {
+    const map = new LWWRecordMap<{ content: string; isPinned: boolean }>();
+    map.set('n1', { content: 'first', isPinned: false }, { clock: 1, replica: 'a' });
+    map.set('n1', { isPinned: true }, { clock: 2, replica: 'b' });
+    map.set('n1', { content: 'second' }, { clock: 2, replica: 'a' });
+
+    expect(map.get('n1')).toEqual({ content: 'second', isPinned: true });
+  });
+
+  it('should let the later of a delete and an edit win', () => {
+    const map = new LWWRecordMap<{ content: string }>();
+    map.set('n1', { content: 'first' }, { clock: 1, replica: 'a' });
+    map.delete('n1', { clock: 3, replica: 'b' });
+    map.set('n1', { content: 'stale' }, { clock: 2, replica: 'a' });
+    expect(map.get('n1')).toBeUndefined();
+
+    map.set('n1', { content: 'restored' }, { clock: 4, replica: 'a' });
+    expect(map.get('n1')).toEqual({ content: 'restored' });
+  });
+});
+
+describe('CollaborationDocument', () => {
+  it('should converge on concurrent notes edits', () => {
+    const alice = new CollaborationDocument('alice');
+    const bob = new CollaborationDocument('bob');
+    const fromAlice = record(alice);
+    const fromBob = record(bob);
+
+    alice.setNotes('Binding pocket');
+    bob.applyOperations(fromAlice.splice(0));
+
+    alice.setNotes('Binding pocket near HIS57');
+    bob.setNotes('Large binding pocket');
+
+    alice.applyOperations(fromBob);
+    bob.applyOperations(fromAlice);
+
+    expect(alice.getNotes()).toBe('Large binding pocket near HIS57');
+    expect(bob.getNotes()).toBe(alice.getNotes());
+  });
+
+  it('should merge annotations and measurements from both replicas', () => {
+    const alice = new CollaborationDocument('alice');
+    const bob = new CollaborationDocument('bob');
+    const fromAlice = record(alice);
+    const fromBob = record(bob);
+
+    alice.addAnnotation(annotation('a1'));
+    bob.applyOperations(fromAlice.splice(0));
+
+    alice.updateAnnotation('a1', { content: 'Catalytic site' });
+    bob.updateAnnotation('a1', { isPinned: true });
+    alice.addMeasurement(measurement('m1'));
+    bob.addMeasurement(measurement('m2'));
+
+    alice.applyOperations(fromBob);
+    bob.applyOperations(fromAlice);
+
+    expect(alice.getAnnotations()).toEqual(bob.getAnnotations());
+    expect(alice.getAnnotations()[0]).toMatchObject({ content: 'Catalytic site', isPinned: true });
+    expect(alice.getMeasurements().map((m) => m.id)).toEqual(bob.getMeasurements().map((m) => m.id));
+    expect(alice.getMeasurements()).toHaveLength(2);
+  });
+
+  it('should hold operations until their predecessors arrive and ignore repeats', () => {
+    const alice = new CollaborationDocument('alice');
+    const bob = new CollaborationDocument('bob');
+    const fromAlice = record(alice);
+
+    alice.insertNotes(0, 'abc');
+    alice.deleteNotes(1, 1);
+    alice.addMeasurement(measurement('m1'));
+    alice.removeMeasurement('m1');
+
+    expect(bob.applyOperations(fromAlice.slice(2).reverse())).toEqual([]);
+    expect(bob.getNotes()).toBe('');
+
+    bob.applyOperations(fromAlice);
+    bob.applyOperations(fromAlice);
+
+    expect(bob.getNotes()).toBe('ac');
+    expect(bob.getMeasurements()).toEqual([]);
+    expect(bob.getVersionVector()).toEqual({ alice: 4 });
+  });
+
+  it('should list the operations a version vector is missing', () => {
+    const alice = new CollaborationDocument('alice');
+    alice.insertNotes(0, 'a');
+    alice.insertNotes(1, 'b');
+
+    expect(alice.getOperationsSince({ alice: 1 })).toHaveLength(1);
+    expect(alice.getOperationsSince({})).toHaveLength(2);
+    expect(alice.isBehind({ alice: 3 })).toBe(true);
+    expect(alice.isBehind({ alice: 2, bob: 0 })).toBe(false);
+  });
+});
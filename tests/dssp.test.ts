@@ -0,0 +1,166 @@
+/**
+ * DSSP Test Suite
+ * Tests secondary structure assignment on backbones built from ideal torsions,
+ * and the service falling back to the main thread when its worker fails
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  assignSecondaryStructure,
+  backboneResidues,
+  secondaryStructureElements,
+  type BackboneAtom,
+} from '../src/lib/dssp';
+import { parsePDB } from '../src/lib/pdb-parser';
+import { SecondaryStructureService } from '../src/services/secondary-structure-service';
+
+type Vec = [number, number, number];
+
+const sub = (a: Vec, b: Vec): Vec => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec, b: Vec): Vec => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const unit = (a: Vec): Vec => {
+  const length = Math.hypot(...a);
+  return [a[0] / length, a[1] / length, a[2] / length];
+};
+
+/**
+ * Place d from a, b, c by bond length, bond angle and torsion (NeRF)
+ */
+function place(a: Vec, b: Vec, c: Vec, bond: number, angle: number, torsion: number): Vec {
+  const theta = (angle * Math.PI) / 180;
+  const phi = (torsion * Math.PI) / 180;
+  const bc = unit(sub(c, b));
+  const n = unit(cross(sub(b, a), bc));
+  const m = cross(n, bc);
+  const d = [-bond * Math.cos(theta), bond * Math.sin(theta) * Math.cos(phi), bond * Math.sin(theta) * Math.sin(phi)];
+  return [0, 1, 2].map((k) => c[k] + d[0] * bc[k] + d[1] * m[k] + d[2] * n[k]) as Vec;
+}
+
+/**
+ * Poly-alanine backbone atoms with the given phi/psi per residue
+ */
+function buildBackbone(torsions: Array<[number, number]>, chainId = 'A'): BackboneAtom[] {
+  const atoms: BackboneAtom[] = [];
+  let N: Vec = [0, 0, 0];
+  let CA: Vec = [1.458, 0, 0];
+  let C: Vec = place([0, 1, 0], N, CA, 1.525, 111.2, -60);
+
+  torsions.forEach(([phi, psi], i) => {
+    if (i > 0) {
+      const nextN = place(N, CA, C, 1.329, 116.2, torsions[i - 1][1]);
+      const nextCA = place(CA, C, nextN, 1.458, 121.7, 180);
+      C = place(C, nextN, nextCA, 1.525, 111.2, phi);
+      N = nextN;
+      CA = nextCA;
+    }
+    const O = place(N, CA, C, 1.231, 120.5, psi + 180);
+    for (const [name, [x, y, z]] of [['N', N], ['CA', CA], ['C', C], ['O', O]] as const) {
+      atoms.push({ chainId, residueSeq: i + 1, residueName: 'ALA', name, x, y, z });
+    }
+  });
+
+  return atoms;
+}
+
+const assign = (atoms: BackboneAtom[]) => assignSecondaryStructure(backboneResidues(atoms)).join('');
+
+describe('DSSP', () => {
+  it('assigns an alpha helix between its capping residues', () => {
+    const atoms = buildBackbone(Array.from({ length: 16 }, () => [-57, -47] as [number, number]));
+
+    expect(assign(atoms)).toBe(`-${'H'.repeat(14)}-`);
+  });
+
+  it('assigns a 3-10 helix from i to i+3 hydrogen bonds', () => {
+    const atoms = buildBackbone(Array.from({ length: 10 }, () => [-49, -26] as [number, number]));
+
+    expect(assign(atoms)).toMatch(/^-G{6,}/);
+  });
+
+  it('assigns strands to a hairpin and leaves an isolated strand as loop', () => {
+    const strand = Array.from({ length: 5 }, () => [-120, 120] as [number, number]);
+    const hairpin = buildBackbone([...strand, [60, -120], [-80, 0], ...strand]); // Type II' turn
+
+    expect(assign(hairpin)).toBe('-EEEETTEEEE-');
+    expect(assign(buildBackbone(strand))).not.toMatch(/[HGIEB]/);
+  });
+
+  it('treats a long C-N distance as a chain break', () => {
+    const helix = Array.from({ length: 8 }, () => [-57, -47] as [number, number]);
+    const first = buildBackbone(helix);
+    const second = buildBackbone(helix).map((atom) => ({ ...atom, residueSeq: atom.residueSeq + 8, x: atom.x + 30 }));
+
+    expect(assign([...first, ...second])).toBe(`-${'H'.repeat(6)}--${'H'.repeat(6)}-`);
+  });
+
+  it('converts runs of codes to parser elements', () => {
+    const residues = backboneResidues(buildBackbone(Array.from({ length: 16 }, () => [-57, -47] as [number, number])));
+    const elements = secondaryStructureElements(residues, assignSecondaryStructure(residues));
+
+    expect(elements).toEqual([
+      {
+        type: 'helix',
+        id: '1',
+        start: { chainID: 'A', resSeq: 2, iCode: undefined, resName: 'ALA' },
+        end: { chainID: 'A', resSeq: 15, iCode: undefined, resName: 'ALA' },
+        helixClass: 1,
+      },
+    ]);
+  });
+
+  it('assigns secondary structure when parsing a file without HELIX/SHEET records', async () => {
+    const lines = buildBackbone(Array.from({ length: 12 }, () => [-57, -47] as [number, number])).map((atom, i) =>
+      [
+        'ATOM  ',
+        String(i + 1).padStart(5),
+        ' ',
+        ` ${atom.name}`.padEnd(4),
+        ' ',
+        atom.residueName,
+        ' ',
+        atom.chainId,
+        String(atom.residueSeq).padStart(4),
+        '    ',
+        atom.x.toFixed(3).padStart(8),
+        atom.y.toFixed(3).padStart(8),
+        atom.z.toFixed(3).padStart(8),
+        '  1.00  0.00          ',
+        atom.name[0].padStart(2),
+      ].join('')
+    );
+
+    const parsed = await parsePDB([...lines, 'END'].join('\n'));
+    expect(parsed.secondaryStructureSource).toBe('dssp');
+    expect(parsed.secondaryStructure[0]).toMatchObject({
+      type: 'helix',
+      helixClass: 1,
+      start: { chainID: 'A', resSeq: 2 },
+      end: { chainID: 'A', resSeq: 11 },
+    });
+
+    const withoutAssignment = await parsePDB([...lines, 'END'].join('\n'), { assignSecondaryStructure: false });
+    expect(withoutAssignment.secondaryStructure).toEqual([]);
+  });
+});
+
+describe('SecondaryStructureService', () => {
+  it('finishes assignments on the main thread when the worker fails', async () => {
+    const worker = Object.assign(new EventTarget(), { postMessage: vi.fn(), terminate: vi.fn() });
+    const createWorker = vi.fn(() => worker as unknown as Worker);
+    const service = new SecondaryStructureService(createWorker);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const residues = backboneResidues(buildBackbone(Array.from({ length: 16 }, () => [-57, -47] as [number, number])));
+
+    const pending = service.assign(residues);
+    expect(worker.postMessage).toHaveBeenCalledTimes(1);
+
+    worker.dispatchEvent(new Event('error'));
+
+    await expect(pending).resolves.toEqual(assignSecondaryStructure(residues));
+    expect(worker.terminate).toHaveBeenCalled();
+
+    await expect(service.assign(residues)).resolves.toHaveLength(16);
+    expect(worker.postMessage).toHaveBeenCalledTimes(1);
+    expect(createWorker).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Session Recording Hook Test Suite
+ * Tests that a recording whose save fails is kept for a retry instead of
+ * being dropped
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(() => ({})),
+}));
+
+vi.mock('@/services/molstar-service', () => ({
+  molstarService: {
+    on: vi.fn(),
+    off: vi.fn(),
+    getCameraSnapshot: vi.fn(() => null),
+  },
+}));
+
+import { useSessionRecording } from '@/hooks/use-session-recording';
+import { useCollaborationStore } from '@/store/collaboration-slice';
+import { sessionRecorder } from '@/services/session-recorder';
+import { sessionRecordingService } from '@/services/session-recording-service';
+import type { SessionRecordingSummary } from '@/types/session-recording';
+
+const summary: SessionRecordingSummary = {
+  id: 'rec-1',
+  sessionId: 's1',
+  recordedBy: 'alice',
+  title: 'Review',
+  structureId: '1ABC',
+  startedAt: new Date(0).toISOString(),
+  durationMs: 0,
+  eventCount: 1,
+  isPublic: false,
+  createdAt: new Date(0).toISOString(),
+};
+
+describe('useSessionRecording', () => {
+  beforeEach(() => {
+    useCollaborationStore.getState().setSession({
+      id: 's1',
+      name: 'Review',
+      ownerId: 'alice',
+      createdAt: 0,
+      expiresAt: Number.MAX_SAFE_INTEGER,
+      isActive: true,
+      inviteCode: 'ABC123',
+      settings: {
+        allowAnnotations: true,
+        allowCameraControl: true,
+        requireApproval: false,
+        maxUsers: 10,
+        cameraFollowMode: false,
+      },
+    });
+    useCollaborationStore.getState().setCurrentUser('alice');
+  });
+
+  afterEach(() => {
+    act(() => {
+      if (sessionRecorder.isRecording()) sessionRecorder.stop();
+      useCollaborationStore.getState().reset();
+    });
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the recording when the save fails and saves it on retry', async () => {
+    const saveRecording = vi
+      .spyOn(sessionRecordingService, 'saveRecording')
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(summary);
+
+    const { result } = renderHook(() => useSessionRecording('1ABC'));
+
+    act(() => result.current.startRecording());
+
+    await act(async () => {
+      await expect(result.current.stopRecording('Review')).rejects.toThrow('Network error');
+    });
+
+    expect(result.current.isRecording).toBe(false);
+    expect(result.current.savedRecording).toBeNull();
+    const unsaved = result.current.unsavedRecording;
+    expect(unsaved?.title).toBe('Review');
+    expect(unsaved?.result.events).toEqual([
+      expect.objectContaining({ type: 'structure-change', payload: { structureId: '1ABC' } }),
+    ]);
+
+    await act(async () => {
+      await result.current.retrySave();
+    });
+
+    expect(saveRecording).toHaveBeenCalledTimes(2);
+    expect(saveRecording.mock.calls[1][0]).toEqual(saveRecording.mock.calls[0][0]);
+    expect(saveRecording.mock.calls[1][0].events).toBe(unsaved?.result.events);
+    expect(result.current.unsavedRecording).toBeNull();
+    expect(result.current.savedRecording).toEqual(summary);
+  });
+
+  it('does not start over an unsaved recording until it is discarded', async () => {
+    vi.spyOn(sessionRecordingService, 'saveRecording').mockRejectedValue(new Error('Network error'));
+
+    const { result } = renderHook(() => useSessionRecording('1ABC'));
+
+    act(() => result.current.startRecording());
+    await act(async () => {
+      await expect(result.current.stopRecording('Review')).rejects.toThrow('Network error');
+    });
+
+    expect(() => result.current.startRecording()).toThrow('Save or discard the previous recording first');
+
+    act(() => result.current.discardRecording());
+    act(() => result.current.startRecording());
+
+    expect(result.current.isRecording).toBe(true);
+    expect(result.current.unsavedRecording).toBeNull();
+  });
+});
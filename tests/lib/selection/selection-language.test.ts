@@ -0,0 +1,110 @@
+/**
+ * Selection Language Test Suite
+ * Tests parsing, validation errors and evaluation of selection expressions
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parsePDB } from 'molstar/lib/mol-io/reader/pdb/parser';
+import { trajectoryFromPDB } from 'molstar/lib/mol-model-formats/structure/pdb';
+import { Structure, StructureElement, StructureProperties, StructureSelection } from 'molstar/lib/mol-model/structure';
+import { Script } from 'molstar/lib/mol-script/script';
+import { Task } from 'molstar/lib/mol-task';
+import {
+  SelectionSyntaxError,
+  compileSelection,
+  parseSelection,
+  selectionFromQuery,
+  validateSelection,
+} from '@/lib/selection/selection-language';
+
+const atom = (record: string, serial: number, name: string, resName: string, chain: string, resSeq: number, x: number, element: string) =>
+  `${record.padEnd(6)}${String(serial).padStart(5)} ${name.padEnd(4)} ${resName.padStart(3)} ${chain}${String(resSeq).padStart(4)}    ${x.toFixed(3).padStart(8)}${(0).toFixed(3).padStart(8)}${(0).toFixed(3).padStart(8)}  1.00  0.00          ${element.padStart(2)}`;
+
+// Chain A: ALA 49, LEU 50, SER 80 along x; NAD next to SER 80; chain B: LYS 50 far away
+const PDB = [
+  atom('ATOM', 1, 'N', 'ALA', 'A', 49, 0, 'N'),
+  atom('ATOM', 2, 'CA', 'ALA', 'A', 49, 1, 'C'),
+  atom('ATOM', 3, 'CB', 'ALA', 'A', 49, 2, 'C'),
+  atom('ATOM', 4, 'H', 'ALA', 'A', 49, 3, 'H'),
+  atom('ATOM', 5, 'N', 'LEU', 'A', 50, 10, 'N'),
+  atom('ATOM', 6, 'CA', 'LEU', 'A', 50, 11, 'C'),
+  atom('ATOM', 7, 'CB', 'LEU', 'A', 50, 12, 'C'),
+  atom('ATOM', 8, 'N', 'SER', 'A', 80, 20, 'N'),
+  atom('ATOM', 9, 'CA', 'SER', 'A', 80, 21, 'C'),
+  atom('ATOM', 10, 'OG', 'SER', 'A', 80, 22, 'O'),
+  atom('ATOM', 11, 'N', 'LYS', 'B', 50, 60, 'N'),
+  atom('ATOM', 12, 'CA', 'LYS', 'B', 50, 61, 'C'),
+  atom('HETATM', 13, 'C1', 'NAD', 'A', 301, 25, 'C'),
+  atom('HETATM', 14, 'N1', 'NAD', 'A', 301, 26, 'N'),
+  'END',
+].join('\n');
+
+describe('selection-language', () => {
+  let structure: Structure;
+
+  beforeAll(async () => {
+    const parsed = await parsePDB(PDB, 'test').run();
+    if (parsed.isError) throw new Error(parsed.message);
+    const trajectory = await trajectoryFromPDB(parsed.result).run();
+    const model = await Task.resolveInContext(trajectory.getFrameAtIndex(0));
+    structure = Structure.ofModel(model);
+  });
+
+  // Serial numbers of the atoms an expression selects
+  const select = (text: string): number[] => {
+    const selection = Script.getStructureSelection(compileSelection(parseSelection(text)), structure);
+    const serials: number[] = [];
+    StructureElement.Loci.forEachLocation(StructureSelection.toLociWithSourceUnits(selection), (location) => {
+      serials.push(StructureProperties.atom.id(location));
+    });
+    return serials.sort((a, b) => a - b);
+  };
+
+  it('should evaluate property selectors and boolean operators', () => {
+    expect(select('chain A and resi 50-80 and not hydro')).toEqual([5, 6, 7, 8, 9, 10]);
+    expect(select('resi 50 or resn nad')).toEqual([5, 6, 7, 11, 12, 13, 14]);
+    expect(select('chain A and not (resi 49+80 or name CA)')).toEqual([5, 7, 13, 14]);
+    expect(select('elem N and chain B')).toEqual([11]);
+    expect(select('hydro')).toEqual([4]);
+  });
+
+  it('should evaluate residue classes, distances and whole residues', () => {
+    expect(select('hydrophobic and resi 50')).toEqual([5, 6, 7]);
+    expect(select('polar')).toEqual([8, 9, 10]);
+    expect(select('within 5 of resn NAD')).toEqual([8, 9, 10, 13, 14]);
+    expect(select('within 1.5 of name OG')).toEqual([9, 10]);
+    expect(select('byres within 1.5 of name OG')).toEqual([8, 9, 10]);
+    expect(select('none or chain C')).toEqual([]);
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(validateSelection('chain A and resi 50-80')).toBeNull();
+
+    const cases: Array<[string, string, number]> = [
+      ['', 'Empty selection', 0],
+      ['chain A and', "Expected a selection after 'and'", 11],
+      ['chain A and bogus', "Unknown keyword 'bogus'", 12],
+      ['resi 80-50', "Invalid range '80-50'", 5],
+      ['resi x', "Invalid number 'x'", 5],
+      ['within of protein', "Expected a distance in Å after 'within'", 7],
+      ['within 5 protein', "Expected 'of' after '5'", 9],
+      ['(chain A or chain B', "Missing ')'", 0],
+      ['chain A)', "Unexpected ')'", 7],
+      ['chain and protein', "Expected one or more names after 'chain'", 6],
+      ['protein water', "Expected 'and' or 'or' before 'water'", 8],
+    ];
+    for (const [text, message, start] of cases) {
+      const error = validateSelection(text);
+      expect(error, text).toBeInstanceOf(SelectionSyntaxError);
+      expect(error?.message).toBe(message);
+      expect(error?.start).toBe(start);
+    }
+  });
+
+  it('should convert flat id queries to the same syntax tree', () => {
+    expect(selectionFromQuery({ type: 'chain', chainIds: ['A', 'B'] })).toEqual(parseSelection('chain A B'));
+    expect(selectionFromQuery({ type: 'residue', residueIds: ['10', '20'] })).toEqual(parseSelection('resi 10+20'));
+    expect(selectionFromQuery({ type: 'atom', atomIds: ['7'] })).toEqual(parseSelection('id 7'));
+    expect(() => selectionFromQuery({ type: 'expression', expression: 'resi' })).toThrow(SelectionSyntaxError);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Trajectory Analysis Test Suite
+ * Tests superposition RMSD, RMSF, radius of gyration and H-bond occupancy
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AnalysisFrame,
+  applySuperposition,
+  framesFromSimulation,
+  hydrogenBondOccupancy,
+  perResidue,
+  radiusOfGyrationSeries,
+  rmsdSeries,
+  rmsfPerAtom,
+  superpose,
+  toCSV,
+} from '../src/lib/md-analysis';
+import type { Atom } from '../src/lib/pdb-parser';
+import type { SimulationFrame } from '../src/lib/md-browser-dynamica';
+
+const makeAtom = (name: string, resName: string, resSeq: number, element: string): Atom => ({
+  serial: resSeq,
+  name,
+  resName,
+  chainID: 'A',
+  resSeq,
+  x: 0,
+  y: 0,
+  z: 0,
+  occupancy: 1,
+  tempFactor: 0,
+  element,
+});
+
+const frame = (time: number, positions: number[]): AnalysisFrame => ({ time, positions });
+
+/**
+ * Rotate about an arbitrary axis (Rodrigues) and translate
+ */
+function transform(positions: number[], axis: number[], angle: number, shift: number[]): number[] {
+  const norm = Math.hypot(axis[0], axis[1], axis[2]);
+  const [kx, ky, kz] = axis.map(value => value / norm);
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const out: number[] = [];
+  for (let i = 0; i < positions.length; i += 3) {
+    const [x, y, z] = positions.slice(i, i + 3);
+    const dot = kx * x + ky * y + kz * z;
+    out.push(
+      x * c + (ky * z - kz * y) * s + kx * dot * (1 - c) + shift[0],
+      y * c + (kz * x - kx * z) * s + ky * dot * (1 - c) + shift[1],
+      z * c + (kx * y - ky * x) * s + kz * dot * (1 - c) + shift[2]
+    );
+  }
+  return out;
+}
+
+const REFERENCE = [0, 0, 0, 1.5, 0, 0, 1.5, 1.2, 0, 0.3, 1.8, 1.1, -1, 0.4, 2];
+
+describe('md-analysis', () => {
+  it('should superpose a rotated and translated copy with zero RMSD', () => {
+    const mobile = transform(REFERENCE, [1, 2, -0.5], 2.1, [5, -3, 7]);
+
+    const fit = superpose(mobile, REFERENCE);
+    expect(fit.rmsd).toBeLessThan(1e-6);
+
+    const fitted = applySuperposition(mobile, fit);
+    REFERENCE.forEach((value, i) => expect(fitted[i]).toBeCloseTo(value, 6));
+  });
+
+  it('should report the minimal RMSD for frames that cannot be fitted exactly', () => {
+    // Two atoms 2 Å apart versus 4 Å apart: each atom is 1 Å off after the best fit
+    const frames = [frame(0, [-1, 0, 0, 1, 0, 0]), frame(1, transform([-2, 0, 0, 2, 0, 0], [0, 0, 1], 0.7, [3, 3, 3]))];
+
+    const rmsd = rmsdSeries(frames);
+    expect(rmsd[0]).toBeCloseTo(0, 6);
+    expect(rmsd[1]).toBeCloseTo(1, 6);
+    expect(() => rmsdSeries(frames, { reference: 2 })).toThrow('out of range');
+  });
+
+  it('should compute per-atom RMSF about the mean after fitting', () => {
+    // Atoms 0-2 are rigid and define the fit; atom 3 moves +/-1 Å along x
+    const base = [0, 0, 0, 2, 0, 0, 0, 2, 0];
+    const frames = [
+      frame(0, [...base, 1, 1, 1]),
+      frame(1, transform([...base, -1, 1, 1], [0, 1, 1], 1.3, [4, 0, -2])),
+      frame(2, [...base, 1, 1, 1]),
+      frame(3, [...base, -1, 1, 1]),
+    ];
+
+    const rmsf = rmsfPerAtom(frames, { atoms: [0, 1, 2] });
+    expect(rmsf[0]).toBeCloseTo(0, 6);
+    expect(rmsf[3]).toBeCloseTo(1, 6);
+
+    const atoms = [
+      makeAtom('N', 'ALA', 1, 'N'),
+      makeAtom('CA', 'ALA', 1, 'C'),
+      makeAtom('CA', 'GLY', 2, 'C'),
+      makeAtom('C', 'GLY', 2, 'C'),
+    ];
+    const residues = perResidue(atoms, rmsf);
+    expect(residues.map(r => r.residueName)).toEqual(['ALA', 'GLY']);
+    expect(residues[1].value).toBeCloseTo(0.5, 6);
+  });
+
+  it('should compute the radius of gyration with optional mass weighting', () => {
+    const frames = [frame(0, [0, 0, 0, 2, 0, 0]), frame(1, [0, 0, 0, 0, 6, 0])];
+
+    expect(radiusOfGyrationSeries(frames)).toEqual([1, 3]);
+    // Masses 3:1 put the center of mass 0.5 Å from the heavy atom
+    expect(radiusOfGyrationSeries(frames, [3, 1])[0]).toBeCloseTo(Math.sqrt((3 * 0.25 + 1 * 2.25) / 4), 6);
+  });
+
+  it('should convert simulation frames from nm to Å', () => {
+    const simulation = [{ time: 0.5, positions: new Float32Array([0.1, 0.2, 0.3]) }] as SimulationFrame[];
+
+    const [converted] = framesFromSimulation(simulation);
+    expect(converted.time).toBe(0.5);
+    expect(converted.positions[2]).toBeCloseTo(3, 5);
+  });
+
+  it('should report hydrogen-bond occupancy across frames', () => {
+    const atoms = [makeAtom('N', 'ALA', 1, 'N'), makeAtom('O', 'GLY', 5, 'O')];
+    const frames = [
+      frame(0, [0, 0, 0, 2.9, 0, 0]),
+      frame(1, [0, 0, 0, 3.1, 0, 0]),
+      frame(2, [0, 0, 0, 6, 0, 0]),
+      frame(3, [0, 0, 0, 6, 0, 0]),
+    ];
+
+    const [hbond, ...rest] = hydrogenBondOccupancy(atoms, frames);
+    expect(rest).toHaveLength(0);
+    expect(hbond.donor).toBe('A:ALA1:N');
+    expect(hbond.acceptor).toBe('A:GLY5:O');
+    expect(hbond.occupancy).toBe(0.5);
+    expect(hbond.meanDistance).toBeCloseTo(3, 6);
+  });
+
+  it('should write CSV with headers and quoted fields', () => {
+    expect(toCSV(['label', 'value'], [['a,b', 1.23456], ['c', 2]])).toBe('label,value\n"a,b",1.2346\nc,2\n');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Periodic Box and Solvation Test Suite
+ * Tests minimum-image distances, coordinate wrapping and water box setup
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyMinimumImage,
+  boxVolume,
+  createBox,
+  shortestImageDistance,
+  wrapPositions,
+  Vec3,
+} from '../src/lib/md-box';
+import { solvate } from '../src/lib/md-solvent';
+import { TIP3P } from '../src/lib/md-topology';
+import { createLinearChainTopology, createMDSimulation } from '../src/services/md-simulation';
+
+describe('md-box', () => {
+  it('should build cubic, rectangular and truncated octahedron boxes', () => {
+    expect(boxVolume(createBox('cubic', 3))).toBeCloseTo(27);
+    expect(boxVolume(createBox('rectangular', [2, 3, 4]))).toBeCloseTo(24);
+
+    const octahedron = createBox('truncated-octahedron', 4);
+    // Truncated octahedron occupies 4 * sqrt(3) / 9 of the cube with the same image distance
+    expect(boxVolume(octahedron)).toBeCloseTo((4 * Math.sqrt(3) / 9) * 64, 6);
+    expect(shortestImageDistance(octahedron)).toBeCloseTo(4);
+  });
+
+  it('should reject non-positive dimensions', () => {
+    expect(() => createBox('rectangular', [2, 0, 2])).toThrow('positive');
+  });
+
+  it('should apply the minimum image in rectangular boxes', () => {
+    const box = createBox('rectangular', [2, 3, 4]);
+    const delta: Vec3 = [1.8, -2.5, 2.1];
+
+    const r2 = applyMinimumImage(box, delta);
+
+    expect(delta[0]).toBeCloseTo(-0.2);
+    expect(delta[1]).toBeCloseTo(0.5);
+    expect(delta[2]).toBeCloseTo(-1.9);
+    expect(r2).toBeCloseTo(0.04 + 0.25 + 3.61);
+  });
+
+  it('should find the shortest image in a truncated octahedron', () => {
+    const box = createBox('truncated-octahedron', 3);
+    const [a, b, c] = box.vectors;
+
+    // Any lattice translation of a short vector reduces back to it
+    for (const [i, j, k] of [[1, 0, 0], [0, 1, -1], [1, -1, 1], [-1, 1, 1]]) {
+      const delta: Vec3 = [
+        0.3 + i * a[0] + j * b[0] + k * c[0],
+        -0.2 + j * b[1] + k * c[1],
+        0.1 + k * c[2],
+      ];
+      const r2 = applyMinimumImage(box, delta);
+
+      expect(r2).toBeCloseTo(0.14, 6);
+      expect(delta[0]).toBeCloseTo(0.3);
+    }
+  });
+
+  it('should wrap atoms into the unit cell', () => {
+    const box = createBox('cubic', 2);
+    const wrapped = wrapPositions(box, [2.5, -0.5, 1, -3.2, 4.1, 0]);
+
+    expect(Array.from(wrapped).map(v => Number(v.toFixed(4)))).toEqual([0.5, 1.5, 1, 0.8, 0.1, 0]);
+  });
+
+  it('should keep molecules whole when wrapping', () => {
+    const box = createBox('cubic', 2);
+    // Bonded pair straddling the x = 2 face
+    const wrapped = wrapPositions(box, [1.95, 1, 1, 2.1, 1, 1], [[0, 1]]);
+
+    expect(wrapped[3] - wrapped[0]).toBeCloseTo(0.15);
+    expect((wrapped[0] + wrapped[3]) / 2).toBeLessThan(2);
+  });
+});
+
+describe('solvate', () => {
+  // Short linear "peptide" of five atoms along x
+  const solute = new Float32Array([0, 0, 0, 0.15, 0, 0, 0.3, 0, 0, 0.45, 0, 0, 0.6, 0, 0]);
+
+  it('should surround the solute with water at liquid density', () => {
+    const system = solvate(solute, 5, null, { padding: 1.0, shape: 'cubic' });
+    const volume = boxVolume(system.box);
+
+    expect(system.soluteAtomCount).toBe(5);
+    expect(system.atomCount).toBe(5 + system.waterCount * 3);
+    // Roughly 33 waters per nm^3 minus the excluded solute volume
+    expect(system.waterCount / volume).toBeGreaterThan(28);
+    expect(system.waterCount / volume).toBeLessThan(36);
+  });
+
+  it('should leave the padding between the solute and the box edge', () => {
+    const system = solvate(solute, 5, null, { padding: 0.8, shape: 'rectangular' });
+    const [a, b, c] = system.box.vectors;
+
+    expect(a[0]).toBeCloseTo(0.6 + 1.6);
+    expect(b[1]).toBeCloseTo(1.6);
+    expect(c[2]).toBeCloseTo(1.6);
+    // Solute centred in the box
+    expect(system.positions[6]).toBeCloseTo(a[0] / 2, 5);
+    expect(system.positions[7]).toBeCloseTo(b[1] / 2, 5);
+  });
+
+  it('should keep water away from the solute and from periodic images', () => {
+    for (const shape of ['cubic', 'truncated-octahedron'] as const) {
+      const system = solvate(solute, 5, null, { padding: 0.6, shape });
+      const delta = new Float64Array(3);
+      const oxygens = Array.from({ length: system.waterCount }, (_, w) => 5 + w * 3);
+
+      let closestSolute = Infinity;
+      let closestWater = Infinity;
+      for (const o of oxygens) {
+        for (let i = 0; i < 5; i++) {
+          for (let d = 0; d < 3; d++) delta[d] = system.positions[i * 3 + d] - system.positions[o * 3 + d];
+          closestSolute = Math.min(closestSolute, applyMinimumImage(system.box, delta));
+        }
+        for (const other of oxygens) {
+          if (other <= o) continue;
+          for (let d = 0; d < 3; d++) delta[d] = system.positions[other * 3 + d] - system.positions[o * 3 + d];
+          closestWater = Math.min(closestWater, applyMinimumImage(system.box, delta));
+        }
+      }
+
+      expect(Math.sqrt(closestSolute)).toBeGreaterThanOrEqual(0.25);
+      expect(Math.sqrt(closestWater)).toBeGreaterThan(0.24);
+    }
+  });
+
+  it('should append water bonds, angles and TIP3P charges to the topology', () => {
+    const topology = createLinearChainTopology(5);
+    const system = solvate(solute, 5, topology, { padding: 0.6 });
+    const charges = system.topology.charges!;
+
+    expect(system.topology.bonds).toHaveLength(4 + system.waterCount * 2);
+    expect(system.topology.angles).toHaveLength(3 + system.waterCount);
+    expect(system.topology.dihedrals).toHaveLength(2);
+    expect(charges[5]).toBeCloseTo(-0.834);
+    expect(charges[6]).toBeCloseTo(0.417);
+    expect(charges.reduce((sum, q) => sum + q, 0)).toBeCloseTo(0, 3);
+
+    // O-H bonds have TIP3P length
+    const dx = system.positions[18] - system.positions[15];
+    const dy = system.positions[19] - system.positions[16];
+    const dz = system.positions[20] - system.positions[17];
+    expect(Math.hypot(dx, dy, dz)).toBeCloseTo(0.09572, 5);
+  });
+
+  it('should score water with TIP3P terms rather than the generic force field', () => {
+    const topology = createLinearChainTopology(5);
+    const system = solvate(solute, 5, topology, { padding: 1.0, minImageDistance: 2.4 });
+    expect(system.topology.bondParameters![4]).toBe(TIP3P.bond);
+    expect(system.topology.angleParameters![3]).toBe(TIP3P.angle);
+    expect(system.topology.lennardJones![5]).toBe(TIP3P.oxygen);
+    expect(system.topology.lennardJones![6]).toBe(TIP3P.hydrogen);
+    expect(system.topology.lennardJones![0]).toBeUndefined();
+
+    const md = createMDSimulation();
+    md.setForceField('AMBER');
+    md.setTopology(topology);
+    const alone = md.calculateEnergy(solute, 5);
+
+    md.setTopology(system.topology);
+    md.setBox(system.box);
+    const energy = md.calculateEnergy(system.positions, system.atomCount);
+
+    // Waters start at their equilibrium geometry and attract each other
+    expect(energy.bond).toBeCloseTo(alone.bond, 2);
+    expect(energy.angle).toBeCloseTo(alone.angle, 2);
+    expect(energy.vdw).toBeLessThan(0);
+    expect(energy.coulomb).toBeLessThan(0);
+    expect(energy.total).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Residue Template Matching Test Suite
+ * Tests united-atom template assignment, termini, disulfides and issue reporting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyResidueTemplates,
+  atomTypeMass,
+  formatTemplateReport,
+  hasBlockingIssues,
+} from '../src/lib/md-templates';
+import { parsePDB } from '../src/lib/pdb-parser';
+import { SMALL_PROTEIN_PDB } from './fixtures/mock-pdb-data';
+
+const CYSTINE_PDB = `ATOM      1  N   CYS A   1       0.000   0.000   0.000  1.00 20.00           N
+ATOM      2  CA  CYS A   1       1.458   0.000   0.000  1.00 20.00           C
+ATOM      3  C   CYS A   1       2.009   1.420   0.000  1.00 20.00           C
+ATOM      4  O   CYS A   1       1.251   2.389   0.000  1.00 20.00           O
+ATOM      5  CB  CYS A   1       1.993  -0.750   1.224  1.00 20.00           C
+ATOM      6  SG  CYS A   1       3.800  -0.750   1.224  1.00 20.00           S
+ATOM      7  H   CYS A   1      -0.500   0.800   0.000  1.00 20.00           H
+ATOM      8  N   CYS A   2       3.331   1.549   0.000  1.00 20.00           N
+ATOM      9  CA  CYS A   2       3.997   2.844   0.000  1.00 20.00           C
+ATOM     10  C   CYS A   2       5.509   2.700   0.000  1.00 20.00           C
+ATOM     11  O   CYS A   2       6.079   1.609   0.000  1.00 20.00           O
+ATOM     12  OXT CYS A   2       6.100   3.800   0.000  1.00 20.00           O
+ATOM     13  CB  CYS A   2       5.000   0.500   1.224  1.00 20.00           C
+ATOM     14  SG  CYS A   2       5.800  -0.750   1.224  1.00 20.00           S
+END`;
+
+describe('applyResidueTemplates', () => {
+  it('should match standard residues without issues', async () => {
+    const { atoms } = await parsePDB(SMALL_PROTEIN_PDB);
+    const system = applyResidueTemplates(atoms);
+
+    expect(system.atoms).toHaveLength(16);
+    expect(system.residues.map(r => r.name)).toEqual(['ALA', 'GLY', 'VAL']);
+    expect(hasBlockingIssues(system.report)).toBe(false);
+    expect(formatTemplateReport(system.report)).toBe('All residues matched their templates');
+    // Positions converted to nm
+    expect(system.atoms[1].x).toBeCloseTo(0.1458);
+  });
+
+  it('should detect disulfides, charge termini and merge hydrogens', async () => {
+    const { atoms } = await parsePDB(CYSTINE_PDB);
+    const system = applyResidueTemplates(atoms);
+    const charge = system.atoms.reduce((sum, atom) => sum + atom.charge, 0);
+
+    expect(system.residues.map(r => r.name)).toEqual(['CYX', 'CYX']);
+    expect(system.report.disulfides).toEqual(['A:CYS1-A:CYS2']);
+    expect(system.report.removedHydrogens).toBe(1);
+    // NH3+ and COO- termini
+    expect(charge).toBeCloseTo(0, 6);
+    expect(system.atoms[0].type).toBe('NT');
+    expect(system.atoms.find(a => a.name === 'OXT')!.type).toBe('OM');
+    // SG-SG bond added after the intra-residue and peptide bonds
+    const sg = system.atoms.map((a, i) => (a.name === 'SG' ? i : -1)).filter(i => i >= 0);
+    expect(system.bonds[system.bonds.length - 1]).toEqual(sg);
+  });
+
+  it('should report chain breaks', async () => {
+    // Move VAL 3 well away from GLY 2 (x is columns 31-38)
+    const shifted = SMALL_PROTEIN_PDB.split('\n')
+      .map(line => (line.includes('VAL A   3')
+        ? line.slice(0, 30) + (Number(line.slice(30, 38)) + 30).toFixed(3).padStart(8) + line.slice(38)
+        : line))
+      .join('\n');
+    const { atoms } = await parsePDB(shifted);
+    const system = applyResidueTemplates(atoms);
+
+    expect(system.report.chainBreaks).toEqual(['A:GLY2-A:VAL3']);
+    expect(hasBlockingIssues(system.report)).toBe(false);
+  });
+
+  it('should include merged hydrogens in united-atom masses', () => {
+    expect(atomTypeMass('CH3')).toBeCloseTo(15.035);
+    expect(atomTypeMass('OW')).toBeCloseTo(15.999);
+  });
+});
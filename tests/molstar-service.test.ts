@@ -6,6 +6,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { molstarService } from '@/services/molstar-service';
+import { PluginCommands } from 'molstar/lib/mol-plugin/commands';
 
 // Mock Mol* modules
 vi.mock('molstar/lib/mol-plugin-ui', () => ({
@@ -30,6 +31,7 @@ vi.mock('molstar/lib/mol-plugin-ui', () => ({
       state: {
         data: {
           selectQ: vi.fn(() => [{ transform: { ref: 'mock-ref' }, cell: { obj: { data: {} } } }]),
+          cells: new Map(),
           build: vi.fn(() => ({
             to: vi.fn(() => ({
               update: vi.fn(() => ({})),
@@ -51,6 +53,7 @@ vi.mock('molstar/lib/mol-plugin-ui', () => ({
             up: [0, 1, 0],
             fov: 45,
           },
+          stateChanged: { subscribe: vi.fn(() => ({ unsubscribe: vi.fn() })) },
         },
         webgl: {
           gl: {
@@ -78,6 +81,7 @@ vi.mock('molstar/lib/mol-plugin/commands', () => ({
     },
     Camera: {
       Reset: vi.fn(() => Promise.resolve()),
+      SetSnapshot: vi.fn(() => Promise.resolve()),
     },
   },
 }));
@@ -194,6 +198,23 @@ END`;
       expect(metadata).toBeDefined();
       expect(metadata.title).toBe('Unknown Structure');
     });
+
+    it('should reject assembly changes before a structure is loaded', async () => {
+      expect(molstarService.getSymmetryInfo()).toBeNull();
+      await expect(molstarService.setAssemblyView({ type: 'model' })).rejects.toThrow('No structure loaded');
+    });
+
+    it('should show the asymmetric unit when the model has no assemblies', async () => {
+      await molstarService.loadStructure('HEADER    TEST\nEND', { assemblyId: '1' });
+
+      expect(molstarService.getAssemblyView()).toEqual({ type: 'model' });
+    });
+
+    it('should require at least two structures for a comparison', async () => {
+      await expect(molstarService.loadComparison(['1LDG'])).rejects.toThrow('at least two structures');
+      expect(molstarService.getComparison()).toBeNull();
+      await expect(molstarService.setComparisonMode('side-by-side')).rejects.toThrow('No comparison loaded');
+    });
   });
 
   describe('Representation Management', () => {
@@ -282,6 +303,18 @@ END`;
       expect(snapshot?.up).toBeDefined();
       expect(snapshot?.fov).toBeDefined();
     });
+
+    it('should move camera to a snapshot', async () => {
+      await molstarService.setCameraSnapshot(
+        { position: [10, 0, 40], target: [0, 0, 0], up: [0, 1, 0], fov: 45 },
+        250
+      );
+
+      expect(PluginCommands.Camera.SetSnapshot).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ durationMs: 250 })
+      );
+    });
   });
 
   describe('Image Export', () => {
@@ -379,5 +412,15 @@ END`;
       // Should not throw after dispose
       expect(() => molstarService.off('structure-loaded', mockListener)).not.toThrow();
     });
+
+    it('should stop reporting camera moves on dispose', async () => {
+      await molstarService.initialize(container);
+      const { stateChanged } = (molstarService as any).viewer.plugin.canvas3d.camera;
+      const subscription = stateChanged.subscribe.mock.results[0].value;
+
+      molstarService.dispose();
+
+      expect(subscription.unsubscribe).toHaveBeenCalled();
+    });
   });
 });
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parsePDB, validateStructure } from '@/lib/pdb-parser';
+import { buildAssembly, parsePDB, validateStructure } from '@/lib/pdb-parser';
 
 // Sample PDB data
 const SAMPLE_PDB = `HEADER    OXYGEN STORAGE/TRANSPORT                11-MAR-98   1MBN
@@ -124,6 +124,306 @@ describe('PDB Parser', () => {
     });
   });
 
+  describe('annotations', () => {
+    const atomLine = (serial: number, name: string, resName: string, chain: string, seq: number, x: number, element: string, record = 'ATOM  ') =>
+      `${record}${String(serial).padStart(5)} ${name.padEnd(4)} ${resName} ${chain}${String(seq).padStart(4)}    ${x.toFixed(3).padStart(8)}   0.000   0.000  1.00 10.00          ${element.padStart(2)}`;
+
+    const ANNOTATED_PDB = [
+      'HELIX    1   1 ALA A    1  CYS A    4  1                                   4',
+      'SHEET    1   A 2 CYS A   8  CYS A   9  0',
+      'SHEET    2   A 2 ALA B   1  CYS B   2 -1',
+      'SSBOND   1 CYS A    4    CYS A    8                          1555   1555  2.04',
+      'LINK         SG  CYS A   9                ZN    ZN A 101     1555   1555  2.30',
+      'REMARK 350 BIOMOLECULE: 1',
+      'REMARK 350 AUTHOR DETERMINED BIOLOGICAL UNIT: DIMERIC',
+      'REMARK 350 APPLY THE FOLLOWING TO CHAINS: A',
+      'REMARK 350   BIOMT1   1  1.000000  0.000000  0.000000        0.00000',
+      'REMARK 350   BIOMT2   1  0.000000  1.000000  0.000000        0.00000',
+      'REMARK 350   BIOMT3   1  0.000000  0.000000  1.000000        0.00000',
+      'REMARK 350   BIOMT1   2 -1.000000  0.000000  0.000000       10.00000',
+      'REMARK 350   BIOMT2   2  0.000000 -1.000000  0.000000        0.00000',
+      'REMARK 350   BIOMT3   2  0.000000  0.000000  1.000000        0.00000',
+      atomLine(1, 'SG', 'CYS', 'A', 4, 0, 'S'),
+      atomLine(2, 'SG', 'CYS', 'A', 8, 2.04, 'S'),
+      atomLine(3, 'SG', 'CYS', 'A', 9, 20, 'S'),
+      atomLine(4, 'ZN', ' ZN', 'A', 101, 22.3, 'ZN', 'HETATM'),
+      atomLine(5, 'C1', 'LIG', 'A', 201, 40, 'C', 'HETATM'),
+      atomLine(6, 'C2', 'LIG', 'A', 201, 41.3, 'C', 'HETATM'),
+      'CONECT    5    6    6',
+      'END'
+    ].join('\n');
+
+    it('should read helices, strands and links', async () => {
+      const result = await parsePDB(ANNOTATED_PDB);
+
+      expect(result.secondaryStructure).toHaveLength(3);
+      expect(result.secondaryStructure[0]).toMatchObject({
+        type: 'helix',
+        helixClass: 1,
+        start: { chainID: 'A', resSeq: 1, resName: 'ALA' },
+        end: { chainID: 'A', resSeq: 4 }
+      });
+      expect(result.secondaryStructure[2]).toMatchObject({
+        type: 'sheet',
+        sheetId: 'A',
+        sense: -1,
+        start: { chainID: 'B', resSeq: 1 },
+        end: { chainID: 'B', resSeq: 2 }
+      });
+
+      expect(result.links.map(link => link.type)).toEqual(['disulfide', 'metal']);
+      expect(result.links[1].partner2).toMatchObject({ atomName: 'ZN', resSeq: 101 });
+    });
+
+    it('should add bonds from CONECT records and links', async () => {
+      const { bonds } = await parsePDB(ANNOTATED_PDB);
+      const find = (a: number, b: number) => bonds.find(bond => bond.atom1 === a && bond.atom2 === b);
+
+      expect(find(1, 2)).toBeDefined(); // Disulfide
+      expect(find(3, 4)).toBeDefined(); // Metal coordination
+      expect(find(5, 6)?.order).toBe(2); // Repeated CONECT partner
+    });
+
+    it('should build biological assemblies from BIOMT operators', async () => {
+      const result = await parsePDB(ANNOTATED_PDB);
+
+      expect(result.assemblies).toHaveLength(1);
+      expect(result.assemblies[0].details).toBe('DIMERIC');
+      expect(result.assemblies[0].generators[0].operators).toHaveLength(2);
+
+      const atoms = buildAssembly(result, '1');
+      expect(atoms).toHaveLength(12);
+      expect(atoms[6].chainID).toBe('A_2');
+      expect(atoms[7].x).toBeCloseTo(10 - 2.04);
+      expect(() => buildAssembly(result, '2')).toThrow('Assembly 2 not found');
+    });
+
+    it('should keep every model of an ensemble', async () => {
+      const ensemble = [
+        'MODEL        1', atomLine(1, 'CA', 'ALA', 'A', 1, 1, 'C'), 'ENDMDL',
+        'MODEL        2', atomLine(1, 'CA', 'ALA', 'A', 1, 2, 'C'), 'ENDMDL',
+        'MODEL        3', atomLine(1, 'CA', 'ALA', 'A', 1, 3, 'C'), 'ENDMDL',
+        'END'
+      ].join('\n');
+
+      const result = await parsePDB(ensemble, { model: 2 });
+      expect(result.atoms[0].x).toBe(2);
+      expect(result.models.map(model => model[0].x)).toEqual([1, 2, 3]);
+      expect(result.statistics.modelCount).toBe(3);
+    });
+
+    it('should read mmCIF annotations, assemblies and models', async () => {
+      const cif = `data_TEST
+_struct.title 'Test structure with "quotes"'
+_exptl.method 'SOLUTION NMR'
+#
+loop_
+_atom_site.group_PDB
+_atom_site.id
+_atom_site.type_symbol
+_atom_site.label_atom_id
+_atom_site.label_comp_id
+_atom_site.label_asym_id
+_atom_site.label_seq_id
+_atom_site.auth_seq_id
+_atom_site.Cartn_x
+_atom_site.Cartn_y
+_atom_site.Cartn_z
+_atom_site.occupancy
+_atom_site.B_iso_or_equiv
+_atom_site.pdbx_PDB_model_num
+ATOM   1 S SG  CYS A 1 1   0.000 0 0 1 10 1
+ATOM   2 S SG  CYS A 2 2   2.040 0 0 1 10 1
+HETATM 3 O O   HOH B . 301 9.000 0 0 1 10 1
+ATOM   4 S SG  CYS A 1 1   0.500 0 0 1 10 2
+ATOM   5 S SG  CYS A 2 2   2.540 0 0 1 10 2
+HETATM 6 O O   HOH B . 301 9.500 0 0 1 10 2
+#
+loop_
+_struct_conf.conf_type_id
+_struct_conf.id
+_struct_conf.beg_label_comp_id
+_struct_conf.beg_label_asym_id
+_struct_conf.beg_label_seq_id
+_struct_conf.end_label_comp_id
+_struct_conf.end_label_asym_id
+_struct_conf.end_label_seq_id
+_struct_conf.pdbx_PDB_helix_class
+HELX_P HELX_P1 CYS A 1 CYS A 2 1
+#
+_struct_conn.id disulf1
+_struct_conn.conn_type_id disulf
+_struct_conn.ptnr1_label_asym_id A
+_struct_conn.ptnr1_label_comp_id CYS
+_struct_conn.ptnr1_label_seq_id 1
+_struct_conn.ptnr1_label_atom_id SG
+_struct_conn.ptnr2_label_asym_id A
+_struct_conn.ptnr2_label_comp_id CYS
+_struct_conn.ptnr2_label_seq_id 2
+_struct_conn.ptnr2_label_atom_id SG
+_struct_conn.pdbx_dist_value 2.040
+#
+_pdbx_struct_assembly.id 1
+_pdbx_struct_assembly.details
+;author_defined_assembly
+;
+_pdbx_struct_assembly.oligomeric_count 4
+#
+_pdbx_struct_assembly_gen.assembly_id 1
+_pdbx_struct_assembly_gen.oper_expression '(1,2)(3,4)'
+_pdbx_struct_assembly_gen.asym_id_list A,B
+#
+loop_
+_pdbx_struct_oper_list.id
+_pdbx_struct_oper_list.matrix[1][1]
+_pdbx_struct_oper_list.matrix[1][2]
+_pdbx_struct_oper_list.matrix[1][3]
+_pdbx_struct_oper_list.vector[1]
+_pdbx_struct_oper_list.matrix[2][1]
+_pdbx_struct_oper_list.matrix[2][2]
+_pdbx_struct_oper_list.matrix[2][3]
+_pdbx_struct_oper_list.vector[2]
+_pdbx_struct_oper_list.matrix[3][1]
+_pdbx_struct_oper_list.matrix[3][2]
+_pdbx_struct_oper_list.matrix[3][3]
+_pdbx_struct_oper_list.vector[3]
+1 1 0 0 0   0 1 0 0 0 0 1 0
+2 1 0 0 100 0 1 0 0 0 0 1 0
+3 1 0 0 0   0 1 0 0 0 0 1 0
+4 1 0 0 0   0 1 0 50 0 0 1 0
+#`;
+
+      const result = await parsePDB(cif, { includeWater: true });
+
+      expect(result.metadata.title).toBe('Test structure with "quotes"');
+      expect(result.metadata.method).toBe('SOLUTION NMR');
+      expect(result.atoms).toHaveLength(3);
+      expect(result.atoms[2].resSeq).toBe(301);
+      expect(result.models).toHaveLength(2);
+      expect(result.models[1][0].x).toBeCloseTo(0.5);
+
+      expect(result.secondaryStructure[0]).toMatchObject({ type: 'helix', start: { chainID: 'A', resSeq: 1 } });
+      expect(result.links[0]).toMatchObject({ type: 'disulfide', distance: 2.04 });
+      expect(result.bonds.some(bond => bond.atom1 === 1 && bond.atom2 === 2)).toBe(true);
+
+      const [assembly] = result.assemblies;
+      expect(assembly).toMatchObject({ id: '1', details: 'author_defined_assembly', oligomericCount: 4 });
+      expect(assembly.generators[0].operators.map(op => op.id)).toEqual(['1x3', '1x4', '2x3', '2x4']);
+
+      const atoms = buildAssembly(result, '1');
+      expect(atoms).toHaveLength(12);
+      const shifted = atoms.filter(atom => atom.chainID === 'A_2x4');
+      expect(shifted[0].x).toBeCloseTo(100);
+      expect(shifted[0].y).toBeCloseTo(50);
+    });
+  });
+
+  describe('small molecules', () => {
+    const ACETATE_SDF = `acetate
+  test
+
+  4  3  0  0  0  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    1.5200    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    2.1400    1.0700    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0
+    2.1400   -1.0700    0.0000 O   0  5  0  0  0  0  0  0  0  0  0  0
+  1  2  1  0  0  0  0
+  2  3  2  0  0  0  0
+  2  4  1  0  0  0  0
+M  END
+$$$$
+ethanol
+  test
+
+  3  2  0  0  0  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    1.5200    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    2.0000    1.3500    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0
+  1  2  1  0  0  0  0
+  2  3  1  0  0  0  0
+M  END
+$$$$
+`;
+
+    it('should read SDF records as models with bond orders and charges', async () => {
+      const result = await parsePDB(ACETATE_SDF);
+
+      expect(result.format).toBe('sdf');
+      expect(result.metadata.id).toBe('acetate');
+      expect(result.models).toHaveLength(2);
+      expect(result.atoms.map(atom => atom.element)).toEqual(['C', 'C', 'O', 'O']);
+      expect(result.atoms[3].charge).toBe('1-');
+      expect(result.bonds.map(bond => bond.order)).toEqual([1, 2, 1]);
+      expect(result.secondaryStructure).toHaveLength(0);
+
+      const ethanol = await parsePDB(ACETATE_SDF, { model: 2 });
+      expect(ethanol.metadata.id).toBe('ethanol');
+      expect(ethanol.atoms).toHaveLength(3);
+    });
+
+    it('should let M  CHG lines override atom block charges', async () => {
+      const sdf = ACETATE_SDF.split('$$$$')[0].replace('M  END', 'M  CHG  1   1   1\nM  END') + '$$$$\n';
+      const result = await parsePDB(sdf);
+
+      expect(result.atoms[0].charge).toBe('1+');
+      expect(result.atoms[3].charge).toBeUndefined();
+    });
+
+    it('should read V3000 molfiles', async () => {
+      const v3000 = `methylammonium
+  test
+
+  0  0  0     0  0            999 V3000
+M  V30 BEGIN CTAB
+M  V30 COUNTS 2 1 0 0 0
+M  V30 BEGIN ATOM
+M  V30 1 C 0.0 0.0 0.0 0
+M  V30 2 N 1.47 0.0 0.0 0 CHG=1
+M  V30 END ATOM
+M  V30 BEGIN BOND
+M  V30 1 1 1 2
+M  V30 END BOND
+M  V30 END CTAB
+M  END
+`;
+      const result = await parsePDB(v3000);
+
+      expect(result.format).toBe('sdf');
+      expect(result.atoms[1]).toMatchObject({ element: 'N', charge: '1+', x: 1.47 });
+      expect(result.bonds).toEqual([{ atom1: 1, atom2: 2, order: 1 }]);
+    });
+
+    it('should read MOL2 atoms, aromatic bonds and formal charges', async () => {
+      const mol2 = `@<TRIPOS>MOLECULE
+pyridinium
+ 3 2 1 0 0
+SMALL
+NO_CHARGES
+
+@<TRIPOS>ATOM
+      1 N1          0.0000    0.0000    0.0000 N.ar    1  PYR1       0.0000
+      2 C2          1.3400    0.0000    0.0000 C.ar    1  PYR1       0.0000
+      3 H3          2.4200    0.0000    0.0000 H       1  PYR1       0.0000
+@<TRIPOS>BOND
+     1     1     2   ar
+     2     2     3    1
+@<TRIPOS>UNITY_ATOM_ATTR
+1 1
+charge 1
+`;
+      const result = await parsePDB(mol2);
+
+      expect(result.format).toBe('mol2');
+      expect(result.metadata.id).toBe('pyridinium');
+      expect(result.atoms[0]).toMatchObject({ name: 'N1', resName: 'PYR', element: 'N', charge: '1+' });
+      expect(result.bonds.map(bond => bond.order)).toEqual([4, 1]);
+
+      const heavy = await parsePDB(mol2, { includeHydrogens: false });
+      expect(heavy.atoms).toHaveLength(2);
+      expect(heavy.bonds).toHaveLength(1);
+    });
+  });
+
   describe('validateStructure', () => {
     it('should validate correct structures', async () => {
       const structure = await parsePDB(SAMPLE_PDB);
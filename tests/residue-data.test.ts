@@ -0,0 +1,73 @@
+/**
+ * Residue Data Test Suite
+ * Tests built-in B-factor/occupancy sources and CSV parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseResidueDataCSV,
+  residueDataKey,
+  residueDataRange,
+  residueValuesFromAtoms,
+} from '../src/lib/residue-data';
+import type { Atom } from '../src/types/pdb';
+
+function atom(chain: string, residueSeq: number, tempFactor: number, occupancy = 1): Atom {
+  return {
+    serial: residueSeq,
+    name: 'CA',
+    residue: 'ALA',
+    chain,
+    residueSeq,
+    x: 0,
+    y: 0,
+    z: 0,
+    occupancy,
+    tempFactor,
+    element: 'C',
+    isLigand: false,
+  } as Atom;
+}
+
+describe('Residue data', () => {
+  it('averages B-factor and occupancy per residue', () => {
+    const atoms = [atom('A', 1, 10), atom('A', 1, 20, 0.5), atom('B', 1, 40)];
+
+    expect(residueValuesFromAtoms(atoms, 'b-factor')).toEqual(new Map([['A:1', 15], ['B:1', 40]]));
+    expect(residueValuesFromAtoms(atoms, 'occupancy').get(residueDataKey('A', 1))).toBe(0.75);
+  });
+
+  it('parses headerless CSV in chain, residue, value order', () => {
+    const { values, errors } = parseResidueDataCSV('A,1,0.5\nA,2,-1.25\n\nB,3,abc\n');
+
+    expect(values).toEqual(new Map([['A:1', 0.5], ['A:2', -1.25]]));
+    expect(errors).toEqual(['Line 4: expected chain, residue number and value']);
+  });
+
+  it('rejects rows with an empty residue number or value', () => {
+    const { values, errors } = parseResidueDataCSV('A,1,0.5\nA,12,\nA,,1.5\nA, ,2\n');
+
+    expect(values).toEqual(new Map([['A:1', 0.5]]));
+    expect(errors).toEqual([
+      'Line 2: expected chain, residue number and value',
+      'Line 3: expected chain, residue number and value',
+      'Line 4: expected chain, residue number and value',
+    ]);
+  });
+
+  it('matches columns by header name', () => {
+    const { values, errors } = parseResidueDataCSV('score\tresi\tchain\n0.9\t10\tA\n"0.1"\t11\t"A"\n');
+
+    expect(errors).toEqual([]);
+    expect(values).toEqual(new Map([['A:10', 0.9], ['A:11', 0.1]]));
+    expect(parseResidueDataCSV('chain,value\nA,1').errors).toEqual([
+      'Header must name a chain, a residue number and a value column',
+    ]);
+  });
+
+  it('derives a color range from the data', () => {
+    expect(residueDataRange(new Map([['A:1', 3], ['A:2', -2]]))).toEqual([-2, 3]);
+    expect(residueDataRange(new Map([['A:1', 3]]))).toEqual([2, 4]);
+    expect(residueDataRange(new Map())).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Sequence Alignment Test Suite
+ * Tests BLOSUM62 scoring, global/local pairwise and progressive multiple alignment
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BLOSUM62,
+  IDENTITY_SCORING,
+  alignGlobal,
+  alignLocal,
+  alignMultiple,
+  columnConservation,
+  columnResidueIndices,
+  parseSequences,
+  residueCode,
+  sequenceConservation,
+  substitutionScore,
+} from '../src/lib/sequence-alignment';
+
+describe('sequence-alignment', () => {
+  it('should score substitutions with a symmetric BLOSUM62', () => {
+    const letters = Object.keys(BLOSUM62);
+    expect(letters).toHaveLength(24);
+    letters.forEach(a => letters.forEach(b => expect(BLOSUM62[a][b]).toBe(BLOSUM62[b][a])));
+
+    expect(substitutionScore('W', 'W')).toBe(11);
+    expect(substitutionScore('I', 'V')).toBe(3);
+    expect(substitutionScore('U', 'A')).toBe(0); // Scored as X
+    expect(substitutionScore('A', 'C', IDENTITY_SCORING)).toBe(-1);
+    expect(residueCode('mse')).toBe('M');
+    expect(residueCode('HOH')).toBe('X');
+  });
+
+  it('should align globally with a single affine gap', () => {
+    const alignment = alignGlobal('MAKGGGLSW', 'MAKLSW');
+
+    expect(alignment.alignedA).toBe('MAKGGGLSW');
+    expect(alignment.alignedB).toBe('MAK---LSW');
+    expect(alignment.pairs).toEqual([[0, 0], [1, 1], [2, 2], [6, 3], [7, 4], [8, 5]]);
+    expect(alignment.identity).toBe(1);
+    // 5 + 4 + 5 + 4 + 4 + 11 for matches, -10 - 0.5 - 0.5 for the gap
+    expect(alignment.score).toBe(22);
+  });
+
+  it('should not penalise overhangs with free end gaps', () => {
+    const alignment = alignGlobal('GGGMAKLS', 'MAKLSPP', { freeEndGaps: true });
+
+    expect(alignment.alignedA).toBe('GGGMAKLS--');
+    expect(alignment.alignedB).toBe('---MAKLSPP');
+    expect(alignment.pairs[0]).toEqual([3, 0]);
+  });
+
+  it('should find the best local alignment', () => {
+    const alignment = alignLocal('PPPPWCHWKPPP', 'GGWCHWKGG');
+
+    expect(alignment.alignedA).toBe('WCHWK');
+    expect(alignment.alignedB).toBe('WCHWK');
+    expect(alignment.pairs[0]).toEqual([4, 2]);
+    expect(alignLocal('AAAA', 'WWWW').pairs).toHaveLength(0);
+  });
+
+  it('should build a progressive multiple alignment with conservation', () => {
+    const { rows, conservation } = alignMultiple(['KYYGNGVTCGKHSCSVDWG', 'KYYGNGVSCNKKGCSVDWG', 'KYYGNGVHCGKKSCTVDWG', 'KYYGNGLSCSKKGCTVNWG']);
+
+    expect(rows.map(row => row.replace(/-/g, ''))).toEqual([
+      'KYYGNGVTCGKHSCSVDWG',
+      'KYYGNGVSCNKKGCSVDWG',
+      'KYYGNGVHCGKKSCTVDWG',
+      'KYYGNGLSCSKKGCTVNWG',
+    ]);
+    expect(new Set(rows.map(row => row.length)).size).toBe(1);
+    expect(conservation.slice(0, 6)).toEqual([1, 1, 1, 1, 1, 1]); // YGNG motif block
+    expect(conservation[6]).toBe(0.75);
+
+    const gapped = alignMultiple(['MKTAYIWK', 'MKTAK', 'MKTAYIWK']);
+    expect(gapped.rows[1]).toBe('MKTA---K');
+    expect(columnConservation(['AC', 'A-'])).toEqual([1, 0.5]);
+    expect(columnResidueIndices('A--CD')).toEqual([0, null, null, 1, 2]);
+  });
+
+  it('should score residue conservation against homologs and read FASTA', () => {
+    expect(sequenceConservation('MKTAYIWK', ['MKTAK', 'MKTAYIWK'])).toEqual([1, 1, 1, 1, 2 / 3, 2 / 3, 2 / 3, 1]);
+
+    expect(parseSequences('>a\nMKT\nAYK\n>b desc\nmktak\n')).toEqual(['MKTAYK', 'MKTAK']);
+    expect(parseSequences('MKTAYK\n\n MKTAK ')).toEqual(['MKTAYK', 'MKTAK']);
+  });
+});
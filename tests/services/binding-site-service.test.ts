@@ -0,0 +1,93 @@
+/**
+ * Binding Site Service Test Suite
+ * Tests analysis of the viewer's atoms, pocket detection in the worker and
+ * camera focus on sites and pockets
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { BindingSiteService } from '../../src/services/binding-site-service';
+import type { Atom } from '../../src/types/pdb';
+
+const makeAtom = (residue: string, residueSeq: number, chain: string, x: number, isLigand = false): Atom => ({
+  serial: residueSeq,
+  name: 'C1',
+  element: 'C',
+  residue,
+  residueSeq,
+  chain,
+  x,
+  y: 0,
+  z: 0,
+  occupancy: 1,
+  tempFactor: 0,
+  isLigand,
+});
+
+function createViewer(atoms: Atom[]) {
+  return {
+    getAtoms: vi.fn(() => atoms),
+    focusOnResidues: vi.fn(async () => {}),
+  };
+}
+
+describe('BindingSiteService', () => {
+  const atoms = [
+    makeAtom('ALA', 10, 'A', 3),
+    makeAtom('SER', 12, 'B', -4),
+    makeAtom('TRP', 40, 'A', 12),
+    makeAtom('ATP', 500, 'A', 0, true),
+  ];
+
+  it('should report binding sites within the requested radius', async () => {
+    const viewer = createViewer(atoms);
+    const service = new BindingSiteService(viewer);
+
+    const report = await service.analyze({ radius: 4.5, detectPockets: false });
+    expect(report.radius).toBe(4.5);
+    expect(report.pockets).toEqual([]);
+    expect(report.sites).toHaveLength(1);
+    expect(report.sites[0].residues.map((residue) => `${residue.chain}${residue.residueSeq}`)).toEqual(['A10', 'B12']);
+  });
+
+  it('should detect pockets in the worker and fall back to the main thread if it fails', async () => {
+    const worker = Object.assign(new EventTarget(), { postMessage: vi.fn(), terminate: vi.fn() });
+    const createWorker = vi.fn(() => worker as unknown as Worker);
+    const service = new BindingSiteService(createViewer(atoms), createWorker);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const first = service.analyze({ maxPoints: 40 });
+    expect(worker.postMessage).toHaveBeenCalledWith({
+      type: 'pockets',
+      id: 0,
+      atoms,
+      options: { maxPoints: 40 },
+    });
+    worker.dispatchEvent(new MessageEvent('message', { data: { type: 'result', id: 0, pockets: [] } }));
+    expect((await first).pockets).toEqual([]);
+
+    const second = service.analyze();
+    worker.dispatchEvent(new Event('error'));
+    expect((await second).pockets).toEqual([]);
+    expect(worker.terminate).toHaveBeenCalled();
+
+    await service.analyze();
+    expect(worker.postMessage).toHaveBeenCalledTimes(2);
+    expect(createWorker).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('should focus the ligand with its lining residues grouped by chain', async () => {
+    const viewer = createViewer(atoms);
+    const service = new BindingSiteService(viewer);
+    const [site] = (await service.analyze({ detectPockets: false })).sites;
+
+    await service.focusSite(site, { duration: 0 });
+    expect(viewer.focusOnResidues).toHaveBeenCalledWith(
+      [
+        { chainId: 'A', residueIds: [500, 10] },
+        { chainId: 'B', residueIds: [12] },
+      ],
+      { duration: 0 }
+    );
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Collections Service Test Suite
+ * Tests collection ordering, PDB ID resolution, sharing and row mapping
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type QueryResult = { data: unknown; error: unknown };
+
+// Chainable query builder that records calls and resolves to a queued result
+function createQuery(result: QueryResult) {
+  const calls: Array<[string, unknown[]]> = [];
+  const query: any = new Proxy({}, {
+    get(_target, prop: string) {
+      if (prop === 'then') {
+        return (resolve: (value: QueryResult) => void) => resolve(result);
+      }
+      if (prop === 'calls') return calls;
+      return (...args: unknown[]) => {
+        calls.push([prop, args]);
+        return query;
+      };
+    },
+  });
+  return query;
+}
+
+const queued: Record<string, QueryResult[]> = {};
+const queries: Record<string, any[]> = {};
+
+const mockSupabaseClient = {
+  from: vi.fn((table: string) => {
+    const query = createQuery(queued[table]?.shift() ?? { data: [], error: null });
+    (queries[table] ??= []).push(query);
+    return query;
+  }),
+  rpc: vi.fn(),
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(() => mockSupabaseClient),
+}));
+
+import { collectionsService } from '@/services/collections-service';
+
+function queue(table: string, ...results: QueryResult[]) {
+  (queued[table] ??= []).push(...results);
+}
+
+function structureRow(id: string, position: number, source: string | null = null) {
+  return {
+    position,
+    added_at: '2026-10-01T00:00:00Z',
+    structures: {
+      id,
+      name: `Structure ${id}`,
+      source,
+      structure_type: 'protein',
+      description: null,
+      thumbnail_url: null,
+    },
+  };
+}
+
+describe('CollectionsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(queued)) delete queued[key];
+    for (const key of Object.keys(queries)) delete queries[key];
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1' } } });
+  });
+
+  describe('getCollection', () => {
+    it('should map the collection and flag favourite structures', async () => {
+      queue('collections', {
+        data: {
+          id: 'c1', owner_id: 'user-1', name: 'LDH family', description: null, icon: null,
+          color: '#3B82F6', visibility: 'private', parent_id: null,
+          created_at: '2026-10-01T00:00:00Z', updated_at: '2026-10-02T00:00:00Z',
+        },
+        error: null,
+      });
+      queue('collection_structures', {
+        data: [structureRow('s1', 0, '1LDG'), structureRow('s2', 1, 'upload')],
+        error: null,
+      });
+      queue('structure_favorites', { data: [{ structure_id: 's2' }], error: null });
+
+      const collection = await collectionsService.getCollection('c1');
+
+      expect(collection.name).toBe('LDH family');
+      expect(collection.ownerId).toBe('user-1');
+      expect(collection.structures.map((s) => s.pdbId)).toEqual(['1LDG', null]);
+      expect(collection.structures.map((s) => s.isFavorite)).toEqual([false, true]);
+    });
+
+    it('should report missing collections as NOT_FOUND', async () => {
+      queue('collections', { data: null, error: { message: 'no rows' } });
+
+      await expect(collectionsService.getCollection('missing')).rejects.toMatchObject({
+        name: 'CollectionError',
+        code: 'NOT_FOUND',
+      });
+    });
+  });
+
+  describe('addStructure', () => {
+    it('should reject malformed PDB IDs', async () => {
+      await expect(
+        collectionsService.addStructure('c1', { pdbId: 'LDH' })
+      ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+
+    it('should append an existing PDB structure after the last position', async () => {
+      queue('structures', { data: [{ id: 's9' }], error: null });
+      queue('collection_structures',
+        { data: [structureRow('s1', 0), structureRow('s2', 4)], error: null },
+        { data: null, error: null },
+        { data: [], error: null }
+      );
+
+      await collectionsService.addStructure('c1', { pdbId: '1ldg' });
+
+      expect(queries.structures![0].calls).toContainEqual(['eq', ['source', '1LDG']]);
+      expect(queries.collection_structures![1].calls).toContainEqual([
+        'insert',
+        [{ collection_id: 'c1', structure_id: 's9', position: 5 }],
+      ]);
+    });
+
+    it('should not add the same structure twice', async () => {
+      queue('collection_structures', { data: [structureRow('s1', 0)], error: null });
+
+      await expect(
+        collectionsService.addStructure('c1', { structureId: 's1' })
+      ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+  });
+
+  describe('reorderStructures', () => {
+    it('should write positions in the given order', async () => {
+      queue('collection_structures',
+        { data: [structureRow('a', 0), structureRow('b', 1), structureRow('c', 2)], error: null },
+        { data: null, error: null },
+        { data: [], error: null }
+      );
+
+      await collectionsService.reorderStructures('c1', ['c', 'a', 'b']);
+
+      expect(queries.collection_structures![1].calls[0]).toEqual([
+        'upsert',
+        [
+          [
+            { collection_id: 'c1', structure_id: 'c', position: 0 },
+            { collection_id: 'c1', structure_id: 'a', position: 1 },
+            { collection_id: 'c1', structure_id: 'b', position: 2 },
+          ],
+          { onConflict: 'collection_id,structure_id' },
+        ],
+      ]);
+    });
+
+    it('should reject orders that drop or repeat structures', async () => {
+      queue('collection_structures',
+        { data: [structureRow('a', 0), structureRow('b', 1)], error: null },
+        { data: [structureRow('a', 0), structureRow('b', 1)], error: null }
+      );
+
+      await expect(collectionsService.reorderStructures('c1', ['a'])).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+      });
+      await expect(collectionsService.reorderStructures('c1', ['a', 'a'])).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+      });
+    });
+  });
+
+  describe('shareCollection', () => {
+    it('should create a link share with a token when no user is given', async () => {
+      queue('collection_shares', {
+        data: {
+          id: 'sh1', collection_id: 'c1', shared_by: 'user-1', shared_with: null,
+          permission: 'view', share_token: 'token', expires_at: null, created_at: '2026-10-01T00:00:00Z',
+        },
+        error: null,
+      });
+
+      const share = await collectionsService.shareCollection('c1', {});
+
+      const [, [inserted]] = queries.collection_shares![0].calls.find(([name]: [string]) => name === 'insert');
+      expect(inserted.shared_with).toBeNull();
+      expect(inserted.share_token).toMatch(/^[0-9a-f]{48}$/);
+      expect(share.shareToken).toBe('token');
+    });
+
+    it('should require a logged-in user', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: null } });
+
+      await expect(collectionsService.shareCollection('c1', {})).rejects.toMatchObject({
+        code: 'UNAUTHORIZED',
+      });
+    });
+  });
+});
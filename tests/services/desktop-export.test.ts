@@ -0,0 +1,274 @@
+/**
+ * Desktop Export Service Test Suite
+ * Tests AMBER and LAMMPS input generation from a parsed structure
+ */
+
+import { describe, it, expect } from 'vitest';
+import { desktopExport } from '../../src/services/desktop-export';
+import {
+  DesktopExportConfig,
+  ExportFormat,
+  ExportResult,
+  MDSimulationConfig,
+  MDTier,
+} from '../../src/types/md-types';
+import { createBox } from '../../src/lib/md-box';
+import { TemplateMatchError } from '../../src/lib/md-templates';
+import { SMALL_PROTEIN_PDB } from '../fixtures/mock-pdb-data';
+
+const simulationConfig: MDSimulationConfig = {
+  tier: MDTier.DESKTOP,
+  atomCount: 16,
+  timestep: 2,
+  totalTime: 10,
+  temperature: 300,
+  ensemble: 'NPT',
+  integrator: 'langevin',
+  outputFrequency: 10,
+};
+
+function exportAs(format: ExportFormat, overrides: Partial<DesktopExportConfig> = {}): Promise<ExportResult> {
+  return desktopExport.exportSimulation(SMALL_PROTEIN_PDB, simulationConfig, {
+    format,
+    includeTopology: true,
+    includeParameters: true,
+    includeRunScript: true,
+    includeDocumentation: true,
+    ...overrides,
+  });
+}
+
+function file(result: ExportResult, filename: string): string {
+  const match = result.files.find(f => f.filename === filename);
+  expect(match, filename).toBeDefined();
+  return match!.content;
+}
+
+/**
+ * Values of one %FLAG section in a prmtop file
+ */
+function prmtopValues(prmtop: string, flag: string): string[] {
+  const lines = prmtop.split('\n');
+  const start = lines.indexOf(`%FLAG ${flag}`);
+  expect(start, flag).toBeGreaterThanOrEqual(0);
+
+  const values: string[] = [];
+  for (let i = start + 2; i < lines.length && !lines[i].startsWith('%'); i++) {
+    values.push(...lines[i].trim().split(/\s+/).filter(Boolean));
+  }
+  return values;
+}
+
+describe('DesktopExportService', () => {
+  describe('GROMACS', () => {
+    it('should convert every atom to the gro format in nm', async () => {
+      const result = await exportAs(ExportFormat.GROMACS, { box: createBox('cubic', 4) });
+      const lines = file(result, 'system.gro').trimEnd().split('\n');
+
+      expect(Number(lines[1])).toBe(16);
+      expect(lines).toHaveLength(2 + 16 + 1);
+      // Residue number, name, atom name and number in fixed columns
+      expect(lines[3].slice(0, 20)).toBe('    1ALA     CA    2');
+      expect(lines[8].slice(0, 10)).toBe('    2GLY  ');
+      expect(Number(lines[3].slice(20, 28))).toBeCloseTo(0.146, 3);
+      expect(lines[lines.length - 1].trim().split(/\s+/).map(Number)).toEqual([4, 4, 4]);
+    });
+
+    it('should write nine box values for triclinic cells', async () => {
+      const result = await exportAs(ExportFormat.GROMACS, { box: createBox('truncated-octahedron', 4) });
+      const lines = file(result, 'system.gro').trimEnd().split('\n');
+
+      expect(lines[lines.length - 1].trim().split(/\s+/)).toHaveLength(9);
+    });
+
+    it('should generate a topology from the residue templates', async () => {
+      const top = file(await exportAs(ExportFormat.GROMACS), 'topol.top');
+      const section = (name: string) =>
+        top.split(`[ ${name} ]\n`)[1].split('\n\n')[0].split('\n').filter(line => line && !line.startsWith(';'));
+
+      expect(section('atoms')).toHaveLength(16);
+      // 13 intra-residue bonds plus two peptide bonds
+      expect(section('bonds')).toHaveLength(15);
+      expect(section('angles').length).toBeGreaterThan(0);
+      expect(section('dihedrals').length).toBeGreaterThan(0);
+      expect(section('pairs').length).toBeGreaterThan(0);
+      // Charged N-terminus
+      expect(section('atoms')[0]).toMatch(/^\s+1 NT\s+1 ALA\s+N\s+1\s+0\.8730/);
+      expect(section('molecules')).toEqual(['Protein_chain_A     1']);
+    });
+
+    it('should rebuild water hydrogens and list waters as molecules', async () => {
+      const pdb = SMALL_PROTEIN_PDB.replace(
+        'END',
+        'HETATM   17  O   HOH A 101      12.000  12.000  12.000  1.00 20.00           O\n' +
+        'HETATM   18  O   HOH A 102      15.000  12.000  12.000  1.00 20.00           O\nEND'
+      );
+      const result = await desktopExport.exportSimulation(pdb, simulationConfig, {
+        format: ExportFormat.GROMACS,
+        includeTopology: true,
+        includeParameters: false,
+        includeRunScript: false,
+        includeDocumentation: true,
+      });
+
+      expect(Number(file(result, 'system.gro').split('\n')[1])).toBe(22);
+      expect(file(result, 'topol.top')).toMatch(/^SOL\s+2$/m);
+      expect(result.readme).toContain('Hydrogens rebuilt for 2 waters');
+    });
+
+    it('should report unsupported residues and missing atoms', async () => {
+      const pdb = SMALL_PROTEIN_PDB
+        .replace(/^ATOM {6}5 {2}CB .*\n/m, '')
+        .replace('END', 'HETATM   17  C1  LIG A 201       5.000   5.000   5.000  1.00 20.00           C\nEND');
+
+      const failure = await desktopExport
+        .exportSimulation(pdb, simulationConfig, {
+          format: ExportFormat.GROMACS,
+          includeTopology: true,
+          includeParameters: true,
+          includeRunScript: true,
+          includeDocumentation: true,
+        })
+        .catch((e: unknown) => e);
+
+      expect(failure).toBeInstanceOf(TemplateMatchError);
+      const { report, message } = failure as TemplateMatchError;
+      expect(report.unsupportedResidues).toEqual(['A:LIG201']);
+      expect(report.missingAtoms).toEqual([{ residue: 'A:ALA1', atoms: ['CB'] }]);
+      expect(message).toContain('Missing atoms in A:ALA1: CB');
+    });
+
+    it('should write minimization and MD parameters for the run script', async () => {
+      const result = await exportAs(ExportFormat.GROMACS);
+
+      expect(file(result, 'em.mdp')).toContain('integrator               = steep');
+      expect(file(result, 'md.mdp')).toContain('nsteps                   = 5000');
+      expect(file(result, 'md.mdp')).toContain('pcoupl                   = Parrinello-Rahman');
+      expect(file(result, 'run_md.sh')).not.toContain('pdb2gmx');
+    });
+  });
+
+  describe('AMBER', () => {
+    it('should write a prmtop describing every atom', async () => {
+      const prmtop = file(await exportAs(ExportFormat.AMBER), 'system.prmtop');
+      const pointers = prmtopValues(prmtop, 'POINTERS').map(Number);
+
+      expect(prmtop.startsWith('%VERSION')).toBe(true);
+      expect(pointers).toHaveLength(31);
+      expect(pointers[0]).toBe(16);
+      expect(prmtopValues(prmtop, 'CHARGE')).toHaveLength(16);
+      expect(prmtopValues(prmtop, 'ATOM_NAME').slice(0, 3)).toEqual(['N', 'CA', 'C']);
+      expect(prmtopValues(prmtop, 'RESIDUE_LABEL')).toEqual(['ALA', 'GLY', 'VAL']);
+      // Heavy-atom bonds: three coordinate indices per entry
+      expect(prmtopValues(prmtop, 'BONDS_WITHOUT_HYDROGEN')).toHaveLength(pointers[3] * 3);
+      expect(prmtopValues(prmtop, 'DIHEDRALS_WITHOUT_HYDROGEN')).toHaveLength(pointers[7] * 5);
+      expect(prmtopValues(prmtop, 'EXCLUDED_ATOMS_LIST')).toHaveLength(pointers[10]);
+      // Rectangular box
+      expect(pointers[27]).toBe(1);
+      expect(Number(prmtopValues(prmtop, 'BOX_DIMENSIONS')[0])).toBeCloseTo(90);
+    });
+
+    it('should write coordinates and box to the inpcrd file', async () => {
+      const result = await exportAs(ExportFormat.AMBER, { box: createBox('cubic', 4) });
+      const lines = file(result, 'system.inpcrd').trimEnd().split('\n');
+
+      expect(Number(lines[1])).toBe(16);
+      // Two atoms per line, then the box line
+      expect(lines).toHaveLength(2 + 8 + 1);
+      // Coordinates kept as given (Å) when the box is supplied
+      expect(lines[2].trim().split(/\s+/).map(Number)[3]).toBeCloseTo(1.458, 3);
+      expect(lines[lines.length - 1].trim().split(/\s+/).map(Number)).toEqual([40, 40, 40, 90, 90, 90]);
+    });
+
+    it('should write AMBER octahedron angles for truncated octahedra', async () => {
+      const result = await exportAs(ExportFormat.AMBER, { box: createBox('truncated-octahedron', 4) });
+      const prmtop = file(result, 'system.prmtop');
+      const lines = file(result, 'system.inpcrd').trimEnd().split('\n');
+      const boxLine = lines[lines.length - 1].trim().split(/\s+/).map(Number);
+
+      expect(prmtopValues(prmtop, 'POINTERS').map(Number)[27]).toBe(2);
+      expect(boxLine.slice(0, 3).every(l => Math.abs(l - boxLine[0]) < 1e-6)).toBe(true);
+      expect(boxLine.slice(3)).toEqual([109.471219, 109.471219, 109.471219]);
+      const dimensions = prmtopValues(prmtop, 'BOX_DIMENSIONS').map(Number);
+      expect(dimensions[0]).toBe(109.471219);
+      expect(dimensions.slice(1)).toEqual(boxLine.slice(0, 3).map(l => expect.closeTo(l, 5)));
+    });
+
+    it('should configure the MD input from the simulation settings', async () => {
+      const result = await exportAs(ExportFormat.AMBER);
+      const mdin = file(result, 'md.in');
+
+      expect(mdin).toContain('nstlim=5000, dt=0.002');
+      expect(mdin).toContain('ntt=3');
+      expect(mdin).toContain('ntp=1');
+      expect(file(result, 'run_amber.sh')).toContain('-p system.prmtop');
+      expect(result.readme).toContain('16 atoms');
+    });
+
+    it('should omit optional files when not requested', async () => {
+      const result = await exportAs(ExportFormat.AMBER, {
+        includeTopology: false,
+        includeParameters: false,
+        includeRunScript: false,
+      });
+
+      expect(result.files.map(f => f.filename)).toEqual(['system.inpcrd']);
+    });
+  });
+
+  describe('LAMMPS', () => {
+    it('should write a data file with topology and coefficients', async () => {
+      const data = file(await exportAs(ExportFormat.LAMMPS), 'system.data');
+
+      expect(data).toMatch(/^16 atoms$/m);
+      expect(data).toMatch(/^1 dihedral types$/m);
+      for (const section of ['Masses', 'Pair Coeffs', 'Bond Coeffs', 'Angle Coeffs', 'Dihedral Coeffs', 'Atoms', 'Bonds', 'Angles', 'Dihedrals']) {
+        expect(data).toMatch(new RegExp(`^${section}`, 'm'));
+      }
+
+      // Every atom lies inside the box
+      const bounds = ['xlo xhi', 'ylo yhi', 'zlo zhi'].map(label => {
+        const line = data.split('\n').find(l => l.endsWith(label))!;
+        return line.split(' ').slice(0, 2).map(Number);
+      });
+      const atomLines = data.split('Atoms # full\n\n')[1].split('\n\n')[0].split('\n');
+      expect(atomLines).toHaveLength(16);
+      for (const line of atomLines) {
+        const [, , , , x, y, z] = line.split(' ').map(Number);
+        [x, y, z].forEach((v, d) => {
+          expect(v).toBeGreaterThanOrEqual(bounds[d][0]);
+          expect(v).toBeLessThan(bounds[d][1]);
+        });
+      }
+    });
+
+    it('should write a tilted box for truncated octahedra', async () => {
+      const result = await exportAs(ExportFormat.LAMMPS, { box: createBox('truncated-octahedron', 4) });
+
+      expect(file(result, 'system.data')).toContain('xy xz yz');
+    });
+
+    it('should write an input script and run script', async () => {
+      const result = await exportAs(ExportFormat.LAMMPS);
+      const input = file(result, 'in.lammps');
+
+      expect(input).toContain('read_data       system.data');
+      expect(input).toContain('fix 2 all langevin 300 300');
+      expect(input).toContain('run             5000');
+      expect(file(result, 'run_lammps.sh')).toContain('-in in.lammps');
+      expect(result.readme).not.toContain('TODO');
+    });
+  });
+
+  it('should reject structures without atoms', async () => {
+    await expect(
+      desktopExport.exportSimulation('HEADER    EMPTY\nEND', simulationConfig, {
+        format: ExportFormat.AMBER,
+        includeTopology: true,
+        includeParameters: true,
+        includeRunScript: true,
+        includeDocumentation: true,
+      })
+    ).rejects.toThrow('No atoms');
+  });
+});
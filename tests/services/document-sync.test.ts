@@ -0,0 +1,116 @@
+/**
+ * Document Sync Service Test Suite
+ * Tests sending document operations over a realtime channel, buffering them
+ * while offline and catching up on reconnect, against MockRealtimeService
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DocumentSyncService } from '@/services/document-sync';
+import { MockRealtimeService, type MockRealtimeChannel } from '@/mocks/services/mock-realtime';
+import type { MeasurementResult } from '@/types/molstar';
+
+const measurement: MeasurementResult = {
+  id: 'm1',
+  type: 'distance',
+  value: 2.9,
+  unit: 'Å',
+  label: 'HIS57 NE2 - SER195 OG',
+  participants: [],
+  timestamp: 1000,
+};
+
+describe('DocumentSyncService', () => {
+  let realtime: MockRealtimeService;
+  let channel: MockRealtimeChannel;
+  let alice: DocumentSyncService;
+  let bob: DocumentSyncService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    realtime = new MockRealtimeService();
+    channel = realtime.channel('session:s1');
+    alice = new DocumentSyncService();
+    bob = new DocumentSyncService();
+    alice.attach(channel, 's1', 'alice');
+    bob.attach(channel, 's1', 'bob');
+  });
+
+  afterEach(async () => {
+    alice.reset();
+    bob.reset();
+    const removed = realtime.removeAllChannels();
+    await vi.advanceTimersByTimeAsync(100);
+    await removed;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function connect(...services: DocumentSyncService[]) {
+    for (const service of services) {
+      channel.subscribe((status) => {
+        void service.setSubscribed(status === 'SUBSCRIBED');
+      });
+    }
+    await vi.advanceTimersByTimeAsync(200);
+  }
+
+  it('should keep changes made before subscribing and send them once subscribed', async () => {
+    alice.getDocument()!.setNotes('Catalytic triad');
+    expect(alice.getPendingCount()).toBe(1);
+
+    await connect(alice, bob);
+
+    expect(alice.getPendingCount()).toBe(0);
+    expect(bob.getDocument()!.getNotes()).toBe('Catalytic triad');
+  });
+
+  it('should replay offline changes on reconnect and converge', async () => {
+    await connect(alice, bob);
+    alice.getDocument()!.setNotes('Serine protease');
+    await vi.advanceTimersByTimeAsync(50);
+    expect(bob.getDocument()!.getNotes()).toBe('Serine protease');
+
+    await bob.setSubscribed(false);
+    bob.getDocument()!.setNotes('Serine protease, chain A');
+    bob.getDocument()!.addMeasurement(measurement);
+    alice.getDocument()!.setNotes('Trypsin-like serine protease');
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(bob.getPendingCount()).toBe(2);
+    expect(bob.getDocument()!.getNotes()).toBe('Serine protease, chain A');
+    expect(alice.getDocument()!.getMeasurements()).toEqual([]);
+
+    const reconnected = bob.setSubscribed(true);
+    await vi.advanceTimersByTimeAsync(100);
+    await reconnected;
+
+    expect(bob.getPendingCount()).toBe(0);
+    expect(alice.getDocument()!.getNotes()).toBe('Trypsin-like serine protease, chain A');
+    expect(bob.getDocument()!.getNotes()).toBe(alice.getDocument()!.getNotes());
+    expect(alice.getDocument()!.getMeasurements()).toEqual([measurement]);
+  });
+
+  it('should notify listeners of remote changes', async () => {
+    const listener = vi.fn();
+    bob.subscribe(listener);
+    await connect(alice, bob);
+    listener.mockClear();
+
+    alice.getDocument()!.addMeasurement(measurement);
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(listener).toHaveBeenCalled();
+    expect(bob.getDocument()!.getMeasurements()).toEqual([measurement]);
+  });
+
+  it('should keep the document when reattaching to the same session', async () => {
+    const document = alice.getDocument();
+    alice.attach(channel, 's1', 'alice');
+    expect(alice.getDocument()).toBe(document);
+
+    alice.attach(channel, 's2', 'alice');
+    expect(alice.getDocument()).not.toBe(document);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Non-Covalent Interaction Detection Tests
+ *
+ * Covers salt bridges, hydrophobic contacts, pi-pi stacking and cation-pi
+ * detection on small hand-built geometries.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateRingGeometry,
+  detectNonCovalentInteractions,
+  findAromaticRings,
+  type InteractionAtom,
+} from '@/utils/interaction-utils';
+
+type Vec3 = [number, number, number];
+
+function atom(
+  chainId: string,
+  residueSeq: number,
+  residueName: string,
+  atomName: string,
+  element: string,
+  position: Vec3
+): InteractionAtom {
+  return { chainId, residueSeq, residueName, atomName, element, position };
+}
+
+/**
+ * Build a planar hexagonal benzene-like ring for PHE in the plane z = height
+ */
+function pheRing(chainId: string, residueSeq: number, center: Vec3, rotateToXZ = false): InteractionAtom[] {
+  const names = ['CG', 'CD1', 'CE1', 'CZ', 'CE2', 'CD2'];
+  return names.map((name, i) => {
+    const theta = (i * Math.PI) / 3;
+    const a = 1.39 * Math.cos(theta);
+    const b = 1.39 * Math.sin(theta);
+    const position: Vec3 = rotateToXZ
+      ? [center[0] + a, center[1], center[2] + b]
+      : [center[0] + a, center[1] + b, center[2]];
+    return atom(chainId, residueSeq, 'PHE', name, 'C', position);
+  });
+}
+
+const ringsOnly = {
+  detectHBonds: false,
+  detectSaltBridges: false,
+  detectHydrophobic: false,
+};
+
+describe('interaction-utils', () => {
+  describe('calculateRingGeometry', () => {
+    it('should compute centroid and unit normal of a planar ring', () => {
+      const ring = pheRing('A', 1, [1, 2, 3]).map(a => a.position);
+      const geometry = calculateRingGeometry(ring)!;
+
+      expect(geometry.centroid[0]).toBeCloseTo(1);
+      expect(geometry.centroid[1]).toBeCloseTo(2);
+      expect(geometry.centroid[2]).toBeCloseTo(3);
+      expect(Math.abs(geometry.normal[2])).toBeCloseTo(1);
+    });
+
+    it('should return null for degenerate input', () => {
+      expect(calculateRingGeometry([[0, 0, 0], [1, 0, 0]])).toBeNull();
+    });
+  });
+
+  describe('salt bridges', () => {
+    it('should detect ARG-ASP pair within cutoff', () => {
+      const atoms = [
+        atom('A', 10, 'ARG', 'NH1', 'N', [0, 0, 0]),
+        atom('A', 10, 'ARG', 'NH2', 'N', [1.2, 0, 0]),
+        atom('A', 40, 'ASP', 'OD1', 'O', [3.1, 0, 0]),
+        atom('A', 40, 'ASP', 'OD2', 'O', [3.1, 1.2, 0]),
+      ];
+
+      const result = detectNonCovalentInteractions(atoms, {
+        detectHBonds: false,
+        detectHydrophobic: false,
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].type).toBe('salt-bridge');
+      expect(result[0].residue1.residueName).toBe('ARG');
+      expect(result[0].residue1.atomName).toBe('NH2');
+      expect(result[0].residue2.residueName).toBe('ASP');
+      expect(result[0].distance).toBeCloseTo(1.9);
+      expect(result[0].energy).toBeLessThan(0);
+    });
+
+    it('should honour the salt bridge distance cutoff', () => {
+      const atoms = [
+        atom('A', 5, 'LYS', 'NZ', 'N', [0, 0, 0]),
+        atom('B', 7, 'GLU', 'OE1', 'O', [4.5, 0, 0]),
+      ];
+      const options = { detectHBonds: false, detectHydrophobic: false };
+
+      expect(detectNonCovalentInteractions(atoms, options)).toHaveLength(0);
+      expect(
+        detectNonCovalentInteractions(atoms, { ...options, cutoffs: { saltBridge: 5.0 } })
+      ).toHaveLength(1);
+    });
+
+    it('should ignore like-charged pairs', () => {
+      const atoms = [
+        atom('A', 5, 'LYS', 'NZ', 'N', [0, 0, 0]),
+        atom('A', 9, 'ARG', 'NH1', 'N', [3, 0, 0]),
+      ];
+
+      expect(detectNonCovalentInteractions(atoms, { detectHBonds: false })).toHaveLength(0);
+    });
+  });
+
+  describe('hydrophobic contacts', () => {
+    it('should detect side-chain carbon contacts between distant residues', () => {
+      const atoms = [
+        atom('A', 12, 'LEU', 'CD1', 'C', [0, 0, 0]),
+        atom('A', 30, 'VAL', 'CG1', 'C', [4, 0, 0]),
+      ];
+
+      const result = detectNonCovalentInteractions(atoms, { detectHBonds: false });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].type).toBe('hydrophobic');
+    });
+
+    it('should skip sequence neighbours and backbone carbons', () => {
+      const atoms = [
+        atom('A', 12, 'LEU', 'CD1', 'C', [0, 0, 0]),
+        atom('A', 13, 'VAL', 'CG1', 'C', [3.8, 0, 0]),
+        atom('A', 40, 'ILE', 'CA', 'C', [0, 3.8, 0]),
+      ];
+
+      expect(detectNonCovalentInteractions(atoms, { detectHBonds: false })).toHaveLength(0);
+    });
+
+    it('should report one contact per residue pair', () => {
+      const atoms = [
+        atom('A', 12, 'LEU', 'CD1', 'C', [0, 0, 0]),
+        atom('A', 12, 'LEU', 'CD2', 'C', [0, 1, 0]),
+        atom('A', 30, 'VAL', 'CG1', 'C', [4, 0, 0]),
+        atom('A', 30, 'VAL', 'CG2', 'C', [3.5, 1, 0]),
+      ];
+
+      const result = detectNonCovalentInteractions(atoms, { detectHBonds: false });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].distance).toBeCloseTo(3.5);
+    });
+
+    it('should include ligand carbons', () => {
+      const atoms = [
+        atom('A', 50, 'PHE', 'CZ', 'C', [0, 0, 0]),
+        { ...atom('B', 1, 'LAC', 'C3', 'C', [3.9, 0, 0]), isHet: true },
+      ];
+
+      const result = detectNonCovalentInteractions(atoms, { detectHBonds: false });
+
+      expect(result.map(i => i.residue2.residueName)).toContain('LAC');
+    });
+  });
+
+  describe('pi-pi stacking', () => {
+    it('should detect parallel stacking with ring geometry', () => {
+      const atoms = [...pheRing('A', 1, [0, 0, 0]), ...pheRing('A', 20, [0.5, 0, 3.7])];
+
+      const result = detectNonCovalentInteractions(atoms, { ...ringsOnly, detectPiPi: true });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].type).toBe('pi-pi');
+      expect(result[0].geometry?.stacking).toBe('parallel');
+      expect(result[0].geometry?.angle).toBeCloseTo(0);
+      expect(result[0].geometry?.offset).toBeCloseTo(0.5);
+      expect(result[0].geometry?.ring1?.centroid[2]).toBeCloseTo(0);
+    });
+
+    it('should detect T-shaped stacking', () => {
+      const atoms = [...pheRing('A', 1, [0, 0, 0]), ...pheRing('A', 20, [0, 0, 5.0], true)];
+
+      const result = detectNonCovalentInteractions(atoms, { ...ringsOnly, detectPiPi: true });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].geometry?.stacking).toBe('t-shaped');
+    });
+
+    it('should reject large lateral offsets and honour the cutoff', () => {
+      const offsetAtoms = [...pheRing('A', 1, [0, 0, 0]), ...pheRing('A', 20, [3, 0, 3.5])];
+      const farAtoms = [...pheRing('A', 1, [0, 0, 0]), ...pheRing('A', 20, [0, 0, 5.5])];
+
+      expect(detectNonCovalentInteractions(offsetAtoms, { ...ringsOnly, detectPiPi: true })).toHaveLength(0);
+      expect(
+        detectNonCovalentInteractions(farAtoms, { ...ringsOnly, detectPiPi: true, cutoffs: { piPi: 5.0 } })
+      ).toHaveLength(0);
+    });
+
+    it('should skip rings with missing atoms', () => {
+      const atoms = pheRing('A', 1, [0, 0, 0]).slice(0, 5);
+
+      expect(findAromaticRings(atoms)).toHaveLength(0);
+    });
+  });
+
+  describe('cation-pi', () => {
+    it('should detect a lysine above an aromatic ring', () => {
+      const atoms = [...pheRing('A', 1, [0, 0, 0]), atom('A', 30, 'LYS', 'NZ', 'N', [0.3, 0, 4.0])];
+
+      const result = detectNonCovalentInteractions(atoms, { ...ringsOnly, detectPiPi: true });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].type).toBe('cation-pi');
+      expect(result[0].residue1.residueName).toBe('LYS');
+      expect(result[0].geometry?.ring2?.atomNames).toHaveLength(6);
+    });
+
+    it('should be disabled independently of pi-pi', () => {
+      const atoms = [...pheRing('A', 1, [0, 0, 0]), atom('A', 30, 'LYS', 'NZ', 'N', [0, 0, 4.0])];
+
+      const result = detectNonCovalentInteractions(atoms, {
+        ...ringsOnly,
+        detectPiPi: true,
+        detectCationPi: false,
+      });
+
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  it('should assign unique ids', () => {
+    const atoms = [
+      atom('A', 10, 'ARG', 'NH1', 'N', [0, 0, 0]),
+      atom('A', 40, 'ASP', 'OD1', 'O', [3.0, 0, 0]),
+      atom('A', 12, 'LEU', 'CD1', 'C', [20, 0, 0]),
+      atom('A', 30, 'VAL', 'CG1', 'C', [24, 0, 0]),
+    ];
+
+    const ids = detectNonCovalentInteractions(atoms).map(i => i.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
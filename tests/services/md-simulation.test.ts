@@ -4,7 +4,12 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { createMDSimulation, MDSimulationService } from '../../src/services/md-simulation';
+import {
+  createMDSimulation,
+  createLinearChainTopology,
+  MDSimulationService,
+} from '../../src/services/md-simulation';
+import { createBox } from '../../src/lib/md-box';
 
 describe('MDSimulationService', () => {
   let mdService: MDSimulationService;
@@ -93,6 +98,242 @@ describe('MDSimulationService', () => {
     });
   });
 
+  describe('Force Field Terms', () => {
+    beforeEach(() => {
+      mdService.setForceField('AMBER');
+    });
+
+    /**
+     * Zig-zag chain with slightly perturbed geometry so every term is non-zero
+     */
+    function zigZag(atomCount: number): Float64Array {
+      const positions = new Float64Array(atomCount * 3);
+      for (let i = 0; i < atomCount; i++) {
+        positions[i * 3] = i * 0.13 + 0.01 * Math.sin(i * 1.7);
+        positions[i * 3 + 1] = (i % 2) * 0.09 + 0.01 * Math.cos(i * 2.3);
+        positions[i * 3 + 2] = 0.05 * Math.sin(i * 0.9);
+      }
+      return positions;
+    }
+
+    it('should give zero angle energy at the equilibrium angle', () => {
+      const theta0 = 1.911;
+      const positions = new Float64Array([
+        0.15, 0, 0,
+        0, 0, 0,
+        0.15 * Math.cos(theta0), 0.15 * Math.sin(theta0), 0,
+      ]);
+      mdService.setTopology({ bonds: [], angles: [[0, 1, 2]], dihedrals: [] });
+
+      const energy = mdService.calculateEnergy(positions, 3);
+
+      expect(energy.angle).toBeCloseTo(0, 6);
+    });
+
+    it('should evaluate periodic dihedral energy', () => {
+      // Trans (phi = 180°) configuration
+      const positions = new Float64Array([
+        0, 1, 0,
+        0, 0, 0,
+        1, 0, 0,
+        1, -1, 0,
+      ]);
+      mdService.setTopology({ bonds: [], angles: [], dihedrals: [[0, 1, 2, 3]] });
+
+      const energy = mdService.calculateEnergy(positions, 4);
+      // AMBER defaults: k = [7.11, -2.09, 26.18], n = [1, 2, 3], phi0 = [0, pi, 0]
+      const expected = 7.11 * (1 + Math.cos(Math.PI)) - 2.09 * (1 + Math.cos(2 * Math.PI - Math.PI)) + 26.18 * (1 + Math.cos(3 * Math.PI));
+
+      expect(energy.dihedral).toBeCloseTo(expected, 4);
+    });
+
+    it('should exclude bonded pairs from nonbonded terms', () => {
+      const positions = new Float64Array([0, 0, 0, 0.15, 0, 0]);
+
+      const energy = mdService.calculateEnergy(positions, 2);
+
+      expect(energy.vdw).toBe(0);
+    });
+
+    it('should compute reaction-field Coulomb energy that vanishes at the cutoff', () => {
+      mdService.setTopology({
+        bonds: [],
+        angles: [],
+        dihedrals: [],
+        charges: new Float32Array([1, -1]),
+      });
+
+      const near = mdService.calculateEnergy(new Float64Array([0, 0, 0, 0.5, 0, 0]), 2);
+      const atCutoff = mdService.calculateEnergy(new Float64Array([0, 0, 0, 1.0, 0, 0]), 2);
+
+      expect(near.coulomb).toBeLessThan(0);
+      expect(atCutoff.coulomb).toBeCloseTo(0, 6);
+    });
+
+    it('should produce analytic forces matching finite differences', () => {
+      const atomCount = 8;
+      const positions = zigZag(atomCount);
+      const charges = new Float32Array(atomCount).map((_, i) => (i % 2 === 0 ? 0.4 : -0.4));
+      mdService.setTopology({ ...createLinearChainTopology(atomCount), charges });
+
+      const forces = new Float64Array(atomCount * 3);
+      mdService.calculateForces(positions, atomCount, forces);
+
+      const h = 1e-6;
+      for (let i = 0; i < positions.length; i++) {
+        const orig = positions[i];
+        positions[i] = orig + h;
+        const ePlus = mdService.calculateEnergy(positions, atomCount).total;
+        positions[i] = orig - h;
+        const eMinus = mdService.calculateEnergy(positions, atomCount).total;
+        positions[i] = orig;
+
+        const numeric = -(ePlus - eMinus) / (2 * h);
+        expect(Math.abs(forces[i] - numeric)).toBeLessThan(1e-4 * Math.max(1, Math.abs(numeric)));
+      }
+    });
+
+    it('should use force field specific parameters', () => {
+      const positions = zigZag(6);
+      const amber = mdService.calculateEnergy(positions, 6);
+
+      mdService.setForceField('CHARMM');
+      const charmm = mdService.calculateEnergy(positions, 6);
+
+      expect(charmm.bond).not.toBeCloseTo(amber.bond);
+      expect(charmm.angle).not.toBeCloseTo(amber.angle);
+      expect(charmm.dihedral).not.toBeCloseTo(amber.dihedral);
+    });
+
+    it('should minimize a 500-atom chain quickly', async () => {
+      const atomCount = 500;
+      const positions = new Float32Array(zigZag(atomCount));
+
+      const start = performance.now();
+      const result = await mdService.minimize(positions, atomCount, {
+        algorithm: 'steepest-descent',
+        maxIterations: 200,
+        tolerance: 10,
+        stepSize: 0.01
+      });
+      const duration = performance.now() - start;
+
+      expect(result.finalEnergy).toBeLessThan(result.initialEnergy);
+      expect(duration).toBeLessThan(10000);
+    });
+  });
+
+  describe('Periodic Boundaries', () => {
+    const noBonds = { bonds: [], angles: [], dihedrals: [] };
+
+    beforeEach(() => {
+      mdService.setForceField('AMBER');
+    });
+
+    it('should interact through the periodic boundary', () => {
+      mdService.setTopology({ ...noBonds, charges: new Float32Array([1, -1]) });
+      // 0.4 nm apart through the boundary of a 3 nm box
+      const positions = new Float64Array([0.2, 1, 1, 2.8, 1, 1]);
+      const open = mdService.calculateEnergy(positions, 2);
+
+      mdService.setBox(createBox('cubic', 3));
+      const periodic = mdService.calculateEnergy(positions, 2);
+      const direct = mdService.calculateEnergy(new Float64Array([0.2, 1, 1, 0.6, 1, 1]), 2);
+
+      expect(open.vdw).toBe(0);
+      expect(open.coulomb).toBe(0);
+      expect(periodic.vdw).toBeCloseTo(direct.vdw, 6);
+      expect(periodic.coulomb).toBeCloseTo(direct.coulomb, 6);
+    });
+
+    it('should match finite-difference forces across the boundary', () => {
+      const atomCount = 6;
+      const positions = new Float64Array([
+        0.1, 0.1, 0.1, 2.85, 0.15, 0.05, 0.05, 2.8, 2.9,
+        1.5, 1.5, 1.5, 1.8, 1.4, 1.6, 2.9, 2.9, 0.2,
+      ]);
+      const charges = new Float32Array([0.5, -0.5, 0.3, -0.3, 0.4, -0.4]);
+      mdService.setTopology({ ...noBonds, charges });
+      mdService.setBox(createBox('rectangular', [3, 3, 3.2]));
+
+      const forces = new Float64Array(atomCount * 3);
+      mdService.calculateForces(positions, atomCount, forces);
+
+      const h = 1e-6;
+      for (let i = 0; i < positions.length; i++) {
+        const orig = positions[i];
+        positions[i] = orig + h;
+        const ePlus = mdService.calculateEnergy(positions, atomCount).total;
+        positions[i] = orig - h;
+        const eMinus = mdService.calculateEnergy(positions, atomCount).total;
+        positions[i] = orig;
+
+        const numeric = -(ePlus - eMinus) / (2 * h);
+        expect(Math.abs(forces[i] - numeric)).toBeLessThan(1e-4 * Math.max(1, Math.abs(numeric)));
+      }
+    });
+
+    it('should be invariant to translating the system through the box', () => {
+      const atomCount = 200;
+      const charges = new Float32Array(atomCount).map((_, i) => (i % 2 === 0 ? 0.3 : -0.3));
+      mdService.setTopology({ ...noBonds, charges });
+
+      // 4 nm box: periodic cell list; 3.5 nm box: fewer than three cells, all pairs
+      for (const edge of [4, 3.5]) {
+        // Jittered 5 x 5 x 8 lattice filling the box
+        const positions = new Float64Array(atomCount * 3);
+        for (let n = 0; n < atomCount; n++) {
+          positions[n * 3] = ((n % 5) + 0.1 * Math.sin(n)) * (edge / 5);
+          positions[n * 3 + 1] = ((Math.floor(n / 5) % 5) + 0.1 * Math.cos(n)) * (edge / 5);
+          positions[n * 3 + 2] = (Math.floor(n / 25) + 0.1 * Math.sin(2 * n)) * (edge / 8);
+        }
+        const shifted = positions.map((v, i) => v + [1.37, -0.61, 2.05][i % 3]);
+
+        mdService.setBox(createBox('cubic', edge));
+        const reference = mdService.calculateEnergy(positions, atomCount);
+        const translated = mdService.calculateEnergy(shifted, atomCount);
+
+        expect(reference.vdw).not.toBe(0);
+        expect(translated.vdw).toBeCloseTo(reference.vdw, 4);
+        expect(translated.coulomb).toBeCloseTo(reference.coulomb, 4);
+      }
+    });
+
+    it('should reject cutoffs longer than half the box', () => {
+      mdService.setBox(createBox('cubic', 2));
+
+      expect(() => mdService.calculateEnergy(new Float64Array(6), 2)).toThrow('half the shortest periodic distance');
+    });
+
+    it('should wrap exported frames into the box', async () => {
+      mdService.setBox(createBox('cubic', 3));
+      const positions = new Float32Array(30).map((_, i) => i * 0.4 - 2);
+
+      await mdService.runSimulation(positions, 10, {
+        temperature: 300,
+        timestep: 1,
+        steps: 100,
+        integrator: 'verlet',
+        forceField: 'AMBER',
+        ensemble: 'NVT',
+        outputFrequency: 10,
+      });
+
+      const frame = mdService.exportForMolStar(0);
+      expect(frame.positions).toHaveLength(30);
+      // The implicit chain is one molecule, so its centroid lies inside the box
+      const centroid = [0, 1, 2].map(d => {
+        let sum = 0;
+        for (let i = 0; i < 10; i++) sum += frame.positions[i * 3 + d];
+        return sum / 10;
+      });
+      centroid.forEach(c => {
+        expect(c).toBeGreaterThanOrEqual(0);
+        expect(c).toBeLessThan(3);
+      });
+    });
+  });
+
   describe('Energy Minimization', () => {
     beforeEach(() => {
       mdService.setForceField('AMBER');
@@ -187,6 +428,118 @@ describe('MDSimulationService', () => {
     });
   });
 
+  describe('Minimization Algorithms', () => {
+    beforeEach(() => {
+      mdService.setForceField('AMBER');
+    });
+
+    function bentChain(atomCount: number): Float32Array {
+      const positions = new Float32Array(atomCount * 3);
+      for (let i = 0; i < atomCount; i++) {
+        positions[i * 3] = i * 0.16;
+        positions[i * 3 + 1] = 0.08 * Math.sin(i * 1.3);
+        positions[i * 3 + 2] = 0.06 * Math.cos(i * 0.7);
+      }
+      return positions;
+    }
+
+    const baseConfig = { maxIterations: 300, tolerance: 1, stepSize: 0.01 };
+
+    it.each(['steepest-descent', 'conjugate-gradient', 'lbfgs'] as const)(
+      '%s should lower the energy and record per-iteration history',
+      async (algorithm) => {
+        const result = await mdService.minimize(bentChain(20), 20, { ...baseConfig, algorithm });
+
+        expect(result.finalEnergy).toBeLessThan(result.initialEnergy);
+        expect(result.history[0]).toEqual({
+          iteration: 0,
+          energy: result.initialEnergy,
+          rmsForce: expect.any(Number),
+        });
+        expect(result.history[result.history.length - 1].energy).toBe(result.finalEnergy);
+        expect(result.rmsForce).toBeCloseTo(result.forceNorm / Math.sqrt(20), 6);
+        // Every accepted step is downhill
+        for (let i = 1; i < result.history.length; i++) {
+          expect(result.history[i].energy).toBeLessThanOrEqual(result.history[i - 1].energy);
+        }
+      }
+    );
+
+    it('should produce different convergence curves per algorithm', async () => {
+      const sd = await mdService.minimize(bentChain(20), 20, { ...baseConfig, algorithm: 'steepest-descent' });
+      const cg = await mdService.minimize(bentChain(20), 20, { ...baseConfig, algorithm: 'conjugate-gradient' });
+      const lbfgs = await mdService.minimize(bentChain(20), 20, { ...baseConfig, algorithm: 'lbfgs' });
+
+      expect(cg.history.map(h => h.energy)).not.toEqual(sd.history.map(h => h.energy));
+      expect(lbfgs.history.map(h => h.energy)).not.toEqual(cg.history.map(h => h.energy));
+      // Quasi-Newton should outperform plain gradient descent for the same budget
+      expect(lbfgs.finalEnergy).toBeLessThan(sd.finalEnergy);
+    });
+
+    it('should report tolerance as the convergence reason', async () => {
+      const positions = new Float32Array([0, 0, 0, 0.2, 0, 0]);
+
+      const result = await mdService.minimize(positions, 2, {
+        algorithm: 'lbfgs',
+        maxIterations: 500,
+        tolerance: 0.01,
+        stepSize: 0.001
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.convergenceReason).toBe('tolerance');
+      expect(result.iterations).toBeLessThan(500);
+      // The stop rule uses the same RMS force the result reports
+      expect(result.rmsForce).toBeLessThan(0.01);
+      expect(result.history[result.history.length - 1].rmsForce).toBe(result.rmsForce);
+    });
+
+    it('should report max-iterations when the budget runs out', async () => {
+      const result = await mdService.minimize(bentChain(20), 20, {
+        algorithm: 'conjugate-gradient',
+        maxIterations: 3,
+        tolerance: 1e-9,
+        stepSize: 0.01
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.convergenceReason).toBe('max-iterations');
+      expect(result.iterations).toBe(3);
+      expect(result.history).toHaveLength(4);
+    });
+
+    it('should report line-search failure when no downhill step exists', async () => {
+      // Tolerance below floating-point resolution forces the search to stall
+      const result = await mdService.minimize(new Float32Array([0, 0, 0, 0.2, 0, 0]), 2, {
+        algorithm: 'conjugate-gradient',
+        maxIterations: 5000,
+        tolerance: 0,
+        stepSize: 0.001
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.convergenceReason).toBe('line-search-failure');
+    });
+
+    it('should honour the L-BFGS history depth', async () => {
+      const shallow = await mdService.minimize(bentChain(20), 20, { ...baseConfig, algorithm: 'lbfgs', historySize: 1 });
+      const deep = await mdService.minimize(bentChain(20), 20, { ...baseConfig, algorithm: 'lbfgs', historySize: 20 });
+
+      expect(shallow.history.map(h => h.energy)).not.toEqual(deep.history.map(h => h.energy));
+    });
+
+    it('should pass RMS force to the progress callback', async () => {
+      const reported: number[] = [];
+
+      await mdService.minimize(bentChain(10), 10, { ...baseConfig, algorithm: 'lbfgs' }, (_iteration, _energy, rmsForce) => {
+        reported.push(rmsForce);
+      });
+
+      expect(reported.length).toBeGreaterThan(0);
+      expect(reported[0]).toBeGreaterThan(0);
+    });
+  });
+
   describe('Molecular Dynamics Simulation', () => {
     beforeEach(() => {
       mdService.setForceField('AMBER');
@@ -100,6 +100,29 @@ END`;
     });
   });
 
+  describe('fetchAlphaFoldPAE', () => {
+    it('should fetch the PAE matrix through the API route', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ size: 2, values: [0, 3, 4, 0], max: 31.75 }),
+      });
+
+      const pae = await pdbService.fetchAlphaFoldPAE('P12345');
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/pdb/alphafold/P12345?pae=true');
+      expect(pae).toEqual({ size: 2, values: [0, 3, 4, 0], max: 31.75 });
+    });
+
+    it('should throw NOT_FOUND when no PAE is available', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+      });
+
+      await expect(pdbService.fetchAlphaFoldPAE('Q99999')).rejects.toThrow();
+    });
+  });
+
   describe('searchStructures', () => {
     it('should search RCSB PDB', async () => {
       const mockSearchResponse = {
@@ -0,0 +1,142 @@
+/**
+ * Session Recorder Test Suite
+ * Tests capturing a session's state at the start of a recording, the events
+ * that follow with their times, and sampling of frequent events
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(() => ({})),
+}));
+
+import { SessionRecorderService } from '@/services/session-recorder';
+import { collaborationSession, type SessionEventListener } from '@/services/collaboration-session';
+import { documentSync } from '@/services/document-sync';
+import { MockRealtimeService } from '@/mocks/services/mock-realtime';
+import type { CollaborationUser } from '@/types/collaboration';
+
+const alice: CollaborationUser = {
+  id: 'alice',
+  name: 'Alice',
+  color: '#FF6B6B',
+  role: 'owner',
+  status: 'active',
+  lastActivity: 0,
+};
+
+const cameraState = {
+  position: [0, 0, 50] as [number, number, number],
+  target: [0, 0, 0] as [number, number, number],
+  zoom: 1,
+  rotation: [0, 0, 0] as [number, number, number],
+};
+
+describe('SessionRecorderService', () => {
+  let recorder: SessionRecorderService;
+  let realtime: MockRealtimeService;
+  let channelListener: SessionEventListener | null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10_000);
+
+    realtime = new MockRealtimeService();
+    documentSync.attach(realtime.channel('session:s1'), 's1', 'alice');
+
+    channelListener = null;
+    vi.spyOn(collaborationSession, 'addEventListener').mockImplementation((listener) => {
+      channelListener = listener;
+      return () => {
+        channelListener = null;
+      };
+    });
+
+    recorder = new SessionRecorderService();
+  });
+
+  afterEach(() => {
+    if (recorder.isRecording()) recorder.stop();
+    documentSync.reset();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function start() {
+    recorder.start({
+      sessionId: 's1',
+      userId: 'alice',
+      structureId: '1CRN',
+      users: [alice],
+      camera: cameraState,
+    });
+  }
+
+  it('should record the session as it is when recording starts', () => {
+    documentSync.getDocument()!.setNotes('Crambin');
+    start();
+
+    const { events } = recorder.stop();
+    expect(events.map((event) => [event.time, event.type])).toEqual([
+      [0, 'structure-change'],
+      [0, 'user-join'],
+      [0, 'camera-update'],
+      [0, 'document-ops'],
+    ]);
+  });
+
+  it('should record channel events and document changes with their times', () => {
+    start();
+
+    vi.advanceTimersByTime(1500);
+    channelListener!('user-leave', { userId: 'alice' });
+    vi.advanceTimersByTime(500);
+    documentSync.getDocument()!.setNotes('Active site');
+    vi.advanceTimersByTime(1000);
+
+    const result = recorder.stop();
+    expect(result).toMatchObject({ sessionId: 's1', startedAt: 10_000, durationMs: 3000 });
+    expect(result.events.slice(3).map((event) => [event.time, event.type])).toEqual([
+      [1500, 'user-leave'],
+      [2000, 'document-ops'],
+    ]);
+  });
+
+  it('should sample camera and cursor updates per user', () => {
+    start();
+
+    vi.advanceTimersByTime(100);
+    recorder.record('camera-update', { userId: 'alice', state: cameraState });
+    vi.advanceTimersByTime(20);
+    recorder.record('camera-update', { userId: 'alice', state: cameraState });
+    recorder.record('camera-update', { userId: 'bob', state: cameraState });
+    vi.advanceTimersByTime(50);
+    recorder.record('camera-update', { userId: 'alice', state: cameraState });
+    channelListener!('cursor-move', { userId: 'bob', x: 1, y: 1, timestamp: 0 });
+    channelListener!('cursor-move', { userId: 'bob', x: 2, y: 2, timestamp: 0 });
+
+    const { events } = recorder.stop();
+    expect(events.slice(3).map((event) => [event.time, event.type])).toEqual([
+      [100, 'camera-update'],
+      [120, 'camera-update'],
+      [170, 'camera-update'],
+      [170, 'cursor-move'],
+    ]);
+  });
+
+  it('should stop listening when stopped', () => {
+    const listener = vi.fn();
+    recorder.subscribe(listener);
+    start();
+    expect(recorder.isRecording()).toBe(true);
+
+    recorder.stop();
+    expect(recorder.isRecording()).toBe(false);
+    expect(channelListener).toBeNull();
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    recorder.record('structure-change', { structureId: '4HHB' });
+    expect(recorder.getEventCount()).toBe(0);
+    expect(() => recorder.stop()).toThrow('Not recording');
+  });
+});
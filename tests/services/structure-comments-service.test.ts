@@ -0,0 +1,178 @@
+/**
+ * Structure Comments Service Test Suite
+ * Tests thread grouping, reply anchoring and resolve permissions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type QueryResult = { data: unknown; error: unknown };
+
+// Chainable query builder that records calls and resolves to a queued result
+function createQuery(result: QueryResult) {
+  const calls: Array<[string, unknown[]]> = [];
+  const query: any = new Proxy({}, {
+    get(_target, prop: string) {
+      if (prop === 'then') {
+        return (resolve: (value: QueryResult) => void) => resolve(result);
+      }
+      if (prop === 'calls') return calls;
+      return (...args: unknown[]) => {
+        calls.push([prop, args]);
+        return query;
+      };
+    },
+  });
+  return query;
+}
+
+const queued: Record<string, QueryResult[]> = {};
+const queries: Record<string, any[]> = {};
+
+const mockSupabaseClient = {
+  from: vi.fn((table: string) => {
+    const query = createQuery(queued[table]?.shift() ?? { data: [], error: null });
+    (queries[table] ??= []).push(query);
+    return query;
+  }),
+  rpc: vi.fn(),
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(() => mockSupabaseClient),
+}));
+
+import { structureCommentsService } from '@/services/structure-comments-service';
+
+function queue(table: string, ...results: QueryResult[]) {
+  (queued[table] ??= []).push(...results);
+}
+
+function commentRow(id: string, parentId: string | null, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    structure_id: 'structure-1',
+    user_id: 'user-2',
+    parent_id: parentId,
+    content: `Comment ${id}`,
+    target_residue: null,
+    position: null,
+    like_count: 0,
+    resolved: false,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    author: { username: 'alex', display_name: 'Alex', avatar_url: null },
+    ...extra,
+  };
+}
+
+describe('StructureCommentsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(queued)) delete queued[key];
+    for (const key of Object.keys(queries)) delete queries[key];
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1' } } });
+  });
+
+  describe('listThreads', () => {
+    it('should group nested replies under their top-level comment', async () => {
+      queue('structure_comments', {
+        data: [
+          commentRow('t1', null, { target_residue: { chainId: 'A', residueSeq: 45, residueName: 'GLU' } }),
+          commentRow('r1', 't1'),
+          commentRow('r2', 'r1'),
+          commentRow('t2', null),
+        ],
+        error: null,
+      });
+      queue('comment_likes', { data: [{ comment_id: 'r1' }], error: null });
+
+      const threads = await structureCommentsService.listThreads('structure-1');
+
+      expect(threads.map((thread) => thread.id)).toEqual(['t1', 't2']);
+      expect(threads[0]!.target).toEqual({ chainId: 'A', residueSeq: 45, residueName: 'GLU' });
+      expect(threads[0]!.replies.map((reply) => reply.id)).toEqual(['r1', 'r2']);
+      expect(threads[0]!.replies[0]!.likedByMe).toBe(true);
+      expect(threads[0]!.author.displayName).toBe('Alex');
+    });
+
+    it('should leave out resolved threads unless asked', async () => {
+      const rows = [commentRow('t1', null, { resolved: true }), commentRow('t2', null)];
+      queue('structure_comments', { data: rows, error: null }, { data: rows, error: null });
+
+      expect((await structureCommentsService.listThreads('structure-1')).map((t) => t.id)).toEqual(['t2']);
+      expect(
+        (await structureCommentsService.listThreads('structure-1', { includeResolved: true })).length
+      ).toBe(2);
+    });
+  });
+
+  describe('addComment', () => {
+    it('should give replies the anchor of the comment they answer', async () => {
+      const target = { chainId: 'A', residueSeq: 45, residueName: 'GLU' };
+      queue('structure_comments',
+        { data: { structure_id: 'structure-1', target_residue: target, position: null, version_number: 3 }, error: null },
+        { data: commentRow('r1', 't1', { target_residue: target, version_number: 3 }), error: null }
+      );
+
+      const reply = await structureCommentsService.addComment('structure-1', {
+        content: '  Agreed, the rotamer looks wrong  ',
+        parentId: 't1',
+        target: { chainId: 'B', residueSeq: 1, residueName: 'SER' },
+      });
+
+      const [, [inserted]] = queries.structure_comments![1].calls.find(([name]: [string]) => name === 'insert');
+      expect(inserted.target_residue).toEqual(target);
+      expect(inserted.version_number).toBe(3);
+      expect(inserted.content).toBe('Agreed, the rotamer looks wrong');
+      expect(reply.target).toEqual(target);
+    });
+
+    it('should reject empty comments', async () => {
+      await expect(
+        structureCommentsService.addComment('structure-1', { content: '   ' })
+      ).rejects.toMatchObject({ name: 'CommentError', code: 'VALIDATION_ERROR' });
+    });
+  });
+
+  describe('updateComment', () => {
+    it('should let a structure admin resolve a thread', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({ data: 'admin', error: null });
+      queue('structure_comments',
+        { data: { user_id: 'user-2', parent_id: null, structure_id: 'structure-1' }, error: null },
+        { data: commentRow('t1', null, { resolved: true, resolved_by: 'user-1' }), error: null }
+      );
+
+      const comment = await structureCommentsService.updateComment('t1', { resolved: true });
+
+      expect(comment.resolved).toBe(true);
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith('structure_permission', {
+        p_structure_id: 'structure-1',
+      });
+      // Resolving never updates the row directly, so content cannot change with it
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith('set_comment_resolved', {
+        p_comment_id: 't1',
+        p_resolved: true,
+      });
+      expect(queries.structure_comments!.flatMap((query) => query.calls).map(([name]: [string]) => name))
+        .not.toContain('update');
+    });
+
+    it('should not let others edit or resolve', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({ data: 'comment', error: null });
+      queue('structure_comments',
+        { data: { user_id: 'user-2', parent_id: null, structure_id: 'structure-1' }, error: null },
+        { data: { user_id: 'user-2', parent_id: null, structure_id: 'structure-1' }, error: null }
+      );
+
+      await expect(structureCommentsService.updateComment('t1', { resolved: true })).rejects.toMatchObject({
+        code: 'PERMISSION_DENIED',
+      });
+      await expect(structureCommentsService.updateComment('t1', { content: 'edited' })).rejects.toMatchObject({
+        code: 'PERMISSION_DENIED',
+      });
+    });
+  });
+});
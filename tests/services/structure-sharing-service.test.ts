@@ -0,0 +1,197 @@
+/**
+ * Structure Sharing Service Test Suite
+ * Tests permission checks, user and link grants, and share link redemption
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { hasPermission } from '@/lib/share-permissions';
+
+type QueryResult = { data: unknown; error: unknown };
+
+// Chainable query builder that records calls and resolves to a queued result
+function createQuery(result: QueryResult) {
+  const calls: Array<[string, unknown[]]> = [];
+  const query: any = new Proxy({}, {
+    get(_target, prop: string) {
+      if (prop === 'then') {
+        return (resolve: (value: QueryResult) => void) => resolve(result);
+      }
+      if (prop === 'calls') return calls;
+      return (...args: unknown[]) => {
+        calls.push([prop, args]);
+        return query;
+      };
+    },
+  });
+  return query;
+}
+
+const queued: Record<string, QueryResult[]> = {};
+const queries: Record<string, any[]> = {};
+
+const mockSupabaseClient = {
+  from: vi.fn((table: string) => {
+    const query = createQuery(queued[table]?.shift() ?? { data: [], error: null });
+    (queries[table] ??= []).push(query);
+    return query;
+  }),
+  rpc: vi.fn(),
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/client', () => ({
+  createClient: vi.fn(() => mockSupabaseClient),
+}));
+
+import { structureSharingService } from '@/services/structure-sharing-service';
+
+function queue(table: string, ...results: QueryResult[]) {
+  (queued[table] ??= []).push(...results);
+}
+
+function shareRow(extra: Record<string, unknown> = {}) {
+  return {
+    id: 'sh1',
+    structure_id: 'structure-1',
+    shared_by: 'user-1',
+    shared_with: null,
+    permission: 'view',
+    share_token: null,
+    expires_at: null,
+    max_views: null,
+    view_count: 0,
+    last_accessed: null,
+    created_at: '2026-10-01T00:00:00Z',
+    ...extra,
+  };
+}
+
+describe('hasPermission', () => {
+  it('should rank owner above admin, edit, comment and view', () => {
+    expect(hasPermission('owner', 'admin')).toBe(true);
+    expect(hasPermission('edit', 'comment')).toBe(true);
+    expect(hasPermission('comment', 'edit')).toBe(false);
+    expect(hasPermission(null, 'view')).toBe(false);
+  });
+});
+
+describe('StructureSharingService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(queued)) delete queued[key];
+    for (const key of Object.keys(queries)) delete queries[key];
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1' } } });
+    mockSupabaseClient.rpc.mockResolvedValue({ data: 'owner', error: null });
+  });
+
+  describe('requireAccess', () => {
+    it('should ask anonymous users to sign in for structures they cannot see', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: null } });
+      mockSupabaseClient.rpc.mockResolvedValue({ data: null, error: null });
+
+      await expect(structureSharingService.requireAccess('structure-1', 'view')).rejects.toMatchObject({
+        name: 'SharingError',
+        code: 'UNAUTHORIZED',
+      });
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith('structure_permission', {
+        p_structure_id: 'structure-1',
+      });
+    });
+
+    it('should refuse levels below the one required', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({ data: 'comment', error: null });
+
+      await expect(structureSharingService.requireAccess('structure-1', 'edit')).rejects.toMatchObject({
+        code: 'PERMISSION_DENIED',
+      });
+      await expect(structureSharingService.requireAccess('structure-1', 'view')).resolves.toBe('comment');
+    });
+  });
+
+  describe('shareWithUser', () => {
+    it('should look up the user and update an existing share', async () => {
+      queue('user_profiles', { data: { id: 'user-2' }, error: null });
+      queue('structure_shares',
+        { data: [{ id: 'sh1' }], error: null },
+        {
+          data: shareRow({ shared_with: 'user-2', permission: 'edit', recipient: { username: 'sam', display_name: 'Sam' } }),
+          error: null,
+        }
+      );
+
+      const share = await structureSharingService.shareWithUser('structure-1', { username: 'sam', permission: 'edit' });
+
+      expect(queries.structure_shares![1].calls).toContainEqual(['update', [{ permission: 'edit', expires_at: null }]]);
+      expect(share.sharedWith).toEqual({ id: 'user-2', username: 'sam', displayName: 'Sam' });
+      expect(share.permission).toBe('edit');
+    });
+
+    it('should only let admins share', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({ data: 'edit', error: null });
+
+      await expect(
+        structureSharingService.shareWithUser('structure-1', { username: 'sam' })
+      ).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createShareLink', () => {
+    it('should create a link with a token, expiry and view limit', async () => {
+      const expiresAt = new Date(Date.now() + 86400000).toISOString();
+      queue('structure_shares', {
+        data: shareRow({ share_token: 'token', expires_at: expiresAt, max_views: 30 }),
+        error: null,
+      });
+
+      const share = await structureSharingService.createShareLink('structure-1', {
+        permission: 'comment',
+        expiresAt,
+        maxViews: 30,
+      });
+
+      const [, [inserted]] = queries.structure_shares![0].calls.find(([name]: [string]) => name === 'insert');
+      expect(inserted).toMatchObject({ permission: 'comment', expires_at: expiresAt, max_views: 30 });
+      expect(inserted.share_token).toMatch(/^[0-9a-f]{48}$/);
+      expect(share.maxViews).toBe(30);
+    });
+
+    it('should reject admin links, past expiry and bad view limits', async () => {
+      await expect(
+        structureSharingService.createShareLink('structure-1', { permission: 'admin' as any })
+      ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      await expect(
+        structureSharingService.createShareLink('structure-1', { expiresAt: '2020-01-01T00:00:00Z' })
+      ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      await expect(
+        structureSharingService.createShareLink('structure-1', { maxViews: 0 })
+      ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+  });
+
+  describe('redeemShareLink', () => {
+    it('should return the structure and access granted by the link', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: [{ structure_id: 'structure-1', permission: 'comment' }],
+        error: null,
+      });
+
+      await expect(structureSharingService.redeemShareLink('token')).resolves.toEqual({
+        structureId: 'structure-1',
+        level: 'comment',
+      });
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith('redeem_structure_share', { p_token: 'token' });
+    });
+
+    it('should report expired links as NOT_FOUND', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({ data: null, error: { message: 'Share link is invalid or has expired' } });
+
+      await expect(structureSharingService.redeemShareLink('old')).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+        message: 'Share link is invalid or has expired',
+      });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Trajectory Service Test Suite
+ * Tests chunked frame storage and retrieval through the cache layer
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TrajectoryCache, TrajectoryService } from '../../src/services/trajectory-service';
+
+const atom = (serial: number, x: number) =>
+  `ATOM  ${String(serial).padStart(5)}  CA  ALA A ${String(serial).padStart(3)}    ${x.toFixed(3).padStart(8)}   2.000   3.000  1.00  0.00           C`;
+
+const TOPOLOGY = [atom(1, 0), atom(2, 4), 'END'].join('\n');
+
+function multiModelPDB(frameCount: number): ArrayBuffer {
+  const lines: string[] = [];
+  for (let m = 0; m < frameCount; m++) {
+    lines.push(`MODEL     ${String(m + 1).padStart(4)}`, atom(1, m), atom(2, 4 + m), 'ENDMDL');
+  }
+  return new TextEncoder().encode(lines.join('\n')).buffer;
+}
+
+/**
+ * In-memory stand-in for the IndexedDB cache
+ */
+function createMemoryCache() {
+  const store = new Map<string, unknown>();
+  const cache: TrajectoryCache = {
+    cacheData: vi.fn(async (key: string, data: unknown) => {
+      store.set(key, data);
+    }),
+    getData: vi.fn(async (key: string) => (store.get(key) ?? null) as never),
+    deleteData: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+  return { store, cache };
+}
+
+describe('TrajectoryService', () => {
+  let store: Map<string, unknown>;
+  let cache: TrajectoryCache;
+  let service: TrajectoryService;
+
+  beforeEach(() => {
+    ({ store, cache } = createMemoryCache());
+    service = new TrajectoryService(cache, 2, 1);
+  });
+
+  it('should store frames in chunks with a metadata entry', async () => {
+    const info = await service.importTrajectory(multiModelPDB(5), 'run.pdb', TOPOLOGY);
+
+    expect(info.format).toBe('pdb');
+    expect(info.frameCount).toBe(5);
+    expect(info.atomCount).toBe(2);
+    expect(info.timeStep).toBeUndefined();
+    expect([...store.keys()].filter(key => key.includes(':chunk:'))).toHaveLength(3);
+    expect(cache.cacheData).toHaveBeenCalledWith(`trajectory:${info.id}:meta`, info, ['trajectory', info.id]);
+  });
+
+  it('should read frames across chunk boundaries', async () => {
+    const { id } = await service.importTrajectory(multiModelPDB(5), 'run.pdb', TOPOLOGY);
+
+    const frame = await service.getFrame(id, 3);
+    expect(frame.index).toBe(3);
+    expect(Array.from(frame.coordinates)).toEqual([3, 2, 3, 7, 2, 3]);
+
+    const frames = await service.getFrames(id, 1, 3);
+    expect(frames.map(f => f.index)).toEqual([1, 2, 3]);
+    await expect(service.getFrame(id, 5)).rejects.toThrow('out of range');
+  });
+
+  it('should reload chunks evicted from memory from the cache', async () => {
+    const { id } = await service.importTrajectory(multiModelPDB(5), 'run.pdb', TOPOLOGY);
+
+    await service.getFrame(id, 0);
+    await service.getFrame(id, 4);
+    await service.getFrame(id, 1);
+
+    const chunkReads = vi.mocked(cache.getData).mock.calls.filter(([key]) => key.includes(':chunk:'));
+    expect(chunkReads.map(([key]) => key.split(':').pop())).toEqual(['0', '2', '0']);
+  });
+
+  it('should reject trajectories that do not match the topology', async () => {
+    const topology = [atom(1, 0), 'END'].join('\n');
+
+    await expect(service.importTrajectory(multiModelPDB(2), 'run.pdb', topology)).rejects.toThrow(
+      'Topology has 1 atoms but run.pdb has 2'
+    );
+    expect(store.size).toBe(0);
+  });
+
+  it('should report frames that expired from the cache', async () => {
+    const { id } = await service.importTrajectory(multiModelPDB(3), 'run.pdb', TOPOLOGY);
+    store.delete(`trajectory:${id}:chunk:1`);
+
+    await expect(service.getFrame(id, 2)).rejects.toThrow('no longer cached');
+  });
+
+  it('should remove every entry of a trajectory', async () => {
+    const { id } = await service.importTrajectory(multiModelPDB(5), 'run.pdb', TOPOLOGY);
+
+    await service.removeTrajectory(id);
+
+    expect(store.size).toBe(0);
+    await expect(service.getInfo(id)).rejects.toThrow('not in the cache');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Session Recording Test Suite
+ * Tests the compact recording format and rebuilding a recorded session with
+ * the replay player
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  RECORDING_FORMAT_VERSION,
+  decodeRecording,
+  encodeRecording,
+  formatPlaybackTime,
+} from '@/lib/session-recording';
+import { CollaborationDocument } from '@/services/collaboration-document';
+import { SessionReplayPlayer } from '@/services/session-replay';
+import type { CollaborationUser, DocumentOperation } from '@/types/collaboration';
+import type { RecordedEvent } from '@/types/session-recording';
+
+const alice: CollaborationUser = {
+  id: 'alice',
+  name: 'Alice',
+  color: '#FF6B6B',
+  role: 'owner',
+  status: 'active',
+  lastActivity: 0,
+};
+
+function notesOperations(text: string): DocumentOperation[] {
+  const document = new CollaborationDocument('alice:1');
+  const operations: DocumentOperation[] = [];
+  document.subscribe((applied) => operations.push(...applied));
+  document.setNotes(text);
+  return operations;
+}
+
+function camera(x: number) {
+  return {
+    userId: 'alice',
+    state: {
+      position: [x, 0, 50] as [number, number, number],
+      target: [0, 0, 0] as [number, number, number],
+      zoom: 1,
+      rotation: [0, 0, 0] as [number, number, number],
+    },
+  };
+}
+
+describe('Recording format', () => {
+  it('should round trip events', () => {
+    const events: RecordedEvent[] = [
+      { time: 0, type: 'structure-change', payload: { structureId: '1CRN' } },
+      { time: 0, type: 'user-join', payload: alice },
+      { time: 1200, type: 'camera-update', payload: camera(10) },
+      { time: 1250, type: 'camera-update', payload: camera(12) },
+      { time: 5000, type: 'user-leave', payload: { userId: 'alice' } },
+    ];
+
+    const encoded = encodeRecording(events);
+
+    expect(encoded.version).toBe(RECORDING_FORMAT_VERSION);
+    expect(encoded.types).toEqual(['structure-change', 'user-join', 'camera-update', 'user-leave']);
+    expect(encoded.events.map(([delta]) => delta)).toEqual([0, 0, 1200, 50, 3750]);
+    expect(decodeRecording(JSON.parse(JSON.stringify(encoded)))).toEqual(events);
+  });
+
+  it('should round camera coordinates but not other payloads', () => {
+    const encoded = encodeRecording([
+      {
+        time: 0,
+        type: 'camera-update',
+        payload: { ...camera(1.23456789), state: { ...camera(1.23456789).state, zoom: 1.5 } },
+      },
+      { time: 10, type: 'user-update', payload: { id: 'alice', lastActivity: 1.23456789 } },
+    ]);
+
+    const [cameraEvent, updateEvent] = decodeRecording(encoded);
+    expect(cameraEvent.payload).toMatchObject({ state: { position: [1.235, 0, 50], zoom: 1.5 } });
+    expect(updateEvent.payload).toEqual({ id: 'alice', lastActivity: 1.23456789 });
+  });
+
+  it('should reject recordings in an unknown format', () => {
+    expect(() => decodeRecording({ version: 99, types: [], events: [] })).toThrow(
+      'Unsupported recording format version 99'
+    );
+    expect(() =>
+      decodeRecording({ version: RECORDING_FORMAT_VERSION, types: [], events: [[0, 3, {}]] })
+    ).toThrow('Unknown event type index 3');
+  });
+
+  it('should format playback times', () => {
+    expect(formatPlaybackTime(0)).toBe('0:00');
+    expect(formatPlaybackTime(65_400)).toBe('1:05');
+    expect(formatPlaybackTime(3_725_000)).toBe('1:02:05');
+  });
+});
+
+describe('SessionReplayPlayer', () => {
+  const events: RecordedEvent[] = [
+    { time: 0, type: 'structure-change', payload: { structureId: '1CRN' } },
+    { time: 0, type: 'user-join', payload: alice },
+    { time: 1000, type: 'camera-update', payload: camera(10) },
+    { time: 2000, type: 'document-ops', payload: { operations: notesOperations('Crambin') } },
+    { time: 3000, type: 'cursor-move', payload: { userId: 'alice', x: 40, y: 60, timestamp: 0 } },
+    { time: 4000, type: 'structure-change', payload: { structureId: '4HHB' } },
+  ];
+
+  let player: SessionReplayPlayer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    player = new SessionReplayPlayer(events, 5000, 1_000_000);
+  });
+
+  afterEach(() => {
+    player.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should start before any event', () => {
+    const state = player.getState();
+
+    expect(state.time).toBe(0);
+    expect(state.durationMs).toBe(5000);
+    expect(state.isPlaying).toBe(false);
+    expect(state.structureId).toBeNull();
+  });
+
+  it('should apply events as playback reaches them', () => {
+    player.play();
+    vi.advanceTimersByTime(2100);
+
+    const state = player.getState();
+    expect(state.isPlaying).toBe(true);
+    expect(state.structureId).toBe('1CRN');
+    expect(state.users.map((user) => user.id)).toEqual(['alice']);
+    expect(state.camera?.position).toEqual([10, 0, 50]);
+    expect(state.notes).toBe('Crambin');
+    expect(state.activities[0]).toMatchObject({
+      type: 'user-join',
+      message: 'Alice joined the session',
+      timestamp: 1_000_000,
+    });
+  });
+
+  it('should play faster at higher speeds and stop at the end', () => {
+    player.setSpeed(4);
+    player.play();
+    vi.advanceTimersByTime(1000);
+    expect(player.getState().structureId).toBe('4HHB');
+
+    vi.advanceTimersByTime(500);
+    const state = player.getState();
+    expect(state.time).toBe(5000);
+    expect(state.isPlaying).toBe(false);
+  });
+
+  it('should seek forwards and back', () => {
+    player.seek(3500);
+    let state = player.getState();
+    expect(state.notes).toBe('Crambin');
+    expect(state.users[0].cursor).toEqual({ x: 40, y: 60, target: undefined });
+
+    player.seek(1500);
+    state = player.getState();
+    expect(state.notes).toBe('');
+    expect(state.camera?.position).toEqual([10, 0, 50]);
+    expect(state.users[0].cursor).toBeUndefined();
+    expect(state.activities).toHaveLength(1);
+  });
+
+  it('should notify listeners and stop notifying once disposed', () => {
+    const listener = vi.fn();
+    player.subscribe(listener);
+
+    player.seek(1000);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ time: 1000 }));
+
+    player.dispose();
+    player.seek(2000);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid speeds', () => {
+    expect(() => player.setSpeed(0)).toThrow('Invalid playback speed 0');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * SMILES Test Suite
+ * Tests SMILES parsing, kekulization, 3D building and SDF output
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildMolecule, parseSmiles, toSDF, type SmilesMolecule } from '../src/lib/smiles';
+import { parsePDB } from '../src/lib/pdb-parser';
+import { METABOLITES, findMetabolite } from '../src/data/metabolites';
+
+function distance(molecule: SmilesMolecule, i: number, j: number): number {
+  const a = molecule.atoms[i];
+  const b = molecule.atoms[j];
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+describe('parseSmiles', () => {
+  it('should add implicit hydrogens and read bracket charges', () => {
+    const pyruvate = parseSmiles('CC(=O)C(=O)[O-]');
+
+    expect(pyruvate.atoms.map((atom) => atom.element)).toEqual(['C', 'C', 'O', 'C', 'O', 'O']);
+    expect(pyruvate.atoms.map((atom) => atom.hydrogens)).toEqual([3, 0, 0, 0, 0, 0]);
+    expect(pyruvate.atoms[5].charge).toBe(-1);
+    expect(pyruvate.bonds.map((bond) => bond.order)).toEqual([1, 2, 1, 2, 1]);
+
+    const lactate = parseSmiles('C[C@@H](C(=O)[O-])O');
+    expect(lactate.atoms[1].hydrogens).toBe(1);
+    expect(lactate.atoms[5].hydrogens).toBe(1);
+  });
+
+  it('should close rings and kekulize aromatic systems', () => {
+    const benzene = parseSmiles('c1ccccc1');
+    expect(benzene.bonds).toHaveLength(6);
+    expect(benzene.bonds.filter((bond) => bond.order === 2)).toHaveLength(3);
+    expect(benzene.atoms.every((atom) => atom.hydrogens === 1)).toBe(true);
+
+    const pyridinium = parseSmiles('c1cc[nH+]cc1');
+    expect(pyridinium.atoms[3]).toMatchObject({ hydrogens: 1, charge: 1 });
+    expect(pyridinium.bonds.filter((bond) => bond.order === 2)).toHaveLength(3);
+
+    const pyrrole = parseSmiles('c1cc[nH]c1');
+    expect(pyrrole.bonds.filter((bond) => bond.order === 2)).toHaveLength(2);
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => parseSmiles('C1CC')).toThrow('Unclosed ring');
+    expect(() => parseSmiles('CC(C')).toThrow('Unclosed branch');
+    expect(() => parseSmiles('CC)C')).toThrow('Unmatched');
+    expect(() => parseSmiles('c1cccc1')).toThrow('kekulize');
+  });
+
+  it('should parse every pathway metabolite', () => {
+    for (const metabolite of METABOLITES) {
+      expect(() => parseSmiles(metabolite.smiles), metabolite.name).not.toThrow();
+    }
+    expect(findMetabolite('2x L-Lactate')?.id).toBe('lactate');
+    expect(findMetabolite('2x 1,3BPG')?.id).toBe('13bpg');
+  });
+});
+
+describe('buildMolecule', () => {
+  it('should give sensible bond lengths and angles', () => {
+    const ethanol = buildMolecule('CCO');
+
+    expect(ethanol.atoms).toHaveLength(9);
+    expect(distance(ethanol, 0, 1)).toBeCloseTo(1.52, 1);
+    expect(distance(ethanol, 1, 2)).toBeCloseTo(1.42, 1);
+    // C-C-O angle near tetrahedral puts the 1-3 distance near 2.4 Å
+    expect(distance(ethanol, 0, 2)).toBeGreaterThan(2.3);
+    expect(distance(ethanol, 0, 2)).toBeLessThan(2.55);
+  });
+
+  it('should build flat aromatic rings', () => {
+    const benzene = buildMolecule('c1ccccc1');
+    const ring = benzene.atoms.slice(0, 6);
+    const centre = ['x', 'y', 'z'].map((axis) => ring.reduce((sum, atom) => sum + atom[axis as 'x'], 0) / 6);
+
+    for (let i = 0; i < 6; i++) {
+      expect(distance(benzene, i, (i + 1) % 6)).toBeCloseTo(1.4, 1);
+      const radius = Math.hypot(ring[i].x - centre[0], ring[i].y - centre[1], ring[i].z - centre[2]);
+      expect(radius).toBeCloseTo(1.4, 1);
+    }
+  });
+
+  it('should keep non-bonded heavy atoms apart in larger ligands', () => {
+    const molecule = buildMolecule('NC(=O)c1ccc[n+](c1)C1OC(COP([O-])(=O)OP([O-])(=O)OCC2OC(C(O)C2O)n2cnc3c(N)ncnc23)C(O)C1O');
+    const bonded = new Set(molecule.bonds.map((bond) => `${bond.atom1}:${bond.atom2}`));
+    const heavy = molecule.atoms.flatMap((atom, i) => (atom.element === 'H' ? [] : [i]));
+
+    let closest = Infinity;
+    for (const i of heavy) {
+      for (const j of heavy) {
+        if (j > i && !bonded.has(`${i}:${j}`)) closest = Math.min(closest, distance(molecule, i, j));
+      }
+    }
+    expect(closest).toBeGreaterThan(2);
+  });
+});
+
+describe('toSDF', () => {
+  it('should round trip through the SDF parser with charges and orders', async () => {
+    const molecule = buildMolecule('CC(=O)C(=O)[O-]');
+    const structure = await parsePDB(toSDF(molecule, 'pyruvate'));
+
+    expect(structure.format).toBe('sdf');
+    expect(structure.metadata.id).toBe('pyruvate');
+    expect(structure.atoms).toHaveLength(molecule.atoms.length);
+    expect(structure.atoms[5].charge).toBe('1-');
+    expect(structure.bonds.filter((bond) => bond.order === 2)).toHaveLength(2);
+    expect(structure.atoms[0].x).toBeCloseTo(molecule.atoms[0].x, 3);
+  });
+});
@@ -12,6 +12,7 @@ import { renderHook, act } from '@testing-library/react';
 import {
   useSelectionStore,
   useExtendedSelections,
+  useSavedSelections,
   type AtomSelection,
   type ResidueSelection,
   type Selection,
@@ -29,6 +30,7 @@ beforeEach(() => {
     measurementType: null,
     maxSelections: 0,
     autoTriggerMeasurement: false,
+    savedSelections: [],
   });
 });
 
@@ -514,4 +516,37 @@ describe('SelectionStore (Zustand)', () => {
       expect(parsed.state.selections[0].atomId).toBe('persist-test-1');
     });
   });
+
+  describe('saved selections', () => {
+    it('should save, replace and remove named expressions', () => {
+      const { result } = renderHook(() => useSavedSelections());
+
+      act(() => {
+        result.current.saveSelection(' active site ', 'within 5 of resn NAD');
+        result.current.saveSelection('loop', 'chain A and resi 98-110');
+        result.current.saveSelection('active site', 'byres within 4 of resn NAD');
+      });
+
+      expect(result.current.savedSelections.map((saved) => [saved.name, saved.expression])).toEqual([
+        ['loop', 'chain A and resi 98-110'],
+        ['active site', 'byres within 4 of resn NAD'],
+      ]);
+
+      act(() => {
+        result.current.removeSavedSelection('loop');
+      });
+      expect(result.current.savedSelections).toHaveLength(1);
+
+      const parsed = JSON.parse(localStorage.getItem('selection-store')!);
+      expect(parsed.state.savedSelections[0].name).toBe('active site');
+    });
+
+    it('should reject invalid expressions and missing names', () => {
+      const { result } = renderHook(() => useSavedSelections());
+
+      expect(() => result.current.saveSelection('bad', 'chain A and')).toThrow("Expected a selection after 'and'");
+      expect(() => result.current.saveSelection('  ', 'protein')).toThrow('Selection name is required');
+      expect(result.current.savedSelections).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,107 @@
+/**
+ * Structure Comparison Test Suite
+ * Tests sequence-guided superposition, per-residue deviations and layout matrices
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CAResidue,
+  caResidues,
+  combineDeviations,
+  compareStructures,
+  sideBySideOffsets,
+  superpositionMatrix,
+} from '../src/lib/structure-comparison';
+import type { Atom } from '../src/lib/pdb-parser';
+
+const makeCA = (chainId: string, residueSeq: number, residueName: string, position: number[]): CAResidue => ({
+  chainId,
+  residueSeq,
+  residueName,
+  position: position as [number, number, number],
+});
+
+const TRACE = [
+  [0, 0, 0],
+  [3.8, 0, 0],
+  [5.1, 3.6, 0],
+  [4.2, 5.9, 2.8],
+  [1.0, 6.7, 4.1],
+  [-1.3, 4.0, 5.6],
+];
+const NAMES = ['MET', 'ALA', 'LYS', 'GLY', 'LEU', 'SER'];
+
+/**
+ * Rotate 90° about z and shift
+ */
+const moved = ([x, y, z]: number[]): number[] => [-y + 10, x - 4, z + 2];
+
+/**
+ * Apply a 4x4 column-major matrix to a point
+ */
+const applyMatrix = (m: number[], [x, y, z]: number[]): number[] => [
+  m[0] * x + m[4] * y + m[8] * z + m[12],
+  m[1] * x + m[5] * y + m[9] * z + m[13],
+  m[2] * x + m[6] * y + m[10] * z + m[14],
+];
+
+describe('structure-comparison', () => {
+  it('should superpose a moved copy with an insertion onto the reference', () => {
+    const reference = TRACE.map((position, i) => makeCA('A', i + 1, NAMES[i], position));
+    // Mobile lacks GLY4 and is numbered from 10 on chain B
+    const mobile = TRACE.filter((_, i) => i !== 3).map((position, i) =>
+      makeCA('B', i + 10, NAMES.filter((_, j) => j !== 3)[i], moved(position))
+    );
+
+    const comparison = compareStructures(reference, mobile);
+    expect(comparison.alignedCount).toBe(5);
+    expect(comparison.rmsd).toBeLessThan(1e-6);
+    expect(comparison.mobile.map(r => r.residueSeq)).toEqual([10, 11, 12, 13, 14]);
+    expect(comparison.reference.map(r => r.residueName)).toEqual(['MET', 'ALA', 'LYS', 'LEU', 'SER']);
+
+    // The matrix carries mobile coordinates onto the reference
+    const matrix = superpositionMatrix(comparison.superposition);
+    applyMatrix(matrix, mobile[4].position).forEach((value, d) => expect(value).toBeCloseTo(TRACE[5][d], 6));
+  });
+
+  it('should report per-residue deviations and reject unrelated traces', () => {
+    const reference = TRACE.map((position, i) => makeCA('A', i + 1, NAMES[i], position));
+    const mobile = reference.map((residue, i) =>
+      makeCA('A', residue.residueSeq, residue.residueName, i === 5 ? [-1.3, 4.0, 7.6] : residue.position)
+    );
+
+    const comparison = compareStructures(reference, mobile);
+    const deviations = comparison.reference.map(r => r.value);
+    expect(deviations[5]).toBe(Math.max(...deviations));
+    expect(comparison.rmsd).toBeGreaterThan(0);
+
+    const combined = combineDeviations([comparison.reference, comparison.reference.map(r => ({ ...r, value: 0 }))]);
+    expect(combined[5].value).toBeCloseTo(deviations[5] / Math.SQRT2, 6);
+
+    expect(() => compareStructures(reference, [makeCA('A', 1, 'TRP', [0, 0, 0])])).toThrow('Too few aligned residues');
+  });
+
+  it('should extract C-alpha atoms and lay structures out along x', () => {
+    const atom = (name: string, resSeq: number, element: string, altLoc?: string): Atom => ({
+      serial: resSeq,
+      name,
+      altLoc,
+      resName: name === 'CA' && element === 'CA' ? 'CA' : 'ALA',
+      chainID: 'A',
+      resSeq,
+      x: resSeq,
+      y: 0,
+      z: 0,
+      occupancy: 1,
+      tempFactor: 0,
+      element,
+    });
+
+    const residues = caResidues([atom('N', 1, 'N'), atom('CA', 1, 'C', 'A'), atom('CA', 1, 'C', 'B'), atom('CA', 2, 'CA')]);
+    expect(residues).toHaveLength(1);
+    expect(residues[0].position).toEqual([1, 0, 0]);
+
+    const offsets = sideBySideOffsets([[makeCA('A', 1, 'ALA', [-5, 0, 0]), makeCA('A', 2, 'ALA', [5, 0, 0])], []]);
+    expect(offsets).toEqual([[0, 0, 0], [20, 0, 0]]);
+  });
+});
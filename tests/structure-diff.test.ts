@@ -0,0 +1,74 @@
+/**
+ * Structure Diff Test Suite
+ * Tests version summaries and the diffs between them
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePDB } from '@/lib/pdb-parser';
+import { describeDiff, diffStructures, isEmptyDiff, summarizeStructure } from '@/lib/structure-diff';
+
+const VERSION_1 = `HEADER    OXIDOREDUCTASE                          01-JAN-24   XXXX
+TITLE     LACTATE DEHYDROGENASE MODEL
+ATOM      1  N   ALA A   1      11.104   6.134  -6.504  1.00  0.00           N
+ATOM      2  CA  ALA A   1      11.639   6.071  -5.147  1.00  0.00           C
+ATOM      3  N   GLY A   2      12.200   7.100  -4.000  1.00  0.00           N
+ATOM      4  CA  GLY A   2      13.100   7.900  -3.500  1.00  0.00           C
+ATOM      5  N   SER B   1      20.000  10.000   0.000  1.00  0.00           N
+END`;
+
+const VERSION_2 = `HEADER    OXIDOREDUCTASE                          01-JAN-24   XXXX
+TITLE     LACTATE DEHYDROGENASE MODEL REFINED
+ATOM      1  N   ALA A   1      11.104   6.134  -6.504  1.00  0.00           N
+ATOM      2  CA  ALA A   1      11.639   6.071  -5.147  1.00  0.00           C
+ATOM      3  N   SER C   1      30.000  10.000   0.000  1.00  0.00           N
+ATOM      4  CA  SER C   1      31.000  10.500   0.500  1.00  0.00           C
+END`;
+
+describe('structure diff', () => {
+  it('should summarise atoms and residues per chain', async () => {
+    const summary = summarizeStructure(await parsePDB(VERSION_1));
+
+    expect(summary.format).toBe('pdb');
+    expect(summary.atomCount).toBe(5);
+    expect(summary.chains).toEqual([
+      { id: 'A', atomCount: 4, residueCount: 2 },
+      { id: 'B', atomCount: 1, residueCount: 1 },
+    ]);
+  });
+
+  it('should report added, removed and changed chains', async () => {
+    const before = summarizeStructure(await parsePDB(VERSION_1));
+    const after = summarizeStructure(await parsePDB(VERSION_2));
+    const diff = diffStructures(before, after);
+
+    expect(diff.atomCount).toEqual({ before: 5, after: 4, delta: -1 });
+    expect(diff.chains.added).toEqual(['C']);
+    expect(diff.chains.removed).toEqual(['B']);
+    expect(diff.chains.changed).toEqual([
+      {
+        id: 'A',
+        atomCount: { before: 4, after: 2, delta: -2 },
+        residueCount: { before: 2, after: 1, delta: -1 },
+      },
+    ]);
+  });
+
+  it('should report metadata changes', async () => {
+    const before = summarizeStructure(await parsePDB(VERSION_1));
+    const after = summarizeStructure(await parsePDB(VERSION_2));
+    const diff = diffStructures(before, after);
+
+    expect(diff.metadata.map((change) => change.field)).toContain('title');
+    expect(describeDiff(diff)).toContain('-1 atom;');
+    expect(describeDiff(diff)).toContain('chain C added');
+    expect(describeDiff(diff)).toContain('chain B removed');
+  });
+
+  it('should find no changes between identical files', async () => {
+    const summary = summarizeStructure(await parsePDB(VERSION_1));
+    const diff = diffStructures(summary, summary);
+
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(describeDiff(diff)).toBe('No structural changes');
+  });
+});
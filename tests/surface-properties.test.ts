@@ -0,0 +1,82 @@
+/**
+ * Surface Properties Test Suite
+ * Tests formal charges, hydrophobicity and Coulomb/Poisson–Boltzmann potentials
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  atomCharges,
+  chargedAtoms,
+  coulombPotential,
+  hydrophobicityValues,
+  isWater,
+  poissonBoltzmannPotential,
+  type ChargedAtom,
+} from '../src/lib/surface-properties';
+import type { Atom } from '../src/types/pdb';
+
+function atom(residue: string, name: string, residueSeq: number, x = 0, isLigand = false): Atom {
+  return {
+    serial: residueSeq * 10,
+    name,
+    residue,
+    chain: 'A',
+    residueSeq,
+    x,
+    y: 0,
+    z: 0,
+    occupancy: 1,
+    tempFactor: 0,
+    element: name === 'ZN' ? 'ZN' : name[0],
+    isLigand,
+  } as Atom;
+}
+
+describe('Surface properties', () => {
+  it('assigns formal charges to termini, charged side chains and ions', () => {
+    const atoms = [
+      atom('LYS', 'N', 1),
+      atom('LYS', 'NZ', 1),
+      atom('GLU', 'N', 2),
+      atom('GLU', 'OE1', 2),
+      atom('GLU', 'OE2', 2),
+      atom('GLU', 'OXT', 2),
+      atom('ZN', 'ZN', 101, 0, true),
+      atom('HOH', 'O', 201, 0, true),
+    ];
+
+    expect(atomCharges(atoms)).toEqual([1, 1, 0, -0.5, -0.5, -1, 2, 0]);
+    expect(atoms.map(isWater)).toEqual([false, false, false, false, false, false, false, true]);
+  });
+
+  it('maps residues to Kyte–Doolittle hydropathy', () => {
+    const values = hydrophobicityValues([atom('ILE', 'CA', 1), atom('ARG', 'CA', 2), atom('HEM', 'FE', 3, 0, true)]);
+
+    expect(values.slice(0, 2)).toEqual([4.5, -4.5]);
+    expect(values[2]).toBeNaN();
+  });
+
+  it('computes a Coulomb potential with a distance-dependent dielectric', () => {
+    const probes = chargedAtoms([atom('LYS', 'NZ', 1), atom('ALA', 'CB', 2, 4), atom('ALA', 'CB', 3, 8)]);
+    const [self, near, far] = coulombPotential(probes);
+
+    expect(self).toBe(0); // An atom's own charge is left out
+    expect(near).toBeCloseTo(332.0636 / (4 * 16) / 0.5925, 3);
+    expect(near / far).toBeCloseTo(4);
+  });
+
+  it('solves the Poisson–Boltzmann equation around a point charge', () => {
+    const ion: ChargedAtom = { x: 0, y: 0, z: 0, charge: 1, radius: 2 };
+    const probe = (x: number): ChargedAtom => ({ x, y: 0, z: 0, charge: 0, radius: 0 });
+    const [, near, mid, far] = poissonBoltzmannPotential([ion, probe(4), probe(6), probe(9)], { spacing: 0.5, maxPoints: 49 });
+
+    // Screened and solvent-damped, so well below the vacuum value but positive and decaying
+    expect(near).toBeGreaterThan(mid);
+    expect(mid).toBeGreaterThan(far);
+    expect(far).toBeGreaterThan(0);
+    expect(near).toBeLessThan(332.0636 / (80 * 4) / 0.5925 * 2);
+
+    const anion = poissonBoltzmannPotential([{ ...ion, charge: -1 }, probe(4)], { spacing: 0.5, maxPoints: 49 });
+    expect(anion[1]).toBeCloseTo(-poissonBoltzmannPotential([ion, probe(4)], { spacing: 0.5, maxPoints: 49 })[1], 3);
+  });
+});
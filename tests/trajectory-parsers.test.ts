@@ -0,0 +1,373 @@
+/**
+ * Trajectory Parser Test Suite
+ * Tests DCD, XTC, TRR and multi-model PDB readers on synthetic files
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTrajectoryReader,
+  detectTrajectoryFormat,
+} from '../src/lib/trajectory-parsers';
+
+/**
+ * Growable big-endian (XDR) or little-endian binary writer
+ */
+class BinaryWriter {
+  private bytes: number[] = [];
+
+  constructor(private littleEndian = false) {}
+
+  int(value: number): this {
+    return this.put(4, view => view.setInt32(0, value, this.littleEndian));
+  }
+
+  float(value: number): this {
+    return this.put(4, view => view.setFloat32(0, value, this.littleEndian));
+  }
+
+  double(value: number): this {
+    return this.put(8, view => view.setFloat64(0, value, this.littleEndian));
+  }
+
+  raw(values: ArrayLike<number>): this {
+    this.bytes.push(...Array.from(values));
+    return this;
+  }
+
+  /**
+   * Fortran unformatted record: length marker, payload, length marker
+   */
+  record(write: (w: BinaryWriter) => void): this {
+    const inner = new BinaryWriter(this.littleEndian);
+    write(inner);
+    const payload = inner.toBytes();
+    return this.int(payload.length).raw(payload).int(payload.length);
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  toBuffer(): ArrayBuffer {
+    return this.toBytes().buffer;
+  }
+
+  private put(size: number, write: (view: DataView) => void): this {
+    const view = new DataView(new ArrayBuffer(size));
+    write(view);
+    return this.raw(new Uint8Array(view.buffer));
+  }
+}
+
+function writeDCD(frames: number[][][], options: { littleEndian: boolean; cell?: number[] }): ArrayBuffer {
+  const w = new BinaryWriter(options.littleEndian);
+  const atomCount = frames[0].length;
+
+  w.record(r => {
+    r.raw(new TextEncoder().encode('CORD'));
+    const icntrl = new Array(20).fill(0);
+    icntrl[0] = frames.length;
+    icntrl[1] = 100; // ISTART
+    icntrl[2] = 10; // NSAVC
+    icntrl[10] = options.cell ? 1 : 0;
+    icntrl[19] = 24; // CHARMM version
+    icntrl.forEach((value, i) => (i === 9 ? r.float(0.5) : r.int(value)));
+  });
+  w.record(r => r.int(1).raw(new TextEncoder().encode('Synthetic DCD'.padEnd(80))));
+  w.record(r => r.int(atomCount));
+
+  for (const frame of frames) {
+    if (options.cell) {
+      w.record(r => options.cell!.forEach(value => r.double(value)));
+    }
+    for (let d = 0; d < 3; d++) {
+      w.record(r => frame.forEach(atom => r.float(atom[d])));
+    }
+  }
+  return w.toBuffer();
+}
+
+// xdrfile's table of bit sizes for small differences
+const MAGIC_INTS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 8, 10, 12, 16, 20, 25, 32, 40, 50, 64,
+  80, 101, 128, 161, 203, 256, 322, 406, 512, 645, 812, 1024, 1290,
+  1625, 2048, 2580, 3250, 4096, 5060, 6501, 8192, 10321, 13003,
+  16384, 20642, 26007, 32768, 41285, 52015, 65536, 82570, 104031,
+  131072, 165140, 208063, 262144, 330280, 416127, 524287, 660561,
+  832255, 1048576, 1321122, 1664510, 2097152, 2642245, 3329021,
+  4194304, 5284491, 6658042, 8388607, 10568983, 13316085, 16777216,
+];
+const FIRST_IDX = 9;
+
+/**
+ * Port of xdrfile's xdrfile_compress_coord_float, including runs of small
+ * differences and the swap of the first two atoms of a run. Coordinates in nm
+ */
+function compressXTC(atoms: number[][], precision: number) {
+  const coords = atoms.map(atom =>
+    atom.map(value => Math.trunc(Math.fround(value * precision + (value >= 0 ? 0.5 : -0.5))))
+  );
+  const minInt = [0, 1, 2].map(d => Math.min(...coords.map(atom => atom[d])));
+  const maxInt = [0, 1, 2].map(d => Math.max(...coords.map(atom => atom[d])));
+  const sizeInt = [0, 1, 2].map(d => maxInt[d] - minInt[d] + 1);
+  const bitSize = (BigInt(sizeInt[0]) * BigInt(sizeInt[1]) * BigInt(sizeInt[2])).toString(2).length;
+
+  let minDiff = Infinity;
+  for (let i = 1; i < coords.length; i++) {
+    minDiff = Math.min(minDiff, [0, 1, 2].reduce((sum, d) => sum + Math.abs(coords[i][d] - coords[i - 1][d]), 0));
+  }
+
+  const bits: number[] = [];
+  const send = (value: number, count: number) => {
+    for (let b = count - 1; b >= 0; b--) bits.push((value >> b) & 1);
+  };
+  // Three integers as one mixed-radix number, least significant byte first
+  const sendInts = (count: number, sizes: number[], nums: number[]) => {
+    let packed = (BigInt(nums[0]) * BigInt(sizes[1]) + BigInt(nums[1])) * BigInt(sizes[2]) + BigInt(nums[2]);
+    let remaining = count;
+    while (remaining > 8) {
+      send(Number(packed & 0xffn), 8);
+      packed >>= 8n;
+      remaining -= 8;
+    }
+    send(Number(packed), remaining);
+  };
+  const near = (a: number[], b: number[], limit: number) =>
+    [0, 1, 2].every(d => Math.abs(a[d] - b[d]) < limit);
+
+  let smallIdx = FIRST_IDX;
+  while (smallIdx < MAGIC_INTS.length && MAGIC_INTS[smallIdx] < minDiff) smallIdx++;
+  const initialSmallIdx = smallIdx;
+  const maxIdx = Math.min(MAGIC_INTS.length, smallIdx + 8);
+  const minIdx = maxIdx - 8;
+  const larger = Math.floor(MAGIC_INTS[maxIdx] / 2);
+  let smaller = Math.floor(MAGIC_INTS[Math.max(FIRST_IDX, smallIdx - 1)] / 2);
+  let smallNum = Math.floor(MAGIC_INTS[smallIdx] / 2);
+
+  let prevCoord = [0, 0, 0];
+  let prevRun = -1;
+  let runs = 0;
+  let i = 0;
+  while (i < coords.length) {
+    let isSmaller = 0;
+    if (smallIdx < maxIdx && i >= 1 && near(coords[i], prevCoord, larger)) {
+      isSmaller = 1;
+    } else if (smallIdx > minIdx) {
+      isSmaller = -1;
+    }
+
+    let isSmall = false;
+    if (i + 1 < coords.length && near(coords[i], coords[i + 1], smallNum)) {
+      // Water compresses better with the oxygen inside the run
+      [coords[i], coords[i + 1]] = [coords[i + 1], coords[i]];
+      isSmall = true;
+    }
+
+    sendInts(bitSize, sizeInt, coords[i].map((value, d) => value - minInt[d]));
+    prevCoord = coords[i];
+    i++;
+
+    if (!isSmall && isSmaller === -1) isSmaller = 0;
+    const small: number[] = [];
+    while (isSmall && small.length < 8 * 3) {
+      const delta = [0, 1, 2].map(d => coords[i][d] - prevCoord[d]);
+      if (isSmaller === -1 && delta.reduce((sum, v) => sum + v * v, 0) >= smaller * smaller) {
+        isSmaller = 0;
+      }
+      small.push(...delta.map(value => value + smallNum));
+      prevCoord = coords[i];
+      i++;
+      isSmall = i < coords.length && near(coords[i], prevCoord, smallNum);
+    }
+
+    const run = small.length;
+    if (run > 0) runs++;
+    if (run !== prevRun || isSmaller !== 0) {
+      prevRun = run;
+      send(1, 1);
+      send(run + isSmaller + 1, 5);
+    } else {
+      send(0, 1); // Same run length as before
+    }
+    const sizeSmall = [MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx]];
+    for (let k = 0; k < run; k += 3) {
+      sendInts(smallIdx, sizeSmall, small.slice(k, k + 3));
+    }
+
+    if (isSmaller !== 0) {
+      smallIdx += isSmaller;
+      if (isSmaller < 0) {
+        smallNum = smaller;
+        smaller = Math.floor(MAGIC_INTS[smallIdx - 1] / 2);
+      } else {
+        smaller = smallNum;
+        smallNum = Math.floor(MAGIC_INTS[smallIdx] / 2);
+      }
+    }
+  }
+
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, b) => {
+    bytes[b >> 3] |= bit << (7 - (b & 7));
+  });
+  return { minInt, maxInt, smallIdx: initialSmallIdx, bytes, runs };
+}
+
+/**
+ * XTC frame; coordinates in nm, stored as floats for up to 9 atoms and
+ * compressed beyond that
+ */
+function writeXTCFrame(w: BinaryWriter, atoms: number[][], step: number, time: number, precision = 1000): void {
+  w.int(1995).int(atoms.length).int(step).float(time);
+  [3, 0, 0, 0, 3, 0, 0, 0, 3].forEach(value => w.float(value));
+  w.int(atoms.length);
+
+  if (atoms.length <= 9) {
+    atoms.forEach(atom => atom.forEach(value => w.float(value)));
+    return;
+  }
+
+  const { minInt, maxInt, smallIdx, bytes } = compressXTC(atoms, precision);
+  w.float(precision);
+  minInt.forEach(value => w.int(value));
+  maxInt.forEach(value => w.int(value));
+  w.int(smallIdx).int(bytes.length).raw(bytes).raw(new Array((4 - (bytes.length % 4)) % 4).fill(0));
+}
+
+function writeTRRFrame(w: BinaryWriter, atoms: number[][], time: number): void {
+  const version = new TextEncoder().encode('GMX_trn_file');
+  w.int(1993).int(13).int(12).raw(version);
+  const sizes = [0, 0, 36, 0, 0, 0, 0, atoms.length * 12, atoms.length * 12, 0];
+  sizes.forEach(size => w.int(size));
+  w.int(atoms.length).int(Math.round(time / 0.002)).int(0);
+  w.float(time).float(0);
+  [2, 0, 0, 0, 2, 0, 0, 0, 2].forEach(value => w.float(value));
+  atoms.forEach(atom => atom.forEach(value => w.float(value))); // x
+  atoms.forEach(() => [0.1, 0.2, 0.3].forEach(value => w.float(value))); // v
+}
+
+const atomsNm = (count: number, shift: number) =>
+  Array.from({ length: count }, (_, i) => [0.1 * i + shift, 0.05 * i + 1, 2 - 0.02 * i]);
+
+describe('Trajectory parsers', () => {
+  it('should read DCD frames, times and unit cells in either byte order', () => {
+    const frames = [
+      [[1, 2, 3], [4, 5, 6], [7, 8, 9]],
+      [[1.5, 2.5, 3.5], [4.5, 5.5, 6.5], [7.5, 8.5, 9.5]],
+    ];
+    const cell = [30, 0, 40, 0, 0, 50]; // A, cos(gamma), B, cos(beta), cos(alpha), C
+
+    for (const littleEndian of [true, false]) {
+      const reader = createTrajectoryReader(writeDCD(frames, { littleEndian, cell }), 'dcd');
+      expect(reader.atomCount).toBe(3);
+      expect(reader.frameCount).toBe(2);
+
+      const frame = reader.readFrame(1);
+      expect(Array.from(frame.coordinates)).toEqual(frames[1].flat());
+      // (ISTART + NSAVC) * DELTA in AKMA time units
+      expect(frame.time).toBeCloseTo(110 * 0.5 * 0.0488882129, 6);
+      expect(frame.box?.lengths).toEqual([30, 40, 50]);
+      frame.box?.angles.forEach(angle => expect(angle).toBeCloseTo(90));
+    }
+  });
+
+  it('should decompress XTC coordinates to Å within the stored precision', () => {
+    const w = new BinaryWriter();
+    const first = atomsNm(12, 0.5);
+    const second = atomsNm(12, 0.7);
+    writeXTCFrame(w, first, 0, 0);
+    writeXTCFrame(w, second, 500, 1);
+
+    const reader = createTrajectoryReader(w.toBuffer(), 'xtc');
+    expect(reader.atomCount).toBe(12);
+    expect(reader.frameCount).toBe(2);
+
+    const frame = reader.readFrame(1);
+    expect(frame.time).toBe(1);
+    expect(frame.box?.lengths).toEqual([30, 30, 30]);
+    second.flat().forEach((value, i) => {
+      expect(frame.coordinates[i]).toBeCloseTo(value * 10, 2);
+    });
+  });
+
+  it('should decompress runs of small differences in water to within the stored precision', () => {
+    // Water on a 0.31 nm grid with jittered orientations, then two distant ions
+    const atoms: number[][] = [];
+    for (let n = 0; n < 24; n++) {
+      const oxygen = [0.31 * (n % 4) + 0.5, 0.31 * (Math.floor(n / 4) % 3) + 0.5, 0.31 * Math.floor(n / 12) + 0.5];
+      const tilt = 0.013 * n;
+      atoms.push(oxygen);
+      atoms.push([oxygen[0] + 0.0957, oxygen[1] + tilt, oxygen[2]]);
+      atoms.push([oxygen[0] - 0.024, oxygen[1] + 0.0927, oxygen[2] - tilt]);
+    }
+    atoms.push([2.9, 0.1, 2.4], [0.2, 2.7, 1.9]);
+
+    for (const precision of [1000, 100]) {
+      expect(compressXTC(atoms, precision).runs).toBeGreaterThan(0);
+
+      const w = new BinaryWriter();
+      writeXTCFrame(w, atoms, 0, 0, precision);
+      const frame = createTrajectoryReader(w.toBuffer(), 'xtc').readFrame(0);
+
+      atoms.flat().forEach((value, i) => {
+        expect(Math.abs(frame.coordinates[i] - value * 10)).toBeLessThanOrEqual(5 / precision + 1e-4);
+      });
+    }
+  });
+
+  it('should read uncompressed XTC frames of small systems', () => {
+    const w = new BinaryWriter();
+    writeXTCFrame(w, atomsNm(3, 0), 0, 2.5);
+
+    const frame = createTrajectoryReader(w.toBuffer(), 'xtc').readFrame(0);
+    expect(frame.time).toBe(2.5);
+    expect(frame.coordinates[3]).toBeCloseTo(1, 5);
+  });
+
+  it('should read TRR coordinates and skip velocities', () => {
+    const w = new BinaryWriter();
+    writeTRRFrame(w, atomsNm(4, 0), 0);
+    writeTRRFrame(w, atomsNm(4, 1), 0.2);
+
+    const reader = createTrajectoryReader(w.toBuffer(), 'trr');
+    expect(reader.atomCount).toBe(4);
+    expect(reader.frameCount).toBe(2);
+
+    const frame = reader.readFrame(1);
+    expect(frame.time).toBeCloseTo(0.2, 6);
+    expect(frame.coordinates[0]).toBeCloseTo(10, 4);
+    expect(frame.coordinates[11]).toBeCloseTo(19.4, 4);
+    expect(frame.box?.lengths).toEqual([20, 20, 20]);
+  });
+
+  it('should read models of a multi-model PDB as frames', () => {
+    const atom = (serial: number, x: number) =>
+      `ATOM  ${String(serial).padStart(5)}  CA  ALA A   1    ${x.toFixed(3).padStart(8)}   2.000   3.000  1.00  0.00           C`;
+    const pdb = ['MODEL        1', atom(1, 1), atom(2, 4), 'ENDMDL', 'MODEL        2', atom(1, 1.5), atom(2, 4.5), 'ENDMDL', 'END'].join('\n');
+
+    const reader = createTrajectoryReader(new TextEncoder().encode(pdb).buffer, 'pdb');
+    expect(reader.frameCount).toBe(2);
+    expect(Array.from(reader.readFrame(1).coordinates)).toEqual([1.5, 2, 3, 4.5, 2, 3]);
+    expect(() => reader.readFrame(2)).toThrow('out of range');
+
+    const mismatched = pdb.replace(`${atom(2, 4.5)}\n`, '');
+    expect(() => createTrajectoryReader(new TextEncoder().encode(mismatched).buffer, 'pdb')).toThrow(
+      'Model 2 has 1 atoms, expected 2'
+    );
+  });
+
+  it('should detect formats from extensions and magic numbers', () => {
+    const xtc = new BinaryWriter();
+    writeXTCFrame(xtc, atomsNm(3, 0), 0, 0);
+    const trr = new BinaryWriter();
+    writeTRRFrame(trr, atomsNm(3, 0), 0);
+
+    expect(detectTrajectoryFormat('run.DCD', new ArrayBuffer(0))).toBe('dcd');
+    expect(detectTrajectoryFormat('traj', xtc.toBuffer())).toBe('xtc');
+    expect(detectTrajectoryFormat('traj', trr.toBuffer())).toBe('trr');
+    expect(detectTrajectoryFormat('traj', writeDCD([[[0, 0, 0]]], { littleEndian: false }))).toBe('dcd');
+    expect(() => detectTrajectoryFormat('notes.txt', new TextEncoder().encode('hello').buffer)).toThrow(
+      'Unrecognized trajectory format'
+    );
+  });
+});